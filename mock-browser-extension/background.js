@@ -9,6 +9,7 @@ console.log('UTags HTTP Proxy extension background script loaded')
 const STORAGE_KEYS = {
   REQUEST_COUNT: 'utags_request_count',
   LAST_ACTIVITY: 'utags_last_activity',
+  NATIVE_BOOKMARKS: 'utags_native_bookmarks',
 }
 
 /**
@@ -111,6 +112,253 @@ async function handleHttpRequest(request) {
   }
 }
 
+/**
+ * Create the simulated native bookmark tree, with the top-level folders of Chrome
+ * @returns {Object[]} The tree, as returned by `chrome.bookmarks.getTree`
+ */
+function createDefaultBookmarkTree() {
+  const now = Date.now()
+  return [
+    {
+      id: '0',
+      title: '',
+      dateAdded: now,
+      children: [
+        {
+          id: '1',
+          parentId: '0',
+          title: 'Bookmarks bar',
+          dateAdded: now,
+          children: [],
+        },
+        {
+          id: '2',
+          parentId: '0',
+          title: 'Other bookmarks',
+          dateAdded: now,
+          children: [],
+        },
+        {
+          id: '3',
+          parentId: '0',
+          title: 'Mobile bookmarks',
+          dateAdded: now,
+          children: [],
+        },
+      ],
+    },
+  ]
+}
+
+/**
+ * Load the simulated native bookmarks. The mock keeps the tree in `chrome.storage.local`
+ * instead of using `chrome.bookmarks`, so it does not touch the real bookmarks of the browser.
+ * @returns {Promise<Object>} The tree, its metadata and the next node ID
+ */
+async function loadNativeBookmarks() {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.NATIVE_BOOKMARKS])
+  return (
+    result[STORAGE_KEYS.NATIVE_BOOKMARKS] || {
+      tree: createDefaultBookmarkTree(),
+      metadata: { version: 'v1', timestamp: Date.now() },
+      nextId: 4,
+    }
+  )
+}
+
+/**
+ * Save the simulated native bookmarks with a new version
+ * @param {Object} nativeBookmarks - The tree, its metadata and the next node ID
+ * @param {string} changedBy - 'utags' for changes applied by the webapp, 'browser' for changes made in the browser
+ * @returns {Promise<Object>} The new metadata
+ */
+async function saveNativeBookmarks(nativeBookmarks, changedBy) {
+  const version =
+    Number.parseInt(nativeBookmarks.metadata.version.replace('v', ''), 10) || 0
+  const metadata = { version: `v${version + 1}`, timestamp: Date.now() }
+  await chrome.storage.local.set({
+    [STORAGE_KEYS.NATIVE_BOOKMARKS]: {
+      ...nativeBookmarks,
+      metadata,
+      changedBy,
+    },
+  })
+  return metadata
+}
+
+/**
+ * Find a node of the tree by ID
+ * @param {Object[]} nodes - The nodes to search
+ * @param {string} id - The node ID
+ * @returns {Object|undefined} The node
+ */
+function findBookmarkNode(nodes, id) {
+  for (const node of nodes) {
+    if (node.id === id) {
+      return node
+    }
+
+    const found = node.children && findBookmarkNode(node.children, id)
+    if (found) {
+      return found
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Find a folder by its path, creating the missing folders below the top-level folder
+ * @param {Object} nativeBookmarks - The tree, its metadata and the next node ID
+ * @param {string[]} path - The folder names, starting with the top-level folder
+ * @returns {Object} The folder
+ */
+function getOrCreateFolder(nativeBookmarks, path) {
+  const [topLevelFolderName, ...folderNames] = path
+  let folder = nativeBookmarks.tree[0].children.find(
+    (node) => !node.url && node.title.trim() === topLevelFolderName
+  )
+  if (!folder) {
+    throw new Error(`Top-level folder not found: ${topLevelFolderName}`)
+  }
+
+  for (const name of folderNames) {
+    let child = folder.children.find(
+      (node) => !node.url && node.title.trim() === name
+    )
+    if (!child) {
+      child = {
+        id: String(nativeBookmarks.nextId++),
+        parentId: folder.id,
+        title: name,
+        dateAdded: Date.now(),
+        children: [],
+      }
+      folder.children.push(child)
+    }
+
+    folder = child
+  }
+
+  return folder
+}
+
+/**
+ * Apply bookmark changes from the webapp to the simulated native tree
+ * @param {Object} payload - The changes and the expected metadata
+ * @returns {Promise<Object>} The new metadata
+ */
+async function applyNativeBookmarkChanges(payload) {
+  const nativeBookmarks = await loadNativeBookmarks()
+  const expectedMeta = payload.metadata
+  if (
+    expectedMeta &&
+    (expectedMeta.version !== nativeBookmarks.metadata.version ||
+      expectedMeta.timestamp !== nativeBookmarks.metadata.timestamp)
+  ) {
+    throw new Error(
+      'Conflict: Expected remote metadata does not match current remote metadata.'
+    )
+  }
+
+  for (const change of payload.changes) {
+    switch (change.type) {
+      case 'create': {
+        const folder = getOrCreateFolder(nativeBookmarks, change.path)
+        folder.children.push({
+          id: String(nativeBookmarks.nextId++),
+          parentId: folder.id,
+          title: change.title,
+          url: change.url,
+          dateAdded: Date.now(),
+        })
+        break
+      }
+
+      case 'update': {
+        const node = findBookmarkNode(nativeBookmarks.tree, change.id)
+        if (node) {
+          node.title = change.title
+        }
+
+        break
+      }
+
+      case 'remove': {
+        const node = findBookmarkNode(nativeBookmarks.tree, change.id)
+        const parent =
+          node && findBookmarkNode(nativeBookmarks.tree, node.parentId)
+        if (parent) {
+          parent.children = parent.children.filter(
+            (child) => child.id !== change.id
+          )
+        }
+
+        break
+      }
+
+      default: {
+        throw new Error(`Unknown change type: ${change.type}`)
+      }
+    }
+  }
+
+  console.log(
+    `[UTags Extension Background] Applied ${payload.changes.length} native bookmark changes`
+  )
+  return saveNativeBookmarks(nativeBookmarks, 'utags')
+}
+
+/**
+ * Add a bookmark to the bookmarks bar, to simulate a change made in the browser
+ * @returns {Promise<Object>} The new metadata
+ */
+async function addSampleNativeBookmark() {
+  const nativeBookmarks = await loadNativeBookmarks()
+  const folder = getOrCreateFolder(nativeBookmarks, ['Bookmarks bar'])
+  const id = String(nativeBookmarks.nextId++)
+  folder.children.push({
+    id,
+    parentId: folder.id,
+    title: `Sample bookmark ${id}`,
+    url: `https://example.com/sample-${id}`,
+    dateAdded: Date.now(),
+  })
+  return saveNativeBookmarks(nativeBookmarks, 'browser')
+}
+
+/**
+ * Handle a native bookmarks request from content script or popup
+ * @param {Object} message - The request
+ * @returns {Promise<Object>} Response object
+ */
+async function handleNativeBookmarksRequest(message) {
+  try {
+    switch (message.type) {
+      case 'GET_NATIVE_BOOKMARKS': {
+        const { tree, metadata } = await loadNativeBookmarks()
+        return { success: true, data: { tree, metadata } }
+      }
+
+      case 'APPLY_NATIVE_BOOKMARK_CHANGES': {
+        const metadata = await applyNativeBookmarkChanges(message.payload)
+        return { success: true, data: { metadata } }
+      }
+
+      default: {
+        const metadata = await addSampleNativeBookmark()
+        return { success: true, data: { metadata } }
+      }
+    }
+  } catch (error) {
+    console.error(
+      '[UTags Extension Background] Native bookmarks request failed:',
+      error
+    )
+    return { success: false, error: error.message }
+  }
+}
+
 /**
  * Message listener for content script communication
  */
@@ -139,6 +387,17 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true
   }
 
+  if (
+    [
+      'GET_NATIVE_BOOKMARKS',
+      'APPLY_NATIVE_BOOKMARK_CHANGES',
+      'ADD_SAMPLE_NATIVE_BOOKMARK',
+    ].includes(message.type)
+  ) {
+    handleNativeBookmarksRequest(message).then(sendResponse)
+    return true
+  }
+
   // Handle other message types if needed
   console.log(
     `[UTags Extension Background] Unknown message type: ${message.type}`
@@ -5,6 +5,8 @@
 
 console.log('UTags HTTP Proxy extension content script loaded')
 
+const NATIVE_BOOKMARKS_STORAGE_KEY = 'utags_native_bookmarks'
+
 /**
  * Handle HTTP request message from webapp
  * @param {Object} message - The HTTP request message
@@ -78,6 +80,74 @@ function sendHttpError(requestId, error, event, details = undefined) {
   event.source.postMessage(errorMessage, event.origin)
 }
 
+/**
+ * Send a sync response back to webapp, in the format of the browser extension sync target protocol
+ * @param {string} requestId - The original request ID
+ * @param {Object} payload - The response payload
+ * @param {MessageEvent} event - The message event
+ * @param {string} error - The error message
+ */
+function sendSyncResponse(requestId, payload, event, error = undefined) {
+  event.source.postMessage(
+    {
+      source: 'utags-extension',
+      id: requestId,
+      extensionId: chrome.runtime.id,
+      payload,
+      error,
+    },
+    event.origin
+  )
+}
+
+/**
+ * Handle discovery broadcast from webapp, announcing the native bookmarks sync target
+ * @param {Object} message - The discovery message
+ * @param {MessageEvent} event - The message event
+ */
+function handleDiscover(message, event) {
+  event.source.postMessage(
+    {
+      type: 'DISCOVERY_RESPONSE',
+      source: 'utags-extension',
+      id: message.id,
+      extensionId: chrome.runtime.id,
+      payload: {
+        extensionId: chrome.runtime.id,
+        extensionName: 'Native Bookmarks (UTags Extension)',
+        nativeBookmarks: true,
+      },
+    },
+    event.origin
+  )
+}
+
+/**
+ * Handle native bookmarks request from webapp
+ * @param {Object} message - The GET_NATIVE_BOOKMARKS or APPLY_NATIVE_BOOKMARK_CHANGES message
+ * @param {MessageEvent} event - The message event
+ */
+function handleNativeBookmarksRequest(message, event) {
+  const { id, type, payload } = message
+
+  chrome.runtime
+    .sendMessage({ type, id, payload })
+    .then((response) => {
+      if (response.success) {
+        sendSyncResponse(id, response.data, event)
+      } else {
+        sendSyncResponse(id, undefined, event, response.error)
+      }
+    })
+    .catch((error) => {
+      console.error(
+        '[UTags Extension] Error communicating with background script:',
+        error
+      )
+      sendSyncResponse(id, undefined, event, 'Extension communication error')
+    })
+}
+
 /**
  * Handle ping message from webapp
  * @param {Object} message - The ping message
@@ -90,6 +160,8 @@ function handlePing(message, event) {
     type: 'PONG',
     source: 'utags-extension',
     id: message.id,
+    extensionId: chrome.runtime.id,
+    payload: { status: 'PONG' },
   }
 
   event.source.postMessage(pongMessage, event.origin)
@@ -121,6 +193,15 @@ function messageListener(event) {
       return
     }
 
+    // Ignore messages for other sync targets
+    if (
+      message.targetExtensionId &&
+      message.targetExtensionId !== '*' &&
+      message.targetExtensionId !== chrome.runtime.id
+    ) {
+      return
+    }
+
     console.log(`[UTags Extension] Received message:`, message.type)
 
     switch (message.type) {
@@ -134,6 +215,22 @@ function messageListener(event) {
         break
       }
 
+      case 'DISCOVER_UTAGS_TARGETS': {
+        handleDiscover(message, event)
+        break
+      }
+
+      case 'GET_AUTH_STATUS': {
+        sendSyncResponse(message.id, { status: 'authenticated' }, event)
+        break
+      }
+
+      case 'GET_NATIVE_BOOKMARKS':
+      case 'APPLY_NATIVE_BOOKMARK_CHANGES': {
+        handleNativeBookmarksRequest(message, event)
+        break
+      }
+
       default: {
         console.log(`[UTags Extension] Unknown message type: ${message.type}`)
       }
@@ -158,6 +255,26 @@ function messageListener(event) {
 // Setup message listener
 window.addEventListener('message', messageListener)
 
+// Notify webapp when the native bookmarks were changed in the browser, so it can sync immediately.
+// Changes applied by the webapp are not pushed, as the webapp made them itself.
+chrome.storage.onChanged.addListener((changes, namespace) => {
+  const change = changes[NATIVE_BOOKMARKS_STORAGE_KEY]
+  if (namespace !== 'local' || change?.newValue?.changedBy !== 'browser') {
+    return
+  }
+
+  window.postMessage(
+    {
+      type: 'DATA_CHANGED',
+      source: 'utags-extension',
+      id: `data-changed-${Date.now()}`,
+      extensionId: chrome.runtime.id,
+      payload: { metadata: change.newValue.metadata },
+    },
+    globalThis.location.origin
+  )
+})
+
 // Announce extension availability
 console.log('[UTags Extension] Content script ready for HTTP proxy requests')
 
@@ -132,6 +132,27 @@ function setupEventListeners() {
         }, 2000)
       }
     })
+
+  // Add a bookmark to the simulated native bookmarks, as if it was added in the browser
+  document
+    .querySelector('#add-sample-bookmark')
+    .addEventListener('click', async () => {
+      const response = await chrome.runtime.sendMessage({
+        type: 'ADD_SAMPLE_NATIVE_BOOKMARK',
+        id: `sample-${Date.now()}`,
+      })
+      if (response.success) {
+        console.log(
+          '[UTags Extension Popup] Sample bookmark added:',
+          response.data.metadata
+        )
+      } else {
+        console.error(
+          '[UTags Extension Popup] Error adding sample bookmark:',
+          response.error
+        )
+      }
+    })
 }
 
 /**
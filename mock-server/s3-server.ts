@@ -0,0 +1,200 @@
+import process from 'node:process'
+import crypto from 'node:crypto'
+import express, {
+  type Request,
+  type Response,
+  type NextFunction,
+} from 'express'
+import { sha256Hex, signS3Request } from '../src/sync/s3-signature.js'
+
+/**
+ * A MinIO-style stand-in for S3-compatible object storage, for testing the S3 sync adapter.
+ * Buckets are created on first upload and kept in memory only. Requests use path-style URLs
+ * (`http://localhost:9000/<bucket>/<key>`) and must be signed with AWS Signature Version 4.
+ */
+const app = express()
+const port = process.env.PORT || 9000 // Mock S3 server port, the MinIO default
+// Access key pair, the MinIO defaults
+const credentials = {
+  accessKeyId: process.env.S3_ACCESS_KEY_ID || 'minioadmin',
+  secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || 'minioadmin',
+}
+
+type StoredObject = {
+  data: string
+  etag: string
+  lastModified: Date
+}
+const buckets = new Map<string, Map<string, StoredObject>>()
+
+// Keep the body as a string, as it is part of the signature
+app.use(express.text({ type: () => true, limit: '50mb' }))
+
+// Add CORS headers
+app.use((req: Request, res: Response, next: NextFunction) => {
+  res.setHeader('Access-Control-Allow-Origin', '*') // Allow all origins
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, DELETE')
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Authorization, Content-Type, If-Match, If-None-Match, X-Amz-Content-Sha256, X-Amz-Date, X-Amz-Security-Token'
+  )
+  res.setHeader('Access-Control-Expose-Headers', 'ETag, Last-Modified')
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(200)
+  } else {
+    next()
+  }
+})
+
+/**
+ * Sends an S3 error response.
+ * @param res - The response.
+ * @param status - The HTTP status.
+ * @param code - The S3 error code.
+ */
+function sendError(res: Response, status: number, code: string): void {
+  res
+    .status(status)
+    .type('application/xml')
+    .send(
+      `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`
+    )
+}
+
+/**
+ * Middleware to verify the AWS Signature Version 4 of a request.
+ */
+async function verifySignature(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const authorization = req.headers.authorization || ''
+  const match =
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=[\da-f]{64}$/.exec(
+      authorization
+    )
+  if (!match || match[1] !== credentials.accessKeyId) {
+    sendError(res, 403, 'InvalidAccessKeyId')
+    return
+  }
+
+  const region = match[2]
+  const signedHeaderNames = match[3]
+  const body = typeof req.body === 'string' ? req.body : ''
+  if (req.headers['x-amz-content-sha256'] !== (await sha256Hex(body))) {
+    sendError(res, 400, 'XAmzContentSHA256Mismatch')
+    return
+  }
+
+  const headers: Record<string, string> = {}
+  for (const name of signedHeaderNames.split(';')) {
+    if (name !== 'host') {
+      headers[name] = req.get(name) || ''
+    }
+  }
+
+  const amzDate = req.get('x-amz-date') || ''
+  const expected = await signS3Request(
+    {
+      method: req.method,
+      url: new URL(`${req.protocol}://${req.get('host')}${req.originalUrl}`),
+      headers,
+      body,
+    },
+    credentials,
+    region,
+    new Date(
+      amzDate.replace(
+        /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+        '$1-$2-$3T$4:$5:$6Z'
+      )
+    )
+  )
+  if (expected.authorization !== authorization) {
+    sendError(res, 403, 'SignatureDoesNotMatch')
+    return
+  }
+
+  next()
+}
+
+/**
+ * Sets the ETag and Last-Modified headers of an object.
+ * @param res - The response.
+ * @param object - The object.
+ */
+function setObjectHeaders(res: Response, object: StoredObject): void {
+  res.setHeader('ETag', `"${object.etag}"`)
+  res.setHeader('Last-Modified', object.lastModified.toUTCString())
+}
+
+/**
+ * Gets the object key of a request.
+ * @param req - The request.
+ * @returns The object key.
+ */
+function getObjectKey(req: Request): string {
+  return (req.params.key as unknown as string[]).join('/')
+}
+
+// HEAD bucket. Any bucket exists, so clients can connect before the first upload
+app.head('/:bucket', verifySignature, (req: Request, res: Response) => {
+  res.sendStatus(200)
+})
+
+// HEAD or GET object
+app.get('/:bucket/*key', verifySignature, (req: Request, res: Response) => {
+  const object = buckets.get(req.params.bucket)?.get(getObjectKey(req))
+  if (!object) {
+    sendError(res, 404, 'NoSuchKey')
+    return
+  }
+
+  setObjectHeaders(res, object)
+  res.status(200).type('application/octet-stream').send(object.data)
+})
+
+// PUT object, supporting the If-Match and If-None-Match conditions
+app.put('/:bucket/*key', verifySignature, (req: Request, res: Response) => {
+  const { bucket } = req.params
+  const key = getObjectKey(req)
+  const objects = buckets.get(bucket) || new Map<string, StoredObject>()
+  const existing = objects.get(key)
+  const ifMatch = req.get('if-match')
+  const ifNoneMatch = req.get('if-none-match')
+
+  if (
+    (ifMatch && (!existing || ifMatch.replaceAll('"', '') !== existing.etag)) ||
+    (ifNoneMatch === '*' && existing)
+  ) {
+    sendError(res, 412, 'PreconditionFailed')
+    return
+  }
+
+  const data = typeof req.body === 'string' ? req.body : ''
+  const object: StoredObject = {
+    data,
+    etag: crypto.createHash('md5').update(data).digest('hex'),
+    lastModified: new Date(),
+  }
+  objects.set(key, object)
+  buckets.set(bucket, objects)
+
+  res.setHeader('ETag', `"${object.etag}"`)
+  res.sendStatus(200)
+})
+
+// DELETE object. Succeeds whether or not the object exists
+app.delete('/:bucket/*key', verifySignature, (req: Request, res: Response) => {
+  buckets.get(req.params.bucket)?.delete(getObjectKey(req))
+  res.sendStatus(204)
+})
+
+app.listen(port, () => {
+  console.log(`Mock S3 server listening on http://localhost:${port}`)
+  console.log(
+    `Access key ID: ${credentials.accessKeyId}, secret access key: ${credentials.secretAccessKey}`
+  )
+})
@@ -17,6 +17,23 @@ const port = process.env.PORT || 3001 // Mock server port
 const MOCK_DATA_DIR = path.join(__dirname, '.mock-data') // Directory to store mock data files
 // eslint-disable-next-line @typescript-eslint/naming-convention
 const AUTH_TOKEN = 'test-auth-token' // Example auth token
+// Cursors include the server start time, so cursors from before a restart are rejected
+// eslint-disable-next-line @typescript-eslint/naming-convention
+const SERVER_ID = Date.now().toString(36)
+
+/**
+ * Change log of a file, for the delta sync protocol. Kept in memory only.
+ */
+type ChangeLog = {
+  /** The first revision changes can be requested since */
+  firstRevision: number
+  /** The current revision */
+  revision: number
+  /** Revision of the last change of each URL, including removed URLs */
+  urlRevisions: Record<string, number>
+}
+const changeLogs = new Map<string, ChangeLog>()
+let lastRevision = 0
 
 app.use(express.json()) // Middleware to parse JSON bodies
 
@@ -25,12 +42,16 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   res.setHeader('Access-Control-Allow-Origin', '*') // Allow all origins
   res.setHeader(
     'Access-Control-Allow-Methods',
-    'GET, POST, PUT, DELETE, OPTIONS'
+    'GET, POST, PUT, PATCH, DELETE, OPTIONS'
   )
   res.setHeader(
     'Access-Control-Allow-Headers',
     'Content-Type, Authorization, X-API-Key, If-Match'
   )
+  res.setHeader(
+    'Access-Control-Expose-Headers',
+    'ETag, Last-Modified, X-Sync-Cursor'
+  )
   // Handle preflight requests
   if (req.method === 'OPTIONS') {
     res.sendStatus(200)
@@ -61,6 +82,120 @@ function calculateSha(data: string | Buffer): string {
   return crypto.createHash('sha256').update(data).digest('hex')
 }
 
+/**
+ * Reads a file, or returns undefined if it does not exist.
+ * @param fullPath - The path of the file.
+ * @returns The file content.
+ */
+async function readFileIfExists(fullPath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(fullPath, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Gets the bookmarks data of a file.
+ * @param content - The file content.
+ * @returns The bookmarks data, or undefined if the file is not a plain bookmarks store (e.g. encrypted).
+ */
+function getBookmarksData(
+  content: string | undefined
+): Record<string, unknown> | undefined {
+  try {
+    const store = JSON.parse(content || '') as
+      | { data?: Record<string, unknown> }
+      | undefined
+    return store?.data && typeof store.data === 'object'
+      ? store.data
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Formats a revision as a delta sync cursor.
+ * @param revision - The revision.
+ * @returns The cursor.
+ */
+function formatCursor(revision: number): string {
+  return `${SERVER_ID}-${revision}`
+}
+
+/**
+ * Parses a delta sync cursor.
+ * @param cursor - The cursor.
+ * @returns The revision, or undefined if the cursor was not issued by this server instance.
+ */
+function parseCursor(cursor: unknown): number | undefined {
+  if (typeof cursor !== 'string' || !cursor.startsWith(`${SERVER_ID}-`)) {
+    return undefined
+  }
+
+  return Number(cursor.slice(SERVER_ID.length + 1))
+}
+
+/**
+ * Records the changes of a file in its change log.
+ * Files that are not plain bookmarks stores have no change log, so clients fall back to whole file sync.
+ * @param filePath - The file path.
+ * @param oldContent - The previous file content.
+ * @param newContent - The new file content.
+ * @returns The change log, or undefined if the file has no change log.
+ */
+function recordChanges(
+  filePath: string,
+  oldContent: string | undefined,
+  newContent: string
+): ChangeLog | undefined {
+  const newBookmarks = getBookmarksData(newContent)
+  if (!newBookmarks) {
+    changeLogs.delete(filePath)
+    return undefined
+  }
+
+  lastRevision++
+  const oldBookmarks = getBookmarksData(oldContent) || {}
+  const changeLog = changeLogs.get(filePath) || {
+    firstRevision: lastRevision,
+    revision: lastRevision,
+    urlRevisions: {},
+  }
+  changeLog.revision = lastRevision
+  for (const url of new Set([
+    ...Object.keys(oldBookmarks),
+    ...Object.keys(newBookmarks),
+  ])) {
+    if (
+      JSON.stringify(oldBookmarks[url]) !== JSON.stringify(newBookmarks[url])
+    ) {
+      changeLog.urlRevisions[url] = lastRevision
+    }
+  }
+
+  changeLogs.set(filePath, changeLog)
+  return changeLog
+}
+
+/**
+ * Gets the change log of a file. Files written before the server started get a new change log.
+ * @param filePath - The file path.
+ * @param content - The current file content.
+ * @returns The change log, or undefined if the file has no change log.
+ */
+function getChangeLog(
+  filePath: string,
+  content: string
+): ChangeLog | undefined {
+  return changeLogs.get(filePath) || recordChanges(filePath, undefined, content)
+}
+
 /**
  * Middleware to check for Authorization header.
  */
@@ -88,6 +223,59 @@ function authenticateToken(req: Request, res: Response, next: NextFunction) {
   next()
 }
 
+// Endpoint to get the changes since a cursor (delta sync protocol)
+app.get(
+  '/:filePath/changes',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const { filePath } = req.params
+    const fullPath = path.join(MOCK_DATA_DIR, filePath)
+
+    try {
+      const content = await readFileIfExists(fullPath)
+      const changeLog = content && getChangeLog(filePath, content)
+      const since = parseCursor(req.query.since)
+      if (
+        !changeLog ||
+        since === undefined ||
+        since < changeLog.firstRevision ||
+        since > changeLog.revision
+      ) {
+        res.status(410).json({ message: 'Gone: Unknown cursor' })
+        return
+      }
+
+      const store = JSON.parse(content) as {
+        data: Record<string, unknown>
+        meta: unknown
+      }
+      const changed: Record<string, unknown> = {}
+      const deleted: string[] = []
+      for (const [url, revision] of Object.entries(changeLog.urlRevisions)) {
+        if (revision <= since) {
+          continue
+        }
+
+        if (store.data[url]) {
+          changed[url] = store.data[url]
+        } else {
+          deleted.push(url)
+        }
+      }
+
+      res.status(200).json({
+        cursor: formatCursor(changeLog.revision),
+        changed,
+        deleted,
+        meta: store.meta,
+      })
+    } catch (error: any) {
+      console.error(`Error getting changes of ${filePath}:`, error)
+      res.status(500).json({ message: 'Internal server error' })
+    }
+  }
+)
+
 // Endpoint to get file metadata
 app.get(
   '/:filePath',
@@ -101,6 +289,11 @@ app.get(
       // If not requesting metadata, assume it's a regular file download request
       try {
         const data = await fs.readFile(fullPath, 'utf8')
+        const changeLog = getChangeLog(filePath, data)
+        if (changeLog) {
+          res.setHeader('X-Sync-Cursor', formatCursor(changeLog.revision))
+        }
+
         res.status(200).json(JSON.parse(data))
         return // Added return
       } catch (error: any) {
@@ -177,9 +370,19 @@ app.put(
         }
       }
 
-      await fs.writeFile(fullPath, JSON.stringify(dataToSave, null, 2), 'utf8')
+      const newContent = JSON.stringify(dataToSave, null, 2)
+      const changeLog = recordChanges(
+        filePath,
+        await readFileIfExists(fullPath),
+        newContent
+      )
+      await fs.writeFile(fullPath, newContent, 'utf8')
       const stats = await fs.stat(fullPath)
-      const newSha = calculateSha(JSON.stringify(dataToSave, null, 2))
+      const newSha = calculateSha(newContent)
+      const cursor = changeLog && formatCursor(changeLog.revision)
+      if (cursor) {
+        res.setHeader('X-Sync-Cursor', cursor)
+      }
 
       res.status(200).json({
         message: 'File uploaded successfully',
@@ -187,6 +390,7 @@ app.put(
         sha: newSha,
         size: stats.size,
         id: filePath,
+        cursor,
       })
       // Added return
     } catch (error: any) {
@@ -197,6 +401,58 @@ app.put(
   }
 )
 
+// Endpoint to upload the changes since a cursor (delta sync protocol)
+app.patch(
+  '/:filePath',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    const { filePath } = req.params
+    const fullPath = path.join(MOCK_DATA_DIR, filePath)
+    const { since, changed, deleted, meta } = req.body as {
+      since: string
+      changed: Record<string, unknown>
+      deleted: string[]
+      meta: unknown
+    }
+
+    try {
+      const content = await readFileIfExists(fullPath)
+      const changeLog = content && getChangeLog(filePath, content)
+      if (!changeLog || parseCursor(since) !== changeLog.revision) {
+        res
+          .status(409)
+          .json({ message: 'Conflict: The file changed since the cursor' })
+        return
+      }
+
+      const data = { ...getBookmarksData(content), ...changed }
+      for (const url of deleted) {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete data[url]
+      }
+
+      const newContent = JSON.stringify({ data, meta }, null, 2)
+      recordChanges(filePath, content, newContent)
+      await fs.writeFile(fullPath, newContent, 'utf8')
+      const stats = await fs.stat(fullPath)
+      const cursor = formatCursor(changeLog.revision)
+      res.setHeader('X-Sync-Cursor', cursor)
+
+      res.status(200).json({
+        message: 'Changes applied successfully',
+        lastModified: stats.mtime.getTime(),
+        sha: calculateSha(newContent),
+        size: stats.size,
+        id: filePath,
+        cursor,
+      })
+    } catch (error: any) {
+      console.error(`Error applying changes to ${filePath}:`, error)
+      res.status(500).json({ message: 'Internal server error' })
+    }
+  }
+)
+
 // Endpoint to check auth status (example)
 app.get('/auth/status', authenticateToken, (req: Request, res: Response) => {
   // If authenticateToken middleware passes, user is considered authenticated
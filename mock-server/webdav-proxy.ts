@@ -38,12 +38,14 @@ app.use('/', (req: Request, res: Response, next: NextFunction) => {
   res.setHeader('Access-Control-Allow-Origin', '*')
   res.setHeader(
     'Access-Control-Allow-Methods',
-    'GET, POST, PUT, DELETE, OPTIONS, PROPFIND, MKCOL'
+    'GET, POST, PUT, DELETE, OPTIONS, PROPFIND, MKCOL, COPY, LOCK, UNLOCK'
   )
   res.setHeader(
     'Access-Control-Allow-Headers',
-    'Content-Type, Authorization, Depth, If-Match'
+    'Content-Type, Authorization, Depth, If-Match, If, Destination, Overwrite, Timeout, Lock-Token'
   )
+  // Expose the token of a granted lock to the client
+  res.setHeader('Access-Control-Expose-Headers', 'Lock-Token, Retry-After')
   if (req.method === 'OPTIONS') {
     res.sendStatus(200)
     return
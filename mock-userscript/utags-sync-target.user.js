@@ -1,7 +1,7 @@
 // ==UserScript==
 // @name         UTags Sync Target Mock
 // @namespace    https://github.com/utags
-// @version      0.4
+// @version      0.5
 // @description  Mocks a browser extension sync target for UTags bookmarks.
 // @author       Pipecraft
 // @match        *://*/*
@@ -9,6 +9,7 @@
 // @grant        GM_setValue
 // @grant        GM_deleteValue
 // @grant        GM_log
+// @grant        GM_addValueChangeListener
 // ==/UserScript==
 
 ;(function () {
@@ -30,6 +31,7 @@
   const DOWNLOAD_MESSAGE_TYPE = 'DOWNLOAD_DATA'
   const UPLOAD_MESSAGE_TYPE = 'UPLOAD_DATA'
   const GET_AUTH_STATUS_MESSAGE_TYPE = 'GET_AUTH_STATUS'
+  const DATA_CHANGED_MESSAGE_TYPE = 'DATA_CHANGED'
 
   /**
    * Saves data using GM_setValue.
@@ -271,6 +273,32 @@
     )
   })
 
+  /**
+   * Notifies the web app that the data was changed by another tab, so it can sync immediately.
+   * Changes made by this tab are not pushed, as the web app in this tab made them itself.
+   */
+  GM_addValueChangeListener(
+    SYNC_STORAGE_KEY_METADATA,
+    (name, oldValue, newValue, remote) => {
+      if (!remote || !MY_EXTENSION_ID) {
+        return
+      }
+
+      const metadata = newValue ? JSON.parse(newValue) : null
+      window.postMessage(
+        {
+          source: SOURCE_EXTENSION,
+          type: DATA_CHANGED_MESSAGE_TYPE,
+          id: crypto.randomUUID(),
+          extensionId: MY_EXTENSION_ID,
+          payload: { metadata },
+        },
+        globalThis.location.origin
+      )
+      GM_log(`${SCRIPT_NAME} Data changed by another tab. Notified web app.`)
+    }
+  )
+
   /**
    * Initializes the script, setting up the extension ID.
    */
@@ -5,6 +5,9 @@ export const STORAGE_KEY_SETTINGS = 'utags-settings'
 export const STORAGE_KEY_SYNC_SETTINGS = 'utags-sync-settings'
 export const STORAGE_KEY_FILTERS = 'utags-filters'
 export const STORAGE_KEY_COLLECTIONS = 'utags-collections'
+export const STORAGE_KEY_SYNC_BASE = 'utags-sync-base'
+export const STORAGE_KEY_SYNC_CREDENTIAL_VAULT = 'utags-sync-credential-vault'
+export const STORAGE_KEY_SYNC_APP_DATA = 'utags-sync-app-data'
 export const CURRENT_DATABASE_VERSION = 3
 
 export const defaultFavicon16 = encodeURIComponent(
@@ -14,3 +14,52 @@ export const mergeTagsOptions = [
 
 export type MergeMetaStrategy = (typeof mergeMetaOptions)[number]['value']
 export type MergeTagsStrategy = (typeof mergeTagsOptions)[number]['value']
+
+export const mergeMetaFieldOptions = [
+  { value: 'local', label: '保留本地数据' },
+  { value: 'remote', label: '使用远程/导入数据' },
+  { value: 'newer', label: '使用最近更新的数据' },
+  { value: 'longest', label: '保留最长的内容' },
+  { value: 'concat', label: '连接两边的内容' },
+  { value: 'max', label: '使用较大的值' },
+  { value: 'min', label: '使用较小的值' },
+  { value: 'or', label: '任一为真即为真' },
+  { value: 'and', label: '两者为真才为真' },
+] as const
+
+export type MergeMetaFieldStrategy =
+  (typeof mergeMetaFieldOptions)[number]['value']
+
+export const mergeFlagOptions = [
+  { value: 'skipExisting', label: '跳过已存在的书签' },
+  { value: 'updateOverDelete', label: '更新优先于删除' },
+] as const
+
+export const mergeDeletedOptions = [
+  { value: 'auto', label: '按合并策略处理' },
+  { value: 'overwrite', label: '使用未删除的数据' },
+  { value: 'keep', label: '保持删除状态' },
+] as const
+
+export type MergeFlag = (typeof mergeFlagOptions)[number]['value']
+export type MergeDeletedStrategy = (typeof mergeDeletedOptions)[number]['value']
+
+/**
+ * Converts a deleted bookmark option to the `overwriteLocalDeleted` or
+ * `overwriteRemoteDeleted` flag of the merge strategy.
+ */
+export function toOverwriteDeletedFlag(
+  value: MergeDeletedStrategy
+): boolean | undefined {
+  return value === 'auto' ? undefined : value === 'overwrite'
+}
+
+/**
+ * Converts an `overwriteLocalDeleted` or `overwriteRemoteDeleted` flag to the
+ * deleted bookmark option shown in the UI.
+ */
+export function fromOverwriteDeletedFlag(
+  flag: boolean | undefined
+): MergeDeletedStrategy {
+  return flag === undefined ? 'auto' : flag ? 'overwrite' : 'keep'
+}
@@ -105,6 +105,17 @@ function prepareHtml(html: string) {
   return html.replaceAll(/<\/?p>|<\/?HR>/g, '')
 }
 
+/**
+ * Converts the path of a browser bookmark folder to a hierarchical tag,
+ * e.g., `['Bookmarks bar', 'Work']` to `/Bookmarks bar/Work`.
+ * Bookmarks outside of any folder get the tag `/Other Bookmarks`.
+ * @param folderPath - The names of the folders, starting with the top-level folder.
+ * @returns The hierarchical tag.
+ */
+export function folderPathToTag(folderPath: string[]): string {
+  return '/' + normalizeHierachyPath(folderPath.join('/') || 'Other Bookmarks')
+}
+
 export function htmlToBookmarks(html: string): BookmarksStore {
   const parser = new DOMParser()
   const document_ = parser.parseFromString(prepareHtml(html), 'text/html')
@@ -177,10 +188,7 @@ export function htmlToBookmarks(html: string): BookmarksStore {
       const tagsAttribute = link.getAttribute('tags') || ''
 
       // 构建标签数组
-      const tags = [
-        '/' + normalizeHierachyPath(currentPath.join('/') || 'Other Bookmarks'),
-        ...splitTags(tagsAttribute),
-      ]
+      const tags = [folderPathToTag(currentPath), ...splitTags(tagsAttribute)]
 
       // console.log(
       //   `Processing bookmark: ${title}, URL: ${href.slice(0, 50)}, Tags: ${tags.join(', ')}, Created: ${new Date(convertDate(addDate)).toISOString()}, Updated: ${new Date(convertDate(lastModified)).toISOString()}`
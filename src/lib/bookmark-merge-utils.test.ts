@@ -1969,6 +1969,96 @@ describe('mergeBookmarks', () => {
           deletedMeta: { deleted: threeHoursAgo, actionType: 'DELETE' },
         },
       }
+      await runMergeTest({
+        localData,
+        remoteData,
+        strategy: { ...baseStrategy, updateOverDelete: false },
+        syncOption: baseSyncOption,
+        expectedUpdatesForLocal: expectedUpdates,
+        expectedUpdatesForRemote: expectedUpdates,
+      })
+    })
+
+    it('should keep the local bookmark if it was updated after the remote deletion', async () => {
+      const localData: BookmarksData = {
+        'http://deleted.com': createBookmarkEntry(
+          oneHourAgo,
+          oneHourAgo,
+          'Local Active',
+          ['local'],
+          {},
+          undefined,
+          oneHourAgo
+        ),
+      }
+      const remoteData: BookmarksData = {
+        'http://deleted.com': createBookmarkEntry(
+          twoHoursAgo + 10_000,
+          twoHoursAgo + 20_000,
+          'Remote Deleted',
+          [DELETED_BOOKMARK_TAG, 'remote'],
+          {},
+          undefined,
+          twoHoursAgo + 30_000,
+          { deleted: threeHoursAgo, actionType: 'DELETE' }
+        ),
+      }
+      const expectedUpdates: BookmarksData = {
+        'http://deleted.com': {
+          meta: {
+            created: twoHoursAgo + 10_000,
+            updated: oneHourAgo,
+            title: 'Local Active',
+            updated3: now,
+          },
+          tags: ['local'],
+        },
+      }
+      await runMergeTest({
+        localData,
+        remoteData,
+        strategy: baseStrategy,
+        syncOption: baseSyncOption,
+        expectedUpdatesForLocal: expectedUpdates,
+        expectedUpdatesForRemote: expectedUpdates,
+      })
+    })
+
+    it('should keep the remote bookmark if it was updated after the local deletion', async () => {
+      const localData: BookmarksData = {
+        'http://deleted.com': createBookmarkEntry(
+          twoHoursAgo + 10_000,
+          twoHoursAgo + 20_000,
+          'Local Deleted',
+          [DELETED_BOOKMARK_TAG, 'local'],
+          {},
+          undefined,
+          twoHoursAgo + 30_000,
+          { deleted: twoHoursAgo + 30_000, actionType: 'DELETE' }
+        ),
+      }
+      const remoteData: BookmarksData = {
+        'http://deleted.com': createBookmarkEntry(
+          oneHourAgo,
+          oneHourAgo,
+          'Remote Active',
+          ['remote'],
+          {},
+          undefined,
+          oneHourAgo
+        ),
+      }
+      const expectedUpdates: BookmarksData = {
+        'http://deleted.com': {
+          meta: {
+            created: twoHoursAgo + 10_000,
+            updated: oneHourAgo,
+            title: 'Remote Active',
+            updated3: now,
+          },
+          tags: ['remote'],
+        },
+      }
       await runMergeTest({
         localData,
         remoteData,
@@ -2534,6 +2624,8 @@ describe('mergeBookmarks', () => {
             remoteData,
             strategy: {
               ...baseStrategy,
+              // Merge by the strategies even if one side was updated after the deletion
+              updateOverDelete: false,
               meta: metaStrategy,
               tags: tagsStrategy,
               preferOldestCreated,
@@ -2924,6 +3016,8 @@ describe('mergeBookmarks', () => {
             remoteData,
             strategy: {
               ...baseStrategy,
+              // Merge by the strategies even if one side was updated after the deletion
+              updateOverDelete: false,
               meta: metaStrategy,
               tags: tagsStrategy,
               preferOldestCreated,
@@ -4124,6 +4218,1042 @@ describe('mergeBookmarks', () => {
       expect(resultWithEmptyTags).toEqual(resultWithDefaultTags)
     })
   })
+
+  describe('Three-way Merge with Base Data', () => {
+    const url = 'http://example.com/a'
+    let baseData: BookmarksData
+
+    beforeEach(() => {
+      baseData = {
+        [url]: createBookmarkEntry(threeHoursAgo, threeHoursAgo, 'Base A', [
+          'tag1',
+          'tag2',
+        ]),
+      }
+    })
+
+    it('should keep a tag removed on one side and a tag added on the other side', async () => {
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'Base A', [
+          'tag1',
+        ]),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Base A', [
+          'tag1',
+          'tag2',
+          'tag3',
+        ]),
+      }
+
+      const result = await mergeBookmarks(
+        localData,
+        remoteData,
+        { ...baseStrategy, tags: 'union' },
+        { ...baseSyncOption, baseData }
+      )
+
+      const expected = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          oneHourAgo,
+          'Base A',
+          ['tag1', 'tag3'],
+          undefined,
+          undefined,
+          now
+        ),
+      }
+      expect(result.updatesForLocal).toEqual(expected)
+      expect(result.updatesForRemote).toEqual(expected)
+      expect(result.finalLocalData).toEqual(result.finalRemoteData)
+    })
+
+    it('should merge metadata field by field and resolve real conflicts by timestamp', async () => {
+      baseData[url].meta.description = 'Base description'
+      baseData[url].meta.note = 'Base note'
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          twoHoursAgo,
+          'Local A',
+          ['tag1', 'tag2'],
+          { description: 'Local description', note: 'Base note' }
+        ),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          oneHourAgo,
+          'Base A',
+          ['tag1', 'tag2'],
+          // The note is removed on remote
+          { description: 'Remote description', color: 'red' }
+        ),
+      }
+
+      const result = await mergeBookmarks(
+        localData,
+        remoteData,
+        { ...baseStrategy, meta: 'merge' },
+        { ...baseSyncOption, baseData }
+      )
+
+      expect(result.updatesForLocal[url].meta).toEqual({
+        created: threeHoursAgo,
+        updated: oneHourAgo,
+        // Changed only on local
+        title: 'Local A',
+        // Changed on both sides, remote is newer
+        description: 'Remote description',
+        // Added only on remote
+        color: 'red',
+        updated3: now,
+      })
+      expect(result.updatesForRemote[url]).toEqual(result.updatesForLocal[url])
+    })
+
+    it('should take the changed side when the other side is identical to the base', async () => {
+      // Local is newer than lastSyncTime (e.g. touched by a sync), but its content is unchanged
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          threeHoursAgo,
+          'Base A',
+          ['tag1', 'tag2'],
+          undefined,
+          undefined,
+          oneHourAgo
+        ),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'Remote A', [
+          'tag2',
+        ]),
+      }
+
+      const result = await mergeBookmarks(localData, remoteData, baseStrategy, {
+        ...baseSyncOption,
+        lastSyncTime: threeHoursAgo,
+        baseData,
+      })
+
+      expect(result.updatesForLocal).toEqual({
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          twoHoursAgo,
+          'Remote A',
+          ['tag2'],
+          undefined,
+          undefined,
+          now
+        ),
+      })
+      expect(result.updatesForRemote).toEqual({})
+    })
+
+    it('should skip bookmarks unchanged on both sides even if they are newer than lastSyncTime', async () => {
+      const localData = structuredClone(baseData)
+      localData[url].meta.updated3 = oneHourAgo
+      const remoteData = structuredClone(baseData)
+
+      const result = await mergeBookmarks(localData, remoteData, baseStrategy, {
+        ...baseSyncOption,
+        lastSyncTime: threeHoursAgo - 1,
+        baseData,
+      })
+
+      expect(result.updatesForLocal).toEqual({})
+      expect(result.updatesForRemote).toEqual({})
+    })
+
+    it('should delete a bookmark removed on one side only if the other side is unchanged', async () => {
+      const url2 = 'http://example.com/b'
+      baseData[url2] = createBookmarkEntry(threeHoursAgo, threeHoursAgo, 'B', [
+        'tag1',
+      ])
+      const localData: BookmarksData = {
+        // Unchanged, removed on remote
+        [url]: structuredClone(baseData[url]),
+        // Changed locally, removed on remote
+        [url2]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'B', [
+          'tag1',
+          'tag2',
+        ]),
+      }
+
+      const result = await mergeBookmarks(
+        localData,
+        {},
+        baseStrategy,
+        // All bookmarks are newer than lastSyncTime; only the base decides
+        { ...baseSyncOption, lastSyncTime: 0, baseData }
+      )
+
+      expect(result.localDeletions).toEqual([url])
+      expect(Object.keys(result.updatesForRemote)).toEqual([url2])
+      expect(result.remoteDeletions).toEqual([])
+    })
+
+    it('should propagate a bookmark without a base version', async () => {
+      const url2 = 'http://example.com/new'
+      const remoteData: BookmarksData = {
+        [url]: structuredClone(baseData[url]),
+        [url2]: createBookmarkEntry(
+          threeHoursAgo - 1000,
+          threeHoursAgo - 1000,
+          'New',
+          ['tag1']
+        ),
+      }
+
+      const result = await mergeBookmarks(
+        structuredClone(baseData),
+        remoteData,
+        baseStrategy,
+        { ...baseSyncOption, baseData }
+      )
+
+      expect(Object.keys(result.updatesForLocal)).toEqual([url2])
+      expect(result.remoteDeletions).toEqual([])
+    })
+
+    it('should report fields changed differently on both sides as conflicts', async () => {
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          twoHoursAgo,
+          'Local A',
+          ['tag1', 'tag2'],
+          { note: 'Same note' }
+        ),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          oneHourAgo,
+          'Remote A',
+          ['tag1', 'tag2'],
+          { note: 'Same note' }
+        ),
+      }
+
+      const result = await mergeBookmarks(localData, remoteData, baseStrategy, {
+        ...baseSyncOption,
+        baseData,
+      })
+
+      expect(result.conflicts).toEqual([
+        {
+          url,
+          fields: ['title'],
+          local: localData[url],
+          remote: remoteData[url],
+          base: baseData[url],
+          merged: result.updatesForLocal[url],
+        },
+      ])
+    })
+
+    it('should not report changes merged without conflict', async () => {
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'Local A', [
+          'tag1',
+          'tag2',
+        ]),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(
+          threeHoursAgo,
+          oneHourAgo,
+          'Base A',
+          ['tag1', 'tag2'],
+          { note: 'Remote note' }
+        ),
+      }
+
+      const result = await mergeBookmarks(localData, remoteData, baseStrategy, {
+        ...baseSyncOption,
+        baseData,
+      })
+
+      expect(result.conflicts).toEqual([])
+      expect(result.updatesForLocal[url].meta.title).toBe('Local A')
+      expect(result.updatesForLocal[url].meta.note).toBe('Remote note')
+    })
+
+    it('should not report conflicts for fields merged with the local or remote strategy', async () => {
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'Local A', [
+          'tag3',
+        ]),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Remote A', [
+          'tag4',
+        ]),
+      }
+
+      const result = await mergeBookmarks(
+        localData,
+        remoteData,
+        { ...baseStrategy, meta: 'local', tags: 'union' },
+        { ...baseSyncOption, baseData }
+      )
+
+      expect(result.conflicts.map((conflict) => conflict.fields)).toEqual([
+        ['tags'],
+      ])
+    })
+
+    it('should still respect the local and remote strategies', async () => {
+      const localData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, twoHoursAgo, 'Local A', [
+          'tag1',
+        ]),
+      }
+      const remoteData: BookmarksData = {
+        [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Base A', [
+          'tag1',
+          'tag2',
+          'tag3',
+        ]),
+      }
+
+      const result = await mergeBookmarks(
+        localData,
+        remoteData,
+        { ...baseStrategy, meta: 'remote', tags: 'local' },
+        { ...baseSyncOption, baseData }
+      )
+
+      expect(result.updatesForLocal[url].tags).toEqual(['tag1'])
+      expect(result.updatesForLocal[url].meta.title).toBe('Base A')
+    })
+  })
+
+  describe('MergeStrategy flags', () => {
+    const url = 'http://example.com/a'
+    const otherUrl = 'http://example.com/b'
+
+    const createDeletedEntry = (updated: number, title: string) =>
+      createBookmarkEntry(
+        threeHoursAgo,
+        updated,
+        title,
+        [DELETED_BOOKMARK_TAG, 'tag1'],
+        {},
+        undefined,
+        undefined,
+        { deleted: updated, actionType: 'DELETE' }
+      )
+
+    const expectDeleted = (
+      data: BookmarkTagsAndMetadata | undefined,
+      deleted: boolean
+    ) => {
+      expect(data).toBeDefined()
+      expect(data!.tags.includes(DELETED_BOOKMARK_TAG)).toBe(deleted)
+    }
+
+    describe('skipExisting', () => {
+      it('should leave bookmarks existing on both sides untouched', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Remote A', [
+            'tag2',
+          ]),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, skipExisting: true },
+          baseSyncOption
+        )
+
+        expect(result.updatesForLocal).toEqual({})
+        expect(result.updatesForRemote).toEqual({})
+        expect(result.conflicts).toEqual([])
+        expect(result.finalLocalData).toEqual(localData)
+        expect(result.finalRemoteData).toEqual(remoteData)
+      })
+
+      it('should still sync bookmarks that exist on one side only', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [otherUrl]: createBookmarkEntry(oneHourAgo, oneHourAgo, 'Remote B', [
+            'tag2',
+          ]),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, skipExisting: true },
+          baseSyncOption
+        )
+
+        expect(Object.keys(result.updatesForLocal)).toEqual([otherUrl])
+        expect(Object.keys(result.updatesForRemote)).toEqual([url])
+      })
+    })
+
+    describe('updateOverDelete', () => {
+      it('should keep bookmarks updated since the last sync by default', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+
+        for (const updateOverDelete of [undefined, true]) {
+          // eslint-disable-next-line no-await-in-loop
+          const result = await mergeBookmarks(
+            localData,
+            {},
+            { ...baseStrategy, updateOverDelete },
+            baseSyncOption
+          )
+
+          expect(Object.keys(result.updatesForRemote)).toEqual([url])
+          expect(result.localDeletions).toEqual([])
+        }
+      })
+
+      it('should apply the deletion to bookmarks that existed at the last sync if false', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [otherUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            oneHourAgo,
+            'Remote B',
+            ['tag2']
+          ),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, updateOverDelete: false },
+          baseSyncOption
+        )
+
+        expect(result.updatesForLocal).toEqual({})
+        expect(result.updatesForRemote).toEqual({})
+        expect(result.localDeletions).toEqual([url])
+        expect(result.remoteDeletions).toEqual([otherUrl])
+        expect(result.finalLocalData).toEqual({})
+        expect(result.finalRemoteData).toEqual({})
+      })
+
+      it('should keep bookmarks created since the last sync if false', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(oneHourAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [otherUrl]: createBookmarkEntry(oneHourAgo, oneHourAgo, 'Remote B', [
+            'tag2',
+          ]),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, updateOverDelete: false },
+          baseSyncOption
+        )
+
+        expect(Object.keys(result.updatesForLocal)).toEqual([otherUrl])
+        expect(Object.keys(result.updatesForRemote)).toEqual([url])
+        expect(result.localDeletions).toEqual([])
+        expect(result.remoteDeletions).toEqual([])
+      })
+
+      it('should use the base data to decide whether a bookmark existed at the last sync', async () => {
+        const baseData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, threeHoursAgo, 'Base A', [
+            'tag1',
+          ]),
+        }
+        // Created before the last sync, but never synced
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+          [otherUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            threeHoursAgo,
+            'Local B',
+            ['tag2']
+          ),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          {},
+          { ...baseStrategy, updateOverDelete: false },
+          { ...baseSyncOption, baseData }
+        )
+
+        expect(result.localDeletions).toEqual([url])
+        expect(Object.keys(result.updatesForRemote)).toEqual([otherUrl])
+      })
+    })
+
+    describe('overwriteLocalDeleted', () => {
+      it('should restore a local deleted bookmark from remote if true', async () => {
+        // The local deletion is newer than the remote version
+        const localData: BookmarksData = {
+          [url]: createDeletedEntry(oneHourAgo, 'Local A'),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createBookmarkEntry(
+            threeHoursAgo,
+            twoHoursAgo - 1,
+            'Remote A',
+            ['tag2']
+          ),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteLocalDeleted: true },
+          baseSyncOption
+        )
+
+        expectDeleted(result.updatesForLocal[url], false)
+        expect(result.finalLocalData[url].tags).toEqual(['tag2'])
+        expect(result.finalLocalData[url].meta.title).toBe('Remote A')
+        expect(result.finalRemoteData[url].tags).toEqual(['tag2'])
+      })
+
+      it('should keep a local deleted bookmark deleted if false', async () => {
+        // The remote version is newer than the local deletion
+        const localData: BookmarksData = {
+          [url]: createDeletedEntry(twoHoursAgo - 1, 'Local A'),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Remote A', [
+            'tag2',
+          ]),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteLocalDeleted: false },
+          baseSyncOption
+        )
+
+        expectDeleted(result.updatesForRemote[url], true)
+        expectDeleted(result.finalLocalData[url], true)
+        expectDeleted(result.finalRemoteData[url], true)
+        expect(result.conflicts).toEqual([])
+      })
+
+      it('should merge by the other strategies if undefined', async () => {
+        const localData: BookmarksData = {
+          [url]: createDeletedEntry(twoHoursAgo - 1, 'Local A'),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Remote A', [
+            'tag2',
+          ]),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteLocalDeleted: undefined },
+          baseSyncOption
+        )
+
+        expect(result).toEqual(
+          await mergeBookmarks(
+            localData,
+            remoteData,
+            baseStrategy,
+            baseSyncOption
+          )
+        )
+      })
+
+      it('should not affect bookmarks deleted on remote', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(twoHoursAgo - 1, 'Remote A'),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteLocalDeleted: false },
+          baseSyncOption
+        )
+
+        expect(result).toEqual(
+          await mergeBookmarks(
+            localData,
+            remoteData,
+            baseStrategy,
+            baseSyncOption
+          )
+        )
+      })
+    })
+
+    describe('overwriteRemoteDeleted', () => {
+      it('should restore a remote deleted bookmark from local if true', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(
+            threeHoursAgo,
+            twoHoursAgo - 1,
+            'Local A',
+            ['tag2']
+          ),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(oneHourAgo, 'Remote A'),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteRemoteDeleted: true },
+          baseSyncOption
+        )
+
+        expectDeleted(result.updatesForRemote[url], false)
+        expect(result.finalRemoteData[url].tags).toEqual(['tag2'])
+        expect(result.finalRemoteData[url].meta.title).toBe('Local A')
+        expect(result.finalLocalData[url].tags).toEqual(['tag2'])
+      })
+
+      it('should keep a remote deleted bookmark deleted if false', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag2',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(twoHoursAgo - 1, 'Remote A'),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteRemoteDeleted: false },
+          baseSyncOption
+        )
+
+        expectDeleted(result.updatesForLocal[url], true)
+        expectDeleted(result.finalLocalData[url], true)
+        expectDeleted(result.finalRemoteData[url], true)
+      })
+
+      it('should apply even if neither side changed since the last sync', async () => {
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, threeHoursAgo, 'Local A', [
+            'tag2',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(threeHoursAgo, 'Remote A'),
+        }
+
+        const defaultResult = await mergeBookmarks(
+          localData,
+          remoteData,
+          baseStrategy,
+          baseSyncOption
+        )
+        expect(defaultResult.updatesForLocal).toEqual({})
+        expect(defaultResult.updatesForRemote).toEqual({})
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          { ...baseStrategy, overwriteRemoteDeleted: true },
+          baseSyncOption
+        )
+
+        expectDeleted(result.updatesForRemote[url], false)
+        expect(result.updatesForLocal).toEqual({})
+      })
+    })
+
+    describe('combinations', () => {
+      it('should apply the overwrite flags before skipExisting', async () => {
+        const localData: BookmarksData = {
+          [url]: createDeletedEntry(oneHourAgo, 'Local A'),
+          [otherUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            oneHourAgo,
+            'Local B',
+            ['tag1']
+          ),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createBookmarkEntry(
+            threeHoursAgo,
+            twoHoursAgo - 1,
+            'Remote A',
+            ['tag2']
+          ),
+          [otherUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            oneHourAgo,
+            'Remote B',
+            ['tag2']
+          ),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          {
+            ...baseStrategy,
+            skipExisting: true,
+            overwriteLocalDeleted: true,
+          },
+          baseSyncOption
+        )
+
+        expect(Object.keys(result.updatesForLocal)).toEqual([url])
+        expectDeleted(result.updatesForLocal[url], false)
+        expect(result.finalLocalData[otherUrl]).toEqual(localData[otherUrl])
+        expect(result.finalRemoteData[otherUrl]).toEqual(remoteData[otherUrl])
+      })
+
+      it('should only skip bookmarks not covered by an overwrite flag', async () => {
+        // Deleted on remote, but overwriteRemoteDeleted is not set
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(oneHourAgo, 'Remote A'),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          {
+            ...baseStrategy,
+            skipExisting: true,
+            overwriteLocalDeleted: true,
+          },
+          baseSyncOption
+        )
+
+        expect(result.updatesForLocal).toEqual({})
+        expect(result.updatesForRemote).toEqual({})
+      })
+
+      it('should combine all flags', async () => {
+        const newUrl = 'http://example.com/c'
+        const staleUrl = 'http://example.com/d'
+        const localData: BookmarksData = {
+          [url]: createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local A', [
+            'tag1',
+          ]),
+          [otherUrl]: createDeletedEntry(oneHourAgo, 'Local B'),
+          [newUrl]: createBookmarkEntry(oneHourAgo, oneHourAgo, 'Local C', [
+            'tag3',
+          ]),
+          [staleUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            oneHourAgo,
+            'Local D',
+            ['tag4']
+          ),
+        }
+        const remoteData: BookmarksData = {
+          [url]: createDeletedEntry(twoHoursAgo - 1, 'Remote A'),
+          [otherUrl]: createBookmarkEntry(
+            threeHoursAgo,
+            oneHourAgo,
+            'Remote B',
+            ['tag2']
+          ),
+        }
+
+        const result = await mergeBookmarks(
+          localData,
+          remoteData,
+          {
+            ...baseStrategy,
+            skipExisting: true,
+            updateOverDelete: false,
+            overwriteLocalDeleted: false,
+            overwriteRemoteDeleted: false,
+          },
+          baseSyncOption
+        )
+
+        // Deleted on both sides
+        expectDeleted(result.finalLocalData[url], true)
+        expectDeleted(result.finalRemoteData[url], true)
+        expectDeleted(result.finalLocalData[otherUrl], true)
+        expectDeleted(result.finalRemoteData[otherUrl], true)
+        // New bookmarks are kept, old ones follow the deletion
+        expect(result.updatesForRemote[newUrl]).toBeDefined()
+        expect(result.updatesForRemote[staleUrl]).toBeUndefined()
+        expect(result.localDeletions).toEqual([staleUrl])
+      })
+    })
+  })
+
+  describe('Per-field meta strategies', () => {
+    const url = 'http://example.com/a'
+
+    const createEntry = (
+      updated: number,
+      meta: Record<string, unknown>
+    ): BookmarkTagsAndMetadata =>
+      createBookmarkEntry(threeHoursAgo, updated, 'A', ['tag1'], meta)
+
+    const mergeMeta = async (
+      local: BookmarkTagsAndMetadata,
+      remote: BookmarkTagsAndMetadata,
+      strategy: Partial<MergeStrategy>,
+      baseData?: BookmarksData
+    ) => {
+      const result = await mergeBookmarks(
+        { [url]: local },
+        { [url]: remote },
+        { ...baseStrategy, ...strategy },
+        { ...baseSyncOption, baseData }
+      )
+      // Both sides end up with the same metadata
+      expect({ ...result.finalLocalData[url].meta, updated3: 0 }).toEqual({
+        ...result.finalRemoteData[url].meta,
+        updated3: 0,
+      })
+      return result.finalLocalData[url].meta as Record<string, unknown>
+    }
+
+    it('should apply a different strategy to each field', async () => {
+      const local = createEntry(oneHourAgo, {
+        note: 'A long local note',
+        description: 'Local description',
+        rating: 3,
+        read: true,
+        shortTitle: 'Local',
+      })
+      const remote = createEntry(oneHourAgo - 1, {
+        note: 'Short',
+        description: 'Remote description',
+        rating: 5,
+        read: false,
+        shortTitle: 'Remote',
+      })
+
+      const meta = await mergeMeta(local, remote, {
+        meta: 'remote',
+        metaFields: {
+          note: 'longest',
+          description: 'concat',
+          rating: 'max',
+          read: 'or',
+          shortTitle: 'local',
+        },
+      })
+
+      expect(meta.note).toBe('A long local note')
+      expect(meta.description).toBe('Local description\nRemote description')
+      expect(meta.rating).toBe(5)
+      expect(meta.read).toBe(true)
+      expect(meta.shortTitle).toBe('Local')
+    })
+
+    it('should support custom meta fields', async () => {
+      const local = createEntry(oneHourAgo, { visits: 3, pinned: true })
+      const remote = createEntry(oneHourAgo - 1, { visits: 7, pinned: false })
+
+      const meta = await mergeMeta(local, remote, {
+        meta: 'newer',
+        metaFields: { visits: 'max', pinned: 'and' },
+      })
+
+      expect(meta.visits).toBe(7)
+      expect(meta.pinned).toBe(false)
+    })
+
+    it('should fall back to the newer value for values of another type', async () => {
+      const local = createEntry(oneHourAgo, { rating: 'good', note: 1 })
+      const remote = createEntry(oneHourAgo - 1, { rating: 5, note: 'note' })
+
+      const meta = await mergeMeta(local, remote, {
+        metaFields: { rating: 'max', note: 'longest' },
+      })
+
+      expect(meta.rating).toBe('good')
+      expect(meta.note).toBe(1)
+    })
+
+    it('should not concatenate values that are already included', async () => {
+      const local = createEntry(oneHourAgo, { description: 'A\nB' })
+      const remote = createEntry(oneHourAgo - 1, { description: 'B' })
+
+      const meta = await mergeMeta(local, remote, {
+        metaFields: { description: 'concat' },
+      })
+
+      expect(meta.description).toBe('A\nB')
+    })
+
+    it('should keep a field only set on one side unless the strategy removes it', async () => {
+      const local = createEntry(oneHourAgo, {
+        note: 'Local note',
+        read: true,
+      })
+      const remote = createEntry(oneHourAgo - 1, {})
+
+      const meta = await mergeMeta(local, remote, {
+        metaFields: { note: 'remote', read: 'and' },
+      })
+
+      expect(meta).not.toHaveProperty('note')
+      expect(meta.read).toBe(false)
+    })
+
+    it('should only resolve fields changed on both sides when the base is known', async () => {
+      const baseData: BookmarksData = {
+        [url]: createEntry(threeHoursAgo, {
+          description: 'Base',
+          rating: 3,
+        }),
+      }
+      // Only remote changed the description, both sides changed the rating
+      const local = createEntry(oneHourAgo, {
+        description: 'Base',
+        rating: 4,
+      })
+      const remote = createEntry(oneHourAgo - 1, {
+        description: 'Remote',
+        rating: 2,
+      })
+
+      const meta = await mergeMeta(
+        local,
+        remote,
+        { metaFields: { description: 'concat', rating: 'min' } },
+        baseData
+      )
+
+      expect(meta.description).toBe('Remote')
+      expect(meta.rating).toBe(2)
+    })
+
+    it('should apply the field strategies if only one side changed', async () => {
+      // Only remote changed since the last sync
+      const local = createEntry(threeHoursAgo, {
+        shortTitle: 'Local',
+        visits: 9,
+        read: true,
+      })
+      const remote = createEntry(oneHourAgo, {
+        shortTitle: 'Remote',
+        visits: 2,
+        read: false,
+        note: 'Remote note',
+      })
+
+      const meta = await mergeMeta(local, remote, {
+        metaFields: { shortTitle: 'local', visits: 'max', read: 'or' },
+      })
+
+      expect(meta.shortTitle).toBe('Local')
+      expect(meta.visits).toBe(9)
+      expect(meta.read).toBe(true)
+      expect(meta.note).toBe('Remote note')
+    })
+
+    it('should keep the fields changed on the only changed side when the base is known', async () => {
+      const baseEntry = createEntry(threeHoursAgo, {
+        rating: 5,
+        shortTitle: 'Base',
+      })
+      // Only local changed since the last sync
+      const local = createEntry(oneHourAgo, { rating: 2, shortTitle: 'Local' })
+
+      const meta = await mergeMeta(
+        local,
+        baseEntry,
+        { metaFields: { rating: 'max', shortTitle: 'remote' } },
+        { [url]: baseEntry }
+      )
+
+      expect(meta.rating).toBe(2)
+      expect(meta.shortTitle).toBe('Base')
+    })
+
+    it('should ignore timestamp fields', async () => {
+      const local = createEntry(oneHourAgo, {})
+      const remote = createEntry(twoHoursAgo - 1, {})
+
+      const meta = await mergeMeta(local, remote, {
+        metaFields: { updated: 'min', created: 'remote' },
+      })
+
+      expect(meta.updated).toBe(oneHourAgo)
+      expect(meta.created).toBe(threeHoursAgo)
+    })
+
+    it('should not report conflicts for fields with their own strategy', async () => {
+      const local = createBookmarkEntry(threeHoursAgo, oneHourAgo, 'Local', [
+        'tag1',
+      ])
+      const remote = createBookmarkEntry(
+        threeHoursAgo,
+        oneHourAgo - 1,
+        'Remote',
+        ['tag1'],
+        {}
+      )
+
+      const withoutRule = await mergeBookmarks(
+        { [url]: local },
+        { [url]: remote },
+        baseStrategy,
+        baseSyncOption
+      )
+      const withRule = await mergeBookmarks(
+        { [url]: local },
+        { [url]: remote },
+        { ...baseStrategy, metaFields: { title: 'longest' } },
+        baseSyncOption
+      )
+
+      expect(withoutRule.conflicts.map((conflict) => conflict.fields)).toEqual([
+        ['title'],
+      ])
+      expect(withRule.conflicts).toEqual([])
+      expect(withRule.finalLocalData[url].meta.title).toBe('Remote')
+    })
+  })
 })
 
 describe('mergeBookmarks Batch Processing', () => {
@@ -5,12 +5,16 @@ import {
 } from '../types/bookmarks.js'
 import { DEFAULT_DATE } from '../config/constants.js'
 import {
+  type MergeMetaFieldStrategy,
   type MergeMetaStrategy,
   type MergeTagsStrategy,
 } from '../config/merge-options.js'
 import { isValidDate } from '../utils/date.js'
 import { areArraysEqual, areObjectsEqual } from '../utils/index.js'
-import { isMarkedAsDeleted } from '../utils/bookmarks.js'
+import {
+  isMarkedAsDeleted,
+  isUpdatedAfterDeletion,
+} from '../utils/bookmarks.js'
 import { processInBatches } from './batch-processor.js'
 
 /**
@@ -21,6 +25,13 @@ export type MergeStrategy = {
   meta: MergeMetaStrategy
   /** Strategy for merging tags. default is 'union' or 'merge' */
   tags: MergeTagsStrategy
+  /**
+   * Per-field strategies for metadata, keyed by field name (custom fields included).
+   * They override `meta` for these fields. 'local' and 'remote' always apply; the other
+   * strategies decide fields that differ between both sides, or only fields changed on
+   * both sides when the base version is known. Timestamp fields are ignored.
+   */
+  metaFields?: Record<string, MergeMetaFieldStrategy>
   /** Default date to use if created/updated timestamps are invalid. Must be a timestamp number. */
   defaultDate: number
   /**
@@ -33,13 +44,24 @@ export type MergeStrategy = {
    * Defaults to true (prefer newest).
    */
   preferNewestUpdated?: boolean
-  /** If true, skips merging existing bookmarks. Defaults to false. (Currently not implemented) */
+  /** If true, bookmarks that exist on both sides are left untouched. Defaults to false. */
   skipExisting?: boolean
-  /** If true, an update operation will take precedence over a delete operation. Defaults to true. (Currently not implemented) */
+  /**
+   * If true, a bookmark updated on one side since the last sync is kept even though the other side deleted it.
+   * If false, the deletion wins; bookmarks created since the last sync are always kept. Defaults to true.
+   */
   updateOverDelete?: boolean
-  /** If true, local deleted bookmarks can be overwritten by remote non-deleted versions. (Currently not implemented) */
+  /**
+   * If true, local deleted bookmarks are overwritten by remote non-deleted versions.
+   * If false, they stay deleted and the deletion is applied to remote.
+   * If undefined, they are merged by the other strategies.
+   */
   overwriteLocalDeleted?: boolean
-  /** If true, remote deleted bookmarks can be overwritten by local non-deleted versions. (Reserved for future use, currently not implemented) */
+  /**
+   * If true, remote deleted bookmarks are overwritten by local non-deleted versions.
+   * If false, they stay deleted and the deletion is applied to local.
+   * If undefined, they are merged by the other strategies.
+   */
   overwriteRemoteDeleted?: boolean
 }
 
@@ -51,6 +73,37 @@ export type SyncOption = {
   currentSyncTime: number
   /** The timestamp of the last successful synchronization. Items modified after this time are considered for the current sync. */
   lastSyncTime: number
+  /**
+   * The remote data as it was after the last successful synchronization (the common ancestor of local and remote).
+   * When provided, changes are detected by comparing each side with this snapshot instead of `lastSyncTime`,
+   * and bookmarks changed on both sides are merged three-way, per tag and per metadata field.
+   */
+  baseData?: BookmarksData
+}
+
+/**
+ * Bookmark fields for which changes made on both sides since the last sync are reported as conflicts.
+ */
+export type MergeConflictField = 'title' | 'note' | 'tags'
+
+/**
+ * A bookmark changed on both sides since the last sync, with different values for at least one conflict field.
+ * The merge result still contains the automatically merged version (`merged`); callers may let the user
+ * replace it before applying the changes.
+ */
+export type MergeConflict = {
+  /** The URL of the bookmark. */
+  url: string
+  /** The fields changed on both sides. */
+  fields: MergeConflictField[]
+  /** The local version of the bookmark. */
+  local: BookmarkTagsAndMetadata
+  /** The remote version of the bookmark. */
+  remote: BookmarkTagsAndMetadata
+  /** The version of the bookmark at the last sync, if known. */
+  base?: BookmarkTagsAndMetadata
+  /** The automatically merged version, as included in the updates. */
+  merged: BookmarkTagsAndMetadata
 }
 
 /**
@@ -167,26 +220,73 @@ function isValid(
   return getUpdated(data.meta, excludeSyncTimestamp) > lastSyncTime
 }
 
+/**
+ * Checks if a bookmark's content differs from its version in the base snapshot (the last synced state).
+ * Operational timestamps ('updated2' and 'updated3') are ignored, so a bookmark only touched by a sync is not considered changed.
+ * A bookmark without a base version is new (or its history is unknown) and is always considered changed.
+ * @param {BookmarkTagsAndMetadata | undefined} data - The bookmark data to check. Can be undefined if the bookmark doesn't exist on one side.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The base version of the bookmark, if any.
+ * @returns {boolean} True if the bookmark exists and was changed since the last sync, false otherwise.
+ */
+function isChangedSinceBase(
+  data: BookmarkTagsAndMetadata | undefined,
+  base: BookmarkTagsAndMetadata | undefined
+): data is BookmarkTagsAndMetadata {
+  if (!data || !data.meta) {
+    return false
+  }
+
+  if (!base || !base.meta) {
+    return true
+  }
+
+  return (
+    !areArraysEqual(data.tags, base.tags) ||
+    !areObjectsEqual(data.meta, base.meta, ['updated2', 'updated3']) ||
+    !areObjectsEqual(data.deletedMeta, base.deletedMeta, [])
+  )
+}
+
+// Timestamp fields are merged by `preferOldestCreated` and `preferNewestUpdated`, not by per-field strategies.
+const timestampMetaKeys = new Set([
+  'created',
+  'updated',
+  'updated2',
+  'updated3',
+])
+
+/**
+ * Compares two metadata values. Nested values (e.g. arrays) are compared by content.
+ * @param {unknown} value1 - The first value.
+ * @param {unknown} value2 - The second value.
+ * @returns {boolean} True if both values are equal.
+ */
+function isSameValue(value1: unknown, value2: unknown): boolean {
+  return value1 === value2 || JSON.stringify(value1) === JSON.stringify(value2)
+}
+
 /**
  * Merges local and remote bookmark data based on the provided strategy and synchronization options.
  * This function orchestrates the entire merge process for all bookmarks across local and remote sources.
  * It iterates through all unique bookmark URLs present in either local or remote data.
  * For each bookmark, it performs the following steps:
  *   1. Normalizes bookmark data (e.g., timestamps) to ensure consistency.
- *   2. Checks if the local or remote version of the bookmark has been modified since the last synchronization (`isValid` check).
+ *   2. Checks if the local or remote version of the bookmark has been modified since the last synchronization
+ *      (`isChangedSinceBase` check if `syncOption.baseData` is provided, `isValid` check otherwise).
  *   3. If the bookmark exists in both sources, it calls `mergeBothSources` to determine the preliminary merged data based on validity and strategy.
  *   4. If the bookmark exists only in one source, it determines if it should be propagated to the other source or marked for deletion based on its validity.
  *   5. Merges 'created' and 'updated' timestamps according to the specified strategy (e.g., prefer oldest created, newest updated).
  *   6. Determines the `mergeTarget`, which indicates how the merged data should be applied (e.g., update local, update remote, update both, or no operation).
  *   7. Sets the `updated3` timestamp on the merged data to mark it as processed in the current sync cycle if an update is to occur.
  *   8. Accumulates changes into `updatesForLocal`, `updatesForRemote`, `localDeletions`, and `remoteDeletions` lists.
+ *   9. Reports bookmarks whose title, note or tags were changed differently on both sides in `conflicts`.
  * The function processes bookmarks in batches for improved performance and responsiveness.
  *
  * @param localDataInput - The current local bookmarks data. This input object will not be modified directly; a clone is used internally.
  * @param remoteDataInput - The current remote bookmarks data. This input object will not be modified directly; a clone is used internally.
  * @param strategy - The merge strategy defining how to handle conflicts for metadata (e.g., title) and tags.
- * @param syncOption - Options for the synchronization process, including `lastSyncTime` (timestamp of the last successful sync)
- *                     and `currentSyncTime` (timestamp for the current sync operation).
+ * @param syncOption - Options for the synchronization process, including `lastSyncTime` (timestamp of the last successful sync),
+ *                     `currentSyncTime` (timestamp for the current sync operation) and the optional `baseData` snapshot.
  * @param onProgress - Optional callback function to report merge progress.
  * @returns A Promise that resolves to an object containing the results of the merge operation:
  *   - `updatesForLocal`: BookmarksData to be created or updated in the local store.
@@ -195,6 +295,7 @@ function isValid(
  *   - `remoteDeletions`: An array of URLs for bookmarks to be deleted from the remote store.
  *   - `finalLocalData`: The complete local bookmarks data after applying all deletions and updates from this merge operation.
  *   - `finalRemoteData`: The complete remote bookmarks data after applying all deletions and updates from this merge operation.
+ *   - `conflicts`: Bookmarks changed on both sides with conflicting values. Their merged versions are already included in the updates.
  */
 export async function mergeBookmarks(
   localDataInput: BookmarksData | undefined,
@@ -214,6 +315,7 @@ export async function mergeBookmarks(
   remoteDeletions: string[]
   finalLocalData: BookmarksData
   finalRemoteData: BookmarksData
+  conflicts: MergeConflict[]
 }> {
   // Basic error handling for input data
   if (!localDataInput || !remoteDataInput) {
@@ -227,12 +329,16 @@ export async function mergeBookmarks(
       remoteDeletions: [],
       finalLocalData: localDataInput || {},
       finalRemoteData: remoteDataInput || {},
+      conflicts: [],
     }
   }
 
   // Clone data to prevent modification of original objects during the merge process.
   const localData = structuredClone(localDataInput)
   const remoteData = structuredClone(remoteDataInput)
+  const baseData = syncOption.baseData
+    ? structuredClone(syncOption.baseData)
+    : undefined
 
   let defaultDate = new Date(strategy.defaultDate).getTime()
   if (!isValidDate(defaultDate)) {
@@ -253,6 +359,7 @@ export async function mergeBookmarks(
   const updatesForRemote: BookmarksData = {} // Bookmarks to be created or updated remotely
   const localDeletions: string[] = [] // URLs of bookmarks to be deleted locally
   const remoteDeletions: string[] = [] // URLs of bookmarks to be deleted remotely
+  const conflicts: MergeConflict[] = [] // Bookmarks changed on both sides with conflicting values
 
   // Collect all unique URLs from both local and remote sources to ensure all items are processed.
   const allUrls = Array.from(
@@ -277,91 +384,50 @@ export async function mergeBookmarks(
       for (const url of batchUrls) {
         const local = localData[url]
         const remote = remoteData[url]
+        const base = baseData?.[url]
 
         // Normalize timestamps before comparison
         // TODO: add modified after normalized items to merged items
         normalizeBookmark(local, defaultDate)
         normalizeBookmark(remote, defaultDate)
+        normalizeBookmark(base, defaultDate)
 
         // Determine if the local or remote version has been modified since the last sync.
-        // A bookmark is 'valid' if it has been modified after lastSyncTime.
+        // With a base snapshot, a bookmark is 'valid' if its content differs from the base version.
+        // Otherwise, a bookmark is 'valid' if it has been modified after lastSyncTime.
         // localValid/remoteValid: Check for actual content modifications (excludes sync-only operations)
         // localValid2/remoteValid2: Check for any modifications including sync operations
         // const localValid = isValid(local, lastSyncTime, true)
         // const remoteValid = isValid(remote, lastSyncTime, true)
-        const localValid2 = isValid(local, lastSyncTime, false)
-        const remoteValid2 = isValid(remote, lastSyncTime, false)
+        const isChanged = (data: BookmarkTagsAndMetadata | undefined) =>
+          baseData
+            ? isChangedSinceBase(data, base)
+            : isValid(data, lastSyncTime, false)
+        // With `updateOverDelete: false`, a bookmark that existed at the last sync and is missing
+        // on the other side is deleted even if it was updated since.
+        const isKeptOverDelete = (data: BookmarkTagsAndMetadata) =>
+          strategy.updateOverDelete !== false ||
+          (baseData ? !base : data.meta.created > lastSyncTime)
+        const localValid2 = isChanged(local)
+        const remoteValid2 = isChanged(remote)
 
         if (local && remote) {
           // Case 1: Bookmark exists in both local and remote sources.
-          const data = mergeBothSources(
+          const result = mergeExistingBookmark(
             local,
             localValid2,
             remote,
             remoteValid2,
-            strategy
+            base,
+            strategy,
+            currentSyncTime
           )
-
-          // If mergeBothSources returns undefined, it means both versions were invalid (not updated
-          // since lastSyncTime) and no merge action is taken. The item is effectively ignored for updates.
-          // This aligns with the expected behavior: when both sides exist but are invalid, data is preserved and not updated.
-          if (!data) {
-            continue
-          }
-
-          // After `mergeBothSources` provides the core merged content (tags, meta excluding created/updated),
-          // we now specifically update the 'created' and 'updated' timestamps based on the strategy.
-          // This ensures that the `determinMergeTarget` function below uses data with the final, correct timestamps.
-          // The `preferOldestCreated` and `preferNewestUpdated` flags in the strategy guide this process.
-          // If `preferOldestCreated` is not explicitly false, the oldest 'created' time is chosen.
-          // If `preferNewestUpdated` is not explicitly false, the newest 'updated' time is chosen.
-          if (strategy.preferOldestCreated !== false) {
-            data.meta.created = Math.min(
-              local.meta.created,
-              remote.meta.created
-            )
-          }
-
-          if (strategy.preferNewestUpdated !== false) {
-            data.meta.updated = Math.max(
-              local.meta.updated,
-              remote.meta.updated
-            )
-
-            data.meta.updated2 =
-              local.meta.updated2 && remote.meta.updated2
-                ? Math.max(local.meta.updated2, remote.meta.updated2)
-                : local.meta.updated2 || remote.meta.updated2
-          }
-
-          // Determine the merge target based on the merged data and original local/remote versions.
-          // mergeTarget === 0 can occur in several scenarios:
-          //   1. Conflict: Local and remote versions have conflicting changes that cannot be automatically resolved by the current strategy.
-          //   2. No effective change: Although both local and remote might have been 'valid' (modified since last sync),
-          //      the merge process resulted in data identical to both original local and remote versions (e.g., both sides made the exact same change, including timestamps).
-          //   3. Identical and no update needed: Both local and remote are identical, and neither was 'valid' (no changes since last sync).
-          //   4. Both marked for deletion and strategy aligns with this (though deletion is handled earlier, this is a conceptual possibility for mergeTarget=0).
-          // In these cases (mergeTarget === 0), no update action is taken for this item. It's skipped, and 'updated3' is not set.
-          // The calling context might have specific rules for logging or handling conflicts if desired.
-          const mergeTarget = determinMergeTarget(data, local, remote)
-          if (mergeTarget === 0) {
-            // If there's a conflict or no action needed (mergeTarget === 0), skip this item.
-            // No updates will be queued for local or remote, and updated3 will not be set here.
+          // Skipped by the strategy, unchanged on both sides, or nothing to update
+          if (!result) {
             continue
           }
 
-          // Ensure 'updated3' reflects this merge operation and is the most recent timestamp.
-          // This is only calculated if mergeTarget indicates an update is needed (i.e., not 0).
-          // Using currentSyncTime here helps handle edge cases, such as when a bookmark was just updated
-          // (updated === currentSyncTime) or if the user's local clock was modified, making currentSyncTime
-          // potentially less than a pre-existing 'updated' timestamp from a future-dated manual edit.
-          // Adding 1 to existing getUpdated values ensures updated3 is strictly newer if based on those.
-          data.meta.updated3 = Math.max(
-            getUpdated(local.meta) + 1,
-            getUpdated(remote.meta) + 1,
-            currentSyncTime
-          )
-
+          const { data, mergeTarget, conflictFields } = result
           // Based on mergeTarget, add the merged data to the appropriate update list.
           // mergeTarget = 1: Remote is truth, update local.
           // mergeTarget = 2: Local is truth, update remote.
@@ -373,9 +439,21 @@ export async function mergeBookmarks(
           if (mergeTarget === 2 || mergeTarget === 3) {
             updatesForRemote[url] = data
           }
+
+          // Report conflicting changes so the caller can let the user review the merged result.
+          if (conflictFields.length > 0) {
+            conflicts.push({
+              url,
+              fields: conflictFields,
+              local,
+              remote,
+              base,
+              merged: structuredClone(data),
+            })
+          }
         } else if (local && !remote) {
           // Case 2: Bookmark exists only locally.
-          if (localValid2) {
+          if (localValid2 && isKeptOverDelete(local)) {
             // Local version is newer or new; it should be propagated to remote.
             // Update 'updated3' to mark it as processed in this sync cycle.
             // Using currentSyncTime ensures 'updated3' reflects this sync operation, handling cases
@@ -394,7 +472,7 @@ export async function mergeBookmarks(
           }
         } else if (!local && remote) {
           // Case 3: Bookmark exists only remotely.
-          if (remoteValid2) {
+          if (remoteValid2 && isKeptOverDelete(remote)) {
             // Remote version is newer or new; it should be propagated to local.
             // Update 'updated3' to mark it as processed in this sync cycle.
             // Using currentSyncTime ensures 'updated3' reflects this sync operation, handling cases
@@ -456,14 +534,191 @@ export async function mergeBookmarks(
     remoteDeletions,
     finalLocalData,
     finalRemoteData,
+    conflicts,
+  }
+}
+
+/**
+ * Finds the fields changed differently on both sides of a bookmark.
+ * With a base version, a field conflicts only if both sides changed it (compared to the base) to different values.
+ * Without a base version, both sides are known to be changed and any difference conflicts.
+ * Fields merged with the 'local' or 'remote' strategy never conflict, as the strategy already picks a side.
+ * @param {BookmarkTagsAndMetadata} local - The local bookmark data.
+ * @param {BookmarkTagsAndMetadata} remote - The remote bookmark data.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The version of the bookmark at the last sync, if known.
+ * @param {MergeStrategy} mergeStrategy - The overall merge strategy configuration.
+ * @returns {MergeConflictField[]} The conflicting fields.
+ */
+function findConflictingFields(
+  local: BookmarkTagsAndMetadata,
+  remote: BookmarkTagsAndMetadata,
+  base: BookmarkTagsAndMetadata | undefined,
+  mergeStrategy: MergeStrategy
+): MergeConflictField[] {
+  const isConflict = (
+    localValue: unknown,
+    remoteValue: unknown,
+    baseValue: unknown
+  ) =>
+    !isSameValue(localValue, remoteValue) &&
+    (!base ||
+      (!isSameValue(localValue, baseValue) &&
+        !isSameValue(remoteValue, baseValue)))
+  const sortTags = (tags: string[] | undefined) =>
+    tags ? [...new Set(tags)].sort() : undefined
+
+  const fields: MergeConflictField[] = []
+  for (const field of ['title', 'note'] as const) {
+    // Fields with their own strategy are always merged automatically
+    const fieldStrategy = mergeStrategy.metaFields?.[field]
+    if (
+      !fieldStrategy &&
+      mergeStrategy.meta !== 'local' &&
+      mergeStrategy.meta !== 'remote' &&
+      isConflict(local.meta[field], remote.meta[field], base?.meta[field])
+    ) {
+      fields.push(field)
+    }
   }
+
+  if (
+    mergeStrategy.tags !== 'local' &&
+    mergeStrategy.tags !== 'remote' &&
+    isConflict(
+      sortTags(local.tags),
+      sortTags(remote.tags),
+      sortTags(base?.tags)
+    )
+  ) {
+    fields.push('tags')
+  }
+
+  return fields
+}
+
+/**
+ * The result of merging a bookmark that exists in both local and remote sources.
+ */
+type ExistingBookmarkMergeResult = {
+  data: BookmarkTagsAndMetadata
+  /** 1: update local, 2: update remote, 3: update both */
+  mergeTarget: number
+  /** The fields changed differently on both sides, empty if there is no conflict */
+  conflictFields: MergeConflictField[]
+}
+
+/**
+ * Merges a bookmark that exists in both local and remote sources.
+ * Resolves which sides count as changed (`resolveExistingValidity`), merges them (`mergeBothSources`),
+ * finalizes the timestamps and the merge target, and finds the conflicting fields.
+ * @param {BookmarkTagsAndMetadata} local - The local version of the bookmark.
+ * @param {boolean} localChanged - Whether the local version changed since the last sync.
+ * @param {BookmarkTagsAndMetadata} remote - The remote version of the bookmark.
+ * @param {boolean} remoteChanged - Whether the remote version changed since the last sync.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The version of the bookmark at the last sync, if known.
+ * @param {MergeStrategy} strategy - The overall merge strategy configuration.
+ * @param {number} currentSyncTime - The timestamp of the current sync.
+ * @returns {ExistingBookmarkMergeResult | undefined} The merged bookmark, or undefined if neither side needs an update.
+ */
+// eslint-disable-next-line max-params
+function mergeExistingBookmark(
+  local: BookmarkTagsAndMetadata,
+  localChanged: boolean,
+  remote: BookmarkTagsAndMetadata,
+  remoteChanged: boolean,
+  base: BookmarkTagsAndMetadata | undefined,
+  strategy: MergeStrategy,
+  currentSyncTime: number
+): ExistingBookmarkMergeResult | undefined {
+  const validity = resolveExistingValidity(
+    local,
+    localChanged,
+    remote,
+    remoteChanged,
+    strategy
+  )
+  if (!validity) {
+    return undefined
+  }
+
+  const [localValid, remoteValid] = validity
+  const data = mergeBothSources(
+    local,
+    localValid,
+    remote,
+    remoteValid,
+    strategy,
+    base
+  )
+
+  // If mergeBothSources returns undefined, it means both versions were invalid (not updated
+  // since lastSyncTime) and no merge action is taken. The item is effectively ignored for updates.
+  // This aligns with the expected behavior: when both sides exist but are invalid, data is preserved and not updated.
+  if (!data) {
+    return undefined
+  }
+
+  // After `mergeBothSources` provides the core merged content (tags, meta excluding created/updated),
+  // we now specifically update the 'created' and 'updated' timestamps based on the strategy.
+  // This ensures that the `determinMergeTarget` function below uses data with the final, correct timestamps.
+  // The `preferOldestCreated` and `preferNewestUpdated` flags in the strategy guide this process.
+  // If `preferOldestCreated` is not explicitly false, the oldest 'created' time is chosen.
+  // If `preferNewestUpdated` is not explicitly false, the newest 'updated' time is chosen.
+  if (strategy.preferOldestCreated !== false) {
+    data.meta.created = Math.min(local.meta.created, remote.meta.created)
+  }
+
+  if (strategy.preferNewestUpdated !== false) {
+    data.meta.updated = Math.max(local.meta.updated, remote.meta.updated)
+
+    data.meta.updated2 =
+      local.meta.updated2 && remote.meta.updated2
+        ? Math.max(local.meta.updated2, remote.meta.updated2)
+        : local.meta.updated2 || remote.meta.updated2
+  }
+
+  // Determine the merge target based on the merged data and original local/remote versions.
+  // mergeTarget === 0 can occur in several scenarios:
+  //   1. Conflict: Local and remote versions have conflicting changes that cannot be automatically resolved by the current strategy.
+  //   2. No effective change: Although both local and remote might have been 'valid' (modified since last sync),
+  //      the merge process resulted in data identical to both original local and remote versions (e.g., both sides made the exact same change, including timestamps).
+  //   3. Identical and no update needed: Both local and remote are identical, and neither was 'valid' (no changes since last sync).
+  //   4. Both marked for deletion and strategy aligns with this (though deletion is handled earlier, this is a conceptual possibility for mergeTarget=0).
+  // In these cases (mergeTarget === 0), no update action is taken for this item. It's skipped, and 'updated3' is not set.
+  // The calling context might have specific rules for logging or handling conflicts if desired.
+  const mergeTarget = determinMergeTarget(data, local, remote)
+  if (mergeTarget === 0) {
+    // If there's a conflict or no action needed (mergeTarget === 0), skip this item.
+    // No updates will be queued for local or remote, and updated3 will not be set here.
+    return undefined
+  }
+
+  // Ensure 'updated3' reflects this merge operation and is the most recent timestamp.
+  // This is only calculated if mergeTarget indicates an update is needed (i.e., not 0).
+  // Using currentSyncTime here helps handle edge cases, such as when a bookmark was just updated
+  // (updated === currentSyncTime) or if the user's local clock was modified, making currentSyncTime
+  // potentially less than a pre-existing 'updated' timestamp from a future-dated manual edit.
+  // Adding 1 to existing getUpdated values ensures updated3 is strictly newer if based on those.
+  data.meta.updated3 = Math.max(
+    getUpdated(local.meta) + 1,
+    getUpdated(remote.meta) + 1,
+    currentSyncTime
+  )
+
+  // Conflicts are only possible if both sides changed
+  const conflictFields =
+    localValid && remoteValid
+      ? findConflictingFields(local, remote, base, strategy)
+      : []
+  return { data, mergeTarget, conflictFields }
 }
 
 /**
  * Merges bookmark data when it exists in both local and remote sources.
  * This function decides the preliminary merged data based on the validity (recency of updates) of local and remote versions.
  * - If both are invalid (not updated since last sync), returns `undefined` (no action needed).
- * - If one is valid and the other is not, returns a clone of the valid version.
+ * - If one is valid and the other is not, returns a clone of the valid version, with the per-field strategies
+ *   of `metaFields` applied, so e.g. a field merged with 'local' keeps the local value even if only remote changed.
  * - If both are valid, calls `mergeUpdates` to perform a content-level merge (tags and metadata, excluding created/updated initially).
  * The `mergeStrategy` is passed to `mergeUpdates` if needed.
  * The final `created` and `updated` timestamps, and the `mergeTarget`, are determined later in the `mergeBookmarks` function.
@@ -472,6 +727,7 @@ export async function mergeBookmarks(
  * @param {BookmarkTagsAndMetadata} remote - The remote version of the bookmark.
  * @param {boolean} remoteValid - Whether the remote version is valid (updated since last sync).
  * @param {MergeStrategy} mergeStrategy - The overall merge strategy configuration.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The version of the bookmark at the last sync, if known. Enables a three-way merge.
  * @returns {BookmarkTagsAndMetadata | undefined} The preliminarily merged bookmark data (tags and meta, created/updated might be intermediate), or undefined if no action based on validity.
  */
 // eslint-disable-next-line max-params
@@ -480,7 +736,8 @@ function mergeBothSources(
   localValid: boolean,
   remote: BookmarkTagsAndMetadata,
   remoteValid: boolean,
-  mergeStrategy: MergeStrategy
+  mergeStrategy: MergeStrategy,
+  base?: BookmarkTagsAndMetadata
 ): BookmarkTagsAndMetadata | undefined {
   // Ignore if both local and remote versions are outdated (not valid).
   // This means if !localValid && !remoteValid, the function returns undefined.
@@ -490,19 +747,82 @@ function mergeBothSources(
     return undefined
   }
 
-  // If only remote is valid, take remote
-  if (!localValid && remoteValid) {
-    return structuredClone(remote)
-  }
-
-  // If only local is valid, take local
-  if (localValid && !remoteValid) {
-    return structuredClone(local)
+  // If only one side is valid, take it, except for the fields with their own strategy
+  if (!localValid || !remoteValid) {
+    const data = structuredClone(localValid ? local : remote)
+    data.meta = applyMetaFieldStrategies(
+      data.meta,
+      local,
+      remote,
+      base,
+      mergeStrategy.metaFields,
+      localValid
+    )
+    return data
   }
 
   // If both are valid, merge them based on strategy
   // Both localValid and remoteValid are true at this point
-  return mergeUpdates(local, remote, mergeStrategy)
+  return mergeUpdates(local, remote, mergeStrategy, base)
+}
+
+/**
+ * Applies the `overwriteLocalDeleted`, `overwriteRemoteDeleted`, `skipExisting` and `updateOverDelete` flags
+ * to a bookmark that exists in both local and remote sources.
+ * If one side is marked as deleted and the matching overwrite flag is set, that flag decides
+ * which side wins, regardless of which side changed since the last sync.
+ * Otherwise, with `updateOverDelete`, the side updated after the deletion wins, as in `importData`.
+ * @param {BookmarkTagsAndMetadata} local - The local version of the bookmark.
+ * @param {boolean} localValid - Whether the local version is valid (updated since last sync).
+ * @param {BookmarkTagsAndMetadata} remote - The remote version of the bookmark.
+ * @param {boolean} remoteValid - Whether the remote version is valid (updated since last sync).
+ * @param {MergeStrategy} mergeStrategy - The overall merge strategy configuration.
+ * @returns {[boolean, boolean] | undefined} The local and remote validity to merge with, or undefined if the bookmark should be skipped.
+ */
+// eslint-disable-next-line max-params
+function resolveExistingValidity(
+  local: BookmarkTagsAndMetadata,
+  localValid: boolean,
+  remote: BookmarkTagsAndMetadata,
+  remoteValid: boolean,
+  mergeStrategy: MergeStrategy
+): [boolean, boolean] | undefined {
+  const { overwriteLocalDeleted, overwriteRemoteDeleted } = mergeStrategy
+  const localDeleted = isMarkedAsDeleted(local.tags)
+  const remoteDeleted = isMarkedAsDeleted(remote.tags)
+
+  if (localDeleted && !remoteDeleted && overwriteLocalDeleted !== undefined) {
+    return overwriteLocalDeleted ? [false, true] : [true, false]
+  }
+
+  if (remoteDeleted && !localDeleted && overwriteRemoteDeleted !== undefined) {
+    return overwriteRemoteDeleted ? [true, false] : [false, true]
+  }
+
+  if (mergeStrategy.skipExisting) {
+    return undefined
+  }
+
+  // A bookmark updated after the other side marked it as deleted is kept
+  if (mergeStrategy.updateOverDelete !== false) {
+    if (
+      remoteDeleted &&
+      !localDeleted &&
+      isUpdatedAfterDeletion(local, remote)
+    ) {
+      return [true, false]
+    }
+
+    if (
+      localDeleted &&
+      !remoteDeleted &&
+      isUpdatedAfterDeletion(remote, local)
+    ) {
+      return [false, true]
+    }
+  }
+
+  return [localValid, remoteValid]
 }
 
 /**
@@ -514,6 +834,9 @@ function mergeBothSources(
  * Key aspects:
  * - It determines timestamp precedence (`localHasTimestampPrecedence`) to guide 'newer' or 'merge' strategies.
  * - It calls specialized functions `mergeTags`, `mergeMeta`, and `mergeDeletedMeta` to handle specific parts of the bookmark.
+ * - If the base version (the state at the last sync) is known, tags and metadata are merged three-way
+ *   (`mergeTagsWithBase`, `mergeMetaWithBase`), so independent changes on both sides are kept.
+ *   'local' and 'remote' strategies still take the whole side; timestamps only decide real conflicts.
  * - Importantly, this function *does not* finalize the `created` and `updated` timestamps of the `mergedData`.
  *   These are handled by `mergeCreatedAndUpdated` at a later stage in the `mergeBookmarks` orchestrator function.
  * - The `mergeTarget` (determining if local, remote, or both should be updated) is also decided later by `determinMergeTarget`
@@ -524,6 +847,7 @@ function mergeBothSources(
  * @param {MergeStrategy} mergeStrategy - The strategy object defining how to merge tags and metadata fields.
  *                                      It includes `tags` (e.g., 'union', 'local', 'remote', 'newer') and
  *                                      `meta` (e.g., 'merge', 'local', 'remote', 'newer') strategies.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The version of the bookmark at the last sync, if known.
  * @returns {BookmarkTagsAndMetadata} A new bookmark data object containing the merged tags and metadata.
  *                                    The `created` and `updated` fields in the returned `meta` are typically
  *                                    the ones from the version that had timestamp precedence for metadata, or a mix if 'merge' was used,
@@ -532,7 +856,8 @@ function mergeBothSources(
 function mergeUpdates(
   local: BookmarkTagsAndMetadata,
   remote: BookmarkTagsAndMetadata,
-  mergeStrategy: MergeStrategy
+  mergeStrategy: MergeStrategy,
+  base?: BookmarkTagsAndMetadata
 ): BookmarkTagsAndMetadata {
   const mergeTagsStrategy = mergeStrategy.tags || 'union'
   const mergeMetaStrategy = mergeStrategy.meta || 'merge'
@@ -543,17 +868,24 @@ function mergeUpdates(
 
   // Perform the merge of tags and metadata based on the chosen strategies.
   // Merge tags using the specified strategy and the calculated timestamp precedence.
-  const mergedTags = mergeTags(
-    local,
-    remote,
-    mergeTagsStrategy,
-    localHasTimestampPrecedence
-  )
+  const mergedTags =
+    base && mergeTagsStrategy !== 'local' && mergeTagsStrategy !== 'remote'
+      ? mergeTagsWithBase(local, remote, base)
+      : mergeTags(local, remote, mergeTagsStrategy, localHasTimestampPrecedence)
   // Merge metadata (excluding created/updated, which are handled separately) using the specified strategy and timestamp precedence.
-  const mergedMeta = mergeMeta(
+  const mergedMeta = applyMetaFieldStrategies(
+    base && mergeMetaStrategy !== 'local' && mergeMetaStrategy !== 'remote'
+      ? mergeMetaWithBase(local, remote, base, localHasTimestampPrecedence)
+      : mergeMeta(
+          local,
+          remote,
+          mergeMetaStrategy,
+          localHasTimestampPrecedence
+        ),
     local,
     remote,
-    mergeMetaStrategy,
+    base,
+    mergeStrategy.metaFields,
     localHasTimestampPrecedence
   )
   // If the merged bookmark is marked as deleted, merge the 'deletedMeta' information.
@@ -615,6 +947,85 @@ function mergeTags(
   }
 }
 
+/**
+ * Merges tags three-way using the base version of the bookmark.
+ * A tag is kept if it is in the base and neither side removed it, or if either side added it.
+ * This way, removing a tag on one device and adding another tag on a different device both survive.
+ * Tags keep the local order, followed by tags only present on the remote.
+ * @param {BookmarkTagsAndMetadata} local - The local bookmark data.
+ * @param {BookmarkTagsAndMetadata} remote - The remote bookmark data.
+ * @param {BookmarkTagsAndMetadata} base - The version of the bookmark at the last sync.
+ * @returns {string[]} An array of merged tags.
+ */
+function mergeTagsWithBase(
+  local: BookmarkTagsAndMetadata,
+  remote: BookmarkTagsAndMetadata,
+  base: BookmarkTagsAndMetadata
+): string[] {
+  const baseTags = new Set(base.tags)
+  const localTags = new Set(local.tags)
+  const remoteTags = new Set(remote.tags)
+
+  return Array.from(new Set([...local.tags, ...remote.tags])).filter((tag) =>
+    baseTags.has(tag)
+      ? localTags.has(tag) && remoteTags.has(tag)
+      : localTags.has(tag) || remoteTags.has(tag)
+  )
+}
+
+/**
+ * Merges metadata three-way, field by field, using the base version of the bookmark.
+ * A field changed on only one side takes that side's value (including removal of the field).
+ * Only a field changed differently on both sides is a conflict, which is resolved by timestamp precedence.
+ * @param {BookmarkTagsAndMetadata} local - The local bookmark data.
+ * @param {BookmarkTagsAndMetadata} remote - The remote bookmark data.
+ * @param {BookmarkTagsAndMetadata} base - The version of the bookmark at the last sync.
+ * @param {boolean} localHasTimestampPrecedence - True if the local version wins conflicting fields.
+ * @returns {BookmarkTagsAndMetadata['meta']} The merged metadata object.
+ */
+function mergeMetaWithBase(
+  local: BookmarkTagsAndMetadata,
+  remote: BookmarkTagsAndMetadata,
+  base: BookmarkTagsAndMetadata,
+  localHasTimestampPrecedence: boolean
+): BookmarkTagsAndMetadata['meta'] {
+  const localMeta = local.meta as Record<string, unknown>
+  const remoteMeta = remote.meta as Record<string, unknown>
+  const baseMeta = base.meta as Record<string, unknown>
+  const mergedMeta: Record<string, unknown> = {}
+
+  const keys = new Set([
+    ...Object.keys(localMeta),
+    ...Object.keys(remoteMeta),
+    ...Object.keys(baseMeta),
+  ])
+  for (const key of keys) {
+    const localValue = localMeta[key]
+    const remoteValue = remoteMeta[key]
+    const baseValue = baseMeta[key]
+
+    let value: unknown
+    if (isSameValue(localValue, remoteValue)) {
+      value = localValue
+    } else if (isSameValue(localValue, baseValue)) {
+      // Only remote changed this field
+      value = remoteValue
+    } else if (isSameValue(remoteValue, baseValue)) {
+      // Only local changed this field
+      value = localValue
+    } else {
+      // Conflict: both sides changed this field differently
+      value = localHasTimestampPrecedence ? localValue : remoteValue
+    }
+
+    if (value !== undefined) {
+      mergedMeta[key] = value
+    }
+  }
+
+  return mergedMeta as BookmarkTagsAndMetadata['meta']
+}
+
 /**
  * Merges metadata (title, created, updated timestamps) from local and remote bookmarks.
  * Assumes both local and remote bookmarks are valid for merging at this stage.
@@ -657,6 +1068,174 @@ function mergeMeta(
   }
 }
 
+/**
+ * Overrides fields of the merged metadata with their per-field strategies.
+ * @param {BookmarkTagsAndMetadata['meta']} mergedMeta - The metadata merged by the `meta` strategy.
+ * @param {BookmarkTagsAndMetadata} local - The local bookmark data.
+ * @param {BookmarkTagsAndMetadata} remote - The remote bookmark data.
+ * @param {BookmarkTagsAndMetadata | undefined} base - The version of the bookmark at the last sync, if known.
+ * @param {Record<string, MergeMetaFieldStrategy> | undefined} metaFields - The per-field strategies.
+ * @param {boolean} localHasTimestampPrecedence - True if the local version is considered to have precedence based on its timestamp.
+ * @returns {BookmarkTagsAndMetadata['meta']} The merged metadata object.
+ */
+// eslint-disable-next-line max-params
+function applyMetaFieldStrategies(
+  mergedMeta: BookmarkTagsAndMetadata['meta'],
+  local: BookmarkTagsAndMetadata,
+  remote: BookmarkTagsAndMetadata,
+  base: BookmarkTagsAndMetadata | undefined,
+  metaFields: Record<string, MergeMetaFieldStrategy> | undefined,
+  localHasTimestampPrecedence: boolean
+): BookmarkTagsAndMetadata['meta'] {
+  if (!metaFields) {
+    return mergedMeta
+  }
+
+  const result: Record<string, unknown> = { ...mergedMeta }
+  const localMeta = local.meta as Record<string, unknown>
+  const remoteMeta = remote.meta as Record<string, unknown>
+  const baseMeta = base?.meta as Record<string, unknown> | undefined
+
+  for (const [key, fieldStrategy] of Object.entries(metaFields)) {
+    if (timestampMetaKeys.has(key)) {
+      continue
+    }
+
+    const localValue = localMeta[key]
+    const remoteValue = remoteMeta[key]
+    if (
+      fieldStrategy !== 'local' &&
+      fieldStrategy !== 'remote' &&
+      (isSameValue(localValue, remoteValue) ||
+        (baseMeta &&
+          (isSameValue(localValue, baseMeta[key]) ||
+            isSameValue(remoteValue, baseMeta[key]))))
+    ) {
+      // Not a conflict, keep the result of the `meta` strategy
+      continue
+    }
+
+    const value = mergeMetaField(
+      localValue,
+      remoteValue,
+      fieldStrategy,
+      localHasTimestampPrecedence
+    )
+    if (value === undefined) {
+      Reflect.deleteProperty(result, key)
+    } else {
+      result[key] = value
+    }
+  }
+
+  return result as BookmarkTagsAndMetadata['meta']
+}
+
+/**
+ * Merges a single metadata field with its per-field strategy.
+ * Strategies that do not fit the type of the values fall back to 'newer'.
+ * @param {unknown} localValue - The local value of the field.
+ * @param {unknown} remoteValue - The remote value of the field.
+ * @param {MergeMetaFieldStrategy} fieldStrategy - The strategy for this field.
+ * @param {boolean} localHasTimestampPrecedence - True if the local version is considered to have precedence based on its timestamp.
+ * @returns {unknown} The merged value, or undefined to remove the field.
+ */
+function mergeMetaField(
+  localValue: unknown,
+  remoteValue: unknown,
+  fieldStrategy: MergeMetaFieldStrategy,
+  localHasTimestampPrecedence: boolean
+): unknown {
+  // The newer value comes first, so it wins ties
+  const [newerValue, olderValue] = localHasTimestampPrecedence
+    ? [localValue, remoteValue]
+    : [remoteValue, localValue]
+  const values = [newerValue, olderValue].filter(
+    (value) => value !== undefined && value !== null
+  )
+  const strings = values.filter(
+    (value): value is string => typeof value === 'string'
+  )
+  const numbers = values.filter(
+    (value): value is number => typeof value === 'number'
+  )
+  const hasOnly = (typedValues: unknown[]) =>
+    typedValues.length > 0 && typedValues.length === values.length
+
+  switch (fieldStrategy) {
+    case 'local': {
+      return localValue
+    }
+
+    case 'remote': {
+      return remoteValue
+    }
+
+    case 'longest':
+    case 'concat': {
+      return hasOnly(strings)
+        ? mergeStringValues(strings, fieldStrategy)
+        : newerValue
+    }
+
+    case 'max':
+    case 'min': {
+      if (!hasOnly(numbers)) {
+        return newerValue
+      }
+
+      return fieldStrategy === 'max'
+        ? Math.max(...numbers)
+        : Math.min(...numbers)
+    }
+
+    case 'or': {
+      return Boolean(localValue) || Boolean(remoteValue)
+    }
+
+    case 'and': {
+      return Boolean(localValue) && Boolean(remoteValue)
+    }
+
+    default: {
+      // 'newer'
+      return newerValue
+    }
+  }
+}
+
+/**
+ * Merges one or two string values with the 'longest' or 'concat' strategy.
+ * @param {string[]} values - The values, newer value first.
+ * @param {'longest' | 'concat'} fieldStrategy - The strategy for this field.
+ * @returns {string} The merged value.
+ */
+function mergeStringValues(
+  values: string[],
+  fieldStrategy: 'longest' | 'concat'
+): string {
+  const [first, second] = values
+  if (second === undefined) {
+    return first
+  }
+
+  if (fieldStrategy === 'longest') {
+    return second.length > first.length ? second : first
+  }
+
+  // Skip a value that is already included, so repeated syncs don't duplicate it
+  if (first.includes(second)) {
+    return first
+  }
+
+  if (second.includes(first)) {
+    return second
+  }
+
+  // The newer value comes first
+  return `${first}\n${second}`
+}
+
 /**
  * Merges the 'deletedMeta' field from local and remote bookmarks if a bookmark is marked as deleted.
  * Assumes both local and remote bookmarks are valid for merging at this stage.
@@ -0,0 +1,145 @@
+import type {
+  BookmarksStore,
+  BookmarkKey,
+  BookmarkKeyValuePair,
+} from '../types/bookmarks.js'
+import { IndexedDbBookmarkEngine } from './indexed-db-bookmark-engine.js'
+
+/**
+ * Low-level persistence layer used by `BookmarkStorage`.
+ *
+ * Engines only move data in and out of the underlying storage. Validation,
+ * migration and change notifications stay in `BookmarkStorage`, so every
+ * engine exposes exactly the same behaviour to the rest of the app.
+ */
+export type BookmarkStorageEngine = {
+  /** Identifies the engine, mainly for logging and diagnostics. `none` keeps no data. */
+  readonly name: 'indexedDB' | 'localStorage' | 'none'
+
+  /**
+   * Loads the whole bookmark store.
+   *
+   * @returns The raw (unvalidated) store, or undefined if nothing has been saved yet.
+   */
+  load(): Promise<unknown>
+
+  /**
+   * Replaces the whole bookmark store.
+   *
+   * @param store - The complete store to save.
+   */
+  save(store: BookmarksStore): Promise<void>
+
+  /**
+   * Removes the whole bookmark store from the underlying storage.
+   */
+  clear(): Promise<void>
+
+  /**
+   * Loads a record kept next to the bookmarks, such as the sync audit log.
+   *
+   * @param key - The key of the record.
+   * @returns The record, or undefined if it does not exist.
+   */
+  getRecord(key: string): Promise<unknown>
+
+  /**
+   * Replaces a record kept next to the bookmarks.
+   *
+   * @param key - The key of the record.
+   * @param value - The record, which must be JSON-serializable.
+   */
+  setRecord(key: string, value: unknown): Promise<void>
+
+  /**
+   * Reads only the given bookmarks, without loading the whole store when the engine supports it.
+   * Keys that do not exist are silently ignored.
+   *
+   * @param keys - The bookmark keys to read.
+   * @returns Found bookmarks in the order of the given keys, or undefined if
+   * the engine cannot read them directly right now.
+   */
+  getEntries?(keys: BookmarkKey[]): Promise<BookmarkKeyValuePair[] | undefined>
+
+  /**
+   * Applies deletions and modifications record by record, without rewriting the whole store.
+   * `meta.updated` is set to `updated` only if something actually changed.
+   *
+   * If the engine does not implement this method, or resolves with undefined
+   * (e.g. the stored data needs migration first), `BookmarkStorage` falls back to load-modify-save.
+   *
+   * @param deletions - Keys of bookmarks to delete.
+   * @param modifications - Bookmarks to add or replace.
+   * @param updated - Timestamp to store in `meta.updated` when changes occur.
+   * @returns True if any record was deleted or written, undefined if the changes were not applied.
+   */
+  applyChanges?(
+    deletions: BookmarkKey[],
+    modifications: BookmarkKeyValuePair[],
+    updated: number
+  ): Promise<boolean | undefined>
+}
+
+/**
+ * Stores the whole bookmark store as a single JSON blob in localStorage.
+ * This is the original storage format and is used when IndexedDB is unavailable.
+ */
+export class LocalStorageBookmarkEngine implements BookmarkStorageEngine {
+  get name() {
+    return 'localStorage' as const
+  }
+
+  /**
+   * @param storageKey - The localStorage key holding the store.
+   */
+  constructor(private readonly storageKey: string) {}
+
+  async load(): Promise<unknown> {
+    const bookmarksJson = localStorage.getItem(this.storageKey)
+    return bookmarksJson ? (JSON.parse(bookmarksJson) as unknown) : undefined
+  }
+
+  async save(store: BookmarksStore): Promise<void> {
+    localStorage.setItem(this.storageKey, JSON.stringify(store))
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.storageKey)
+  }
+
+  async getRecord(key: string): Promise<unknown> {
+    const recordJson = localStorage.getItem(this.getRecordStorageKey(key))
+    return recordJson ? (JSON.parse(recordJson) as unknown) : undefined
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    localStorage.setItem(this.getRecordStorageKey(key), JSON.stringify(value))
+  }
+
+  /**
+   * @param key - The key of the record.
+   * @returns The localStorage key holding the record.
+   */
+  private getRecordStorageKey(key: string): string {
+    return `${this.storageKey}-${key}`
+  }
+}
+
+/**
+ * Creates the preferred storage engine for the current environment.
+ * IndexedDB is used when available; the localStorage engine is used otherwise,
+ * and also as a fallback if the IndexedDB database cannot be opened.
+ *
+ * @param storageKey - The storage key, used as localStorage key and IndexedDB database name.
+ * @returns The storage engine to use.
+ */
+export function createBookmarkStorageEngine(
+  storageKey: string
+): BookmarkStorageEngine {
+  const fallbackEngine = new LocalStorageBookmarkEngine(storageKey)
+  if (typeof indexedDB === 'undefined') {
+    return fallbackEngine
+  }
+
+  return new IndexedDbBookmarkEngine(storageKey, fallbackEngine)
+}
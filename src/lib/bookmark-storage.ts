@@ -11,16 +11,44 @@ import type {
 } from '../types/bookmarks.js'
 import { isNonNullObject } from '../utils/index.js'
 import { prettyPrintJson } from '../utils/pretty-print-json.js'
+import {
+  createBookmarkStorageEngine,
+  type BookmarkStorageEngine,
+} from './bookmark-storage-engine.js'
+
+/**
+ * The bookmarks changed by an update that did not replace the whole store.
+ */
+export type BookmarksStoreChanges = {
+  deletions: BookmarkKey[]
+  modifications: BookmarkKeyValuePair[]
+  updated: number
+}
+
+/**
+ * Detail of the `updateBookmarksStore` event.
+ */
+export type BookmarksStoreUpdate = {
+  /**
+   * The changed bookmarks, omitted when the whole store was replaced
+   */
+  changes?: BookmarksStoreChanges
+  /**
+   * The id passed by the writer, only set in the tab that wrote the data
+   */
+  writeId?: string
+}
 
 /**
  * Bookmark Storage Service
  *
  * Responsible for saving and retrieving bookmark data from local storage or remote servers.
  * Provides methods for CRUD operations on bookmarks and manages the bookmark store structure.
+ * The data itself is kept by a `BookmarkStorageEngine`: IndexedDB when available, localStorage otherwise.
  */
 export class BookmarkStorage {
   /**
-   * Storage key used for localStorage
+   * Storage key, used as localStorage key or IndexedDB database name
    * @private
    */
   private readonly storageKey: string
@@ -31,25 +59,58 @@ export class BookmarkStorage {
    */
   private readonly currentVersion: number = CURRENT_DATABASE_VERSION
 
+  /**
+   * Engine that actually stores the data
+   * @private
+   */
+  private readonly engine: BookmarkStorageEngine
+
+  /**
+   * Channel used to notify other tabs about changes, only needed when the
+   * engine does not raise `storage` events by itself
+   * @private
+   */
+  private readonly channel: BroadcastChannel | undefined
+
   /**
    * Creates a new BookmarkStorage instance
-   * @param storageKey - Custom storage key for localStorage, defaults to 'utags-bookmarks'
+   * @param storageKey - Custom storage key, defaults to 'utags-bookmarks'
+   * @param engine - Storage engine, defaults to IndexedDB with a localStorage fallback
    */
-  constructor(storageKey: string = STORAGE_KEY_BOOKMARKS) {
+  constructor(
+    storageKey: string = STORAGE_KEY_BOOKMARKS,
+    engine: BookmarkStorageEngine = createBookmarkStorageEngine(storageKey)
+  ) {
     this.storageKey = storageKey
+    this.engine = engine
+
+    if (
+      engine.name === 'indexedDB' &&
+      typeof BroadcastChannel !== 'undefined'
+    ) {
+      this.channel = new BroadcastChannel(storageKey)
+      this.channel.addEventListener(
+        'message',
+        (event: MessageEvent<BookmarksStoreChanges | undefined>) => {
+          this.dispatchUpdateEvent({ changes: event.data })
+        }
+      )
+    }
   }
 
   /**
-   * Persists the entire bookmark store (data and metadata) to local storage.
+   * Persists the entire bookmark store (data and metadata) to storage.
    *
    * @param bookmarksStore - The complete bookmark store object to save.
    * @param skipValidation - If true, skips the validation step. Useful for internal calls where data is already validated.
+   * @param writeId - Passed on with the `updateBookmarksStore` event, so the writer can recognize its own notification.
    * @returns A promise that resolves when the data has been successfully saved.
    * @throws Error if saving fails or if data is invalid (and validation is not skipped).
    */
   async persistBookmarksStore(
     bookmarksStore: BookmarksStore,
-    skipValidation = false
+    skipValidation = false,
+    writeId?: string
   ): Promise<void> {
     try {
       // Validate the bookmarks store before saving if not skipped
@@ -57,11 +118,9 @@ export class BookmarkStorage {
         ? bookmarksStore
         : this.validateBookmarksStore(bookmarksStore, false)
 
-      const bookmarksJson = JSON.stringify(validatedStore)
-      localStorage.setItem(this.storageKey, bookmarksJson)
+      await this.engine.save(validatedStore)
 
-      const event = new CustomEvent('updateBookmarksStore')
-      globalThis.dispatchEvent(event)
+      this.notifyBookmarksStoreUpdated({ writeId })
     } catch (error) {
       console.error('Failed to save bookmarks:', error)
       throw error
@@ -69,20 +128,18 @@ export class BookmarkStorage {
   }
 
   /**
-   * Retrieves the entire bookmark store (data and metadata) from local storage.
+   * Retrieves the entire bookmark store (data and metadata) from storage.
    *
    * @returns A promise that resolves with the `BookmarksStore` object.
-   * If no data exists in local storage, it returns an initialized empty store.
+   * If no data exists in storage, it returns an initialized empty store.
    * @throws Error if the stored data has an incompatible database version or if validation fails.
    */
   async getBookmarksStore(): Promise<BookmarksStore> {
     try {
-      const bookmarksJson = localStorage.getItem(this.storageKey)
-      if (bookmarksJson) {
-        const parsedData = JSON.parse(bookmarksJson) as BookmarksStore
-
-        // Validate the parsed data
-        return this.validateBookmarksStore(parsedData)
+      const storedData = await this.engine.load()
+      if (storedData) {
+        // Validate the stored data
+        return this.validateBookmarksStore(storedData)
       }
 
       // Return empty initialized data
@@ -178,6 +235,12 @@ export class BookmarkStorage {
     bookmarkKeys: BookmarkKey[]
   ): Promise<BookmarkKeyValuePair[]> {
     try {
+      // Read only the requested records if the engine supports it
+      const entries = await this.engine.getEntries?.(bookmarkKeys)
+      if (entries) {
+        return entries
+      }
+
       const bookmarksStore = await this.getBookmarksStore()
       const bookmarksData = bookmarksStore.data
 
@@ -351,6 +414,41 @@ export class BookmarkStorage {
     }
   }
 
+  /**
+   * Validates bookmark store data from another source, e.g., a sync service,
+   * and migrates it to the current version. Unlike the local data, the migrated data is not saved.
+   *
+   * @param data - The bookmark store data to validate
+   * @returns The validated data as BookmarksStore of the current version
+   * @throws Error if the data structure is invalid or version is incompatible
+   */
+  migrateExternalBookmarksStore(data: unknown): BookmarksStore {
+    return this.validateBookmarksStore(data, false)
+  }
+
+  /**
+   * Gets a record kept next to the bookmarks, such as the sync audit log.
+   *
+   * @param key - The key of the record.
+   * @returns A promise that resolves with the record, or undefined if it does not exist.
+   * @throws Error if reading the record fails.
+   */
+  async getRecord(key: string): Promise<unknown> {
+    return this.engine.getRecord(key)
+  }
+
+  /**
+   * Replaces a record kept next to the bookmarks.
+   *
+   * @param key - The key of the record.
+   * @param value - The record, which must be JSON-serializable.
+   * @returns A promise that resolves when the record has been saved.
+   * @throws Error if saving the record fails.
+   */
+  async setRecord(key: string, value: unknown): Promise<void> {
+    await this.engine.setRecord(key, value)
+  }
+
   /**
    * Batch updates bookmarks by handling both deletions and modifications in a single operation.
    * Only persists changes if there are actual modifications or deletions.
@@ -366,6 +464,23 @@ export class BookmarkStorage {
     modifications: BookmarkKeyValuePair[] = []
   ): Promise<void> {
     try {
+      // Write only the affected records if the engine supports it
+      const updated = Date.now()
+      const appliedChanges = await this.engine.applyChanges?.(
+        deletions,
+        modifications,
+        updated
+      )
+      if (appliedChanges !== undefined) {
+        if (appliedChanges) {
+          this.notifyBookmarksStoreUpdated({
+            changes: { deletions, modifications, updated },
+          })
+        }
+
+        return
+      }
+
       const bookmarksStore = await this.getBookmarksStore()
       let hasChanges = false
 
@@ -387,7 +502,7 @@ export class BookmarkStorage {
       // Only persist if there were actual changes
       if (hasChanges) {
         // Update the last modified timestamp
-        bookmarksStore.meta.updated = Date.now()
+        bookmarksStore.meta.updated = updated
         await this.persistBookmarksStore(bookmarksStore, true)
       }
     } catch (error) {
@@ -396,6 +511,32 @@ export class BookmarkStorage {
     }
   }
 
+  /**
+   * Notifies listeners in this tab and in other tabs that the store has changed.
+   * Other tabs only receive the changed bookmarks.
+   *
+   * @param update - The changed bookmarks and the id of the write
+   * @private
+   */
+  private notifyBookmarksStoreUpdated(update: BookmarksStoreUpdate): void {
+    this.dispatchUpdateEvent(update)
+    // The localStorage fallback already raises `storage` events in other tabs
+    if (this.engine.name === 'indexedDB') {
+      this.channel?.postMessage(update.changes)
+    }
+  }
+
+  /**
+   * Dispatches the `updateBookmarksStore` event in this tab.
+   *
+   * @param update - The changed bookmarks and the id of the write
+   * @private
+   */
+  private dispatchUpdateEvent(update: BookmarksStoreUpdate): void {
+    const event = new CustomEvent('updateBookmarksStore', { detail: update })
+    globalThis.dispatchEvent(event)
+  }
+
   /**
    * Creates an empty initialized bookmark store
    *
@@ -584,8 +725,6 @@ export const bookmarkStorage = new BookmarkStorage()
  *    - Implement strategy pattern for migrations
  *
  * 7. Storage Backend Extensions:
- *    - Add support for multiple storage backends
- *    - Implement storage adapter interface
  *    - Add data compression options
  */
 
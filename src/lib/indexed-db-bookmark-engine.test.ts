@@ -0,0 +1,426 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb'
+import { CURRENT_DATABASE_VERSION } from '../config/constants.js'
+import type {
+  BookmarksStore,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import { IndexedDbBookmarkEngine } from './indexed-db-bookmark-engine.js'
+import { LocalStorageBookmarkEngine } from './bookmark-storage-engine.js'
+import {
+  BookmarkStorage,
+  type BookmarksStoreUpdate,
+} from './bookmark-storage.js'
+
+const STORAGE_KEY = 'test-idb-bookmarks'
+
+function createEntry(
+  tags: string[],
+  created: number,
+  updated: number
+): BookmarkTagsAndMetadata {
+  return {
+    tags,
+    meta: { title: tags.join(' '), created, updated },
+  }
+}
+
+function createStore(): BookmarksStore {
+  return {
+    data: {
+      'https://example.com/a': createEntry(['tag1', 'tag2'], 1000, 2000),
+      'https://example.com/b': createEntry(['tag2'], 1100, 3000),
+      'https://example.com/c': createEntry(['tag3'], 1200, 4000),
+    },
+    meta: {
+      databaseVersion: CURRENT_DATABASE_VERSION,
+      created: 1000,
+      updated: 4000,
+    },
+  }
+}
+
+describe('IndexedDbBookmarkEngine', () => {
+  let engine: IndexedDbBookmarkEngine
+  let fallbackEngine: LocalStorageBookmarkEngine
+
+  beforeEach(() => {
+    // Use a fresh in-memory IndexedDB for every test
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    localStorage.clear()
+    fallbackEngine = new LocalStorageBookmarkEngine(STORAGE_KEY)
+    engine = new IndexedDbBookmarkEngine(STORAGE_KEY, fallbackEngine)
+    vi.spyOn(console, 'info').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    await engine.close()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('load and save', () => {
+    it('should return undefined when nothing has been saved', async () => {
+      expect(await engine.load()).toBeUndefined()
+    })
+
+    it('should save and load the whole store', async () => {
+      const store = createStore()
+      await engine.save(store)
+
+      expect(await engine.load()).toEqual(store)
+      // Nothing is written to localStorage
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull()
+    })
+
+    it('should replace all existing records on save', async () => {
+      await engine.save(createStore())
+      const newStore: BookmarksStore = {
+        data: { 'https://example.com/d': createEntry(['tag4'], 5000, 5000) },
+        meta: {
+          databaseVersion: CURRENT_DATABASE_VERSION,
+          created: 1000,
+          updated: 5000,
+        },
+      }
+
+      await engine.save(newStore)
+
+      expect(await engine.load()).toEqual(newStore)
+    })
+  })
+
+  describe('records', () => {
+    it('should keep records next to the store without changing it', async () => {
+      const store = createStore()
+      await engine.save(store)
+
+      expect(await engine.getRecord('log')).toBeUndefined()
+      await engine.setRecord('log', [{ id: '1' }])
+
+      expect(await engine.getRecord('log')).toEqual([{ id: '1' }])
+      expect(await engine.load()).toEqual(store)
+      expect(localStorage.length).toBe(0)
+    })
+  })
+
+  describe('clear', () => {
+    it('should delete the saved store', async () => {
+      await engine.save(createStore())
+
+      await engine.clear()
+
+      expect(await engine.load()).toBeUndefined()
+    })
+
+    it('should close the connection when another tab deletes the database', async () => {
+      await engine.save(createStore())
+      const otherEngine = new IndexedDbBookmarkEngine(
+        STORAGE_KEY,
+        new LocalStorageBookmarkEngine(STORAGE_KEY)
+      )
+
+      await otherEngine.clear()
+
+      expect(await engine.load()).toBeUndefined()
+    })
+
+    it('should reject if another connection blocks the deletion', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const request = indexedDB.open(STORAGE_KEY)
+      const db = await new Promise<IDBDatabase>((resolve) => {
+        request.addEventListener('success', () => {
+          resolve(request.result)
+        })
+      })
+
+      await expect(engine.clear()).rejects.toThrow('in use by another tab')
+      db.close()
+    })
+  })
+
+  describe('migration from localStorage', () => {
+    it('should migrate the legacy blob once and remove it', async () => {
+      const legacyStore = createStore()
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(legacyStore))
+
+      expect(await engine.load()).toEqual(legacyStore)
+      expect(localStorage.getItem(STORAGE_KEY)).toBeNull()
+
+      // A blob written later is not migrated again
+      await engine.close()
+      localStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ ...legacyStore, data: {} })
+      )
+      expect(await engine.load()).toEqual(legacyStore)
+    })
+
+    it('should leave an invalid blob untouched', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      localStorage.setItem(STORAGE_KEY, '{invalid json')
+
+      expect(await engine.load()).toBeUndefined()
+      expect(localStorage.getItem(STORAGE_KEY)).toBe('{invalid json')
+    })
+  })
+
+  describe('getEntries', () => {
+    it('should return only existing entries in the order of the keys', async () => {
+      const store = createStore()
+      await engine.save(store)
+
+      const entries = await engine.getEntries([
+        'https://example.com/c',
+        'https://example.com/missing',
+        'https://example.com/a',
+      ])
+
+      expect(entries).toEqual([
+        ['https://example.com/c', store.data['https://example.com/c']],
+        ['https://example.com/a', store.data['https://example.com/a']],
+      ])
+    })
+  })
+
+  describe('applyChanges', () => {
+    it('should delete and write single records and update meta.updated', async () => {
+      await engine.save(createStore())
+      const newEntry = createEntry(['new'], 6000, 6000)
+
+      const result = await engine.applyChanges(
+        ['https://example.com/a', 'https://example.com/missing'],
+        [['https://example.com/d', newEntry]],
+        6000
+      )
+
+      expect(result).toBe(true)
+      const store = (await engine.load()) as BookmarksStore
+      expect(Object.keys(store.data).sort()).toEqual([
+        'https://example.com/b',
+        'https://example.com/c',
+        'https://example.com/d',
+      ])
+      expect(store.data['https://example.com/d']).toEqual(newEntry)
+      expect(store.meta.updated).toBe(6000)
+      expect(store.meta.created).toBe(1000)
+    })
+
+    it('should return false and keep meta.updated when nothing changes', async () => {
+      await engine.save(createStore())
+
+      const result = await engine.applyChanges(
+        ['https://example.com/missing'],
+        [],
+        6000
+      )
+
+      expect(result).toBe(false)
+      const store = (await engine.load()) as BookmarksStore
+      expect(store.meta.updated).toBe(4000)
+    })
+
+    it('should not apply changes when the store does not exist yet', async () => {
+      const result = await engine.applyChanges(
+        [],
+        [['https://example.com/d', createEntry(['new'], 6000, 6000)]],
+        6000
+      )
+
+      expect(result).toBeUndefined()
+      expect(await engine.load()).toBeUndefined()
+    })
+
+    it('should not apply changes when the store needs migration', async () => {
+      const store = createStore()
+      store.meta.databaseVersion = 2
+      await engine.save(store)
+
+      const result = await engine.applyChanges(
+        ['https://example.com/a'],
+        [],
+        6000
+      )
+
+      expect(result).toBeUndefined()
+      expect(await engine.load()).toEqual(store)
+    })
+  })
+
+  describe('getKeysByIndex', () => {
+    beforeEach(async () => {
+      await engine.save(createStore())
+    })
+
+    it('should find bookmarks by tag', async () => {
+      const keys = await engine.getKeysByIndex('tags', 'tag2')
+      expect(keys.sort()).toEqual([
+        'https://example.com/a',
+        'https://example.com/b',
+      ])
+    })
+
+    it('should find bookmarks by updated time range', async () => {
+      expect(
+        await engine.getKeysByIndex('updated', IDBKeyRange.lowerBound(3000))
+      ).toEqual(['https://example.com/b', 'https://example.com/c'])
+    })
+
+    it('should find bookmarks by created time range', async () => {
+      expect(
+        await engine.getKeysByIndex('created', IDBKeyRange.upperBound(1100))
+      ).toEqual(['https://example.com/a', 'https://example.com/b'])
+    })
+  })
+
+  describe('fallback', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+      vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new Error('IndexedDB is disabled')
+      })
+    })
+
+    it('should use the fallback engine when IndexedDB cannot be opened', async () => {
+      const store = createStore()
+      await engine.save(store)
+
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual(store)
+      expect(await engine.load()).toEqual(store)
+    })
+
+    it('should report the name of the fallback engine once it is used', async () => {
+      expect(engine.name).toBe('indexedDB')
+
+      await engine.load()
+
+      expect(engine.name).toBe('localStorage')
+    })
+
+    it('should keep records with the fallback engine', async () => {
+      await engine.setRecord('log', [{ id: '1' }])
+
+      expect(await engine.getRecord('log')).toEqual([{ id: '1' }])
+      expect(await fallbackEngine.getRecord('log')).toEqual([{ id: '1' }])
+    })
+
+    it('should let BookmarkStorage fall back to load-modify-save', async () => {
+      await engine.save(createStore())
+
+      expect(
+        await engine.applyChanges(['https://example.com/a'], [], 6000)
+      ).toBeUndefined()
+      expect(await engine.getEntries(['https://example.com/a'])).toBeUndefined()
+    })
+  })
+})
+
+describe('BookmarkStorage with IndexedDbBookmarkEngine', () => {
+  let engine: IndexedDbBookmarkEngine
+  let storage: BookmarkStorage
+  const postMessage = vi.fn()
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory())
+    vi.stubGlobal(
+      'BroadcastChannel',
+      class {
+        postMessage = postMessage
+        addEventListener = vi.fn()
+      }
+    )
+    postMessage.mockClear()
+    localStorage.clear()
+    engine = new IndexedDbBookmarkEngine(
+      STORAGE_KEY,
+      new LocalStorageBookmarkEngine(STORAGE_KEY)
+    )
+    storage = new BookmarkStorage(STORAGE_KEY, engine)
+  })
+
+  afterEach(async () => {
+    await engine.close()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should create the store on first upsert', async () => {
+    const entry = createEntry(['tag1'], 1000, 1000)
+
+    await storage.upsertBookmark('https://example.com/a', entry)
+
+    const store = await storage.getBookmarksStore()
+    expect(store.data).toEqual({ 'https://example.com/a': entry })
+    expect(store.meta.databaseVersion).toBe(CURRENT_DATABASE_VERSION)
+  })
+
+  it('should dispatch the changed bookmarks with the update event', async () => {
+    await storage.persistBookmarksStore(createStore())
+    const listener = vi.fn()
+    globalThis.addEventListener('updateBookmarksStore', listener)
+
+    const entry = createEntry(['new'], 6000, 6000)
+    await storage.batchUpdateBookmarks(
+      ['https://example.com/a'],
+      [['https://example.com/d', entry]]
+    )
+
+    globalThis.removeEventListener('updateBookmarksStore', listener)
+    expect(listener).toHaveBeenCalledTimes(1)
+    const event = listener.mock.calls[0][0] as CustomEvent<BookmarksStoreUpdate>
+    expect(event.detail).toEqual({
+      changes: {
+        deletions: ['https://example.com/a'],
+        modifications: [['https://example.com/d', entry]],
+        updated: expect.any(Number) as number,
+      },
+    })
+    expect(
+      await storage.getBookmarkEntriesByKeys([
+        'https://example.com/a',
+        'https://example.com/d',
+      ])
+    ).toEqual([['https://example.com/d', entry]])
+    // Other tabs are notified as well
+    expect(postMessage).toHaveBeenLastCalledWith(event.detail.changes)
+  })
+
+  it('should leave the notification of other tabs to the storage event in fallback mode', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.spyOn(indexedDB, 'open').mockImplementation(() => {
+      throw new Error('IndexedDB is disabled')
+    })
+
+    await storage.upsertBookmark(
+      'https://example.com/a',
+      createEntry(['tag1'], 1000, 1000)
+    )
+
+    expect(localStorage.getItem(STORAGE_KEY)).not.toBeNull()
+    expect(postMessage).not.toHaveBeenCalled()
+  })
+
+  it('should pass the write id with the update event of this tab only', async () => {
+    const listener = vi.fn()
+    globalThis.addEventListener('updateBookmarksStore', listener)
+
+    await storage.persistBookmarksStore(createStore(), false, 'write-1')
+
+    globalThis.removeEventListener('updateBookmarksStore', listener)
+    const event = listener.mock.calls[0][0] as CustomEvent<BookmarksStoreUpdate>
+    expect(event.detail).toEqual({ writeId: 'write-1' })
+    // Other tabs are told that the whole store was replaced
+    expect(postMessage).toHaveBeenLastCalledWith(undefined)
+  })
+
+  it('should not dispatch an event when nothing changes', async () => {
+    await storage.persistBookmarksStore(createStore())
+    const listener = vi.fn()
+    globalThis.addEventListener('updateBookmarksStore', listener)
+
+    await storage.deleteBookmark('https://example.com/missing')
+
+    globalThis.removeEventListener('updateBookmarksStore', listener)
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,435 @@
+import type {
+  BookmarksStore,
+  BookmarkKey,
+  BookmarkKeyValuePair,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import { CURRENT_DATABASE_VERSION } from '../config/constants.js'
+import { isNonNullObject } from '../utils/index.js'
+import type { BookmarkStorageEngine } from './bookmark-storage-engine.js'
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const DB_VERSION = 1
+const BOOKMARKS_STORE = 'bookmarks'
+const META_STORE = 'meta'
+const META_RECORD_KEY = 'store'
+// Other records are kept in the meta store as well, prefixed so they never replace the store-level metadata
+const RECORD_KEY_PREFIX = 'record:'
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Names of the secondary indexes on the bookmarks object store.
+ * - `updated`: `meta.updated` of each bookmark
+ * - `created`: `meta.created` of each bookmark
+ * - `tags`: every tag of each bookmark (multiEntry)
+ */
+export type BookmarkIndexName = 'updated' | 'created' | 'tags'
+
+/**
+ * Wraps an IDBRequest in a promise.
+ *
+ * @param request - The request to wait for.
+ * @returns A promise that resolves with the request result.
+ */
+async function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.addEventListener('success', () => {
+      resolve(request.result)
+    })
+    request.addEventListener('error', () => {
+      reject(request.error ?? new Error('IndexedDB request failed'))
+    })
+  })
+}
+
+/**
+ * Waits for a transaction to be committed.
+ *
+ * @param transaction - The transaction to wait for.
+ * @returns A promise that resolves when the transaction completes.
+ */
+async function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.addEventListener('complete', () => {
+      resolve()
+    })
+    transaction.addEventListener('error', () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    })
+    transaction.addEventListener('abort', () => {
+      reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+    })
+  })
+}
+
+/**
+ * Stores bookmarks in IndexedDB, one record per `BookmarkKey`.
+ *
+ * Key Features:
+ * - Bookmarks are kept in the `bookmarks` object store, keyed by URL,
+ *   with indexes on `meta.updated`, `meta.created` and tags
+ * - Store-level metadata is kept as a single record in the `meta` object store,
+ *   next to the records set with `setRecord`
+ * - Single bookmark changes only touch the affected records
+ * - The legacy localStorage blob is migrated once, the first time the database is opened
+ *
+ * Important Notes:
+ * 1. The database name is the storage key, so different storage keys never share data
+ * 2. If the database cannot be opened (e.g. disabled in private browsing),
+ *    all operations are delegated to the fallback engine
+ */
+export class IndexedDbBookmarkEngine implements BookmarkStorageEngine {
+  /** Reports the fallback engine once IndexedDB could not be opened */
+  get name() {
+    return this.usesFallback ? this.fallbackEngine.name : ('indexedDB' as const)
+  }
+
+  private dbPromise: Promise<IDBDatabase | undefined> | undefined
+
+  private usesFallback = false
+
+  /**
+   * @param storageKey - The storage key, used as database name and as localStorage key of the legacy blob.
+   * @param fallbackEngine - Engine used when IndexedDB cannot be opened.
+   */
+  constructor(
+    private readonly storageKey: string,
+    private readonly fallbackEngine: BookmarkStorageEngine
+  ) {}
+
+  async load(): Promise<unknown> {
+    const db = await this.getDatabase()
+    if (!db) {
+      return this.fallbackEngine.load()
+    }
+
+    const transaction = db.transaction(
+      [BOOKMARKS_STORE, META_STORE],
+      'readonly'
+    )
+    const bookmarksStore = transaction.objectStore(BOOKMARKS_STORE)
+    const [meta, keys, entries] = await Promise.all([
+      promisifyRequest(
+        transaction.objectStore(META_STORE).get(META_RECORD_KEY)
+      ) as Promise<BookmarksStore['meta'] | undefined>,
+      promisifyRequest(bookmarksStore.getAllKeys()) as Promise<BookmarkKey[]>,
+      promisifyRequest(bookmarksStore.getAll()) as Promise<
+        BookmarkTagsAndMetadata[]
+      >,
+    ])
+
+    if (!meta) {
+      return undefined
+    }
+
+    const data: BookmarksStore['data'] = {}
+    for (const [index, key] of keys.entries()) {
+      data[key] = entries[index]
+    }
+
+    return { data, meta }
+  }
+
+  async save(store: BookmarksStore): Promise<void> {
+    const db = await this.getDatabase()
+    if (!db) {
+      await this.fallbackEngine.save(store)
+      return
+    }
+
+    await this.writeStore(db, store)
+  }
+
+  async getEntries(
+    keys: BookmarkKey[]
+  ): Promise<BookmarkKeyValuePair[] | undefined> {
+    const db = await this.getDatabase()
+    if (!db) {
+      return undefined
+    }
+
+    const objectStore = db
+      .transaction(BOOKMARKS_STORE, 'readonly')
+      .objectStore(BOOKMARKS_STORE)
+    const entries = await Promise.all(
+      keys.map(
+        async (key) =>
+          promisifyRequest(objectStore.get(key)) as Promise<
+            BookmarkTagsAndMetadata | undefined
+          >
+      )
+    )
+
+    const result: BookmarkKeyValuePair[] = []
+    for (const [index, key] of keys.entries()) {
+      const entry = entries[index]
+      if (entry) {
+        result.push([key, entry])
+      }
+    }
+
+    return result
+  }
+
+  async applyChanges(
+    deletions: BookmarkKey[],
+    modifications: BookmarkKeyValuePair[],
+    updated: number
+  ): Promise<boolean | undefined> {
+    const db = await this.getDatabase()
+    if (!db) {
+      return undefined
+    }
+
+    const transaction = db.transaction(
+      [BOOKMARKS_STORE, META_STORE],
+      'readwrite'
+    )
+    const transactionDone = waitForTransaction(transaction)
+    const bookmarksStore = transaction.objectStore(BOOKMARKS_STORE)
+    const metaStore = transaction.objectStore(META_STORE)
+
+    const meta = (await promisifyRequest(metaStore.get(META_RECORD_KEY))) as
+      | BookmarksStore['meta']
+      | undefined
+    // Missing or outdated stores need validation and migration first
+    if (meta?.databaseVersion !== CURRENT_DATABASE_VERSION) {
+      await transactionDone
+      return undefined
+    }
+
+    const existingCounts = await Promise.all(
+      deletions.map(async (key) => promisifyRequest(bookmarksStore.count(key)))
+    )
+    const hasChanges =
+      existingCounts.some((count) => count > 0) || modifications.length > 0
+
+    if (hasChanges) {
+      for (const key of deletions) {
+        bookmarksStore.delete(key)
+      }
+
+      for (const [key, entry] of modifications) {
+        bookmarksStore.put(entry, key)
+      }
+
+      metaStore.put({ ...meta, updated }, META_RECORD_KEY)
+    }
+
+    await transactionDone
+    return hasChanges
+  }
+
+  /**
+   * Looks up bookmark keys through one of the secondary indexes.
+   *
+   * @param indexName - The index to query.
+   * @param query - A key or key range, e.g. a tag or `IDBKeyRange.lowerBound(timestamp)`.
+   * @returns The keys of the matching bookmarks. Empty if IndexedDB is unavailable.
+   */
+  async getKeysByIndex(
+    indexName: BookmarkIndexName,
+    query: IDBValidKey | IDBKeyRange
+  ): Promise<BookmarkKey[]> {
+    const db = await this.getDatabase()
+    if (!db) {
+      return []
+    }
+
+    const index = db
+      .transaction(BOOKMARKS_STORE, 'readonly')
+      .objectStore(BOOKMARKS_STORE)
+      .index(indexName)
+    const keys = (await promisifyRequest(
+      index.getAllKeys(query)
+    )) as BookmarkKey[]
+    // A multiEntry index returns a key once per matching tag
+    return [...new Set(keys)]
+  }
+
+  async getRecord(key: string): Promise<unknown> {
+    const db = await this.getDatabase()
+    if (!db) {
+      return this.fallbackEngine.getRecord(key)
+    }
+
+    return promisifyRequest(
+      db
+        .transaction(META_STORE, 'readonly')
+        .objectStore(META_STORE)
+        .get(RECORD_KEY_PREFIX + key)
+    )
+  }
+
+  async setRecord(key: string, value: unknown): Promise<void> {
+    const db = await this.getDatabase()
+    if (!db) {
+      await this.fallbackEngine.setRecord(key, value)
+      return
+    }
+
+    const transaction = db.transaction(META_STORE, 'readwrite')
+    const transactionDone = waitForTransaction(transaction)
+    transaction.objectStore(META_STORE).put(value, RECORD_KEY_PREFIX + key)
+    await transactionDone
+  }
+
+  /**
+   * Deletes the database, and the data saved by the fallback engine if any.
+   * Connections of other tabs are closed through their `versionchange` handler.
+   *
+   * @throws Error if another connection blocks the deletion.
+   */
+  async clear(): Promise<void> {
+    await this.close()
+    await this.fallbackEngine.clear()
+    if (typeof indexedDB !== 'undefined') {
+      await this.deleteDatabase()
+    }
+  }
+
+  /**
+   * Closes the database connection. The next operation reopens it.
+   */
+  async close(): Promise<void> {
+    const db = await this.dbPromise
+    db?.close()
+    this.dbPromise = undefined
+  }
+
+  /**
+   * Opens the database once and migrates the legacy localStorage blob.
+   *
+   * @returns The opened database, or undefined if IndexedDB is unavailable.
+   */
+  private async getDatabase(): Promise<IDBDatabase | undefined> {
+    this.dbPromise ||= this.openDatabase().catch((error: unknown) => {
+      console.warn(
+        `[IndexedDbBookmarkEngine] Failed to open IndexedDB, falling back to ${this.fallbackEngine.name}:`,
+        error
+      )
+      this.usesFallback = true
+      return undefined
+    })
+    return this.dbPromise
+  }
+
+  private async openDatabase(): Promise<IDBDatabase> {
+    const request = indexedDB.open(this.storageKey, DB_VERSION)
+    request.addEventListener('upgradeneeded', () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(BOOKMARKS_STORE)) {
+        const bookmarksStore = db.createObjectStore(BOOKMARKS_STORE)
+        bookmarksStore.createIndex('updated', 'meta.updated')
+        bookmarksStore.createIndex('created', 'meta.created')
+        bookmarksStore.createIndex('tags', 'tags', { multiEntry: true })
+      }
+
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+    })
+
+    const db = await promisifyRequest(request)
+    // Let other tabs delete or upgrade the database, the next operation reopens it
+    db.addEventListener('versionchange', () => {
+      db.close()
+      this.dbPromise = undefined
+    })
+    await this.migrateFromLocalStorage(db)
+    return db
+  }
+
+  /**
+   * Deletes the database. Fails instead of waiting forever if a connection
+   * without a `versionchange` handler, e.g., of an older version of the app, is still open.
+   */
+  private async deleteDatabase(): Promise<void> {
+    const request = indexedDB.deleteDatabase(this.storageKey)
+    return new Promise((resolve, reject) => {
+      request.addEventListener('success', () => {
+        resolve()
+      })
+      request.addEventListener('error', () => {
+        reject(request.error ?? new Error('IndexedDB request failed'))
+      })
+      request.addEventListener('blocked', () => {
+        console.warn(
+          `[IndexedDbBookmarkEngine] Deleting ${this.storageKey} is blocked by another connection.`
+        )
+        reject(
+          new Error(
+            'The bookmarks database is in use by another tab. Close the other tabs and try again.'
+          )
+        )
+      })
+    })
+  }
+
+  /**
+   * Copies the legacy localStorage blob into the database, then removes it.
+   * Runs only if the database has no store metadata yet. A blob that cannot be
+   * parsed is left untouched so that no data is lost.
+   *
+   * @param db - The opened database.
+   */
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const existingMeta = (await promisifyRequest(
+      db
+        .transaction(META_STORE, 'readonly')
+        .objectStore(META_STORE)
+        .get(META_RECORD_KEY)
+    )) as BookmarksStore['meta'] | undefined
+    if (existingMeta) {
+      return
+    }
+
+    let legacyStore: BookmarksStore | undefined
+    try {
+      const bookmarksJson = localStorage.getItem(this.storageKey)
+      if (!bookmarksJson) {
+        return
+      }
+
+      legacyStore = JSON.parse(bookmarksJson) as BookmarksStore
+    } catch (error) {
+      console.error(
+        '[IndexedDbBookmarkEngine] Failed to read legacy bookmarks from localStorage:',
+        error
+      )
+      return
+    }
+
+    if (
+      !isNonNullObject(legacyStore) ||
+      !isNonNullObject(legacyStore.data) ||
+      !isNonNullObject(legacyStore.meta)
+    ) {
+      console.error(
+        '[IndexedDbBookmarkEngine] Legacy bookmarks in localStorage have an invalid format, skipping migration.'
+      )
+      return
+    }
+
+    await this.writeStore(db, legacyStore)
+    localStorage.removeItem(this.storageKey)
+    console.info(
+      `[IndexedDbBookmarkEngine] Migrated ${Object.keys(legacyStore.data).length} bookmarks from localStorage.`
+    )
+  }
+
+  private async writeStore(db: IDBDatabase, store: BookmarksStore) {
+    const transaction = db.transaction(
+      [BOOKMARKS_STORE, META_STORE],
+      'readwrite'
+    )
+    const bookmarksStore = transaction.objectStore(BOOKMARKS_STORE)
+    bookmarksStore.clear()
+    for (const [key, entry] of Object.entries(store.data)) {
+      bookmarksStore.put(entry, key)
+    }
+
+    transaction.objectStore(META_STORE).put(store.meta, META_RECORD_KEY)
+    await waitForTransaction(transaction)
+  }
+}
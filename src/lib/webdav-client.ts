@@ -46,6 +46,27 @@ export type GetFileContentsOptions = {
   format?: 'text' | 'binary'
 }
 
+/**
+ * Options for locking a resource
+ */
+export type LockOptions = {
+  /** The requested lock timeout in seconds. The server may grant a different one. */
+  timeout?: number
+  /** Identifies the lock owner for other clients */
+  owner?: string
+}
+
+/**
+ * An exclusive write lock granted by the server
+ */
+// eslint-disable-next-line @typescript-eslint/naming-convention
+export type WebDAVLock = {
+  /** The lock token, e.g., `opaquelocktoken:...` */
+  token: string
+  /** The granted timeout in seconds, or undefined if the lock does not expire */
+  timeout: number | undefined
+}
+
 /**
  * Options for creating directories
  */
@@ -60,15 +81,32 @@ export type CreateDirectoryOptions = {
 export class WebDAVError extends Error {
   public status: number
   public statusText: string
-
-  constructor(message: string, status: number, statusText: string) {
+  public headers: Headers | undefined
+
+  constructor(
+    message: string,
+    status: number,
+    statusText: string,
+    headers?: Headers
+  ) {
     super(message)
     this.name = 'WebDAVError'
     this.status = status
     this.statusText = statusText
+    this.headers = headers
   }
 }
 
+/**
+ * Escape the special characters of a text for XML content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+}
+
 /**
  * Lightweight WebDAV client
  */
@@ -138,6 +176,80 @@ export class WebDAVClient {
     await this.makeRequest('PUT', path, data as string, headers)
   }
 
+  /**
+   * Delete file or directory
+   */
+  async deleteFile(path: string): Promise<void> {
+    await this.makeRequest('DELETE', path)
+  }
+
+  /**
+   * Copy file to another path, replacing an existing file
+   */
+  async copyFile(path: string, destinationPath: string): Promise<void> {
+    await this.makeRequest('COPY', path, undefined, {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Destination: this.resolveUrl(destinationPath),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Overwrite: 'T',
+    })
+  }
+
+  /**
+   * Lock a resource with an exclusive write lock (RFC 4918, section 9.10)
+   */
+  async lock(path: string, options: LockOptions = {}): Promise<WebDAVLock> {
+    const lockBody = `<?xml version="1.0" encoding="utf-8" ?>
+<D:lockinfo xmlns:D="DAV:">
+  <D:lockscope><D:exclusive/></D:lockscope>
+  <D:locktype><D:write/></D:locktype>
+  <D:owner>${escapeXml(options.owner || 'webdav-client')}</D:owner>
+</D:lockinfo>`
+
+    const headers: Record<string, string> = {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Depth: '0',
+    }
+    if (options.timeout) {
+      headers.Timeout = `Second-${options.timeout}`
+    }
+
+    const response = await this.makeRequest('LOCK', path, lockBody, headers)
+    const xmlText = await response.text()
+    const doc = new DOMParser().parseFromString(xmlText, 'text/xml')
+    const token = (
+      response.headers.get('Lock-Token') ||
+      doc
+        .getElementsByTagNameNS('DAV:', 'locktoken')[0]
+        ?.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent ||
+      ''
+    )
+      .trim()
+      .replaceAll(/^<|>$/g, '')
+    if (!token) {
+      throw new WebDAVError(
+        'Missing lock token in LOCK response',
+        response.status,
+        response.statusText
+      )
+    }
+
+    const timeout = /^second-(\d+)$/i.exec(
+      doc.getElementsByTagNameNS('DAV:', 'timeout')[0]?.textContent?.trim() ||
+        ''
+    )?.[1]
+    return { token, timeout: timeout ? Number(timeout) : undefined }
+  }
+
+  /**
+   * Remove a lock with its token (RFC 4918, section 9.11)
+   */
+  async unlock(path: string, token: string): Promise<void> {
+    await this.makeRequest('UNLOCK', path, undefined, {
+      'Lock-Token': `<${token}>`,
+    })
+  }
+
   /**
    * Create directory
    */
@@ -275,6 +387,13 @@ export class WebDAVClient {
     return headers
   }
 
+  /**
+   * Resolve path to an absolute URL
+   */
+  private resolveUrl(path: string): string {
+    return `${this.baseUrl}${path.startsWith('/') ? path : '/' + path}`
+  }
+
   /**
    * Make HTTP request using the universal HTTP client
    */
@@ -284,7 +403,7 @@ export class WebDAVClient {
     body?: string,
     headers: Record<string, string> = {}
   ): Promise<HttpResponse> {
-    const url = `${this.baseUrl}${path.startsWith('/') ? path : '/' + path}`
+    const url = this.resolveUrl(path)
     const requestHeaders = this.createHeaders(headers)
 
     const options: HttpRequestOptions = {
@@ -300,7 +419,8 @@ export class WebDAVClient {
       throw new WebDAVError(
         `Invalid response: ${response.status} ${response.statusText}`,
         response.status,
-        response.statusText
+        response.statusText,
+        response.headers
       )
     }
 
@@ -375,6 +495,12 @@ export class WebDAVClient {
   private pathMatches(href: string, requestPath: string): boolean {
     const normalizeHref = decodeURIComponent(href).replace(/\/$/, '')
     const normalizeRequest = requestPath.replace(/\/$/, '')
+    if (!normalizeRequest) {
+      // The root path only matches the base URL itself, not every href
+      const basePath = this.baseUrl.replace(/^[a-z]+:\/\/[^/]+/i, '')
+      return [basePath, this.baseUrl, ''].includes(normalizeHref)
+    }
+
     return (
       normalizeHref.endsWith(normalizeRequest) ||
       normalizeRequest.endsWith(normalizeHref)
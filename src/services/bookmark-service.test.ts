@@ -97,6 +97,21 @@ vi.mock('svelte-persisted-store', () => {
   return { persisted }
 })
 
+// Mock the local bookmarks store with the persisted store mock above
+vi.mock('../stores/local-bookmarks-store.js', async () => {
+  const { persisted } = await import('svelte-persisted-store')
+  return {
+    getLocalBookmarksStore: () =>
+      persisted('utags-bookmarks', {
+        data: {},
+        meta: {
+          databaseVersion: 3,
+          created: Date.now(),
+        },
+      }),
+  }
+})
+
 // Mock fetch API
 globalThis.fetch = vi.fn()
 
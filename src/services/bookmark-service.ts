@@ -9,6 +9,7 @@ import type {
   BookmarksStore,
   BookmarkKeyValuePair,
 } from '../types/bookmarks.js'
+import { getLocalBookmarksStore } from '../stores/local-bookmarks-store.js'
 
 const console = new Console({
   prefix: 'bookmark-service',
@@ -115,14 +116,16 @@ export class BookmarkService {
     console.log(`Initializing bookmark store with key: ${storageKey}`)
     this.currentStoreKey = storageKey
 
-    // Initialize store with appropriate default value
-    this.currentStore = persisted<BookmarksStore>(storageKey, {
-      data: {},
-      meta: {
-        databaseVersion: CURRENT_DATABASE_VERSION,
-        created: Date.now(),
-      },
-    })
+    // Local bookmarks are kept by BookmarkStorage, shared collections are cached in localStorage
+    this.currentStore = this.isSharedCollection
+      ? persisted<BookmarksStore>(storageKey, {
+          data: {},
+          meta: {
+            databaseVersion: CURRENT_DATABASE_VERSION,
+            created: Date.now(),
+          },
+        })
+      : getLocalBookmarksStore()
 
     // If it's a shared collection, fetch data from API
     if (this.isSharedCollection && this.collectionId) {
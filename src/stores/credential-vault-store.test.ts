@@ -0,0 +1,247 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import {
+  STORAGE_KEY_SYNC_CREDENTIAL_VAULT,
+  STORAGE_KEY_SYNC_SETTINGS,
+} from '../config/constants.js'
+import type { SyncServiceConfig } from '../sync/types.js'
+import {
+  credentialVaultIdleTimeout,
+  credentialVaultStatus,
+  CredentialVaultError,
+  disableCredentialVault,
+  enableCredentialVault,
+  flushCredentialVault,
+  isCredentialVaultLocked,
+  lockCredentialVault,
+  unlockCredentialVault,
+} from './credential-vault-store.js'
+import { syncConfigStore, type SyncSettings } from './sync-config-store.js'
+
+// Keep the key derivation fast in tests
+const iterations = 1000
+
+const githubConfig: SyncServiceConfig = {
+  id: 'github-1',
+  type: 'github',
+  name: 'GitHub Sync',
+  enabled: true,
+  scope: 'all',
+  target: { repo: 'user/repo', branch: 'main', path: 'bookmarks.json' },
+  credentials: { token: 'github-token' },
+}
+
+const webdavConfig: SyncServiceConfig = {
+  id: 'webdav-1',
+  type: 'webdav',
+  name: 'WebDAV Sync',
+  enabled: true,
+  scope: 'all',
+  target: { url: 'https://dav.example.com', path: '/bookmarks.json' },
+  credentials: { username: 'user', password: 'webdav-password' },
+}
+
+function getSavedSettings(): SyncSettings {
+  return JSON.parse(
+    localStorage.getItem(STORAGE_KEY_SYNC_SETTINGS)!
+  ) as SyncSettings
+}
+
+function getStoredCredentials(): unknown[] {
+  return get(syncConfigStore).syncServices.map(
+    (service): unknown => service.credentials
+  )
+}
+
+describe('credential-vault-store', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    credentialVaultStatus.set('disabled')
+    syncConfigStore.set({
+      syncServices: [githubConfig, webdavConfig],
+      activeSyncServiceId: githubConfig.id,
+    })
+  })
+
+  afterEach(async () => {
+    lockCredentialVault()
+    await flushCredentialVault()
+    vi.useRealTimers()
+  })
+
+  it('should remove the credentials from the saved settings when enabled', async () => {
+    await enableCredentialVault('master-password', iterations)
+
+    expect(get(credentialVaultStatus)).toBe('unlocked')
+    expect(
+      getSavedSettings().syncServices.map(
+        (service): unknown => service.credentials
+      )
+    ).toEqual([{}, {}])
+    const vault = localStorage.getItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)!
+    expect(JSON.parse(vault)).toMatchObject({
+      format: 'utags-credential-vault',
+      kdf: { name: 'PBKDF2', iterations },
+      cipher: { name: 'AES-GCM' },
+    })
+    expect(vault).not.toContain('github-token')
+    // The credentials stay available while the vault is unlocked
+    expect(getStoredCredentials()).toEqual([
+      githubConfig.credentials,
+      webdavConfig.credentials,
+    ])
+  })
+
+  it('should remove the credentials from memory when locked', async () => {
+    await enableCredentialVault('master-password', iterations)
+
+    lockCredentialVault()
+
+    expect(isCredentialVaultLocked()).toBe(true)
+    expect(getStoredCredentials()).toEqual([{}, {}])
+    expect(
+      localStorage.getItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)
+    ).not.toBeNull()
+  })
+
+  it('should restore the credentials when unlocked', async () => {
+    await enableCredentialVault('master-password', iterations)
+    lockCredentialVault()
+
+    await unlockCredentialVault('master-password')
+
+    expect(get(credentialVaultStatus)).toBe('unlocked')
+    expect(getStoredCredentials()).toEqual([
+      githubConfig.credentials,
+      webdavConfig.credentials,
+    ])
+  })
+
+  it('should keep the encryption passphrases in the vault', async () => {
+    syncConfigStore.update((settings) => ({
+      ...settings,
+      syncServices: settings.syncServices.map((service) => ({
+        ...service,
+        encryptionPassphrase: `${service.id}-passphrase`,
+      })),
+    }))
+    await enableCredentialVault('master-password', iterations)
+
+    expect(
+      getSavedSettings().syncServices.map(
+        (service) => service.encryptionPassphrase
+      )
+    ).toEqual([undefined, undefined])
+    lockCredentialVault()
+    expect(
+      get(syncConfigStore).syncServices.map(
+        (service) => service.encryptionPassphrase
+      )
+    ).toEqual([undefined, undefined])
+
+    await unlockCredentialVault('master-password')
+
+    expect(
+      get(syncConfigStore).syncServices.map(
+        (service) => service.encryptionPassphrase
+      )
+    ).toEqual(['github-1-passphrase', 'webdav-1-passphrase'])
+  })
+
+  it('should save the credentials entered while locked when unlocked', async () => {
+    await enableCredentialVault('master-password', iterations)
+    lockCredentialVault()
+    syncConfigStore.update((settings) => ({
+      ...settings,
+      syncServices: settings.syncServices.map((service) => ({
+        ...service,
+        // The form of the locked WebDAV service leaves the password empty
+        credentials:
+          service.id === githubConfig.id
+            ? { token: 'new-token' }
+            : { username: 'new-user', password: '' },
+      })),
+    }))
+    expect(getSavedSettings().syncServices[0].credentials).toEqual({})
+
+    await unlockCredentialVault('master-password')
+    await flushCredentialVault()
+    lockCredentialVault()
+    await unlockCredentialVault('master-password')
+
+    expect(getStoredCredentials()).toEqual([
+      { token: 'new-token' },
+      { username: 'new-user', password: 'webdav-password' },
+    ])
+  })
+
+  it('should reject a wrong password', async () => {
+    await enableCredentialVault('master-password', iterations)
+    lockCredentialVault()
+
+    const error = await unlockCredentialVault('wrong-password').catch(
+      (error: unknown) => error
+    )
+
+    expect(error).toBeInstanceOf(CredentialVaultError)
+    expect((error as CredentialVaultError).code).toBe('WRONG_PASSWORD')
+    expect(isCredentialVaultLocked()).toBe(true)
+    expect(getStoredCredentials()).toEqual([{}, {}])
+  })
+
+  it('should save changed credentials to the vault', async () => {
+    await enableCredentialVault('master-password', iterations)
+    syncConfigStore.update((settings) => ({
+      ...settings,
+      syncServices: settings.syncServices.map((service) =>
+        service.id === githubConfig.id
+          ? { ...service, credentials: { token: 'new-token' } }
+          : service
+      ),
+    }))
+    await flushCredentialVault()
+    lockCredentialVault()
+
+    await unlockCredentialVault('master-password')
+
+    expect(getStoredCredentials()).toEqual([
+      { token: 'new-token' },
+      webdavConfig.credentials,
+    ])
+    expect(getSavedSettings().syncServices[0].credentials).toEqual({})
+  })
+
+  it('should lock the vault after the idle timeout', async () => {
+    vi.useFakeTimers()
+    await enableCredentialVault('master-password', iterations)
+
+    vi.advanceTimersByTime(credentialVaultIdleTimeout / 2)
+    globalThis.dispatchEvent(new Event('keydown'))
+    vi.advanceTimersByTime(credentialVaultIdleTimeout / 2)
+    // The activity restarted the idle time
+    expect(get(credentialVaultStatus)).toBe('unlocked')
+
+    vi.advanceTimersByTime(credentialVaultIdleTimeout / 2)
+    expect(get(credentialVaultStatus)).toBe('locked')
+    expect(getStoredCredentials()).toEqual([{}, {}])
+  })
+
+  it('should save the credentials as plaintext again when disabled', async () => {
+    await enableCredentialVault('master-password', iterations)
+    lockCredentialVault()
+    expect(() => {
+      disableCredentialVault()
+    }).toThrow(CredentialVaultError)
+    await unlockCredentialVault('master-password')
+
+    disableCredentialVault()
+
+    expect(get(credentialVaultStatus)).toBe('disabled')
+    expect(localStorage.getItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)).toBeNull()
+    expect(
+      getSavedSettings().syncServices.map(
+        (service): unknown => service.credentials
+      )
+    ).toEqual([githubConfig.credentials, webdavConfig.credentials])
+  })
+})
@@ -0,0 +1,453 @@
+import { get, writable } from 'svelte/store'
+import { STORAGE_KEY_SYNC_CREDENTIAL_VAULT } from '../config/constants.js'
+import {
+  clearSyncEncryptionKeys,
+  defaultPbkdf2Iterations,
+  deriveKey,
+  type EncryptedSyncData,
+} from '../sync/sync-encryption.js'
+import { base64ToBytes, bytesToBase64 } from '../utils/base64.js'
+import type { SyncServiceConfig } from '../sync/types.js'
+import {
+  setSyncSettingsSaveHandler,
+  syncConfigStore,
+  type SyncSettings,
+} from './sync-config-store.js'
+
+/**
+ * @file Encrypts the credentials of the sync services at rest with a master password.
+ *
+ * While the vault is enabled, the sync settings in localStorage contain no
+ * credentials and no encryption passphrases. They are stored in a separate
+ * AES-GCM encrypted envelope instead. Unlocking the vault puts them back into
+ * the sync settings store, so the sync adapters use them as before, and
+ * locking it removes them from memory again. The vault locks itself after the
+ * user has been idle for `credentialVaultIdleTimeout`.
+ *
+ * Credentials entered while the vault is locked are kept in memory only, and
+ * are saved to the vault when it is unlocked.
+ */
+
+export const credentialVaultFormat = 'utags-credential-vault'
+
+/**
+ * The time without user activity after which an unlocked vault locks itself: 15 minutes.
+ */
+export const credentialVaultIdleTimeout = 15 * 60 * 1000
+
+/**
+ * The events that count as user activity for the idle timeout.
+ */
+const activityEvents = ['pointerdown', 'keydown'] as const
+
+/**
+ * The envelope of the encrypted credentials, stored in localStorage.
+ */
+export type EncryptedCredentialVault = Omit<EncryptedSyncData, 'format'> & {
+  format: typeof credentialVaultFormat
+}
+
+/**
+ * `disabled`: the credentials are stored in the sync settings as plaintext.
+ * `locked`: the credentials are encrypted and not available.
+ * `unlocked`: the credentials are encrypted at rest and available in memory.
+ */
+export type CredentialVaultStatus = 'disabled' | 'locked' | 'unlocked'
+
+/**
+ * The secrets of a sync service stored in the vault.
+ */
+type VaultSecrets = {
+  credentials: Record<string, unknown>
+  encryptionPassphrase?: string
+}
+
+/**
+ * The secrets of the sync services, keyed by service ID.
+ */
+type VaultCredentials = Record<string, VaultSecrets>
+
+/**
+ * Error thrown when the credential vault cannot be used.
+ */
+export class CredentialVaultError extends Error {
+  static locked(): CredentialVaultError {
+    return new CredentialVaultError(
+      'The credentials of the sync services are locked. Unlock them with the master password in the sync settings.',
+      'LOCKED'
+    )
+  }
+
+  static wrongPassword(): CredentialVaultError {
+    return new CredentialVaultError(
+      'The master password is wrong, or the credential vault is corrupted.',
+      'WRONG_PASSWORD'
+    )
+  }
+
+  static invalidState(message: string): CredentialVaultError {
+    return new CredentialVaultError(message, 'INVALID_STATE')
+  }
+
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message)
+    this.name = 'CredentialVaultError'
+  }
+}
+
+// The key of the unlocked vault. Undefined while the vault is locked or disabled.
+let vaultKey: CryptoKey | undefined
+let vaultKdf: EncryptedCredentialVault['kdf'] | undefined
+// The JSON of the credentials in the saved envelope, to skip saving unchanged credentials
+let savedCredentialsJson: string | undefined
+// Saves the envelope in order, since encrypting is asynchronous
+let saveQueue: Promise<void> = Promise.resolve()
+let idleTimeoutId: ReturnType<typeof setTimeout> | undefined
+let lastActivityTime = 0
+
+/**
+ * Loads the envelope of the encrypted credentials from localStorage.
+ * @returns The envelope, or undefined if the vault is disabled.
+ */
+function loadVault(): EncryptedCredentialVault | undefined {
+  if (typeof localStorage === 'undefined') {
+    return undefined
+  }
+
+  const vault = localStorage.getItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)
+  return vault ? (JSON.parse(vault) as EncryptedCredentialVault) : undefined
+}
+
+/**
+ * A store with the status of the credential vault.
+ */
+export const credentialVaultStatus = writable<CredentialVaultStatus>(
+  loadVault() ? 'locked' : 'disabled'
+)
+
+/**
+ * Checks if the credentials are encrypted and not available.
+ * @returns True if the vault is locked.
+ */
+export function isCredentialVaultLocked(): boolean {
+  return get(credentialVaultStatus) === 'locked'
+}
+
+/**
+ * Encrypts the credentials with the key of the vault.
+ * @param credentialsJson - The JSON of the credentials.
+ * @param key - The key of the vault.
+ * @param kdf - The KDF parameters the key was derived with.
+ * @returns The envelope of the encrypted credentials.
+ */
+async function encryptCredentials(
+  credentialsJson: string,
+  key: CryptoKey,
+  kdf: EncryptedCredentialVault['kdf']
+): Promise<EncryptedCredentialVault> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(credentialsJson)
+  )
+  return {
+    format: credentialVaultFormat,
+    version: 1,
+    kdf,
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Gets the credentials and encryption passphrases of the sync services.
+ * @param settings - The sync settings.
+ * @returns The JSON of the secrets, keyed by service ID.
+ */
+function getCredentialsJson(settings: SyncSettings): string {
+  const credentials: VaultCredentials = Object.fromEntries(
+    settings.syncServices.map((service) => [
+      service.id,
+      {
+        credentials: service.credentials as Record<string, unknown>,
+        encryptionPassphrase: service.encryptionPassphrase,
+      },
+    ])
+  )
+  return JSON.stringify(credentials)
+}
+
+/**
+ * Removes the credentials and encryption passphrases from the sync settings.
+ * @param settings - The sync settings.
+ * @returns The sync settings without secrets.
+ */
+function removeCredentials(settings: SyncSettings): SyncSettings {
+  return {
+    ...settings,
+    syncServices: settings.syncServices.map((service) => ({
+      ...service,
+      credentials: {},
+      encryptionPassphrase: undefined,
+    })),
+  }
+}
+
+/**
+ * Puts the secrets of the vault back into a sync service.
+ * Values entered while the vault was locked take precedence, and empty fields
+ * of the locked form do not replace the saved credentials.
+ * @param service - The sync service in the store.
+ * @param secrets - The secrets of the service in the vault.
+ * @returns The sync service with its secrets.
+ */
+function restoreCredentials(
+  service: SyncServiceConfig<Record<string, unknown>>,
+  secrets: VaultSecrets
+): SyncServiceConfig {
+  const enteredCredentials = Object.fromEntries(
+    Object.entries(service.credentials).filter(([, value]) => Boolean(value))
+  )
+  return {
+    ...service,
+    credentials: {
+      ...secrets.credentials,
+      ...enteredCredentials,
+    },
+    encryptionPassphrase:
+      service.encryptionPassphrase || secrets.encryptionPassphrase,
+  }
+}
+
+/**
+ * Saves the credentials of the sync settings to the vault if they changed.
+ * @param settings - The sync settings with the credentials.
+ */
+function saveCredentials(settings: SyncSettings): void {
+  const credentialsJson = getCredentialsJson(settings)
+  if (!vaultKey || !vaultKdf || credentialsJson === savedCredentialsJson) {
+    return
+  }
+
+  savedCredentialsJson = credentialsJson
+  const key = vaultKey
+  const kdf = vaultKdf
+  saveQueue = saveQueue
+    .then(async () => {
+      const vault = await encryptCredentials(credentialsJson, key, kdf)
+      // Do not restore a vault that was disabled or locked in the meantime
+      if (vaultKey === key) {
+        localStorage.setItem(
+          STORAGE_KEY_SYNC_CREDENTIAL_VAULT,
+          JSON.stringify(vault)
+        )
+      }
+    })
+    .catch((error: unknown) => {
+      console.error('[CredentialVault] Failed to save the credentials:', error)
+    })
+}
+
+/**
+ * Removes the secrets from the sync settings before they are saved, and saves them to the vault instead.
+ * While the vault is locked, the secrets stay in the store until it is unlocked.
+ * @param settings - The sync settings in the store.
+ * @returns The sync settings without secrets if the vault is enabled.
+ */
+function handleSyncSettingsSave(settings: SyncSettings): SyncSettings {
+  // Check the saved vault, as another tab may have enabled it
+  if (!localStorage.getItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)) {
+    return settings
+  }
+
+  saveCredentials(settings)
+  return removeCredentials(settings)
+}
+
+setSyncSettingsSaveHandler(handleSyncSettingsSave)
+
+/**
+ * Waits until the credentials are saved to the vault.
+ * @returns A promise that resolves when all pending saves are done.
+ */
+export async function flushCredentialVault(): Promise<void> {
+  await saveQueue
+}
+
+function handleActivity(): void {
+  lastActivityTime = Date.now()
+}
+
+/**
+ * Locks the vault once the user has been idle for `credentialVaultIdleTimeout`.
+ * @param delay - The time until the idle time is checked.
+ */
+function scheduleIdleLock(delay = credentialVaultIdleTimeout): void {
+  clearTimeout(idleTimeoutId)
+  idleTimeoutId = setTimeout(() => {
+    const idleTime = Date.now() - lastActivityTime
+    if (idleTime >= credentialVaultIdleTimeout) {
+      console.log('[CredentialVault] Locking the vault after the idle timeout.')
+      lockCredentialVault()
+    } else {
+      scheduleIdleLock(credentialVaultIdleTimeout - idleTime)
+    }
+  }, delay)
+}
+
+function startIdleTimer(): void {
+  lastActivityTime = Date.now()
+  if (typeof globalThis.addEventListener === 'function') {
+    for (const event of activityEvents) {
+      globalThis.addEventListener(event, handleActivity, { passive: true })
+    }
+  }
+
+  scheduleIdleLock()
+}
+
+function stopIdleTimer(): void {
+  clearTimeout(idleTimeoutId)
+  idleTimeoutId = undefined
+  if (typeof globalThis.removeEventListener === 'function') {
+    for (const event of activityEvents) {
+      globalThis.removeEventListener(event, handleActivity)
+    }
+  }
+}
+
+/**
+ * Enables the vault, and encrypts the current credentials with the master password.
+ * The vault is unlocked afterwards.
+ * @param password - The master password.
+ * @param iterations - The number of PBKDF2 iterations.
+ * @throws {CredentialVaultError} If the vault is already enabled or the password is empty.
+ */
+export async function enableCredentialVault(
+  password: string,
+  iterations = defaultPbkdf2Iterations
+): Promise<void> {
+  if (get(credentialVaultStatus) !== 'disabled') {
+    throw CredentialVaultError.invalidState(
+      'The credential vault is already enabled.'
+    )
+  }
+
+  if (!password) {
+    throw CredentialVaultError.invalidState('The master password is empty.')
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(password, salt, iterations)
+  const kdf: EncryptedCredentialVault['kdf'] = {
+    name: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations,
+    salt: bytesToBase64(salt),
+  }
+  const credentialsJson = getCredentialsJson(get(syncConfigStore))
+  const vault = await encryptCredentials(credentialsJson, key, kdf)
+  localStorage.setItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT, JSON.stringify(vault))
+
+  vaultKey = key
+  vaultKdf = kdf
+  savedCredentialsJson = credentialsJson
+  credentialVaultStatus.set('unlocked')
+  startIdleTimer()
+  // Save the sync settings again, without the credentials
+  syncConfigStore.update((settings) => ({ ...settings }))
+}
+
+/**
+ * Unlocks the vault, and puts the decrypted secrets into the sync settings store.
+ * Credentials entered while the vault was locked are saved to the vault.
+ * @param password - The master password.
+ * @throws {CredentialVaultError} If the password is wrong or the vault is not locked.
+ */
+export async function unlockCredentialVault(password: string): Promise<void> {
+  const vault = loadVault()
+  if (!vault || get(credentialVaultStatus) !== 'locked') {
+    throw CredentialVaultError.invalidState(
+      'The credential vault is not locked.'
+    )
+  }
+
+  const key = await deriveKey(
+    password,
+    base64ToBytes(vault.kdf.salt),
+    vault.kdf.iterations
+  )
+  let credentials: VaultCredentials
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(vault.cipher.iv) },
+      key,
+      base64ToBytes(vault.ciphertext)
+    )
+    credentials = JSON.parse(
+      new TextDecoder().decode(plaintext)
+    ) as VaultCredentials
+  } catch {
+    // AES-GCM authentication fails if the key is wrong or the data was modified
+    throw CredentialVaultError.wrongPassword()
+  }
+
+  vaultKey = key
+  vaultKdf = vault.kdf
+  savedCredentialsJson = JSON.stringify(credentials)
+  credentialVaultStatus.set('unlocked')
+  startIdleTimer()
+  syncConfigStore.update((settings) => ({
+    ...settings,
+    syncServices: settings.syncServices.map((service) =>
+      Object.hasOwn(credentials, service.id)
+        ? restoreCredentials(service, credentials[service.id])
+        : service
+    ),
+  }))
+}
+
+/**
+ * Locks the vault, and removes the secrets from the sync settings store.
+ * Does nothing if the vault is not unlocked.
+ */
+export function lockCredentialVault(): void {
+  if (get(credentialVaultStatus) !== 'unlocked') {
+    return
+  }
+
+  // Forget the key first, so the removed credentials are not saved to the vault
+  vaultKey = undefined
+  vaultKdf = undefined
+  savedCredentialsJson = undefined
+  stopIdleTimer()
+  credentialVaultStatus.set('locked')
+  // The cached keys of the sync encryption are derived from the passphrases in the vault
+  clearSyncEncryptionKeys()
+  syncConfigStore.update((settings) => removeCredentials(settings))
+}
+
+/**
+ * Disables the vault, and saves the credentials as plaintext in the sync settings again.
+ * @throws {CredentialVaultError} If the vault is not unlocked.
+ */
+export function disableCredentialVault(): void {
+  if (get(credentialVaultStatus) !== 'unlocked') {
+    throw CredentialVaultError.invalidState(
+      'Unlock the credential vault before disabling it.'
+    )
+  }
+
+  vaultKey = undefined
+  vaultKdf = undefined
+  savedCredentialsJson = undefined
+  stopIdleTimer()
+  localStorage.removeItem(STORAGE_KEY_SYNC_CREDENTIAL_VAULT)
+  credentialVaultStatus.set('disabled')
+  // Save the sync settings again, with the credentials
+  syncConfigStore.update((settings) => ({ ...settings }))
+}
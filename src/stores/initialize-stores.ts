@@ -14,6 +14,7 @@ import {
 import { filters } from './saved-filters.js'
 import { getCollections } from './collections.js'
 import { settings, clearAllBookmarks } from './stores.js'
+import { startSyncAppDataTracking } from './sync-app-data-store.js'
 
 function initializeSettings() {
   console.log('initializing settings')
@@ -259,6 +260,7 @@ export default async function initializeStores() {
 
   // run every time when loading stores
   initializeSettings()
+  startSyncAppDataTracking()
 
   if (!$settings.autoDiscoveredBrowserExtensionTargets) {
     setTimeout(async () => {
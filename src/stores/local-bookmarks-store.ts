@@ -0,0 +1,157 @@
+import { writable, type Updater } from 'svelte/store'
+import type { Persisted } from 'svelte-persisted-store'
+import {
+  CURRENT_DATABASE_VERSION,
+  STORAGE_KEY_BOOKMARKS,
+} from '../config/constants.js'
+import type { BookmarksStore } from '../types/bookmarks.js'
+import {
+  bookmarkStorage,
+  type BookmarksStoreChanges,
+  type BookmarksStoreUpdate,
+} from '../lib/bookmark-storage.js'
+
+let localBookmarksStore: Persisted<BookmarksStore> | undefined
+let initialLoad: Promise<void> | undefined
+
+function createInitialValue(): BookmarksStore {
+  return {
+    data: {},
+    meta: {
+      databaseVersion: CURRENT_DATABASE_VERSION,
+      created: Date.now(),
+    },
+  }
+}
+
+/**
+ * Applies incremental changes from `BookmarkStorage` to the in-memory store.
+ *
+ * @param store - The store to update in place.
+ * @param changes - The changed bookmarks.
+ * @returns The updated store.
+ */
+function applyChanges(
+  store: BookmarksStore,
+  changes: BookmarksStoreChanges
+): BookmarksStore {
+  for (const key of changes.deletions) {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete store.data[key]
+  }
+
+  for (const [key, entry] of changes.modifications) {
+    store.data[key] = entry
+  }
+
+  store.meta.updated = changes.updated
+  return store
+}
+
+/**
+ * Creates a store holding the local bookmarks, backed by `bookmarkStorage`.
+ *
+ * It replaces `persisted(STORAGE_KEY_BOOKMARKS, ...)`, which only works with
+ * localStorage. Values passed to `set`/`update` are written through
+ * `bookmarkStorage`; changes made through `bookmarkStorage` (in this tab or
+ * another one) are applied back to the store.
+ *
+ * @returns The local bookmarks store.
+ */
+function createLocalBookmarksStore(): Persisted<BookmarksStore> {
+  const store = writable<BookmarksStore>(createInitialValue())
+  let currentValue: BookmarksStore = createInitialValue()
+  // Ids of the writes of this store, their notifications are skipped
+  const ownWrites = new Set<string>()
+
+  store.subscribe((value) => {
+    currentValue = value
+  })
+
+  const load = async () => {
+    store.set(await bookmarkStorage.getBookmarksStore())
+  }
+
+  const reload = async () => {
+    try {
+      await load()
+    } catch (error) {
+      console.error('Failed to load bookmarks:', error)
+    }
+  }
+
+  const save = (value: BookmarksStore) => {
+    store.set(value)
+    const writeId = crypto.randomUUID()
+    ownWrites.add(writeId)
+    bookmarkStorage
+      .persistBookmarksStore(value, true, writeId)
+      .catch((error: unknown) => {
+        console.error('Failed to save bookmarks:', error)
+      })
+      .finally(() => {
+        ownWrites.delete(writeId)
+      })
+  }
+
+  globalThis.addEventListener('updateBookmarksStore', (event) => {
+    const { changes, writeId } = (event as CustomEvent<BookmarksStoreUpdate>)
+      .detail
+    // Skip the notifications caused by our own writes
+    if (writeId && ownWrites.has(writeId)) {
+      return
+    }
+
+    if (changes) {
+      store.update((value) => applyChanges(value, changes))
+    } else {
+      void reload()
+    }
+  })
+
+  // The localStorage engine does not notify other tabs by itself
+  globalThis.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_KEY_BOOKMARKS) {
+      void reload()
+    }
+  })
+
+  initialLoad = load()
+  initialLoad.catch((error: unknown) => {
+    console.error('Failed to load bookmarks:', error)
+  })
+
+  return {
+    subscribe: store.subscribe,
+    set: save,
+    update(updater: Updater<BookmarksStore>) {
+      save(updater(currentValue))
+    },
+    reset() {
+      save(createInitialValue())
+    },
+  }
+}
+
+/**
+ * Retrieves the local bookmarks store.
+ * Initializes the store if it hasn't been initialized yet.
+ *
+ * @returns The local bookmarks store
+ */
+export function getLocalBookmarksStore(): Persisted<BookmarksStore> {
+  localBookmarksStore ||= createLocalBookmarksStore()
+  return localBookmarksStore
+}
+
+/**
+ * Waits until the local bookmarks store holds the stored bookmarks.
+ * Writing to the store before that would overwrite them with an empty store.
+ *
+ * @returns A promise that resolves once the bookmarks are loaded
+ * @throws Error if the stored bookmarks cannot be loaded
+ */
+export async function waitForLocalBookmarks(): Promise<void> {
+  getLocalBookmarksStore()
+  await initialLoad
+}
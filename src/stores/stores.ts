@@ -1,27 +1,35 @@
 import { get } from 'svelte/store'
 import { persisted, type Persisted } from 'svelte-persisted-store'
 import Console from 'console-tagger'
-import { addEventListener } from 'browser-extension-utils'
-import {
-  STORAGE_KEY_BOOKMARKS,
-  STORAGE_KEY_SETTINGS,
-} from '../config/constants.js'
+import { STORAGE_KEY_SETTINGS } from '../config/constants.js'
 import {
   type BookmarksStore,
   type BookmarksData,
   type BookmarkTagsAndMetadata,
 } from '../types/bookmarks.js'
-import { bookmarkStorage } from '../lib/bookmark-storage.js'
 import { sortBookmarks } from '../utils/sort-bookmarks.js'
 import { normalizeBookmarkData } from '../utils/normalize-bookmark-data.js'
 import { getHostName } from '../utils/url-utils.js'
 import { calculateBookmarkStatsFromData } from '../utils/bookmark-stats.js'
 import { convertDate, isValidDate } from '../utils/date.js'
 import { prettyPrintJson } from '../utils/pretty-print-json.js'
+import {
+  isMarkedAsDeleted,
+  isUpdatedAfterDeletion,
+} from '../utils/bookmarks.js'
 import {
   type MergeMetaStrategy,
   type MergeTagsStrategy,
 } from '../config/merge-options.js'
+import { checkMassDeletion } from '../sync/mass-deletion-guard.js'
+import {
+  getLocalBookmarksStore,
+  waitForLocalBookmarks,
+} from './local-bookmarks-store.js'
+import {
+  getMassDeletionThreshold,
+  syncConfigStore,
+} from './sync-config-store.js'
 
 const console = new Console({
   prefix: 'stores',
@@ -78,15 +86,16 @@ export let bookmarks: Persisted<BookmarksStore> = persisted(
   }
 )
 
-function initializeBookmarks() {
+async function initializeBookmarks() {
   console.log('initalizing bookmarks')
-  bookmarks = persisted(STORAGE_KEY_BOOKMARKS, {
-    data: {},
-    meta: {
-      databaseVersion: 3,
-      created: Date.now(),
-    },
-  })
+  // 由 BookmarkStorage 持久化，并自动同步 BookmarkStorage 中的变更
+  bookmarks = getLocalBookmarksStore()
+  try {
+    await waitForLocalBookmarks()
+  } catch (error) {
+    console.error('Failed to initialize bookmarks:', error)
+    return
+  }
 
   const event = new CustomEvent('bookmarksInitialized')
   globalThis.dispatchEvent(event)
@@ -96,15 +105,6 @@ function initializeBookmarks() {
 // 延迟初始化，避免阻塞主线程
 setTimeout(initializeBookmarks, 1000)
 
-// when update in BookmarkStorage.ts
-addEventListener(globalThis, 'updateBookmarksStore', async () => {
-  const bookmarksRaw = await bookmarkStorage.getBookmarksStore()
-  if (isBookmarksDataReady) {
-    // 触发响应式更新
-    bookmarks.set(bookmarksRaw)
-  }
-})
-
 export function exportData(bookmarksData?: BookmarksData) {
   checkBookmarksDataReady()
 
@@ -180,8 +180,40 @@ type MergeStrategy = {
   defaultDate: number
   skipExisting?: boolean // default false
   updateOverDelete?: boolean // default true
-  overwriteLocalDeleted?: boolean // 是否覆盖本地已删除的书签
-  overwriteRemoteDeleted?: boolean // 是否覆盖远程已删除的书签. 先保留，有实际使用场景时再实现
+  overwriteLocalDeleted?: boolean // 是否用导入的书签覆盖本地已删除的书签
+  overwriteRemoteDeleted?: boolean // 是否用本地书签覆盖导入数据中已删除的书签
+}
+
+/**
+ * 判断导入的书签是否覆盖本地已存在的书签
+ */
+function shouldOverwriteExisting(
+  existing: BookmarkTagsAndMetadata,
+  entry: BookmarkTagsAndMetadata,
+  mergeStrategy: MergeStrategy
+): boolean {
+  const existingDeleted = isMarkedAsDeleted(existing)
+  const entryDeleted = isMarkedAsDeleted(entry)
+
+  if (existingDeleted && !entryDeleted) {
+    if (mergeStrategy.overwriteLocalDeleted !== undefined) {
+      return mergeStrategy.overwriteLocalDeleted
+    }
+  } else if (entryDeleted && !existingDeleted) {
+    if (mergeStrategy.overwriteRemoteDeleted !== undefined) {
+      return !mergeStrategy.overwriteRemoteDeleted
+    }
+
+    // 本地书签在删除之后有更新时，默认保留本地书签
+    if (
+      mergeStrategy.updateOverDelete !== false &&
+      isUpdatedAfterDeletion(existing, entry)
+    ) {
+      return false
+    }
+  }
+
+  return !mergeStrategy.skipExisting
 }
 
 export async function importData(
@@ -192,6 +224,33 @@ export async function importData(
 
   const bookmarksRaw = get(bookmarks)
   const bookmarksData = bookmarksRaw.data
+
+  // 删除或覆盖的书签过多时，需要用户确认后再导入
+  const overwrites = Object.fromEntries(
+    Object.entries(data.data).filter(([url, entry]) => {
+      const existing = bookmarksData[url]
+      return (
+        existing !== undefined &&
+        shouldOverwriteExisting(existing, entry, mergeStrategy)
+      )
+    })
+  )
+  const check = checkMassDeletion(
+    bookmarksData,
+    overwrites,
+    [],
+    getMassDeletionThreshold(get(syncConfigStore))
+  )
+  if (
+    check &&
+    // eslint-disable-next-line no-alert
+    !confirm(
+      `此次导入将删除 ${check.deleted} 个、覆盖 ${check.overwritten} 个书签（共 ${check.total} 个），是否继续？`
+    )
+  ) {
+    return
+  }
+
   // 收集所有标签和域名，用于统计新的标签和域名数量
   const allTags = new Set(
     Object.values(bookmarksData).flatMap((entry) => entry.tags)
@@ -220,7 +279,16 @@ export async function importData(
     for (let i = 0; i < entries.length; i += batchSize) {
       const batch = entries.slice(i, i + batchSize)
       for (const [url, entry] of batch) {
-        if (!bookmarksData[url]) {
+        const existing = bookmarksData[url]
+        if (
+          existing &&
+          !shouldOverwriteExisting(existing, entry, mergeStrategy)
+        ) {
+          importProgress.current++
+          continue
+        }
+
+        if (!existing) {
           importProgress.stats.newBookmarks++
 
           // 统计新域名
@@ -243,8 +311,7 @@ export async function importData(
         importProgress.current++
       }
 
-      // 直接更新 localStorage，防止触发响应式更新
-      localStorage.setItem(STORAGE_KEY_BOOKMARKS, JSON.stringify(bookmarksRaw))
+      // 不在每批次后持久化，防止触发响应式更新。全部导入后由 bookmarks.set 统一保存
 
       const event = new CustomEvent('importProgressUpdated', {
         detail: importProgress,
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import { STORAGE_KEY_SYNC_APP_DATA } from '../config/constants.js'
+import { syncAppDataFormat } from '../sync/sync-app-data.js'
+import { getCollections, type Collection } from './collections.js'
+import { filters } from './saved-filters.js'
+import { settings } from './stores.js'
+import {
+  applySyncAppData,
+  getLocalSyncAppData,
+  startSyncAppDataTracking,
+} from './sync-app-data-store.js'
+
+const now = Date.parse('2026-01-10T00:00:00Z')
+
+const work: Collection = {
+  id: 'collection-1',
+  name: 'Work',
+  pathname: 'work',
+  filterString: 't=work',
+  created: 1000,
+  updated: 1000,
+}
+
+const home: Collection = {
+  id: 'collection-2',
+  name: 'Home',
+  pathname: 'home',
+  filterString: 't=home',
+  created: 2000,
+  updated: 2000,
+}
+
+describe('sync-app-data-store', () => {
+  let stopTracking: () => void
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+    localStorage.removeItem(STORAGE_KEY_SYNC_APP_DATA)
+    getCollections().set([home, work])
+    filters.set([])
+    settings.update(($settings) => ({ ...$settings, theme: 'system' }))
+    stopTracking = startSyncAppDataTracking()
+  })
+
+  afterEach(() => {
+    stopTracking()
+    vi.useRealTimers()
+  })
+
+  it('should record the time a collection was deleted', () => {
+    vi.setSystemTime(now + 1000)
+    getCollections().set([home])
+
+    expect(getLocalSyncAppData(['collections']).collections).toEqual({
+      items: [home],
+      deleted: { [work.id]: now + 1000 },
+    })
+  })
+
+  it('should record the time a preference was changed', () => {
+    expect(getLocalSyncAppData(['settings']).settings?.theme).toEqual({
+      value: 'system',
+      updated: 0,
+    })
+
+    vi.setSystemTime(now + 1000)
+    settings.update(($settings) => ({ ...$settings, theme: 'dark' }))
+
+    expect(getLocalSyncAppData(['settings']).settings?.theme).toEqual({
+      value: 'dark',
+      updated: now + 1000,
+    })
+  })
+
+  it('should only include the requested categories', () => {
+    const data = getLocalSyncAppData(['filters'])
+
+    expect(data).toEqual({
+      format: syncAppDataFormat,
+      version: 1,
+      filters: { items: [], deleted: {} },
+    })
+  })
+
+  it('should apply merged data without recording it as local changes', () => {
+    vi.setSystemTime(now + 1000)
+
+    const changed = applySyncAppData(
+      {
+        format: syncAppDataFormat,
+        version: 1,
+        collections: { items: [home], deleted: { [work.id]: 500 } },
+        settings: { theme: { value: 'dark', updated: 300 } },
+      },
+      ['collections', 'settings']
+    )
+
+    expect(changed).toBe(true)
+    expect(get(getCollections())).toEqual([home])
+    expect(get(settings).theme).toBe('dark')
+    const local = getLocalSyncAppData(['collections', 'settings'])
+    expect(local.collections?.deleted).toEqual({ [work.id]: 500 })
+    expect(local.settings?.theme).toEqual({ value: 'dark', updated: 300 })
+  })
+
+  it('should not change the stores if the merged data is the same', () => {
+    const local = getLocalSyncAppData(['collections', 'filters', 'settings'])
+
+    expect(
+      applySyncAppData(local, ['collections', 'filters', 'settings'])
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,257 @@
+import { get, type Readable, type Unsubscriber } from 'svelte/store'
+import { STORAGE_KEY_SYNC_APP_DATA } from '../config/constants.js'
+import {
+  syncAppDataFormat,
+  type SyncAppData,
+  type SyncAppDataCategory,
+  type SyncAppDataItem,
+  type SyncAppDataList,
+  type SyncAppDataSetting,
+} from '../sync/sync-app-data.js'
+import { getCollections } from './collections.js'
+import { filters } from './saved-filters.js'
+import { settings } from './stores.js'
+
+/**
+ * @file Tracks the changes of the app data that is synced next to the bookmarks.
+ *
+ * Collections and saved filters have `updated` timestamps, but are removed
+ * from their stores when deleted, and preferences have no timestamps at all.
+ * This module records the time each synced preference was changed and each
+ * collection or saved filter was deleted, so `mergeSyncAppData` can merge them.
+ */
+
+type Settings = typeof settings extends Readable<infer T> ? T : never
+
+/**
+ * The preferences that are synced. Preferences that describe the device or the
+ * state of the app, such as `isFirstRun`, are not synced.
+ */
+export const syncedSettingKeys: Array<keyof Settings> = [
+  'theme',
+  'sortBy',
+  'sidebarPosition',
+  'viewMode',
+  'skin',
+  'alwaysShowAdvancedFields',
+  'maxDeletedBookmarks',
+  'headerToolbarSettings',
+]
+
+/**
+ * The IDs of the items of a category when the changes were last tracked, and the tombstones of the deleted items.
+ */
+type TrackedList = {
+  ids: string[]
+  deleted: Record<string, number>
+}
+
+/**
+ * The tracked changes, stored in localStorage and shared by all tabs.
+ */
+type SyncAppDataState = {
+  collections?: TrackedList
+  filters?: TrackedList
+  settings?: Record<string, SyncAppDataSetting>
+}
+
+function loadState(): SyncAppDataState {
+  try {
+    const state = localStorage.getItem(STORAGE_KEY_SYNC_APP_DATA)
+    return state ? (JSON.parse(state) as SyncAppDataState) : {}
+  } catch (error) {
+    console.error('[SyncAppData] Failed to load the tracked changes:', error)
+    return {}
+  }
+}
+
+function saveState(state: SyncAppDataState): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_SYNC_APP_DATA, JSON.stringify(state))
+  } catch (error) {
+    console.error('[SyncAppData] Failed to save the tracked changes:', error)
+  }
+}
+
+/**
+ * Records the items that were deleted since the changes were last tracked.
+ * @param list - The tracked list.
+ * @param items - The current items.
+ * @param now - The time of the deletions.
+ * @returns The updated tracked list.
+ */
+function trackList(
+  list: TrackedList | undefined,
+  items: SyncAppDataItem[],
+  now: number
+): TrackedList {
+  const ids = items.map((item) => item.id)
+  const deleted = { ...list?.deleted }
+  const currentIds = new Set(ids)
+  for (const id of list?.ids || []) {
+    if (!currentIds.has(id)) {
+      deleted[id] = now
+    }
+  }
+
+  return { ids, deleted }
+}
+
+/**
+ * Records the preferences that changed since the changes were last tracked.
+ * Preferences seen for the first time get the time 0, so the values of a new
+ * device do not overwrite the values synced by other devices.
+ * @param tracked - The tracked preferences.
+ * @param $settings - The current preferences.
+ * @param now - The time of the changes.
+ * @returns The updated tracked preferences.
+ */
+function trackSettings(
+  tracked: Record<string, SyncAppDataSetting> | undefined,
+  $settings: Settings,
+  now: number
+): Record<string, SyncAppDataSetting> {
+  const result: Record<string, SyncAppDataSetting> = { ...tracked }
+  for (const key of syncedSettingKeys) {
+    const value: unknown = $settings[key]
+    const setting = tracked?.[key]
+    if (!setting) {
+      result[key] = { value, updated: 0 }
+    } else if (JSON.stringify(setting.value) !== JSON.stringify(value)) {
+      result[key] = { value, updated: now }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Records the changes of the app data since they were last tracked.
+ * @returns The tracked changes.
+ */
+function trackChanges(): SyncAppDataState {
+  const state = loadState()
+  const now = Date.now()
+  const newState: SyncAppDataState = {
+    collections: trackList(state.collections, get(getCollections()), now),
+    filters: trackList(state.filters, get(filters), now),
+    settings: trackSettings(state.settings, get(settings), now),
+  }
+  if (JSON.stringify(newState) !== JSON.stringify(state)) {
+    saveState(newState)
+  }
+
+  return newState
+}
+
+/**
+ * Starts recording the changes of the app data.
+ * Changes made while no tab tracks them are recorded when tracking starts again.
+ * @returns A function that stops tracking.
+ */
+export function startSyncAppDataTracking(): Unsubscriber {
+  const unsubscribers = [
+    getCollections().subscribe(trackChanges),
+    filters.subscribe(trackChanges),
+    settings.subscribe(trackChanges),
+  ]
+  return () => {
+    for (const unsubscribe of unsubscribers) {
+      unsubscribe()
+    }
+  }
+}
+
+/**
+ * Gets the local app data of the given categories.
+ * @param categories - The categories synced by the sync service.
+ * @returns The local app data.
+ */
+export function getLocalSyncAppData(
+  categories: SyncAppDataCategory[]
+): SyncAppData {
+  const state = trackChanges()
+  const data: SyncAppData = { format: syncAppDataFormat, version: 1 }
+  if (categories.includes('collections')) {
+    data.collections = {
+      items: get(getCollections()),
+      deleted: state.collections?.deleted || {},
+    }
+  }
+
+  if (categories.includes('filters')) {
+    data.filters = {
+      items: get(filters),
+      deleted: state.filters?.deleted || {},
+    }
+  }
+
+  if (categories.includes('settings')) {
+    data.settings = state.settings
+  }
+
+  return data
+}
+
+function toTrackedList<T extends SyncAppDataItem>(
+  list: SyncAppDataList<T>
+): TrackedList {
+  return { ids: list.items.map((item) => item.id), deleted: list.deleted }
+}
+
+/**
+ * Applies the merged app data of the given categories to the local stores.
+ * The tracked changes are updated first, so the applied values are not
+ * recorded as new local changes.
+ * @param data - The merged app data.
+ * @param categories - The categories synced by the sync service.
+ * @returns True if a local store changed.
+ */
+export function applySyncAppData(
+  data: SyncAppData,
+  categories: SyncAppDataCategory[]
+): boolean {
+  const local = getLocalSyncAppData(categories)
+  const state = loadState()
+  let changed = false
+
+  if (
+    categories.includes('collections') &&
+    data.collections &&
+    JSON.stringify(data.collections) !== JSON.stringify(local.collections)
+  ) {
+    state.collections = toTrackedList(data.collections)
+    saveState(state)
+    getCollections().set(data.collections.items)
+    changed = true
+  }
+
+  if (
+    categories.includes('filters') &&
+    data.filters &&
+    JSON.stringify(data.filters) !== JSON.stringify(local.filters)
+  ) {
+    state.filters = toTrackedList(data.filters)
+    saveState(state)
+    filters.set(data.filters.items)
+    changed = true
+  }
+
+  if (
+    categories.includes('settings') &&
+    data.settings &&
+    JSON.stringify(data.settings) !== JSON.stringify(local.settings)
+  ) {
+    state.settings = { ...state.settings, ...data.settings }
+    saveState(state)
+    const values = Object.fromEntries(
+      syncedSettingKeys
+        .filter((key) => Object.hasOwn(data.settings!, key))
+        .map((key) => [key, data.settings![key].value])
+    )
+    settings.update(($settings) => ({ ...$settings, ...values }))
+    changed = true
+  }
+
+  return changed
+}
@@ -9,6 +9,9 @@ import {
   hasSyncService,
   setActiveSyncService,
   getSyncServiceById,
+  getSyncServicesInSyncOrder,
+  getMassDeletionThreshold,
+  setMassDeletionThreshold,
   discoverBrowserExtensionTargets,
   promoteDiscoveredTarget,
   discoveredTargets,
@@ -85,6 +88,39 @@ describe('sync-config-store', () => {
     },
   }
 
+  const s3Config: SyncServiceConfig = {
+    id: 's3-1',
+    type: 's3',
+    name: 'S3 Sync',
+    enabled: true,
+    scope: 'all',
+    target: {
+      endpoint: 'https://minio.example.com',
+      bucket: 'bookmarks',
+      path: 'utags/bookmarks.json',
+    },
+    credentials: {
+      accessKeyId: 'access-key',
+      secretAccessKey: 'secret-key',
+    },
+  }
+
+  const giteaConfig: SyncServiceConfig = {
+    id: 'gitea-1',
+    type: 'gitea',
+    name: 'Gitea Sync',
+    enabled: true,
+    scope: 'all',
+    target: {
+      url: 'https://gitea.example.com',
+      repo: 'user/bookmarks',
+      path: 'bookmarks.json',
+    },
+    credentials: {
+      token: 'gitea-token',
+    },
+  }
+
   beforeEach(() => {
     // Clear all mocks and reset store
     vi.clearAllMocks()
@@ -216,6 +252,96 @@ describe('sync-config-store', () => {
         addSyncService(invalidConfig)
       }).toThrow('Invalid API URL format')
     })
+
+    it('should allow S3 service without endpoint', () => {
+      expect(() => {
+        addSyncService({
+          ...s3Config,
+          target: { bucket: 'bookmarks', region: 'eu-west-1' },
+        })
+      }).not.toThrow()
+    })
+
+    it('should throw error for invalid S3 credentials', () => {
+      const invalidConfig = {
+        ...s3Config,
+        credentials: { accessKeyId: 'access-key' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid credentials')
+    })
+
+    it('should throw error for missing S3 bucket', () => {
+      const invalidConfig = {
+        ...s3Config,
+        target: { ...s3Config.target, bucket: '' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid S3 bucket name')
+    })
+
+    it('should throw error for invalid S3 endpoint URL format', () => {
+      const invalidConfig = {
+        ...s3Config,
+        target: { ...s3Config.target, endpoint: 'minio.example.com' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid S3 endpoint URL format')
+    })
+
+    it('should allow GitLab service without URL', () => {
+      expect(() => {
+        addSyncService({
+          ...giteaConfig,
+          type: 'gitlab',
+          target: { repo: 'group/bookmarks', path: 'bookmarks.json' },
+        })
+      }).not.toThrow()
+    })
+
+    it('should throw error for invalid Gitea credentials', () => {
+      const invalidConfig = {
+        ...giteaConfig,
+        credentials: { token: '' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid credentials')
+    })
+
+    it('should throw error for missing Gitea URL', () => {
+      const invalidConfig = {
+        ...giteaConfig,
+        target: { ...giteaConfig.target, url: '' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid Gitea URL format')
+    })
+
+    it('should throw error for invalid GitLab URL format', () => {
+      const invalidConfig = {
+        ...giteaConfig,
+        type: 'gitlab' as const,
+        target: { ...giteaConfig.target, url: 'gitlab.example.com' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid GitLab URL format')
+    })
+
+    it('should throw error for invalid Gitea repository path', () => {
+      const invalidConfig = {
+        ...giteaConfig,
+        target: { ...giteaConfig.target, repo: '' },
+      }
+      expect(() => {
+        addSyncService(invalidConfig)
+      }).toThrow('Invalid repository path')
+    })
   })
 
   describe('addSyncService', () => {
@@ -381,6 +507,19 @@ describe('sync-config-store', () => {
       expect(updated.lastSyncMeta).toBeUndefined()
     })
 
+    it('should reset sync metadata when the Gitea URL changes', () => {
+      addSyncService({ ...giteaConfig, lastSyncTimestamp: 123_456_789 })
+
+      updateSyncService({
+        ...giteaConfig,
+        lastSyncTimestamp: 123_456_789,
+        target: { ...giteaConfig.target, url: 'https://git.example.org' },
+      })
+
+      const store = get(syncConfigStore)
+      expect(store.syncServices[0].lastSyncTimestamp).toBeUndefined()
+    })
+
     it('should throw error when trying to change service type', () => {
       addSyncService(githubConfig)
       const invalidUpdate = {
@@ -519,6 +658,67 @@ describe('sync-config-store', () => {
     })
   })
 
+  describe('getSyncServicesInSyncOrder', () => {
+    const disabledConfig: SyncServiceConfig = {
+      ...githubConfig,
+      id: 'disabled-service',
+      enabled: false,
+    }
+
+    it('should return the enabled services in their configured order', () => {
+      const services = getSyncServicesInSyncOrder({
+        syncServices: [githubConfig, disabledConfig, webdavConfig],
+        activeSyncServiceId: undefined,
+      })
+      expect(services.map((service) => service.id)).toEqual([
+        githubConfig.id,
+        webdavConfig.id,
+      ])
+    })
+
+    it('should return the active service first', () => {
+      const services = getSyncServicesInSyncOrder({
+        syncServices: [githubConfig, disabledConfig, webdavConfig],
+        activeSyncServiceId: webdavConfig.id,
+      })
+      expect(services.map((service) => service.id)).toEqual([
+        webdavConfig.id,
+        githubConfig.id,
+      ])
+    })
+  })
+
+  describe('setMassDeletionThreshold', () => {
+    it('should use the default threshold until one is set', () => {
+      syncConfigStore.set({ syncServices: [], activeSyncServiceId: undefined })
+      expect(getMassDeletionThreshold(get(syncConfigStore))).toEqual({
+        count: 100,
+        percentage: 30,
+      })
+
+      setMassDeletionThreshold({ count: 500 })
+      expect(get(syncConfigStore).massDeletionThreshold).toEqual({
+        count: 500,
+        percentage: 30,
+      })
+    })
+
+    it('should disable limits with invalid or negative values', () => {
+      syncConfigStore.set({ syncServices: [], activeSyncServiceId: undefined })
+      setMassDeletionThreshold({ count: -1, percentage: Number.NaN })
+      expect(get(syncConfigStore).massDeletionThreshold).toEqual({
+        count: 0,
+        percentage: 0,
+      })
+
+      setMassDeletionThreshold({ count: 12.5, percentage: 150 })
+      expect(get(syncConfigStore).massDeletionThreshold).toEqual({
+        count: 12,
+        percentage: 100,
+      })
+    })
+  })
+
   describe('localStorage integration', () => {
     const largeConfig = {
       ...githubConfig,
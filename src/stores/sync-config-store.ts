@@ -4,27 +4,49 @@ import type {
   SyncServiceConfig,
   GithubCredentials,
   GithubTarget,
+  GitLabCredentials,
+  GitLabTarget,
+  GiteaCredentials,
+  GiteaTarget,
   WebDAVCredentials,
   WebDAVTarget,
   ApiCredentials,
   ApiTarget,
+  S3Credentials,
+  S3Target,
   BrowserExtensionCredentials,
   BrowserExtensionTarget,
 } from '../sync/types.js'
+import { clearSyncBase } from '../sync/sync-base-store.js'
+import {
+  defaultMassDeletionThreshold,
+  type MassDeletionThreshold,
+} from '../sync/mass-deletion-guard.js'
 
 // Define a type for all possible credential types
 export type CredentialsType =
   | GithubCredentials
+  | GitLabCredentials
+  | GiteaCredentials
   | WebDAVCredentials
   | ApiCredentials
+  | S3Credentials
 
 // Define a type for all possible target types
-export type TargetType = GithubTarget | WebDAVTarget | ApiTarget
+export type TargetType =
+  | GithubTarget
+  | GitLabTarget
+  | GiteaTarget
+  | WebDAVTarget
+  | ApiTarget
+  | S3Target
 
 // Define the structure for sync service configurations
 export type SyncSettings = {
   syncServices: SyncServiceConfig[]
   activeSyncServiceId: string | undefined // ID of the currently active sync service
+  tombstoneRetentionDays?: number // Days to keep deleted bookmarks before purging them on sync. 0 or undefined keeps them forever
+  massDeletionThreshold?: MassDeletionThreshold // Limits above which syncs and imports need confirmation. Undefined uses the defaults
 }
 
 // Default sync settings
@@ -35,11 +57,17 @@ const defaultSyncSettings: SyncSettings = {
 
 const validTypes = new Set([
   'github',
+  'gitlab',
+  'gitea',
   'webdav',
   'customApi',
+  's3',
   'browserExtension',
 ])
 
+// Service types of Git hosting services, which authenticate with a token
+const gitRepositoryTypes = new Set(['github', 'gitlab', 'gitea'])
+
 function isValidType(type: string | undefined): boolean {
   return validTypes.has(type!)
 }
@@ -95,11 +123,34 @@ function loadSyncSettings(): SyncSettings {
 export const syncConfigStore: Writable<SyncSettings> =
   writable<SyncSettings>(loadSyncSettings())
 
+/**
+ * Prepares the sync settings before they are saved to localStorage.
+ * @param settings - The sync settings in the store.
+ * @returns The sync settings to save.
+ */
+export type SyncSettingsSaveHandler = (settings: SyncSettings) => SyncSettings
+
+// E.g., removes the credentials that the credential vault stores encrypted
+let saveHandler: SyncSettingsSaveHandler | undefined
+
+/**
+ * Sets the function that prepares the sync settings before they are saved to localStorage.
+ * @param handler - The save handler, or undefined to save the settings as they are.
+ */
+export function setSyncSettingsSaveHandler(
+  handler: SyncSettingsSaveHandler | undefined
+): void {
+  saveHandler = handler
+}
+
 // Subscribe to changes and save to localStorage
 if (typeof localStorage !== 'undefined') {
   syncConfigStore.subscribe((value) => {
     try {
-      localStorage.setItem(STORAGE_KEY_SYNC_SETTINGS, JSON.stringify(value))
+      localStorage.setItem(
+        STORAGE_KEY_SYNC_SETTINGS,
+        JSON.stringify(saveHandler ? saveHandler(value) : value)
+      )
     } catch (error) {
       console.error('Error saving sync settings to localStorage:', error)
     }
@@ -133,9 +184,7 @@ export async function discoverBrowserExtensionTargets(): Promise<void> {
   const adapter = new BrowserExtensionSyncAdapter()
 
   adapter.on('targetFound', (event: Event) => {
-    const target = (
-      event as CustomEvent<{ extensionId: string; extensionName?: string }>
-    ).detail
+    const target = (event as CustomEvent<BrowserExtensionTarget>).detail
 
     if (!target || !target.extensionId) {
       return
@@ -164,6 +213,7 @@ export async function discoverBrowserExtensionTargets(): Promise<void> {
       target: {
         extensionId: target.extensionId,
         extensionName: target.extensionName,
+        ...(target.nativeBookmarks && { nativeBookmarks: true }),
       },
       scope: 'all',
       enabled: false,
@@ -255,7 +305,7 @@ function validateSyncServiceConfig(config: SyncServiceConfig): void {
   // Validate credentials
   if (
     !config.credentials ||
-    (config.type === 'github' && !config.credentials.token) ||
+    (gitRepositoryTypes.has(config.type) && !config.credentials.token) ||
     (config.type === 'webdav' &&
       (!config.credentials.username || !config.credentials.password)) ||
     (config.type === 'customApi' &&
@@ -265,19 +315,86 @@ function validateSyncServiceConfig(config: SyncServiceConfig): void {
     throw new Error('Invalid credentials')
   }
 
-  // Validate target based on service type
-  if (config.type === 'github') {
-    const target = config.target as GithubTarget
-    if (!target.repo) {
-      throw new Error('Invalid repository path')
+  validateSyncServiceTarget(config)
+}
+
+/**
+ * Validates the target of a sync service configuration based on its service type.
+ * @param config - The sync service configuration to validate.
+ * @throws {Error} When the target is invalid.
+ */
+function validateSyncServiceTarget(config: SyncServiceConfig): void {
+  switch (config.type) {
+    case 'github':
+    case 'gitlab':
+    case 'gitea': {
+      validateGitRepositoryTarget(config)
+      break
     }
-  } else if (config.type === 'webdav' || config.type === 'customApi') {
-    const target = config.target as WebDAVTarget | ApiTarget
-    if (!target.url || !target.url.startsWith('http')) {
-      throw new Error(
-        `Invalid ${config.type === 'webdav' ? 'WebDAV' : 'API'} URL format`
-      )
+
+    case 'webdav':
+    case 'customApi': {
+      const target = config.target as WebDAVTarget | ApiTarget
+      if (!target.url || !target.url.startsWith('http')) {
+        throw new Error(
+          `Invalid ${config.type === 'webdav' ? 'WebDAV' : 'API'} URL format`
+        )
+      }
+
+      break
+    }
+
+    case 's3': {
+      validateS3Config(config)
+      break
     }
+
+    default: {
+      break
+    }
+  }
+}
+
+/**
+ * Validates the target of a GitHub, GitLab or Gitea sync service configuration.
+ * The base URL is required for Gitea, and defaults to gitlab.com for GitLab.
+ * @param config - The sync service configuration to validate.
+ * @throws {Error} When the target is invalid.
+ */
+function validateGitRepositoryTarget(config: SyncServiceConfig): void {
+  const target = config.target as GithubTarget & { url?: string }
+  if (!target.repo) {
+    throw new Error('Invalid repository path')
+  }
+
+  if (
+    (config.type === 'gitea' && !target.url) ||
+    (target.url && !target.url.startsWith('http'))
+  ) {
+    throw new Error(
+      `Invalid ${config.type === 'gitea' ? 'Gitea' : 'GitLab'} URL format`
+    )
+  }
+}
+
+/**
+ * Validates the credentials and target of an S3 sync service configuration.
+ * @param config - The S3 sync service configuration to validate.
+ * @throws {Error} When the configuration is invalid.
+ */
+function validateS3Config(
+  config: SyncServiceConfig<S3Credentials, S3Target>
+): void {
+  if (!config.credentials.accessKeyId || !config.credentials.secretAccessKey) {
+    throw new Error('Invalid credentials')
+  }
+
+  if (!config.target.bucket) {
+    throw new Error('Invalid S3 bucket name')
+  }
+
+  if (config.target.endpoint && !config.target.endpoint.startsWith('http')) {
+    throw new Error('Invalid S3 endpoint URL format')
   }
 }
 
@@ -302,6 +419,51 @@ export function addSyncService(config: SyncServiceConfig): void {
   })
 }
 
+/**
+ * Checks whether the target of a sync service changed, so the remote data may differ
+ * from the data of the last sync.
+ * @param service - The current sync service configuration.
+ * @param updatedConfig - The updated sync service configuration of the same type.
+ * @returns Whether the target changed.
+ */
+function hasSyncTargetChanged(
+  service: SyncServiceConfig,
+  updatedConfig: SyncServiceConfig
+): boolean {
+  switch (service.type) {
+    case 'github':
+    case 'gitlab':
+    case 'gitea': {
+      return (
+        service.target.url !== updatedConfig.target.url ||
+        service.target.repo !== updatedConfig.target.repo ||
+        service.target.branch !== updatedConfig.target.branch ||
+        service.target.path !== updatedConfig.target.path
+      )
+    }
+
+    case 'webdav':
+    case 'customApi': {
+      return (
+        service.target.url !== updatedConfig.target.url ||
+        service.target.path !== updatedConfig.target.path
+      )
+    }
+
+    case 's3': {
+      return (
+        service.target.endpoint !== updatedConfig.target.endpoint ||
+        service.target.bucket !== updatedConfig.target.bucket ||
+        service.target.path !== updatedConfig.target.path
+      )
+    }
+
+    default: {
+      return false
+    }
+  }
+}
+
 /**
  * Updates an existing sync service configuration.
  *
@@ -336,17 +498,7 @@ export function updateSyncService(updatedConfig: SyncServiceConfig): void {
         }
 
         // Check if critical sync configuration has changed
-        const shouldResetSync =
-          (service.type === 'github' &&
-            (service.target.repo !== updatedConfig.target.repo ||
-              service.target.branch !== updatedConfig.target.branch ||
-              service.target.path !== updatedConfig.target.path)) ||
-          (service.type === 'webdav' &&
-            (service.target.url !== updatedConfig.target.url ||
-              service.target.path !== updatedConfig.target.path)) ||
-          (service.type === 'customApi' &&
-            (service.target.url !== updatedConfig.target.url ||
-              service.target.path !== updatedConfig.target.path))
+        const shouldResetSync = hasSyncTargetChanged(service, updatedConfig)
 
         // Reset sync metadata if critical configuration changed
         return shouldResetSync
@@ -356,6 +508,9 @@ export function updateSyncService(updatedConfig: SyncServiceConfig): void {
               lastDataChangeTimestamp: undefined,
               lastSyncLocalDataHash: undefined,
               lastSyncMeta: undefined,
+              lastSyncResult: undefined,
+              lastSyncError: undefined,
+              lastSyncAttemptTimestamp: undefined,
             }
           : updatedConfig
       }),
@@ -379,6 +534,7 @@ export function removeSyncService(serviceId: string): void {
         ? undefined
         : settings.activeSyncServiceId,
   }))
+  void clearSyncBase(serviceId)
 }
 
 /**
@@ -407,6 +563,53 @@ export function setActiveSyncService(serviceId: string | undefined): void {
   })
 }
 
+/**
+ * Sets the number of days deleted bookmarks are kept before they are purged on sync.
+ * @param days - The retention period in days. 0 keeps them forever.
+ */
+export function setTombstoneRetentionDays(days: number): void {
+  syncConfigStore.update((settings) => ({
+    ...settings,
+    tombstoneRetentionDays: Number.isFinite(days) && days > 0 ? days : 0,
+  }))
+}
+
+/**
+ * Gets the limits above which syncs and imports that delete or overwrite bookmarks need confirmation.
+ * @param settings - The sync settings object.
+ * @returns The configured threshold, or the default threshold.
+ */
+export function getMassDeletionThreshold(
+  settings: SyncSettings
+): MassDeletionThreshold {
+  return settings.massDeletionThreshold || defaultMassDeletionThreshold
+}
+
+/**
+ * Sets the limits above which syncs and imports that delete or overwrite bookmarks need confirmation.
+ * @param threshold - The limits to change. Invalid or negative values disable the limit.
+ */
+export function setMassDeletionThreshold(
+  threshold: Partial<MassDeletionThreshold>
+): void {
+  syncConfigStore.update((settings) => {
+    const { count, percentage } = {
+      ...getMassDeletionThreshold(settings),
+      ...threshold,
+    }
+    return {
+      ...settings,
+      massDeletionThreshold: {
+        count: Number.isFinite(count) && count > 0 ? Math.floor(count) : 0,
+        percentage:
+          Number.isFinite(percentage) && percentage > 0
+            ? Math.min(percentage, 100)
+            : 0,
+      },
+    }
+  })
+}
+
 /**
  * Gets a specific sync service configuration by its ID.
  * @param settings - The sync settings object.
@@ -419,3 +622,27 @@ export function getSyncServiceById(
 ): SyncServiceConfig | undefined {
   return settings.syncServices.find((service) => service.id === serviceId)
 }
+
+/**
+ * Gets the enabled sync services in the order they are synchronized.
+ * The active service is the primary service and comes first, followed by the other services in their configured order,
+ * so backup services receive the changes pulled from the primary service in the same sync cycle.
+ * @param settings - The sync settings object.
+ * @returns The enabled sync service configurations.
+ */
+export function getSyncServicesInSyncOrder(
+  settings: SyncSettings
+): SyncServiceConfig[] {
+  const enabledServices = settings.syncServices.filter(
+    (service) => service.enabled
+  )
+  const primaryService = enabledServices.find(
+    (service) => service.id === settings.activeSyncServiceId
+  )
+  return primaryService
+    ? [
+        primaryService,
+        ...enabledServices.filter((service) => service !== primaryService),
+      ]
+    : enabledServices
+}
@@ -13,7 +13,11 @@ import {
 import { get, writable } from 'svelte/store' // Import writable
 import { mockLocalStorage } from '../utils/test/mock-local-storage.js'
 import { emptyFunction } from '../utils/test/empty-function.js'
-import { syncConfigStore } from '../stores/sync-config-store.js'
+import {
+  syncConfigStore,
+  type getSyncServicesInSyncOrder as getSyncServicesInSyncOrderType,
+} from '../stores/sync-config-store.js'
+import { credentialVaultStatus } from '../stores/credential-vault-store.js'
 import { bookmarkStorage } from '../lib/bookmark-storage.js'
 import {
   initAutoSyncScheduler,
@@ -41,14 +45,21 @@ Object.defineProperty(document, 'visibilityState', {
 })
 
 // Mock dependencies
-vi.mock('../stores/sync-config-store.js', () => ({
-  // Mock syncConfigStore as a writable store
-  syncConfigStore: writable({
-    syncServices: [],
-    activeSyncServiceId: undefined,
-    // Add other default settings properties if necessary
-  }),
-}))
+vi.mock('../stores/sync-config-store.js', async (importOriginal) => {
+  const { getSyncServicesInSyncOrder } = await importOriginal<{
+    getSyncServicesInSyncOrder: typeof getSyncServicesInSyncOrderType
+  }>()
+  return {
+    // Mock syncConfigStore as a writable store
+    syncConfigStore: writable({
+      syncServices: [],
+      activeSyncServiceId: undefined,
+      // Add other default settings properties if necessary
+    }),
+    getSyncServicesInSyncOrder,
+    setSyncSettingsSaveHandler: vi.fn(),
+  }
+})
 
 vi.mock('../lib/bookmark-storage.js', () => ({
   bookmarkStorage: {
@@ -65,6 +76,8 @@ vi.mock('./sync-queue.js', () => ({
 
 const mockSyncManagerInstance = {
   synchronize: vi.fn(),
+  on: vi.fn(() => emptyFunction),
+  watchRemoteDataChanges: vi.fn(async () => undefined),
   // Ensure other necessary methods are mocked if auto-sync-scheduler interacts with them
 } as unknown as SyncManager
 
@@ -360,6 +373,31 @@ describe('AutoSyncScheduler', () => {
       )
     })
 
+    it('should schedule the active service before the other services', async () => {
+      const service = {
+        type: 'customApi',
+        enabled: true,
+        autoSyncEnabled: true,
+        autoSyncInterval: 15,
+        lastSyncTimestamp: Date.now() - 20 * 60 * 1000, // Synced 20 mins ago
+        autoSyncOnChanges: false,
+      } as SyncServiceConfig
+      syncConfigStore.set({
+        syncServices: [
+          { ...service, id: 'backup' },
+          { ...service, id: 'primary' },
+        ],
+        activeSyncServiceId: 'primary',
+      })
+      ;(bookmarkStorage.getBookmarksStore as Mock).mockResolvedValue({
+        meta: { updated: Date.now() - 5 * 60 * 1000 },
+      })
+      await triggerCheckAndScheduleDirectlyAfterInit()
+      expect(
+        vi.mocked(addToSyncQueue).mock.calls.map(([task]) => task.serviceId)
+      ).toEqual(['primary', 'backup'])
+    })
+
     it('should schedule sync if autoSyncOnChanges condition is met and autoSyncEnabled is true', async () => {
       const twentyMinutesAgo = Date.now() - 20 * 60 * 1000
       const tenMinutesAgo = Date.now() - 10 * 60 * 1000
@@ -1077,5 +1115,253 @@ describe('AutoSyncScheduler', () => {
       // Should NOT trigger sync because autoSyncEnabled is false
       expect(addToSyncQueue).not.toHaveBeenCalled()
     })
+
+    it('should trigger immediate sync when the target pushes a data change', async () => {
+      syncConfigStore.set({
+        syncServices: [
+          {
+            id: 'browserExt1',
+            type: 'browserExtension',
+            enabled: true,
+            autoSyncEnabled: true,
+            autoSyncInterval: 60,
+            lastSyncTimestamp: Date.now() - 5 * 60 * 1000, // Synced just 5 mins ago
+          } as SyncServiceConfig,
+          {
+            id: 'browserExt2',
+            type: 'browserExtension',
+            enabled: true,
+            autoSyncEnabled: false,
+          } as SyncServiceConfig,
+        ],
+        activeSyncServiceId: 'browserExt1',
+      })
+
+      simulateLockAcquisitionByCurrentInstance()
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(mockSyncManagerInstance.on).toHaveBeenCalledWith(
+        'remoteDataChanged',
+        expect.any(Function)
+      )
+      expect(mockSyncManagerInstance.watchRemoteDataChanges).toHaveBeenCalled()
+      const handleRemoteDataChanged = (mockSyncManagerInstance.on as Mock).mock
+        .calls[0][1] as (payload: { serviceId: string }) => void
+      vi.clearAllMocks()
+
+      handleRemoteDataChanged({ serviceId: 'browserExt1' })
+      handleRemoteDataChanged({ serviceId: 'browserExt2' })
+
+      expect(addToSyncQueue).toHaveBeenCalledTimes(1)
+      expect(addToSyncQueue).toHaveBeenCalledWith(
+        { serviceId: 'browserExt1' },
+        mockSyncManagerInstance
+      )
+    })
+
+    it('should ignore data changes without taking the lock from another tab', async () => {
+      syncConfigStore.set({
+        syncServices: [
+          {
+            id: 'browserExt1',
+            type: 'browserExtension',
+            enabled: true,
+            autoSyncEnabled: true,
+          } as SyncServiceConfig,
+        ],
+        activeSyncServiceId: 'browserExt1',
+      })
+
+      simulateLockHeldByAnotherInstance()
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+      const handleRemoteDataChanged = (mockSyncManagerInstance.on as Mock).mock
+        .calls[0][1] as (payload: { serviceId: string }) => void
+      // Let the lock of the other tab expire
+      localStorageMock.setItem(
+        'utags_auto_sync_lock_heartbeat',
+        String(Date.now() - 60 * 1000)
+      )
+
+      handleRemoteDataChanged({ serviceId: 'browserExt1' })
+
+      expect(addToSyncQueue).not.toHaveBeenCalled()
+      expect(localStorageMock.getItem('utags_auto_sync_lock_owner')).toBe(
+        'another_tab_id'
+      )
+    })
+  })
+
+  describe('Web Locks leader election', () => {
+    let holder: 'this' | 'other' | undefined
+    let waiting: Array<() => void>
+
+    // Grants the lock to the next waiting request once it is free
+    const grantNext = () => {
+      if (!holder) {
+        waiting.shift()?.()
+      }
+    }
+
+    const releaseOtherTab = () => {
+      holder = undefined
+      grantNext()
+    }
+
+    const requestByOtherTab = () => {
+      waiting.push(() => {
+        holder = 'other'
+      })
+      grantNext()
+    }
+
+    const locks = {
+      request: vi.fn(
+        async (
+          _name: string,
+          options: { signal?: AbortSignal },
+          callback: () => Promise<void>
+        ) =>
+          new Promise<void>((resolve, reject) => {
+            const grant = () => {
+              holder = 'this'
+              void callback().then(() => {
+                holder = undefined
+                resolve()
+                grantNext()
+              })
+            }
+
+            waiting.push(grant)
+            options.signal?.addEventListener('abort', () => {
+              if (waiting.includes(grant)) {
+                waiting.splice(waiting.indexOf(grant), 1)
+                reject(new DOMException('Aborted', 'AbortError'))
+              }
+            })
+            grantNext()
+          })
+      ),
+    }
+
+    beforeEach(() => {
+      holder = undefined
+      waiting = []
+      Object.defineProperty(navigator, 'locks', {
+        value: locks,
+        configurable: true,
+      })
+    })
+
+    afterEach(() => {
+      stopAutoSyncScheduler()
+      Reflect.deleteProperty(navigator, 'locks')
+      credentialVaultStatus.set('disabled')
+    })
+
+    it('should become the leader and check for sync tasks without localStorage keys', async () => {
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(true)
+      expect(holder).toBe('this')
+      expect(addToSyncQueue).toHaveBeenCalledWith(
+        { serviceId: 'service1' },
+        mockSyncManagerInstance
+      )
+      expect(localStorageMock.setItem).not.toHaveBeenCalledWith(
+        'utags_auto_sync_lock_owner',
+        expect.any(String)
+      )
+    })
+
+    it('should wait until the leader tab releases the lock', async () => {
+      holder = 'other'
+
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(10 * 1000)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(false)
+      expect(addToSyncQueue).not.toHaveBeenCalled()
+      // The pending request is not repeated by the interval checks
+      expect(locks.request).toHaveBeenCalledTimes(1)
+
+      releaseOtherTab()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(true)
+      expect(addToSyncQueue).toHaveBeenCalled()
+    })
+
+    it('should let a waiting tab take over when the lock is released', async () => {
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+      requestByOtherTab()
+
+      releaseAutoSyncSchedulerLock()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(false)
+      expect(holder).toBe('other')
+
+      // This tab queued again and becomes the leader after the other tab
+      releaseOtherTab()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(isAutoSyncSchedulerLockOwner()).toBe(true)
+    })
+
+    it('should give up the leadership while the credential vault is locked', async () => {
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+      requestByOtherTab()
+      vi.mocked(addToSyncQueue).mockClear()
+
+      credentialVaultStatus.set('locked')
+      await vi.advanceTimersByTimeAsync(10 * 1000)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(false)
+      expect(holder).toBe('other')
+      expect(addToSyncQueue).not.toHaveBeenCalled()
+      // The locked tab does not queue for the lock again
+      expect(locks.request).toHaveBeenCalledTimes(1)
+    })
+
+    it('should only request the lock once the credential vault is unlocked', async () => {
+      credentialVaultStatus.set('locked')
+
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(10 * 1000)
+
+      expect(locks.request).not.toHaveBeenCalled()
+      expect(addToSyncQueue).not.toHaveBeenCalled()
+
+      credentialVaultStatus.set('unlocked')
+      await vi.advanceTimersByTimeAsync(20 * 1000)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(true)
+      expect(addToSyncQueue).toHaveBeenCalledWith(
+        { serviceId: 'service1' },
+        mockSyncManagerInstance
+      )
+    })
+
+    it('should release the lock and cancel pending requests when stopped', async () => {
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      await vi.advanceTimersByTimeAsync(0)
+
+      stopAutoSyncScheduler()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(isAutoSyncSchedulerLockOwner()).toBe(false)
+      expect(holder).toBeUndefined()
+
+      holder = 'other'
+      initAutoSyncScheduler(mockSyncManagerInstance)
+      stopAutoSyncScheduler()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(waiting).toEqual([])
+    })
   })
 })
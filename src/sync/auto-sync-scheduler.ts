@@ -1,8 +1,10 @@
 import { get } from 'svelte/store'
 import {
   syncConfigStore,
+  getSyncServicesInSyncOrder,
   type SyncSettings,
 } from '../stores/sync-config-store.js'
+import { isCredentialVaultLocked } from '../stores/credential-vault-store.js'
 import { bookmarkStorage } from '../lib/bookmark-storage.js'
 import { addToSyncQueue, isQueueProcessing } from './sync-queue.js'
 import type { SyncManager } from './sync-manager.js'
@@ -15,6 +17,9 @@ const LOCK_KEY = 'utags_auto_sync_lock_owner'
 const LOCK_HEARTBEAT_KEY = 'utags_auto_sync_lock_heartbeat'
 // eslint-disable-next-line @typescript-eslint/naming-convention
 const LOCK_TIMEOUT = 30 * 1000 // 30 seconds for lock timeout
+// Name of the Web Locks lock held by the leader tab
+// eslint-disable-next-line @typescript-eslint/naming-convention
+const LEADER_LOCK_NAME = 'utags_auto_sync_leader'
 // eslint-disable-next-line @typescript-eslint/naming-convention
 const SYNC_COMPLETION_BUFFER_MS = 3000
 
@@ -22,9 +27,18 @@ let intervalId: number | undefined
 const currentTabId = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 15)}`
 let lockHeartbeatIntervalId: number | undefined
 
+// Web Locks leader election state. The browser releases the lock when the tab
+// is closed or crashes, so no heartbeat is needed.
+let isLeader = false
+let releaseLeaderLock: (() => void) | undefined
+let leaderLockRequest: AbortController | undefined
+
 // Flag to track if event listeners are already bound
 let isEventListenersBound = false
 
+// Removes the listener for data change notifications pushed by sync targets
+let unsubscribeRemoteDataChanged: (() => void) | undefined
+
 // Handler for beforeunload event
 const handleBeforeUnload = () => {
   console.log(
@@ -76,10 +90,75 @@ const initVisibilityChangeHandler = (syncManager: SyncManager) => {
 }
 
 /**
- * Checks if the current tab holds the synchronization lock by inspecting localStorage.
+ * Checks if the Web Locks API is available for the leader election.
+ * @returns {boolean} True if `navigator.locks` can be used.
+ */
+function isWebLocksSupported(): boolean {
+  return typeof navigator !== 'undefined' && navigator.locks !== undefined
+}
+
+/**
+ * Requests the leader lock with the Web Locks API, unless this tab holds or already requested it,
+ * or its credential vault is locked.
+ * The request waits until the lock is free. The lock is then held until `releaseLeaderLock` is called.
+ * @param {() => void} [onLeader] - Called when this tab becomes the leader.
+ */
+function requestLeaderLock(onLeader?: () => void): void {
+  if (isLeader || leaderLockRequest || isCredentialVaultLocked()) {
+    return
+  }
+
+  const controller = new AbortController()
+  leaderLockRequest = controller
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { signal: controller.signal }, async () => {
+      leaderLockRequest = undefined
+      isLeader = true
+      console.log(`[AutoSyncScheduler] Tab ${currentTabId} became the leader.`)
+      onLeader?.()
+      await new Promise<void>((resolve) => {
+        releaseLeaderLock = resolve
+      })
+    })
+    .catch((error: unknown) => {
+      if (leaderLockRequest === controller) {
+        leaderLockRequest = undefined
+      }
+
+      if ((error as Error).name !== 'AbortError') {
+        console.error(
+          '[AutoSyncScheduler] Error requesting leader lock:',
+          error
+        )
+      }
+    })
+}
+
+/**
+ * Gives up the leader lock and cancels a pending request for it.
+ */
+function stopLeaderElection(): void {
+  leaderLockRequest?.abort()
+  leaderLockRequest = undefined
+  if (isLeader) {
+    isLeader = false
+    console.log(`[AutoSyncScheduler] Tab ${currentTabId} released lock.`)
+  }
+
+  releaseLeaderLock?.()
+  releaseLeaderLock = undefined
+}
+
+/**
+ * Checks if the current tab holds the synchronization lock.
+ * Uses the Web Locks leader election if available, otherwise inspects localStorage.
  * @returns {boolean} True if the current tab owns the lock, false otherwise.
  */
 function checkHasLock(): boolean {
+  if (isWebLocksSupported()) {
+    return isLeader
+  }
+
   try {
     // Check if localStorage is available (e.g., not in a private browsing session that blocks it)
     if (typeof localStorage === 'undefined') {
@@ -95,11 +174,23 @@ function checkHasLock(): boolean {
 }
 
 /**
- * Attempts to acquire the synchronization lock using localStorage.
- * Includes a basic timeout and heartbeat mechanism.
+ * Attempts to acquire the synchronization lock.
+ * With the Web Locks API, the tab queues for the leader lock. Without it, localStorage
+ * is used with a basic timeout and heartbeat mechanism.
+ * A tab whose credential vault is locked cannot sync, so it does not compete for the lock.
  * @returns {boolean} True if the lock was acquired, false otherwise.
  */
 function acquireLock(): boolean {
+  if (isCredentialVaultLocked()) {
+    return false
+  }
+
+  if (isWebLocksSupported()) {
+    // The lock is granted asynchronously, so a later check picks it up
+    requestLeaderLock()
+    return isLeader
+  }
+
   try {
     if (typeof localStorage === 'undefined') {
       // console.warn('[AutoSyncScheduler] localStorage is not available for acquiring lock.');
@@ -150,8 +241,19 @@ function acquireLock(): boolean {
 
 /**
  * Releases the synchronization lock and clears the heartbeat interval.
+ * With the Web Locks API, the tab queues for the leader lock again while the scheduler runs.
  */
 function releaseLock(): void {
+  if (isWebLocksSupported()) {
+    stopLeaderElection()
+    // Queue again while the scheduler runs, so another waiting tab takes over first
+    if (intervalId) {
+      requestLeaderLock()
+    }
+
+    return
+  }
+
   try {
     if (typeof localStorage === 'undefined') {
       // console.warn('[AutoSyncScheduler] localStorage is not available for releasing lock.');
@@ -175,6 +277,39 @@ function releaseLock(): void {
   }
 }
 
+/**
+ * Gives up the lock while the credential vault of this tab is locked, so an unlocked tab takes over.
+ * The vault is unlocked per tab, and a locked tab would only fail its syncs.
+ * @returns {boolean} True if the vault is locked.
+ */
+function yieldLockWhileVaultLocked(): boolean {
+  if (!isCredentialVaultLocked()) {
+    return false
+  }
+
+  if (isWebLocksSupported()) {
+    // Unlike `releaseLock`, do not queue for the leader lock again
+    stopLeaderElection()
+  } else if (checkHasLock()) {
+    releaseLock()
+  }
+
+  return true
+}
+
+/**
+ * Ensures that this tab holds the auto-sync lock, acquiring it if it is not held.
+ * A tab whose credentials are locked gives up the lock instead.
+ * @returns {boolean} True if this tab holds the lock, false otherwise.
+ */
+function ensureLock(): boolean {
+  if (yieldLockWhileVaultLocked()) {
+    return false
+  }
+
+  return checkHasLock() || acquireLock()
+}
+
 /**
  * Checks sync services based on their configuration and adds them to the sync queue if necessary.
  * This function will only proceed if the current tab holds the auto-sync lock.
@@ -187,7 +322,7 @@ async function checkAndScheduleSync(
 ): Promise<void> {
   // Ensure this tab holds the lock before proceeding.
   // Attempt to acquire if not held, but don't proceed if acquisition fails.
-  if (!checkHasLock() && !acquireLock()) {
+  if (!ensureLock()) {
     console.log(
       `[AutoSyncScheduler] Tab ${currentTabId} does not have lock, skipping sync check.`
     )
@@ -214,7 +349,9 @@ async function checkAndScheduleSync(
     const lastBookmarksUpdateTime = bookmarksStore.meta.updated || 0
     const currentTime = Date.now()
 
-    for (const config of currentSettings.syncServices) {
+    // Services are queued with the active service first, so backup services
+    // receive the changes pulled from the primary service in the same cycle
+    for (const config of getSyncServicesInSyncOrder(currentSettings)) {
       if (!config.id || !config.enabled || !config.autoSyncEnabled) {
         // console.log(`[AutoSyncScheduler] Service ${config.id || 'Unknown'} is disabled, auto sync disabled, or invalid, skipping.`);
         continue
@@ -318,6 +455,39 @@ async function checkAndScheduleSync(
   }
 }
 
+/**
+ * Adds a service to the sync queue immediately when its target pushes a notification that its data changed,
+ * e.g., when the browser extension received data from another client.
+ * This function will only proceed if the current tab holds the auto-sync lock.
+ * @param {SyncManager} syncManagerInstance - An instance of SyncManager to pass to addToSyncQueue.
+ * @param {string} serviceId - The ID of the service whose remote data changed.
+ */
+function handleRemoteDataChanged(
+  syncManagerInstance: SyncManager,
+  serviceId: string
+): void {
+  // Only the tab holding the lock syncs. Taking the lock is left to the regular checks,
+  // as every tab receives the notification.
+  if (!checkHasLock() || yieldLockWhileVaultLocked()) {
+    console.log(
+      `[AutoSyncScheduler] Tab ${currentTabId} does not have lock, ignoring data change of service ${serviceId}.`
+    )
+    return
+  }
+
+  const config = get(syncConfigStore).syncServices.find(
+    (service) => service.id === serviceId
+  )
+  if (!config?.enabled || !config.autoSyncEnabled) {
+    return
+  }
+
+  console.log(
+    `[AutoSyncScheduler] Remote data of service ${serviceId} changed, syncing immediately.`
+  )
+  addToSyncQueue({ serviceId }, syncManagerInstance)
+}
+
 /**
  * Initializes the auto-sync scheduler.
  * Sets up intervals for checking sync tasks and manages the synchronization lock.
@@ -340,7 +510,13 @@ export function initAutoSyncScheduler(syncManagerInstance: SyncManager): void {
   console.log(`[AutoSyncScheduler] Initializing for tab ${currentTabId}...`)
 
   // Attempt to acquire lock immediately if not already held by this tab.
-  if (!checkHasLock()) {
+  if (isWebLocksSupported()) {
+    // The lock is granted asynchronously, so check for sync tasks once this tab is elected
+    requestLeaderLock(() => {
+      // eslint-disable-next-line @typescript-eslint/no-floating-promises
+      checkAndScheduleSync(syncManagerInstance)
+    })
+  } else if (!checkHasLock()) {
     acquireLock()
   }
 
@@ -365,6 +541,15 @@ export function initAutoSyncScheduler(syncManagerInstance: SyncManager): void {
     initVisibilityChangeHandler(syncManagerInstance)
     window.addEventListener('beforeunload', handleBeforeUnload)
     document.addEventListener('visibilitychange', handleVisibilityChange)
+    unsubscribeRemoteDataChanged = syncManagerInstance.on(
+      'remoteDataChanged',
+      ({ serviceId }) => {
+        handleRemoteDataChanged(syncManagerInstance, serviceId)
+      }
+    )
+    // The notifications are only received once the adapters are created
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    syncManagerInstance.watchRemoteDataChanges()
     isEventListenersBound = true
   }
 }
@@ -379,8 +564,10 @@ export function stopAutoSyncScheduler(): void {
     intervalId = undefined
   }
 
-  // releaseLock handles clearing lockHeartbeatIntervalId and removing localStorage items if lock is held.
-  if (checkHasLock()) {
+  if (isWebLocksSupported()) {
+    stopLeaderElection()
+  } else if (checkHasLock()) {
+    // releaseLock handles clearing lockHeartbeatIntervalId and removing localStorage items if lock is held.
     releaseLock()
   }
 
@@ -394,6 +581,8 @@ export function stopAutoSyncScheduler(): void {
   // Remove event listeners
   window.removeEventListener('beforeunload', handleBeforeUnload)
   document.removeEventListener('visibilitychange', handleVisibilityChange)
+  unsubscribeRemoteDataChanged?.()
+  unsubscribeRemoteDataChanged = undefined
   isEventListenersBound = false
 
   console.log('[AutoSyncScheduler] Stopped.')
@@ -612,6 +612,42 @@ describe('BrowserExtensionSyncAdapter', () => {
     })
   })
 
+  describe('onRemoteDataChanged', () => {
+    beforeEach(async () => {
+      const initPromise = adapter.init(mockConfig)
+      await vi.waitFor(() => {
+        expect(mockPostMessage).toHaveBeenCalled()
+      })
+      simulateExtensionResponse(getSentMessage().id, { status: 'PONG' })
+      await initPromise
+    })
+
+    it('should call the listener when the target pushes DATA_CHANGED', () => {
+      const listener = vi.fn()
+      adapter.onRemoteDataChanged(listener)
+
+      simulateExtensionResponse('push-id', { type: 'DATA_CHANGED' })
+
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+
+    it('should ignore DATA_CHANGED from other extensions and after destroy', () => {
+      const listener = vi.fn()
+      adapter.onRemoteDataChanged(listener)
+
+      simulateExtensionResponse(
+        'push-id',
+        { type: 'DATA_CHANGED' },
+        undefined,
+        'wrong-extension-id'
+      )
+      adapter.destroy()
+      simulateExtensionResponse('push-id', { type: 'DATA_CHANGED' })
+
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
   describe('destroy', () => {
     it('should remove event listener and clear outstanding requests', async () => {
       // Initialize and make a request that will be outstanding
@@ -21,6 +21,7 @@ const GET_REMOTE_METADATA_MESSAGE_TYPE = 'GET_REMOTE_METADATA'
 const DOWNLOAD_MESSAGE_TYPE = 'DOWNLOAD_DATA'
 const UPLOAD_MESSAGE_TYPE = 'UPLOAD_DATA'
 const GET_AUTH_STATUS_MESSAGE_TYPE = 'GET_AUTH_STATUS'
+const DATA_CHANGED_MESSAGE_TYPE = 'DATA_CHANGED'
 /* eslint-enable @typescript-eslint/naming-convention */
 
 /**
@@ -115,6 +116,7 @@ export type BrowserExtensionResponse<R = unknown> = Message<R> & {
 export class BrowserExtensionSyncAdapter
   implements SyncAdapter<BrowserExtensionCredentials, BrowserExtensionTarget>
 {
+  protected initialized = false
   private readonly eventTarget = new EventTarget()
   private config!: SyncServiceConfig<
     BrowserExtensionCredentials,
@@ -122,14 +124,13 @@ export class BrowserExtensionSyncAdapter
   >
 
   private targetExtensionId: string | undefined // Default, should be set in init
-  private initialized = false
   private listenerAttached = false
   private discovering = false
   private readonly listeners: Array<
     [string, EventListenerOrEventListenerObject]
   > = []
 
-  private readonly discoveredTargets = new Map<string, Record<string, string>>()
+  private readonly discoveredTargets = new Map<string, BrowserExtensionTarget>()
   private readonly outstandingRequests = new Map<
     string,
     {
@@ -323,6 +324,7 @@ export class BrowserExtensionSyncAdapter
    *
    * Event Types:
    * - targetFound: Emitted when discovery process completes
+   * - dataChanged: Emitted when the target pushes a notification that its data changed
    * - error: Emitted when an error occurs during communication
    *
    * Note: Listeners are tracked internally for cleanup during destroy()
@@ -350,6 +352,18 @@ export class BrowserExtensionSyncAdapter
     this.eventTarget.removeEventListener(event, listener)
   }
 
+  /**
+   * Registers a listener that is called when the target extension pushes a notification that its data changed.
+   * The listener is removed when the adapter is destroyed.
+   *
+   * @param listener - The function to call when the remote data changed
+   */
+  onRemoteDataChanged(listener: () => void): void {
+    this.on('dataChanged', () => {
+      listener()
+    })
+  }
+
   /**
    * Cleans up resources used by the adapter.
    *
@@ -614,23 +628,6 @@ export class BrowserExtensionSyncAdapter
     }
   }
 
-  private _isValidAuthStatusResponse(
-    response: any
-  ): response is { status: AuthStatus } {
-    if (!response || typeof response.status !== 'string') {
-      return false
-    }
-
-    const validStatuses: AuthStatus[] = [
-      'authenticated',
-      'unauthenticated',
-      'error',
-      'requires_config',
-      'unknown',
-    ]
-    return validStatuses.includes(response.status as AuthStatus)
-  }
-
   /**
    * Sends a message to the target browser extension via window.postMessage.
    *
@@ -655,7 +652,7 @@ export class BrowserExtensionSyncAdapter
    * @returns A promise that resolves with the response from the extension.
    * @throws {Error} When browser environment is unavailable, message sending fails, or timeout occurs.
    */
-  private async sendMessageToExtension<T, R>(
+  protected async sendMessageToExtension<T, R>(
     messageData: {
       type: MessageType
       payload?: T
@@ -716,12 +713,29 @@ export class BrowserExtensionSyncAdapter
     })
   }
 
+  private _isValidAuthStatusResponse(
+    response: any
+  ): response is { status: AuthStatus } {
+    if (!response || typeof response.status !== 'string') {
+      return false
+    }
+
+    const validStatuses: AuthStatus[] = [
+      'authenticated',
+      'unauthenticated',
+      'error',
+      'requires_config',
+      'unknown',
+    ]
+    return validStatuses.includes(response.status as AuthStatus)
+  }
+
   /**
    * Handles messages received from the extension.
    *
    * Message Handling Process:
    * 1. Validates message source and structure
-   * 2. Handles discovery responses separately
+   * 2. Handles discovery responses and data change notifications separately
    * 3. Matches response to an outstanding request by ID
    * 4. Resolves or rejects the corresponding promise
    * 5. Cleans up request tracking and timeout timer
@@ -760,9 +774,34 @@ export class BrowserExtensionSyncAdapter
     }
 
     // For regular operations, ensure the response is from the configured target
-    if (response.extensionId === this.targetExtensionId) {
-      this.handleTargetResponse(response)
+    if (response.extensionId !== this.targetExtensionId) {
+      return
+    }
+
+    // Data change notifications are pushed by the target, not responses to a request
+    if (response.type === DATA_CHANGED_MESSAGE_TYPE) {
+      this.handleDataChanged(response)
+      return
     }
+
+    this.handleTargetResponse(response)
+  }
+
+  /**
+   * Handles data change notifications pushed by the configured target.
+   *
+   * @param response - The notification message from the target
+   */
+  private handleDataChanged(response: BrowserExtensionResponse<any>): void {
+    console.debug(
+      `[BrowserExtensionSyncAdapter] Data changed in ${this.targetExtensionId}:`,
+      { id: response.id }
+    )
+    this.eventTarget.dispatchEvent(
+      new CustomEvent('dataChanged', {
+        detail: response.payload as unknown,
+      })
+    )
   }
 
   /**
@@ -773,16 +812,18 @@ export class BrowserExtensionSyncAdapter
   private handleDiscoveryResponse(
     response: BrowserExtensionResponse<any>
   ): void {
-    const { extensionId, extensionName } = response.payload as {
-      extensionId: string
-      extensionName: string
-    }
+    const { extensionId, extensionName, nativeBookmarks } =
+      response.payload as BrowserExtensionTarget
     if (
       this.discovering &&
       Boolean(extensionId) &&
       !this.discoveredTargets.has(extensionId)
     ) {
-      const target = { extensionId, extensionName }
+      const target: BrowserExtensionTarget = {
+        extensionId,
+        extensionName,
+        ...(nativeBookmarks && { nativeBookmarks }),
+      }
       this.discoveredTargets.set(extensionId, target)
       console.info(
         `[BrowserExtensionSyncAdapter] Discovered potential target: ${extensionId}`,
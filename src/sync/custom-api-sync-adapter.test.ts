@@ -9,7 +9,9 @@ import {
   vi,
 } from 'vitest'
 import fetch from 'node-fetch'
+import { HttpResponse, http } from 'msw'
 import { CustomApiSyncAdapter } from './custom-api-sync-adapter.js'
+import { getRetryAfter, SyncHttpError } from './sync-retry.js'
 import type { SyncServiceConfig, ApiCredentials, ApiTarget } from './types.js'
 import { server } from './mocks/server.js' // Import the MSW server
 import { resetMockDataStore } from './mocks/handlers.js' // Import reset function
@@ -235,10 +237,114 @@ const runTestSuites = (shouldUseMockApi: boolean) => {
       })
     })
 
+    describe('delta sync', () => {
+      const meta = { databaseVersion: 3, created: 1000, updated: 2000 }
+      const bookmarkA = { tags: ['a'], meta: { created: 1000, updated: 1000 } }
+      const bookmarkB = { tags: ['b'], meta: { created: 1000, updated: 1000 } }
+
+      it('should return the cursor when uploading and downloading a bookmarks store', async () => {
+        const uploadMeta = await adapter.upload(
+          JSON.stringify({ data: { 'https://a.com': bookmarkA }, meta })
+        )
+        expect(uploadMeta.cursor).toBeTypeOf('string')
+
+        const { remoteMeta } = await adapter.download()
+        expect(remoteMeta?.cursor).toBe(uploadMeta.cursor)
+      })
+
+      it('should not return a cursor for data that is not a bookmarks store', async () => {
+        const uploadMeta = await adapter.upload(
+          JSON.stringify({ format: 'utags-encrypted', ciphertext: 'abc' })
+        )
+        expect(uploadMeta.cursor).toBeUndefined()
+      })
+
+      it('should download the changes since a cursor', async () => {
+        const { cursor } = await adapter.upload(
+          JSON.stringify({
+            data: { 'https://a.com': bookmarkA, 'https://b.com': bookmarkB },
+            meta,
+          })
+        )
+        const newMeta = { ...meta, updated: 3000 }
+        const bookmarkC = { ...bookmarkA, tags: ['c'] }
+        await adapter.upload(
+          JSON.stringify({
+            data: { 'https://a.com': bookmarkA, 'https://c.com': bookmarkC },
+            meta: newMeta,
+          })
+        )
+
+        const result = await adapter.downloadChanges(cursor!)
+        expect(result?.changes).toEqual({
+          changed: { 'https://c.com': bookmarkC },
+          deleted: ['https://b.com'],
+          meta: newMeta,
+        })
+        expect(result?.remoteMeta.cursor).toBeTypeOf('string')
+        expect(result?.remoteMeta.cursor).not.toBe(cursor)
+      })
+
+      it('should return undefined for an unknown cursor', async () => {
+        await adapter.upload(
+          JSON.stringify({ data: { 'https://a.com': bookmarkA }, meta })
+        )
+
+        await expect(
+          adapter.downloadChanges('unknown-cursor')
+        ).resolves.toBeUndefined()
+      })
+
+      it('should upload changes based on the current cursor', async () => {
+        const { cursor } = await adapter.upload(
+          JSON.stringify({ data: { 'https://a.com': bookmarkA }, meta })
+        )
+
+        const newMeta = await adapter.uploadChanges(
+          {
+            changed: { 'https://b.com': bookmarkB },
+            deleted: ['https://a.com'],
+            meta,
+          },
+          cursor!
+        )
+        expect(newMeta.cursor).toBeTypeOf('string')
+        expect(newMeta.cursor).not.toBe(cursor)
+
+        const { data, remoteMeta } = await adapter.download()
+        expect(JSON.parse(data!)).toEqual({
+          data: { 'https://b.com': bookmarkB },
+          meta,
+        })
+        expect(remoteMeta?.cursor).toBe(newMeta.cursor)
+      })
+
+      it('should reject changes based on an outdated cursor', async () => {
+        const { cursor } = await adapter.upload(
+          JSON.stringify({ data: { 'https://a.com': bookmarkA }, meta })
+        )
+        // Simulate another client updating the data
+        await adapter.upload(
+          JSON.stringify({ data: { 'https://b.com': bookmarkB }, meta })
+        )
+
+        await expect(
+          adapter.uploadChanges(
+            { changed: { 'https://c.com': bookmarkA }, deleted: [], meta },
+            cursor!
+          )
+        ).rejects.toMatchObject({ name: 'UploadConflictError' })
+      })
+    })
+
     if (shouldUseMockApi) {
       describe('Error Handling (when API is down or misbehaving - primarily for mock tests)', () => {
         // These tests are more meaningful with a mock server that can simulate these conditions.
         // Skip these if not using mock API, or adapt them if your real API can be put into these states for testing.
+        afterEach(() => {
+          vi.restoreAllMocks()
+        })
+
         it('should handle API down (503) during download', async () => {
           const configForApiDown: SyncServiceConfig = {
             ...baseConfig,
@@ -278,6 +384,70 @@ const runTestSuites = (shouldUseMockApi: boolean) => {
             expect(error.message).toMatch(/failed to fetch/i) // Or a more specific message if available
           }
         })
+
+        const useServiceUnavailable = () => {
+          server.use(
+            http.all(
+              `${mockApiUrl}/*`,
+              () =>
+                new HttpResponse('Service Unavailable', {
+                  status: 503,
+                  headers: { 'Retry-After': '120' },
+                })
+            )
+          )
+        }
+
+        it('should log a SyncHttpError with the response headers if getting the metadata fails', async () => {
+          const consoleErrorSpy = vi
+            .spyOn(console, 'error')
+            .mockImplementation(() => undefined)
+          useServiceUnavailable()
+
+          // The metadata request does not throw, see getRemoteMetadata
+          expect(await adapter.getRemoteMetadata()).toBeUndefined()
+
+          const error = consoleErrorSpy.mock.calls[0][1]
+          expect(error).toBeInstanceOf(SyncHttpError)
+          expect(getRetryAfter(error)).toBe(120_000)
+        })
+
+        it.each([
+          { request: 'downloading', action: async () => adapter.download() },
+          { request: 'uploading', action: async () => adapter.upload('{}') },
+          {
+            request: 'downloading changes',
+            action: async () => adapter.downloadChanges('cursor-1'),
+          },
+          {
+            request: 'uploading changes',
+            action: async () =>
+              adapter.uploadChanges(
+                {
+                  changed: {},
+                  deleted: [],
+                  meta: { databaseVersion: 3, created: 1000, updated: 2000 },
+                },
+                'cursor-1'
+              ),
+          },
+          {
+            request: 'deleting a shard',
+            action: async () => adapter.deleteShard('0-abc'),
+          },
+        ])(
+          'should throw a SyncHttpError with the response headers if $request fails',
+          async ({ action }) => {
+            vi.spyOn(console, 'error').mockImplementation(() => undefined)
+            useServiceUnavailable()
+
+            const error = await action().catch((error: unknown) => error)
+
+            expect(error).toBeInstanceOf(SyncHttpError)
+            expect(error).toMatchObject({ status: 503 })
+            expect(getRetryAfter(error)).toBe(120_000)
+          }
+        )
       })
     }
 
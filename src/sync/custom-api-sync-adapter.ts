@@ -5,9 +5,15 @@ import type {
   ApiTarget,
   CustomApiUploadResponse,
   SyncMetadata,
+  SyncChanges,
   AuthStatus,
 } from './types.js'
-import { buildSyncPath } from './sync-path-builder.js'
+import {
+  buildAppDataPath,
+  buildShardPath,
+  buildSyncPath,
+} from './sync-path-builder.js'
+import { SyncHttpError } from './sync-retry.js'
 
 /**
  * Implements the SyncAdapter interface for synchronizing bookmarks with a custom API.
@@ -196,8 +202,10 @@ export class CustomApiSyncAdapter
         }
 
         if (!getResponse.ok) {
-          throw new Error(
-            `Failed to fetch remote metadata (GET ${url}): ${getResponse.status} ${getResponse.statusText}`
+          throw new SyncHttpError(
+            `Failed to fetch remote metadata (GET ${url}): ${getResponse.status} ${getResponse.statusText}`,
+            getResponse.status,
+            getResponse.headers
           )
         }
 
@@ -257,10 +265,298 @@ export class CustomApiSyncAdapter
       throw new Error('Adapter not initialized. Call init() first.')
     }
 
-    const filePath = this.getFilePath()
-    const url = `${this.apiBaseUrl}/${filePath}`
+    return this.downloadFile(this.getFilePath())
+  }
+
+  /**
+   * Uploads bookmarks data (as string) to the custom API.
+   * @param data - The stringified bookmarks data to upload.
+   * @param expectedRemoteMeta - Optional metadata of the remote file for optimistic locking (e.g., ETag/version).
+   * @returns A promise that resolves with the new sync metadata of the uploaded file.
+   */
+  async upload(
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    return this.uploadFile(this.getFilePath(), data, expectedRemoteMeta)
+  }
+
+  /**
+   * Downloads a shard file of the sharded remote layout from the custom API.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves with the shard data, or undefined if not found (404).
+   */
+  async downloadShard(shardKey: string): Promise<string | undefined> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    const { data } = await this.downloadFile(
+      buildShardPath(this.getFilePath(), shardKey)
+    )
+    return data
+  }
+
+  /**
+   * Uploads a shard file of the sharded remote layout to the custom API.
+   * @param shardKey - The key of the shard file.
+   * @param data - The stringified shard data.
+   */
+  async uploadShard(shardKey: string, data: string): Promise<void> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    await this.uploadFile(buildShardPath(this.getFilePath(), shardKey), data)
+  }
+
+  /**
+   * Downloads the app data file from the custom API.
+   * @returns A promise that resolves with the app data, or undefined if not found (404).
+   */
+  async downloadAppData(): Promise<string | undefined> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    const { data } = await this.downloadFile(
+      buildAppDataPath(this.getFilePath())
+    )
+    return data
+  }
+
+  /**
+   * Uploads the app data file to the custom API.
+   * @param data - The stringified app data.
+   */
+  async uploadAppData(data: string): Promise<void> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    await this.uploadFile(buildAppDataPath(this.getFilePath()), data)
+  }
+
+  /**
+   * Deletes a shard file of the sharded remote layout from the custom API.
+   * @param shardKey - The key of the shard file.
+   */
+  async deleteShard(shardKey: string): Promise<void> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    const url = `${this.apiBaseUrl}/${buildShardPath(this.getFilePath(), shardKey)}`
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: this.headers,
+      signal: this.abortController.signal,
+    })
+
+    if (!response.ok && response.status !== 404) {
+      throw new SyncHttpError(
+        `Failed to delete from Custom API (${url}). Status: ${response.status} ${response.statusText}`,
+        response.status,
+        response.headers
+      )
+    }
+  }
+
+  /**
+   * Downloads the changes since a cursor with the delta sync protocol (see `SyncChanges`).
+   * @param since - The cursor of the last sync.
+   * @returns A promise that resolves with the changes and the remote metadata including the new cursor,
+   *          or undefined if the API does not support delta sync or no longer knows the cursor.
+   * @throws {Error} If the download fails due to network issues or server errors.
+   */
+  async downloadChanges(since: string): Promise<
+    | {
+        changes: SyncChanges
+        remoteMeta: SyncMetadata
+      }
+    | undefined
+  > {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    const url = `${this.apiBaseUrl}/${this.getFilePath()}/changes?since=${encodeURIComponent(since)}`
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: this.headers,
+      signal: this.abortController.signal,
+    })
+
+    // 410 Gone: the cursor is unknown, e.g. the change log was reset. Others: delta sync is not supported.
+    if ([404, 405, 410, 501].includes(response.status)) {
+      console.log(
+        `[CustomApiSyncAdapter] Delta sync is not available for ${url} (status ${response.status}). Falling back to whole file sync.`
+      )
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw new SyncHttpError(
+        `Failed to download changes from Custom API (${url}). Status: ${response.status} ${response.statusText}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const { cursor, changed, deleted, meta } =
+      (await response.json()) as SyncChanges & { cursor?: unknown }
+    if (typeof cursor !== 'string' || !cursor) {
+      console.warn(
+        `[CustomApiSyncAdapter] The changes from ${url} have no cursor. Falling back to whole file sync.`
+      )
+      return undefined
+    }
+
+    const etag = response.headers.get('ETag')
+    const lastModifiedHeader = response.headers.get('Last-Modified')
+
+    return {
+      changes: { changed, deleted, meta },
+      remoteMeta: {
+        version: etag?.replace(/"/g, ''),
+        timestamp: lastModifiedHeader
+          ? new Date(lastModifiedHeader).getTime()
+          : undefined,
+        cursor,
+      },
+    }
+  }
+
+  /**
+   * Uploads changes with the delta sync protocol (see `SyncChanges`).
+   * @param changes - The changes since the cursor.
+   * @param since - The cursor the changes are based on.
+   * @returns A promise that resolves with the new sync metadata including the new cursor.
+   * @throws {Error} If the upload fails, or an `UploadConflictError` if the remote data changed since the cursor (409).
+   */
+  async uploadChanges(
+    changes: SyncChanges,
+    since: string
+  ): Promise<SyncMetadata> {
+    if (!this.initialized || !this.abortController) {
+      throw new Error('Adapter not initialized. Call init() first.')
+    }
+
+    const url = `${this.apiBaseUrl}/${this.getFilePath()}`
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers: this.headers,
+      body: JSON.stringify({ since, ...changes }),
+      signal: this.abortController.signal,
+    })
+
+    if (response.status === 409) {
+      const error = new Error(
+        `Conflict (409) uploading changes to Custom API (${url}). The remote data changed since the last sync.`
+      )
+      error.name = 'UploadConflictError'
+      throw error
+    }
+
+    if (!response.ok) {
+      let errorDetails = ''
+      try {
+        errorDetails = await response.text()
+      } catch {
+        // Ignore if error body cannot be read
+      }
+
+      throw new SyncHttpError(
+        `Failed to upload changes to Custom API: ${response.status} ${response.statusText}. Details: ${errorDetails}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const responseBody = (await response.json()) as CustomApiUploadResponse
+    return {
+      timestamp: responseBody.lastModified,
+      version: responseBody.sha,
+      sha: responseBody.sha,
+      cursor: responseBody.cursor,
+    }
+  }
+
+  /**
+   * Checks the authentication status with the custom API.
+   * @returns A promise that resolves with the authentication status.
+   */
+  async getAuthStatus(): Promise<AuthStatus> {
+    if (!this.initialized || !this.abortController) {
+      // If called before init or after destroy, it's a config issue or misuse
+      // However, if abortController is undefined because destroy was called,
+      // it might be valid to return 'error' or 'requires_config'
+      // For simplicity, let's assume init must be called and not destroyed.
+      throw new Error(
+        'Adapter not initialized or already destroyed. Call init() first.'
+      )
+    }
+
+    const authTestPath = this.apiTarget.authTestEndpoint || 'auth/status' // Default or configured path
+    const url = `${this.apiBaseUrl}/${authTestPath.startsWith('/') ? authTestPath.slice(1) : authTestPath}`
     const signal = this.abortController.signal
 
+    // Ensure no token/API key is present if it's not configured
+    if (!this.apiCredentials.token && !this.apiCredentials.apiKey) {
+      return 'requires_config'
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: this.headers,
+        signal, // Pass the signal to the fetch request
+      })
+
+      if (response.ok) {
+        // Optionally, check response body for more detailed auth status if API provides it
+        // const authData = await response.json();
+        // if (authData.authenticated) return 'authenticated';
+        return 'authenticated'
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return 'unauthenticated'
+      }
+
+      // For other errors, consider it an error state
+      return 'error'
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        console.log(
+          `[CustomApiSyncAdapter] Auth status check aborted for ${url}.`
+        )
+        return 'error' // Or a more specific status indicating cancellation
+      }
+
+      console.error('Error checking auth status for Custom API:', error)
+      return 'error'
+    }
+  }
+  // acquireLock and releaseLock are optional and not implemented here
+  // If your API supports locking, implement them similarly.
+
+  /**
+   * Downloads a file from the custom API.
+   * @param filePath - The path of the file.
+   * @returns A promise that resolves with an object containing the downloaded data (as string) and its remote metadata.
+   */
+  private async downloadFile(filePath: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const url = `${this.apiBaseUrl}/${filePath}`
+    const signal = this.abortController!.signal
+
     try {
       const response = await fetch(url, {
         method: 'GET',
@@ -274,8 +570,10 @@ export class CustomApiSyncAdapter
 
       if (!response.ok) {
         // Throw an error that includes the status, which helps in testing specific error codes
-        throw new Error(
-          `Failed to download data from Custom API (${url}). Status: ${response.status} ${response.statusText}`
+        throw new SyncHttpError(
+          `Failed to download data from Custom API (${url}). Status: ${response.status} ${response.statusText}`,
+          response.status,
+          response.headers
         )
       }
 
@@ -290,6 +588,7 @@ export class CustomApiSyncAdapter
       const remoteMeta: SyncMetadata = {
         version: etag?.replace(/"/g, ''),
         timestamp: lastModified,
+        cursor: response.headers.get('X-Sync-Cursor') || undefined,
       }
 
       return { data: responseData, remoteMeta }
@@ -306,23 +605,20 @@ export class CustomApiSyncAdapter
   }
 
   /**
-   * Uploads bookmarks data (as string) to the custom API.
-   * @param data - The stringified bookmarks data to upload.
+   * Uploads a file (as string) to the custom API.
+   * @param filePath - The path of the file.
+   * @param data - The stringified data to upload.
    * @param expectedRemoteMeta - Optional metadata of the remote file for optimistic locking (e.g., ETag/version).
    * @returns A promise that resolves with the new sync metadata of the uploaded file.
    */
-  async upload(
+  private async uploadFile(
+    filePath: string,
     data: string,
     expectedRemoteMeta?: SyncMetadata
   ): Promise<SyncMetadata> {
-    if (!this.initialized || !this.abortController) {
-      throw new Error('Adapter not initialized. Call init() first.')
-    }
-
-    const filePath = this.getFilePath()
     const url = `${this.apiBaseUrl}/${filePath}`
     const uploadHeaders = { ...this.headers }
-    const signal = this.abortController.signal
+    const signal = this.abortController!.signal
 
     if (expectedRemoteMeta?.sha) {
       uploadHeaders['If-Match'] = expectedRemoteMeta.sha // Use sha for conditional request
@@ -358,8 +654,10 @@ export class CustomApiSyncAdapter
           // Ignore if error body cannot be read
         }
 
-        throw new Error(
-          `Failed to upload to Custom API: ${response.status} ${response.statusText}. Details: ${errorDetails}`
+        throw new SyncHttpError(
+          `Failed to upload to Custom API: ${response.status} ${response.statusText}. Details: ${errorDetails}`,
+          response.status,
+          response.headers
         )
       }
 
@@ -372,6 +670,10 @@ export class CustomApiSyncAdapter
           timestamp: responseBody.lastModified,
           version: responseBody.sha, // Using sha as the version identifier
           sha: responseBody.sha,
+          cursor:
+            responseBody.cursor ||
+            response.headers.get('X-Sync-Cursor') ||
+            undefined,
         }
       }
 
@@ -386,6 +688,7 @@ export class CustomApiSyncAdapter
         version: newEtag?.replace(/"/g, ''),
         timestamp: newLastModified,
         sha: '',
+        cursor: response.headers.get('X-Sync-Cursor') || undefined,
       }
     } catch (error: any) {
       if (error.name === 'AbortError') {
@@ -400,65 +703,6 @@ export class CustomApiSyncAdapter
     }
   }
 
-  /**
-   * Checks the authentication status with the custom API.
-   * @returns A promise that resolves with the authentication status.
-   */
-  async getAuthStatus(): Promise<AuthStatus> {
-    if (!this.initialized || !this.abortController) {
-      // If called before init or after destroy, it's a config issue or misuse
-      // However, if abortController is undefined because destroy was called,
-      // it might be valid to return 'error' or 'requires_config'
-      // For simplicity, let's assume init must be called and not destroyed.
-      throw new Error(
-        'Adapter not initialized or already destroyed. Call init() first.'
-      )
-    }
-
-    const authTestPath = this.apiTarget.authTestEndpoint || 'auth/status' // Default or configured path
-    const url = `${this.apiBaseUrl}/${authTestPath.startsWith('/') ? authTestPath.slice(1) : authTestPath}`
-    const signal = this.abortController.signal
-
-    // Ensure no token/API key is present if it's not configured
-    if (!this.apiCredentials.token && !this.apiCredentials.apiKey) {
-      return 'requires_config'
-    }
-
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.headers,
-        signal, // Pass the signal to the fetch request
-      })
-
-      if (response.ok) {
-        // Optionally, check response body for more detailed auth status if API provides it
-        // const authData = await response.json();
-        // if (authData.authenticated) return 'authenticated';
-        return 'authenticated'
-      }
-
-      if (response.status === 401 || response.status === 403) {
-        return 'unauthenticated'
-      }
-
-      // For other errors, consider it an error state
-      return 'error'
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        console.log(
-          `[CustomApiSyncAdapter] Auth status check aborted for ${url}.`
-        )
-        return 'error' // Or a more specific status indicating cancellation
-      }
-
-      console.error('Error checking auth status for Custom API:', error)
-      return 'error'
-    }
-  }
-  // acquireLock and releaseLock are optional and not implemented here
-  // If your API supports locking, implement them similarly.
-
   /**
    * Gets the file path for the bookmarks data on the custom API.
    * This might be a specific endpoint path.
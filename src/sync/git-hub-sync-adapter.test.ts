@@ -747,6 +747,27 @@ describe('GitHubSyncAdapter', () => {
       )
     })
 
+    it('should use the configured commit message', async () => {
+      let commitMessage: string | undefined
+      server.use(
+        http.put(
+          `${GITHUB_API_BASE_URL}/repos/:owner/:repo/contents/:path`,
+          async ({ request }) => {
+            const body = (await request.clone().json()) as { message: string }
+            commitMessage = body.message
+            // Fall through to the default mock handler
+          }
+        )
+      )
+      await adapter.init({
+        ...mockConfig,
+        target: { ...mockConfig.target, commitMessage: 'Backup at {date}' },
+      })
+
+      await adapter.upload(uploadData)
+      expect(commitMessage).toMatch(/^Backup at \d{4}-\d{2}-\d{2}T/)
+    })
+
     it('should throw error if adapter is not initialized', async () => {
       const freshAdapter = new GitHubSyncAdapter()
       await expect(freshAdapter.upload(uploadData)).rejects.toThrow(
@@ -815,4 +836,54 @@ describe('GitHubSyncAdapter', () => {
       )
     })
   })
+
+  describe('versions', () => {
+    beforeEach(async () => {
+      await adapter.init(mockConfig)
+    })
+
+    it('should list the commits of the file, newest first', async () => {
+      const first = await adapter.upload('{"v":1}')
+      const second = await adapter.upload('{"v":2}', first)
+
+      const versions = await adapter.listVersions()
+
+      expect(versions.map((version) => version.id)).toEqual([
+        second.version,
+        first.version,
+      ])
+      expect(versions[0].message).toMatch(/^Sync bookmarks: /)
+      expect(versions[0].timestamp).toBeGreaterThan(0)
+    })
+
+    it('should return an empty list if the file has no commits', async () => {
+      expect(await adapter.listVersions()).toEqual([])
+    })
+
+    it('should download the file at a commit', async () => {
+      const first = await adapter.upload('{"v":1}')
+      await adapter.upload('{"v":2}', first)
+
+      expect(await adapter.downloadVersion(first.version!)).toBe('{"v":1}')
+      const { data } = await adapter.download()
+      expect(data).toBe('{"v":2}')
+    })
+
+    it('should return undefined if the file does not exist at a commit', async () => {
+      expect(await adapter.downloadVersion('unknown-sha')).toBeUndefined()
+    })
+
+    it('should throw error if listing commits fails', async () => {
+      server.use(
+        http.get(
+          `${GITHUB_API_BASE_URL}/repos/${mockConfig.target.repo}/commits`,
+          () => new HttpResponse('Server error', { status: 500 })
+        )
+      )
+
+      await expect(adapter.listVersions()).rejects.toThrow(
+        'GitHub API error (500) listing commits: Server error'
+      )
+    })
+  })
 })
@@ -7,104 +7,165 @@ import type {
   AuthStatus,
   GithubCredentials,
   GithubTarget,
-  GitHubBlobResponse,
+  GitHubCommitResponse,
   GitHubContentsResponse,
   GitHubCreateUpdateFileResponse,
-  SyncAdapter,
   SyncMetadata,
-  SyncServiceConfig,
+  SyncServiceType,
+  SyncVersion,
 } from './types.js'
-import { buildSyncPath } from './sync-path-builder.js'
+import {
+  encodeBase64,
+  GitRepositorySyncAdapter,
+} from './git-repository-sync-adapter.js'
+import { SyncHttpError } from './sync-retry.js'
 
 // eslint-disable-next-line @typescript-eslint/naming-convention
 const GITHUB_API_BASE_URL = appConfig.githubApiUrl
+// eslint-disable-next-line @typescript-eslint/naming-convention
+const GITHUB_VERSIONS_PER_PAGE = 30
 
 /**
  * Implements the SyncAdapter interface for GitHub, allowing synchronization of bookmarks
  * with a file stored in a GitHub repository.
  */
-export class GitHubSyncAdapter
-  implements SyncAdapter<GithubCredentials, GithubTarget>
-{
-  private config!: SyncServiceConfig<GithubCredentials, GithubTarget>
-  private credentials!: GithubCredentials
-  private target!: GithubTarget
-  private initialized = false
-  private abortController: AbortController | undefined
+export class GitHubSyncAdapter extends GitRepositorySyncAdapter<
+  GithubCredentials,
+  GithubTarget
+> {
+  protected get serviceType(): SyncServiceType {
+    return 'github'
+  }
+
+  protected get serviceName(): string {
+    return 'GitHub'
+  }
+
+  protected get adapterName(): string {
+    return 'GitHubSyncAdapter'
+  }
 
   /**
-   * Initializes the adapter with the given configuration.
-   * @param config - The synchronization service configuration for GitHub.
-   * @throws Error if the configuration type is invalid or if the GitHub token is missing.
+   * Checks the authentication status with GitHub using the provided credentials.
+   * @returns A promise that resolves with the authentication status ('authenticated', 'unauthenticated', 'requires_config', 'error', 'unknown').
    */
-  public async init(
-    config: SyncServiceConfig<GithubCredentials, GithubTarget>
-  ): Promise<void> {
-    if (config.type !== 'github') {
-      throw new Error('Invalid configuration type for GitHubSyncAdapter.')
+  public async getAuthStatus(): Promise<AuthStatus> {
+    // No need to check this.initialized here, as this can be called before init to check config
+    if (!this.credentials || !this.credentials.token) {
+      return 'requires_config'
     }
 
-    this.config = config
-    this.credentials = config.credentials
-    this.target = config.target
+    const url = `${GITHUB_API_BASE_URL}/user`
+    try {
+      const response = await fetch(url, {
+        // Use a new AbortController for auth status check if main one is not available or for isolation
+        signal: this.abortController?.signal, // Or a new AbortController().signal for short-lived check
+        headers: {
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          Authorization: `token ${this.credentials.token}`,
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          Accept: 'application/vnd.github.v3+json',
+        },
+      })
 
-    if (!this.credentials.token) {
-      console.error('[GitHubSyncAdapter] GitHub token is missing.')
-      // This state should ideally be reflected in getAuthStatus returning 'requires_config'
-      // Throwing an error here prevents initialization if token is mandatory from the start.
-      throw new Error('GitHub token is required for authentication.')
-    }
+      if (response.ok) {
+        return 'authenticated'
+      }
+
+      if (response.status === 401) {
+        console.warn(
+          '[GitHubSyncAdapter] GitHub token is invalid or revoked (401).'
+        )
+        return 'unauthenticated' // Token is invalid or revoked
+      }
+
+      // Other non-OK statuses
+      const errorText = await response.text()
+      console.error(
+        `[GitHubSyncAdapter] GitHub API error (${response.status}) checking auth status: ${errorText}`
+      )
+      return 'error'
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        console.log('[GitHubSyncAdapter] Auth status check aborted.')
+        // Depending on desired behavior, could return 'unknown' or rethrow
+        return 'unknown' // Or 'error' as the operation didn't complete
+      }
 
-    this.abortController = new AbortController()
-    this.initialized = true
-    console.log(
-      `[GitHubSyncAdapter] Initialized for ${this.config.name}. Scope: ${this.config.scope}, Path: ${this.target.path}`
-    )
+      console.error(
+        '[GitHubSyncAdapter] Network error checking GitHub auth status:',
+        error
+      )
+      return 'error' // Network errors or other unexpected issues
+    }
   }
 
   /**
-   * Cleans up resources used by the adapter, such as aborting ongoing fetch requests.
+   * Lists the commits changing the remote file on the configured branch.
+   * Only the most recent commits are listed.
+   * @returns A promise that resolves with the versions of the remote file, newest first.
+   * @throws Error if the adapter is not initialized or if there's an API error.
    */
-  public destroy(): void {
-    if (this.abortController) {
-      this.abortController.abort()
-      this.abortController = undefined
+  public async listVersions(): Promise<SyncVersion[]> {
+    this.assertInitialized()
+    const branchQuery = this.target.branch ? `&sha=${this.target.branch}` : ''
+    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/commits?path=${encodeURIComponent(this.getFilePath())}&per_page=${GITHUB_VERSIONS_PER_PAGE}${branchQuery}`
+
+    const response = await fetch(url, {
+      signal: this.abortController?.signal,
+      headers: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Authorization: `token ${this.credentials.token}`,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Accept: 'application/vnd.github.v3+json',
+      },
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new SyncHttpError(
+        `GitHub API error (${response.status}) listing commits: ${errorText}`,
+        response.status,
+        response.headers
+      )
     }
 
-    this.initialized = false
-    console.log(
-      `[GitHubSyncAdapter] Destroyed for ${this.config.name || 'Unknown Config'}.`
-    )
+    const commits = (await response.json()) as GitHubCommitResponse[]
+    return commits.map((item) => ({
+      id: item.sha,
+      timestamp: Date.parse(item.commit.committer.date),
+      message: item.commit.message,
+    }))
   }
 
   /**
-   * Retrieves the current configuration of the sync adapter.
-   * @returns The current sync service configuration.
-   * @throws Error if the adapter is not initialized.
+   * Downloads the content of the remote file at a commit.
+   * @param versionId - The SHA of the commit.
+   * @returns A promise that resolves with the file data, or undefined if the file doesn't exist at the commit.
+   * @throws Error if the adapter is not initialized or if there's an API error.
    */
-  public getConfig(): SyncServiceConfig<GithubCredentials, GithubTarget> {
-    if (!this.initialized || !this.config) {
-      throw new Error(
-        '[GitHubSyncAdapter] Adapter not initialized. Call init() first.'
-      )
+  public async downloadVersion(versionId: string): Promise<string | undefined> {
+    this.assertInitialized()
+    const remoteMeta = await this.getFileMetadata(this.getFilePath(), versionId)
+    if (!remoteMeta?.sha) {
+      return undefined
     }
 
-    return this.config
+    return this.downloadBlob(remoteMeta.sha)
   }
 
   /**
-   * Fetches metadata for the remote file from GitHub.
-   * This includes the SHA of the file, which is used for versioning.
+   * Fetches metadata for a file from GitHub.
+   * @param filePath - The path of the file in the repository.
+   * @param ref - Optional. The branch or commit to read the file from. Defaults to the configured branch.
    * @returns A promise that resolves with the sync metadata if the file exists, or undefined otherwise.
-   * @throws Error if the adapter is not initialized or if there's an API error.
+   * @throws Error if there's an API error.
    */
-  public async getRemoteMetadata(): Promise<SyncMetadata | undefined> {
-    if (!this.initialized) {
-      throw new Error('[GitHubSyncAdapter] Adapter not initialized.')
-    }
-
-    const filePath = this.getFilePath()
-    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/contents/${filePath}${this.target.branch ? `?ref=${this.target.branch}` : ''}`
+  protected async getFileMetadata(
+    filePath: string,
+    ref = this.target.branch
+  ): Promise<SyncMetadata | undefined> {
+    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/contents/${filePath}${ref ? `?ref=${ref}` : ''}`
 
     try {
       const response = await fetch(url, {
@@ -127,8 +188,10 @@ export class GitHubSyncAdapter
         console.error(
           `[GitHubSyncAdapter] GitHub API error (${response.status}) fetching metadata for ${filePath}: ${errorText}`
         )
-        throw new Error(
-          `GitHub API error (${response.status}) fetching metadata: ${errorText}`
+        throw new SyncHttpError(
+          `GitHub API error (${response.status}) fetching metadata: ${errorText}`,
+          response.status,
+          response.headers
         )
       }
 
@@ -164,20 +227,17 @@ export class GitHubSyncAdapter
   }
 
   /**
-   * Downloads the content of the remote file from GitHub.
+   * Downloads the content of a file from GitHub.
+   * @param filePath - The path of the file in the repository.
    * @returns A promise that resolves with an object containing the file data and its remote metadata.
-   *          Returns undefined for data if the file doesn't exist or an error occurs.
-   * @throws Error if the adapter is not initialized or if there's an API error during download.
+   *          Returns undefined for data if the file doesn't exist.
+   * @throws Error if there's an API error during download.
    */
-  public async download(): Promise<{
+  protected async downloadFile(filePath: string): Promise<{
     data: string | undefined
     remoteMeta: SyncMetadata | undefined
   }> {
-    if (!this.initialized) {
-      throw new Error('[GitHubSyncAdapter] Adapter not initialized.')
-    }
-
-    const remoteMeta = await this.getRemoteMetadata()
+    const remoteMeta = await this.getFileMetadata(filePath)
 
     if (!remoteMeta || !remoteMeta.sha) {
       // File doesn't exist or metadata couldn't be fetched
@@ -188,81 +248,27 @@ export class GitHubSyncAdapter
     }
 
     // Use the blob SHA to get the raw content
-    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/git/blobs/${remoteMeta.sha}`
-
-    try {
-      const response = await fetch(url, {
-        signal: this.abortController?.signal,
-        headers: {
-          // eslint-disable-next-line @typescript-eslint/naming-convention
-          Authorization: `token ${this.credentials.token}`,
-          // Request raw content; GitHub's blobs API returns base64 by default if this is not set correctly.
-          // 'application/vnd.github.v3.raw' or 'Accept: application/octet-stream' for raw
-          // eslint-disable-next-line @typescript-eslint/naming-convention
-          Accept: 'application/vnd.github.v3.raw',
-        },
-      })
-
-      if (response.status === 404) {
-        // This case should ideally be caught by getRemoteMetadata, but as a safeguard:
-        console.warn(
-          `[GitHubSyncAdapter] Blob not found for SHA ${remoteMeta.sha}, though metadata was present.`
-        )
-        return { data: undefined, remoteMeta } // Return metadata as it was fetched, but no data
-      }
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error(
-          `[GitHubSyncAdapter] GitHub API error (${response.status}) fetching blob ${remoteMeta.sha}: ${errorText}`
-        )
-        throw new Error(
-          `GitHub API error (${response.status}) fetching blob: ${errorText}`
-        )
-      }
-
-      const rawData = await response.text()
-      // Data fetched with 'application/vnd.github.v3.raw' is plain text.
-      // If it were base64, it would need: atob(jsonData.content)
-      return { data: rawData, remoteMeta }
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        console.log('[GitHubSyncAdapter] Download aborted.')
-        throw error instanceof Error ? error : new Error(String(error))
-      }
-
-      console.error(
-        `[GitHubSyncAdapter] Error downloading file content for SHA ${remoteMeta.sha}:`,
-        error
-      )
-      throw error instanceof Error ? error : new Error(String(error))
-    }
+    const data = await this.downloadBlob(remoteMeta.sha)
+    return { data, remoteMeta }
   }
 
   /**
-   * Uploads data to the specified file in the GitHub repository.
-   * If expectedRemoteMeta is provided and its SHA matches the remote file's SHA,
-   * the file is updated. Otherwise, a new file is created or an error is thrown if there's a conflict.
+   * Uploads data to a file in the GitHub repository.
+   * @param filePath - The path of the file in the repository.
    * @param data - The string data to upload.
    * @param expectedRemoteMeta - Optional. The expected metadata of the remote file. Used for conflict detection.
    * @returns A promise that resolves with the sync metadata of the uploaded file.
-   * @throws Error if the adapter is not initialized, if there's an API error, or if a conflict occurs (e.g., 409 or 422 HTTP status).
+   * @throws Error if there's an API error, or if a conflict occurs (e.g., 409 or 422 HTTP status).
    */
-  public async upload(
+  protected async uploadFile(
+    filePath: string,
     data: string,
     expectedRemoteMeta?: SyncMetadata
   ): Promise<SyncMetadata> {
-    if (!this.initialized) {
-      throw new Error('[GitHubSyncAdapter] Adapter not initialized.')
-    }
-
-    const filePath = this.getFilePath()
     const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/contents/${filePath}`
 
     // Encode content to base64. GitHub API requires content to be base64 encoded.
-    // Standard UTF-8 to Base64 encoding
-    // eslint-disable-next-line no-restricted-globals
-    const contentEncoded = btoa(unescape(encodeURIComponent(data)))
+    const contentEncoded = encodeBase64(data)
 
     const body: {
       message: string
@@ -270,7 +276,7 @@ export class GitHubSyncAdapter
       sha?: string
       branch?: string
     } = {
-      message: `Sync bookmarks: ${new Date().toISOString()}`,
+      message: this.getCommitMessage('sync'),
       content: contentEncoded,
       branch: this.target.branch || undefined, // Use specified branch or repository's default if undefined
     }
@@ -323,8 +329,10 @@ export class GitHubSyncAdapter
           )
         }
 
-        throw new Error(
-          `GitHub API error (${response.status}) uploading file: ${errorMessage}`
+        throw new SyncHttpError(
+          `GitHub API error (${response.status}) uploading file: ${errorMessage}`,
+          response.status,
+          response.headers
         )
       }
 
@@ -383,74 +391,100 @@ export class GitHubSyncAdapter
   }
 
   /**
-   * Checks the authentication status with GitHub using the provided credentials.
-   * @returns A promise that resolves with the authentication status ('authenticated', 'unauthenticated', 'requires_config', 'error', 'unknown').
+   * Deletes a file from the GitHub repository.
+   * @param filePath - The path of the file in the repository.
+   * @param remoteMeta - The metadata of the file, including its blob SHA.
+   * @throws Error if there's an API error other than the file not existing.
    */
-  public async getAuthStatus(): Promise<AuthStatus> {
-    // No need to check this.initialized here, as this can be called before init to check config
-    if (!this.credentials || !this.credentials.token) {
-      return 'requires_config'
+  protected async deleteFile(
+    filePath: string,
+    remoteMeta: SyncMetadata
+  ): Promise<void> {
+    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/contents/${filePath}`
+    const response = await fetch(url, {
+      method: 'DELETE',
+      signal: this.abortController?.signal,
+      headers: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Authorization: `token ${this.credentials.token}`,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Accept: 'application/vnd.github.v3+json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        message: this.getCommitMessage('delete'),
+        sha: remoteMeta.sha,
+        branch: this.target.branch || undefined,
+      }),
+    })
+
+    if (!response.ok && response.status !== 404) {
+      const errorText = await response.text()
+      throw new SyncHttpError(
+        `GitHub API error (${response.status}) deleting file: ${errorText}`,
+        response.status,
+        response.headers
+      )
     }
+  }
+
+  /**
+   * Downloads the raw content of a blob from GitHub.
+   * @param sha - The blob SHA.
+   * @returns A promise that resolves with the blob content, or undefined if the blob doesn't exist.
+   * @throws Error if there's an API error during download.
+   */
+  private async downloadBlob(sha: string): Promise<string | undefined> {
+    const url = `${GITHUB_API_BASE_URL}/repos/${this.target.repo}/git/blobs/${sha}`
 
-    const url = `${GITHUB_API_BASE_URL}/user`
     try {
       const response = await fetch(url, {
-        // Use a new AbortController for auth status check if main one is not available or for isolation
-        signal: this.abortController?.signal, // Or a new AbortController().signal for short-lived check
+        signal: this.abortController?.signal,
         headers: {
           // eslint-disable-next-line @typescript-eslint/naming-convention
           Authorization: `token ${this.credentials.token}`,
+          // Request raw content; GitHub's blobs API returns base64 by default if this is not set correctly.
+          // 'application/vnd.github.v3.raw' or 'Accept: application/octet-stream' for raw
           // eslint-disable-next-line @typescript-eslint/naming-convention
-          Accept: 'application/vnd.github.v3+json',
+          Accept: 'application/vnd.github.v3.raw',
         },
       })
 
-      if (response.ok) {
-        return 'authenticated'
+      if (response.status === 404) {
+        // This case should ideally be caught by getRemoteMetadata, but as a safeguard:
+        console.warn(
+          `[GitHubSyncAdapter] Blob not found for SHA ${sha}, though metadata was present.`
+        )
+        return undefined
       }
 
-      if (response.status === 401) {
-        console.warn(
-          '[GitHubSyncAdapter] GitHub token is invalid or revoked (401).'
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error(
+          `[GitHubSyncAdapter] GitHub API error (${response.status}) fetching blob ${sha}: ${errorText}`
+        )
+        throw new SyncHttpError(
+          `GitHub API error (${response.status}) fetching blob: ${errorText}`,
+          response.status,
+          response.headers
         )
-        return 'unauthenticated' // Token is invalid or revoked
       }
 
-      // Other non-OK statuses
-      const errorText = await response.text()
-      console.error(
-        `[GitHubSyncAdapter] GitHub API error (${response.status}) checking auth status: ${errorText}`
-      )
-      return 'error'
+      const rawData = await response.text()
+      // Data fetched with 'application/vnd.github.v3.raw' is plain text.
+      // If it were base64, it would need: atob(jsonData.content)
+      return rawData
     } catch (error: any) {
       if (error.name === 'AbortError') {
-        console.log('[GitHubSyncAdapter] Auth status check aborted.')
-        // Depending on desired behavior, could return 'unknown' or rethrow
-        return 'unknown' // Or 'error' as the operation didn't complete
+        console.log('[GitHubSyncAdapter] Download aborted.')
+        throw error instanceof Error ? error : new Error(String(error))
       }
 
       console.error(
-        '[GitHubSyncAdapter] Network error checking GitHub auth status:',
+        `[GitHubSyncAdapter] Error downloading file content for SHA ${sha}:`,
         error
       )
-      return 'error' // Network errors or other unexpected issues
-    }
-  }
-
-  /**
-   * Constructs the full file path in the repository based on the configuration scope.
-   * If the scope is 'all', it uses the direct target path.
-   * If the scope is a specific collection ID, it prepends the collection ID to the filename.
-   * @returns The full file path for the GitHub repository.
-   * @throws Error if the adapter is not initialized.
-   */
-  private getFilePath(): string {
-    if (!this.initialized || !this.config || !this.target) {
-      throw new Error(
-        '[GitHubSyncAdapter] Adapter not properly initialized. Config or target is missing.'
-      )
+      throw error instanceof Error ? error : new Error(String(error))
     }
-
-    return buildSyncPath(this.target.path, this.config.scope)
   }
 }
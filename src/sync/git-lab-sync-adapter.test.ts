@@ -0,0 +1,396 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+  vi,
+} from 'vitest'
+import { HttpResponse, http } from 'msw'
+import { GitLabSyncAdapter } from './git-lab-sync-adapter.js'
+import type {
+  GitLabCredentials,
+  GitLabTarget,
+  SyncServiceConfig,
+} from './types.js'
+import { buildAppDataPath, buildShardPath } from './sync-path-builder.js'
+import { getRetryAfter, SyncHttpError } from './sync-retry.js'
+import { server } from './mocks/server.js'
+import {
+  getMockGitRepositoryFile,
+  resetMockGitRepositoryStore,
+  setMockGitRepositoryFile,
+} from './mocks/handlers.js'
+
+const GITLAB_API_URL = 'https://gitlab.example.com/api/v4'
+
+describe('GitLabSyncAdapter', () => {
+  const repo = 'group/subgroup/bookmarks'
+  const filePath = 'utags/bookmarks.json'
+  let adapter: GitLabSyncAdapter
+
+  const baseConfig: SyncServiceConfig<GitLabCredentials, GitLabTarget> = {
+    id: 'test-gitlab',
+    type: 'gitlab',
+    name: 'Test GitLab',
+    credentials: { token: 'test-gitlab-token' },
+    target: {
+      url: 'https://gitlab.example.com/',
+      repo,
+      path: filePath,
+    },
+    scope: 'all',
+    enabled: true,
+  }
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'warn' })
+  })
+
+  beforeEach(async () => {
+    server.resetHandlers()
+    resetMockGitRepositoryStore()
+    adapter = new GitLabSyncAdapter()
+    await adapter.init(baseConfig)
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  describe('init', () => {
+    it('should throw if the config type is not gitlab', async () => {
+      await expect(
+        new GitLabSyncAdapter().init({
+          ...baseConfig,
+          type: 'gitea',
+        } as unknown as SyncServiceConfig<GitLabCredentials, GitLabTarget>)
+      ).rejects.toThrow('Invalid configuration type for GitLabSyncAdapter.')
+    })
+
+    it('should throw if the token is missing', async () => {
+      await expect(
+        new GitLabSyncAdapter().init({
+          ...baseConfig,
+          credentials: { token: '' },
+        })
+      ).rejects.toThrow('GitLab token is required for authentication.')
+    })
+  })
+
+  describe('getAuthStatus', () => {
+    it('should return "authenticated" with a valid token', async () => {
+      expect(await adapter.getAuthStatus()).toBe('authenticated')
+    })
+
+    it('should return "unauthenticated" with an invalid token', async () => {
+      await adapter.init({ ...baseConfig, credentials: { token: 'invalid' } })
+
+      expect(await adapter.getAuthStatus()).toBe('unauthenticated')
+    })
+
+    it('should use gitlab.com if no URL is configured', async () => {
+      let requestUrl: string | undefined
+      server.use(
+        http.get('https://gitlab.com/api/v4/user', ({ request }) => {
+          requestUrl = request.url
+          return HttpResponse.json({ username: 'mockUser' })
+        })
+      )
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, url: undefined },
+      })
+
+      expect(await adapter.getAuthStatus()).toBe('authenticated')
+      expect(requestUrl).toBe('https://gitlab.com/api/v4/user')
+    })
+  })
+
+  describe('getRemoteMetadata and download', () => {
+    it('should return undefined if the file does not exist', async () => {
+      expect(await adapter.getRemoteMetadata()).toBeUndefined()
+      expect(await adapter.download()).toEqual({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+    })
+
+    it('should read the file from the default branch', async () => {
+      const file = setMockGitRepositoryFile(
+        'gitlab',
+        repo,
+        filePath,
+        '{"data":{"测试":{}}}'
+      )
+
+      const remoteMeta = await adapter.getRemoteMetadata()
+      expect(remoteMeta).toEqual({
+        sha: file.sha,
+        version: file.commitId,
+        timestamp: undefined,
+      })
+      expect(await adapter.download()).toEqual({
+        data: '{"data":{"测试":{}}}',
+        remoteMeta,
+      })
+    })
+
+    it('should read the metadata from the headers without downloading the file', async () => {
+      const file = setMockGitRepositoryFile('gitlab', repo, filePath, '{}')
+      server.use(
+        http.get(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          () => new HttpResponse('Unexpected download', { status: 500 })
+        )
+      )
+
+      expect(await adapter.getRemoteMetadata()).toEqual({
+        sha: file.sha,
+        version: file.commitId,
+        timestamp: undefined,
+      })
+    })
+
+    it('should download the file if the metadata headers are not exposed', async () => {
+      const file = setMockGitRepositoryFile('gitlab', repo, filePath, '{}')
+      server.use(
+        http.head(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          () => new HttpResponse(null, { status: 200 })
+        )
+      )
+
+      expect(await adapter.getRemoteMetadata()).toEqual({
+        sha: file.sha,
+        version: file.commitId,
+        timestamp: undefined,
+      })
+    })
+
+    it('should read the file from the configured branch', async () => {
+      setMockGitRepositoryFile('gitlab', repo, filePath, '{}', 'sync')
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, branch: 'sync' },
+      })
+
+      const { data } = await adapter.download()
+      expect(data).toBe('{}')
+    })
+
+    it('should throw on other errors', async () => {
+      server.use(
+        http.get(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          () => new HttpResponse('Server error', { status: 500 })
+        )
+      )
+
+      await expect(adapter.download()).rejects.toThrow(
+        'GitLab API error (500) fetching file: Server error'
+      )
+    })
+  })
+
+  describe('upload', () => {
+    it('should create the file with the configured commit message', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'))
+      let commitMessage: string | undefined
+      server.use(
+        http.post(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          async ({ request }) => {
+            const body = (await request.clone().json()) as {
+              commit_message: string
+            }
+            commitMessage = body.commit_message
+            // Fall through to the default mock handler
+          }
+        )
+      )
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, commitMessage: 'Bookmarks {date}' },
+      })
+
+      try {
+        const remoteMeta = await adapter.upload('{"data":{}}')
+
+        const file = getMockGitRepositoryFile('gitlab', repo, filePath)
+        expect(file?.data).toBe('{"data":{}}')
+        expect(remoteMeta.version).toBe(file?.commitId)
+        expect(commitMessage).toBe('Bookmarks 2025-01-01T00:00:00.000Z')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should download the uploaded file if the metadata headers are not exposed', async () => {
+      let downloads = 0
+      server.use(
+        http.head(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          () => new HttpResponse(null, { status: 200 })
+        ),
+        http.get(
+          `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`,
+          () => {
+            downloads++
+            // Fall through to the default mock handler
+          }
+        )
+      )
+
+      const remoteMeta = await adapter.upload('{"data":{}}')
+
+      const file = getMockGitRepositoryFile('gitlab', repo, filePath)
+      expect(downloads).toBe(1)
+      expect(remoteMeta).toEqual({
+        sha: file?.sha,
+        version: file?.commitId,
+        timestamp: undefined,
+      })
+    })
+
+    it('should not overwrite a file created by another client', async () => {
+      setMockGitRepositoryFile('gitlab', repo, filePath, '{"other":1}')
+
+      await expect(adapter.upload('{"data":{}}')).rejects.toMatchObject({
+        name: 'UploadConflictError',
+      })
+      expect(getMockGitRepositoryFile('gitlab', repo, filePath)?.data).toBe(
+        '{"other":1}'
+      )
+    })
+
+    it('should update the file if the last commit ID matches', async () => {
+      setMockGitRepositoryFile('gitlab', repo, filePath, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+
+      const newMeta = await adapter.upload('{"data":{"new":{}}}', remoteMeta)
+
+      expect(newMeta.version).not.toBe(remoteMeta?.version)
+      expect(getMockGitRepositoryFile('gitlab', repo, filePath)?.data).toBe(
+        '{"data":{"new":{}}}'
+      )
+    })
+
+    it('should throw an UploadConflictError if the file changed', async () => {
+      setMockGitRepositoryFile('gitlab', repo, filePath, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+      setMockGitRepositoryFile('gitlab', repo, filePath, '{"other":1}')
+
+      await expect(
+        adapter.upload('{"data":{"new":{}}}', remoteMeta)
+      ).rejects.toMatchObject({ name: 'UploadConflictError' })
+      expect(getMockGitRepositoryFile('gitlab', repo, filePath)?.data).toBe(
+        '{"other":1}'
+      )
+    })
+  })
+
+  describe('shards', () => {
+    it('should upload, download and delete shards', async () => {
+      const shardPath = buildShardPath(filePath, '0-abc')
+
+      await adapter.uploadShard('0-abc', '{"a":1}')
+      await adapter.uploadShard('0-abc', '{"a":2}')
+      expect(getMockGitRepositoryFile('gitlab', repo, shardPath)?.data).toBe(
+        '{"a":2}'
+      )
+      expect(await adapter.downloadShard('0-abc')).toBe('{"a":2}')
+
+      await adapter.deleteShard('0-abc')
+      expect(
+        getMockGitRepositoryFile('gitlab', repo, shardPath)
+      ).toBeUndefined()
+      expect(await adapter.downloadShard('0-abc')).toBeUndefined()
+    })
+  })
+
+  describe('app data', () => {
+    it('should upload and download the app data file', async () => {
+      const appDataPath = buildAppDataPath(filePath)
+      expect(await adapter.downloadAppData()).toBeUndefined()
+
+      await adapter.uploadAppData('{"v":1}')
+      await adapter.uploadAppData('{"v":2}')
+      expect(getMockGitRepositoryFile('gitlab', repo, appDataPath)?.data).toBe(
+        '{"v":2}'
+      )
+      expect(await adapter.downloadAppData()).toBe('{"v":2}')
+    })
+  })
+
+  describe('HTTP errors', () => {
+    const filesApiPath = `${GITLAB_API_URL}/projects/:project/repository/files/:filePath`
+    const serviceUnavailable = () =>
+      new HttpResponse('Service Unavailable', {
+        status: 503,
+        headers: { 'Retry-After': '120' },
+      })
+
+    it.each([
+      {
+        request: 'fetching the project',
+        handler: http.get(
+          `${GITLAB_API_URL}/projects/:project`,
+          serviceUnavailable
+        ),
+        action: async () => adapter.download(),
+      },
+      {
+        request: 'fetching the file metadata',
+        handler: http.head(filesApiPath, serviceUnavailable),
+        action: async () => adapter.getRemoteMetadata(),
+      },
+      {
+        request: 'fetching the file',
+        handler: http.get(filesApiPath, serviceUnavailable),
+        action: async () => adapter.download(),
+      },
+      {
+        request: 'uploading the file',
+        handler: http.post(filesApiPath, serviceUnavailable),
+        action: async () => adapter.upload('{}'),
+      },
+      {
+        request: 'deleting the file',
+        handler: http.delete(filesApiPath, serviceUnavailable),
+        async action() {
+          setMockGitRepositoryFile(
+            'gitlab',
+            repo,
+            buildShardPath(filePath, '0-abc'),
+            '{}'
+          )
+          return adapter.deleteShard('0-abc')
+        },
+      },
+    ])(
+      'should throw a SyncHttpError with the response headers if $request fails',
+      async ({ handler, action }) => {
+        server.use(handler)
+
+        const error = await action().catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(SyncHttpError)
+        expect(error).toMatchObject({ status: 503 })
+        expect(getRetryAfter(error)).toBe(120_000)
+      }
+    )
+  })
+
+  describe('destroy', () => {
+    it('should require init after destroy', async () => {
+      adapter.destroy()
+
+      await expect(adapter.download()).rejects.toThrow(
+        '[GitLabSyncAdapter] Adapter not initialized.'
+      )
+    })
+  })
+})
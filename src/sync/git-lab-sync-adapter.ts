@@ -0,0 +1,341 @@
+import type {
+  AuthStatus,
+  GitLabCredentials,
+  GitLabFileResponse,
+  GitLabTarget,
+  SyncMetadata,
+  SyncServiceType,
+  SyncServiceConfig,
+} from './types.js'
+import {
+  decodeBase64,
+  encodeBase64,
+  GitRepositorySyncAdapter,
+} from './git-repository-sync-adapter.js'
+import { SyncHttpError } from './sync-retry.js'
+
+// eslint-disable-next-line @typescript-eslint/naming-convention
+const DEFAULT_GITLAB_URL = 'https://gitlab.com'
+
+/**
+ * Implements the SyncAdapter interface for GitLab, allowing synchronization of bookmarks
+ * with a file stored in a repository on gitlab.com or a self-managed GitLab instance.
+ * Uses the Repository Files API: https://docs.gitlab.com/api/repository_files/
+ */
+export class GitLabSyncAdapter extends GitRepositorySyncAdapter<
+  GitLabCredentials,
+  GitLabTarget
+> {
+  private defaultBranch: string | undefined // Fetched when no branch is configured
+
+  protected get serviceType(): SyncServiceType {
+    return 'gitlab'
+  }
+
+  protected get serviceName(): string {
+    return 'GitLab'
+  }
+
+  protected get adapterName(): string {
+    return 'GitLabSyncAdapter'
+  }
+
+  /**
+   * Checks the authentication status with GitLab using the provided credentials.
+   * @returns A promise that resolves with the authentication status.
+   */
+  public async getAuthStatus(): Promise<AuthStatus> {
+    if (!this.credentials?.token) {
+      return 'requires_config'
+    }
+
+    try {
+      const response = await this.fetchApi('/user')
+      if (response.ok) {
+        return 'authenticated'
+      }
+
+      if (response.status === 401) {
+        console.warn(
+          '[GitLabSyncAdapter] GitLab token is invalid, expired or revoked (401).'
+        )
+        return 'unauthenticated'
+      }
+
+      console.error(
+        `[GitLabSyncAdapter] GitLab API error (${response.status}) checking auth status: ${await response.text()}`
+      )
+      return 'error'
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        console.log('[GitLabSyncAdapter] Auth status check aborted.')
+        return 'unknown'
+      }
+
+      console.error(
+        '[GitLabSyncAdapter] Network error checking GitLab auth status:',
+        error
+      )
+      return 'error'
+    }
+  }
+
+  /**
+   * Initializes the adapter with the given configuration, resetting the cached default branch.
+   * @param config - The synchronization service configuration for GitLab.
+   * @throws Error if the configuration type is invalid or if the GitLab token is missing.
+   */
+  public override async init(
+    config: SyncServiceConfig<GitLabCredentials, GitLabTarget>
+  ): Promise<void> {
+    this.defaultBranch = undefined
+    await super.init(config)
+  }
+
+  /**
+   * Fetches metadata for a file from GitLab, without its content.
+   * The last commit ID of the file is used as version, as GitLab uses it for conflict detection.
+   * It is read from the `X-Gitlab-*` headers of a HEAD request; the file is downloaded
+   * only if the instance does not expose these headers to the browser.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the sync metadata if the file exists, or undefined otherwise.
+   * @throws Error if there's an API error.
+   */
+  protected async getFileMetadata(
+    filePath: string
+  ): Promise<SyncMetadata | undefined> {
+    const ref = encodeURIComponent(await this.getBranch())
+    const response = await this.fetchApi(
+      `${this.getFileApiPath(filePath)}?ref=${ref}`,
+      { method: 'HEAD' }
+    )
+
+    if (response.status === 404) {
+      console.log(`[GitLabSyncAdapter] File not found at ${filePath}`)
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw new SyncHttpError(
+        `GitLab API error (${response.status}) fetching file metadata`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const lastCommitId = response.headers.get('X-Gitlab-Last-Commit-Id')
+    if (!lastCommitId) {
+      const file = await this.getFile(filePath)
+      return file?.remoteMeta
+    }
+
+    return {
+      sha: response.headers.get('X-Gitlab-Blob-Id') ?? undefined,
+      version: lastCommitId,
+      timestamp: undefined,
+    }
+  }
+
+  /**
+   * Downloads the content of a file from GitLab.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the file data and its remote metadata, or undefined values if the file doesn't exist.
+   * @throws Error if there's an API error during download.
+   */
+  protected async downloadFile(filePath: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const file = await this.getFile(filePath)
+    return file || { data: undefined, remoteMeta: undefined }
+  }
+
+  /**
+   * Creates or updates a file in the GitLab repository.
+   * Updates pass the expected last commit ID of the file, so GitLab rejects them if the file changed since.
+   * @param filePath - The path of the file in the repository.
+   * @param data - The string data to upload.
+   * @param expectedRemoteMeta - Optional. The expected metadata of an existing file. Used for conflict detection.
+   * @returns A promise that resolves with the sync metadata of the uploaded file.
+   * @throws Error if there's an API error, or an `UploadConflictError` if the file was changed or created by another client.
+   */
+  protected async uploadFile(
+    filePath: string,
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    const isUpdate = Boolean(expectedRemoteMeta?.version)
+    const response = await this.fetchApi(this.getFileApiPath(filePath), {
+      method: isUpdate ? 'PUT' : 'POST',
+      body: JSON.stringify({
+        branch: await this.getBranch(),
+        content: encodeBase64(data),
+        encoding: 'base64',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        commit_message: this.getCommitMessage('sync'),
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        last_commit_id: isUpdate ? expectedRemoteMeta!.version : undefined,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      // GitLab responds with 400 if the file already exists or changed since the last commit ID
+      if (
+        response.status === 409 ||
+        (response.status === 400 &&
+          /already exists|changed since|has been changed/i.test(errorText))
+      ) {
+        throw this.createConflictError(
+          `Conflict (${response.status}) updating file on GitLab. Remote file has changed. Details: ${errorText}`
+        )
+      }
+
+      throw new SyncHttpError(
+        `GitLab API error (${response.status}) uploading file: ${errorText}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    // The response only contains the file path and branch, so the new IDs are fetched
+    // with a HEAD request, or a download if the headers are not exposed. The latest
+    // commit of the branch is not used, as another client may have committed since.
+    const remoteMeta = await this.getFileMetadata(filePath)
+    if (!remoteMeta) {
+      throw new Error(
+        `GitLab API error: uploaded file ${filePath} could not be found.`
+      )
+    }
+
+    return remoteMeta
+  }
+
+  /**
+   * Deletes a file from the GitLab repository.
+   * @param filePath - The path of the file in the repository.
+   * @throws Error if there's an API error other than the file not existing.
+   */
+  protected async deleteFile(filePath: string): Promise<void> {
+    const response = await this.fetchApi(this.getFileApiPath(filePath), {
+      method: 'DELETE',
+      body: JSON.stringify({
+        branch: await this.getBranch(),
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        commit_message: this.getCommitMessage('delete'),
+      }),
+    })
+
+    if (!response.ok && response.status !== 404) {
+      throw new SyncHttpError(
+        `GitLab API error (${response.status}) deleting file: ${await response.text()}`,
+        response.status,
+        response.headers
+      )
+    }
+  }
+
+  /**
+   * Gets a file with its content from GitLab.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the file data and its remote metadata, or undefined if the file doesn't exist.
+   * @throws Error if there's an API error.
+   */
+  private async getFile(
+    filePath: string
+  ): Promise<{ data: string; remoteMeta: SyncMetadata } | undefined> {
+    const ref = encodeURIComponent(await this.getBranch())
+    const response = await this.fetchApi(
+      `${this.getFileApiPath(filePath)}?ref=${ref}`
+    )
+
+    if (response.status === 404) {
+      console.log(`[GitLabSyncAdapter] File not found at ${filePath}`)
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw new SyncHttpError(
+        `GitLab API error (${response.status}) fetching file: ${await response.text()}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const file = (await response.json()) as GitLabFileResponse
+    return {
+      data: decodeBase64(file.content),
+      remoteMeta: {
+        sha: file.blob_id,
+        version: file.last_commit_id,
+        timestamp: undefined,
+      },
+    }
+  }
+
+  /**
+   * Gets the configured branch, or the default branch of the project.
+   * GitLab requires a branch for reading and writing files.
+   * @returns A promise that resolves with the branch name.
+   * @throws Error if the default branch cannot be fetched.
+   */
+  private async getBranch(): Promise<string> {
+    if (this.target.branch) {
+      return this.target.branch
+    }
+
+    if (!this.defaultBranch) {
+      const response = await this.fetchApi(this.getProjectApiPath())
+      if (!response.ok) {
+        throw new SyncHttpError(
+          `GitLab API error (${response.status}) fetching project: ${await response.text()}`,
+          response.status,
+          response.headers
+        )
+      }
+
+      const project = (await response.json()) as { default_branch?: string }
+      this.defaultBranch = project.default_branch || 'main'
+    }
+
+    return this.defaultBranch
+  }
+
+  /**
+   * Sends a request to the GitLab REST API.
+   * @param apiPath - The path of the endpoint, relative to `/api/v4`.
+   * @param init - The request options.
+   * @returns A promise that resolves with the response.
+   */
+  private async fetchApi(
+    apiPath: string,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    const baseUrl = (this.target.url || DEFAULT_GITLAB_URL).replace(/\/+$/, '')
+    return fetch(`${baseUrl}/api/v4${apiPath}`, {
+      ...init,
+      signal: this.abortController?.signal,
+      headers: {
+        'PRIVATE-TOKEN': this.credentials.token,
+        'Content-Type': 'application/json',
+      },
+    })
+  }
+
+  /**
+   * Gets the API path of the project. The project path is URL-encoded, as required by GitLab.
+   * @returns The API path.
+   */
+  private getProjectApiPath(): string {
+    return `/projects/${encodeURIComponent(this.target.repo)}`
+  }
+
+  /**
+   * Gets the API path of a file. The file path is URL-encoded, as required by GitLab.
+   * @param filePath - The path of the file in the repository.
+   * @returns The API path.
+   */
+  private getFileApiPath(filePath: string): string {
+    return `${this.getProjectApiPath()}/repository/files/${encodeURIComponent(filePath)}`
+  }
+}
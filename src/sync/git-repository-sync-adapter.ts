@@ -0,0 +1,350 @@
+import type {
+  AuthStatus,
+  SyncAdapter,
+  SyncMetadata,
+  SyncServiceConfig,
+  SyncServiceType,
+} from './types.js'
+import {
+  buildAppDataPath,
+  buildShardPath,
+  buildSyncPath,
+} from './sync-path-builder.js'
+
+/**
+ * Credentials shared by the Git hosting services.
+ */
+export type GitRepositoryCredentials = {
+  token: string
+}
+
+/**
+ * Target configuration shared by the Git hosting services.
+ */
+export type GitRepositoryTarget = {
+  repo: string
+  path: string
+  branch?: string
+  commitMessage?: string
+}
+
+/**
+ * Encodes a string as base64, handling UTF-8 characters correctly.
+ * @param data - The string to encode.
+ * @returns The base64 encoded string.
+ */
+export function encodeBase64(data: string): string {
+  // eslint-disable-next-line no-restricted-globals
+  return btoa(unescape(encodeURIComponent(data)))
+}
+
+/**
+ * Decodes a base64 encoded UTF-8 string.
+ * @param data - The base64 encoded string. Line breaks are ignored.
+ * @returns The decoded string.
+ */
+export function decodeBase64(data: string): string {
+  // eslint-disable-next-line no-restricted-globals
+  return decodeURIComponent(escape(atob(data.replaceAll(/\s/g, ''))))
+}
+
+/**
+ * Base class of the adapters for files stored in a Git repository of a Git hosting service,
+ * such as GitHub, GitLab or Gitea.
+ *
+ * The base class implements the `SyncAdapter` contract on top of four file operations
+ * of the hosting service's API, which subclasses implement.
+ */
+export abstract class GitRepositorySyncAdapter<
+  C extends GitRepositoryCredentials,
+  T extends GitRepositoryTarget,
+> implements SyncAdapter<C, T>
+{
+  protected config!: SyncServiceConfig<C, T>
+  protected credentials!: C
+  protected target!: T
+  protected initialized = false
+  protected abortController: AbortController | undefined
+
+  /** The service type of the configurations the adapter accepts */
+  protected abstract get serviceType(): SyncServiceType
+  /** The name of the hosting service, used in error messages */
+  protected abstract get serviceName(): string
+  /** The name of the adapter, used in error and log messages */
+  protected abstract get adapterName(): string
+
+  /**
+   * Initializes the adapter with the given configuration.
+   * @param config - The synchronization service configuration.
+   * @throws Error if the configuration type is invalid or if the token is missing.
+   */
+  public async init(config: SyncServiceConfig<C, T>): Promise<void> {
+    if (config.type !== this.serviceType) {
+      throw new Error(`Invalid configuration type for ${this.adapterName}.`)
+    }
+
+    this.config = config
+    this.credentials = config.credentials
+    this.target = config.target
+
+    if (!this.credentials.token) {
+      console.error(
+        `[${this.adapterName}] ${this.serviceName} token is missing.`
+      )
+      // This state should ideally be reflected in getAuthStatus returning 'requires_config'
+      // Throwing an error here prevents initialization if token is mandatory from the start.
+      throw new Error(
+        `${this.serviceName} token is required for authentication.`
+      )
+    }
+
+    this.abortController = new AbortController()
+    this.initialized = true
+    console.log(
+      `[${this.adapterName}] Initialized for ${this.config.name}. Scope: ${this.config.scope}, Path: ${this.target.path}`
+    )
+  }
+
+  /**
+   * Cleans up resources used by the adapter, such as aborting ongoing fetch requests.
+   */
+  public destroy(): void {
+    if (this.abortController) {
+      this.abortController.abort()
+      this.abortController = undefined
+    }
+
+    this.initialized = false
+    console.log(
+      `[${this.adapterName}] Destroyed for ${this.config?.name || 'Unknown Config'}.`
+    )
+  }
+
+  /**
+   * Retrieves the current configuration of the sync adapter.
+   * @returns The current sync service configuration.
+   * @throws Error if the adapter is not initialized.
+   */
+  public getConfig(): SyncServiceConfig<C, T> {
+    if (!this.initialized || !this.config) {
+      throw new Error(
+        `[${this.adapterName}] Adapter not initialized. Call init() first.`
+      )
+    }
+
+    return this.config
+  }
+
+  /**
+   * Fetches metadata for the remote file.
+   * @returns A promise that resolves with the sync metadata if the file exists, or undefined otherwise.
+   * @throws Error if the adapter is not initialized or if there's an API error.
+   */
+  public async getRemoteMetadata(): Promise<SyncMetadata | undefined> {
+    this.assertInitialized()
+    return this.getFileMetadata(this.getFilePath())
+  }
+
+  /**
+   * Downloads the content of the remote file.
+   * @returns A promise that resolves with an object containing the file data and its remote metadata.
+   *          Returns undefined for data if the file doesn't exist.
+   * @throws Error if the adapter is not initialized or if there's an API error during download.
+   */
+  public async download(): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    this.assertInitialized()
+    return this.downloadFile(this.getFilePath())
+  }
+
+  /**
+   * Uploads data to the remote file.
+   * If expectedRemoteMeta is provided, the file is only updated if it has not changed since.
+   * Otherwise, a new file is created.
+   * @param data - The string data to upload.
+   * @param expectedRemoteMeta - Optional. The expected metadata of the remote file. Used for conflict detection.
+   * @returns A promise that resolves with the sync metadata of the uploaded file.
+   * @throws Error if the adapter is not initialized, if there's an API error, or if a conflict occurs.
+   */
+  public async upload(
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    this.assertInitialized()
+    return this.uploadFile(this.getFilePath(), data, expectedRemoteMeta)
+  }
+
+  /**
+   * Downloads a shard file of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves with the shard data, or undefined if the shard file doesn't exist.
+   * @throws Error if the adapter is not initialized or if there's an API error during download.
+   */
+  public async downloadShard(shardKey: string): Promise<string | undefined> {
+    this.assertInitialized()
+    const { data } = await this.downloadFile(
+      buildShardPath(this.getFilePath(), shardKey)
+    )
+    return data
+  }
+
+  /**
+   * Uploads a shard file of the sharded remote layout.
+   * An existing shard file is updated, which requires its metadata.
+   * @param shardKey - The key of the shard file.
+   * @param data - The string data to upload.
+   * @throws Error if the adapter is not initialized or if there's an API error.
+   */
+  public async uploadShard(shardKey: string, data: string): Promise<void> {
+    this.assertInitialized()
+    const filePath = buildShardPath(this.getFilePath(), shardKey)
+    await this.uploadFile(filePath, data, await this.getFileMetadata(filePath))
+  }
+
+  /**
+   * Downloads the app data file.
+   * @returns A promise that resolves with the app data, or undefined if the app data file doesn't exist.
+   * @throws Error if the adapter is not initialized or if there's an API error during download.
+   */
+  public async downloadAppData(): Promise<string | undefined> {
+    this.assertInitialized()
+    const { data } = await this.downloadFile(
+      buildAppDataPath(this.getFilePath())
+    )
+    return data
+  }
+
+  /**
+   * Uploads the app data file.
+   * An existing app data file is updated, which requires its metadata.
+   * @param data - The string data to upload.
+   * @throws Error if the adapter is not initialized or if there's an API error.
+   */
+  public async uploadAppData(data: string): Promise<void> {
+    this.assertInitialized()
+    const filePath = buildAppDataPath(this.getFilePath())
+    await this.uploadFile(filePath, data, await this.getFileMetadata(filePath))
+  }
+
+  /**
+   * Deletes a shard file of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @throws Error if the adapter is not initialized or if there's an API error.
+   */
+  public async deleteShard(shardKey: string): Promise<void> {
+    this.assertInitialized()
+    const filePath = buildShardPath(this.getFilePath(), shardKey)
+    const remoteMeta = await this.getFileMetadata(filePath)
+    if (!remoteMeta) {
+      return // Already deleted
+    }
+
+    await this.deleteFile(filePath, remoteMeta)
+  }
+
+  /**
+   * Checks the authentication status with the hosting service using the provided credentials.
+   * @returns A promise that resolves with the authentication status.
+   */
+  public abstract getAuthStatus(): Promise<AuthStatus>
+
+  /**
+   * Builds the commit message of a change, using the configured commit message for uploads.
+   * @param action - The change: an upload of the bookmarks file or a shard file, or a deletion of a shard file.
+   * @returns The commit message.
+   */
+  protected getCommitMessage(action: 'sync' | 'delete'): string {
+    const date = new Date().toISOString()
+    if (action === 'delete') {
+      return `Delete bookmarks shard: ${date}`
+    }
+
+    return this.target.commitMessage
+      ? this.target.commitMessage.replaceAll('{date}', date)
+      : `Sync bookmarks: ${date}`
+  }
+
+  /**
+   * Creates the error of an upload that failed because the remote file changed.
+   * The error name lets the sync manager retry the sync.
+   * @param message - The error message.
+   * @returns The error.
+   */
+  protected createConflictError(message: string): Error {
+    const error = new Error(message)
+    error.name = 'UploadConflictError'
+    return error
+  }
+
+  /**
+   * Constructs the full file path in the repository based on the configuration scope.
+   * @returns The full file path in the repository.
+   * @throws Error if the adapter is not initialized.
+   */
+  protected getFilePath(): string {
+    if (!this.initialized || !this.config || !this.target) {
+      throw new Error(
+        `[${this.adapterName}] Adapter not properly initialized. Config or target is missing.`
+      )
+    }
+
+    return buildSyncPath(this.target.path, this.config.scope)
+  }
+
+  /**
+   * Throws if the adapter is not initialized.
+   * @throws Error if the adapter is not initialized.
+   */
+  protected assertInitialized(): void {
+    if (!this.initialized) {
+      throw new Error(`[${this.adapterName}] Adapter not initialized.`)
+    }
+  }
+  /**
+   * Fetches metadata for a file.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the sync metadata if the file exists, or undefined otherwise.
+   * @throws Error if there's an API error.
+   */
+  protected abstract getFileMetadata(
+    filePath: string
+  ): Promise<SyncMetadata | undefined>
+
+  /**
+   * Downloads the content of a file.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the file data and its remote metadata, or undefined values if the file doesn't exist.
+   * @throws Error if there's an API error during download.
+   */
+  protected abstract downloadFile(filePath: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }>
+
+  /**
+   * Creates or updates a file.
+   * @param filePath - The path of the file in the repository.
+   * @param data - The string data to upload.
+   * @param expectedRemoteMeta - Optional. The expected metadata of an existing file. Used for conflict detection.
+   * @returns A promise that resolves with the sync metadata of the uploaded file.
+   * @throws Error if there's an API error, or if a conflict occurs.
+   */
+  protected abstract uploadFile(
+    filePath: string,
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata>
+
+  /**
+   * Deletes a file.
+   * @param filePath - The path of the file in the repository.
+   * @param remoteMeta - The metadata of the file.
+   * @throws Error if there's an API error other than the file not existing.
+   */
+  protected abstract deleteFile(
+    filePath: string,
+    remoteMeta: SyncMetadata
+  ): Promise<void>
+}
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import { HttpResponse, http } from 'msw'
+import { GiteaSyncAdapter } from './gitea-sync-adapter.js'
+import type {
+  GiteaCredentials,
+  GiteaTarget,
+  SyncServiceConfig,
+} from './types.js'
+import { buildShardPath } from './sync-path-builder.js'
+import { getRetryAfter, SyncHttpError } from './sync-retry.js'
+import { server } from './mocks/server.js'
+import {
+  getMockGitRepositoryFile,
+  resetMockGitRepositoryStore,
+  setMockGitRepositoryFile,
+} from './mocks/handlers.js'
+
+const GITEA_API_URL = 'https://gitea.example.com/api/v1'
+
+describe('GiteaSyncAdapter', () => {
+  const repo = 'test-owner/bookmarks'
+  const filePath = 'utags/bookmarks.json'
+  let adapter: GiteaSyncAdapter
+
+  const baseConfig: SyncServiceConfig<GiteaCredentials, GiteaTarget> = {
+    id: 'test-gitea',
+    type: 'gitea',
+    name: 'Test Gitea',
+    credentials: { token: 'test-gitea-token' },
+    target: {
+      url: 'https://gitea.example.com',
+      repo,
+      path: filePath,
+    },
+    scope: 'all',
+    enabled: true,
+  }
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'warn' })
+  })
+
+  beforeEach(async () => {
+    server.resetHandlers()
+    resetMockGitRepositoryStore()
+    adapter = new GiteaSyncAdapter()
+    await adapter.init(baseConfig)
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  describe('init', () => {
+    it('should throw if the token is missing', async () => {
+      await expect(
+        new GiteaSyncAdapter().init({
+          ...baseConfig,
+          credentials: { token: '' },
+        })
+      ).rejects.toThrow('Gitea token is required for authentication.')
+    })
+
+    it('should return the config', () => {
+      expect(adapter.getConfig()).toEqual(baseConfig)
+    })
+  })
+
+  describe('getAuthStatus', () => {
+    it('should return "authenticated" with a valid token', async () => {
+      expect(await adapter.getAuthStatus()).toBe('authenticated')
+    })
+
+    it('should return "unauthenticated" with an invalid token', async () => {
+      await adapter.init({ ...baseConfig, credentials: { token: 'invalid' } })
+
+      expect(await adapter.getAuthStatus()).toBe('unauthenticated')
+    })
+
+    it('should return "requires_config" if the URL is missing', async () => {
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, url: '' },
+      })
+
+      expect(await adapter.getAuthStatus()).toBe('requires_config')
+    })
+  })
+
+  describe('getRemoteMetadata and download', () => {
+    it('should return undefined if the file does not exist', async () => {
+      expect(await adapter.getRemoteMetadata()).toBeUndefined()
+      expect(await adapter.download()).toEqual({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+    })
+
+    it('should return the blob SHA as version', async () => {
+      const file = setMockGitRepositoryFile(
+        'gitea',
+        repo,
+        filePath,
+        '{"data":{"测试":{}}}'
+      )
+
+      const remoteMeta = await adapter.getRemoteMetadata()
+      expect(remoteMeta).toEqual({
+        sha: file.sha,
+        version: file.sha,
+        timestamp: undefined,
+      })
+      expect(await adapter.download()).toEqual({
+        data: '{"data":{"测试":{}}}',
+        remoteMeta,
+      })
+    })
+
+    it('should read the file from the configured branch', async () => {
+      setMockGitRepositoryFile('gitea', repo, filePath, '{}', 'sync')
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, branch: 'sync' },
+      })
+
+      const { data } = await adapter.download()
+      expect(data).toBe('{}')
+    })
+
+    it('should throw if the path is a directory', async () => {
+      server.use(
+        http.get(`${GITEA_API_URL}/repos/:owner/:repo/contents/*`, () =>
+          HttpResponse.json({ name: 'utags', sha: 'abc', type: 'dir' })
+        )
+      )
+
+      await expect(adapter.download()).rejects.toThrow(
+        'Gitea API error: utags/bookmarks.json is a dir, not a file.'
+      )
+    })
+  })
+
+  describe('upload', () => {
+    it('should create the file if it does not exist', async () => {
+      const remoteMeta = await adapter.upload('{"data":{}}')
+
+      const file = getMockGitRepositoryFile('gitea', repo, filePath)
+      expect(file?.data).toBe('{"data":{}}')
+      expect(remoteMeta.version).toBe(file?.sha)
+    })
+
+    it('should not overwrite a file created by another client', async () => {
+      setMockGitRepositoryFile('gitea', repo, filePath, '{"other":1}')
+
+      await expect(adapter.upload('{"data":{}}')).rejects.toMatchObject({
+        name: 'UploadConflictError',
+      })
+      expect(getMockGitRepositoryFile('gitea', repo, filePath)?.data).toBe(
+        '{"other":1}'
+      )
+    })
+
+    it('should update the file if the SHA matches', async () => {
+      setMockGitRepositoryFile('gitea', repo, filePath, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+
+      const newMeta = await adapter.upload('{"data":{"new":{}}}', remoteMeta)
+
+      expect(newMeta.version).not.toBe(remoteMeta?.version)
+      expect(getMockGitRepositoryFile('gitea', repo, filePath)?.data).toBe(
+        '{"data":{"new":{}}}'
+      )
+    })
+
+    it('should throw an UploadConflictError if the SHA does not match', async () => {
+      setMockGitRepositoryFile('gitea', repo, filePath, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+      setMockGitRepositoryFile('gitea', repo, filePath, '{"other":1}')
+
+      await expect(
+        adapter.upload('{"data":{"new":{}}}', remoteMeta)
+      ).rejects.toMatchObject({ name: 'UploadConflictError' })
+      expect(getMockGitRepositoryFile('gitea', repo, filePath)?.data).toBe(
+        '{"other":1}'
+      )
+    })
+  })
+
+  describe('shards', () => {
+    it('should upload, download and delete shards', async () => {
+      const shardPath = buildShardPath(filePath, '0-abc')
+
+      await adapter.uploadShard('0-abc', '{"a":1}')
+      await adapter.uploadShard('0-abc', '{"a":2}')
+      expect(getMockGitRepositoryFile('gitea', repo, shardPath)?.data).toBe(
+        '{"a":2}'
+      )
+      expect(await adapter.downloadShard('0-abc')).toBe('{"a":2}')
+
+      await adapter.deleteShard('0-abc')
+      expect(getMockGitRepositoryFile('gitea', repo, shardPath)).toBeUndefined()
+      expect(await adapter.downloadShard('0-abc')).toBeUndefined()
+    })
+  })
+
+  describe('HTTP errors', () => {
+    const contentsApiPath = `${GITEA_API_URL}/repos/:owner/:repo/contents/*`
+    const serviceUnavailable = () =>
+      new HttpResponse('Service Unavailable', {
+        status: 503,
+        headers: { 'Retry-After': '120' },
+      })
+
+    it.each([
+      {
+        request: 'fetching the file',
+        handler: http.get(contentsApiPath, serviceUnavailable),
+        action: async () => adapter.download(),
+      },
+      {
+        request: 'uploading the file',
+        handler: http.post(contentsApiPath, serviceUnavailable),
+        action: async () => adapter.upload('{}'),
+      },
+      {
+        request: 'deleting the file',
+        handler: http.delete(contentsApiPath, serviceUnavailable),
+        async action() {
+          setMockGitRepositoryFile(
+            'gitea',
+            repo,
+            buildShardPath(filePath, '0-abc'),
+            '{}'
+          )
+          return adapter.deleteShard('0-abc')
+        },
+      },
+    ])(
+      'should throw a SyncHttpError with the response headers if $request fails',
+      async ({ handler, action }) => {
+        server.use(handler)
+
+        const error = await action().catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(SyncHttpError)
+        expect(error).toMatchObject({ status: 503 })
+        expect(getRetryAfter(error)).toBe(120_000)
+      }
+    )
+  })
+
+  describe('destroy', () => {
+    it('should require init after destroy', async () => {
+      adapter.destroy()
+
+      await expect(adapter.download()).rejects.toThrow(
+        '[GiteaSyncAdapter] Adapter not initialized.'
+      )
+    })
+  })
+})
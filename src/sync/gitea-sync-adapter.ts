@@ -0,0 +1,267 @@
+import type {
+  AuthStatus,
+  GiteaContentsResponse,
+  GiteaCredentials,
+  GiteaFileResponse,
+  GiteaTarget,
+  SyncMetadata,
+  SyncServiceType,
+} from './types.js'
+import {
+  decodeBase64,
+  encodeBase64,
+  GitRepositorySyncAdapter,
+} from './git-repository-sync-adapter.js'
+import { SyncHttpError } from './sync-retry.js'
+
+/**
+ * Implements the SyncAdapter interface for Gitea, allowing synchronization of bookmarks
+ * with a file stored in a repository on a Gitea (or Forgejo) instance.
+ * Uses the repository contents API: https://docs.gitea.com/api/1.22/#tag/repository
+ */
+export class GiteaSyncAdapter extends GitRepositorySyncAdapter<
+  GiteaCredentials,
+  GiteaTarget
+> {
+  protected get serviceType(): SyncServiceType {
+    return 'gitea'
+  }
+
+  protected get serviceName(): string {
+    return 'Gitea'
+  }
+
+  protected get adapterName(): string {
+    return 'GiteaSyncAdapter'
+  }
+
+  /**
+   * Checks the authentication status with Gitea using the provided credentials.
+   * @returns A promise that resolves with the authentication status.
+   */
+  public async getAuthStatus(): Promise<AuthStatus> {
+    if (!this.credentials?.token || !this.target?.url) {
+      return 'requires_config'
+    }
+
+    try {
+      const response = await this.fetchApi('/user')
+      if (response.ok) {
+        return 'authenticated'
+      }
+
+      if (response.status === 401) {
+        console.warn(
+          '[GiteaSyncAdapter] Gitea token is invalid or revoked (401).'
+        )
+        return 'unauthenticated'
+      }
+
+      console.error(
+        `[GiteaSyncAdapter] Gitea API error (${response.status}) checking auth status: ${await response.text()}`
+      )
+      return 'error'
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        console.log('[GiteaSyncAdapter] Auth status check aborted.')
+        return 'unknown'
+      }
+
+      console.error(
+        '[GiteaSyncAdapter] Network error checking Gitea auth status:',
+        error
+      )
+      return 'error'
+    }
+  }
+
+  /**
+   * Fetches metadata for a file from Gitea.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the sync metadata if the file exists, or undefined otherwise.
+   * @throws Error if there's an API error.
+   */
+  protected async getFileMetadata(
+    filePath: string
+  ): Promise<SyncMetadata | undefined> {
+    const file = await this.getFile(filePath)
+    return file?.remoteMeta
+  }
+
+  /**
+   * Downloads the content of a file from Gitea.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the file data and its remote metadata, or undefined values if the file doesn't exist.
+   * @throws Error if there's an API error during download.
+   */
+  protected async downloadFile(filePath: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const file = await this.getFile(filePath)
+    return file || { data: undefined, remoteMeta: undefined }
+  }
+
+  /**
+   * Creates or updates a file in the Gitea repository.
+   * Updates pass the expected blob SHA of the file, so Gitea rejects them if the file changed since.
+   * @param filePath - The path of the file in the repository.
+   * @param data - The string data to upload.
+   * @param expectedRemoteMeta - Optional. The expected metadata of an existing file. Used for conflict detection.
+   * @returns A promise that resolves with the sync metadata of the uploaded file.
+   * @throws Error if there's an API error, or an `UploadConflictError` if the file was changed or created by another client.
+   */
+  protected async uploadFile(
+    filePath: string,
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    const sha = expectedRemoteMeta?.sha
+    const response = await this.fetchApi(this.getContentsApiPath(filePath), {
+      method: sha ? 'PUT' : 'POST',
+      body: JSON.stringify({
+        content: encodeBase64(data),
+        message: this.getCommitMessage('sync'),
+        branch: this.target.branch || undefined,
+        sha,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      // Gitea responds with 409 or 422 if the SHA does not match or the file already exists
+      if (response.status === 409 || response.status === 422) {
+        throw this.createConflictError(
+          `Conflict (${response.status}) updating file on Gitea. Remote file has changed. Details: ${errorText}`
+        )
+      }
+
+      throw new SyncHttpError(
+        `Gitea API error (${response.status}) uploading file: ${errorText}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const responseBody = (await response.json()) as GiteaFileResponse
+    if (!responseBody.content?.sha) {
+      throw new Error(
+        `Unexpected successful response format from Gitea API uploading to ${filePath}. Details: ${JSON.stringify(responseBody)}`
+      )
+    }
+
+    return {
+      sha: responseBody.content.sha,
+      version: responseBody.content.sha,
+      timestamp: undefined,
+    }
+  }
+
+  /**
+   * Deletes a file from the Gitea repository.
+   * @param filePath - The path of the file in the repository.
+   * @param remoteMeta - The metadata of the file, including its blob SHA.
+   * @throws Error if there's an API error other than the file not existing.
+   */
+  protected async deleteFile(
+    filePath: string,
+    remoteMeta: SyncMetadata
+  ): Promise<void> {
+    const response = await this.fetchApi(this.getContentsApiPath(filePath), {
+      method: 'DELETE',
+      body: JSON.stringify({
+        message: this.getCommitMessage('delete'),
+        branch: this.target.branch || undefined,
+        sha: remoteMeta.sha,
+      }),
+    })
+
+    if (!response.ok && response.status !== 404) {
+      throw new SyncHttpError(
+        `Gitea API error (${response.status}) deleting file: ${await response.text()}`,
+        response.status,
+        response.headers
+      )
+    }
+  }
+
+  /**
+   * Gets a file with its content from Gitea.
+   * The blob SHA of the file is used as version, as Gitea requires it for updates.
+   * @param filePath - The path of the file in the repository.
+   * @returns A promise that resolves with the file data and its remote metadata, or undefined if the file doesn't exist.
+   * @throws Error if there's an API error.
+   */
+  private async getFile(
+    filePath: string
+  ): Promise<{ data: string; remoteMeta: SyncMetadata } | undefined> {
+    const query = this.target.branch
+      ? `?ref=${encodeURIComponent(this.target.branch)}`
+      : ''
+    const response = await this.fetchApi(
+      `${this.getContentsApiPath(filePath)}${query}`
+    )
+
+    if (response.status === 404) {
+      console.log(`[GiteaSyncAdapter] File not found at ${filePath}`)
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw new SyncHttpError(
+        `Gitea API error (${response.status}) fetching file: ${await response.text()}`,
+        response.status,
+        response.headers
+      )
+    }
+
+    const file = (await response.json()) as GiteaContentsResponse
+    if (file.type !== 'file') {
+      throw new Error(
+        `Gitea API error: ${filePath} is a ${file.type}, not a file.`
+      )
+    }
+
+    return {
+      data: decodeBase64(file.content || ''),
+      remoteMeta: { sha: file.sha, version: file.sha, timestamp: undefined },
+    }
+  }
+
+  /**
+   * Sends a request to the Gitea REST API.
+   * @param apiPath - The path of the endpoint, relative to `/api/v1`.
+   * @param init - The request options.
+   * @returns A promise that resolves with the response.
+   */
+  private async fetchApi(
+    apiPath: string,
+    init: RequestInit = {}
+  ): Promise<Response> {
+    const baseUrl = this.target.url.replace(/\/+$/, '')
+    return fetch(`${baseUrl}/api/v1${apiPath}`, {
+      ...init,
+      signal: this.abortController?.signal,
+      headers: {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Authorization: `token ${this.credentials.token}`,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+    })
+  }
+
+  /**
+   * Gets the contents API path of a file.
+   * @param filePath - The path of the file in the repository.
+   * @returns The API path.
+   */
+  private getContentsApiPath(filePath: string): string {
+    const encodedPath = filePath
+      .split('/')
+      .map((segment) => encodeURIComponent(segment))
+      .join('/')
+    return `/repos/${this.target.repo}/contents/${encodedPath}`
+  }
+}
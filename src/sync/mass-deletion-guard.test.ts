@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import {
+  checkMassDeletion,
+  createMassDeletionReport,
+  formatMassDeletionCheck,
+} from './mass-deletion-guard.js'
+
+function createBookmark(tags: string[]): BookmarkTagsAndMetadata {
+  return { tags, meta: { created: 1000, updated: 2000 } }
+}
+
+function createTombstone(): BookmarkTagsAndMetadata {
+  return {
+    tags: ['a', DELETED_BOOKMARK_TAG],
+    meta: { created: 1000, updated: 2000, updated2: 3000 },
+    deletedMeta: { deleted: 3000, actionType: 'DELETE' },
+  }
+}
+
+function createData(count: number, prefix = 'https://a.com/'): BookmarksData {
+  return Object.fromEntries(
+    Array.from({ length: count }, (_, index) => [
+      `${prefix}${index}`,
+      createBookmark(['a']),
+    ])
+  )
+}
+
+describe('checkMassDeletion', () => {
+  it('should accept changes within the threshold', () => {
+    const data = createData(100)
+    expect(
+      checkMassDeletion(data, {}, Object.keys(data).slice(0, 30), {
+        count: 50,
+        percentage: 30,
+      })
+    ).toBeUndefined()
+  })
+
+  it('should report more deletions than the count allows', () => {
+    const data = createData(1000)
+    const check = checkMassDeletion(data, {}, Object.keys(data).slice(0, 11), {
+      count: 10,
+      percentage: 0,
+    })
+
+    expect(check).toMatchObject({ total: 1000, deleted: 11, overwritten: 0 })
+    expect(check?.entries).toHaveLength(11)
+  })
+
+  it('should report more deletions and overwrites than the percentage allows', () => {
+    const data = createData(40)
+    const urls = Object.keys(data)
+    const updates: BookmarksData = {
+      [urls[0]]: createBookmark(['b']),
+      [urls[1]]: createTombstone(),
+      'https://new.com': createBookmark(['a']),
+    }
+
+    const check = checkMassDeletion(data, updates, urls.slice(2, 12), {
+      count: 0,
+      percentage: 25,
+    })
+
+    expect(check).toMatchObject({ total: 40, deleted: 11, overwritten: 1 })
+  })
+
+  it('should not apply the percentage to a few bookmarks', () => {
+    const data = createData(5)
+    expect(
+      checkMassDeletion(data, {}, Object.keys(data), {
+        count: 0,
+        percentage: 30,
+      })
+    ).toBeUndefined()
+  })
+
+  it('should ignore bookmarks that are already deleted', () => {
+    const data: BookmarksData = Object.fromEntries(
+      Array.from({ length: 20 }, (_, index) => [
+        `https://a.com/${index}`,
+        createTombstone(),
+      ])
+    )
+    expect(
+      checkMassDeletion(data, {}, Object.keys(data), {
+        count: 1,
+        percentage: 1,
+      })
+    ).toBeUndefined()
+  })
+
+  it('should not check a side without data', () => {
+    expect(
+      checkMassDeletion(undefined, createData(200), [], {
+        count: 1,
+        percentage: 1,
+      })
+    ).toBeUndefined()
+  })
+})
+
+describe('createMassDeletionReport', () => {
+  it('should report the sides that exceed the threshold', () => {
+    const localData = createData(20)
+    const remoteData = createData(20)
+
+    const report = createMassDeletionReport(
+      localData,
+      remoteData,
+      {
+        updatesForLocal: {},
+        updatesForRemote: {},
+        localDeletions: [],
+        remoteDeletions: Object.keys(remoteData),
+      },
+      { count: 10, percentage: 0 }
+    )
+
+    expect(report?.local).toBeUndefined()
+    expect(report?.remote).toBeDefined()
+    expect(formatMassDeletionCheck(report!.remote!)).toBe(
+      '20 of 20 bookmarks (20 deleted, 0 overwritten)'
+    )
+  })
+
+  it('should return undefined if no side exceeds the threshold', () => {
+    expect(
+      createMassDeletionReport(createData(20), undefined, {
+        updatesForLocal: {},
+        updatesForRemote: createData(20),
+        localDeletions: [],
+        remoteDeletions: [],
+      })
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,150 @@
+import type { BookmarksData } from '../types/bookmarks.js'
+import { isMarkedAsDeleted } from '../utils/bookmarks.js'
+import { createSyncPreviewSide, type SyncPreviewEntry } from './sync-preview.js'
+import { countActiveBookmarks } from './sync-versions.js'
+
+/**
+ * @file Detects syncs and imports that would delete or overwrite a large part of the bookmarks.
+ *
+ * A truncated remote file or a device with an empty store can make a merge
+ * legitimately delete thousands of bookmarks. Such operations are paused
+ * until the user confirms them.
+ */
+
+/**
+ * The limits above which a sync or import needs confirmation.
+ */
+export type MassDeletionThreshold = {
+  /** The number of bookmarks of a side that may be deleted or overwritten. 0 disables the limit. */
+  count: number
+  /** The percentage of the bookmarks of a side that may be deleted or overwritten. 0 disables the limit. */
+  percentage: number
+}
+
+/**
+ * The threshold used until the user configures one.
+ */
+export const defaultMassDeletionThreshold: MassDeletionThreshold = {
+  count: 100,
+  percentage: 30,
+}
+
+/**
+ * The percentage limit only applies from this number of affected bookmarks,
+ * so small libraries can still delete a few bookmarks without confirmation.
+ */
+const minPercentageCount = 10
+
+/**
+ * The bookmarks of one side that an operation would delete or overwrite.
+ */
+export type MassDeletionCheck = {
+  /** The number of bookmarks of the side before the operation, without soft-deleted ones */
+  total: number
+  deleted: number
+  overwritten: number
+  /** The affected bookmarks */
+  entries: SyncPreviewEntry[]
+}
+
+/**
+ * The sides of a sync that exceed the threshold.
+ */
+export type MassDeletionReport = {
+  local?: MassDeletionCheck
+  remote?: MassDeletionCheck
+}
+
+/**
+ * The changes of a merge, as returned by `mergeBookmarks`.
+ */
+export type MassDeletionChanges = {
+  updatesForLocal: BookmarksData
+  updatesForRemote: BookmarksData
+  localDeletions: string[]
+  remoteDeletions: string[]
+}
+
+/**
+ * Checks if an operation would delete or overwrite more bookmarks of a side than the threshold allows.
+ * Bookmarks that are already soft-deleted are not counted.
+ * @param currentData - The current data of the side, or undefined if it has no data yet.
+ * @param updates - The bookmarks the operation would write.
+ * @param deletions - The URLs the operation would remove.
+ * @param threshold - The limits of the side.
+ * @returns The affected bookmarks if the threshold is exceeded, otherwise undefined.
+ */
+export function checkMassDeletion(
+  currentData: BookmarksData | undefined,
+  updates: BookmarksData,
+  deletions: string[],
+  threshold: MassDeletionThreshold = defaultMassDeletionThreshold
+): MassDeletionCheck | undefined {
+  if (!currentData) {
+    return undefined
+  }
+
+  const entries = createSyncPreviewSide(
+    currentData,
+    updates,
+    deletions
+  ).entries.filter((entry) => {
+    const before = currentData[entry.url]
+    return (
+      entry.type !== 'added' &&
+      before !== undefined &&
+      !isMarkedAsDeleted(before)
+    )
+  })
+  const total = countActiveBookmarks(currentData)
+  const affected = entries.length
+  const exceedsCount = threshold.count > 0 && affected > threshold.count
+  const exceedsPercentage =
+    threshold.percentage > 0 &&
+    affected >= minPercentageCount &&
+    affected * 100 > total * threshold.percentage
+  if (!exceedsCount && !exceedsPercentage) {
+    return undefined
+  }
+
+  const deleted = entries.filter((entry) => entry.type === 'deleted').length
+  return { total, deleted, overwritten: affected - deleted, entries }
+}
+
+/**
+ * Checks both sides of a merge against the threshold.
+ * @param localData - The local bookmarks data.
+ * @param remoteData - The remote bookmarks data, or undefined if the remote has no data yet.
+ * @param changes - The changes of the merge.
+ * @param threshold - The limits of each side.
+ * @returns The sides that exceed the threshold, or undefined if none does.
+ */
+export function createMassDeletionReport(
+  localData: BookmarksData,
+  remoteData: BookmarksData | undefined,
+  changes: MassDeletionChanges,
+  threshold: MassDeletionThreshold = defaultMassDeletionThreshold
+): MassDeletionReport | undefined {
+  const local = checkMassDeletion(
+    localData,
+    changes.updatesForLocal,
+    changes.localDeletions,
+    threshold
+  )
+  const remote = checkMassDeletion(
+    remoteData,
+    changes.updatesForRemote,
+    changes.remoteDeletions,
+    threshold
+  )
+  return local || remote ? { local, remote } : undefined
+}
+
+/**
+ * Describes the affected bookmarks of a check in one line.
+ * @param check - The result of `checkMassDeletion`.
+ * @returns E.g., "120 of 150 bookmarks (100 deleted, 20 overwritten)".
+ */
+export function formatMassDeletionCheck(check: MassDeletionCheck): string {
+  return `${check.entries.length} of ${check.total} bookmarks (${check.deleted} deleted, ${check.overwritten} overwritten)`
+}
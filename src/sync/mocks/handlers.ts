@@ -1,16 +1,80 @@
 // src/sync/mocks/handlers.ts
 import { http, HttpResponse } from 'msw'
-import type { SyncMetadata, CustomApiUploadResponse } from '../types.js'
+import type {
+  SyncMetadata,
+  SyncChanges,
+  CustomApiUploadResponse,
+  GiteaContentsResponse,
+} from '../types.js'
+import type { BookmarksData, BookmarksStore } from '../../types/bookmarks.js'
 import { appConfig } from '../../config/app-config.js' // Import appConfig
+import { sha256Hex, signS3Request } from '../s3-signature.js'
 
 const mockApiUrl = appConfig.customApiUrl || 'http://localhost:3001' // Use appConfig or fallback
 const githubApiBaseUrl = appConfig.githubApiUrl // Use appConfig
 
 const mockDataStore: Record<string, { data: string; meta: SyncMetadata }> = {}
+
+/**
+ * Change log of a custom API file, for the delta sync protocol.
+ */
+type MockChangeLog = {
+  /** The first revision changes can be requested since */
+  firstRevision: number
+  /** The current revision, used as the cursor */
+  revision: number
+  /** Revision of the last change of each URL, including removed URLs */
+  urlRevisions: Record<string, number>
+}
+const mockChangeLogs: Record<string, MockChangeLog> = {}
+// Revisions are unique across change logs, so a cursor of a discarded change log is never valid again
+let mockRevision = 0
+
+// S3-compatible object storage with a single bucket, accessed with path-style URLs
+const mockS3Url = 'http://localhost:9000'
+const mockS3Bucket = 'utags-test'
+const mockS3Credentials = {
+  accessKeyId: 'test-access-key',
+  secretAccessKey: 'test-secret-key',
+}
+const mockS3Objects: Record<
+  string, // Object key
+  { data: string; etag: string; lastModified: number }
+> = {}
+
 const mockGitHubDataStore: Record<
   string, // repo/owner/path or repo/owner/path?ref=branch
   { data: string; meta: SyncMetadata & { type?: string } } // Removed content from meta as it's derived
 > = {}
+// Commits of the mock GitHub repositories, oldest first, recorded by uploads
+const mockGitHubCommits: Array<{
+  repo: string // owner/repo
+  path: string
+  branch?: string
+  sha: string
+  message: string
+  date: string
+  file: { data: string; meta: SyncMetadata & { type?: string } }
+}> = []
+
+// GitLab and Gitea instances, whose repositories have a default branch `main`
+const mockGitLabApiUrl = 'https://gitlab.example.com/api/v4'
+const mockGitLabToken = 'test-gitlab-token'
+const mockGiteaApiUrl = 'https://gitea.example.com/api/v1'
+const mockGiteaToken = 'test-gitea-token'
+type MockGitRepositoryService = 'gitlab' | 'gitea'
+type MockGitRepositoryFile = {
+  data: string
+  /** The blob SHA of the file content */
+  sha: string
+  /** The ID of the last commit changing the file */
+  commitId: string
+}
+const mockGitRepositoryFiles: Record<
+  string, // service:repo/branch/path
+  MockGitRepositoryFile
+> = {}
+let mockGitCommitCount = 0
 
 function buildGitHubStoreKey(
   owner: string,
@@ -91,6 +155,75 @@ export function resetMockGitHubDataStore(): void {
       delete mockGitHubDataStore[key]
     }
   }
+
+  mockGitHubCommits.length = 0
+}
+
+function buildGitRepositoryStoreKey(
+  service: MockGitRepositoryService,
+  repo: string,
+  path: string,
+  branch = 'main'
+): string {
+  return `${service}:${repo}/${branch}/${path}`
+}
+
+/**
+ * Sets a file in a repository of the mock GitLab or Gitea instance, as a new commit.
+ * @param service - The hosting service.
+ * @param repo - The repository path, e.g. `owner/repo`.
+ * @param path - The file path within the repository.
+ * @param data - The file content.
+ * @param branch - The branch name. Defaults to `main`.
+ * @returns The stored file.
+ */
+// eslint-disable-next-line max-params
+export function setMockGitRepositoryFile(
+  service: MockGitRepositoryService,
+  repo: string,
+  path: string,
+  data: string,
+  branch?: string
+): MockGitRepositoryFile {
+  const file = {
+    data,
+    sha: calculateMockSha(data),
+    commitId: `mock-commit-${++mockGitCommitCount}`,
+  }
+  mockGitRepositoryFiles[
+    buildGitRepositoryStoreKey(service, repo, path, branch)
+  ] = file
+  return file
+}
+
+/**
+ * Gets a file from a repository of the mock GitLab or Gitea instance.
+ * @param service - The hosting service.
+ * @param repo - The repository path, e.g. `owner/repo`.
+ * @param path - The file path within the repository.
+ * @param branch - The branch name. Defaults to `main`.
+ */
+export function getMockGitRepositoryFile(
+  service: MockGitRepositoryService,
+  repo: string,
+  path: string,
+  branch?: string
+): MockGitRepositoryFile | undefined {
+  return mockGitRepositoryFiles[
+    buildGitRepositoryStoreKey(service, repo, path, branch)
+  ]
+}
+
+/**
+ * Resets the repositories of the mock GitLab and Gitea instances.
+ */
+export function resetMockGitRepositoryStore(): void {
+  for (const key in mockGitRepositoryFiles) {
+    if (Object.hasOwn(mockGitRepositoryFiles, key)) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete mockGitRepositoryFiles[key]
+    }
+  }
 }
 
 /**
@@ -103,6 +236,315 @@ export function resetMockDataStore(): void {
       delete mockDataStore[key]
     }
   }
+
+  for (const key in mockChangeLogs) {
+    if (Object.hasOwn(mockChangeLogs, key)) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete mockChangeLogs[key]
+    }
+  }
+}
+
+/**
+ * Sets an object in the mock S3 bucket.
+ * @param key - The object key.
+ * @param data - The object content.
+ */
+export function setMockS3Object(key: string, data: string): void {
+  mockS3Objects[key] = {
+    data,
+    etag: calculateMockSha(data),
+    lastModified: Date.now(),
+  }
+}
+
+/**
+ * Gets an object from the mock S3 bucket.
+ * @param key - The object key.
+ */
+export function getMockS3Object(
+  key: string
+): { data: string; etag: string; lastModified: number } | undefined {
+  return mockS3Objects[key]
+}
+
+/**
+ * Resets the mock S3 bucket.
+ */
+export function resetMockS3Store(): void {
+  for (const key in mockS3Objects) {
+    if (Object.hasOwn(mockS3Objects, key)) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete mockS3Objects[key]
+    }
+  }
+}
+
+/**
+ * Creates an S3 error response.
+ * @param status - The HTTP status.
+ * @param code - The S3 error code.
+ * @param method - The request method.
+ * @returns The response. HEAD responses have no body, so the body is omitted for them.
+ */
+function createMockS3Error(
+  status: number,
+  code: string,
+  method = 'GET'
+): Response {
+  return new HttpResponse(
+    method === 'HEAD'
+      ? null
+      : `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code></Error>`,
+    { status, headers: { 'Content-Type': 'application/xml' } }
+  )
+}
+
+/**
+ * Verifies the AWS Signature Version 4 of a request to the mock S3 bucket.
+ * @param request - The request.
+ * @param body - The request body.
+ * @returns An error response, or undefined if the signature is valid.
+ */
+async function verifyMockS3Signature(
+  request: Request,
+  body: string
+): Promise<Response | undefined> {
+  const authorization = request.headers.get('Authorization') || ''
+  const match =
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/\d{8}\/([^/]+)\/s3\/aws4_request, SignedHeaders=([^,]+), Signature=[\da-f]{64}$/.exec(
+      authorization
+    )
+  if (!match || match[1] !== mockS3Credentials.accessKeyId) {
+    return createMockS3Error(403, 'InvalidAccessKeyId', request.method)
+  }
+
+  const region = match[2]
+  const signedHeaderNames = match[3]
+  const payloadHash = request.headers.get('x-amz-content-sha256')
+  const amzDate = request.headers.get('x-amz-date') || ''
+  if (payloadHash !== (await sha256Hex(body))) {
+    return createMockS3Error(400, 'XAmzContentSHA256Mismatch', request.method)
+  }
+
+  const headers: Record<string, string> = {}
+  for (const name of signedHeaderNames.split(';')) {
+    if (name !== 'host') {
+      headers[name] = request.headers.get(name) || ''
+    }
+  }
+
+  const expected = await signS3Request(
+    { method: request.method, url: new URL(request.url), headers, body },
+    mockS3Credentials,
+    region,
+    new Date(
+      amzDate.replace(
+        /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/,
+        '$1-$2-$3T$4:$5:$6Z'
+      )
+    )
+  )
+  if (expected.authorization !== authorization) {
+    return createMockS3Error(403, 'SignatureDoesNotMatch', request.method)
+  }
+
+  return undefined
+}
+
+/**
+ * Handles a request to an object in the mock S3 bucket.
+ * @param request - The request.
+ * @returns The response.
+ */
+async function handleMockS3ObjectRequest(request: Request): Promise<Response> {
+  const body = request.method === 'PUT' ? await request.text() : ''
+  const errorResponse = await verifyMockS3Signature(request, body)
+  if (errorResponse) {
+    return errorResponse
+  }
+
+  const [bucket, ...keySegments] = new URL(request.url).pathname
+    .slice(1)
+    .split('/')
+    .map((segment) => decodeURIComponent(segment))
+  if (bucket !== mockS3Bucket) {
+    return createMockS3Error(404, 'NoSuchBucket', request.method)
+  }
+
+  const key = keySegments.join('/')
+  const object = mockS3Objects[key]
+  const objectHeaders = object && {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    ETag: `"${object.etag}"`,
+    'Last-Modified': new Date(object.lastModified).toUTCString(),
+  }
+
+  switch (request.method) {
+    case 'HEAD':
+    case 'GET': {
+      if (!object) {
+        return createMockS3Error(404, 'NoSuchKey', request.method)
+      }
+
+      return new HttpResponse(request.method === 'GET' ? object.data : null, {
+        status: 200,
+        headers: objectHeaders,
+      })
+    }
+
+    case 'PUT': {
+      const ifMatch = request.headers.get('If-Match')
+      const ifNoneMatch = request.headers.get('If-None-Match')
+      if (
+        (ifMatch && (!object || ifMatch !== objectHeaders?.ETag)) ||
+        (ifNoneMatch === '*' && object)
+      ) {
+        return createMockS3Error(412, 'PreconditionFailed')
+      }
+
+      setMockS3Object(key, body)
+      return new HttpResponse(null, {
+        status: 200,
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        headers: { ETag: `"${mockS3Objects[key].etag}"` },
+      })
+    }
+
+    case 'DELETE': {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete mockS3Objects[key]
+      return new HttpResponse(null, { status: 204 })
+    }
+
+    default: {
+      return createMockS3Error(405, 'MethodNotAllowed', request.method)
+    }
+  }
+}
+
+/**
+ * Gets the bookmarks data of a custom API file.
+ * @param data - The file content.
+ * @returns The bookmarks data, or undefined if the file is not a plain bookmarks store (e.g. encrypted).
+ */
+function getMockBookmarksData(
+  data: string | undefined
+): BookmarksData | undefined {
+  try {
+    const store = JSON.parse(data || '') as Partial<BookmarksStore> | undefined
+    return store?.data && typeof store.data === 'object'
+      ? store.data
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Records the changes of a custom API file in its change log.
+ * Files that are not plain bookmarks stores have no change log, so clients fall back to whole file sync.
+ * @param filePath - The file path.
+ * @param oldData - The previous file content.
+ * @param newData - The new file content.
+ * @returns The new cursor, or undefined if the file has no change log.
+ */
+function recordMockChanges(
+  filePath: string,
+  oldData: string | undefined,
+  newData: string
+): string | undefined {
+  const newBookmarks = getMockBookmarksData(newData)
+  if (!newBookmarks) {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete mockChangeLogs[filePath]
+    return undefined
+  }
+
+  mockRevision++
+  const oldBookmarks = getMockBookmarksData(oldData) || {}
+  const changeLog = mockChangeLogs[filePath] || {
+    firstRevision: mockRevision,
+    revision: mockRevision,
+    urlRevisions: {},
+  }
+  changeLog.revision = mockRevision
+  for (const url of new Set([
+    ...Object.keys(oldBookmarks),
+    ...Object.keys(newBookmarks),
+  ])) {
+    if (
+      JSON.stringify(oldBookmarks[url]) !== JSON.stringify(newBookmarks[url])
+    ) {
+      changeLog.urlRevisions[url] = mockRevision
+    }
+  }
+
+  mockChangeLogs[filePath] = changeLog
+  return String(changeLog.revision)
+}
+
+/**
+ * Gets the current cursor of a custom API file.
+ * @param filePath - The file path.
+ * @returns The cursor, or undefined if the file has no change log.
+ */
+function getMockCursor(filePath: string): string | undefined {
+  const changeLog = mockChangeLogs[filePath]
+  return changeLog ? String(changeLog.revision) : undefined
+}
+
+/**
+ * Saves a custom API file and records its changes.
+ * @param filePath - The file path.
+ * @param stringData - The new file content.
+ * @returns The upload response.
+ */
+function saveMockFile(
+  filePath: string,
+  stringData: string
+): CustomApiUploadResponse {
+  const cursor = recordMockChanges(
+    filePath,
+    mockDataStore[filePath]?.data,
+    stringData
+  )
+  const newTimestamp = Date.now()
+  const newVersion = calculateMockSha(stringData)
+
+  mockDataStore[filePath] = {
+    data: stringData,
+    meta: {
+      timestamp: newTimestamp,
+      version: newVersion,
+      sha: newVersion, // Using version as SHA for simplicity in mock
+    },
+  }
+
+  return {
+    message: 'File uploaded successfully (mock)',
+    lastModified: newTimestamp,
+    sha: newVersion,
+    size: stringData.length,
+    id: filePath,
+    cursor,
+  }
+}
+
+/**
+ * Builds the response headers of a custom API file.
+ * @param filePath - The file path.
+ * @returns The headers.
+ */
+function buildMockFileHeaders(filePath: string): Record<string, string> {
+  const { meta } = mockDataStore[filePath]
+  const cursor = getMockCursor(filePath)
+  return {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    ETag: `"${meta.version}"`,
+    'Last-Modified': new Date(meta.timestamp || 0).toUTCString(),
+    ...(cursor && { 'X-Sync-Cursor': cursor }),
+  }
 }
 
 /**
@@ -147,6 +589,263 @@ function base64Decode(str: string): string {
   }
 }
 
+/**
+ * Handles a request to the repository files API of the mock GitLab instance.
+ * @param request - The request.
+ * @param project - The URL-encoded project path.
+ * @param filePath - The URL-encoded file path.
+ * @returns The response.
+ */
+async function handleMockGitLabFileRequest(
+  request: Request,
+  project: string,
+  filePath: string
+): Promise<Response> {
+  if (request.headers.get('PRIVATE-TOKEN') !== mockGitLabToken) {
+    return HttpResponse.json({ message: '401 Unauthorized' }, { status: 401 })
+  }
+
+  const repo = decodeURIComponent(project)
+  const path = decodeURIComponent(filePath)
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    const ref = new URL(request.url).searchParams.get('ref')
+    const file = getMockGitRepositoryFile('gitlab', repo, path, ref!)
+    if (!file) {
+      return HttpResponse.json(
+        { message: '404 File Not Found' },
+        { status: 404 }
+      )
+    }
+
+    if (request.method === 'HEAD') {
+      return new HttpResponse(null, {
+        headers: {
+          'X-Gitlab-Blob-Id': file.sha,
+          'X-Gitlab-Commit-Id': file.commitId,
+          'X-Gitlab-Last-Commit-Id': file.commitId,
+          'X-Gitlab-Size': String(file.data.length),
+        },
+      })
+    }
+
+    /* eslint-disable @typescript-eslint/naming-convention */
+    return HttpResponse.json({
+      file_name: path.split('/').pop(),
+      file_path: path,
+      size: file.data.length,
+      encoding: 'base64',
+      content: base64Encode(file.data),
+      content_sha256: file.sha,
+      ref,
+      blob_id: file.sha,
+      commit_id: file.commitId,
+      last_commit_id: file.commitId,
+    })
+    /* eslint-enable @typescript-eslint/naming-convention */
+  }
+
+  const body = (await request.json()) as {
+    branch: string
+    content?: string
+    encoding?: string
+    commit_message: string
+    last_commit_id?: string
+  }
+  const file = getMockGitRepositoryFile('gitlab', repo, path, body.branch)
+  switch (request.method) {
+    case 'POST': {
+      if (file) {
+        return HttpResponse.json(
+          { message: 'A file with this name already exists' },
+          { status: 400 }
+        )
+      }
+
+      break
+    }
+
+    case 'PUT':
+    case 'DELETE': {
+      if (!file) {
+        return HttpResponse.json(
+          { message: "A file with this name doesn't exist" },
+          { status: 400 }
+        )
+      }
+
+      if (body.last_commit_id && body.last_commit_id !== file.commitId) {
+        return HttpResponse.json(
+          {
+            message:
+              'You are attempting to update a file that has changed since you started editing it.',
+          },
+          { status: 400 }
+        )
+      }
+
+      break
+    }
+
+    default: {
+      return new HttpResponse(null, { status: 405 })
+    }
+  }
+
+  if (request.method === 'DELETE') {
+    const storeKey = buildGitRepositoryStoreKey(
+      'gitlab',
+      repo,
+      path,
+      body.branch
+    )
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete mockGitRepositoryFiles[storeKey]
+    return new HttpResponse(null, { status: 204 })
+  }
+
+  setMockGitRepositoryFile(
+    'gitlab',
+    repo,
+    path,
+    base64Decode(body.content!),
+    body.branch
+  )
+  return HttpResponse.json(
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    { file_path: path, branch: body.branch },
+    { status: request.method === 'POST' ? 201 : 200 }
+  )
+}
+
+/**
+ * Handles a request to the contents API of the mock Gitea instance.
+ * @param request - The request.
+ * @returns The response.
+ */
+async function handleMockGiteaContentsRequest(
+  request: Request
+): Promise<Response> {
+  if (request.headers.get('Authorization') !== `token ${mockGiteaToken}`) {
+    return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }
+
+  const url = new URL(request.url)
+  const [repoPath, filePath] = url.pathname
+    .slice(new URL(mockGiteaApiUrl).pathname.length + '/repos/'.length)
+    .split('/contents/')
+  const repo = decodeURIComponent(repoPath)
+  const path = decodeURIComponent(filePath)
+  if (request.method === 'GET') {
+    const file = getMockGitRepositoryFile(
+      'gitea',
+      repo,
+      path,
+      url.searchParams.get('ref') || undefined
+    )
+    if (!file) {
+      return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+    }
+
+    return HttpResponse.json(createMockGiteaContents(path, file))
+  }
+
+  const body = (await request.json()) as {
+    content?: string
+    message: string
+    branch?: string
+    sha?: string
+  }
+  const file = getMockGitRepositoryFile('gitea', repo, path, body.branch)
+  switch (request.method) {
+    case 'POST': {
+      if (file) {
+        return HttpResponse.json(
+          { message: 'repository file already exists' },
+          { status: 422 }
+        )
+      }
+
+      break
+    }
+
+    case 'PUT':
+    case 'DELETE': {
+      if (!file) {
+        return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+      }
+
+      if (body.sha !== file.sha) {
+        return HttpResponse.json(
+          { message: `sha does not match [given: ${body.sha}]` },
+          { status: 409 }
+        )
+      }
+
+      break
+    }
+
+    default: {
+      return new HttpResponse(null, { status: 405 })
+    }
+  }
+
+  if (request.method === 'DELETE') {
+    const storeKey = buildGitRepositoryStoreKey(
+      'gitea',
+      repo,
+      path,
+      body.branch
+    )
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete mockGitRepositoryFiles[storeKey]
+    return HttpResponse.json({
+      content: null,
+      commit: {
+        sha: `mock-commit-${++mockGitCommitCount}`,
+        message: body.message,
+      },
+    })
+  }
+
+  const newFile = setMockGitRepositoryFile(
+    'gitea',
+    repo,
+    path,
+    base64Decode(body.content!),
+    body.branch
+  )
+  return HttpResponse.json(
+    {
+      content: createMockGiteaContents(path, newFile),
+      commit: { sha: newFile.commitId, message: body.message },
+    },
+    { status: request.method === 'POST' ? 201 : 200 }
+  )
+}
+
+/**
+ * Creates the contents response of a file of the mock Gitea instance.
+ * @param path - The file path within the repository.
+ * @param file - The file.
+ * @returns The contents response.
+ */
+function createMockGiteaContents(
+  path: string,
+  file: MockGitRepositoryFile
+): GiteaContentsResponse {
+  return {
+    name: path.split('/').pop()!,
+    path,
+    sha: file.sha,
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    last_commit_sha: file.commitId,
+    type: 'file',
+    size: file.data.length,
+    encoding: 'base64',
+    content: base64Encode(file.data),
+  }
+}
+
 export const handlers = [
   // Handler for simulating API down (503 Service Unavailable)
   http.get(`${mockApiUrl}/api-down-test*`, () => {
@@ -197,6 +896,44 @@ export const handlers = [
     return new HttpResponse(null, { status: 404 })
   }),
 
+  // Mock for Custom API GET /{filePath}/changes (delta sync download)
+  http.get(`${mockApiUrl}/:filePath/changes`, ({ params, request }) => {
+    const filePath = params.filePath as string
+    const changeLog = mockChangeLogs[filePath]
+    const since = Number(new URL(request.url).searchParams.get('since'))
+    if (
+      !mockDataStore[filePath] ||
+      !changeLog ||
+      !(since >= changeLog.firstRevision && since <= changeLog.revision)
+    ) {
+      return new HttpResponse('Gone: Unknown cursor', { status: 410 })
+    }
+
+    const store = JSON.parse(mockDataStore[filePath].data) as BookmarksStore
+    const changes: SyncChanges & { cursor: string } = {
+      cursor: String(changeLog.revision),
+      changed: {},
+      deleted: [],
+      meta: store.meta,
+    }
+    for (const [url, revision] of Object.entries(changeLog.urlRevisions)) {
+      if (revision <= since) {
+        continue
+      }
+
+      if (store.data[url]) {
+        changes.changed[url] = store.data[url]
+      } else {
+        changes.deleted.push(url)
+      }
+    }
+
+    return HttpResponse.json(changes, {
+      status: 200,
+      headers: buildMockFileHeaders(filePath),
+    })
+  }),
+
   // Mock for Custom API GET /{filePath} (download)
   http.get(`${mockApiUrl}/:filePath`, ({ params }) => {
     const filePath = params.filePath as string
@@ -204,13 +941,7 @@ export const handlers = [
       // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
       return HttpResponse.json(JSON.parse(mockDataStore[filePath].data), {
         status: 200,
-        headers: {
-          // eslint-disable-next-line @typescript-eslint/naming-convention
-          ETag: `"${mockDataStore[filePath].meta.version}"`,
-          'Last-Modified': new Date(
-            mockDataStore[filePath].meta.timestamp || 0
-          ).toUTCString(),
-        },
+        headers: buildMockFileHeaders(filePath),
       })
     }
 
@@ -233,32 +964,38 @@ export const handlers = [
       }
     }
 
-    const newTimestamp = Date.now()
-    const newVersion = calculateMockSha(stringData)
+    const responseBody = saveMockFile(filePath, stringData)
+    return HttpResponse.json(responseBody, {
+      status: 200,
+      headers: buildMockFileHeaders(filePath),
+    })
+  }),
 
-    mockDataStore[filePath] = {
-      data: stringData,
-      meta: {
-        timestamp: newTimestamp,
-        version: newVersion,
-        sha: newVersion, // Using version as SHA for simplicity in mock
-      },
+  // Mock for Custom API PATCH /{filePath} (delta sync upload)
+  http.patch(`${mockApiUrl}/:filePath`, async ({ request, params }) => {
+    const filePath = params.filePath as string
+    const { since, changed, deleted, meta } =
+      (await request.json()) as SyncChanges & { since: string }
+    if (!mockDataStore[filePath] || since !== getMockCursor(filePath)) {
+      return new HttpResponse('Conflict: The file changed since the cursor', {
+        status: 409,
+      })
     }
 
-    const responseBody: CustomApiUploadResponse = {
-      message: 'File uploaded successfully (mock)',
-      lastModified: newTimestamp,
-      sha: newVersion,
-      size: stringData.length,
-      id: filePath,
+    const { data } = JSON.parse(mockDataStore[filePath].data) as BookmarksStore
+    const newData: BookmarksData = { ...data, ...changed }
+    for (const url of deleted) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete newData[url]
     }
+
+    const responseBody = saveMockFile(
+      filePath,
+      JSON.stringify({ data: newData, meta })
+    )
     return HttpResponse.json(responseBody, {
       status: 200,
-      headers: {
-        // eslint-disable-next-line @typescript-eslint/naming-convention
-        ETag: `"${newVersion}"`,
-        'Last-Modified': new Date(newTimestamp).toUTCString(),
-      },
+      headers: buildMockFileHeaders(filePath),
     })
   }),
   // Fallback for any other unhandled Custom API requests
@@ -270,6 +1007,23 @@ export const handlers = [
     return new HttpResponse('Invalid request', { status: 503 })
   }),
 
+  // --- S3 Mocks ---
+  // Mock for HEAD /{bucket} (getAuthStatus)
+  http.head(`${mockS3Url}/:bucket`, async ({ request, params }) => {
+    const errorResponse = await verifyMockS3Signature(request, '')
+    if (errorResponse) {
+      return errorResponse
+    }
+
+    return new HttpResponse(null, {
+      status: params.bucket === mockS3Bucket ? 200 : 404,
+    })
+  }),
+  // Mock for HEAD, GET, PUT and DELETE /{bucket}/{key}
+  http.all(`${mockS3Url}/:bucket/*`, async ({ request }) =>
+    handleMockS3ObjectRequest(request)
+  ),
+
   // --- GitHub API Mocks ---
   // Mock for GET /user (getAuthStatus)
   http.get(`${githubApiBaseUrl}/user`, ({ request }) => {
@@ -301,9 +1055,17 @@ export const handlers = [
         path as string,
         ref!
       )
+      // The ref can also be the SHA of a commit changing the file
+      const file =
+        mockGitHubDataStore[storeKey] ||
+        mockGitHubCommits.find(
+          (commit) =>
+            commit.sha === ref &&
+            commit.repo === `${owner as string}/${repo as string}` &&
+            commit.path === path
+        )?.file
 
-      if (mockGitHubDataStore[storeKey]) {
-        const file = mockGitHubDataStore[storeKey]
+      if (file) {
         return HttpResponse.json({
           name: (path as string).split('/').pop(),
           path: path as string,
@@ -330,9 +1092,10 @@ export const handlers = [
     `${githubApiBaseUrl}/repos/:owner/:repo/git/blobs/:sha`,
     ({ params, request }) => {
       const { sha } = params
-      const foundEntry = Object.values(mockGitHubDataStore).find(
-        (entry) => entry.meta.sha === sha
-      )
+      const foundEntry = [
+        ...Object.values(mockGitHubDataStore),
+        ...mockGitHubCommits.map((commit) => commit.file),
+      ].find((entry) => entry.meta.sha === sha)
 
       if (foundEntry) {
         const acceptHeader = request.headers.get('Accept')
@@ -411,6 +1174,15 @@ export const handlers = [
           type: 'file',
         },
       }
+      mockGitHubCommits.push({
+        repo: `${owner as string}/${repo as string}`,
+        path: path as string,
+        branch: requestBody.branch,
+        sha: newCommitSha,
+        message: requestBody.message,
+        date: new Date().toISOString(),
+        file: mockGitHubDataStore[storeKey],
+      })
 
       return HttpResponse.json({
         content: {
@@ -429,6 +1201,40 @@ export const handlers = [
       })
     }
   ),
+
+  // Mock for GET /repos/{owner}/{repo}/commits (listVersions)
+  http.get(
+    `${githubApiBaseUrl}/repos/:owner/:repo/commits`,
+    ({ params, request }) => {
+      const url = new URL(request.url)
+      const path = url.searchParams.get('path')
+      const branch = url.searchParams.get('sha') || undefined
+      const perPage = Number(url.searchParams.get('per_page')) || 30
+      const commits = mockGitHubCommits
+        .filter(
+          (commit) =>
+            commit.repo === `${params.owner}/${params.repo}` &&
+            commit.path === path &&
+            (commit.branch || undefined) === branch
+        )
+        .reverse()
+        .slice(0, perPage)
+
+      return HttpResponse.json(
+        commits.map((commit) => ({
+          sha: commit.sha,
+          commit: {
+            message: commit.message,
+            committer: {
+              name: 'mockUser',
+              email: 'mock@example.com',
+              date: commit.date,
+            },
+          },
+        }))
+      )
+    }
+  ),
   /* eslint-enable @typescript-eslint/restrict-template-expressions */
   // Fallback for any other unhandled GitHub API requests
   http.all(`${githubApiBaseUrl}/*`, ({ request }) => {
@@ -438,4 +1244,52 @@ export const handlers = [
     )
     return new HttpResponse('Invalid request', { status: 503 })
   }),
+
+  // --- GitLab API Mocks ---
+  // Mock for GET /user (getAuthStatus)
+  http.get(`${mockGitLabApiUrl}/user`, ({ request }) => {
+    if (request.headers.get('PRIVATE-TOKEN') === mockGitLabToken) {
+      return HttpResponse.json({ username: 'mockUser' })
+    }
+
+    return HttpResponse.json({ message: '401 Unauthorized' }, { status: 401 })
+  }),
+  // Mock for GET /projects/{project} (default branch)
+  http.get(`${mockGitLabApiUrl}/projects/:project`, ({ request, params }) => {
+    if (request.headers.get('PRIVATE-TOKEN') !== mockGitLabToken) {
+      return HttpResponse.json({ message: '401 Unauthorized' }, { status: 401 })
+    }
+
+    return HttpResponse.json({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      path_with_namespace: decodeURIComponent(params.project as string),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      default_branch: 'main',
+    })
+  }),
+  // Mock for GET, HEAD, POST, PUT and DELETE /projects/{project}/repository/files/{path}
+  http.all(
+    `${mockGitLabApiUrl}/projects/:project/repository/files/:filePath`,
+    async ({ request, params }) =>
+      handleMockGitLabFileRequest(
+        request,
+        params.project as string,
+        params.filePath as string
+      )
+  ),
+
+  // --- Gitea API Mocks ---
+  // Mock for GET /user (getAuthStatus)
+  http.get(`${mockGiteaApiUrl}/user`, ({ request }) => {
+    if (request.headers.get('Authorization') === `token ${mockGiteaToken}`) {
+      return HttpResponse.json({ login: 'mockUser' })
+    }
+
+    return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+  }),
+  // Mock for GET, POST, PUT and DELETE /repos/{owner}/{repo}/contents/{path}
+  http.all(
+    `${mockGiteaApiUrl}/repos/:owner/:repo/contents/*`,
+    async ({ request }) => handleMockGiteaContentsRequest(request)
+  ),
 ]
@@ -0,0 +1,176 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import type { BookmarksData, BookmarksStore } from '../types/bookmarks.js'
+import { BrowserExtensionSyncAdapter } from './browser-extension-sync-adapter.js'
+import type { NativeBookmarkNode } from './native-bookmarks.js'
+import { NativeBookmarksSyncAdapter } from './native-bookmarks-sync-adapter.js'
+import { getSyncBase } from './sync-base-store.js'
+import type {
+  BrowserExtensionCredentials,
+  BrowserExtensionTarget,
+  SyncServiceConfig,
+} from './types.js'
+
+vi.mock('./sync-base-store.js', () => ({
+  getSyncBase: vi.fn(),
+}))
+
+vi.mock('../lib/bookmark-storage.js', () => ({
+  bookmarkStorage: {
+    getBookmarksStore: vi.fn(async () => ({
+      data: {
+        'https://local.com': {
+          tags: ['local'],
+          meta: { created: 1000, updated: 1000 },
+        },
+      },
+      meta: { databaseVersion: 3, created: 1000 },
+    })),
+  },
+}))
+
+const config: SyncServiceConfig<
+  BrowserExtensionCredentials,
+  BrowserExtensionTarget
+> = {
+  id: 'native-bookmarks',
+  type: 'browserExtension',
+  name: 'Native Bookmarks',
+  credentials: {},
+  target: { extensionId: 'mock-extension-id', nativeBookmarks: true },
+  enabled: true,
+  scope: 'all',
+}
+
+const metadata = { version: 'v2', timestamp: 5000 }
+
+const tree: NativeBookmarkNode[] = [
+  {
+    id: '0',
+    title: '',
+    children: [
+      {
+        id: '1',
+        parentId: '0',
+        title: 'Bookmarks bar',
+        children: [
+          {
+            id: '10',
+            parentId: '1',
+            title: 'A',
+            url: 'https://a.com',
+            dateAdded: 2000,
+          },
+        ],
+      },
+    ],
+  },
+]
+
+describe('NativeBookmarksSyncAdapter', () => {
+  let adapter: NativeBookmarksSyncAdapter
+  let sendMessage: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(9000)
+    sendMessage = vi.fn(async (message: { type: string }) =>
+      message.type === 'GET_NATIVE_BOOKMARKS'
+        ? { tree, metadata }
+        : { metadata: { version: 'v3', timestamp: 9000 } }
+    )
+    vi.spyOn(BrowserExtensionSyncAdapter.prototype, 'init').mockImplementation(
+      async function (this: NativeBookmarksSyncAdapter) {
+        Object.assign(this, {
+          config,
+          initialized: true,
+          sendMessageToExtension: sendMessage,
+        })
+      }
+    )
+    adapter = new NativeBookmarksSyncAdapter()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should apply the native tree to the data of the last sync', async () => {
+    const base: BookmarksData = {
+      'https://b.com': {
+        tags: ['/Bookmarks bar', 'read'],
+        meta: { created: 1000, updated: 1000, title: 'B' },
+      },
+    }
+    vi.mocked(getSyncBase).mockResolvedValue(base)
+    await adapter.init(config)
+
+    const { data, remoteMeta } = await adapter.download()
+
+    expect(remoteMeta).toEqual(metadata)
+    const store = JSON.parse(data!) as BookmarksStore
+    expect(store.meta.updated).toBe(5000)
+    expect(store.data).toEqual({
+      'https://a.com': {
+        tags: ['/Bookmarks bar'],
+        meta: { title: 'A', created: 2000, updated: 2000, updated2: 9000 },
+      },
+      'https://b.com': {
+        tags: ['read'],
+        meta: { created: 1000, updated: 1000, title: 'B', updated2: 9000 },
+      },
+    })
+  })
+
+  it('should add the native bookmarks to the local bookmarks without the data of the last sync', async () => {
+    vi.mocked(getSyncBase).mockResolvedValue(undefined)
+    await adapter.init(config)
+
+    const { data } = await adapter.download()
+
+    expect(Object.keys((JSON.parse(data!) as BookmarksStore).data)).toEqual([
+      'https://local.com',
+      'https://a.com',
+    ])
+  })
+
+  it('should send the changes of the native tree with the expected metadata', async () => {
+    await adapter.init(config)
+    const store: BookmarksStore = {
+      data: {
+        'https://c.com': {
+          tags: ['/Bookmarks bar/Work'],
+          meta: { created: 1000, updated: 1000, title: 'C' },
+        },
+      },
+      meta: { databaseVersion: 3, created: 1000 },
+    }
+
+    const newMetadata = await adapter.upload(JSON.stringify(store), metadata)
+
+    expect(newMetadata).toEqual({ version: 'v3', timestamp: 9000 })
+    expect(sendMessage).toHaveBeenLastCalledWith({
+      type: 'APPLY_NATIVE_BOOKMARK_CHANGES',
+      payload: {
+        changes: [
+          { type: 'remove', id: '10' },
+          {
+            type: 'create',
+            path: ['Bookmarks bar', 'Work'],
+            title: 'C',
+            url: 'https://c.com',
+          },
+        ],
+        metadata,
+      },
+    })
+  })
+
+  it('should reject encrypted or compressed data', async () => {
+    await adapter.init(config)
+
+    await expect(adapter.upload('encrypted', metadata)).rejects.toThrow(
+      'native bookmarks cannot be encrypted or compressed'
+    )
+  })
+})
@@ -0,0 +1,160 @@
+import { CURRENT_DATABASE_VERSION } from '../config/constants.js'
+import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import type { BookmarksStore } from '../types/bookmarks.js'
+import {
+  BrowserExtensionSyncAdapter,
+  BrowserExtensionSyncError,
+} from './browser-extension-sync-adapter.js'
+import {
+  applyNativeBookmarkTree,
+  getNativeBookmarkChanges,
+  type NativeBookmarkChange,
+  type NativeBookmarkNode,
+} from './native-bookmarks.js'
+import { getSyncBase } from './sync-base-store.js'
+import type { SyncMetadata } from './types.js'
+
+// Constants for message types
+/* eslint-disable @typescript-eslint/naming-convention */
+const GET_NATIVE_BOOKMARKS_MESSAGE_TYPE = 'GET_NATIVE_BOOKMARKS'
+const APPLY_NATIVE_BOOKMARK_CHANGES_MESSAGE_TYPE =
+  'APPLY_NATIVE_BOOKMARK_CHANGES'
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * The native bookmark tree and its metadata, as sent by the extension.
+ * The extension increments the version whenever the tree changes.
+ */
+type NativeBookmarksResponse = {
+  tree: NativeBookmarkNode[]
+  metadata: SyncMetadata
+}
+
+/**
+ * Adapter for synchronizing with the native bookmarks of the browser, through a
+ * browser extension that gives access to the `chrome.bookmarks` API.
+ *
+ * The extension sends the native bookmark tree and applies changes to it, while
+ * the mapping between folders and hierarchical tags is done here (see `native-bookmarks.ts`).
+ *
+ * Message Protocol:
+ * - GET_NATIVE_BOOKMARKS: Responds with `{ tree, metadata }`
+ * - APPLY_NATIVE_BOOKMARK_CHANGES: Sends `{ changes, metadata }`, where `metadata` is the
+ *   expected remote metadata for optimistic locking. Responds with `{ metadata }` after the changes are applied.
+ * - DATA_CHANGED: Pushed by the extension when the native bookmarks were changed in the browser
+ *
+ * Important Notes:
+ * 1. The native tree only holds the bookmarks with folder tags. The other bookmarks and
+ *    tags are taken from the sync base, the data of the last sync.
+ * 2. The data is written as bookmarks, so encryption and compression are not supported
+ */
+export class NativeBookmarksSyncAdapter extends BrowserExtensionSyncAdapter {
+  /**
+   * Retrieves the metadata of the native bookmark tree.
+   *
+   * @returns A promise that resolves with the metadata of the native bookmarks
+   * @throws {Error} When adapter is not initialized
+   */
+  async getRemoteMetadata(): Promise<SyncMetadata | undefined> {
+    const { metadata } = await this.getNativeBookmarks()
+    return metadata
+  }
+
+  /**
+   * Downloads the native bookmark tree and converts it to bookmarks data.
+   *
+   * Process:
+   * 1. Requests the native bookmark tree from the extension
+   * 2. Applies the tree to the data of the last sync
+   * 3. Without the data of the last sync, adds the native bookmarks to the local bookmarks,
+   *    as native deletions cannot be detected
+   *
+   * @returns A promise that resolves with the stringified bookmarks and the metadata of the native bookmarks
+   * @throws {Error} When adapter is not initialized
+   */
+  async download(): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const { tree, metadata } = await this.getNativeBookmarks()
+    let baseData = await getSyncBase(this.getConfig())
+    const union = !baseData
+    if (!baseData) {
+      const localStore = await bookmarkStorage.getBookmarksStore()
+      baseData = localStore.data
+    }
+
+    const data = applyNativeBookmarkTree(baseData, tree, { union })
+    if (Object.keys(data).length === 0) {
+      return { data: undefined, remoteMeta: metadata }
+    }
+
+    const timestamp = metadata.timestamp || Date.now()
+    const store: BookmarksStore = {
+      data,
+      meta: {
+        databaseVersion: CURRENT_DATABASE_VERSION,
+        created: timestamp,
+        updated: timestamp,
+      },
+    }
+    return { data: JSON.stringify(store), remoteMeta: metadata }
+  }
+
+  /**
+   * Applies the bookmarks to the native bookmark tree.
+   *
+   * Process:
+   * 1. Requests the current native bookmark tree from the extension
+   * 2. Calculates the changes that make the tree match the bookmarks
+   * 3. Sends APPLY_NATIVE_BOOKMARK_CHANGES with the changes and the expected metadata
+   *
+   * @param data - The stringified bookmarks store
+   * @param expectedRemoteMeta - Optional metadata of the native bookmarks for optimistic locking
+   * @returns A promise that resolves with the metadata of the updated native bookmarks
+   * @throws {Error} When adapter is not initialized or the data is encrypted or compressed
+   */
+  async upload(
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    let store: BookmarksStore
+    try {
+      store = JSON.parse(data) as BookmarksStore
+    } catch {
+      throw BrowserExtensionSyncError.invalidConfig(
+        'native bookmarks cannot be encrypted or compressed'
+      )
+    }
+
+    const { tree } = await this.getNativeBookmarks()
+    const changes = getNativeBookmarkChanges(store.data, tree)
+    console.log(
+      `[NativeBookmarksSyncAdapter] Applying ${changes.length} changes to the native bookmarks.`
+    )
+    const response = await this.sendMessageToExtension<
+      { changes: NativeBookmarkChange[]; metadata?: SyncMetadata },
+      { metadata: SyncMetadata }
+    >({
+      type: APPLY_NATIVE_BOOKMARK_CHANGES_MESSAGE_TYPE,
+      payload: { changes, metadata: expectedRemoteMeta },
+    })
+    return response.metadata
+  }
+
+  /**
+   * Requests the native bookmark tree and its metadata from the extension.
+   *
+   * @returns A promise that resolves with the tree and its metadata
+   * @throws {Error} When adapter is not initialized
+   */
+  private async getNativeBookmarks(): Promise<NativeBookmarksResponse> {
+    if (!this.initialized) {
+      throw BrowserExtensionSyncError.notInitialized()
+    }
+
+    return this.sendMessageToExtension<undefined, NativeBookmarksResponse>({
+      type: GET_NATIVE_BOOKMARKS_MESSAGE_TYPE,
+    })
+  }
+}
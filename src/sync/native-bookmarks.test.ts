@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import {
+  applyNativeBookmarkTree,
+  getNativeBookmarkChanges,
+  type NativeBookmarkNode,
+} from './native-bookmarks.js'
+
+const now = 1_735_689_600_000
+
+function createBookmark(
+  tags: string[],
+  title: string
+): BookmarkTagsAndMetadata {
+  return { tags, meta: { created: 1000, updated: 2000, title } }
+}
+
+function createTree(
+  bookmarksBar: NativeBookmarkNode[],
+  otherBookmarks: NativeBookmarkNode[] = []
+): NativeBookmarkNode[] {
+  return [
+    {
+      id: '0',
+      title: '',
+      children: [
+        {
+          id: '1',
+          parentId: '0',
+          title: 'Bookmarks bar',
+          children: bookmarksBar,
+        },
+        {
+          id: '2',
+          parentId: '0',
+          title: 'Other bookmarks',
+          children: otherBookmarks,
+        },
+      ],
+    },
+  ]
+}
+
+const workFolder: NativeBookmarkNode = {
+  id: '10',
+  parentId: '1',
+  title: 'Work',
+  children: [
+    { id: '11', parentId: '10', title: 'A', url: 'https://a.com' },
+    { id: '12', parentId: '10', title: 'B', url: 'https://b.com' },
+  ],
+}
+
+const data: BookmarksData = {
+  'https://a.com': createBookmark(['/Bookmarks bar/Work', 'read'], 'A'),
+  'https://b.com': createBookmark(['/Bookmarks bar/Work'], 'B'),
+  'https://c.com': createBookmark(['/Work', 'read'], 'C'),
+}
+
+describe('applyNativeBookmarkTree', () => {
+  it('should not change bookmarks that match the native tree', () => {
+    expect(
+      applyNativeBookmarkTree(data, createTree([workFolder]), { now })
+    ).toEqual(data)
+  })
+
+  it('should add bookmarks added in the native tree', () => {
+    const tree = createTree(
+      [workFolder],
+      [
+        {
+          id: '20',
+          parentId: '2',
+          title: 'D',
+          url: 'https://d.com',
+          dateAdded: 500,
+        },
+        { id: '21', parentId: '2', title: 'Smart', url: 'place:sort=8' },
+      ]
+    )
+
+    const result = applyNativeBookmarkTree(data, tree, { now })
+
+    expect(result['https://d.com']).toEqual({
+      tags: ['/Other bookmarks'],
+      meta: { title: 'D', created: 500, updated: 500, updated2: now },
+    })
+    expect(result['place:sort=8']).toBeUndefined()
+  })
+
+  it('should apply moved and renamed bookmarks and keep the other tags', () => {
+    const tree = createTree([
+      {
+        ...workFolder,
+        children: [
+          { id: '12', parentId: '10', title: 'B', url: 'https://b.com' },
+        ],
+      },
+      {
+        id: '13',
+        parentId: '1',
+        title: 'Home',
+        children: [
+          { id: '11', parentId: '13', title: 'A2', url: 'https://a.com' },
+        ],
+      },
+    ])
+
+    const result = applyNativeBookmarkTree(data, tree, { now })
+
+    expect(result['https://a.com']).toEqual({
+      tags: ['read', '/Bookmarks bar/Home'],
+      meta: { created: 1000, updated: 2000, title: 'A2', updated2: now },
+    })
+    expect(result['https://c.com']).toBe(data['https://c.com'])
+  })
+
+  it('should delete bookmarks removed from the native tree', () => {
+    const result = applyNativeBookmarkTree(data, createTree([]), { now })
+
+    expect(result['https://a.com'].tags).toEqual(['read'])
+    expect(result['https://b.com']).toEqual({
+      tags: ['/Bookmarks bar/Work', DELETED_BOOKMARK_TAG],
+      meta: { created: 1000, updated: 2000, title: 'B', updated2: now },
+      deletedMeta: { deleted: now, actionType: 'SYNC' },
+    })
+  })
+
+  it('should leave out bookmarks missing in the native tree in union mode', () => {
+    const result = applyNativeBookmarkTree(data, createTree([]), {
+      union: true,
+      now,
+    })
+
+    expect(result['https://a.com']).toEqual({
+      ...data['https://a.com'],
+      tags: ['read'],
+    })
+    expect(result['https://b.com']).toBeUndefined()
+  })
+})
+
+describe('getNativeBookmarkChanges', () => {
+  it('should return no changes if the native tree matches the bookmarks', () => {
+    expect(getNativeBookmarkChanges(data, createTree([workFolder]))).toEqual([])
+  })
+
+  it('should create, rename and remove native bookmarks', () => {
+    const changed: BookmarksData = {
+      ...data,
+      'https://a.com': createBookmark(
+        ['/Bookmarks bar/Work', '/Bookmarks bar/Home/Reading'],
+        'A2'
+      ),
+      'https://b.com': {
+        ...data['https://b.com'],
+        tags: [...data['https://b.com'].tags, DELETED_BOOKMARK_TAG],
+      },
+    }
+
+    expect(getNativeBookmarkChanges(changed, createTree([workFolder]))).toEqual(
+      [
+        { type: 'update', id: '11', title: 'A2' },
+        { type: 'remove', id: '12' },
+        {
+          type: 'create',
+          path: ['Bookmarks bar', 'Home', 'Reading'],
+          title: 'A2',
+          url: 'https://a.com',
+        },
+      ]
+    )
+  })
+})
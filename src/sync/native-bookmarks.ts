@@ -0,0 +1,304 @@
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import { folderPathToTag } from '../lib/bookmark-import-utils.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import { isMarkedAsDeleted, normalizeHierachyPath } from '../utils/bookmarks.js'
+
+/**
+ * @file Maps the native bookmark tree of the browser to UTags bookmarks and back.
+ *
+ * Each folder of the native tree is a hierarchical tag, the same convention
+ * `htmlToBookmarks` uses: a bookmark in the folder "Work" of the bookmarks bar
+ * gets the tag `/Bookmarks bar/Work`, and a bookmark in several folders gets
+ * a tag for each folder. Only tags under a top-level folder of the native tree
+ * are bridged. Other tags, and bookmarks without such a tag, only exist in UTags.
+ */
+
+/**
+ * A node of the native bookmark tree, as returned by `chrome.bookmarks.getTree`.
+ * Folders have no URL.
+ */
+export type NativeBookmarkNode = {
+  id: string
+  parentId?: string
+  title: string
+  url?: string
+  dateAdded?: number
+  children?: NativeBookmarkNode[]
+}
+
+/**
+ * A change of the native bookmark tree, applied by the browser extension.
+ */
+export type NativeBookmarkChange =
+  | {
+      type: 'create'
+      /** The folder names of the new bookmark, starting with the top-level folder. Missing folders are created. */
+      path: string[]
+      title: string
+      url: string
+    }
+  | { type: 'update'; id: string; title: string }
+  | { type: 'remove'; id: string }
+
+/**
+ * A bookmark of the native tree. A URL can be bookmarked in several folders.
+ */
+type NativeBookmark = {
+  title: string
+  dateAdded: number | undefined
+  /** The nodes of the bookmark, keyed by the tag of their folder */
+  nodes: Map<string, NativeBookmarkNode[]>
+}
+
+/**
+ * Gets the normalized names of the top-level folders, e.g., the bookmarks bar.
+ * @param tree - The native bookmark tree, whose root node contains the top-level folders.
+ * @returns The names of the top-level folders.
+ */
+function getTopLevelFolderNames(tree: NativeBookmarkNode[]): Set<string> {
+  return new Set(
+    tree
+      .flatMap((root) => root.children || [])
+      .filter((node) => !node.url)
+      .map((folder) => normalizeHierachyPath(folder.title))
+  )
+}
+
+/**
+ * Gets the folder tag of a tag in its normalized form, if it is under a top-level folder.
+ * @param tag - The tag.
+ * @param topLevelFolderNames - The names of the top-level folders.
+ * @returns The normalized folder tag, or undefined if the tag is not bridged.
+ */
+function toFolderTag(
+  tag: string,
+  topLevelFolderNames: Set<string>
+): string | undefined {
+  if (!tag.includes('/')) {
+    return undefined
+  }
+
+  const path = normalizeHierachyPath(tag).split('/').filter(Boolean)
+  return path.length > 0 && topLevelFolderNames.has(path[0])
+    ? folderPathToTag(path)
+    : undefined
+}
+
+function getFolderTags(
+  tags: string[],
+  topLevelFolderNames: Set<string>
+): Set<string> {
+  const folderTags = new Set<string>()
+  for (const tag of tags) {
+    const folderTag = toFolderTag(tag, topLevelFolderNames)
+    if (folderTag) {
+      folderTags.add(folderTag)
+    }
+  }
+
+  return folderTags
+}
+
+/**
+ * Collects the bookmarks of the native tree by URL.
+ * @param tree - The native bookmark tree.
+ * @returns The native bookmarks, keyed by URL.
+ */
+function indexNativeBookmarks(
+  tree: NativeBookmarkNode[]
+): Map<string, NativeBookmark> {
+  const bookmarks = new Map<string, NativeBookmark>()
+
+  const visit = (node: NativeBookmarkNode, path: string[]) => {
+    if (node.url === undefined) {
+      const folderPath = [...path, normalizeHierachyPath(node.title)].filter(
+        Boolean
+      )
+      for (const child of node.children || []) {
+        visit(child, folderPath)
+      }
+
+      return
+    }
+
+    // Skip Firefox smart bookmarks, like `htmlToBookmarks`
+    if (!node.url || node.url.startsWith('place:')) {
+      return
+    }
+
+    let bookmark = bookmarks.get(node.url)
+    if (!bookmark) {
+      bookmark = {
+        title: node.title,
+        dateAdded: node.dateAdded,
+        nodes: new Map(),
+      }
+      bookmarks.set(node.url, bookmark)
+    }
+
+    const tag = folderPathToTag(path)
+    bookmark.nodes.set(tag, [...(bookmark.nodes.get(tag) || []), node])
+  }
+
+  for (const root of tree) {
+    for (const node of root.children || []) {
+      visit(node, [])
+    }
+  }
+
+  return bookmarks
+}
+
+function isSameSet(a: Set<string>, b: Set<string>): boolean {
+  return a.size === b.size && [...a].every((value) => b.has(value))
+}
+
+/**
+ * Applies the native bookmark tree to the bookmarks of the last sync, to get
+ * the bookmarks as they are on the native side now.
+ * Bookmarks that were added, moved, renamed or removed in the native tree get
+ * the current time as `updated2`, so the merge takes over the native changes.
+ * Removed bookmarks lose their folder tags, and become deleted if no other tags are left.
+ * @param data - The bookmarks of the last sync. The data is not modified.
+ * @param tree - The native bookmark tree.
+ * @param options - Options.
+ * @param options.union - True if the data is not from the last sync, e.g., the local bookmarks when the
+ *   data of the last sync is unknown. Native changes cannot be told apart from other changes then, so they
+ *   get no new timestamps, and bookmarks missing in the native tree are left out instead of deleted.
+ * @param options.now - The time of the native changes.
+ * @returns The bookmarks of the native side.
+ */
+export function applyNativeBookmarkTree(
+  data: BookmarksData,
+  tree: NativeBookmarkNode[],
+  { union = false, now = Date.now() }: { union?: boolean; now?: number } = {}
+): BookmarksData {
+  const topLevelFolderNames = getTopLevelFolderNames(tree)
+  const nativeBookmarks = indexNativeBookmarks(tree)
+  const result: BookmarksData = { ...data }
+
+  for (const url of new Set([
+    ...Object.keys(data),
+    ...nativeBookmarks.keys(),
+  ])) {
+    const entry: BookmarkTagsAndMetadata | undefined = data[url]
+    const nativeBookmark = nativeBookmarks.get(url)
+    const nativeTags = new Set(nativeBookmark?.nodes.keys())
+
+    if (!entry || isMarkedAsDeleted(entry)) {
+      // Added in the native tree, or restored after it was deleted in UTags
+      if (nativeBookmark) {
+        const created = entry?.meta.created || nativeBookmark.dateAdded || now
+        result[url] = {
+          tags: [...nativeTags],
+          meta: {
+            ...entry?.meta,
+            title: nativeBookmark.title,
+            created,
+            updated: entry?.meta.updated || created,
+            ...(!union && { updated2: now }),
+          },
+        }
+      }
+
+      continue
+    }
+
+    const folderTags = getFolderTags(entry.tags, topLevelFolderNames)
+    const isTitleChanged =
+      nativeBookmark !== undefined &&
+      nativeBookmark.title !== (entry.meta.title || '')
+    if (!isTitleChanged && isSameSet(folderTags, nativeTags)) {
+      continue
+    }
+
+    const tags = [
+      ...entry.tags.filter((tag) => !toFolderTag(tag, topLevelFolderNames)),
+      ...nativeTags,
+    ]
+    if (tags.length > 0) {
+      result[url] = {
+        ...entry,
+        tags,
+        meta: {
+          ...entry.meta,
+          ...(isTitleChanged && { title: nativeBookmark.title }),
+          ...(!union && { updated2: now }),
+        },
+      }
+    } else if (union) {
+      // Not added to the native tree yet, so the merge adds it
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete result[url]
+    } else {
+      result[url] = {
+        ...entry,
+        tags: [...entry.tags, DELETED_BOOKMARK_TAG],
+        meta: { ...entry.meta, updated2: now },
+        deletedMeta: { deleted: now, actionType: 'SYNC' },
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Gets the changes that make the native bookmark tree match the bookmarks.
+ * A bookmark is created in the folder of each of its folder tags, and removed
+ * from the folders it no longer has a tag for. Folders are never removed.
+ * @param data - The bookmarks.
+ * @param tree - The native bookmark tree.
+ * @returns The changes of the native tree.
+ */
+export function getNativeBookmarkChanges(
+  data: BookmarksData,
+  tree: NativeBookmarkNode[]
+): NativeBookmarkChange[] {
+  const topLevelFolderNames = getTopLevelFolderNames(tree)
+  const nativeBookmarks = indexNativeBookmarks(tree)
+  const changes: NativeBookmarkChange[] = []
+
+  for (const [url, nativeBookmark] of nativeBookmarks) {
+    const entry = data[url]
+    const isActive = entry !== undefined && !isMarkedAsDeleted(entry)
+    const folderTags = isActive
+      ? getFolderTags(entry.tags, topLevelFolderNames)
+      : new Set<string>()
+    for (const [tag, nodes] of nativeBookmark.nodes) {
+      for (const node of nodes) {
+        if (!folderTags.has(tag)) {
+          changes.push({ type: 'remove', id: node.id })
+        } else if (
+          entry.meta.title !== undefined &&
+          node.title !== entry.meta.title
+        ) {
+          changes.push({ type: 'update', id: node.id, title: entry.meta.title })
+        }
+      }
+    }
+  }
+
+  for (const [url, entry] of Object.entries(data)) {
+    if (isMarkedAsDeleted(entry)) {
+      continue
+    }
+
+    const nativeBookmark = nativeBookmarks.get(url)
+    for (const tag of getFolderTags(entry.tags, topLevelFolderNames)) {
+      if (!nativeBookmark?.nodes.has(tag)) {
+        changes.push({
+          type: 'create',
+          path: normalizeHierachyPath(tag).split('/'),
+          title: entry.meta.title || '',
+          url,
+        })
+      }
+    }
+  }
+
+  return changes
+}
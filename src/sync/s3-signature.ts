@@ -0,0 +1,179 @@
+/**
+ * @file AWS Signature Version 4 signing of S3 requests, using WebCrypto.
+ * @see https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+
+import type { S3Credentials } from './types.js'
+
+/**
+ * A request to sign.
+ */
+export type S3SignableRequest = {
+  method: string
+  url: URL
+  /** Headers to send and sign, except `host` which is derived from the URL */
+  headers?: Record<string, string>
+  /** The request body */
+  body?: string
+}
+
+const algorithm = 'AWS4-HMAC-SHA256'
+const service = 's3'
+
+/**
+ * Converts bytes to a lowercase hex string.
+ * @param bytes - The bytes.
+ * @returns The hex string.
+ */
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+/**
+ * Calculates the hex-encoded SHA-256 hash of a string.
+ * @param data - The string to hash.
+ * @returns The hex-encoded hash.
+ */
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data))
+  )
+}
+
+/**
+ * Calculates the HMAC-SHA256 of a string.
+ * @param key - The key.
+ * @param data - The string to sign.
+ * @returns The HMAC.
+ */
+async function hmac(
+  key: ArrayBuffer | Uint8Array,
+  data: string
+): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data))
+}
+
+/**
+ * Encodes a string as required by SigV4, which is stricter than `encodeURIComponent`.
+ * @param value - The string to encode.
+ * @returns The encoded string.
+ */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replaceAll(
+    /[!'()*]/g,
+    (char) => `%${char.codePointAt(0)!.toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * Builds the canonical URI. S3 object keys are encoded once, segment by segment.
+ * @param url - The request URL.
+ * @returns The canonical URI.
+ */
+function getCanonicalUri(url: URL): string {
+  return url.pathname
+    .split('/')
+    .map((segment) => uriEncode(decodeURIComponent(segment)))
+    .join('/')
+}
+
+/**
+ * Builds the canonical query string, sorted by parameter name.
+ * @param url - The request URL.
+ * @returns The canonical query string.
+ */
+function getCanonicalQueryString(url: URL): string {
+  return [...url.searchParams]
+    .map(([name, value]) => [uriEncode(name), uriEncode(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&')
+}
+
+/**
+ * Formats a date as the SigV4 timestamp, e.g. `20130524T000000Z`.
+ * @param date - The date.
+ * @returns The timestamp.
+ */
+function formatAmzDate(date: Date): string {
+  return date.toISOString().replaceAll(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * Signs an S3 request with AWS Signature Version 4.
+ * @param request - The request to sign.
+ * @param credentials - The access key pair, and the session token for temporary credentials.
+ * @param region - The region of the bucket, e.g. `us-east-1`.
+ * @param date - The signing time. Defaults to now.
+ * @returns The headers to send, including the request headers and `Authorization`.
+ *          `host` is signed but not included, as browsers do not allow setting it.
+ */
+export async function signS3Request(
+  request: S3SignableRequest,
+  credentials: S3Credentials,
+  region: string,
+  date = new Date()
+): Promise<Record<string, string>> {
+  const amzDate = formatAmzDate(date)
+  const dateStamp = amzDate.slice(0, 8)
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256':
+      request.headers?.['x-amz-content-sha256'] ??
+      (await sha256Hex(request.body ?? '')),
+    'x-amz-date': amzDate,
+  }
+  if (credentials.sessionToken) {
+    headers['x-amz-security-token'] = credentials.sessionToken
+  }
+
+  const signedHeaders = new Map<string, string>([['host', request.url.host]])
+  for (const [name, value] of Object.entries(headers)) {
+    signedHeaders.set(name.toLowerCase(), value.trim().replaceAll(/\s+/g, ' '))
+  }
+
+  const headerNames = [...signedHeaders.keys()].sort()
+  const signedHeaderNames = headerNames.join(';')
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    getCanonicalUri(request.url),
+    getCanonicalQueryString(request.url),
+    ...headerNames.map((name) => `${name}:${signedHeaders.get(name)}`),
+    '',
+    signedHeaderNames,
+    headers['x-amz-content-sha256'],
+  ].join('\n')
+
+  const credentialScope = `${dateStamp}/${region}/${service}/aws4_request`
+  const stringToSign = [
+    algorithm,
+    amzDate,
+    credentialScope,
+    await sha256Hex(canonicalRequest),
+  ].join('\n')
+
+  let signingKey = await hmac(
+    new TextEncoder().encode(`AWS4${credentials.secretAccessKey}`),
+    dateStamp
+  )
+  for (const part of [region, service, 'aws4_request']) {
+    // eslint-disable-next-line no-await-in-loop
+    signingKey = await hmac(signingKey, part)
+  }
+
+  const signature = toHex(await hmac(signingKey, stringToSign))
+
+  return {
+    ...headers,
+    authorization: `${algorithm} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`,
+  }
+}
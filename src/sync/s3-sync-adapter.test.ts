@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import { HttpResponse, http } from 'msw'
+import { S3SyncAdapter } from './s3-sync-adapter.js'
+import type { S3Credentials, S3Target, SyncServiceConfig } from './types.js'
+import { buildShardPath } from './sync-path-builder.js'
+import { getRetryAfter, SyncHttpError } from './sync-retry.js'
+import { server } from './mocks/server.js'
+import {
+  getMockS3Object,
+  resetMockS3Store,
+  setMockS3Object,
+} from './mocks/handlers.js'
+
+describe('S3SyncAdapter', () => {
+  const objectKey = 'utags/bookmarks.json'
+  let adapter: S3SyncAdapter
+
+  const baseConfig: SyncServiceConfig<S3Credentials, S3Target> = {
+    id: 'test-s3',
+    type: 's3',
+    name: 'Test S3',
+    credentials: {
+      accessKeyId: 'test-access-key',
+      secretAccessKey: 'test-secret-key',
+    },
+    target: {
+      endpoint: 'http://localhost:9000',
+      bucket: 'utags-test',
+      path: objectKey,
+      forcePathStyle: true,
+    },
+    scope: 'all',
+    enabled: true,
+  }
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'warn' })
+  })
+
+  beforeEach(async () => {
+    server.resetHandlers()
+    resetMockS3Store()
+    adapter = new S3SyncAdapter()
+    await adapter.init(baseConfig)
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  describe('init', () => {
+    it('should throw if the bucket is missing', async () => {
+      await expect(
+        new S3SyncAdapter().init({
+          ...baseConfig,
+          target: { ...baseConfig.target, bucket: '' },
+        })
+      ).rejects.toThrow('S3 bucket is not defined in target configuration.')
+    })
+
+    it('should return the config', () => {
+      expect(adapter.getConfig()).toEqual(baseConfig)
+    })
+  })
+
+  describe('getAuthStatus', () => {
+    it('should return "authenticated" with valid credentials', async () => {
+      expect(await adapter.getAuthStatus()).toBe('authenticated')
+    })
+
+    it('should return "unauthenticated" with an invalid secret key', async () => {
+      await adapter.init({
+        ...baseConfig,
+        credentials: { ...baseConfig.credentials, secretAccessKey: 'wrong' },
+      })
+
+      expect(await adapter.getAuthStatus()).toBe('unauthenticated')
+    })
+
+    it('should return "error" if the bucket does not exist', async () => {
+      await adapter.init({
+        ...baseConfig,
+        target: { ...baseConfig.target, bucket: 'missing' },
+      })
+
+      expect(await adapter.getAuthStatus()).toBe('error')
+    })
+  })
+
+  describe('getRemoteMetadata and download', () => {
+    it('should return undefined if the object does not exist', async () => {
+      expect(await adapter.getRemoteMetadata()).toBeUndefined()
+      expect(await adapter.download()).toEqual({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+    })
+
+    it('should return the ETag as version', async () => {
+      setMockS3Object(objectKey, '{"data":{}}')
+      const { etag } = getMockS3Object(objectKey)!
+
+      const remoteMeta = await adapter.getRemoteMetadata()
+      expect(remoteMeta).toMatchObject({ version: etag, sha: etag })
+      expect(await adapter.download()).toEqual({
+        data: '{"data":{}}',
+        remoteMeta,
+      })
+    })
+
+    it('should throw on other errors', async () => {
+      await adapter.init({
+        ...baseConfig,
+        credentials: { ...baseConfig.credentials, accessKeyId: 'wrong' },
+      })
+
+      await expect(adapter.download()).rejects.toThrow(
+        'S3 request to download utags/bookmarks.json failed: 403 Forbidden (InvalidAccessKeyId)'
+      )
+    })
+  })
+
+  describe('upload', () => {
+    it('should create the object if it does not exist', async () => {
+      const remoteMeta = await adapter.upload('{"data":{}}')
+
+      expect(getMockS3Object(objectKey)).toMatchObject({
+        data: '{"data":{}}',
+        etag: remoteMeta.version,
+      })
+    })
+
+    it('should not overwrite an object created by another client', async () => {
+      setMockS3Object(objectKey, '{"data":{"other":{}}}')
+
+      await expect(adapter.upload('{"data":{}}')).rejects.toMatchObject({
+        name: 'UploadConflictError',
+      })
+      expect(getMockS3Object(objectKey)?.data).toBe('{"data":{"other":{}}}')
+    })
+
+    it('should update the object if the ETag matches', async () => {
+      setMockS3Object(objectKey, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+
+      const newMeta = await adapter.upload('{"data":{"new":{}}}', remoteMeta)
+
+      expect(newMeta.version).not.toBe(remoteMeta?.version)
+      expect(getMockS3Object(objectKey)?.data).toBe('{"data":{"new":{}}}')
+    })
+
+    it('should throw an UploadConflictError if the ETag does not match', async () => {
+      setMockS3Object(objectKey, '{"data":{}}')
+      const remoteMeta = await adapter.getRemoteMetadata()
+      setMockS3Object(objectKey, '{"data":{"other":{}}}')
+
+      await expect(
+        adapter.upload('{"data":{"new":{}}}', remoteMeta)
+      ).rejects.toMatchObject({ name: 'UploadConflictError' })
+      expect(getMockS3Object(objectKey)?.data).toBe('{"data":{"other":{}}}')
+    })
+  })
+
+  describe('shards', () => {
+    it('should upload, download and delete shards', async () => {
+      const shardPath = buildShardPath(objectKey, '0-abc')
+
+      await adapter.uploadShard('0-abc', '{"a":1}')
+      await adapter.uploadShard('0-abc', '{"a":2}')
+      expect(getMockS3Object(shardPath)?.data).toBe('{"a":2}')
+      expect(await adapter.downloadShard('0-abc')).toBe('{"a":2}')
+
+      await adapter.deleteShard('0-abc')
+      expect(getMockS3Object(shardPath)).toBeUndefined()
+      expect(await adapter.downloadShard('0-abc')).toBeUndefined()
+    })
+  })
+
+  describe('HTTP errors', () => {
+    const objectsUrl = 'http://localhost:9000/:bucket/*'
+    const serviceUnavailable = () =>
+      new HttpResponse('<Error><Code>SlowDown</Code></Error>', {
+        status: 503,
+        headers: { 'Retry-After': '120' },
+      })
+
+    it.each([
+      {
+        request: 'getting the metadata',
+        handler: http.head(objectsUrl, serviceUnavailable),
+        action: async () => adapter.getRemoteMetadata(),
+      },
+      {
+        request: 'downloading',
+        handler: http.get(objectsUrl, serviceUnavailable),
+        action: async () => adapter.download(),
+      },
+      {
+        request: 'uploading',
+        handler: http.put(objectsUrl, serviceUnavailable),
+        action: async () => adapter.upload('{}'),
+      },
+      {
+        request: 'uploading a shard',
+        handler: http.put(objectsUrl, serviceUnavailable),
+        action: async () => adapter.uploadShard('0-abc', '{}'),
+      },
+      {
+        request: 'uploading the app data',
+        handler: http.put(objectsUrl, serviceUnavailable),
+        action: async () => adapter.uploadAppData('{}'),
+      },
+      {
+        request: 'deleting a shard',
+        handler: http.delete(objectsUrl, serviceUnavailable),
+        action: async () => adapter.deleteShard('0-abc'),
+      },
+    ])(
+      'should throw a SyncHttpError with the response headers if $request fails',
+      async ({ handler, action }) => {
+        server.use(handler)
+
+        const error = await action().catch((error: unknown) => error)
+
+        expect(error).toBeInstanceOf(SyncHttpError)
+        expect(error).toMatchObject({ status: 503 })
+        expect((error as Error).message).toContain('(SlowDown)')
+        expect(getRetryAfter(error)).toBe(120_000)
+      }
+    )
+  })
+
+  describe('destroy', () => {
+    it('should require init after destroy', async () => {
+      adapter.destroy()
+
+      await expect(adapter.download()).rejects.toThrow(
+        'S3SyncAdapter not initialized. Call init() first.'
+      )
+    })
+  })
+})
@@ -0,0 +1,398 @@
+import type {
+  AuthStatus,
+  S3Credentials,
+  S3Target,
+  SyncAdapter,
+  SyncMetadata,
+  SyncServiceConfig,
+} from './types.js'
+import { signS3Request } from './s3-signature.js'
+import { SyncHttpError } from './sync-retry.js'
+import {
+  buildAppDataPath,
+  buildShardPath,
+  buildSyncPath,
+} from './sync-path-builder.js'
+
+const defaultRegion = 'us-east-1'
+
+/**
+ * Implements the SyncAdapter interface for synchronizing bookmarks with S3-compatible object storage,
+ * such as AWS S3, MinIO or Cloudflare R2.
+ * Requests are signed with AWS Signature Version 4. Uploads are conditional on the ETag of the remote object.
+ */
+export class S3SyncAdapter implements SyncAdapter<S3Credentials, S3Target> {
+  private config: SyncServiceConfig<S3Credentials, S3Target> | undefined
+  private bucketUrl: string | undefined // Initialized by init()
+  private region = defaultRegion
+  private abortController: AbortController | undefined // For aborting fetch requests
+
+  /**
+   * Initializes the S3 sync adapter with the given configuration.
+   * @param config - The configuration for the S3 service, including the access key pair and the bucket.
+   * @throws {Error} If the configuration is invalid.
+   */
+  async init(
+    config: SyncServiceConfig<S3Credentials, S3Target>
+  ): Promise<void> {
+    this.abortController?.abort() // Abort requests of a previous initialization
+    this.abortController = new AbortController()
+    this.bucketUrl = undefined
+
+    if (config.type !== 's3') {
+      throw new Error('Invalid configuration type for S3SyncAdapter.')
+    }
+
+    if (!config.target.bucket) {
+      throw new Error('S3 bucket is not defined in target configuration.')
+    }
+
+    this.config = config
+    this.region = config.target.region || defaultRegion
+    this.bucketUrl = this.buildBucketUrl(config.target)
+    console.log(
+      `[S3SyncAdapter] Initialized for ${config.name} (${this.bucketUrl})`
+    )
+  }
+
+  /**
+   * Cleans up resources used by the adapter. It aborts any pending requests.
+   */
+  destroy(): void {
+    this.abortController?.abort()
+    this.abortController = undefined
+    this.bucketUrl = undefined
+    console.log(
+      `[S3SyncAdapter] Destroyed for ${this.config?.name || 'Unknown Service'}.`
+    )
+  }
+
+  /**
+   * Gets the current configuration of the adapter.
+   * @returns The current configuration of the adapter.
+   * @throws {Error} If the adapter has not been initialized by calling `init()` first.
+   */
+  getConfig(): SyncServiceConfig<S3Credentials, S3Target> {
+    if (!this.config) {
+      throw new Error('S3SyncAdapter not initialized. Call init() first.')
+    }
+
+    return this.config
+  }
+
+  /**
+   * Retrieves the metadata of the remote object with a HEAD request.
+   * @returns A promise that resolves with the remote metadata, or undefined if the object does not exist.
+   * @throws {Error} If the request fails for a reason other than the object not existing.
+   */
+  async getRemoteMetadata(): Promise<SyncMetadata | undefined> {
+    const key = this.getObjectKey()
+    const response = await this.sendRequest('HEAD', key)
+    if (response.status === 404) {
+      return undefined
+    }
+
+    if (!response.ok) {
+      throw await createS3Error(response, `get metadata of ${key}`)
+    }
+
+    return getSyncMetadata(response)
+  }
+
+  /**
+   * Downloads the remote object.
+   * @returns A promise that resolves with the downloaded data and its metadata, or undefined values if the object does not exist.
+   * @throws {Error} If the download fails.
+   */
+  async download(): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    return this.downloadObject(this.getObjectKey())
+  }
+
+  /**
+   * Uploads data to the remote object.
+   * The upload only succeeds if the remote object still has the expected ETag (`If-Match`),
+   * or, without expected metadata, if the remote object does not exist yet (`If-None-Match: *`).
+   * @param data - The stringified data to upload.
+   * @param expectedRemoteMeta - Metadata of the remote object for optimistic locking.
+   * @returns A promise that resolves with the metadata of the uploaded object.
+   * @throws {Error} If the upload fails, or an `UploadConflictError` if the remote object was changed by another client.
+   */
+  async upload(
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    const key = this.getObjectKey()
+    const response = await this.putObject(
+      key,
+      data,
+      expectedRemoteMeta?.version
+        ? { 'If-Match': `"${expectedRemoteMeta.version}"` }
+        : { 'If-None-Match': '*' }
+    )
+
+    // 412 Precondition Failed: the ETag changed. 409: a concurrent conditional write.
+    if (response.status === 412 || response.status === 409) {
+      const error = new Error(
+        `S3 upload of ${key} failed: Precondition Failed (${response.status}). The remote object was changed by another client.`
+      )
+      error.name = 'UploadConflictError'
+      throw error
+    }
+
+    if (!response.ok) {
+      throw await createS3Error(response, `upload ${key}`)
+    }
+
+    return getSyncMetadata(response)
+  }
+
+  /**
+   * Downloads a shard object of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves with the shard data, or undefined if not found.
+   */
+  async downloadShard(shardKey: string): Promise<string | undefined> {
+    const { data } = await this.downloadObject(
+      buildShardPath(this.getObjectKey(), shardKey)
+    )
+    return data
+  }
+
+  /**
+   * Uploads a shard object of the sharded remote layout, replacing an existing object.
+   * @param shardKey - The key of the shard file.
+   * @param data - The stringified shard data.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadShard(shardKey: string, data: string): Promise<void> {
+    const key = buildShardPath(this.getObjectKey(), shardKey)
+    const response = await this.putObject(key, data)
+    if (!response.ok) {
+      throw await createS3Error(response, `upload ${key}`)
+    }
+  }
+
+  /**
+   * Downloads the app data object.
+   * @returns A promise that resolves with the app data, or undefined if not found.
+   */
+  async downloadAppData(): Promise<string | undefined> {
+    const { data } = await this.downloadObject(
+      buildAppDataPath(this.getObjectKey())
+    )
+    return data
+  }
+
+  /**
+   * Uploads the app data object, replacing an existing object.
+   * @param data - The stringified app data.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadAppData(data: string): Promise<void> {
+    const key = buildAppDataPath(this.getObjectKey())
+    const response = await this.putObject(key, data)
+    if (!response.ok) {
+      throw await createS3Error(response, `upload ${key}`)
+    }
+  }
+
+  /**
+   * Deletes a shard object of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @throws {Error} If the deletion fails for a reason other than the object not existing.
+   */
+  async deleteShard(shardKey: string): Promise<void> {
+    const key = buildShardPath(this.getObjectKey(), shardKey)
+    const response = await this.sendRequest('DELETE', key)
+    if (!response.ok && response.status !== 404) {
+      throw await createS3Error(response, `delete ${key}`)
+    }
+  }
+
+  /**
+   * Checks the authentication status with a HEAD request on the bucket.
+   * @returns A promise that resolves with the AuthStatus.
+   */
+  async getAuthStatus(): Promise<AuthStatus> {
+    if (!this.bucketUrl || !this.config) {
+      return 'requires_config'
+    }
+
+    const { accessKeyId, secretAccessKey } = this.config.credentials
+    if (!accessKeyId || !secretAccessKey) {
+      return 'requires_config'
+    }
+
+    try {
+      const response = await this.sendRequest('HEAD')
+      if (response.ok) {
+        return 'authenticated'
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        return 'unauthenticated'
+      }
+
+      // E.g. 404 if the bucket does not exist
+      return 'error'
+    } catch (error) {
+      console.error('[S3SyncAdapter] Auth status check failed:', error)
+      return 'error'
+    }
+  }
+
+  /**
+   * Downloads an object.
+   * @param key - The object key.
+   * @returns A promise that resolves with the downloaded data and its metadata.
+   */
+  private async downloadObject(key: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const response = await this.sendRequest('GET', key)
+    if (response.status === 404) {
+      return { data: undefined, remoteMeta: undefined }
+    }
+
+    if (!response.ok) {
+      throw await createS3Error(response, `download ${key}`)
+    }
+
+    return {
+      data: await response.text(),
+      remoteMeta: getSyncMetadata(response),
+    }
+  }
+
+  /**
+   * Uploads an object.
+   * @param key - The object key.
+   * @param data - The stringified data to upload.
+   * @param conditionHeaders - Headers for a conditional upload.
+   * @returns A promise that resolves with the response.
+   */
+  private async putObject(
+    key: string,
+    data: string,
+    conditionHeaders?: Record<string, string>
+  ): Promise<Response> {
+    return this.sendRequest('PUT', key, {
+      headers: { 'content-type': 'application/json', ...conditionHeaders },
+      body: data,
+    })
+  }
+
+  /**
+   * Sends a signed request to the bucket.
+   * @param method - The HTTP method.
+   * @param key - The object key, or undefined for a request on the bucket.
+   * @param options - The headers and body of the request.
+   * @param options.headers - The request headers.
+   * @param options.body - The request body.
+   * @returns A promise that resolves with the response.
+   */
+  private async sendRequest(
+    method: string,
+    key?: string,
+    options: { headers?: Record<string, string>; body?: string } = {}
+  ): Promise<Response> {
+    if (!this.bucketUrl || !this.config || !this.abortController) {
+      throw new Error('S3SyncAdapter not initialized. Call init() first.')
+    }
+
+    const url = new URL(
+      key === undefined
+        ? this.bucketUrl
+        : `${this.bucketUrl}/${key
+            .split('/')
+            .map((segment) => encodeURIComponent(segment))
+            .join('/')}`
+    )
+    const headers = await signS3Request(
+      { method, url, headers: options.headers, body: options.body },
+      this.config.credentials,
+      this.region
+    )
+
+    return fetch(url, {
+      method,
+      headers,
+      body: options.body,
+      signal: this.abortController.signal,
+    })
+  }
+
+  /**
+   * Builds the URL of the bucket, without a trailing slash.
+   * @param target - The target configuration.
+   * @returns The bucket URL.
+   */
+  private buildBucketUrl(target: S3Target): string {
+    const endpoint = new URL(
+      target.endpoint || `https://s3.${this.region}.amazonaws.com`
+    )
+    const basePath = endpoint.pathname.replace(/\/+$/, '')
+    const bucket = encodeURIComponent(target.bucket)
+
+    return target.forcePathStyle
+      ? `${endpoint.origin}${basePath}/${bucket}`
+      : `${endpoint.protocol}//${bucket}.${endpoint.host}${basePath}`
+  }
+
+  /**
+   * Gets the object key of the bookmarks file.
+   * @returns The object key.
+   */
+  private getObjectKey(): string {
+    if (!this.config) {
+      throw new Error('S3SyncAdapter not initialized. Call init() first.')
+    }
+
+    return buildSyncPath(this.config.target.path, this.config.scope)
+  }
+}
+
+/**
+ * Gets the sync metadata from the headers of an S3 response.
+ * @param response - The response.
+ * @returns The sync metadata.
+ */
+function getSyncMetadata(response: Response): SyncMetadata {
+  const etag = response.headers.get('ETag')?.replaceAll('"', '')
+  const lastModified = response.headers.get('Last-Modified')
+
+  return {
+    version: etag,
+    sha: etag,
+    // PUT responses have no Last-Modified header
+    timestamp: lastModified ? new Date(lastModified).getTime() : Date.now(),
+  }
+}
+
+/**
+ * Creates an error for a failed S3 request, including the S3 error code if available.
+ * @param response - The response.
+ * @param action - The failed action, for the error message.
+ * @returns The error, with the status and headers of the response.
+ */
+async function createS3Error(
+  response: Response,
+  action: string
+): Promise<SyncHttpError> {
+  let code = ''
+  try {
+    code = /<Code>([^<]*)<\/Code>/.exec(await response.text())?.[1] || ''
+  } catch {
+    // Ignore if error body cannot be read
+  }
+
+  return new SyncHttpError(
+    `S3 request to ${action} failed: ${response.status} ${response.statusText}${code ? ` (${code})` : ''}`,
+    response.status,
+    response.headers
+  )
+}
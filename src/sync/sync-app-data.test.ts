@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import type { Collection } from '../stores/collections.js'
+import type { Filter } from '../stores/saved-filters.js'
+import {
+  mergeSyncAppData,
+  mergeSyncAppDataLists,
+  mergeSyncAppDataSettings,
+  parseSyncAppData,
+  syncAppDataFormat,
+  type SyncAppData,
+} from './sync-app-data.js'
+
+function createCollection(
+  id: string,
+  pathname: string,
+  created: number,
+  updated = created
+): Collection {
+  return {
+    id,
+    name: pathname,
+    pathname,
+    filterString: `t=${pathname}`,
+    created,
+    updated,
+  }
+}
+
+function createFilter(id: string, name: string, created: number): Filter {
+  return {
+    id,
+    name,
+    description: '',
+    filterString: `#${name}`,
+    created,
+    updated: created,
+  }
+}
+
+describe('parseSyncAppData', () => {
+  it('should parse app data', () => {
+    const data: SyncAppData = { format: syncAppDataFormat, version: 1 }
+    expect(parseSyncAppData(JSON.stringify(data))).toEqual(data)
+  })
+
+  it('should return undefined for other data', () => {
+    expect(parseSyncAppData('{"data":{},"meta":{}}')).toBeUndefined()
+    expect(parseSyncAppData('not json')).toBeUndefined()
+  })
+})
+
+describe('mergeSyncAppDataLists', () => {
+  it('should keep the newer version of an item', () => {
+    const local = createCollection('a', 'work', 100, 300)
+    const remote = { ...createCollection('a', 'work', 100, 200), name: 'Old' }
+
+    expect(
+      mergeSyncAppDataLists(
+        { items: [local], deleted: {} },
+        { items: [remote], deleted: {} }
+      ).items
+    ).toEqual([local])
+    expect(
+      mergeSyncAppDataLists(
+        { items: [remote], deleted: {} },
+        { items: [local], deleted: {} }
+      ).items
+    ).toEqual([local])
+  })
+
+  it('should add the items of both sides, newest first', () => {
+    const local = createCollection('a', 'work', 100)
+    const remote = createCollection('b', 'home', 200)
+
+    expect(
+      mergeSyncAppDataLists(
+        { items: [local], deleted: {} },
+        { items: [remote], deleted: {} }
+      ).items
+    ).toEqual([remote, local])
+  })
+
+  it('should remove items deleted after their last update', () => {
+    const deletedItem = createCollection('a', 'work', 100, 200)
+    const updatedItem = createCollection('b', 'home', 100, 400)
+
+    expect(
+      mergeSyncAppDataLists(
+        { items: [], deleted: { a: 300, b: 300 } },
+        { items: [deletedItem, updatedItem], deleted: {} }
+      )
+    ).toEqual({ items: [updatedItem], deleted: { a: 300, b: 300 } })
+  })
+
+  it('should keep the latest deletion time', () => {
+    expect(
+      mergeSyncAppDataLists(
+        { items: [], deleted: { a: 100, b: 300 } },
+        { items: [], deleted: { a: 200, b: 200 } }
+      ).deleted
+    ).toEqual({ a: 200, b: 300 })
+  })
+})
+
+describe('mergeSyncAppDataSettings', () => {
+  it('should keep the newer value of each preference', () => {
+    expect(
+      mergeSyncAppDataSettings(
+        {
+          theme: { value: 'dark', updated: 200 },
+          viewMode: { value: 'list', updated: 0 },
+        },
+        {
+          theme: { value: 'light', updated: 100 },
+          viewMode: { value: 'card', updated: 100 },
+          skin: { value: 'skin2', updated: 100 },
+        }
+      )
+    ).toEqual({
+      theme: { value: 'dark', updated: 200 },
+      viewMode: { value: 'card', updated: 100 },
+      skin: { value: 'skin2', updated: 100 },
+    })
+  })
+})
+
+describe('mergeSyncAppData', () => {
+  it('should only merge the synced categories', () => {
+    const remote: SyncAppData = {
+      format: syncAppDataFormat,
+      version: 1,
+      filters: { items: [createFilter('f', 'Tools', 100)], deleted: {} },
+      settings: { theme: { value: 'light', updated: 100 } },
+    }
+    const local: SyncAppData = {
+      format: syncAppDataFormat,
+      version: 1,
+      collections: {
+        items: [createCollection('a', 'work', 100)],
+        deleted: {},
+      },
+    }
+
+    expect(mergeSyncAppData(local, remote, ['collections'])).toEqual({
+      ...remote,
+      collections: local.collections,
+    })
+  })
+
+  it('should remove duplicates of earlier created items', () => {
+    const original = createCollection('a', 'starred', 100)
+    const duplicate = createCollection('b', 'starred', 200)
+    const filter = createFilter('f', 'Tools', 100)
+    const duplicateFilter = createFilter('g', 'Tools', 200)
+    const local: SyncAppData = {
+      format: syncAppDataFormat,
+      version: 1,
+      collections: { items: [duplicate], deleted: {} },
+      filters: { items: [duplicateFilter], deleted: {} },
+    }
+    const remote: SyncAppData = {
+      format: syncAppDataFormat,
+      version: 1,
+      collections: { items: [original], deleted: {} },
+      filters: { items: [filter], deleted: {} },
+    }
+
+    const merged = mergeSyncAppData(local, remote, ['collections', 'filters'])
+
+    expect(merged.collections).toEqual({
+      items: [original],
+      deleted: { b: 200 },
+    })
+    expect(merged.filters).toEqual({ items: [filter], deleted: { g: 200 } })
+  })
+})
@@ -0,0 +1,220 @@
+import type { Collection } from '../stores/collections.js'
+import type { Filter } from '../stores/saved-filters.js'
+import { isNonNullObject } from '../utils/index.js'
+
+/**
+ * @file Merges the app data that is synced next to the bookmarks: collections, saved filters and preferences.
+ *
+ * The app data is stored in a sibling file of the sync file (see
+ * `buildAppDataPath`). Each collection, saved filter and preference is merged
+ * on its own: the version with the newer `updated` timestamp wins. Deleted
+ * collections and saved filters are kept as tombstones with the time of the
+ * deletion, so the deletion wins over older versions on other devices.
+ */
+
+export const syncAppDataFormat = 'utags-app-data'
+
+/**
+ * The categories of app data a sync service can sync.
+ */
+export type SyncAppDataCategory = 'collections' | 'filters' | 'settings'
+
+export const syncAppDataCategories: SyncAppDataCategory[] = [
+  'collections',
+  'filters',
+  'settings',
+]
+
+/**
+ * A collection or saved filter.
+ */
+export type SyncAppDataItem = {
+  id: string
+  created: number
+  updated: number
+}
+
+/**
+ * The items of a category and the tombstones of the deleted items.
+ */
+export type SyncAppDataList<T extends SyncAppDataItem> = {
+  items: T[]
+  /** The deletion time of each deleted item, keyed by ID */
+  deleted: Record<string, number>
+}
+
+/**
+ * The value of a preference and the time it was last changed.
+ * The time is 0 for a value the user has not changed since it was first synced or loaded.
+ */
+export type SyncAppDataSetting = {
+  value: unknown
+  updated: number
+}
+
+/**
+ * The content of the app data file.
+ */
+export type SyncAppData = {
+  format: typeof syncAppDataFormat
+  version: 1
+  collections?: SyncAppDataList<Collection>
+  filters?: SyncAppDataList<Filter>
+  /** The synced preferences, keyed by setting name */
+  settings?: Record<string, SyncAppDataSetting>
+}
+
+/**
+ * Parses the content of an app data file.
+ * @param json - The decoded content of the file.
+ * @returns The app data, or undefined if the content is not app data.
+ */
+export function parseSyncAppData(json: string): SyncAppData | undefined {
+  try {
+    const data: unknown = JSON.parse(json)
+    return isNonNullObject(data) &&
+      (data as SyncAppData).format === syncAppDataFormat
+      ? (data as SyncAppData)
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Removes items that duplicate an earlier created item, e.g., the preset
+ * collections that each new device creates with its own IDs.
+ * The removed duplicates become tombstones, so every device removes the same ones.
+ * @param list - The merged items and tombstones.
+ * @param getKey - Gets the key of an item; items with the same key are duplicates.
+ * @returns The items without duplicates and the tombstones.
+ */
+function removeDuplicates<T extends SyncAppDataItem>(
+  list: SyncAppDataList<T>,
+  getKey: (item: T) => string
+): SyncAppDataList<T> {
+  const originals = new Map<string, T>()
+  for (const item of list.items) {
+    const key = getKey(item)
+    const original = originals.get(key)
+    if (
+      !original ||
+      item.created < original.created ||
+      (item.created === original.created && item.id < original.id)
+    ) {
+      originals.set(key, item)
+    }
+  }
+
+  const deleted = { ...list.deleted }
+  const items = list.items.filter((item) => {
+    if (originals.get(getKey(item)) === item) {
+      return true
+    }
+
+    deleted[item.id] = Math.max(deleted[item.id] || 0, item.updated)
+    return false
+  })
+  return { items, deleted }
+}
+
+/**
+ * Merges the collections or saved filters of two devices.
+ * The version with the newer `updated` timestamp wins, and the local version wins a tie.
+ * An item is removed if it was deleted at or after its last update.
+ * @param local - The local items and tombstones.
+ * @param remote - The remote items and tombstones, or undefined if the remote has none.
+ * @returns The merged items, newest first, and tombstones.
+ */
+export function mergeSyncAppDataLists<T extends SyncAppDataItem>(
+  local: SyncAppDataList<T>,
+  remote: SyncAppDataList<T> | undefined
+): SyncAppDataList<T> {
+  if (!remote) {
+    return local
+  }
+
+  const deleted = { ...remote.deleted }
+  for (const [id, time] of Object.entries(local.deleted)) {
+    deleted[id] = Math.max(deleted[id] || 0, time)
+  }
+
+  const remoteItems = new Map(remote.items.map((item) => [item.id, item]))
+  const localIds = new Set(local.items.map((item) => item.id))
+  const items = [
+    ...remote.items.filter((item) => !localIds.has(item.id)),
+    ...local.items.map((item) => {
+      const remoteItem = remoteItems.get(item.id)
+      return remoteItem && remoteItem.updated > item.updated ? remoteItem : item
+    }),
+  ]
+    .filter(
+      (item) =>
+        !Object.hasOwn(deleted, item.id) || deleted[item.id] < item.updated
+    )
+    // Sort newest first, like new items are added, so all devices upload the same order
+    .sort((a, b) => b.created - a.created)
+
+  return { items, deleted }
+}
+
+/**
+ * Merges the preferences of two devices.
+ * For each preference, the value with the newer `updated` timestamp wins, and the local value wins a tie.
+ * @param local - The local preferences.
+ * @param remote - The remote preferences, or undefined if the remote has none.
+ * @returns The merged preferences.
+ */
+export function mergeSyncAppDataSettings(
+  local: Record<string, SyncAppDataSetting>,
+  remote: Record<string, SyncAppDataSetting> | undefined
+): Record<string, SyncAppDataSetting> {
+  const merged = { ...remote, ...local }
+  for (const [key, setting] of Object.entries(remote || {})) {
+    if (!local[key] || setting.updated > local[key].updated) {
+      merged[key] = setting
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Merges the local app data into the remote app data.
+ * Only the given categories are merged; the remote data of other categories is kept,
+ * as other devices may sync them.
+ * @param local - The local app data.
+ * @param remote - The remote app data, or undefined if the remote has none.
+ * @param categories - The categories synced by the sync service.
+ * @returns The merged app data.
+ */
+export function mergeSyncAppData(
+  local: SyncAppData,
+  remote: SyncAppData | undefined,
+  categories: SyncAppDataCategory[]
+): SyncAppData {
+  const merged: SyncAppData = {
+    ...remote,
+    format: syncAppDataFormat,
+    version: 1,
+  }
+  if (categories.includes('collections') && local.collections) {
+    merged.collections = removeDuplicates(
+      mergeSyncAppDataLists(local.collections, remote?.collections),
+      (collection) => collection.pathname
+    )
+  }
+
+  if (categories.includes('filters') && local.filters) {
+    merged.filters = removeDuplicates(
+      mergeSyncAppDataLists(local.filters, remote?.filters),
+      (filter) => `${filter.name}\n${filter.filterString}`
+    )
+  }
+
+  if (categories.includes('settings') && local.settings) {
+    merged.settings = mergeSyncAppDataSettings(local.settings, remote?.settings)
+  }
+
+  return merged
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import type { SyncServiceConfig } from './types.js'
+import {
+  addSyncAuditLogEntry,
+  applyRetention,
+  clearSyncAuditLog,
+  exportSyncAuditLog,
+  getSyncAuditLog,
+  maxAuditLogAge,
+  maxAuditLogEntries,
+  maxAuditLogUrls,
+  type SyncAuditLogEntry,
+  type SyncAuditLogFilter,
+} from './sync-audit-log.js'
+
+function createService(id: string): SyncServiceConfig {
+  return {
+    id,
+    type: 'webdav',
+    name: `Service ${id}`,
+    credentials: { username: 'user', password: 'password' },
+    target: { url: 'https://dav.example.com', path: 'bookmarks.json' },
+    scope: 'all',
+    enabled: true,
+  }
+}
+
+describe('sync-audit-log', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-10T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should add entries with counts, affected URLs and the device', async () => {
+    const entry = await addSyncAuditLogEntry(createService('a'), 'success', {
+      updatesForLocal: {
+        'https://a.com': { tags: ['a'], meta: { created: 1, updated: 1 } },
+      },
+      remoteDeletions: ['https://b.com'],
+    })
+
+    expect(entry).toMatchObject({
+      serviceId: 'a',
+      serviceName: 'Service a',
+      serviceType: 'webdav',
+      result: 'success',
+      timestamp: Date.now(),
+      updatesForLocal: { count: 1, urls: ['https://a.com'] },
+      updatesForRemote: { count: 0, urls: [] },
+      localDeletions: { count: 0, urls: [] },
+      remoteDeletions: { count: 1, urls: ['https://b.com'] },
+    })
+    expect(entry.device.deviceId).toBeTruthy()
+    expect(await getSyncAuditLog()).toEqual([entry])
+  })
+
+  it('should record errors and cap the stored URLs', async () => {
+    const urls = Array.from(
+      { length: maxAuditLogUrls + 10 },
+      (_, index) => `https://${index}.com`
+    )
+    const entry = await addSyncAuditLogEntry(
+      createService('a'),
+      'error',
+      { localDeletions: urls },
+      'Network error'
+    )
+
+    expect(entry.error).toBe('Network error')
+    expect(entry.localDeletions.count).toBe(maxAuditLogUrls + 10)
+    expect(entry.localDeletions.urls).toHaveLength(maxAuditLogUrls)
+  })
+
+  it('should filter entries by service and date, newest first', async () => {
+    await addSyncAuditLogEntry(createService('a'), 'success')
+    vi.advanceTimersByTime(1000)
+    await addSyncAuditLogEntry(createService('b'), 'error')
+    vi.advanceTimersByTime(1000)
+    await addSyncAuditLogEntry(createService('a'), 'conflict')
+
+    const now = Date.now()
+    const getResults = async (filter?: SyncAuditLogFilter) => {
+      const entries = await getSyncAuditLog(filter)
+      return entries.map((entry) => entry.result)
+    }
+
+    expect(await getResults()).toEqual(['conflict', 'error', 'success'])
+    expect(await getResults({ serviceId: 'a' })).toEqual([
+      'conflict',
+      'success',
+    ])
+    expect(await getResults({ from: now - 1000, to: now - 1000 })).toEqual([
+      'error',
+    ])
+  })
+
+  it('should drop entries beyond the retention limits', () => {
+    const now = Date.now()
+    const entries = Array.from(
+      { length: maxAuditLogEntries + 1 },
+      (_, index) => ({ id: String(index), timestamp: now - index })
+    ) as SyncAuditLogEntry[]
+    entries.push({
+      id: 'old',
+      timestamp: now - maxAuditLogAge - 1,
+    } as SyncAuditLogEntry)
+
+    const kept = applyRetention(entries, now)
+
+    expect(kept).toHaveLength(maxAuditLogEntries)
+    expect(kept.at(-1)?.id).toBe(String(maxAuditLogEntries - 1))
+  })
+
+  it('should convert the legacy merge history into the log', async () => {
+    localStorage.setItem(
+      'utags-merge-history',
+      JSON.stringify([
+        {
+          serviceId: 'a',
+          serviceType: 'webdav',
+          serviceName: 'Service a',
+          timestamp: Date.now() - 1000,
+          lastDataChangeTimestamp: 500,
+          hasChangesForRemote: true,
+          hasChangesForLocal: false,
+          updatesForLocal: { count: 0, bookmarks: [] },
+          updatesForRemote: { count: 1, bookmarks: ['https://a.com'] },
+          localDeletions: { count: 0, urls: [] },
+          remoteDeletions: {
+            count: 2,
+            urls: ['https://b.com', 'https://c.com'],
+          },
+          deviceInfo: { userAgent: 'test', origin: 'https://utags.link' },
+        },
+      ])
+    )
+
+    await addSyncAuditLogEntry(createService('b'), 'error')
+
+    const entries = await getSyncAuditLog()
+    expect(entries.map((entry) => entry.serviceId)).toEqual(['b', 'a'])
+    expect(entries[1]).toMatchObject({
+      serviceName: 'Service a',
+      serviceType: 'webdav',
+      result: 'success',
+      timestamp: Date.now() - 1000,
+      lastDataChangeTimestamp: 500,
+      updatesForLocal: { count: 0, urls: [] },
+      updatesForRemote: { count: 1, urls: ['https://a.com'] },
+      localDeletions: { count: 0, urls: [] },
+      remoteDeletions: { count: 2, urls: ['https://b.com', 'https://c.com'] },
+    })
+    expect(localStorage.getItem('utags-merge-history')).toBeNull()
+  })
+
+  it('should keep the legacy merge history if the log cannot be saved', async () => {
+    localStorage.setItem(
+      'utags-merge-history',
+      JSON.stringify([{ serviceId: 'a', timestamp: Date.now() }])
+    )
+    vi.spyOn(bookmarkStorage, 'setRecord').mockRejectedValue(
+      new Error('Quota exceeded')
+    )
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    await addSyncAuditLogEntry(createService('a'), 'success')
+
+    expect(localStorage.getItem('utags-merge-history')).not.toBeNull()
+  })
+
+  it('should ignore an unreadable log', async () => {
+    vi.spyOn(bookmarkStorage, 'getRecord').mockResolvedValueOnce('{invalid')
+
+    expect(await getSyncAuditLog()).toEqual([])
+    await addSyncAuditLogEntry(createService('a'), 'success')
+    expect(await getSyncAuditLog()).toHaveLength(1)
+  })
+
+  it('should export the filtered entries as JSON and clear the log', async () => {
+    await addSyncAuditLogEntry(createService('a'), 'success')
+    await addSyncAuditLogEntry(createService('b'), 'success')
+
+    const exported = JSON.parse(
+      await exportSyncAuditLog({ serviceId: 'b' })
+    ) as {
+      exported: string
+      filter: unknown
+      entries: SyncAuditLogEntry[]
+    }
+    expect(exported.exported).toBe('2026-01-10T00:00:00.000Z')
+    expect(exported.filter).toEqual({ serviceId: 'b' })
+    expect(exported.entries.map((entry) => entry.serviceId)).toEqual(['b'])
+
+    await clearSyncAuditLog()
+    expect(await getSyncAuditLog()).toEqual([])
+  })
+})
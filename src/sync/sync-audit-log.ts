@@ -0,0 +1,338 @@
+import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import type { BookmarksData } from '../types/bookmarks.js'
+import { getDeviceInfo } from '../utils/device-utils.js'
+import type { SyncServiceConfig, SyncServiceType } from './types.js'
+
+/**
+ * @file Persists a bounded audit log of sync operations.
+ *
+ * Each sync that changes data, fails or ends in a conflict adds an entry. The
+ * log keeps the newest entries of the last days, and the affected URLs of each
+ * entry are capped, so it never grows beyond a few hundred kilobytes.
+ *
+ * The log is a record of `bookmarkStorage`, so it is kept with the bookmarks,
+ * in IndexedDB when available. The entries of the legacy merge history are
+ * converted into the log the first time it is loaded.
+ */
+
+/**
+ * The maximum number of entries kept in the audit log.
+ */
+export const maxAuditLogEntries = 200
+
+/**
+ * The maximum age of entries kept in the audit log: 90 days.
+ */
+export const maxAuditLogAge = 90 * 24 * 60 * 60 * 1000
+
+/**
+ * The maximum number of affected URLs stored per change list of an entry.
+ */
+export const maxAuditLogUrls = 50
+
+/**
+ * The key of the audit log record in `bookmarkStorage`.
+ */
+const auditLogRecordKey = 'sync-audit-log'
+
+/**
+ * The localStorage key of the legacy merge history, which the audit log replaces.
+ */
+const legacyMergeHistoryKey = 'utags-merge-history'
+
+/**
+ * The bookmarks affected by one kind of change of a sync.
+ */
+export type SyncAuditLogChanges = {
+  count: number
+  /** The affected URLs, capped at `maxAuditLogUrls` */
+  urls: string[]
+}
+
+/**
+ * An entry of the sync audit log.
+ */
+export type SyncAuditLogEntry = {
+  id: string
+  timestamp: number
+  serviceId: string
+  serviceName: string
+  serviceType: SyncServiceType
+  result: 'success' | 'error' | 'conflict'
+  error?: string
+  device: {
+    deviceId: string
+    browser: string
+    os: string
+  }
+  /** The `lastDataChangeTimestamp` of the service before the sync */
+  lastDataChangeTimestamp?: number
+  updatesForLocal: SyncAuditLogChanges
+  updatesForRemote: SyncAuditLogChanges
+  localDeletions: SyncAuditLogChanges
+  remoteDeletions: SyncAuditLogChanges
+}
+
+/**
+ * The changes of a sync to record in the audit log.
+ */
+export type SyncAuditLogChangeSet = {
+  updatesForLocal?: BookmarksData
+  updatesForRemote?: BookmarksData
+  localDeletions?: string[]
+  remoteDeletions?: string[]
+}
+
+/**
+ * Filters the entries of the audit log. All conditions are optional.
+ */
+export type SyncAuditLogFilter = {
+  serviceId?: string
+  /** The earliest timestamp, inclusive */
+  from?: number
+  /** The latest timestamp, inclusive */
+  to?: number
+}
+
+/**
+ * Creates the changes of an entry from the affected URLs.
+ * @param urls - The affected URLs.
+ * @returns The number of URLs and the first `maxAuditLogUrls` of them.
+ */
+function createChanges(urls: string[] = []): SyncAuditLogChanges {
+  return { count: urls.length, urls: urls.slice(0, maxAuditLogUrls) }
+}
+
+/**
+ * An entry of the legacy merge history. It was only written after successful syncs.
+ */
+type LegacyMergeHistoryEntry = {
+  serviceId: string
+  serviceType: SyncServiceType
+  serviceName: string
+  timestamp: number
+  lastDataChangeTimestamp?: number
+  updatesForLocal?: { count: number; bookmarks?: string[] }
+  updatesForRemote?: { count: number; bookmarks?: string[] }
+  localDeletions?: { count: number; urls?: string[] }
+  remoteDeletions?: { count: number; urls?: string[] }
+}
+
+/**
+ * Converts an entry of the legacy merge history into an audit log entry.
+ * The legacy history was kept in localStorage, so its syncs ran on this device.
+ * @param legacyEntry - The entry of the legacy merge history.
+ * @returns The audit log entry.
+ */
+function convertLegacyEntry(
+  legacyEntry: LegacyMergeHistoryEntry
+): SyncAuditLogEntry {
+  const { deviceId, browser, os } = getDeviceInfo()
+  const convertChanges = (
+    changes?: { count: number },
+    urls: string[] = []
+  ) => ({
+    ...createChanges(urls),
+    count: changes?.count ?? urls.length,
+  })
+  return {
+    id: crypto.randomUUID(),
+    timestamp: legacyEntry.timestamp,
+    serviceId: legacyEntry.serviceId,
+    serviceName: legacyEntry.serviceName,
+    serviceType: legacyEntry.serviceType,
+    result: 'success',
+    device: { deviceId, browser, os },
+    lastDataChangeTimestamp: legacyEntry.lastDataChangeTimestamp,
+    updatesForLocal: convertChanges(
+      legacyEntry.updatesForLocal,
+      legacyEntry.updatesForLocal?.bookmarks
+    ),
+    updatesForRemote: convertChanges(
+      legacyEntry.updatesForRemote,
+      legacyEntry.updatesForRemote?.bookmarks
+    ),
+    localDeletions: convertChanges(
+      legacyEntry.localDeletions,
+      legacyEntry.localDeletions?.urls
+    ),
+    remoteDeletions: convertChanges(
+      legacyEntry.remoteDeletions,
+      legacyEntry.remoteDeletions?.urls
+    ),
+  }
+}
+
+/**
+ * Converts the legacy merge history into the audit log, then removes it.
+ * @returns The converted entries, newest first. Empty if there is no legacy history.
+ */
+async function migrateLegacyMergeHistory(): Promise<SyncAuditLogEntry[]> {
+  const legacyHistory = JSON.parse(
+    localStorage.getItem(legacyMergeHistoryKey) || '[]'
+  ) as unknown
+  if (!Array.isArray(legacyHistory) || legacyHistory.length === 0) {
+    return []
+  }
+
+  const entries = applyRetention(
+    (legacyHistory as LegacyMergeHistoryEntry[]).map((legacyEntry) =>
+      convertLegacyEntry(legacyEntry)
+    )
+  )
+  await bookmarkStorage.setRecord(auditLogRecordKey, entries)
+  localStorage.removeItem(legacyMergeHistoryKey)
+  return entries
+}
+
+/**
+ * Loads the audit log, converting the legacy merge history if the log does not exist yet.
+ * @returns The entries, newest first. Empty if the log does not exist or cannot be read.
+ */
+async function loadEntries(): Promise<SyncAuditLogEntry[]> {
+  try {
+    const entries = await bookmarkStorage.getRecord(auditLogRecordKey)
+    if (entries === undefined) {
+      return await migrateLegacyMergeHistory()
+    }
+
+    return Array.isArray(entries) ? (entries as SyncAuditLogEntry[]) : []
+  } catch (error) {
+    console.warn('[SyncAuditLog] Failed to load the audit log:', error)
+    return []
+  }
+}
+
+// Reads and updates of the log run one after another, so concurrent syncs do not drop each other's entries
+let pendingTask: Promise<unknown> = Promise.resolve()
+
+/**
+ * Runs a task on the audit log after the pending ones.
+ * @param task - The task to run.
+ * @returns A promise that resolves with the result of the task.
+ */
+async function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = pendingTask.then(task)
+  pendingTask = result.catch(() => undefined)
+  return result
+}
+
+/**
+ * Replaces the entries of the audit log.
+ * @param update - Returns the new entries from the current ones.
+ * @returns A promise that resolves when the entries are saved.
+ * @throws Error if saving the entries fails.
+ */
+async function updateEntries(
+  update: (entries: SyncAuditLogEntry[]) => SyncAuditLogEntry[]
+): Promise<void> {
+  return enqueue(async () => {
+    const entries = await loadEntries()
+    await bookmarkStorage.setRecord(auditLogRecordKey, update(entries))
+  })
+}
+
+/**
+ * Removes the entries that exceed the retention limits.
+ * @param entries - The entries, newest first.
+ * @param now - The current time.
+ * @returns The entries to keep.
+ */
+export function applyRetention(
+  entries: SyncAuditLogEntry[],
+  now = Date.now()
+): SyncAuditLogEntry[] {
+  return entries
+    .filter((entry) => now - entry.timestamp <= maxAuditLogAge)
+    .slice(0, maxAuditLogEntries)
+}
+
+/**
+ * Adds an entry for a sync attempt to the audit log.
+ * Failures to persist the entry are logged and otherwise ignored, so the log never breaks a sync.
+ * @param serviceConfig - The configuration of the synchronized service.
+ * @param result - The result of the sync.
+ * @param changes - The changes of the sync.
+ * @param error - The error message if the sync failed or ended in a conflict.
+ * @returns A promise that resolves with the added entry.
+ */
+export async function addSyncAuditLogEntry(
+  serviceConfig: SyncServiceConfig,
+  result: SyncAuditLogEntry['result'],
+  changes: SyncAuditLogChangeSet = {},
+  error?: string
+): Promise<SyncAuditLogEntry> {
+  const { deviceId, browser, os } = getDeviceInfo()
+  const now = Date.now()
+  const entry: SyncAuditLogEntry = {
+    id: crypto.randomUUID(),
+    timestamp: now,
+    serviceId: serviceConfig.id,
+    serviceName: serviceConfig.name,
+    serviceType: serviceConfig.type,
+    result,
+    error,
+    device: { deviceId, browser, os },
+    lastDataChangeTimestamp: serviceConfig.lastDataChangeTimestamp,
+    updatesForLocal: createChanges(Object.keys(changes.updatesForLocal || {})),
+    updatesForRemote: createChanges(
+      Object.keys(changes.updatesForRemote || {})
+    ),
+    localDeletions: createChanges(changes.localDeletions),
+    remoteDeletions: createChanges(changes.remoteDeletions),
+  }
+
+  try {
+    await updateEntries((entries) => applyRetention([entry, ...entries], now))
+  } catch (error) {
+    console.warn('[SyncAuditLog] Failed to save the audit log entry:', error)
+  }
+
+  return entry
+}
+
+/**
+ * Gets the entries of the audit log.
+ * @param filter - The conditions the entries must match.
+ * @returns A promise that resolves with the matching entries, newest first.
+ */
+export async function getSyncAuditLog(
+  filter: SyncAuditLogFilter = {}
+): Promise<SyncAuditLogEntry[]> {
+  const { serviceId, from, to } = filter
+  const entries = await enqueue(loadEntries)
+  return entries.filter(
+    (entry) =>
+      (serviceId === undefined || entry.serviceId === serviceId) &&
+      (from === undefined || entry.timestamp >= from) &&
+      (to === undefined || entry.timestamp <= to)
+  )
+}
+
+/**
+ * Removes all entries of the audit log.
+ * @returns A promise that resolves when the log is cleared.
+ * @throws Error if saving the empty log fails.
+ */
+export async function clearSyncAuditLog(): Promise<void> {
+  await updateEntries(() => [])
+}
+
+/**
+ * Exports entries of the audit log as JSON, e.g., to attach them to a bug report.
+ * @param filter - The conditions the exported entries must match.
+ * @returns A promise that resolves with the JSON with the export time and the matching entries.
+ */
+export async function exportSyncAuditLog(
+  filter: SyncAuditLogFilter = {}
+): Promise<string> {
+  return JSON.stringify(
+    {
+      exported: new Date().toISOString(),
+      filter,
+      entries: await getSyncAuditLog(filter),
+    },
+    null,
+    2
+  )
+}
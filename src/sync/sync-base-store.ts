@@ -0,0 +1,151 @@
+import {
+  CURRENT_DATABASE_VERSION,
+  STORAGE_KEY_SYNC_BASE,
+} from '../config/constants.js'
+import type { BookmarksData, BookmarksStore } from '../types/bookmarks.js'
+import type { BookmarkStorageEngine } from '../lib/bookmark-storage-engine.js'
+import { IndexedDbBookmarkEngine } from '../lib/indexed-db-bookmark-engine.js'
+import { isNonNullObject } from '../utils/index.js'
+import type { SyncServiceConfig } from './types.js'
+
+/**
+ * @file Persists the sync base of each sync service: the remote data as it was
+ * after the last successful sync. It is the common ancestor used by
+ * `mergeBookmarks` for three-way merges.
+ *
+ * The base is a full copy of the remote data, so it is only kept in IndexedDB.
+ * A copy per service in localStorage would exceed its quota with large libraries,
+ * so without IndexedDB no base is kept and the merge falls back to timestamps.
+ */
+
+/**
+ * Used when the IndexedDB database cannot be opened. Keeps no data.
+ */
+const noStorageEngine: BookmarkStorageEngine = {
+  name: 'none',
+  async load() {
+    return undefined
+  },
+  async save() {
+    // The sync base is not kept without IndexedDB
+  },
+  async clear() {
+    // Nothing to clear
+  },
+  async getRecord() {
+    return undefined
+  },
+  async setRecord() {
+    // No records are kept with the sync base
+  },
+}
+
+// Storage engines by sync service ID, so each database is opened only once.
+const engines = new Map<string, BookmarkStorageEngine>()
+
+function getEngine(serviceId: string): BookmarkStorageEngine {
+  if (typeof indexedDB === 'undefined') {
+    return noStorageEngine
+  }
+
+  let engine = engines.get(serviceId)
+  if (!engine) {
+    engine = new IndexedDbBookmarkEngine(
+      `${STORAGE_KEY_SYNC_BASE}-${serviceId}`,
+      noStorageEngine
+    )
+    engines.set(serviceId, engine)
+  }
+
+  return engine
+}
+
+/**
+ * Loads the sync base of a sync service.
+ *
+ * The base is only returned if it was saved by the sync that produced the
+ * service's current `lastDataChangeTimestamp`. After the sync target changes
+ * (which resets the timestamp), or if saving the base failed, the stale base
+ * is ignored and the merge falls back to timestamp-based change detection.
+ *
+ * @param serviceConfig - The sync service configuration.
+ * @returns The base bookmarks data, or undefined if no valid base exists.
+ */
+export async function getSyncBase(
+  serviceConfig: SyncServiceConfig
+): Promise<BookmarksData | undefined> {
+  const { lastDataChangeTimestamp } = serviceConfig
+  if (!lastDataChangeTimestamp) {
+    return undefined
+  }
+
+  try {
+    const store = (await getEngine(serviceConfig.id).load()) as
+      | BookmarksStore
+      | undefined
+    if (
+      !store ||
+      !isNonNullObject(store) ||
+      !isNonNullObject(store.data) ||
+      !isNonNullObject(store.meta) ||
+      store.meta.updated !== lastDataChangeTimestamp
+    ) {
+      return undefined
+    }
+
+    return store.data
+  } catch (error) {
+    console.warn(
+      `[SyncBaseStore] Failed to load sync base for service ${serviceConfig.id}:`,
+      error
+    )
+    return undefined
+  }
+}
+
+/**
+ * Saves the sync base of a sync service.
+ *
+ * @param serviceId - The ID of the sync service.
+ * @param data - The remote bookmarks data after a successful sync.
+ * @param lastDataChangeTimestamp - The service's `lastDataChangeTimestamp` after the sync.
+ */
+export async function saveSyncBase(
+  serviceId: string,
+  data: BookmarksData,
+  lastDataChangeTimestamp: number | undefined
+): Promise<void> {
+  const engine = getEngine(serviceId)
+  if (!lastDataChangeTimestamp) {
+    await engine.clear()
+    engines.delete(serviceId)
+    return
+  }
+
+  await engine.save({
+    data,
+    meta: {
+      databaseVersion: CURRENT_DATABASE_VERSION,
+      created: lastDataChangeTimestamp,
+      updated: lastDataChangeTimestamp,
+    },
+  })
+}
+
+/**
+ * Removes the sync base of a sync service.
+ *
+ * @param serviceId - The ID of the sync service.
+ */
+export async function clearSyncBase(serviceId: string): Promise<void> {
+  try {
+    await getEngine(serviceId).clear()
+  } catch (error) {
+    console.warn(
+      `[SyncBaseStore] Failed to clear sync base for service ${serviceId}:`,
+      error
+    )
+  } finally {
+    engines.delete(serviceId)
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import type { BookmarksData } from '../types/bookmarks.js'
+import { applySyncChanges, createSyncChanges } from './sync-changes.js'
+
+describe('sync-changes', () => {
+  const meta = { databaseVersion: 3, created: 1000, updated: 2000 }
+  const remoteData: BookmarksData = {
+    'https://a.com': { tags: ['a'], meta: { created: 1000, updated: 1000 } },
+    'https://b.com': { tags: ['b'], meta: { created: 1000, updated: 1000 } },
+  }
+
+  it('should apply changes without modifying the original data', () => {
+    const changed = {
+      'https://c.com': { tags: ['c'], meta: { created: 2000, updated: 2000 } },
+    }
+
+    expect(
+      applySyncChanges(remoteData, { changed, deleted: ['https://a.com'] })
+    ).toEqual({ 'https://b.com': remoteData['https://b.com'], ...changed })
+    expect(Object.keys(remoteData)).toEqual(['https://a.com', 'https://b.com'])
+  })
+
+  it('should only include changed and deleted bookmarks', () => {
+    const data: BookmarksData = {
+      // Same bookmark with a different property order
+      'https://a.com': { meta: { updated: 1000, created: 1000 }, tags: ['a'] },
+      'https://c.com': { tags: ['c'], meta: { created: 2000, updated: 2000 } },
+    }
+
+    expect(createSyncChanges(remoteData, { data, meta })).toEqual({
+      changed: { 'https://c.com': data['https://c.com'] },
+      deleted: ['https://b.com'],
+      meta,
+    })
+  })
+
+  it('should restore the data when the changes are applied', () => {
+    const data: BookmarksData = {
+      'https://a.com': {
+        tags: ['a', 'a2'],
+        meta: { created: 1000, updated: 3000 },
+      },
+    }
+
+    expect(
+      applySyncChanges(
+        remoteData,
+        createSyncChanges(remoteData, { data, meta })
+      )
+    ).toEqual(data)
+  })
+})
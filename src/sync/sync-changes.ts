@@ -0,0 +1,58 @@
+import type { BookmarksData, BookmarksStore } from '../types/bookmarks.js'
+import { normalizeBookmarkData } from '../utils/normalize-bookmark-data.js'
+import type { SyncChanges } from './types.js'
+
+/**
+ * @file Helpers for the delta sync protocol.
+ *
+ * With delta sync, the remote data is rebuilt by applying the downloaded
+ * changes to the sync base, the remote data of the last successful sync.
+ * After merging, only the difference to the remote data is uploaded.
+ */
+
+/**
+ * Applies changes to bookmarks data.
+ * @param data - The bookmarks data the changes are based on.
+ * @param changes - The changes to apply.
+ * @returns The changed bookmarks data. The original data is not modified.
+ */
+export function applySyncChanges(
+  data: BookmarksData,
+  changes: Pick<SyncChanges, 'changed' | 'deleted'>
+): BookmarksData {
+  const result: BookmarksData = { ...data, ...changes.changed }
+  for (const url of changes.deleted) {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete result[url]
+  }
+
+  return result
+}
+
+/**
+ * Creates the changes that turn the remote data into the data to upload.
+ * @param remoteData - The remote bookmarks data the changes are based on.
+ * @param bookmarksStore - The bookmarks store to upload.
+ * @returns The changes.
+ */
+export function createSyncChanges(
+  remoteData: BookmarksData,
+  bookmarksStore: BookmarksStore
+): SyncChanges {
+  const changed: BookmarksData = {}
+  for (const [url, bookmark] of Object.entries(bookmarksStore.data)) {
+    if (
+      !remoteData[url] ||
+      JSON.stringify(normalizeBookmarkData(remoteData[url])) !==
+        JSON.stringify(normalizeBookmarkData(bookmark))
+    ) {
+      changed[url] = bookmark
+    }
+  }
+
+  return {
+    changed,
+    deleted: Object.keys(remoteData).filter((url) => !bookmarksStore.data[url]),
+    meta: bookmarksStore.meta,
+  }
+}
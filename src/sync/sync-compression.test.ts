@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  compressSyncData,
+  decompressSyncData,
+  isCompressedSyncData,
+  type CompressedSyncData,
+} from './sync-compression.js'
+
+describe('sync-compression', () => {
+  const plaintext = JSON.stringify(
+    {
+      data: Object.fromEntries(
+        Array.from({ length: 100 }, (_, i) => [
+          `https://example.com/${i}`,
+          { tags: ['标签', 'tag1'], meta: { created: i, updated: i } },
+        ])
+      ),
+    },
+    null,
+    2
+  )
+
+  it.each(['gzip', 'deflate'] as const)(
+    'should decompress data compressed with %s',
+    async (compression) => {
+      const compressed = await compressSyncData(plaintext, compression)
+      const envelope = JSON.parse(compressed) as CompressedSyncData
+
+      expect(envelope).toMatchObject({
+        format: 'utags-compressed',
+        version: 1,
+        compression,
+      })
+      expect(compressed.length).toBeLessThan(plaintext.length / 3)
+      await expect(decompressSyncData(compressed)).resolves.toBe(plaintext)
+    }
+  )
+
+  it('should not store the payload as bookmarks data', async () => {
+    const envelope = JSON.parse(
+      await compressSyncData(plaintext, 'gzip')
+    ) as Record<string, unknown>
+
+    expect(envelope.data).toBeUndefined()
+  })
+
+  it('should reject unsupported envelopes', async () => {
+    const envelope = JSON.parse(
+      await compressSyncData(plaintext, 'gzip')
+    ) as Record<string, unknown>
+
+    await expect(
+      decompressSyncData(JSON.stringify({ ...envelope, compression: 'br' }))
+    ).rejects.toThrow('Unsupported compressed data format')
+  })
+
+  it('should detect compressed data', async () => {
+    expect(
+      isCompressedSyncData(await compressSyncData(plaintext, 'gzip'))
+    ).toBe(true)
+    expect(isCompressedSyncData(plaintext)).toBe(false)
+    expect(isCompressedSyncData('not json')).toBe(false)
+  })
+})
@@ -0,0 +1,101 @@
+import { base64ToBytes, bytesToBase64 } from '../utils/base64.js'
+
+/**
+ * @file Compression of synced data.
+ *
+ * The data is compressed with the Compression Streams API and stored as a
+ * base64 encoded JSON envelope, as the sync adapters upload text. Compressed
+ * data is detected on download regardless of the service setting, so devices
+ * with different settings can keep syncing with the same remote.
+ */
+
+export const compressedSyncDataFormat = 'utags-compressed'
+
+/**
+ * The compression formats supported by `CompressionStream`.
+ */
+export type SyncCompressionFormat = 'gzip' | 'deflate'
+
+/**
+ * The envelope of compressed sync data.
+ */
+export type CompressedSyncData = {
+  format: typeof compressedSyncDataFormat
+  version: 1
+  compression: SyncCompressionFormat
+  /**
+   * Base64 encoded compressed data.
+   * Not named `data`, so older versions do not read it as bookmarks data.
+   */
+  payload: string
+}
+
+async function pipeBytes(
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Checks if sync data is a compressed envelope.
+ * @param data - The downloaded data.
+ * @returns True if the data is compressed.
+ */
+export function isCompressedSyncData(data: string): boolean {
+  try {
+    const parsed = JSON.parse(data) as Partial<CompressedSyncData> | undefined
+    return parsed?.format === compressedSyncDataFormat
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Compresses sync data.
+ * @param data - The data to compress.
+ * @param compression - The compression format.
+ * @returns The stringified compressed envelope.
+ */
+export async function compressSyncData(
+  data: string,
+  compression: SyncCompressionFormat
+): Promise<string> {
+  const compressed = await pipeBytes(
+    new TextEncoder().encode(data),
+    new CompressionStream(compression)
+  )
+
+  const envelope: CompressedSyncData = {
+    format: compressedSyncDataFormat,
+    version: 1,
+    compression,
+    payload: bytesToBase64(compressed),
+  }
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Decompresses a compressed envelope created by `compressSyncData`.
+ * @param data - The stringified compressed envelope.
+ * @returns The decompressed data.
+ * @throws {Error} If the envelope is not supported or the data is corrupted.
+ */
+export async function decompressSyncData(data: string): Promise<string> {
+  const envelope = JSON.parse(data) as CompressedSyncData
+  if (
+    envelope.version !== 1 ||
+    !['gzip', 'deflate'].includes(envelope.compression)
+  ) {
+    throw new Error(
+      `Unsupported compressed data format: version ${String(envelope.version)}, ${String(envelope.compression)}`
+    )
+  }
+
+  const decompressed = await pipeBytes(
+    base64ToBytes(envelope.payload),
+    new DecompressionStream(envelope.compression)
+  )
+  return new TextDecoder().decode(decompressed)
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  clearSyncEncryptionKeys,
+  decryptSyncData,
+  encryptSyncData,
+  isEncryptedSyncData,
+  SyncEncryptionError,
+  maxPbkdf2Iterations,
+  type EncryptedSyncData,
+} from './sync-encryption.js'
+
+// A low iteration count keeps the tests fast
+const iterations = 1000
+
+describe('sync-encryption', () => {
+  const plaintext = JSON.stringify({
+    data: { 'https://example.com': { tags: ['标签', 'tag1'] } },
+  })
+
+  afterEach(() => {
+    clearSyncEncryptionKeys()
+    vi.restoreAllMocks()
+  })
+
+  it('should decrypt encrypted data with the same passphrase', async () => {
+    const encrypted = await encryptSyncData(plaintext, 'secret', iterations)
+
+    expect(encrypted).not.toContain('example.com')
+    await expect(decryptSyncData(encrypted, 'secret')).resolves.toBe(plaintext)
+  })
+
+  it('should record the KDF parameters in the envelope', async () => {
+    const encrypted = await encryptSyncData(plaintext, 'secret', iterations)
+    const envelope = JSON.parse(encrypted) as EncryptedSyncData
+
+    expect(envelope.format).toBe('utags-encrypted')
+    expect(envelope.version).toBe(1)
+    expect(envelope.kdf).toMatchObject({
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations,
+    })
+    expect(envelope.kdf.salt).toEqual(expect.any(String))
+    expect(envelope.cipher).toMatchObject({ name: 'AES-GCM' })
+  })
+
+  it('should use a new IV for every encryption and derive the key once', async () => {
+    const deriveKeySpy = vi.spyOn(crypto.subtle, 'deriveKey')
+    const first = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as EncryptedSyncData
+    const second = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as EncryptedSyncData
+    await decryptSyncData(JSON.stringify(second), 'secret')
+
+    expect(first.kdf.salt).toBe(second.kdf.salt)
+    expect(first.cipher.iv).not.toBe(second.cipher.iv)
+    expect(deriveKeySpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('should use a new salt after the keys are cleared', async () => {
+    const first = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as EncryptedSyncData
+    clearSyncEncryptionKeys()
+    const second = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as EncryptedSyncData
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt)
+  })
+
+  it('should throw a clear error for a wrong passphrase', async () => {
+    const encrypted = await encryptSyncData(plaintext, 'secret', iterations)
+
+    await expect(decryptSyncData(encrypted, 'wrong')).rejects.toMatchObject({
+      name: 'SyncEncryptionError',
+      code: 'WRONG_PASSPHRASE',
+    })
+  })
+
+  it('should require a passphrase', async () => {
+    const encrypted = await encryptSyncData(plaintext, 'secret', iterations)
+
+    await expect(decryptSyncData(encrypted, undefined)).rejects.toBeInstanceOf(
+      SyncEncryptionError
+    )
+    await expect(decryptSyncData(encrypted, '')).rejects.toMatchObject({
+      code: 'PASSPHRASE_REQUIRED',
+    })
+  })
+
+  it('should reject unsupported envelopes', async () => {
+    const envelope = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as Record<string, unknown>
+
+    await expect(
+      decryptSyncData(JSON.stringify({ ...envelope, version: 2 }), 'secret')
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' })
+  })
+
+  it('should reject envelopes with too many iterations without deriving a key', async () => {
+    const deriveKeySpy = vi.spyOn(crypto.subtle, 'deriveKey')
+    const envelope = JSON.parse(
+      await encryptSyncData(plaintext, 'secret', iterations)
+    ) as EncryptedSyncData
+    deriveKeySpy.mockClear()
+
+    await expect(
+      decryptSyncData(
+        JSON.stringify({
+          ...envelope,
+          kdf: { ...envelope.kdf, iterations: maxPbkdf2Iterations + 1 },
+        }),
+        'secret'
+      )
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_FORMAT' })
+    expect(deriveKeySpy).not.toHaveBeenCalled()
+  })
+
+  it('should detect encrypted data', async () => {
+    const encrypted = await encryptSyncData(plaintext, 'secret', iterations)
+
+    expect(isEncryptedSyncData(encrypted)).toBe(true)
+    expect(isEncryptedSyncData(plaintext)).toBe(false)
+    expect(isEncryptedSyncData('not json')).toBe(false)
+    expect(isEncryptedSyncData('null')).toBe(false)
+  })
+})
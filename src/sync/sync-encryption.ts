@@ -0,0 +1,278 @@
+import { base64ToBytes, bytesToBase64 } from '../utils/base64.js'
+
+/**
+ * @file Passphrase-based end-to-end encryption of synced data.
+ *
+ * The data is encrypted with AES-GCM using a key derived from the passphrase
+ * with PBKDF2. The result is stored as a JSON envelope that records the KDF
+ * parameters, so they can be changed later without breaking existing files.
+ *
+ * Deriving the key is slow on purpose, so the derived keys are cached in
+ * memory. A salt is generated once per passphrase, so the shards and the app
+ * data of a sync, and the following syncs, reuse the same key. Each encryption
+ * still uses a new IV.
+ */
+
+export const encryptedSyncDataFormat = 'utags-encrypted'
+
+/** The default number of PBKDF2 iterations, as recommended by OWASP for SHA-256. */
+export const defaultPbkdf2Iterations = 600_000
+
+/** The maximum number of PBKDF2 iterations accepted from remote data, so a crafted file cannot block the sync. */
+export const maxPbkdf2Iterations = 10 * defaultPbkdf2Iterations
+
+/** The maximum number of derived keys kept in memory. */
+const maxCachedKeys = 16
+
+// Derived keys by passphrase, salt and iterations
+const cachedKeys = new Map<string, Promise<CryptoKey>>()
+// The salts used to encrypt, by passphrase and iterations
+const encryptionSalts = new Map<string, Uint8Array>()
+
+/**
+ * The envelope of encrypted sync data.
+ */
+export type EncryptedSyncData = {
+  format: typeof encryptedSyncDataFormat
+  version: 1
+  kdf: {
+    name: 'PBKDF2'
+    hash: 'SHA-256'
+    iterations: number
+    /** Base64 encoded salt */
+    salt: string
+  }
+  cipher: {
+    name: 'AES-GCM'
+    /** Base64 encoded initialization vector */
+    iv: string
+  }
+  /**
+   * Base64 encoded ciphertext, including the authentication tag.
+   * Not named `data`, so older versions do not read it as bookmarks data.
+   */
+  ciphertext: string
+}
+
+/**
+ * Error thrown when sync data cannot be encrypted or decrypted.
+ */
+export class SyncEncryptionError extends Error {
+  static passphraseRequired(): SyncEncryptionError {
+    return new SyncEncryptionError(
+      'The remote data is encrypted. Enter the encryption passphrase in the sync service settings.',
+      'PASSPHRASE_REQUIRED'
+    )
+  }
+
+  static wrongPassphrase(): SyncEncryptionError {
+    return new SyncEncryptionError(
+      'The encryption passphrase is wrong, or the remote data is corrupted.',
+      'WRONG_PASSPHRASE'
+    )
+  }
+
+  static unsupportedFormat(details: string): SyncEncryptionError {
+    return new SyncEncryptionError(
+      `Unsupported encrypted data format: ${details}`,
+      'UNSUPPORTED_FORMAT'
+    )
+  }
+
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message)
+    this.name = 'SyncEncryptionError'
+  }
+}
+
+/**
+ * Derives an AES-GCM key from a passphrase with PBKDF2.
+ * @param passphrase - The passphrase.
+ * @param salt - The salt.
+ * @param iterations - The number of PBKDF2 iterations.
+ * @returns The non-extractable key.
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Gets the key derived from a passphrase, deriving it only if it is not cached.
+ * @param passphrase - The passphrase.
+ * @param salt - The salt.
+ * @param iterations - The number of PBKDF2 iterations.
+ * @returns The non-extractable key.
+ */
+async function getCachedKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const cacheKey = JSON.stringify([passphrase, bytesToBase64(salt), iterations])
+  const cachedKey = cachedKeys.get(cacheKey)
+  if (cachedKey) {
+    return cachedKey
+  }
+
+  const key = deriveKey(passphrase, salt, iterations)
+  cachedKeys.set(cacheKey, key)
+  if (cachedKeys.size > maxCachedKeys) {
+    // Maps iterate in insertion order, so this is the oldest key
+    cachedKeys.delete(cachedKeys.keys().next().value!)
+  }
+
+  try {
+    return await key
+  } catch (error) {
+    cachedKeys.delete(cacheKey)
+    throw error
+  }
+}
+
+/**
+ * Removes the cached keys and salts from memory, e.g., when the credential vault is locked.
+ */
+export function clearSyncEncryptionKeys(): void {
+  cachedKeys.clear()
+  encryptionSalts.clear()
+}
+
+/**
+ * Checks if sync data is an encrypted envelope.
+ * @param data - The downloaded data.
+ * @returns True if the data is encrypted.
+ */
+export function isEncryptedSyncData(data: string): boolean {
+  try {
+    const parsed = JSON.parse(data) as Partial<EncryptedSyncData> | undefined
+    return parsed?.format === encryptedSyncDataFormat
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encrypts sync data with a passphrase.
+ * A new IV is generated for every call. The salt and the derived key are reused for the same passphrase.
+ * @param data - The data to encrypt.
+ * @param passphrase - The encryption passphrase.
+ * @param iterations - The number of PBKDF2 iterations.
+ * @returns The stringified encrypted envelope.
+ */
+export async function encryptSyncData(
+  data: string,
+  passphrase: string,
+  iterations = defaultPbkdf2Iterations
+): Promise<string> {
+  const saltKey = JSON.stringify([passphrase, iterations])
+  let salt = encryptionSalts.get(saltKey)
+  if (!salt) {
+    salt = crypto.getRandomValues(new Uint8Array(16))
+    encryptionSalts.set(saltKey, salt)
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await getCachedKey(passphrase, salt, iterations)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(data)
+  )
+
+  const envelope: EncryptedSyncData = {
+    format: encryptedSyncDataFormat,
+    version: 1,
+    kdf: {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations,
+      salt: bytesToBase64(salt),
+    },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  }
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Decrypts an encrypted envelope created by `encryptSyncData`.
+ * @param data - The stringified encrypted envelope.
+ * @param passphrase - The encryption passphrase.
+ * @returns The decrypted data.
+ * @throws {SyncEncryptionError} If the passphrase is missing or wrong, or the envelope is not supported.
+ */
+export async function decryptSyncData(
+  data: string,
+  passphrase: string | undefined
+): Promise<string> {
+  if (!passphrase) {
+    throw SyncEncryptionError.passphraseRequired()
+  }
+
+  const envelope = JSON.parse(data) as EncryptedSyncData
+  if (envelope.version !== 1) {
+    throw SyncEncryptionError.unsupportedFormat(
+      `version ${String(envelope.version)}`
+    )
+  }
+
+  if (
+    envelope.kdf?.name !== 'PBKDF2' ||
+    envelope.kdf.hash !== 'SHA-256' ||
+    envelope.cipher?.name !== 'AES-GCM'
+  ) {
+    throw SyncEncryptionError.unsupportedFormat(
+      `${String(envelope.kdf?.name)}/${String(envelope.cipher?.name)}`
+    )
+  }
+
+  const { iterations } = envelope.kdf
+  if (
+    !Number.isSafeInteger(iterations) ||
+    iterations < 1 ||
+    iterations > maxPbkdf2Iterations
+  ) {
+    throw SyncEncryptionError.unsupportedFormat(
+      `${String(iterations)} PBKDF2 iterations`
+    )
+  }
+
+  const key = await getCachedKey(
+    passphrase,
+    base64ToBytes(envelope.kdf.salt),
+    iterations
+  )
+  let plaintext: ArrayBuffer
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.cipher.iv) },
+      key,
+      base64ToBytes(envelope.ciphertext)
+    )
+  } catch {
+    // AES-GCM authentication fails if the key is wrong or the data was modified
+    throw SyncEncryptionError.wrongPassphrase()
+  }
+
+  return new TextDecoder().decode(plaintext)
+}
@@ -8,10 +8,12 @@ import {
   type Mock,
 } from 'vitest'
 import { get } from 'svelte/store'
+import { IDBFactory } from 'fake-indexeddb'
 import {
   CURRENT_DATABASE_VERSION,
   DELETED_BOOKMARK_TAG,
   DEFAULT_DATE,
+  STORAGE_KEY_SYNC_BASE,
 } from '../config/constants.js'
 import {
   type MergeMetaStrategy,
@@ -31,8 +33,11 @@ import { normalizeBookmarkData } from '../utils/normalize-bookmark-data.js'
 import { calculateBookmarkStatsFromData } from '../utils/bookmark-stats.js'
 import { getDeviceInfo } from '../utils/device-utils.js'
 import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import { credentialVaultStatus } from '../stores/credential-vault-store.js'
+import { getCollections, type Collection } from '../stores/collections.js'
 import {
   mergeBookmarks,
+  type MergeConflict,
   type MergeStrategy,
 } from '../lib/bookmark-merge-utils.js'
 import * as bookmarkMergeUtils from '../lib/bookmark-merge-utils.js'
@@ -43,6 +48,7 @@ import {
   setActiveSyncService,
   removeSyncService,
   getSyncServiceById,
+  setMassDeletionThreshold,
   type SyncSettings,
 } from '../stores/sync-config-store.js'
 import type {
@@ -52,12 +58,34 @@ import type {
   SyncStatus,
   SyncMetadata,
   SyncServiceConfig,
+  SyncChanges,
   BrowserExtensionCredentials,
   BrowserExtensionTarget,
+  SyncMassDeletionConfirmer,
+  SyncConflictResolution,
+  SyncConflictResolver,
 } from './types.js'
+import {
+  decryptSyncData,
+  encryptSyncData,
+  isEncryptedSyncData,
+} from './sync-encryption.js'
+import {
+  compressSyncData,
+  decompressSyncData,
+  isCompressedSyncData,
+} from './sync-compression.js'
 import { CustomApiSyncAdapter } from './custom-api-sync-adapter.js'
 import { BrowserExtensionSyncAdapter } from './browser-extension-sync-adapter.js'
 import { SyncManager } from './sync-manager.js'
+import { clearSyncBase, getSyncBase, saveSyncBase } from './sync-base-store.js'
+import { clearSyncAuditLog, getSyncAuditLog } from './sync-audit-log.js'
+import {
+  createShardedManifest,
+  createShards,
+  getShardKey,
+  parseShardedManifest,
+} from './sync-shards.js'
 
 const GET_AUTH_STATUS_MESSAGE_TYPE = 'GET_AUTH_STATUS'
 
@@ -127,6 +155,10 @@ Object.defineProperty(globalThis, 'localStorage', {
   value: localStorageMock,
 })
 
+// The sync base is only kept in IndexedDB. The bookmarks were already set up
+// with localStorage when the modules were imported.
+globalThis.indexedDB = new IDBFactory()
+
 // Add dispatchEvent mock to prevent errors
 Object.defineProperty(globalThis, 'dispatchEvent', {
   // eslint-disable-next-line @typescript-eslint/no-empty-function
@@ -278,12 +310,17 @@ describe('SyncManager', () => {
     // We can retrieve it via syncManager.getActiveAdapter() after setting activeSyncServiceId
   })
 
-  afterEach(() => {
+  afterEach(async () => {
     // Reset any mocks or settings after each test
     vi.useRealTimers()
     vi.restoreAllMocks() // Restore all mocks
     vi.clearAllMocks()
     syncManager.destroy()
+    await Promise.all(
+      get(syncConfigStore).syncServices.map(async (service) =>
+        clearSyncBase(service.id)
+      )
+    )
   })
 
   describe('Constructor and Initialization', () => {
@@ -593,841 +630,1303 @@ describe('SyncManager', () => {
       uploadSpy.mockRestore()
     })
 
-    it('should fail sync if service config is not found', async () => {
-      const errorSpy = vi.fn()
-      syncManager.on('error', errorSpy)
-      const statusChangeHandler = vi.fn()
-      syncManager.on('statusChange', statusChangeHandler)
+    it('should save the synced remote data as sync base and use it for the next merge', async () => {
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      const downloadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'download')
+        .mockResolvedValue({ data: undefined, remoteMeta: undefined })
+      const uploadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+        .mockResolvedValue({ version: 'remote-v1', timestamp: now })
 
-      const result = await syncManager.synchronize('non-existent-service-id')
+      // First sync uploads the local data
+      expect(await syncManager.synchronize(serviceConfigWithStrategy.id)).toBe(
+        true
+      )
 
-      expect(result).toBe(false)
-      expect(errorSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          message:
-            "Sync configuration for service ID 'non-existent-service-id' not found.",
-          serviceId: 'non-existent-service-id',
+      const serviceConfig = getSyncServiceById(
+        get(syncConfigStore),
+        serviceConfigWithStrategy.id
+      )!
+      expect(await getSyncBase(serviceConfig)).toEqual(initialLocalBookmarks)
+      // A base from another sync is ignored
+      expect(
+        await getSyncBase({
+          ...serviceConfig,
+          lastDataChangeTimestamp: now - 1,
         })
+      ).toBeUndefined()
+
+      // Second sync downloads the uploaded data and merges it using the base
+      const remoteMeta = { version: 'remote-v1', timestamp: now }
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(remoteMeta)
+      downloadSpy.mockResolvedValue({
+        data: uploadSpy.mock.calls[0][0],
+        remoteMeta,
+      })
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
+
+      expect(await syncManager.synchronize(serviceConfigWithStrategy.id)).toBe(
+        true
       )
-      expect(statusChangeHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          type: 'error',
-          error:
-            "Sync configuration for service ID 'non-existent-service-id' not found.",
-        })
+
+      expect(mergeBookmarksSpy).toHaveBeenCalledTimes(1)
+      expect(mergeBookmarksSpy.mock.calls[0][3].baseData).toEqual(
+        initialLocalBookmarks
       )
-      expect(syncManager.getStatus().type).toBe('error')
     })
 
-    it('should fail sync if service is not enabled', async () => {
-      const disabledConfig = {
-        ...mockSyncServiceConfig,
-        id: 'disabled-service',
-        enabled: false,
-      }
-      addSyncService(disabledConfig)
-
-      const infoSpy = vi.fn()
-      syncManager.on('info', infoSpy)
-      const statusChangeHandler = vi.fn()
-      syncManager.on('statusChange', statusChangeHandler)
-
-      const result = await syncManager.synchronize(disabledConfig.id)
+    it('should not keep a sync base in localStorage without IndexedDB', async () => {
+      vi.stubGlobal('indexedDB', undefined)
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'upload').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now,
+      })
 
-      expect(result).toBe(false)
-      expect(infoSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          message: `Sync service '${disabledConfig.name}' (ID: ${disabledConfig.id}) is not enabled.`,
-          serviceId: disabledConfig.id,
-        })
-      )
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'disabled' })
-      expect(syncManager.getStatus().type).toBe('disabled')
+      try {
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const serviceConfig = getSyncServiceById(
+          get(syncConfigStore),
+          serviceConfigWithStrategy.id
+        )!
+        expect(await getSyncBase(serviceConfig)).toBeUndefined()
+        expect(
+          localStorage.getItem(`${STORAGE_KEY_SYNC_BASE}-${serviceConfig.id}`)
+        ).toBeNull()
+      } finally {
+        vi.unstubAllGlobals()
+      }
     })
 
-    it('should handle sync with "local" merge strategy, local data should overwrite remote and succeed', async () => {
-      // Arrange: Local data has one version, remote has a potentially conflicting version
-      const localDataToWin: BookmarksData = {
-        'http://example.com/conflict': {
-          tags: ['local-tag', 'updated-local'],
+    describe('Conflict resolution', () => {
+      const url = 'http://example.com/conflict'
+      const lastSyncTimestamp = now - 100_000
+      const localData: BookmarksData = {
+        [url]: {
+          tags: ['tag1'],
           meta: {
-            created: 1_672_531_200_000,
-            updated: 1_672_531_201_000, // Updated later locally
-            title: 'Local Title - Wins',
+            created: lastSyncTimestamp - 1000,
+            updated: lastSyncTimestamp + 1000,
+            title: 'Local Title',
           },
         },
       }
-      const remoteDataToOverwrite: BookmarksData = {
-        'http://example.com/conflict': {
-          tags: ['remote-tag'],
-          meta: {
-            created: 1_672_531_200_000,
-            updated: 1_672_531_200_500, // Updated at a different time remotely
-            title: 'Remote Title - Overwritten',
-          },
-        },
-        'http://example.com/remote-only': {
-          tags: ['remote-only-tag'],
+      const remoteData: BookmarksData = {
+        [url]: {
+          tags: ['tag1'],
           meta: {
-            created: 1_672_531_300_000,
-            updated: 1_672_531_300_000,
-            title: 'Remote Only Title',
+            created: lastSyncTimestamp - 1000,
+            updated: lastSyncTimestamp + 2000,
+            title: 'Remote Title',
           },
         },
       }
+      let uploadSpy: Mock
 
-      await bookmarkStorage.overwriteBookmarks(localDataToWin)
-
-      const getRemoteMetadataSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
-        .mockResolvedValue({
-          version: 'remote-version-old',
-          timestamp: now - 10_000,
+      beforeEach(async () => {
+        await bookmarkStorage.overwriteBookmarks(localData)
+        serviceConfigWithStrategy.mergeStrategy = {
+          meta: 'merge',
+          tags: 'union',
+          defaultDate: DEFAULT_DATE,
+        }
+        serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+        syncConfigStore.set({
+          syncServices: [serviceConfigWithStrategy],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
         })
-      const downloadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'download')
-        .mockResolvedValue({
-          data: convertToDownloadData(remoteDataToOverwrite),
-          remoteMeta: {
-            version: 'remote-version-old',
-            timestamp: now - 10_000,
-          },
+        syncManager.destroy()
+        syncManager = new SyncManager()
+
+        const remoteMeta = { version: 'remote-v1', timestamp: now }
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: convertToDownloadData(remoteData),
+          remoteMeta,
         })
-      const uploadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
-        .mockResolvedValue({ version: 'new-remote-version', timestamp: now })
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
+      })
 
-      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
-      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
+      it('should auto-merge conflicts when no resolver is set', async () => {
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      const statusChangeHandler = vi.fn()
-      const syncConflictHandler = vi.fn()
-      const syncEndHandler = vi.fn()
-      const syncSuccessHandler = vi.fn()
+        const localBookmarks = await bookmarkStorage.getBookmarksData()
+        expect(localBookmarks[url].meta.title).toBe('Remote Title')
+      })
 
-      syncManager.on('statusChange', statusChangeHandler)
-      syncManager.on('syncConflict', syncConflictHandler)
-      syncManager.on('syncEnd', syncEndHandler)
-      syncManager.on('syncSuccess', syncSuccessHandler)
+      it('should apply the version chosen by the resolver to both sides', async () => {
+        const resolver = vi.fn(async (serviceId: string, conflicts) => [
+          { url, data: (conflicts as MergeConflict[])[0].local },
+        ])
+        syncManager.setConflictResolver(resolver)
+        const syncConflictHandler = vi.fn()
+        syncManager.on('syncConflict', syncConflictHandler)
 
-      // Act
-      const syncResult = await syncManager.sync(serviceConfigWithStrategy.id)
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Assert
-      expect(syncResult).toBe(true) // Sync should succeed with local wins
+        expect(resolver).toHaveBeenCalledWith(serviceConfigWithStrategy.id, [
+          expect.objectContaining({ url, fields: ['title'] }),
+        ])
+        expect(syncConflictHandler).toHaveBeenCalledTimes(1)
+        const localBookmarks = await bookmarkStorage.getBookmarksData()
+        expect(localBookmarks[url].meta.title).toBe('Local Title')
+        expect(localBookmarks[url].meta.updated).toBe(lastSyncTimestamp + 2000)
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(uploaded.data[url]).toEqual(localBookmarks[url])
+        expect(syncManager.getStatus().type).toBe('idle')
+      })
 
-      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
-      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
-      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+      it('should not start another sync of the service while the resolver is open', async () => {
+        let resolveConflicts: (resolutions: SyncConflictResolution[]) => void
+        const resolutions = new Promise<SyncConflictResolution[]>((resolve) => {
+          resolveConflicts = resolve
+        })
+        const resolver = vi.fn<SyncConflictResolver>(async () => resolutions)
+        syncManager.setConflictResolver(resolver)
+        const infoHandler = vi.fn()
+        syncManager.on('info', infoHandler)
+
+        const firstSync = syncManager.synchronize(serviceConfigWithStrategy.id)
+        await vi.waitFor(() => {
+          expect(resolver).toHaveBeenCalled()
+        })
+        expect(syncManager.getStatus().type).toBe('conflict')
 
-      // Check status updates for successful sync with local wins
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'merging',
-        progress: 100,
-      })
-      // With local wins, it proceeds to uploading the 'merged' (local) data
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'idle',
-        lastSyncTime: expect.any(Number),
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
+        expect(infoHandler).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining(
+              'Synchronization already in progress'
+            ) as string,
+          })
+        )
+
+        resolveConflicts!([{ url, data: resolver.mock.calls[0][1][0].local }])
+        expect(await firstSync).toBe(true)
+        expect(resolver).toHaveBeenCalledTimes(1)
+        expect(uploadSpy).toHaveBeenCalledTimes(1)
       })
-      expect(statusChangeHandler).not.toHaveBeenCalledWith(
-        expect.objectContaining({ type: 'conflict' })
-      )
 
-      // Check events
-      expect(syncConflictHandler).not.toHaveBeenCalled() // No conflict event with local wins
+      it('should cancel the sync without changes when the resolver returns undefined', async () => {
+        syncManager.setConflictResolver(async () => undefined)
+        const syncEndHandler = vi.fn()
+        syncManager.on('syncEnd', syncEndHandler)
 
-      const expectedMergedData: BookmarksData = {
-        ...localDataToWin, // Local data for conflicting item wins
-        'http://example.com/remote-only':
-          remoteDataToOverwrite['http://example.com/remote-only'], // New remote items are added
-      }
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
 
-      const expectedRemoteData = structuredClone(expectedMergedData)
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(await bookmarkStorage.getBookmarksData()).toEqual(localData)
+        expect(syncManager.getStatus().type).toBe('conflict')
+        expect(syncEndHandler).toHaveBeenCalledWith(
+          expect.objectContaining({ status: 'conflict' })
+        )
+      })
+    })
 
-      // Add updated3 for merged items
-      const exceptionsForLocal = [
-        // local
-        'http://example.com/conflict',
-      ]
-      setUpdated3ForBookmarks(
-        expectedMergedData,
-        currentSyncTime,
-        exceptionsForLocal
-      )
+    describe('Tombstone garbage collection', () => {
+      const dayInMs = 24 * 3600 * 1000
+      const lastSyncTimestamp = now - 100_000
+      const activeUrl = 'http://example.com/active'
+      const expiredUrl = 'http://example.com/expired'
+      const recentUrl = 'http://example.com/recent'
 
-      const exceptionsForRemote = [
-        // remote
-        'http://example.com/remote-only',
-      ]
-      setUpdated3ForBookmarks(
-        expectedRemoteData,
-        currentSyncTime,
-        exceptionsForRemote
-      )
+      const createTombstone = (deleted: number): BookmarkTagsAndMetadata => ({
+        tags: [DELETED_BOOKMARK_TAG],
+        meta: { created: deleted - 1000, updated: deleted, title: 'Deleted' },
+        deletedMeta: { deleted, actionType: 'DELETE' },
+      })
 
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          serviceId: serviceConfigWithStrategy.id,
-          // Changes should reflect what was uploaded/saved
-          // changes: {
-          //   // Depending on how `calculateChanges` is implemented, this might be more detailed
-          //   // For a 'local' strategy, it might show local items as 'changed' or 'added' if they overwrote remote
-          //   // and new remote items as 'added'.
-          //   // For simplicity here, we'll check the overall data that should have been uploaded/saved.
-          //   // This part might need refinement based on actual `calculateChanges` output.
-          //   added: 1, // remote-only item
-          //   updated: 1, // conflict item, local version kept/uploaded
-          //   removed: 0,
-          // },
-          // remoteMeta: {
-          //   version: 'new-remote-version',
-          //   timestamp: expect.any(Number),
-          // },
+      const data: BookmarksData = {
+        [activeUrl]: {
+          tags: ['tag1'],
+          meta: { created: threeHoursAgo, updated: threeHoursAgo },
+        },
+        [expiredUrl]: createTombstone(now - 40 * dayInMs),
+        [recentUrl]: createTombstone(now - 10 * dayInMs),
+      }
+      let uploadSpy: Mock
+
+      const mockRemote = (meta: BookmarksStore['meta']) => {
+        const remoteMeta = { version: 'remote-v1', timestamp: now }
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: JSON.stringify({ data, meta }),
+          remoteMeta,
         })
-      )
-      expect(syncEndHandler).toHaveBeenCalledWith({
-        serviceId: serviceConfigWithStrategy.id,
-        status: 'success',
-        error: undefined,
+      }
+
+      beforeEach(async () => {
+        await bookmarkStorage.overwriteBookmarks(data)
+        serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+        serviceConfigWithStrategy.lastSyncTimestamp = lastSyncTimestamp
+        syncConfigStore.set({
+          syncServices: [serviceConfigWithStrategy],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+          tombstoneRetentionDays: 30,
+        })
+        syncManager.destroy()
+        syncManager = new SyncManager()
+
+        mockRemote(defaultStoreMeta)
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
       })
 
-      // Check interactions - upload should be called with local data, store should be saved with local data
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(expectedRemoteData),
-        {
-          version: 'remote-version-old',
-          timestamp: expect.any(Number),
-        }
-      )
-      expect(saveStoreSpy).toHaveBeenCalledTimes(1)
-      expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          data: expectedMergedData,
-          meta: expect.objectContaining({ updated: expect.any(Number) }),
-        }),
-        true
-      )
+      it('should purge expired tombstones from remote and local data', async () => {
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Check final status
-      expect(syncManager.getStatus()).toEqual({
-        type: 'idle',
-        lastSyncTime: expect.any(Number),
-      })
-    })
+        expect(uploadSpy).toHaveBeenCalledTimes(1)
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(Object.keys(uploaded.data).sort()).toEqual([
+          activeUrl,
+          recentUrl,
+        ])
+        expect(uploaded.meta.tombstonesPurgedBefore).toBe(now - 30 * dayInMs)
+        expect(
+          Object.keys(await bookmarkStorage.getBookmarksData()).sort()
+        ).toEqual([activeUrl, recentUrl])
+      })
+
+      it('should keep local tombstones until every enabled service has synced past them', async () => {
+        syncConfigStore.update((settings) => ({
+          ...settings,
+          syncServices: [
+            ...settings.syncServices,
+            {
+              ...serviceConfigWithStrategy,
+              id: 'lagging-service',
+              lastSyncTimestamp: now - 50 * dayInMs,
+            },
+          ],
+        }))
 
-    it('should successfully sync when remote file does not exist (first sync)', async () => {
-      // Arrange: Local data is already set in beforeEach
-      const getRemoteMetadataSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
-        .mockResolvedValue(undefined) // Simulate no remote file metadata
-      const downloadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'download')
-        .mockResolvedValue({ data: undefined, remoteMeta: undefined }) // Simulate no remote file
-      const uploadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
-        .mockResolvedValue({ version: 'new-remote-v1', timestamp: now })
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      const statusChangeHandler = vi.fn()
-      syncManager.on('statusChange', statusChangeHandler)
-      const syncSuccessHandler = vi.fn()
-      syncManager.on('syncSuccess', syncSuccessHandler)
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(uploaded.data[expiredUrl]).toBeUndefined()
+        const localData = await bookmarkStorage.getBookmarksData()
+        expect(localData[expiredUrl]).toBeDefined()
+      })
+
+      it('should not purge tombstones if the retention period is not set', async () => {
+        syncConfigStore.update((settings) => ({
+          ...settings,
+          tombstoneRetentionDays: 0,
+        }))
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(await bookmarkStorage.getBookmarksData()).toEqual(data)
+      })
+
+      it('should not resurrect purged bookmarks on a lagging device', async () => {
+        const purgedUrl = 'http://example.com/purged'
+        // Deleted and purged on the remote after this device last synced,
+        // then edited on this device
+        await bookmarkStorage.overwriteBookmarks({
+          ...data,
+          [purgedUrl]: {
+            tags: ['tag2'],
+            meta: { created: threeHoursAgo, updated: now - 1000 },
+          },
+        })
+        mockRemote({
+          ...defaultStoreMeta,
+          tombstonesPurgedBefore: lastSyncTimestamp + 1000,
+        })
 
-      // Act
-      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Assert
-      expect(result).toBe(true)
-      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(2) // first call: _fetchRemoteData(), second call: _uploadData()
-      expect(downloadSpy).toHaveBeenCalledTimes(1)
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(initialLocalBookmarks, { created: now }),
-        undefined // No remote metadata expected for the first upload
-      )
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          serviceId: serviceConfigWithStrategy.id,
-        })
-      )
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'merging',
-      })
-      expect(statusChangeHandler).not.toHaveBeenCalledWith({
-        type: 'merging',
-        progress: 100,
+        const localData = await bookmarkStorage.getBookmarksData()
+        expect(localData[purgedUrl]).toBeUndefined()
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(uploaded.data[purgedUrl]).toBeUndefined()
       })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'success',
-        lastSyncTime: expect.any(Number),
+
+      it('should keep updated bookmarks on an up-to-date device without data changes since the purge', async () => {
+        const updatedUrl = 'http://example.com/updated'
+        // Synced after the purge, but the last data change is older
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp - 2000,
+              lastSyncTimestamp,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+          tombstoneRetentionDays: 30,
+        })
+        await bookmarkStorage.overwriteBookmarks({
+          ...data,
+          [updatedUrl]: {
+            tags: ['tag2'],
+            meta: { created: threeHoursAgo, updated: now - 1000 },
+          },
+        })
+        mockRemote({
+          ...defaultStoreMeta,
+          tombstonesPurgedBefore: lastSyncTimestamp - 1000,
+        })
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const localData = await bookmarkStorage.getBookmarksData()
+        expect(localData[updatedUrl]).toBeDefined()
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(uploaded.data[updatedUrl]).toBeDefined()
       })
-      expect(syncManager.getStatus().type).toBe('idle')
     })
 
-    it('should successfully sync when remote file is empty', async () => {
-      // Arrange: Local data is already set in beforeEach
-      const remoteMeta: SyncMetadata = {
-        version: 'empty-v0',
-        timestamp: now - 5000,
+    describe('End-to-end encryption', () => {
+      const lastSyncTimestamp = now - 100_000
+      const url = 'http://example.com/secret'
+      const data: BookmarksData = {
+        [url]: {
+          tags: ['tag1'],
+          meta: { created: threeHoursAgo, updated: threeHoursAgo },
+        },
       }
-      const getRemoteMetadataSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
-        .mockResolvedValue(remoteMeta) // Simulate remote file exists
-      const downloadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'download')
-        .mockResolvedValue({ data: '\n', remoteMeta }) // Simulate empty remote file
-      const uploadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
-        .mockResolvedValue({ version: 'local-data-v1', timestamp: now })
-
-      const statusChangeHandler = vi.fn()
-      syncManager.on('statusChange', statusChangeHandler)
-      const syncSuccessHandler = vi.fn()
-      syncManager.on('syncSuccess', syncSuccessHandler)
+      const remoteMeta = { version: 'remote-v1', timestamp: now }
+      let uploadSpy: Mock
 
-      // Act
-      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
+      const mockRemote = (remoteDataString: string) => {
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: remoteDataString,
+          remoteMeta,
+        })
+      }
 
-      // Assert
-      expect(result).toBe(true)
-      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(1) // first call: _fetchRemoteData()
-      expect(downloadSpy).toHaveBeenCalledTimes(1)
-      // Since remote is empty, local data (initialLocalBookmarks) should be uploaded.
-      // The expectedRemoteMeta for upload should be the one from download.
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(initialLocalBookmarks, { created: now }),
-        remoteMeta
-      )
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          serviceId: serviceConfigWithStrategy.id,
+      const setPassphrase = (encryptionPassphrase: string | undefined) => {
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp,
+              lastSyncTimestamp,
+              encryptionPassphrase,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
         })
-      )
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'merging',
-      })
-      expect(statusChangeHandler).not.toHaveBeenCalledWith({
-        type: 'merging',
-        progress: 100,
+      }
+
+      beforeEach(async () => {
+        await bookmarkStorage.overwriteBookmarks(data)
+        syncManager.destroy()
+        syncManager = new SyncManager()
+
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
       })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'success',
-        lastSyncTime: expect.any(Number),
+
+      it('should encrypt the uploaded data and decrypt it on the next sync', async () => {
+        setPassphrase('secret')
+        // Enabling encryption re-uploads the plain remote data
+        mockRemote(JSON.stringify({ data, meta: defaultStoreMeta }))
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        expect(uploadSpy).toHaveBeenCalledTimes(1)
+        const uploadedString = uploadSpy.mock.calls[0][0] as string
+        expect(isEncryptedSyncData(uploadedString)).toBe(true)
+        expect(uploadedString).not.toContain(url)
+        const uploaded = JSON.parse(
+          await decryptSyncData(uploadedString, 'secret')
+        ) as BookmarksStore
+        expect(Object.keys(uploaded.data)).toEqual([url])
+
+        // The encrypted remote data is unchanged, so nothing is uploaded
+        uploadSpy.mockClear()
+        mockRemote(uploadedString)
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+        expect(uploadSpy).not.toHaveBeenCalled()
+      })
+
+      it('should fail with a clear error if the passphrase is wrong', async () => {
+        setPassphrase('wrong')
+        mockRemote(
+          await encryptSyncData(
+            JSON.stringify({ data, meta: defaultStoreMeta }),
+            'secret',
+            1000
+          )
+        )
+        const errorSpy = vi.fn()
+        syncManager.on('error', errorSpy)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
+
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining(
+              'The encryption passphrase is wrong'
+            ) as string,
+          })
+        )
+        expect(syncManager.getStatus().type).toBe('error')
+        expect(await bookmarkStorage.getBookmarksData()).toEqual(data)
       })
-      expect(syncManager.getStatus().type).toBe('idle')
 
-      // Verify bookmarkStorage still contains the initial local bookmarks as merge strategy is 'local'
-      const finalLocalData = await bookmarkStorage.getBookmarksData()
-      expect(finalLocalData).toEqual(initialLocalBookmarks)
+      it('should fail with a clear error if the remote data is encrypted and no passphrase is set', async () => {
+        setPassphrase(undefined)
+        mockRemote(
+          await encryptSyncData(
+            JSON.stringify({ data, meta: defaultStoreMeta }),
+            'secret',
+            1000
+          )
+        )
+        const errorSpy = vi.fn()
+        syncManager.on('error', errorSpy)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
+
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining(
+              'The remote data is encrypted'
+            ) as string,
+          })
+        )
+        expect(syncManager.getStatus().type).toBe('error')
+      })
     })
 
-    it('should fail sync and emit error when remote file is not valid JSON', async () => {
-      // Arrange: Local data is already set in beforeEach
-      const remoteMeta: SyncMetadata = {
-        version: 'invalid-v0',
-        timestamp: now - 6000,
+    describe('Compression', () => {
+      const lastSyncTimestamp = now - 100_000
+      const url = 'http://example.com/compressed'
+      // Added after the last sync
+      const data: BookmarksData = {
+        [url]: {
+          tags: ['tag1'],
+          meta: { created: now - 1000, updated: now - 1000 },
+        },
       }
-      const getRemoteMetadataSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
-        .mockResolvedValue(remoteMeta) // Simulate remote file exists
-      const downloadSpy = vi
-        .spyOn(CustomApiSyncAdapter.prototype, 'download')
-        .mockResolvedValue({ data: 'This is not JSON', remoteMeta }) // Simulate non-JSON remote content
-      const uploadSpy = vi.spyOn(CustomApiSyncAdapter.prototype, 'upload')
+      const remoteMeta = { version: 'remote-v1', timestamp: now }
+      let uploadSpy: Mock
 
-      const errorHandler = vi.fn()
-      syncManager.on('error', errorHandler)
-      const statusChangeHandler = vi.fn()
-      syncManager.on('statusChange', statusChangeHandler)
-      const syncEndHandler = vi.fn()
-      syncManager.on('syncEnd', syncEndHandler)
+      const mockRemote = (remoteDataString: string) => {
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: remoteDataString,
+          remoteMeta,
+        })
+      }
 
-      // Act
-      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
+      const setServiceConfig = (config: Partial<SyncServiceConfig>) => {
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp,
+              lastSyncTimestamp,
+              ...config,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+        })
+      }
 
-      // Assert
-      expect(result).toBe(false)
-      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(1) // first call: _fetchRemoteData()
-      expect(downloadSpy).toHaveBeenCalledTimes(1)
-      expect(uploadSpy).not.toHaveBeenCalled() // Upload should not occur
+      beforeEach(async () => {
+        syncManager.destroy()
+        syncManager = new SyncManager()
 
-      expect(errorHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          message: expect.stringContaining(
-            `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
-          ),
-          serviceId: serviceConfigWithStrategy.id,
-        })
-      )
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'error',
-        error: expect.stringContaining(
-          `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
-        ),
-        lastAttemptTime: expect.any(Number),
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
       })
-      expect(syncEndHandler).toHaveBeenCalledWith({
-        serviceId: serviceConfigWithStrategy.id,
-        status: 'error',
-        error: expect.stringContaining(
-          `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
-        ),
+
+      it('should compress the uploaded data', async () => {
+        setServiceConfig({ compression: 'gzip' })
+        await bookmarkStorage.overwriteBookmarks(data)
+        mockRemote(JSON.stringify({ data: {}, meta: defaultStoreMeta }))
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const uploadedString = uploadSpy.mock.calls[0][0] as string
+        expect(isCompressedSyncData(uploadedString)).toBe(true)
+        const uploaded = JSON.parse(
+          await decompressSyncData(uploadedString)
+        ) as BookmarksStore
+        expect(Object.keys(uploaded.data)).toEqual([url])
+      })
+
+      it('should compress before encrypting', async () => {
+        setServiceConfig({
+          compression: 'deflate',
+          encryptionPassphrase: 'secret',
+        })
+        await bookmarkStorage.overwriteBookmarks(data)
+        mockRemote(JSON.stringify({ data: {}, meta: defaultStoreMeta }))
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const uploadedString = uploadSpy.mock.calls[0][0] as string
+        expect(isEncryptedSyncData(uploadedString)).toBe(true)
+        const decrypted = await decryptSyncData(uploadedString, 'secret')
+        expect(isCompressedSyncData(decrypted)).toBe(true)
+      })
+
+      it('should read compressed remote data when compression is disabled', async () => {
+        setServiceConfig({ compression: undefined })
+        await bookmarkStorage.overwriteBookmarks(data)
+        mockRemote(
+          await compressSyncData(
+            JSON.stringify({ data, meta: defaultStoreMeta }),
+            'gzip'
+          )
+        )
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        // The remote data is unchanged, so it is not uploaded again
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(await bookmarkStorage.getBookmarksData()).toEqual(data)
       })
-      expect(syncManager.getStatus().type).toBe('error')
     })
 
-    it('should successfully download and merge newer remote data when no local conflicts (remote wins strategy)', async () => {
-      // Arrange: Setup local data
-      const initialLocalData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['local-tag1'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 40_000,
-            title: 'Local Item 1 Old',
-          },
-        },
-        'http://example.com/item2': {
-          tags: ['shared'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 45_000,
-            title: 'Shared Item Local',
-          },
+    describe('Schema version', () => {
+      const lastSyncTimestamp = now - 100_000
+      const url = 'http://example.com/schema-version'
+      // Added after the last sync
+      const data: BookmarksData = {
+        [url]: {
+          tags: ['tag1'],
+          meta: { created: now - 1000, updated: now - 1000 },
         },
       }
-      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+      const remoteMeta = { version: 'remote-v1', timestamp: now }
+      let uploadSpy: Mock
 
-      // Setup remote data that is newer or has new items
-      const newerRemoteData: BookmarksData = {
-        'http://example.com/item1': {
-          // Updated version of item1
-          tags: ['remote-tag1', 'updated'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 30_000,
-            title: 'Remote Item 1 New',
-          },
-        },
-        'http://example.com/item2': {
-          // No change, but present to test merging
-          tags: ['shared'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 45_000,
-            title: 'Shared Item Local',
-          },
-        },
-        'http://example.com/item3': {
-          // New item from remote
-          tags: ['remote-new'],
-          meta: {
-            created: now - 20_000,
-            updated: now - 20_000,
-            title: 'Remote New Item 3',
-          },
-        },
-      }
-      const remoteMeta: SyncMetadata = {
-        version: 'remote-v2',
-        timestamp: now - 1000,
+      const mockRemote = (databaseVersion: number) => {
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: JSON.stringify({
+            data: {},
+            meta: { ...defaultStoreMeta, databaseVersion },
+          }),
+          remoteMeta,
+        })
       }
 
-      // Configure merge strategy for remote to win for meta, and union for tags
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'remote', // Remote metadata wins
-        tags: 'union', // Tags are combined
-        defaultDate: DEFAULT_DATE,
-      }
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-      // Re-initialize syncManager if settings change requires it, or ensure it picks up the change.
-      // Our current setup re-creates syncManager in beforeEach, but if a test changes syncConfigStore,
-      // it might need a new SyncManager instance or a way for SyncManager to react to mid-test settings changes.
-      // For this test, we assume the beforeEach setup is sufficient or SyncManager reacts to syncConfigStore updates.
-      syncManager.destroy()
-      syncManager = new SyncManager() // Ensure it picks up the new merge strategy
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
-        remoteMeta
-      )
-      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(newerRemoteData),
-        remoteMeta,
-      })
-      // const uploadSpy = vi.spyOn(currentAdapter, 'upload') // Should be called with merged data
-      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-version',
-        timestamp: now,
+      beforeEach(async () => {
+        syncManager.destroy()
+        syncManager = new SyncManager()
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp,
+              lastSyncTimestamp,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+        })
+        await bookmarkStorage.overwriteBookmarks(data)
+
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
       })
-      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
-      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
-      const statusChangeHandler = vi.fn()
-      const syncSuccessHandler = vi.fn()
-      const syncEndHandler = vi.fn()
+      it('should migrate older remote data and record the writer version', async () => {
+        mockRemote(CURRENT_DATABASE_VERSION - 1)
 
-      syncManager.on('statusChange', statusChangeHandler)
-      syncManager.on('syncSuccess', syncSuccessHandler)
-      syncManager.on('syncEnd', syncEndHandler)
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Act
-      const result = await syncManager.sync()
+        const uploaded = JSON.parse(
+          uploadSpy.mock.calls[0][0] as string
+        ) as BookmarksStore
+        expect(uploaded.meta.databaseVersion).toBe(CURRENT_DATABASE_VERSION)
+        expect(Object.keys(uploaded.data)).toEqual([url])
+      })
 
-      // Assert
-      expect(result).toBe(true)
+      it('should refuse to overwrite remote data written by a newer version', async () => {
+        mockRemote(CURRENT_DATABASE_VERSION + 1)
+        const errorSpy = vi.fn()
+        syncManager.on('error', errorSpy)
 
-      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
-      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
-      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
 
-      // Check status updates
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'idle',
-        lastSyncTime: expect.any(Number),
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining('Please update the app') as string,
+          })
+        )
+        expect(syncManager.getStatus().type).toBe('error')
+        expect(await bookmarkStorage.getBookmarksData()).toEqual(data)
       })
+    })
 
-      // Expected merged data
-      const expectedMergedData: BookmarksData = {
-        'http://example.com/item1': newerRemoteData['http://example.com/item1'], // Remote version wins for meta
-        'http://example.com/item2': {
-          ...initialLocalData['http://example.com/item2'], // Meta could be local/remote/merged based on strategy
-          tags: ['shared'], // Assuming 'union' keeps it as is if identical, or combines if different
+    describe('Sharded layout', () => {
+      const lastSyncTimestamp = now - 100_000
+      const shardCount = 4
+      // Each URL belongs to a different shard
+      const urlA = 'http://example.com/a'
+      const urlB = 'http://example.com/b'
+      const urlC = 'http://example.com/c'
+      const syncedData: BookmarksData = {
+        [urlA]: {
+          tags: ['tag1'],
+          meta: { created: now - 300_000, updated: now - 300_000 },
+        },
+        [urlB]: {
+          tags: ['tag2'],
+          meta: { created: now - 300_000, updated: now - 300_000 },
         },
-        'http://example.com/item3': newerRemoteData['http://example.com/item3'], // New remote item added
       }
-      // Adjust item2 tags based on 'union' if they were different. Here they are the same.
-      if (serviceConfigWithStrategy.mergeStrategy?.tags === 'union') {
-        expectedMergedData['http://example.com/item1'].tags = [
-          'local-tag1',
-          'remote-tag1',
-          'updated',
-        ] // Union of tags
+      const remoteMeta = { version: 'remote-v1', timestamp: now }
+      let remoteShards: Map<string, string>
+      let uploadSpy: Mock
+      let downloadShardSpy: Mock
+      let uploadShardSpy: Mock
+      let deleteShardSpy: Mock
+
+      const mockRemote = async (data: BookmarksData) => {
+        const shards = await createShards(data, shardCount)
+        remoteShards = new Map(
+          shards
+            .filter((shard) => shard.count > 0)
+            .map((shard) => [getShardKey(shard.id, shard), shard.content])
+        )
+        const manifest = createShardedManifest(shards, defaultStoreMeta, false)
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: JSON.stringify(manifest),
+          remoteMeta,
+        })
+        return manifest
       }
 
-      const expectedRemoteData = structuredClone(expectedMergedData)
-
-      // Add updated3 for merged items
-      const exceptionsForLocal = [
-        // local
-        'http://example.com/item2',
-      ]
-      setUpdated3ForBookmarks(
-        expectedMergedData,
-        currentSyncTime,
-        exceptionsForLocal
-      )
-
-      const exceptionsForRemote = [
-        // remote
-        'http://example.com/item2',
-        'http://example.com/item3',
-      ]
-      setUpdated3ForBookmarks(
-        expectedRemoteData,
-        currentSyncTime,
-        exceptionsForRemote
-      )
+      const setServiceConfig = (config: Partial<SyncServiceConfig>) => {
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp,
+              lastSyncTimestamp,
+              shardCount,
+              ...config,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+        })
+      }
 
-      // Check that upload was called with the correctly merged data
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(expectedRemoteData),
-        remoteMeta // Previous remoteMeta is passed to upload
-      )
+      beforeEach(async () => {
+        syncManager.destroy()
+        syncManager = new SyncManager()
+        remoteShards = new Map()
+
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v2', timestamp: now }) as Mock
+        downloadShardSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'downloadShard')
+          .mockImplementation(async (shardKey) =>
+            remoteShards.get(shardKey)
+          ) as Mock
+        uploadShardSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'uploadShard')
+          .mockImplementation(async (shardKey, data) => {
+            remoteShards.set(shardKey, data)
+          }) as Mock
+        deleteShardSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'deleteShard')
+          .mockResolvedValue() as Mock
+      })
+
+      it('should upload the shards before the manifest', async () => {
+        // First sync
+        setServiceConfig({
+          lastDataChangeTimestamp: undefined,
+          lastSyncTimestamp: undefined,
+        })
+        await bookmarkStorage.overwriteBookmarks(syncedData)
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue(remoteMeta)
+        vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+          data: JSON.stringify({ data: {}, meta: defaultStoreMeta }),
+          remoteMeta,
+        })
 
-      // Check that bookmarkStorage was updated with the merged data
-      expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({ data: expectedMergedData }),
-        true
-      )
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const manifest = parseShardedManifest(
+          uploadSpy.mock.calls[0][0] as string
+        )!
+        expect(manifest.shardCount).toBe(shardCount)
+        expect(Object.keys(manifest.shards)).toHaveLength(shardCount)
+        // Empty shards are not uploaded
+        const shardKeys = Object.entries(manifest.shards)
+          .filter(([, shard]) => shard.count > 0)
+          .map(([id, shard]) => getShardKey(id, shard))
+        expect(shardKeys).toHaveLength(2)
+        expect([...remoteShards.keys()].sort()).toEqual(shardKeys.sort())
+        expect(uploadShardSpy.mock.invocationCallOrder[1]).toBeLessThan(
+          uploadSpy.mock.invocationCallOrder[0]
+        )
+      })
 
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
-        expect.objectContaining({
-          serviceId: serviceConfigWithStrategy.id,
-          // changes: { added: 1, updated: 1, removed: 0 }, // This needs careful calculation
+      it('should encrypt the shards', async () => {
+        setServiceConfig({
+          lastDataChangeTimestamp: undefined,
+          lastSyncTimestamp: undefined,
+          encryptionPassphrase: 'secret',
         })
-      )
-      expect(syncEndHandler).toHaveBeenCalledWith(
-        expect.objectContaining({ status: 'success' })
-      )
+        await bookmarkStorage.overwriteBookmarks(syncedData)
+        await mockRemote({})
 
-      // Verify final state of bookmarkStorage
-      const finalLocalData = await bookmarkStorage.getBookmarksData()
-      expect(finalLocalData).toEqual(expectedMergedData)
-    })
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-    it('should successfully merge newer remote data with local data using merge strategy', async () => {
-      // Arrange: Setup local data with older timestamps
-      const initialLocalData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['local-tag1', 'shared-tag'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 40_000,
-            title: 'Local Item 1',
-            description: 'Local description', // Local-only field
-          },
-        },
-      }
-      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+        expect(uploadShardSpy).toHaveBeenCalledTimes(2)
+        for (const data of remoteShards.values()) {
+          expect(isEncryptedSyncData(data)).toBe(true)
+        }
 
-      // Setup remote data with newer timestamps and additional fields
-      const newerRemoteData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['remote-tag1', 'shared-tag'],
-          meta: {
-            created: now - 50_000, // Same creation time
-            updated: now - 30_000, // Newer update time
-            title: 'Remote Item 1',
-            url: 'http://example.com/item1-updated', // Remote-only field
+        const manifestString = uploadSpy.mock.calls[0][0] as string
+        expect(isEncryptedSyncData(manifestString)).toBe(true)
+        expect(
+          parseShardedManifest(await decryptSyncData(manifestString, 'secret'))
+            ?.encrypted
+        ).toBe(true)
+      })
+
+      it('should only download the shards that changed since the last sync', async () => {
+        setServiceConfig({})
+        await bookmarkStorage.overwriteBookmarks(syncedData)
+        await saveSyncBase(
+          serviceConfigWithStrategy.id,
+          syncedData,
+          lastSyncTimestamp
+        )
+        // Added on another device
+        const remoteData: BookmarksData = {
+          ...syncedData,
+          [urlC]: {
+            tags: ['tag3'],
+            meta: { created: now - 1000, updated: now - 1000 },
+          },
+        }
+        const manifest = await mockRemote(remoteData)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const shardC = Object.entries(manifest.shards)[2]
+        expect(downloadShardSpy).toHaveBeenCalledTimes(1)
+        expect(downloadShardSpy).toHaveBeenCalledWith(getShardKey(...shardC))
+        const localData = await bookmarkStorage.getBookmarksData()
+        expect(Object.keys(localData).sort()).toEqual([urlA, urlB, urlC])
+        expect(localData[urlC].tags).toEqual(['tag3'])
+        expect(uploadSpy).not.toHaveBeenCalled()
+      })
+
+      it('should only upload the shards that changed and delete the replaced ones', async () => {
+        setServiceConfig({})
+        const localData: BookmarksData = {
+          ...syncedData,
+          [urlB]: {
+            tags: ['tag2', 'tag4'],
+            meta: { created: now - 300_000, updated: now - 1000 },
           },
+        }
+        await bookmarkStorage.overwriteBookmarks(localData)
+        await saveSyncBase(
+          serviceConfigWithStrategy.id,
+          syncedData,
+          lastSyncTimestamp
+        )
+        const remoteManifest = await mockRemote(syncedData)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        const manifest = parseShardedManifest(
+          uploadSpy.mock.calls[0][0] as string
+        )!
+        const [idA, idB] = Object.keys(manifest.shards)
+        expect(manifest.shards[idA]).toEqual(remoteManifest.shards[idA])
+        expect(uploadShardSpy).toHaveBeenCalledTimes(1)
+        expect(uploadShardSpy).toHaveBeenCalledWith(
+          getShardKey(idB, manifest.shards[idB]),
+          expect.any(String)
+        )
+        expect(deleteShardSpy).toHaveBeenCalledTimes(1)
+        expect(deleteShardSpy).toHaveBeenCalledWith(
+          getShardKey(idB, remoteManifest.shards[idB])
+        )
+      })
+
+      it('should fail if a shard does not match the manifest', async () => {
+        setServiceConfig({})
+        await bookmarkStorage.overwriteBookmarks(syncedData)
+        const manifest = await mockRemote(syncedData)
+        const [idA, idB] = Object.keys(manifest.shards)
+        remoteShards.set(
+          getShardKey(idA, manifest.shards[idA]),
+          remoteShards.get(getShardKey(idB, manifest.shards[idB]))!
+        )
+        const errorSpy = vi.fn()
+        syncManager.on('error', errorSpy)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
+
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining(
+              'does not match the manifest'
+            ) as string,
+          })
+        )
+        expect(uploadSpy).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('Delta sync', () => {
+      const lastSyncTimestamp = now - 100_000
+      const urlA = 'http://example.com/a'
+      const urlB = 'http://example.com/b'
+      const syncedData: BookmarksData = {
+        [urlA]: {
+          tags: ['tag1'],
+          meta: { created: now - 300_000, updated: now - 300_000 },
         },
       }
-      const remoteMeta: SyncMetadata = {
-        version: 'remote-v2',
-        timestamp: now - 1000,
+      // Added on another device
+      const remoteBookmarkB = {
+        tags: ['tag2'],
+        meta: { created: now - 2000, updated: now - 2000 },
       }
+      let downloadSpy: Mock
+      let uploadSpy: Mock
+      let downloadChangesSpy: Mock
+      let uploadChangesSpy: Mock
 
-      // Configure merge strategy to merge meta and union tags
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'merge', // Merge metadata fields
-        tags: 'union', // Combine tags from both sources
-        defaultDate: DEFAULT_DATE,
+      const setServiceConfig = (config: Partial<SyncServiceConfig>) => {
+        syncConfigStore.set({
+          syncServices: [
+            {
+              ...serviceConfigWithStrategy,
+              lastDataChangeTimestamp: lastSyncTimestamp,
+              lastSyncTimestamp,
+              lastSyncMeta: { version: 'remote-v1', cursor: 'cursor-1' },
+              ...config,
+            },
+          ],
+          activeSyncServiceId: serviceConfigWithStrategy.id,
+        })
       }
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
 
-      // Re-initialize syncManager with new settings
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
+      beforeEach(async () => {
+        syncManager.destroy()
+        syncManager = new SyncManager()
+        await saveSyncBase(
+          serviceConfigWithStrategy.id,
+          syncedData,
+          lastSyncTimestamp
+        )
 
-      // Mock adapter methods
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
-        remoteMeta
-      )
-      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(newerRemoteData),
-        remoteMeta,
+        vi.spyOn(
+          CustomApiSyncAdapter.prototype,
+          'getRemoteMetadata'
+        ).mockResolvedValue({ version: 'remote-v2', timestamp: now })
+        downloadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'download')
+          .mockResolvedValue({
+            data: JSON.stringify({
+              data: { ...syncedData, [urlB]: remoteBookmarkB },
+              meta: defaultStoreMeta,
+            }),
+            remoteMeta: { version: 'remote-v2', timestamp: now },
+          }) as Mock
+        uploadSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+          .mockResolvedValue({ version: 'remote-v3', timestamp: now }) as Mock
+        downloadChangesSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'downloadChanges')
+          .mockResolvedValue({
+            changes: {
+              changed: { [urlB]: remoteBookmarkB },
+              deleted: [],
+              meta: defaultStoreMeta,
+            },
+            remoteMeta: { version: 'remote-v2', cursor: 'cursor-2' },
+          }) as Mock
+        uploadChangesSpy = vi
+          .spyOn(CustomApiSyncAdapter.prototype, 'uploadChanges')
+          .mockResolvedValue({
+            version: 'remote-v3',
+            cursor: 'cursor-3',
+          }) as Mock
+      })
+
+      it('should download and upload only the changes since the last sync', async () => {
+        setServiceConfig({})
+        const urlC = 'http://example.com/c'
+        await bookmarkStorage.overwriteBookmarks({
+          ...syncedData,
+          [urlC]: {
+            tags: ['tag3'],
+            meta: { created: now - 1000, updated: now - 1000 },
+          },
+        })
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        expect(downloadChangesSpy).toHaveBeenCalledWith('cursor-1')
+        expect(downloadSpy).not.toHaveBeenCalled()
+        expect(uploadSpy).not.toHaveBeenCalled()
+        expect(uploadChangesSpy).toHaveBeenCalledTimes(1)
+        const [changes, since] = uploadChangesSpy.mock.calls[0] as [
+          SyncChanges,
+          string,
+        ]
+        expect(since).toBe('cursor-2')
+        expect(Object.keys(changes.changed)).toEqual([urlC])
+        expect(changes.deleted).toEqual([])
+
+        expect(
+          Object.keys(await bookmarkStorage.getBookmarksData()).sort()
+        ).toEqual([urlA, urlB, urlC])
+        const updatedConfig = getSyncServiceById(
+          get(syncConfigStore),
+          serviceConfigWithStrategy.id
+        )
+        expect(updatedConfig?.lastSyncMeta?.cursor).toBe('cursor-3')
       })
-      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-version',
-        timestamp: now,
+
+      it('should fall back to the whole file if the cursor is not known', async () => {
+        setServiceConfig({})
+        downloadChangesSpy.mockResolvedValue(undefined)
+        await bookmarkStorage.overwriteBookmarks(syncedData)
+
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
+
+        expect(downloadChangesSpy).toHaveBeenCalledTimes(1)
+        expect(downloadSpy).toHaveBeenCalledTimes(1)
+        expect(uploadChangesSpy).not.toHaveBeenCalled()
+        expect(
+          Object.keys(await bookmarkStorage.getBookmarksData()).sort()
+        ).toEqual([urlA, urlB])
       })
-      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
-      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
-      // Setup event handlers
-      const statusChangeHandler = vi.fn()
-      const syncSuccessHandler = vi.fn()
-      const syncEndHandler = vi.fn()
+      it('should fall back to the whole file if the changes have no cursor', async () => {
+        setServiceConfig({})
+        downloadChangesSpy.mockResolvedValue({
+          changes: {
+            changed: { [urlB]: remoteBookmarkB },
+            deleted: [],
+            meta: defaultStoreMeta,
+          },
+          remoteMeta: { version: 'remote-v2' },
+        })
+        await bookmarkStorage.overwriteBookmarks(syncedData)
 
-      syncManager.on('statusChange', statusChangeHandler)
-      syncManager.on('syncSuccess', syncSuccessHandler)
-      syncManager.on('syncEnd', syncEndHandler)
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Act
-      const result = await syncManager.sync()
+        expect(downloadSpy).toHaveBeenCalledTimes(1)
+        expect(uploadChangesSpy).not.toHaveBeenCalled()
+        expect(
+          Object.keys(await bookmarkStorage.getBookmarksData()).sort()
+        ).toEqual([urlA, urlB])
+      })
 
-      // Assert
-      expect(result).toBe(true)
+      it('should not use delta sync with encryption', async () => {
+        setServiceConfig({ encryptionPassphrase: 'secret' })
+        await bookmarkStorage.overwriteBookmarks(syncedData)
 
-      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
-      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
-      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(true)
 
-      // Check status updates
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'idle',
-        lastSyncTime: expect.any(Number),
+        expect(downloadChangesSpy).not.toHaveBeenCalled()
+        expect(downloadSpy).toHaveBeenCalledTimes(1)
       })
 
-      // Expected merged data
-      const expectedMergedData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['local-tag1', 'shared-tag', 'remote-tag1'], // Union of all tags
-          meta: {
-            created: now - 50_000, // Original creation time
-            updated: now - 30_000, // Newer update time from remote
-            title: 'Remote Item 1', // Remote title (newer)
-            description: 'Local description', // Preserved local field
-            url: 'http://example.com/item1-updated', // Added remote field
-            updated3: currentSyncTime, // Updated3 should be currentSyncTime
+      it('should report a conflict if the remote changed since the cursor', async () => {
+        setServiceConfig({})
+        const conflictError = new Error('Conflict (409)')
+        conflictError.name = 'UploadConflictError'
+        uploadChangesSpy.mockRejectedValue(conflictError)
+        await bookmarkStorage.overwriteBookmarks({
+          ...syncedData,
+          [urlA]: {
+            tags: ['tag1', 'tag4'],
+            meta: { created: now - 300_000, updated: now - 1000 },
           },
-        },
-      }
+        })
+        const conflictSpy = vi.fn()
+        syncManager.on('syncConflict', conflictSpy)
 
-      // Check that upload was called with the correctly merged data
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(expectedMergedData),
-        remoteMeta
-      )
+        expect(
+          await syncManager.synchronize(serviceConfigWithStrategy.id)
+        ).toBe(false)
 
-      // Check that bookmarkStorage was updated with the merged data
-      expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({ data: expectedMergedData }),
-        true
-      )
+        expect(conflictSpy).toHaveBeenCalledTimes(1)
+        expect(syncManager.getStatus().type).toBe('conflict')
+      })
+    })
 
-      // Check success events
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
+    it('should fail sync if service config is not found', async () => {
+      const errorSpy = vi.fn()
+      syncManager.on('error', errorSpy)
+      const statusChangeHandler = vi.fn()
+      syncManager.on('statusChange', statusChangeHandler)
+
+      const result = await syncManager.synchronize('non-existent-service-id')
+
+      expect(result).toBe(false)
+      expect(errorSpy).toHaveBeenCalledWith(
         expect.objectContaining({
-          serviceId: serviceConfigWithStrategy.id,
+          message:
+            "Sync configuration for service ID 'non-existent-service-id' not found.",
+          serviceId: 'non-existent-service-id',
         })
       )
-      expect(syncEndHandler).toHaveBeenCalledWith(
-        expect.objectContaining({ status: 'success' })
+      expect(statusChangeHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'error',
+          error:
+            "Sync configuration for service ID 'non-existent-service-id' not found.",
+        })
       )
+      expect(syncManager.getStatus().type).toBe('error')
+    })
 
-      // Verify final state of bookmarkStorage
-      const finalLocalData = await bookmarkStorage.getBookmarksData()
-      expect(finalLocalData).toEqual(expectedMergedData)
+    it('should fail sync if service is not enabled', async () => {
+      const disabledConfig = {
+        ...mockSyncServiceConfig,
+        id: 'disabled-service',
+        enabled: false,
+      }
+      addSyncService(disabledConfig)
+
+      const infoSpy = vi.fn()
+      syncManager.on('info', infoSpy)
+      const statusChangeHandler = vi.fn()
+      syncManager.on('statusChange', statusChangeHandler)
+
+      const result = await syncManager.synchronize(disabledConfig.id)
+
+      expect(result).toBe(false)
+      expect(infoSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: `Sync service '${disabledConfig.name}' (ID: ${disabledConfig.id}) is not enabled.`,
+          serviceId: disabledConfig.id,
+        })
+      )
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'disabled' })
+      expect(syncManager.getStatus().type).toBe('disabled')
     })
 
-    it('should handle sync with local data having newer update time than remote', async () => {
-      // Arrange: Setup local data with newer update time
-      const localData: BookmarksData = {
-        'http://example.com/shared-item': {
-          tags: ['local-tag', 'shared-tag'],
-          meta: {
-            created: now - 50_000,
-            updated: now - 1000, // Newer update time
-            title: 'Local Title',
-            description: 'Local description',
-          },
-        },
-        'http://example.com/local-only': {
-          tags: ['local-only'],
+    it('should handle sync with "local" merge strategy, local data should overwrite remote and succeed', async () => {
+      // Arrange: Local data has one version, remote has a potentially conflicting version
+      const localDataToWin: BookmarksData = {
+        'http://example.com/conflict': {
+          tags: ['local-tag', 'updated-local'],
           meta: {
-            created: now - 40_000,
-            updated: now - 2000,
-            title: 'Local Only Item',
+            created: 1_672_531_200_000,
+            updated: 1_672_531_201_000, // Updated later locally
+            title: 'Local Title - Wins',
           },
         },
       }
-      await bookmarkStorage.overwriteBookmarks(localData)
-
-      // Setup remote data with older update time
-      const remoteData: BookmarksData = {
-        'http://example.com/shared-item': {
-          tags: ['remote-tag', 'shared-tag'],
+      const remoteDataToOverwrite: BookmarksData = {
+        'http://example.com/conflict': {
+          tags: ['remote-tag'],
           meta: {
-            created: now - 50_000,
-            updated: now - 5000, // Older update time
-            title: 'Remote Title',
-            url: 'http://example.com/shared-item-updated',
+            created: 1_672_531_200_000,
+            updated: 1_672_531_200_500, // Updated at a different time remotely
+            title: 'Remote Title - Overwritten',
           },
         },
         'http://example.com/remote-only': {
-          tags: ['remote-only'],
+          tags: ['remote-only-tag'],
           meta: {
-            created: now - 30_000,
-            updated: now - 3000,
-            title: 'Remote Only Item',
+            created: 1_672_531_300_000,
+            updated: 1_672_531_300_000,
+            title: 'Remote Only Title',
           },
         },
       }
 
-      // Configure merge strategy to prefer local data
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'local', // Prefer local metadata
-        tags: 'local', // Prefer local tags
-        defaultDate: DEFAULT_DATE,
-      }
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
+      await bookmarkStorage.overwriteBookmarks(localDataToWin)
 
-      // Reinitialize syncManager to apply new merge strategy
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
+      const getRemoteMetadataSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
+        .mockResolvedValue({
+          version: 'remote-version-old',
+          timestamp: now - 10_000,
+        })
+      const downloadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'download')
+        .mockResolvedValue({
+          data: convertToDownloadData(remoteDataToOverwrite),
+          remoteMeta: {
+            version: 'remote-version-old',
+            timestamp: now - 10_000,
+          },
+        })
+      const uploadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+        .mockResolvedValue({ version: 'new-remote-version', timestamp: now })
 
-      // Mock adapter methods
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue({
-        version: 'remote-v1',
-        timestamp: now - 5000,
-      })
-      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(remoteData),
-        remoteMeta: {
-          version: 'remote-v1',
-          timestamp: now - 5000,
-        },
-      })
-      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-version',
-        timestamp: now,
-      })
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
       const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
-      // Setup event handlers
       const statusChangeHandler = vi.fn()
-      const syncSuccessHandler = vi.fn()
+      const syncConflictHandler = vi.fn()
       const syncEndHandler = vi.fn()
+      const syncSuccessHandler = vi.fn()
 
       syncManager.on('statusChange', statusChangeHandler)
-      syncManager.on('syncSuccess', syncSuccessHandler)
+      syncManager.on('syncConflict', syncConflictHandler)
       syncManager.on('syncEnd', syncEndHandler)
+      syncManager.on('syncSuccess', syncSuccessHandler)
 
       // Act
-      const result = await syncManager.sync()
+      const syncResult = await syncManager.sync(serviceConfigWithStrategy.id)
 
       // Assert
-      expect(result).toBe(true)
+      expect(syncResult).toBe(true) // Sync should succeed with local wins
 
       const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
       expect(currentSyncTime).toBeGreaterThanOrEqual(now)
       expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
 
-      // Check status updates
+      // Check status updates for successful sync with local wins
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'merging',
+        progress: 100,
+      })
+      // With local wins, it proceeds to uploading the 'merged' (local) data
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
       expect(statusChangeHandler).toHaveBeenCalledWith({
         type: 'idle',
         lastSyncTime: expect.any(Number),
       })
+      expect(statusChangeHandler).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'conflict' })
+      )
+
+      // Check events
+      expect(syncConflictHandler).not.toHaveBeenCalled() // No conflict event with local wins
 
-      // Expected merged data
       const expectedMergedData: BookmarksData = {
-        'http://example.com/shared-item':
-          localData['http://example.com/shared-item'], // Prefer local data
+        ...localDataToWin, // Local data for conflicting item wins
         'http://example.com/remote-only':
-          remoteData['http://example.com/remote-only'], // Add remote-only items
-        'http://example.com/local-only':
-          localData['http://example.com/local-only'], // Keep local-only items
+          remoteDataToOverwrite['http://example.com/remote-only'], // New remote items are added
       }
 
       const expectedRemoteData = structuredClone(expectedMergedData)
@@ -1435,8 +1934,7 @@ describe('SyncManager', () => {
       // Add updated3 for merged items
       const exceptionsForLocal = [
         // local
-        'http://example.com/shared-item',
-        'http://example.com/local-only',
+        'http://example.com/conflict',
       ]
       setUpdated3ForBookmarks(
         expectedMergedData,
@@ -1454,28 +1952,24 @@ describe('SyncManager', () => {
         exceptionsForRemote
       )
 
-      // Verify uploaded data
-      expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(expectedRemoteData),
-        expect.objectContaining({
-          version: 'remote-v1',
-          timestamp: expect.any(Number),
-        })
-      )
-
-      // Verify local storage data
-      expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          data: expectedMergedData,
-          meta: expect.objectContaining({ updated: expect.any(Number) }),
-        }),
-        true
-      )
-
-      // Verify event triggers
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceId: serviceConfigWithStrategy.id,
+          // Changes should reflect what was uploaded/saved
+          // changes: {
+          //   // Depending on how `calculateChanges` is implemented, this might be more detailed
+          //   // For a 'local' strategy, it might show local items as 'changed' or 'added' if they overwrote remote
+          //   // and new remote items as 'added'.
+          //   // For simplicity here, we'll check the overall data that should have been uploaded/saved.
+          //   // This part might need refinement based on actual `calculateChanges` output.
+          //   added: 1, // remote-only item
+          //   updated: 1, // conflict item, local version kept/uploaded
+          //   removed: 0,
+          // },
+          // remoteMeta: {
+          //   version: 'new-remote-version',
+          //   timestamp: expect.any(Number),
+          // },
         })
       )
       expect(syncEndHandler).toHaveBeenCalledWith({
@@ -1484,315 +1978,278 @@ describe('SyncManager', () => {
         error: undefined,
       })
 
-      // Verify final local data state
-      const finalLocalData = await bookmarkStorage.getBookmarksData()
-      expect(finalLocalData).toEqual(expectedMergedData)
-    })
-
-    it('should handle sync with lastDataChangeTimestamp set in serviceConfig', async () => {
-      // Arrange: Setup local data with timestamps after lastSyncTimestamp
-      const lastSyncTimestamp = now - 100_000 // Set a past timestamp for last sync
-      const localData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['local-tag'],
-          meta: {
-            created: lastSyncTimestamp + 1000,
-            updated: lastSyncTimestamp + 2000, // Modified after last sync
-            title: 'Local Item 1',
-          },
-        },
-        'http://example.com/unchanged': {
-          tags: ['unchanged'],
-          meta: {
-            created: lastSyncTimestamp - 5000, // Created before last sync
-            updated: lastSyncTimestamp - 1000, // Not modified since last sync
-            title: 'Unchanged Item',
-          },
-        },
-      }
-      await bookmarkStorage.overwriteBookmarks(localData)
-
-      // Setup remote data with some changes after lastSyncTimestamp
-      const remoteData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['remote-tag'],
-          meta: {
-            created: lastSyncTimestamp + 1000,
-            updated: lastSyncTimestamp + 3000, // Remote has newer update
-            title: 'Remote Item 1',
-          },
-        },
-        'http://example.com/unchanged': {
-          tags: ['unchanged'],
-          meta: {
-            created: lastSyncTimestamp - 5000,
-            updated: lastSyncTimestamp - 1000,
-            title: 'Unchanged Item',
-          },
-        },
-        'http://example.com/new-remote': {
-          tags: ['remote-new'],
-          meta: {
-            created: lastSyncTimestamp + 4000, // Created after last sync
-            updated: lastSyncTimestamp + 4000,
-            title: 'New Remote Item',
-          },
-        },
-      }
-
-      // Configure merge strategy to prefer remote data
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'remote', // Remote metadata wins
-        tags: 'union', // Combine tags from both sources
-        defaultDate: DEFAULT_DATE,
-      }
-      // Set lastDataChangeTimestamp in service config
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-
-      // Reinitialize syncManager to apply new settings
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
+      // Check interactions - upload should be called with local data, store should be saved with local data
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(expectedRemoteData),
+        {
+          version: 'remote-version-old',
+          timestamp: expect.any(Number),
+        }
+      )
+      expect(saveStoreSpy).toHaveBeenCalledTimes(1)
+      expect(saveStoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expectedMergedData,
+          meta: expect.objectContaining({ updated: expect.any(Number) }),
+        }),
+        true
       )
 
-      // Mock adapter methods
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue({
-        version: 'remote-v1',
-        timestamp: now,
-      })
-      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(remoteData),
-        remoteMeta: {
-          version: 'remote-v1',
-          timestamp: now,
-        },
-      })
-      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-version',
-        timestamp: now,
+      // Check final status
+      expect(syncManager.getStatus()).toEqual({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
       })
-      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
-      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
+    })
 
-      // Setup event handlers
-      const statusChangeHandler = vi.fn()
-      const syncSuccessHandler = vi.fn()
-      const syncEndHandler = vi.fn()
+    it('should successfully sync when remote file does not exist (first sync)', async () => {
+      // Arrange: Local data is already set in beforeEach
+      const getRemoteMetadataSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
+        .mockResolvedValue(undefined) // Simulate no remote file metadata
+      const downloadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'download')
+        .mockResolvedValue({ data: undefined, remoteMeta: undefined }) // Simulate no remote file
+      const uploadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+        .mockResolvedValue({ version: 'new-remote-v1', timestamp: now })
 
+      const statusChangeHandler = vi.fn()
       syncManager.on('statusChange', statusChangeHandler)
+      const syncSuccessHandler = vi.fn()
       syncManager.on('syncSuccess', syncSuccessHandler)
-      syncManager.on('syncEnd', syncEndHandler)
 
       // Act
-      const result = await syncManager.sync()
+      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
 
       // Assert
       expect(result).toBe(true)
-
-      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
-      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
-      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
-
-      // Check status updates
+      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(2) // first call: _fetchRemoteData(), second call: _uploadData()
+      expect(downloadSpy).toHaveBeenCalledTimes(1)
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(initialLocalBookmarks, { created: now }),
+        undefined // No remote metadata expected for the first upload
+      )
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceId: serviceConfigWithStrategy.id,
+        })
+      )
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
-      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'merging',
+      })
+      expect(statusChangeHandler).not.toHaveBeenCalledWith({
+        type: 'merging',
+        progress: 100,
+      })
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
       expect(statusChangeHandler).toHaveBeenCalledWith({
-        type: 'idle',
+        type: 'success',
         lastSyncTime: expect.any(Number),
       })
+      expect(syncManager.getStatus().type).toBe('idle')
+    })
 
-      // Expected merged data
-      const expectedMergedData: BookmarksData = {
-        'http://example.com/item1': {
-          tags: ['local-tag', 'remote-tag'], // Union of tags
-          meta: remoteData['http://example.com/item1'].meta, // Remote meta wins
-        },
-        'http://example.com/unchanged':
-          localData['http://example.com/unchanged'], // Unchanged item remains as is
-        'http://example.com/new-remote':
-          remoteData['http://example.com/new-remote'], // New remote item added
+    it('should successfully sync when remote file is empty', async () => {
+      // Arrange: Local data is already set in beforeEach
+      const remoteMeta: SyncMetadata = {
+        version: 'empty-v0',
+        timestamp: now - 5000,
       }
+      const getRemoteMetadataSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
+        .mockResolvedValue(remoteMeta) // Simulate remote file exists
+      const downloadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'download')
+        .mockResolvedValue({ data: '\n', remoteMeta }) // Simulate empty remote file
+      const uploadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'upload')
+        .mockResolvedValue({ version: 'local-data-v1', timestamp: now })
 
-      const expectedRemoteData = structuredClone(expectedMergedData)
-
-      // Add updated3 for merged items
-      const exceptionsForLocal = [
-        // local
-        'http://example.com/unchanged',
-      ]
-      setUpdated3ForBookmarks(
-        expectedMergedData,
-        currentSyncTime,
-        exceptionsForLocal
-      )
+      const statusChangeHandler = vi.fn()
+      syncManager.on('statusChange', statusChangeHandler)
+      const syncSuccessHandler = vi.fn()
+      syncManager.on('syncSuccess', syncSuccessHandler)
 
-      const exceptionsForRemote = [
-        // remote
-        'http://example.com/unchanged',
-        'http://example.com/new-remote',
-      ]
-      setUpdated3ForBookmarks(
-        expectedRemoteData,
-        currentSyncTime,
-        exceptionsForRemote
-      )
+      // Act
+      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
 
-      // Verify uploaded data
+      // Assert
+      expect(result).toBe(true)
+      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(1) // first call: _fetchRemoteData()
+      expect(downloadSpy).toHaveBeenCalledTimes(1)
+      // Since remote is empty, local data (initialLocalBookmarks) should be uploaded.
+      // The expectedRemoteMeta for upload should be the one from download.
       expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(
-          expectedRemoteData,
-          undefined,
-          lastSyncTimestamp,
-          currentSyncTime
-        ),
+        convertToUploadData(initialLocalBookmarks, { created: now }),
+        remoteMeta
+      )
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
-          version: 'remote-v1',
-          timestamp: expect.any(Number),
+          serviceId: serviceConfigWithStrategy.id,
         })
       )
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'merging',
+      })
+      expect(statusChangeHandler).not.toHaveBeenCalledWith({
+        type: 'merging',
+        progress: 100,
+      })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'success',
+        lastSyncTime: expect.any(Number),
+      })
+      expect(syncManager.getStatus().type).toBe('idle')
 
-      // Verify local storage data
-      expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({
-          data: expectedMergedData,
-          meta: expect.objectContaining({ updated: expect.any(Number) }),
-        }),
-        true
-      )
-
-      // Verify event triggers
-      expect(syncSuccessHandler).toHaveBeenCalledWith(
+      // Verify bookmarkStorage still contains the initial local bookmarks as merge strategy is 'local'
+      const finalLocalData = await bookmarkStorage.getBookmarksData()
+      expect(finalLocalData).toEqual(initialLocalBookmarks)
+    })
+
+    it('should fail sync and emit error when remote file is not valid JSON', async () => {
+      // Arrange: Local data is already set in beforeEach
+      const remoteMeta: SyncMetadata = {
+        version: 'invalid-v0',
+        timestamp: now - 6000,
+      }
+      const getRemoteMetadataSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'getRemoteMetadata')
+        .mockResolvedValue(remoteMeta) // Simulate remote file exists
+      const downloadSpy = vi
+        .spyOn(CustomApiSyncAdapter.prototype, 'download')
+        .mockResolvedValue({ data: 'This is not JSON', remoteMeta }) // Simulate non-JSON remote content
+      const uploadSpy = vi.spyOn(CustomApiSyncAdapter.prototype, 'upload')
+
+      const errorHandler = vi.fn()
+      syncManager.on('error', errorHandler)
+      const statusChangeHandler = vi.fn()
+      syncManager.on('statusChange', statusChangeHandler)
+      const syncEndHandler = vi.fn()
+      syncManager.on('syncEnd', syncEndHandler)
+
+      // Act
+      const result = await syncManager.synchronize(serviceConfigWithStrategy.id)
+
+      // Assert
+      expect(result).toBe(false)
+      expect(getRemoteMetadataSpy).toHaveBeenCalledTimes(1) // first call: _fetchRemoteData()
+      expect(downloadSpy).toHaveBeenCalledTimes(1)
+      expect(uploadSpy).not.toHaveBeenCalled() // Upload should not occur
+
+      expect(errorHandler).toHaveBeenCalledWith(
         expect.objectContaining({
+          message: expect.stringContaining(
+            `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
+          ),
           serviceId: serviceConfigWithStrategy.id,
         })
       )
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'error',
+        error: expect.stringContaining(
+          `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
+        ),
+        lastAttemptTime: expect.any(Number),
+      })
       expect(syncEndHandler).toHaveBeenCalledWith({
         serviceId: serviceConfigWithStrategy.id,
-        status: 'success',
-        error: undefined,
-      })
-
-      // Verify final local data state
-      const finalLocalData = await bookmarkStorage.getBookmarksData()
-      expect(finalLocalData).toEqual(expectedMergedData)
-
-      // Verify that the lastSyncTimestamp was considered
-      expect(syncManager.getStatus()).toEqual({
-        type: 'idle',
-        lastSyncTime: expect.any(Number),
+        status: 'error',
+        error: expect.stringContaining(
+          `Failed to parse remote data for ${serviceConfigWithStrategy.name}`
+        ),
       })
+      expect(syncManager.getStatus().type).toBe('error')
     })
 
-    it('should handle sync with lastDataChangeTimestamp when both local and remote have changes', async () => {
-      // Arrange: Setup initial local data
+    it('should successfully download and merge newer remote data when no local conflicts (remote wins strategy)', async () => {
+      // Arrange: Setup local data
       const initialLocalData: BookmarksData = {
-        'http://example.com/modified-both': {
-          tags: ['local-tag', 'shared-tag'],
+        'http://example.com/item1': {
+          tags: ['local-tag1'],
           meta: {
             created: now - 50_000,
             updated: now - 40_000,
-            title: 'Initial Title',
+            title: 'Local Item 1 Old',
           },
         },
-        'http://example.com/modified-local': {
-          tags: ['local-only'],
+        'http://example.com/item2': {
+          tags: ['shared'],
           meta: {
             created: now - 50_000,
-            updated: now - 40_000,
-            title: 'Local Modified',
-          },
-        },
-        'http://example.com/unmodified': {
-          tags: ['stable'],
-          meta: {
-            created: now - 60_000,
-            updated: now - 60_000,
-            title: 'Unmodified Item',
+            updated: now - 45_000,
+            title: 'Shared Item Local',
           },
         },
       }
       await bookmarkStorage.overwriteBookmarks(initialLocalData)
 
-      // Set lastDataChangeTimestamp in service config
-      const lastSyncTime = now - 45_000
-      serviceConfigWithStrategy = {
-        ...serviceConfigWithStrategy,
-        lastDataChangeTimestamp: lastSyncTime,
-        mergeStrategy: {
-          meta: 'remote',
-          tags: 'union',
-          defaultDate: DEFAULT_DATE,
-        },
-      }
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-
-      // Setup remote data with changes after lastSyncTimestamp
-      const remoteData: BookmarksData = {
-        'http://example.com/modified-both': {
-          tags: ['remote-tag', 'shared-tag'],
+      // Setup remote data that is newer or has new items
+      const newerRemoteData: BookmarksData = {
+        'http://example.com/item1': {
+          // Updated version of item1
+          tags: ['remote-tag1', 'updated'],
           meta: {
             created: now - 50_000,
-            updated: now - 35_000, // Modified after lastSyncTime
-            title: 'Remote Updated Title',
-          },
-        },
-        'http://example.com/modified-local': {
-          tags: ['local-only'],
-          meta: {
-            created: now - 50_000, // updated earlier than created
-            updated: now - 60_000, // Not modified after lastSyncTime, staled
-            title: 'Local Modified',
+            updated: now - 30_000,
+            title: 'Remote Item 1 New',
           },
         },
-        'http://example.com/unmodified': {
-          tags: ['stable'],
+        'http://example.com/item2': {
+          // No change, but present to test merging
+          tags: ['shared'],
           meta: {
-            created: now - 60_000,
-            updated: now - 60_000,
-            title: 'Unmodified Item',
+            created: now - 50_000,
+            updated: now - 45_000,
+            title: 'Shared Item Local',
           },
         },
-        'http://example.com/new-remote': {
+        'http://example.com/item3': {
+          // New item from remote
           tags: ['remote-new'],
           meta: {
-            created: now - 30_000,
-            updated: now - 30_000,
-            title: 'New Remote Item',
+            created: now - 20_000,
+            updated: now - 20_000,
+            title: 'Remote New Item 3',
           },
         },
       }
+      const remoteMeta: SyncMetadata = {
+        version: 'remote-v2',
+        timestamp: now - 1000,
+      }
 
-      // Re-initialize syncManager with new settings
+      // Configure merge strategy for remote to win for meta, and union for tags
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'remote', // Remote metadata wins
+        tags: 'union', // Tags are combined
+        defaultDate: DEFAULT_DATE,
+      }
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+      // Re-initialize syncManager if settings change requires it, or ensure it picks up the change.
+      // Our current setup re-creates syncManager in beforeEach, but if a test changes syncConfigStore,
+      // it might need a new SyncManager instance or a way for SyncManager to react to mid-test settings changes.
+      // For this test, we assume the beforeEach setup is sufficient or SyncManager reacts to syncConfigStore updates.
       syncManager.destroy()
-      syncManager = new SyncManager()
+      syncManager = new SyncManager() // Ensure it picks up the new merge strategy
       // @ts-expect-error - access privte method to get the adapter
       const currentAdapter = await syncManager.getAdapter(
         serviceConfigWithStrategy
       )
-
-      // Mock adapter methods
-      const remoteMeta: SyncMetadata = {
-        version: 'remote-v2',
-        timestamp: now - 1000,
-      }
       vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
         remoteMeta
       )
       vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(remoteData),
+        data: convertToDownloadData(newerRemoteData),
         remoteMeta,
       })
+      // const uploadSpy = vi.spyOn(currentAdapter, 'upload') // Should be called with merged data
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
         version: 'new-remote-version',
         timestamp: now,
@@ -1800,7 +2257,6 @@ describe('SyncManager', () => {
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
       const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
-      // Setup event handlers
       const statusChangeHandler = vi.fn()
       const syncSuccessHandler = vi.fn()
       const syncEndHandler = vi.fn()
@@ -1831,28 +2287,28 @@ describe('SyncManager', () => {
 
       // Expected merged data
       const expectedMergedData: BookmarksData = {
-        'http://example.com/modified-both': {
-          tags: ['local-tag', 'shared-tag', 'remote-tag'], // Union of tags
-          meta: remoteData['http://example.com/modified-both'].meta, // Remote meta wins
+        'http://example.com/item1': newerRemoteData['http://example.com/item1'], // Remote version wins for meta
+        'http://example.com/item2': {
+          ...initialLocalData['http://example.com/item2'], // Meta could be local/remote/merged based on strategy
+          tags: ['shared'], // Assuming 'union' keeps it as is if identical, or combines if different
         },
-        'http://example.com/modified-local':
-          initialLocalData['http://example.com/modified-local'], // Local changes kept
-        'http://example.com/unmodified':
-          initialLocalData['http://example.com/unmodified'], // Unmodified data kept
-        'http://example.com/new-remote':
-          remoteData['http://example.com/new-remote'], // New remote item added
+        'http://example.com/item3': newerRemoteData['http://example.com/item3'], // New remote item added
+      }
+      // Adjust item2 tags based on 'union' if they were different. Here they are the same.
+      if (serviceConfigWithStrategy.mergeStrategy?.tags === 'union') {
+        expectedMergedData['http://example.com/item1'].tags = [
+          'local-tag1',
+          'remote-tag1',
+          'updated',
+        ] // Union of tags
       }
-
-      expectedMergedData['http://example.com/modified-local'].meta.created =
-        remoteData['http://example.com/modified-local'].meta.updated // updated earlier than created
 
       const expectedRemoteData = structuredClone(expectedMergedData)
 
       // Add updated3 for merged items
       const exceptionsForLocal = [
         // local
-        'http://example.com/unmodified',
-        // 'http://example.com/modified-local',
+        'http://example.com/item2',
       ]
       setUpdated3ForBookmarks(
         expectedMergedData,
@@ -1861,8 +2317,9 @@ describe('SyncManager', () => {
       )
 
       const exceptionsForRemote = [
-        'http://example.com/unmodified',
-        'http://example.com/new-remote',
+        // remote
+        'http://example.com/item2',
+        'http://example.com/item3',
       ]
       setUpdated3ForBookmarks(
         expectedRemoteData,
@@ -1872,13 +2329,8 @@ describe('SyncManager', () => {
 
       // Check that upload was called with the correctly merged data
       expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(
-          expectedRemoteData,
-          undefined,
-          lastSyncTime,
-          currentSyncTime
-        ),
-        remoteMeta
+        convertToUploadData(expectedRemoteData),
+        remoteMeta // Previous remoteMeta is passed to upload
       )
 
       // Check that bookmarkStorage was updated with the merged data
@@ -1890,6 +2342,7 @@ describe('SyncManager', () => {
       expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceId: serviceConfigWithStrategy.id,
+          // changes: { added: 1, updated: 1, removed: 0 }, // This needs careful calculation
         })
       )
       expect(syncEndHandler).toHaveBeenCalledWith(
@@ -1901,99 +2354,63 @@ describe('SyncManager', () => {
       expect(finalLocalData).toEqual(expectedMergedData)
     })
 
-    it('should handle sync with lastDataChangeTimestamp and newer merge strategy', async () => {
-      // Arrange: Setup lastSyncTimestamp
-      const lastSyncTimestamp = now - 100_000 // Last sync was 100 seconds ago
-
-      // Configure merge strategy to use newer for both meta and tags
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'newer',
-        tags: 'newer',
-        defaultDate: DEFAULT_DATE,
-      }
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-
-      // Re-initialize syncManager to pick up new settings
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
-
-      // Setup initial local data with various timestamps
+    it('should successfully merge newer remote data with local data using merge strategy', async () => {
+      // Arrange: Setup local data with older timestamps
       const initialLocalData: BookmarksData = {
-        'http://example.com/unchanged': {
-          tags: ['old-tag'],
-          meta: {
-            created: lastSyncTimestamp - 50_000,
-            updated: lastSyncTimestamp - 40_000, // Not modified since last sync
-            title: 'Unchanged Item',
-          },
-        },
-        'http://example.com/local-modified': {
-          tags: ['local-new-tag'],
-          meta: {
-            created: lastSyncTimestamp - 30_000,
-            updated: lastSyncTimestamp + 5000, // Modified after last sync
-            title: 'Local Modified Item',
-          },
-        },
-        'http://example.com/conflict': {
-          tags: ['local-conflict-tag'],
+        'http://example.com/item1': {
+          tags: ['local-tag1', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 20_000,
-            updated: lastSyncTimestamp + 15_000, // Modified after last sync
-            title: 'Local Conflict Item',
+            created: now - 50_000,
+            updated: now - 40_000,
+            title: 'Local Item 1',
+            description: 'Local description', // Local-only field
           },
         },
       }
       await bookmarkStorage.overwriteBookmarks(initialLocalData)
 
-      // Setup remote data
-      const remoteData: BookmarksData = {
-        'http://example.com/unchanged': {
-          tags: ['old-tag'],
-          meta: {
-            created: lastSyncTimestamp - 50_000,
-            updated: lastSyncTimestamp - 40_000, // Same as local
-            title: 'Unchanged Item',
-          },
-        },
-        'http://example.com/remote-modified': {
-          tags: ['remote-new-tag'],
-          meta: {
-            created: lastSyncTimestamp - 25_000,
-            updated: lastSyncTimestamp + 10_000, // Modified after last sync
-            title: 'Remote Modified Item',
-          },
-        },
-        'http://example.com/conflict': {
-          tags: ['remote-conflict-tag'],
+      // Setup remote data with newer timestamps and additional fields
+      const newerRemoteData: BookmarksData = {
+        'http://example.com/item1': {
+          tags: ['remote-tag1', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 20_000,
-            updated: lastSyncTimestamp + 20_000, // Modified after last sync, newer than local
-            title: 'Remote Conflict Item',
+            created: now - 50_000, // Same creation time
+            updated: now - 30_000, // Newer update time
+            title: 'Remote Item 1',
+            url: 'http://example.com/item1-updated', // Remote-only field
           },
         },
       }
-
       const remoteMeta: SyncMetadata = {
         version: 'remote-v2',
         timestamp: now - 1000,
       }
 
+      // Configure merge strategy to merge meta and union tags
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'merge', // Merge metadata fields
+        tags: 'union', // Combine tags from both sources
+        defaultDate: DEFAULT_DATE,
+      }
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+
+      // Re-initialize syncManager with new settings
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
+
       // Mock adapter methods
       vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
         remoteMeta
       )
       vi.spyOn(currentAdapter, 'download').mockResolvedValue({
-        data: convertToDownloadData(remoteData),
+        data: convertToDownloadData(newerRemoteData),
         remoteMeta,
       })
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
@@ -2032,52 +2449,24 @@ describe('SyncManager', () => {
         lastSyncTime: expect.any(Number),
       })
 
-      // Expected merged data based on newer strategy
+      // Expected merged data
       const expectedMergedData: BookmarksData = {
-        'http://example.com/unchanged':
-          initialLocalData['http://example.com/unchanged'], // Unchanged
-        'http://example.com/remote-modified':
-          remoteData['http://example.com/remote-modified'], // Remote is new
-        'http://example.com/conflict':
-          remoteData['http://example.com/conflict'], // Remote is newer
-        'http://example.com/local-modified':
-          initialLocalData['http://example.com/local-modified'], // Local is newer
+        'http://example.com/item1': {
+          tags: ['local-tag1', 'shared-tag', 'remote-tag1'], // Union of all tags
+          meta: {
+            created: now - 50_000, // Original creation time
+            updated: now - 30_000, // Newer update time from remote
+            title: 'Remote Item 1', // Remote title (newer)
+            description: 'Local description', // Preserved local field
+            url: 'http://example.com/item1-updated', // Added remote field
+            updated3: currentSyncTime, // Updated3 should be currentSyncTime
+          },
+        },
       }
 
-      const expectedRemoteData = structuredClone(expectedMergedData)
-
-      // Add updated3 for merged items
-      const exceptionsForLocal = [
-        // local
-        'http://example.com/unchanged',
-        'http://example.com/local-modified',
-      ]
-      setUpdated3ForBookmarks(
-        expectedMergedData,
-        currentSyncTime,
-        exceptionsForLocal
-      )
-
-      const exceptionsForRemote = [
-        // remote
-        'http://example.com/unchanged',
-        'http://example.com/conflict',
-        'http://example.com/remote-modified',
-      ]
-      setUpdated3ForBookmarks(
-        expectedRemoteData,
-        currentSyncTime,
-        exceptionsForRemote
-      )
-
       // Check that upload was called with the correctly merged data
       expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(
-          expectedRemoteData,
-          undefined,
-          lastSyncTimestamp,
-          currentSyncTime
-        ),
+        convertToUploadData(expectedMergedData),
         remoteMeta
       )
 
@@ -2087,6 +2476,7 @@ describe('SyncManager', () => {
         true
       )
 
+      // Check success events
       expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceId: serviceConfigWithStrategy.id,
@@ -2101,117 +2491,89 @@ describe('SyncManager', () => {
       expect(finalLocalData).toEqual(expectedMergedData)
     })
 
-    it('should handle sync with lastDataChangeTimestamp, newer strategy, and updates on both local and remote', async () => {
-      // Arrange
-      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'newer',
-        tags: 'newer',
-        defaultDate: DEFAULT_DATE,
-      }
-
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
-
-      const initialLocalData: BookmarksData = {
-        'http://example.com/nochange': {
-          tags: ['common'],
-          meta: {
-            created: lastSyncTimestamp - 20_000, // before lastSyncTimestamp
-            updated: lastSyncTimestamp - 10_000, // before lastSyncTimestamp
-            title: 'No Change Item',
-          },
-        },
-        'http://example.com/local_newer': {
-          tags: ['local', 'common'],
-          meta: {
-            created: lastSyncTimestamp - 5000,
-            updated: lastSyncTimestamp + 5000, // local is newer
-            title: 'Local Newer Title',
-          },
-        },
-        'http://example.com/remote_newer': {
-          tags: ['remote', 'common'],
+    it('should handle sync with local data having newer update time than remote', async () => {
+      // Arrange: Setup local data with newer update time
+      const localData: BookmarksData = {
+        'http://example.com/shared-item': {
+          tags: ['local-tag', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 6000,
-            updated: lastSyncTimestamp + 1000, // remote will be newer
-            title: 'Remote Will Be Newer Title - Local Old',
+            created: now - 50_000,
+            updated: now - 1000, // Newer update time
+            title: 'Local Title',
+            description: 'Local description',
           },
         },
-        'http://example.com/local_only_new': {
-          tags: ['local-new'],
+        'http://example.com/local-only': {
+          tags: ['local-only'],
           meta: {
-            created: lastSyncTimestamp + 1000,
-            updated: lastSyncTimestamp + 2000,
-            title: 'New Local Only Item',
+            created: now - 40_000,
+            updated: now - 2000,
+            title: 'Local Only Item',
           },
         },
       }
-      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+      await bookmarkStorage.overwriteBookmarks(localData)
 
+      // Setup remote data with older update time
       const remoteData: BookmarksData = {
-        'http://example.com/nochange': {
-          tags: ['common'], // Same as local
-          meta: {
-            created: lastSyncTimestamp - 20_000,
-            updated: lastSyncTimestamp - 10_000,
-            title: 'No Change Item',
-          },
-        },
-        'http://example.com/local_newer': {
-          tags: ['remote', 'old-tag'],
-          meta: {
-            created: lastSyncTimestamp - 5000,
-            updated: lastSyncTimestamp + 1000, // older than local
-            title: 'Local Newer Title - Remote Old',
-          },
-        },
-        'http://example.com/remote_newer': {
-          tags: ['remote', 'new-tag'],
+        'http://example.com/shared-item': {
+          tags: ['remote-tag', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 6000,
-            updated: lastSyncTimestamp + 6000, // newer than local
-            title: 'Remote Newer Title',
+            created: now - 50_000,
+            updated: now - 5000, // Older update time
+            title: 'Remote Title',
+            url: 'http://example.com/shared-item-updated',
           },
         },
-        'http://example.com/remote_only_new': {
-          tags: ['remote-new'],
+        'http://example.com/remote-only': {
+          tags: ['remote-only'],
           meta: {
-            created: lastSyncTimestamp + 3000,
-            updated: lastSyncTimestamp + 4000,
-            title: 'New Remote Only Item',
+            created: now - 30_000,
+            updated: now - 3000,
+            title: 'Remote Only Item',
           },
         },
       }
-      const remoteMeta: SyncMetadata = {
-        version: 'remote-v-newer-test',
-        timestamp: now - 500, // Remote data timestamp, after lastSyncTimestamp
-      }
 
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
-        remoteMeta
+      // Configure merge strategy to prefer local data
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'local', // Prefer local metadata
+        tags: 'local', // Prefer local tags
+        defaultDate: DEFAULT_DATE,
+      }
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+
+      // Reinitialize syncManager to apply new merge strategy
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
       )
+
+      // Mock adapter methods
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now - 5000,
+      })
       vi.spyOn(currentAdapter, 'download').mockResolvedValue({
         data: convertToDownloadData(remoteData),
-        remoteMeta,
+        remoteMeta: {
+          version: 'remote-v1',
+          timestamp: now - 5000,
+        },
       })
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-v-newer-test',
+        version: 'new-remote-version',
         timestamp: now,
       })
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
       const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
+      // Setup event handlers
       const statusChangeHandler = vi.fn()
       const syncSuccessHandler = vi.fn()
       const syncEndHandler = vi.fn()
@@ -2240,24 +2602,14 @@ describe('SyncManager', () => {
         lastSyncTime: expect.any(Number),
       })
 
-      // Construct expected merged data based on 'newer' strategy
+      // Expected merged data
       const expectedMergedData: BookmarksData = {
-        'http://example.com/nochange':
-          initialLocalData['http://example.com/nochange'], // Unchanged
-        'http://example.com/local_newer': {
-          // Local meta is newer, local tags are newer (or union if different)
-          tags: ['local', 'common'], // Based on 'newer' and local being more recent
-          meta: initialLocalData['http://example.com/local_newer'].meta,
-        },
-        'http://example.com/remote_newer': {
-          // Remote meta is newer, remote tags are newer
-          tags: ['remote', 'new-tag'], // Based on 'newer' and remote being more recent
-          meta: remoteData['http://example.com/remote_newer'].meta,
-        },
-        'http://example.com/remote_only_new':
-          remoteData['http://example.com/remote_only_new'], // New remote item
-        'http://example.com/local_only_new':
-          initialLocalData['http://example.com/local_only_new'], // New local item
+        'http://example.com/shared-item':
+          localData['http://example.com/shared-item'], // Prefer local data
+        'http://example.com/remote-only':
+          remoteData['http://example.com/remote-only'], // Add remote-only items
+        'http://example.com/local-only':
+          localData['http://example.com/local-only'], // Keep local-only items
       }
 
       const expectedRemoteData = structuredClone(expectedMergedData)
@@ -2265,9 +2617,8 @@ describe('SyncManager', () => {
       // Add updated3 for merged items
       const exceptionsForLocal = [
         // local
-        'http://example.com/nochange',
-        'http://example.com/local_newer',
-        'http://example.com/local_only_new',
+        'http://example.com/shared-item',
+        'http://example.com/local-only',
       ]
       setUpdated3ForBookmarks(
         expectedMergedData,
@@ -2277,9 +2628,7 @@ describe('SyncManager', () => {
 
       const exceptionsForRemote = [
         // remote
-        'http://example.com/nochange',
-        'http://example.com/remote_newer',
-        'http://example.com/remote_only_new',
+        'http://example.com/remote-only',
       ]
       setUpdated3ForBookmarks(
         expectedRemoteData,
@@ -2287,157 +2636,133 @@ describe('SyncManager', () => {
         exceptionsForRemote
       )
 
+      // Verify uploaded data
       expect(uploadSpy).toHaveBeenCalledWith(
-        convertToUploadData(
-          expectedRemoteData,
-          undefined,
-          lastSyncTimestamp,
-          currentSyncTime
-        ),
-        remoteMeta
+        convertToUploadData(expectedRemoteData),
+        expect.objectContaining({
+          version: 'remote-v1',
+          timestamp: expect.any(Number),
+        })
       )
+
+      // Verify local storage data
       expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({ data: expectedMergedData }),
+        expect.objectContaining({
+          data: expectedMergedData,
+          meta: expect.objectContaining({ updated: expect.any(Number) }),
+        }),
         true
       )
 
+      // Verify event triggers
       expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceId: serviceConfigWithStrategy.id,
         })
       )
-      expect(syncEndHandler).toHaveBeenCalledWith(
-        expect.objectContaining({ status: 'success' })
-      )
+      expect(syncEndHandler).toHaveBeenCalledWith({
+        serviceId: serviceConfigWithStrategy.id,
+        status: 'success',
+        error: undefined,
+      })
 
+      // Verify final local data state
       const finalLocalData = await bookmarkStorage.getBookmarksData()
       expect(finalLocalData).toEqual(expectedMergedData)
     })
 
-    it('should handle bookmark deletions and updates with lastDataChangeTimestamp', async () => {
-      // Arrange
-      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'newer',
-        tags: 'newer',
-        defaultDate: DEFAULT_DATE,
-      }
-
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
-      })
-
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
-
-      // Initial local data with items to be deleted and updated
-      const initialLocalData: BookmarksData = {
-        // 'http://example.com/local_deleted' is deleted in local
-        'http://example.com/remote_deleted': {
-          // This will be deleted in remote
-          tags: ['will-be-deleted'],
-          meta: {
-            created: lastSyncTimestamp - 15_000,
-            updated: lastSyncTimestamp - 5000, // Not updated since last sync
-            title: 'Remote Will Delete This',
-          },
-        },
-        'http://example.com/both_updated': {
-          // Both local and remote updated
-          tags: ['local-new-tag'],
-          meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 5000, // Updated after last sync
-            title: 'Both Updated - Local Version',
-          },
-        },
-        'http://example.com/local_updated': {
-          // Only local updated
-          tags: ['local-updated'],
+    it('should handle sync with lastDataChangeTimestamp set in serviceConfig', async () => {
+      // Arrange: Setup local data with timestamps after lastSyncTimestamp
+      const lastSyncTimestamp = now - 100_000 // Set a past timestamp for last sync
+      const localData: BookmarksData = {
+        'http://example.com/item1': {
+          tags: ['local-tag'],
           meta: {
-            created: lastSyncTimestamp - 8000,
-            updated: lastSyncTimestamp + 2000, // Updated after last sync
-            title: 'Local Updated Only',
+            created: lastSyncTimestamp + 1000,
+            updated: lastSyncTimestamp + 2000, // Modified after last sync
+            title: 'Local Item 1',
           },
         },
-        'http://example.com/remote_updated': {
-          // Only remote will update
-          tags: ['old-tag'],
+        'http://example.com/unchanged': {
+          tags: ['unchanged'],
           meta: {
-            created: lastSyncTimestamp - 7000,
-            updated: lastSyncTimestamp - 1000, // Not updated since last sync
-            title: 'Remote Will Update This',
+            created: lastSyncTimestamp - 5000, // Created before last sync
+            updated: lastSyncTimestamp - 1000, // Not modified since last sync
+            title: 'Unchanged Item',
           },
         },
       }
-      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+      await bookmarkStorage.overwriteBookmarks(localData)
 
-      // Remote data with deletions and updates
+      // Setup remote data with some changes after lastSyncTimestamp
       const remoteData: BookmarksData = {
-        'http://example.com/local_deleted': {
-          // Still exists in remote
-          tags: ['to-delete'],
-          meta: {
-            created: lastSyncTimestamp - 20_000,
-            updated: lastSyncTimestamp - 10_000,
-            title: 'Local Deleted Item',
-          },
-        },
-        // 'http://example.com/remote_deleted' is deleted in remote
-        'http://example.com/both_updated': {
-          // Both updated but remote is newer
-          tags: ['remote-new-tag'],
+        'http://example.com/item1': {
+          tags: ['remote-tag'],
           meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 8000, // Updated after local update
-            title: 'Both Updated - Remote Version',
+            created: lastSyncTimestamp + 1000,
+            updated: lastSyncTimestamp + 3000, // Remote has newer update
+            title: 'Remote Item 1',
           },
         },
-        'http://example.com/local_updated': {
-          // Not updated in remote
-          tags: ['not-updated'],
+        'http://example.com/unchanged': {
+          tags: ['unchanged'],
           meta: {
-            created: lastSyncTimestamp - 8000,
-            updated: lastSyncTimestamp - 2000, // staled
-            title: 'Not Updated in Remote',
+            created: lastSyncTimestamp - 5000,
+            updated: lastSyncTimestamp - 1000,
+            title: 'Unchanged Item',
           },
         },
-        'http://example.com/remote_updated': {
-          // Updated in remote
-          tags: ['new-remote-tag'],
+        'http://example.com/new-remote': {
+          tags: ['remote-new'],
           meta: {
-            created: lastSyncTimestamp - 7000,
-            updated: lastSyncTimestamp + 3000, // Updated after last sync
-            title: 'Remote Updated Version',
+            created: lastSyncTimestamp + 4000, // Created after last sync
+            updated: lastSyncTimestamp + 4000,
+            title: 'New Remote Item',
           },
         },
       }
 
-      const remoteMeta: SyncMetadata = {
-        version: 'remote-v-deletion-test',
-        timestamp: now - 500,
+      // Configure merge strategy to prefer remote data
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'remote', // Remote metadata wins
+        tags: 'union', // Combine tags from both sources
+        defaultDate: DEFAULT_DATE,
       }
+      // Set lastDataChangeTimestamp in service config
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
 
-      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
-        remoteMeta
+      // Reinitialize syncManager to apply new settings
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
       )
+
+      // Mock adapter methods
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now,
+      })
       vi.spyOn(currentAdapter, 'download').mockResolvedValue({
         data: convertToDownloadData(remoteData),
-        remoteMeta,
+        remoteMeta: {
+          version: 'remote-v1',
+          timestamp: now,
+        },
       })
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-v-deletion-test',
+        version: 'new-remote-version',
         timestamp: now,
       })
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
       const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
+      // Setup event handlers
       const statusChangeHandler = vi.fn()
       const syncSuccessHandler = vi.fn()
       const syncEndHandler = vi.fn()
@@ -2466,25 +2791,16 @@ describe('SyncManager', () => {
         lastSyncTime: expect.any(Number),
       })
 
-      // Expected merged data after sync
+      // Expected merged data
       const expectedMergedData: BookmarksData = {
-        // 'http://example.com/local_deleted' should not exist
-        // 'http://example.com/remote_deleted' should not exist
-        'http://example.com/both_updated': {
-          // Remote version wins (newer)
-          tags: ['remote-new-tag'],
-          meta: remoteData['http://example.com/both_updated'].meta,
-        },
-        'http://example.com/local_updated': {
-          // Local version wins (newer)
-          tags: ['local-updated'],
-          meta: initialLocalData['http://example.com/local_updated'].meta,
-        },
-        'http://example.com/remote_updated': {
-          // Remote version wins (newer)
-          tags: ['new-remote-tag'],
-          meta: remoteData['http://example.com/remote_updated'].meta,
+        'http://example.com/item1': {
+          tags: ['local-tag', 'remote-tag'], // Union of tags
+          meta: remoteData['http://example.com/item1'].meta, // Remote meta wins
         },
+        'http://example.com/unchanged':
+          localData['http://example.com/unchanged'], // Unchanged item remains as is
+        'http://example.com/new-remote':
+          remoteData['http://example.com/new-remote'], // New remote item added
       }
 
       const expectedRemoteData = structuredClone(expectedMergedData)
@@ -2492,7 +2808,7 @@ describe('SyncManager', () => {
       // Add updated3 for merged items
       const exceptionsForLocal = [
         // local
-        'http://example.com/local_updated',
+        'http://example.com/unchanged',
       ]
       setUpdated3ForBookmarks(
         expectedMergedData,
@@ -2501,8 +2817,9 @@ describe('SyncManager', () => {
       )
 
       const exceptionsForRemote = [
-        'http://example.com/both_updated',
-        'http://example.com/remote_updated',
+        // remote
+        'http://example.com/unchanged',
+        'http://example.com/new-remote',
       ]
       setUpdated3ForBookmarks(
         expectedRemoteData,
@@ -2510,7 +2827,7 @@ describe('SyncManager', () => {
         exceptionsForRemote
       )
 
-      // Check that upload was called with the correctly merged data
+      // Verify uploaded data
       expect(uploadSpy).toHaveBeenCalledWith(
         convertToUploadData(
           expectedRemoteData,
@@ -2518,242 +2835,139 @@ describe('SyncManager', () => {
           lastSyncTimestamp,
           currentSyncTime
         ),
-        remoteMeta
+        expect.objectContaining({
+          version: 'remote-v1',
+          timestamp: expect.any(Number),
+        })
       )
 
-      // Check that bookmarkStorage was updated with the merged data
+      // Verify local storage data
       expect(saveStoreSpy).toHaveBeenCalledWith(
-        expect.objectContaining({ data: expectedMergedData }),
+        expect.objectContaining({
+          data: expectedMergedData,
+          meta: expect.objectContaining({ updated: expect.any(Number) }),
+        }),
         true
       )
 
+      // Verify event triggers
       expect(syncSuccessHandler).toHaveBeenCalledWith(
         expect.objectContaining({
           serviceId: serviceConfigWithStrategy.id,
         })
       )
-      expect(syncEndHandler).toHaveBeenCalledWith(
-        expect.objectContaining({ status: 'success' })
-      )
+      expect(syncEndHandler).toHaveBeenCalledWith({
+        serviceId: serviceConfigWithStrategy.id,
+        status: 'success',
+        error: undefined,
+      })
 
-      // Verify final state of bookmarkStorage
+      // Verify final local data state
       const finalLocalData = await bookmarkStorage.getBookmarksData()
       expect(finalLocalData).toEqual(expectedMergedData)
 
-      // Specific assertions for deletion and update scenarios
-      expect(
-        finalLocalData['http://example.com/remote_deleted']
-      ).toBeUndefined()
-      expect(finalLocalData['http://example.com/local_deleted']).toBeUndefined()
-      expect(finalLocalData['http://example.com/both_updated'].meta.title).toBe(
-        'Both Updated - Remote Version'
-      )
-      expect(
-        finalLocalData['http://example.com/local_updated'].meta.title
-      ).toBe('Local Updated Only')
-      expect(
-        finalLocalData['http://example.com/remote_updated'].meta.title
-      ).toBe('Remote Updated Version')
-    })
-
-    it('should handle multiple local/remote deletions and updates with lastDataChangeTimestamp, meta:merge, tags:remote', async () => {
-      // Arrange
-      const lastSyncTimestamp = now - 200_000 // e.g., 200 seconds ago
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'merge', // Meta fields are merged, newer wins for conflicts
-        tags: 'remote', // Tags from remote always win
-        defaultDate: DEFAULT_DATE,
-      }
-
-      syncConfigStore.set({
-        syncServices: [serviceConfigWithStrategy],
-        activeSyncServiceId: serviceConfigWithStrategy.id,
+      // Verify that the lastSyncTimestamp was considered
+      expect(syncManager.getStatus()).toEqual({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
       })
+    })
 
-      syncManager.destroy()
-      syncManager = new SyncManager()
-      // @ts-expect-error - access privte method to get the adapter
-      const currentAdapter = await syncManager.getAdapter(
-        serviceConfigWithStrategy
-      )
-
-      // --- Initial Local Data Setup ---
+    it('should handle sync with lastDataChangeTimestamp when both local and remote have changes', async () => {
+      // Arrange: Setup initial local data
       const initialLocalData: BookmarksData = {
-        // Scenario 1: Local delete, Remote exists (and is newer)
-        // 'http://example.com/local_del_remote_exists_newer' -> deleted locally
-
-        // Scenario 2: Local delete, Remote exists (and is older)
-        // 'http://example.com/local_del_remote_exists_older' -> deleted locally
-
-        // Scenario 3: Remote delete, Local exists (and is newer)
-        'http://example.com/remote_del_local_exists_newer': {
-          tags: ['local-tag1', 'shared-tag'],
-          meta: {
-            created: lastSyncTimestamp - 15_000,
-            updated: lastSyncTimestamp + 5000, // Newer than lastSync
-            title: 'Remote Deleted, Local Newer',
-            description: 'Local description',
-          },
-        },
-
-        // Scenario 4: Remote delete, Local exists (and is older)
-        'http://example.com/remote_del_local_exists_older': {
-          tags: ['local-tag2'],
-          meta: {
-            created: lastSyncTimestamp - 16_000,
-            updated: lastSyncTimestamp - 4000, // Older than lastSync
-            title: 'Remote Deleted, Local Older',
-          },
-        },
-
-        // Scenario 5: Both exist, Local newer, Remote has different tags
-        'http://example.com/both_exist_local_newer': {
-          tags: ['local-tag3', 'local-specific'],
+        'http://example.com/modified-both': {
+          tags: ['local-tag', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 6000, // Newer than lastSync & remote
-            title: 'Both Exist, Local Newer Title',
-            description: 'Local specific description',
+            created: now - 50_000,
+            updated: now - 40_000,
+            title: 'Initial Title',
           },
         },
-
-        // Scenario 6: Both exist, Remote newer, Local has different tags
-        'http://example.com/both_exist_remote_newer': {
-          tags: ['local-tag4', 'will-be-overwritten'],
+        'http://example.com/modified-local': {
+          tags: ['local-only'],
           meta: {
-            created: lastSyncTimestamp - 12_000,
-            updated: lastSyncTimestamp + 3000, // Older than remote
-            title: 'Both Exist, Remote Newer Title - Local Version',
+            created: now - 50_000,
+            updated: now - 40_000,
+            title: 'Local Modified',
           },
         },
-
-        // Scenario 7: Both exist, Same update time (local meta wins due to 'merge' tie-breaking, remote tags win)
-        'http://example.com/both_exist_same_time': {
-          tags: ['local-tag5'],
+        'http://example.com/unmodified': {
+          tags: ['stable'],
           meta: {
-            created: lastSyncTimestamp - 13_000,
-            updated: lastSyncTimestamp + 7000,
-            title: 'Both Exist, Same Time - Local Title',
-            customField: 'local custom value',
+            created: now - 60_000,
+            updated: now - 60_000,
+            title: 'Unmodified Item',
           },
         },
+      }
+      await bookmarkStorage.overwriteBookmarks(initialLocalData)
 
-        // Scenario 8: Only local, created after lastSync
-        'http://example.com/only_local_new': {
-          tags: ['new-local-tag'],
-          meta: {
-            created: lastSyncTimestamp + 1000,
-            updated: lastSyncTimestamp + 1000,
-            title: 'New Local Item',
-          },
-        },
-        // Scenario 9: Local updated, remote not changed since last sync
-        'http://example.com/local_updated_remote_stale': {
-          tags: ['local-updated-tag'],
-          meta: {
-            created: lastSyncTimestamp - 5000,
-            updated: lastSyncTimestamp + 2000, // Updated after last sync
-            title: 'Local Updated, Remote Stale',
-          },
+      // Set lastDataChangeTimestamp in service config
+      const lastSyncTime = now - 45_000
+      serviceConfigWithStrategy = {
+        ...serviceConfigWithStrategy,
+        lastDataChangeTimestamp: lastSyncTime,
+        mergeStrategy: {
+          meta: 'remote',
+          tags: 'union',
+          defaultDate: DEFAULT_DATE,
         },
       }
-      await bookmarkStorage.overwriteBookmarks(initialLocalData)
-      // Simulate local deletions
-      await bookmarkStorage.deleteBookmark(
-        'http://example.com/local_del_remote_exists_newer'
-      )
-      await bookmarkStorage.deleteBookmark(
-        'http://example.com/local_del_remote_exists_older'
-      )
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
 
-      // --- Remote Data Setup ---
+      // Setup remote data with changes after lastSyncTimestamp
       const remoteData: BookmarksData = {
-        // Corresponds to Scenario 1
-        'http://example.com/local_del_remote_exists_newer': {
-          tags: ['remote-tag1', 'remote-specific1'],
+        'http://example.com/modified-both': {
+          tags: ['remote-tag', 'shared-tag'],
           meta: {
-            created: lastSyncTimestamp - 18_000,
-            updated: lastSyncTimestamp + 8000, // Newer than lastSync
-            title: 'Local Deleted, Remote Exists Newer',
-            description: 'Remote description for newer',
+            created: now - 50_000,
+            updated: now - 35_000, // Modified after lastSyncTime
+            title: 'Remote Updated Title',
           },
         },
-
-        // Corresponds to Scenario 2
-        'http://example.com/local_del_remote_exists_older': {
-          tags: ['remote-tag2'],
+        'http://example.com/modified-local': {
+          tags: ['local-only'],
           meta: {
-            created: lastSyncTimestamp - 19_000,
-            updated: lastSyncTimestamp - 2000, // Older than lastSync
-            title: 'Local Deleted, Remote Exists Older',
+            created: now - 50_000, // updated earlier than created
+            updated: now - 60_000, // Not modified after lastSyncTime, staled
+            title: 'Local Modified',
           },
         },
-
-        // Corresponds to Scenario 3 (deleted in remote)
-        // 'http://example.com/remote_del_local_exists_newer' -> deleted remotely
-
-        // Corresponds to Scenario 4 (deleted in remote)
-        // 'http://example.com/remote_del_local_exists_older' -> deleted remotely
-
-        // Corresponds to Scenario 5
-        'http://example.com/both_exist_local_newer': {
-          tags: ['remote-tag3', 'remote-specific2'], // Remote tags will win
+        'http://example.com/unmodified': {
+          tags: ['stable'],
           meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 2000, // Older than local
-            title: 'Both Exist, Local Newer Title - Remote Version',
-            description: 'Remote description for local newer',
+            created: now - 60_000,
+            updated: now - 60_000,
+            title: 'Unmodified Item',
           },
         },
-
-        // Corresponds to Scenario 6
-        'http://example.com/both_exist_remote_newer': {
-          tags: ['remote-tag4', 'remote-wins'], // Remote tags will win
+        'http://example.com/new-remote': {
+          tags: ['remote-new'],
           meta: {
-            created: lastSyncTimestamp - 12_000,
-            updated: lastSyncTimestamp + 9000, // Newer than local
-            title: 'Both Exist, Remote Newer Title - Remote Version',
-            remoteField: 'remote specific value',
+            created: now - 30_000,
+            updated: now - 30_000,
+            title: 'New Remote Item',
           },
         },
+      }
 
-        // Corresponds to Scenario 7
-        'http://example.com/both_exist_same_time': {
-          tags: ['remote-tag5', 'remote-always'], // Remote tags will win
-          meta: {
-            created: lastSyncTimestamp - 13_000,
-            updated: lastSyncTimestamp + 7000, // Same as local
-            title: 'Both Exist, Same Time - Remote Title',
-            anotherCustomField: 'remote custom value 2',
-          },
-        },
-
-        // Scenario 10: Only remote, created after lastSync
-        'http://example.com/only_remote_new': {
-          tags: ['new-remote-tag'],
-          meta: {
-            created: lastSyncTimestamp + 1500,
-            updated: lastSyncTimestamp + 1500,
-            title: 'New Remote Item',
-          },
-        },
-        // Corresponds to Scenario 9 (remote not changed)
-        'http://example.com/local_updated_remote_stale': {
-          tags: ['stale-remote-tag'],
-          meta: {
-            created: lastSyncTimestamp - 5000,
-            updated: lastSyncTimestamp - 3000, // Not updated since last sync
-            title: 'Local Updated, Remote Stale - Remote Version',
-          },
-        },
-      }
+      // Re-initialize syncManager with new settings
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
 
+      // Mock adapter methods
       const remoteMeta: SyncMetadata = {
-        version: 'remote-v-multi-del-update',
-        timestamp: now - 100, // Remote is slightly behind current time but ahead of some items
+        version: 'remote-v2',
+        timestamp: now - 1000,
       }
-
       vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
         remoteMeta
       )
@@ -2762,12 +2976,13 @@ describe('SyncManager', () => {
         remoteMeta,
       })
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-v-multi-del-update',
+        version: 'new-remote-version',
         timestamp: now,
       })
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
       const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
+      // Setup event handlers
       const statusChangeHandler = vi.fn()
       const syncSuccessHandler = vi.fn()
       const syncEndHandler = vi.fn()
@@ -2796,148 +3011,40 @@ describe('SyncManager', () => {
         lastSyncTime: expect.any(Number),
       })
 
-      // --- Expected Merged Data ---
+      // Expected merged data
       const expectedMergedData: BookmarksData = {
-        // Scenario 1: Local deleted, Remote exists & newer. Remote wins, item restored.
-        'http://example.com/local_del_remote_exists_newer': {
-          tags: remoteData['http://example.com/local_del_remote_exists_newer']
-            .tags, // remote tags
-          meta: {
-            ...remoteData['http://example.com/local_del_remote_exists_newer']
-              .meta,
-          },
-        },
-
-        // Scenario 2: Local deleted, Remote exists & older. Item deleted.
-        // Remote is older, Local is deleted, so it's gone.
-
-        // Scenario 3: Remote deleted, Local exists & newer. Local wins, item kept.
-        'http://example.com/remote_del_local_exists_newer': {
-          // Tags should be from remote if it existed, but it's deleted. So local tags remain.
-          // However, with 'tags: remote', if the item was on remote before and now is not, it implies remote wants it deleted.
-          // This is tricky. The current merge logic might keep it if local is newer.
-          // Let's assume for 'merge' meta, if remote is deleted, local 'newer' meta keeps it.
-          // For 'tags: remote', if the item is kept due to local meta, what tags does it get?
-          // If remote doesn't have the item, it can't provide tags. So local tags should persist.
-          // This needs clarification in merge logic for deleted items + 'tags: remote'.
-          // For now, assuming local tags persist if item is kept due to local meta and remote deletion.
-          // Based on `resolveBookmarkMerge` and `resolveTags`, if remote is undefined, local tags are used.
-          tags: initialLocalData[
-            'http://example.com/remote_del_local_exists_newer'
-          ].tags,
-          meta: {
-            ...initialLocalData[
-              'http://example.com/remote_del_local_exists_newer'
-            ].meta,
-          },
-        },
-
-        // Scenario 4: Remote deleted, Local exists & older. Item deleted.
-        // Local is older, remote is deleted, so it's gone.
-
-        // Scenario 5: Both exist, Local newer. Meta merged (local wins conflicts), Tags from remote.
-        'http://example.com/both_exist_local_newer': {
-          tags: remoteData['http://example.com/both_exist_local_newer'].tags, // remote tags
-          meta: {
-            // Merged: local title, local description, remote created (if different and chosen by merge), local updated
-            created:
-              initialLocalData['http://example.com/both_exist_local_newer'].meta
-                .created, // Assuming created is not changed by remote if local is newer
-            updated:
-              initialLocalData['http://example.com/both_exist_local_newer'].meta
-                .updated,
-            title:
-              initialLocalData['http://example.com/both_exist_local_newer'].meta
-                .title,
-            description:
-              initialLocalData['http://example.com/both_exist_local_newer'].meta
-                .description, // Local has it, remote doesn't
-          },
-        },
-
-        // Scenario 6: Both exist, Remote newer. Meta merged (remote wins conflicts), Tags from remote.
-        'http://example.com/both_exist_remote_newer': {
-          tags: remoteData['http://example.com/both_exist_remote_newer'].tags, // remote tags
-          meta: {
-            // Merged: remote title, remote remoteField, local created (if different), remote updated
-            created:
-              initialLocalData['http://example.com/both_exist_remote_newer']
-                .meta.created,
-            updated:
-              remoteData['http://example.com/both_exist_remote_newer'].meta
-                .updated,
-            title:
-              remoteData['http://example.com/both_exist_remote_newer'].meta
-                .title,
-            remoteField:
-              remoteData['http://example.com/both_exist_remote_newer'].meta
-                .remoteField, // Remote has it
-          },
-        },
-
-        // Scenario 7: Both exist, Same update time. Meta merged (local wins tie-break), Tags from remote.
-        'http://example.com/both_exist_same_time': {
-          tags: remoteData['http://example.com/both_exist_same_time'].tags, // remote tags
-          meta: {
-            created:
-              initialLocalData['http://example.com/both_exist_same_time'].meta
-                .created,
-            updated:
-              initialLocalData['http://example.com/both_exist_same_time'].meta
-                .updated, // Same, local wins tie-break for whole meta object
-            title:
-              initialLocalData['http://example.com/both_exist_same_time'].meta
-                .title, // Local title
-            customField:
-              initialLocalData['http://example.com/both_exist_same_time'].meta
-                .customField, // Local field
-            anotherCustomField:
-              remoteData['http://example.com/both_exist_same_time'].meta
-                .anotherCustomField, // Remote field
-          },
-        },
-
-        // Scenario 8: Only local, new. Kept.
-        'http://example.com/only_local_new': {
-          tags: initialLocalData['http://example.com/only_local_new'].tags,
-          meta: initialLocalData['http://example.com/only_local_new'].meta,
-        },
-
-        // Scenario 9: Local updated, remote stale. Local wins for meta and tags (staled data will be ignored).
-        'http://example.com/local_updated_remote_stale': {
-          tags: initialLocalData[
-            'http://example.com/local_updated_remote_stale'
-          ].tags, // Remote tags win
-          meta: {
-            // Meta from local as it's newer
-            ...initialLocalData['http://example.com/local_updated_remote_stale']
-              .meta,
-          },
-        },
-
-        // Scenario 10: Only remote, new. Added.
-        'http://example.com/only_remote_new': {
-          tags: remoteData['http://example.com/only_remote_new'].tags,
-          meta: remoteData['http://example.com/only_remote_new'].meta,
+        'http://example.com/modified-both': {
+          tags: ['local-tag', 'shared-tag', 'remote-tag'], // Union of tags
+          meta: remoteData['http://example.com/modified-both'].meta, // Remote meta wins
         },
+        'http://example.com/modified-local':
+          initialLocalData['http://example.com/modified-local'], // Local changes kept
+        'http://example.com/unmodified':
+          initialLocalData['http://example.com/unmodified'], // Unmodified data kept
+        'http://example.com/new-remote':
+          remoteData['http://example.com/new-remote'], // New remote item added
       }
 
+      expectedMergedData['http://example.com/modified-local'].meta.created =
+        remoteData['http://example.com/modified-local'].meta.updated // updated earlier than created
+
       const expectedRemoteData = structuredClone(expectedMergedData)
 
-      // Add updated3 for merged items that are not deleted
-      const exceptions = [
-        // 'http://example.com/local_del_remote_exists_newer',
-        'http://example.com/remote_del_local_exists_newer',
-        'http://example.com/local_updated_remote_stale',
-        'http://example.com/only_local_new',
-        // 'http://example.com/only_remote_new',
+      // Add updated3 for merged items
+      const exceptionsForLocal = [
+        // local
+        'http://example.com/unmodified',
+        // 'http://example.com/modified-local',
       ]
-      setUpdated3ForBookmarks(expectedMergedData, currentSyncTime, exceptions)
+      setUpdated3ForBookmarks(
+        expectedMergedData,
+        currentSyncTime,
+        exceptionsForLocal
+      )
 
       const exceptionsForRemote = [
-        'http://example.com/only_remote_new',
-        'http://example.com/both_exist_remote_newer',
-        'http://example.com/local_del_remote_exists_newer',
+        'http://example.com/unmodified',
+        'http://example.com/new-remote',
       ]
       setUpdated3ForBookmarks(
         expectedRemoteData,
@@ -2945,23 +3052,15 @@ describe('SyncManager', () => {
         exceptionsForRemote
       )
 
-      // Manually remove the item that should be deleted (Scenario 4)
-      delete expectedMergedData[
-        'http://example.com/remote_del_local_exists_older'
-      ]
-
       // Check that upload was called with the correctly merged data
-      // Need to stringify then parse because of potential undefined fields from merge that JSON.stringify removes
-      const uploadedData = JSON.parse(uploadSpy.mock.calls[0][0])
-      expect(uploadedData).toEqual(
-        JSON.parse(
-          convertToUploadData(
-            expectedRemoteData,
-            undefined,
-            lastSyncTimestamp,
-            currentSyncTime
-          )
-        )
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(
+          expectedRemoteData,
+          undefined,
+          lastSyncTime,
+          currentSyncTime
+        ),
+        remoteMeta
       )
 
       // Check that bookmarkStorage was updated with the merged data
@@ -2982,103 +3081,26 @@ describe('SyncManager', () => {
       // Verify final state of bookmarkStorage
       const finalLocalData = await bookmarkStorage.getBookmarksData()
       expect(finalLocalData).toEqual(expectedMergedData)
+    })
 
-      // Specific assertions for key scenarios
-      // Scenario 1: Restored from remote
-      expect(
-        finalLocalData['http://example.com/local_del_remote_exists_newer']
-      ).toBeDefined()
-      expect(
-        finalLocalData['http://example.com/local_del_remote_exists_newer'].meta
-          .title
-      ).toBe('Local Deleted, Remote Exists Newer')
-      expect(
-        finalLocalData['http://example.com/local_del_remote_exists_newer'].tags
-      ).toEqual(['remote-tag1', 'remote-specific1'])
+    it('should handle sync with lastDataChangeTimestamp and newer merge strategy', async () => {
+      // Arrange: Setup lastSyncTimestamp
+      const lastSyncTimestamp = now - 100_000 // Last sync was 100 seconds ago
 
-      // Scenario 2: Restored from remote (older data)
-      expect(
-        finalLocalData['http://example.com/local_del_remote_exists_older']
-      ).toBeUndefined()
-
-      // Scenario 3: Kept from local (remote deleted, local newer)
-      expect(
-        finalLocalData['http://example.com/remote_del_local_exists_newer']
-      ).toBeDefined()
-      expect(
-        finalLocalData['http://example.com/remote_del_local_exists_newer'].meta
-          .title
-      ).toBe('Remote Deleted, Local Newer')
-      expect(
-        finalLocalData['http://example.com/remote_del_local_exists_newer'].tags
-      ).toEqual(['local-tag1', 'shared-tag']) // Local tags kept as remote item is gone
-
-      // Scenario 4: Deleted (remote deleted, local older)
-      expect(
-        finalLocalData['http://example.com/remote_del_local_exists_older']
-      ).toBeUndefined()
-
-      // Scenario 5: Local newer meta, remote tags
-      expect(
-        finalLocalData['http://example.com/both_exist_local_newer'].meta.title
-      ).toBe('Both Exist, Local Newer Title')
-      expect(
-        finalLocalData['http://example.com/both_exist_local_newer'].meta
-          .description
-      ).toBe('Local specific description')
-      expect(
-        finalLocalData['http://example.com/both_exist_local_newer'].tags
-      ).toEqual(['remote-tag3', 'remote-specific2'])
-
-      // Scenario 6: Remote newer meta, remote tags
-      expect(
-        finalLocalData['http://example.com/both_exist_remote_newer'].meta.title
-      ).toBe('Both Exist, Remote Newer Title - Remote Version')
-      expect(
-        finalLocalData['http://example.com/both_exist_remote_newer'].meta
-          .remoteField
-      ).toBe('remote specific value')
-      expect(
-        finalLocalData['http://example.com/both_exist_remote_newer'].tags
-      ).toEqual(['remote-tag4', 'remote-wins'])
-
-      // Scenario 7: Same time, local meta tie-break, remote tags
-      expect(
-        finalLocalData['http://example.com/both_exist_same_time'].meta.title
-      ).toBe('Both Exist, Same Time - Local Title')
-      expect(
-        finalLocalData['http://example.com/both_exist_same_time'].meta
-          .customField
-      ).toBe('local custom value')
-      expect(
-        finalLocalData['http://example.com/both_exist_same_time'].tags
-      ).toEqual(['remote-tag5', 'remote-always'])
-
-      // Scenario 9: Local updated meta, remote stale tags
-      expect(
-        finalLocalData['http://example.com/local_updated_remote_stale'].meta
-          .title
-      ).toBe('Local Updated, Remote Stale')
-      expect(
-        finalLocalData['http://example.com/local_updated_remote_stale'].tags
-      ).toEqual(['local-updated-tag'])
-    })
-
-    it('should handle deleted bookmarks with lastDataChangeTimestamp, meta:merge, tags:remote', async () => {
-      // Arrange
-      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
-      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
-      serviceConfigWithStrategy.mergeStrategy = {
-        meta: 'merge',
-        tags: 'remote',
-        defaultDate: DEFAULT_DATE,
-      }
+      // Configure merge strategy to use newer for both meta and tags
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'newer',
+        tags: 'newer',
+        defaultDate: DEFAULT_DATE,
+      }
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
 
       syncConfigStore.set({
         syncServices: [serviceConfigWithStrategy],
         activeSyncServiceId: serviceConfigWithStrategy.id,
       })
 
+      // Re-initialize syncManager to pick up new settings
       syncManager.destroy()
       syncManager = new SyncManager()
       // @ts-expect-error - access privte method to get the adapter
@@ -3086,170 +3108,69 @@ describe('SyncManager', () => {
         serviceConfigWithStrategy
       )
 
-      // Initial local data with deleted and non-deleted items
+      // Setup initial local data with various timestamps
       const initialLocalData: BookmarksData = {
-        // Scenario 1: Local deleted (newer), Remote not deleted
-        'http://example.com/local_deleted_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
-          meta: {
-            created: lastSyncTimestamp - 15_000,
-            updated: lastSyncTimestamp + 5000, // Newer than lastSync
-            title: 'Local Deleted Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 5000,
-            actionType: 'DELETE',
-          },
-        },
-
-        // Scenario 2: Local deleted (older), Remote not deleted
-        'http://example.com/local_deleted_older': {
-          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
-          meta: {
-            created: lastSyncTimestamp - 16_000,
-            updated: lastSyncTimestamp - 4000, // Older than lastSync
-            title: 'Local Deleted Older',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp - 4000,
-            actionType: 'DELETE',
-          },
-        },
-
-        // Scenario 3: Local not deleted, Remote deleted (newer)
-        'http://example.com/remote_deleted_newer': {
-          tags: ['local-tag'],
-          meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp - 2000, // Older than remote
-            title: 'Local Not Deleted',
-          },
-        },
-
-        // Scenario 4: Local not deleted, Remote deleted (older)
-        'http://example.com/remote_deleted_older': {
-          tags: ['local-tag'],
+        'http://example.com/unchanged': {
+          tags: ['old-tag'],
           meta: {
-            created: lastSyncTimestamp - 12_000,
-            updated: lastSyncTimestamp + 3000, // Newer than remote
-            title: 'Local Not Deleted Newer',
+            created: lastSyncTimestamp - 50_000,
+            updated: lastSyncTimestamp - 40_000, // Not modified since last sync
+            title: 'Unchanged Item',
           },
         },
-
-        // Scenario 5: Both deleted, Local newer
-        'http://example.com/both_deleted_local_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+        'http://example.com/local-modified': {
+          tags: ['local-new-tag'],
           meta: {
-            created: lastSyncTimestamp - 13_000,
-            updated: lastSyncTimestamp + 7000, // Newer than remote
-            title: 'Both Deleted - Local Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 7000,
-            actionType: 'DELETE',
+            created: lastSyncTimestamp - 30_000,
+            updated: lastSyncTimestamp + 5000, // Modified after last sync
+            title: 'Local Modified Item',
           },
         },
-
-        // Scenario 6: Both deleted, Remote newer
-        'http://example.com/both_deleted_remote_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+        'http://example.com/conflict': {
+          tags: ['local-conflict-tag'],
           meta: {
-            created: lastSyncTimestamp - 14_000,
-            updated: lastSyncTimestamp + 2000, // Older than remote
-            title: 'Both Deleted - Local Older',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 2000,
-            actionType: 'DELETE',
+            created: lastSyncTimestamp - 20_000,
+            updated: lastSyncTimestamp + 15_000, // Modified after last sync
+            title: 'Local Conflict Item',
           },
         },
       }
       await bookmarkStorage.overwriteBookmarks(initialLocalData)
 
-      // Remote data setup
+      // Setup remote data
       const remoteData: BookmarksData = {
-        // Scenario 1: Local deleted (newer), Remote not deleted
-        'http://example.com/local_deleted_newer': {
-          tags: ['remote-tag'],
-          meta: {
-            created: lastSyncTimestamp - 15_000,
-            updated: lastSyncTimestamp + 3000, // Older than local
-            title: 'Remote Not Deleted',
-          },
-        },
-
-        // Scenario 2: Local deleted (older), Remote not deleted
-        'http://example.com/local_deleted_older': {
-          tags: ['remote-tag'],
-          meta: {
-            created: lastSyncTimestamp - 16_000,
-            updated: lastSyncTimestamp + 6000, // Newer than local
-            title: 'Remote Not Deleted Newer',
-          },
-        },
-
-        // Scenario 3: Local not deleted, Remote deleted (newer)
-        'http://example.com/remote_deleted_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
-          meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 8000, // Newer than local
-            title: 'Remote Deleted Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 8000,
-            actionType: 'DELETE',
-          },
-        },
-
-        // Scenario 4: Local not deleted, Remote deleted (older)
-        'http://example.com/remote_deleted_older': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+        'http://example.com/unchanged': {
+          tags: ['old-tag'],
           meta: {
-            created: lastSyncTimestamp - 12_000,
-            updated: lastSyncTimestamp - 1000, // Older than local, staled
-            title: 'Remote Deleted Older',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp - 1000,
-            actionType: 'DELETE',
+            created: lastSyncTimestamp - 50_000,
+            updated: lastSyncTimestamp - 40_000, // Same as local
+            title: 'Unchanged Item',
           },
         },
-
-        // Scenario 5: Both deleted, Local newer
-        'http://example.com/both_deleted_local_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+        'http://example.com/remote-modified': {
+          tags: ['remote-new-tag'],
           meta: {
-            created: lastSyncTimestamp - 13_000,
-            updated: lastSyncTimestamp + 4000, // Older than local
-            title: 'Both Deleted - Remote Older',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 4000,
-            actionType: 'DELETE',
+            created: lastSyncTimestamp - 25_000,
+            updated: lastSyncTimestamp + 10_000, // Modified after last sync
+            title: 'Remote Modified Item',
           },
         },
-
-        // Scenario 6: Both deleted, Remote newer
-        'http://example.com/both_deleted_remote_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+        'http://example.com/conflict': {
+          tags: ['remote-conflict-tag'],
           meta: {
-            created: lastSyncTimestamp - 14_000,
-            updated: lastSyncTimestamp + 9000, // Newer than local
-            title: 'Both Deleted - Remote Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 9000,
-            actionType: 'DELETE',
+            created: lastSyncTimestamp - 20_000,
+            updated: lastSyncTimestamp + 20_000, // Modified after last sync, newer than local
+            title: 'Remote Conflict Item',
           },
         },
       }
 
       const remoteMeta: SyncMetadata = {
-        version: 'remote-v-deletion-test',
-        timestamp: now - 500,
+        version: 'remote-v2',
+        timestamp: now - 1000,
       }
 
+      // Mock adapter methods
       vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
         remoteMeta
       )
@@ -3258,12 +3179,13 @@ describe('SyncManager', () => {
         remoteMeta,
       })
       const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
-        version: 'new-remote-v-deletion-test',
+        version: 'new-remote-version',
         timestamp: now,
       })
       const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
-      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks') // Spy on the actual mergeBookmarks function
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
+      // Setup event handlers
       const statusChangeHandler = vi.fn()
       const syncSuccessHandler = vi.fn()
       const syncEndHandler = vi.fn()
@@ -3278,6 +3200,10 @@ describe('SyncManager', () => {
       // Assert
       expect(result).toBe(true)
 
+      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
+      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
+      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+
       // Check status updates
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
       expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
@@ -3288,90 +3214,25 @@ describe('SyncManager', () => {
         lastSyncTime: expect.any(Number),
       })
 
-      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
-      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
-      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
-
-      // Expected merged data after sync
+      // Expected merged data based on newer strategy
       const expectedMergedData: BookmarksData = {
-        // Scenario 1: Local deleted newer wins over remote not deleted
-        'http://example.com/local_deleted_newer': {
-          tags: ['remote-tag'], // tags: remote strategy
-          meta: {
-            created: lastSyncTimestamp - 15_000,
-            updated: lastSyncTimestamp + 5000, // Local newer wins
-            title: 'Local Deleted Newer',
-          },
-        },
-
-        // Scenario 2: Remote not deleted newer wins over local deleted older
-        'http://example.com/local_deleted_older': {
-          tags: ['remote-tag'], // tags: remote strategy
-          meta: {
-            created: lastSyncTimestamp - 16_000,
-            updated: lastSyncTimestamp + 6000, // Remote newer wins
-            title: 'Remote Not Deleted Newer',
-          },
-        },
-
-        // Scenario 3: Remote deleted newer wins over local not deleted
-        'http://example.com/remote_deleted_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
-          meta: {
-            created: lastSyncTimestamp - 10_000,
-            updated: lastSyncTimestamp + 8000, // Remote newer wins
-            title: 'Remote Deleted Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 8000,
-            actionType: 'DELETE',
-          },
-        },
-
-        // Scenario 4: Local not deleted newer wins over remote deleted older
-        'http://example.com/remote_deleted_older': {
-          tags: ['local-tag'], // staled will be ignored
-          meta: {
-            created: lastSyncTimestamp - 12_000,
-            updated: lastSyncTimestamp + 3000, // Local newer wins
-            title: 'Local Not Deleted Newer',
-          },
-        },
-
-        // Scenario 5: Both deleted, Local newer wins
-        'http://example.com/both_deleted_local_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
-          meta: {
-            created: lastSyncTimestamp - 13_000,
-            updated: lastSyncTimestamp + 7000, // Local newer wins
-            title: 'Both Deleted - Local Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 7000,
-            actionType: 'DELETE',
-          },
-        },
-
-        // Scenario 6: Both deleted, Remote newer wins
-        'http://example.com/both_deleted_remote_newer': {
-          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
-          meta: {
-            created: lastSyncTimestamp - 14_000,
-            updated: lastSyncTimestamp + 9000, // Remote newer wins
-            title: 'Both Deleted - Remote Newer',
-          },
-          deletedMeta: {
-            deleted: lastSyncTimestamp + 9000,
-            actionType: 'DELETE',
-          },
-        },
+        'http://example.com/unchanged':
+          initialLocalData['http://example.com/unchanged'], // Unchanged
+        'http://example.com/remote-modified':
+          remoteData['http://example.com/remote-modified'], // Remote is new
+        'http://example.com/conflict':
+          remoteData['http://example.com/conflict'], // Remote is newer
+        'http://example.com/local-modified':
+          initialLocalData['http://example.com/local-modified'], // Local is newer
       }
 
       const expectedRemoteData = structuredClone(expectedMergedData)
 
+      // Add updated3 for merged items
       const exceptionsForLocal = [
         // local
-        'http://example.com/remote_deleted_older',
+        'http://example.com/unchanged',
+        'http://example.com/local-modified',
       ]
       setUpdated3ForBookmarks(
         expectedMergedData,
@@ -3380,9 +3241,10 @@ describe('SyncManager', () => {
       )
 
       const exceptionsForRemote = [
-        'http://example.com/local_deleted_older',
-        'http://example.com/remote_deleted_newer',
-        'http://example.com/both_deleted_remote_newer',
+        // remote
+        'http://example.com/unchanged',
+        'http://example.com/conflict',
+        'http://example.com/remote-modified',
       ]
       setUpdated3ForBookmarks(
         expectedRemoteData,
@@ -3419,69 +3281,1389 @@ describe('SyncManager', () => {
       // Verify final state of bookmarkStorage
       const finalLocalData = await bookmarkStorage.getBookmarksData()
       expect(finalLocalData).toEqual(expectedMergedData)
+    })
 
-      // Specific assertions for deletion scenarios
-      // Scenario 1: Local deleted newer wins
-      expect(
-        finalLocalData['http://example.com/local_deleted_newer'].deletedMeta
-      ).toBeUndefined()
-      expect(
-        finalLocalData['http://example.com/local_deleted_newer'].tags
-      ).toEqual(['remote-tag'])
-
-      // Scenario 2: Remote not deleted newer wins
-      expect(
-        finalLocalData['http://example.com/local_deleted_older'].deletedMeta
-      ).toBeUndefined()
-      expect(
-        finalLocalData['http://example.com/local_deleted_older'].tags
-      ).toEqual(['remote-tag'])
+    it('should handle sync with lastDataChangeTimestamp, newer strategy, and updates on both local and remote', async () => {
+      // Arrange
+      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'newer',
+        tags: 'newer',
+        defaultDate: DEFAULT_DATE,
+      }
 
-      // Scenario 3: Remote deleted newer wins
-      expect(
-        finalLocalData['http://example.com/remote_deleted_newer'].deletedMeta
-      ).toBeDefined()
-      expect(
-        finalLocalData['http://example.com/remote_deleted_newer'].tags
-      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
 
-      // Scenario 4: Local not deleted newer wins
-      expect(
-        finalLocalData['http://example.com/remote_deleted_older'].deletedMeta
-      ).toBeUndefined()
-      expect(
-        finalLocalData['http://example.com/remote_deleted_older'].tags
-      ).toEqual(['local-tag'])
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
 
-      // Scenario 5: Both deleted, Local newer wins
-      expect(
-        finalLocalData['http://example.com/both_deleted_local_newer']
-          .deletedMeta
-      ).toBeDefined()
-      expect(
-        finalLocalData['http://example.com/both_deleted_local_newer'].tags
-      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
+      const initialLocalData: BookmarksData = {
+        'http://example.com/nochange': {
+          tags: ['common'],
+          meta: {
+            created: lastSyncTimestamp - 20_000, // before lastSyncTimestamp
+            updated: lastSyncTimestamp - 10_000, // before lastSyncTimestamp
+            title: 'No Change Item',
+          },
+        },
+        'http://example.com/local_newer': {
+          tags: ['local', 'common'],
+          meta: {
+            created: lastSyncTimestamp - 5000,
+            updated: lastSyncTimestamp + 5000, // local is newer
+            title: 'Local Newer Title',
+          },
+        },
+        'http://example.com/remote_newer': {
+          tags: ['remote', 'common'],
+          meta: {
+            created: lastSyncTimestamp - 6000,
+            updated: lastSyncTimestamp + 1000, // remote will be newer
+            title: 'Remote Will Be Newer Title - Local Old',
+          },
+        },
+        'http://example.com/local_only_new': {
+          tags: ['local-new'],
+          meta: {
+            created: lastSyncTimestamp + 1000,
+            updated: lastSyncTimestamp + 2000,
+            title: 'New Local Only Item',
+          },
+        },
+      }
+      await bookmarkStorage.overwriteBookmarks(initialLocalData)
 
-      // Scenario 6: Both deleted, Remote newer wins
-      expect(
-        finalLocalData['http://example.com/both_deleted_remote_newer']
-          .deletedMeta
-      ).toBeDefined()
-      expect(
-        finalLocalData['http://example.com/both_deleted_remote_newer'].tags
-      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
-    })
+      const remoteData: BookmarksData = {
+        'http://example.com/nochange': {
+          tags: ['common'], // Same as local
+          meta: {
+            created: lastSyncTimestamp - 20_000,
+            updated: lastSyncTimestamp - 10_000,
+            title: 'No Change Item',
+          },
+        },
+        'http://example.com/local_newer': {
+          tags: ['remote', 'old-tag'],
+          meta: {
+            created: lastSyncTimestamp - 5000,
+            updated: lastSyncTimestamp + 1000, // older than local
+            title: 'Local Newer Title - Remote Old',
+          },
+        },
+        'http://example.com/remote_newer': {
+          tags: ['remote', 'new-tag'],
+          meta: {
+            created: lastSyncTimestamp - 6000,
+            updated: lastSyncTimestamp + 6000, // newer than local
+            title: 'Remote Newer Title',
+          },
+        },
+        'http://example.com/remote_only_new': {
+          tags: ['remote-new'],
+          meta: {
+            created: lastSyncTimestamp + 3000,
+            updated: lastSyncTimestamp + 4000,
+            title: 'New Remote Only Item',
+          },
+        },
+      }
+      const remoteMeta: SyncMetadata = {
+        version: 'remote-v-newer-test',
+        timestamp: now - 500, // Remote data timestamp, after lastSyncTimestamp
+      }
 
-    describe('when lastSyncTimestamp is present and merge strategy is meta:newer, tags:newer', () => {
-      it('should sync over 200 bookmarks with various changes and meta:newer, tags:newer strategy', async () => {
-        const initialLastSyncTimestamp = now - 200_000
-        const currentSyncTime = now // Simulate current time for sync operation
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
+        remoteMeta
+      )
+      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta,
+      })
+      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
+        version: 'new-remote-v-newer-test',
+        timestamp: now,
+      })
+      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
 
-        const newMergeStrategy: MergeStrategy = {
-          meta: 'newer',
-          tags: 'newer',
-          defaultDate: DEFAULT_DATE,
-        }
+      const statusChangeHandler = vi.fn()
+      const syncSuccessHandler = vi.fn()
+      const syncEndHandler = vi.fn()
+
+      syncManager.on('statusChange', statusChangeHandler)
+      syncManager.on('syncSuccess', syncSuccessHandler)
+      syncManager.on('syncEnd', syncEndHandler)
+
+      // Act
+      const result = await syncManager.sync()
+
+      // Assert
+      expect(result).toBe(true)
+
+      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
+      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
+      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+
+      // Check status updates
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
+      })
+
+      // Construct expected merged data based on 'newer' strategy
+      const expectedMergedData: BookmarksData = {
+        'http://example.com/nochange':
+          initialLocalData['http://example.com/nochange'], // Unchanged
+        'http://example.com/local_newer': {
+          // Local meta is newer, local tags are newer (or union if different)
+          tags: ['local', 'common'], // Based on 'newer' and local being more recent
+          meta: initialLocalData['http://example.com/local_newer'].meta,
+        },
+        'http://example.com/remote_newer': {
+          // Remote meta is newer, remote tags are newer
+          tags: ['remote', 'new-tag'], // Based on 'newer' and remote being more recent
+          meta: remoteData['http://example.com/remote_newer'].meta,
+        },
+        'http://example.com/remote_only_new':
+          remoteData['http://example.com/remote_only_new'], // New remote item
+        'http://example.com/local_only_new':
+          initialLocalData['http://example.com/local_only_new'], // New local item
+      }
+
+      const expectedRemoteData = structuredClone(expectedMergedData)
+
+      // Add updated3 for merged items
+      const exceptionsForLocal = [
+        // local
+        'http://example.com/nochange',
+        'http://example.com/local_newer',
+        'http://example.com/local_only_new',
+      ]
+      setUpdated3ForBookmarks(
+        expectedMergedData,
+        currentSyncTime,
+        exceptionsForLocal
+      )
+
+      const exceptionsForRemote = [
+        // remote
+        'http://example.com/nochange',
+        'http://example.com/remote_newer',
+        'http://example.com/remote_only_new',
+      ]
+      setUpdated3ForBookmarks(
+        expectedRemoteData,
+        currentSyncTime,
+        exceptionsForRemote
+      )
+
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(
+          expectedRemoteData,
+          undefined,
+          lastSyncTimestamp,
+          currentSyncTime
+        ),
+        remoteMeta
+      )
+      expect(saveStoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expectedMergedData }),
+        true
+      )
+
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceId: serviceConfigWithStrategy.id,
+        })
+      )
+      expect(syncEndHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'success' })
+      )
+
+      const finalLocalData = await bookmarkStorage.getBookmarksData()
+      expect(finalLocalData).toEqual(expectedMergedData)
+    })
+
+    it('should handle bookmark deletions and updates with lastDataChangeTimestamp', async () => {
+      // Arrange
+      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'newer',
+        tags: 'newer',
+        defaultDate: DEFAULT_DATE,
+      }
+
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
+
+      // Initial local data with items to be deleted and updated
+      const initialLocalData: BookmarksData = {
+        // 'http://example.com/local_deleted' is deleted in local
+        'http://example.com/remote_deleted': {
+          // This will be deleted in remote
+          tags: ['will-be-deleted'],
+          meta: {
+            created: lastSyncTimestamp - 15_000,
+            updated: lastSyncTimestamp - 5000, // Not updated since last sync
+            title: 'Remote Will Delete This',
+          },
+        },
+        'http://example.com/both_updated': {
+          // Both local and remote updated
+          tags: ['local-new-tag'],
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 5000, // Updated after last sync
+            title: 'Both Updated - Local Version',
+          },
+        },
+        'http://example.com/local_updated': {
+          // Only local updated
+          tags: ['local-updated'],
+          meta: {
+            created: lastSyncTimestamp - 8000,
+            updated: lastSyncTimestamp + 2000, // Updated after last sync
+            title: 'Local Updated Only',
+          },
+        },
+        'http://example.com/remote_updated': {
+          // Only remote will update
+          tags: ['old-tag'],
+          meta: {
+            created: lastSyncTimestamp - 7000,
+            updated: lastSyncTimestamp - 1000, // Not updated since last sync
+            title: 'Remote Will Update This',
+          },
+        },
+      }
+      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+
+      // Remote data with deletions and updates
+      const remoteData: BookmarksData = {
+        'http://example.com/local_deleted': {
+          // Still exists in remote
+          tags: ['to-delete'],
+          meta: {
+            created: lastSyncTimestamp - 20_000,
+            updated: lastSyncTimestamp - 10_000,
+            title: 'Local Deleted Item',
+          },
+        },
+        // 'http://example.com/remote_deleted' is deleted in remote
+        'http://example.com/both_updated': {
+          // Both updated but remote is newer
+          tags: ['remote-new-tag'],
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 8000, // Updated after local update
+            title: 'Both Updated - Remote Version',
+          },
+        },
+        'http://example.com/local_updated': {
+          // Not updated in remote
+          tags: ['not-updated'],
+          meta: {
+            created: lastSyncTimestamp - 8000,
+            updated: lastSyncTimestamp - 2000, // staled
+            title: 'Not Updated in Remote',
+          },
+        },
+        'http://example.com/remote_updated': {
+          // Updated in remote
+          tags: ['new-remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 7000,
+            updated: lastSyncTimestamp + 3000, // Updated after last sync
+            title: 'Remote Updated Version',
+          },
+        },
+      }
+
+      const remoteMeta: SyncMetadata = {
+        version: 'remote-v-deletion-test',
+        timestamp: now - 500,
+      }
+
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
+        remoteMeta
+      )
+      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta,
+      })
+      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
+        version: 'new-remote-v-deletion-test',
+        timestamp: now,
+      })
+      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
+
+      const statusChangeHandler = vi.fn()
+      const syncSuccessHandler = vi.fn()
+      const syncEndHandler = vi.fn()
+
+      syncManager.on('statusChange', statusChangeHandler)
+      syncManager.on('syncSuccess', syncSuccessHandler)
+      syncManager.on('syncEnd', syncEndHandler)
+
+      // Act
+      const result = await syncManager.sync()
+
+      // Assert
+      expect(result).toBe(true)
+
+      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
+      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
+      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+
+      // Check status updates
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
+      })
+
+      // Expected merged data after sync
+      const expectedMergedData: BookmarksData = {
+        // 'http://example.com/local_deleted' should not exist
+        // 'http://example.com/remote_deleted' should not exist
+        'http://example.com/both_updated': {
+          // Remote version wins (newer)
+          tags: ['remote-new-tag'],
+          meta: remoteData['http://example.com/both_updated'].meta,
+        },
+        'http://example.com/local_updated': {
+          // Local version wins (newer)
+          tags: ['local-updated'],
+          meta: initialLocalData['http://example.com/local_updated'].meta,
+        },
+        'http://example.com/remote_updated': {
+          // Remote version wins (newer)
+          tags: ['new-remote-tag'],
+          meta: remoteData['http://example.com/remote_updated'].meta,
+        },
+      }
+
+      const expectedRemoteData = structuredClone(expectedMergedData)
+
+      // Add updated3 for merged items
+      const exceptionsForLocal = [
+        // local
+        'http://example.com/local_updated',
+      ]
+      setUpdated3ForBookmarks(
+        expectedMergedData,
+        currentSyncTime,
+        exceptionsForLocal
+      )
+
+      const exceptionsForRemote = [
+        'http://example.com/both_updated',
+        'http://example.com/remote_updated',
+      ]
+      setUpdated3ForBookmarks(
+        expectedRemoteData,
+        currentSyncTime,
+        exceptionsForRemote
+      )
+
+      // Check that upload was called with the correctly merged data
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(
+          expectedRemoteData,
+          undefined,
+          lastSyncTimestamp,
+          currentSyncTime
+        ),
+        remoteMeta
+      )
+
+      // Check that bookmarkStorage was updated with the merged data
+      expect(saveStoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expectedMergedData }),
+        true
+      )
+
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceId: serviceConfigWithStrategy.id,
+        })
+      )
+      expect(syncEndHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'success' })
+      )
+
+      // Verify final state of bookmarkStorage
+      const finalLocalData = await bookmarkStorage.getBookmarksData()
+      expect(finalLocalData).toEqual(expectedMergedData)
+
+      // Specific assertions for deletion and update scenarios
+      expect(
+        finalLocalData['http://example.com/remote_deleted']
+      ).toBeUndefined()
+      expect(finalLocalData['http://example.com/local_deleted']).toBeUndefined()
+      expect(finalLocalData['http://example.com/both_updated'].meta.title).toBe(
+        'Both Updated - Remote Version'
+      )
+      expect(
+        finalLocalData['http://example.com/local_updated'].meta.title
+      ).toBe('Local Updated Only')
+      expect(
+        finalLocalData['http://example.com/remote_updated'].meta.title
+      ).toBe('Remote Updated Version')
+    })
+
+    it('should handle multiple local/remote deletions and updates with lastDataChangeTimestamp, meta:merge, tags:remote', async () => {
+      // Arrange
+      const lastSyncTimestamp = now - 200_000 // e.g., 200 seconds ago
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'merge', // Meta fields are merged, newer wins for conflicts
+        tags: 'remote', // Tags from remote always win
+        defaultDate: DEFAULT_DATE,
+      }
+
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
+
+      // --- Initial Local Data Setup ---
+      const initialLocalData: BookmarksData = {
+        // Scenario 1: Local delete, Remote exists (and is newer)
+        // 'http://example.com/local_del_remote_exists_newer' -> deleted locally
+
+        // Scenario 2: Local delete, Remote exists (and is older)
+        // 'http://example.com/local_del_remote_exists_older' -> deleted locally
+
+        // Scenario 3: Remote delete, Local exists (and is newer)
+        'http://example.com/remote_del_local_exists_newer': {
+          tags: ['local-tag1', 'shared-tag'],
+          meta: {
+            created: lastSyncTimestamp - 15_000,
+            updated: lastSyncTimestamp + 5000, // Newer than lastSync
+            title: 'Remote Deleted, Local Newer',
+            description: 'Local description',
+          },
+        },
+
+        // Scenario 4: Remote delete, Local exists (and is older)
+        'http://example.com/remote_del_local_exists_older': {
+          tags: ['local-tag2'],
+          meta: {
+            created: lastSyncTimestamp - 16_000,
+            updated: lastSyncTimestamp - 4000, // Older than lastSync
+            title: 'Remote Deleted, Local Older',
+          },
+        },
+
+        // Scenario 5: Both exist, Local newer, Remote has different tags
+        'http://example.com/both_exist_local_newer': {
+          tags: ['local-tag3', 'local-specific'],
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 6000, // Newer than lastSync & remote
+            title: 'Both Exist, Local Newer Title',
+            description: 'Local specific description',
+          },
+        },
+
+        // Scenario 6: Both exist, Remote newer, Local has different tags
+        'http://example.com/both_exist_remote_newer': {
+          tags: ['local-tag4', 'will-be-overwritten'],
+          meta: {
+            created: lastSyncTimestamp - 12_000,
+            updated: lastSyncTimestamp + 3000, // Older than remote
+            title: 'Both Exist, Remote Newer Title - Local Version',
+          },
+        },
+
+        // Scenario 7: Both exist, Same update time (local meta wins due to 'merge' tie-breaking, remote tags win)
+        'http://example.com/both_exist_same_time': {
+          tags: ['local-tag5'],
+          meta: {
+            created: lastSyncTimestamp - 13_000,
+            updated: lastSyncTimestamp + 7000,
+            title: 'Both Exist, Same Time - Local Title',
+            customField: 'local custom value',
+          },
+        },
+
+        // Scenario 8: Only local, created after lastSync
+        'http://example.com/only_local_new': {
+          tags: ['new-local-tag'],
+          meta: {
+            created: lastSyncTimestamp + 1000,
+            updated: lastSyncTimestamp + 1000,
+            title: 'New Local Item',
+          },
+        },
+        // Scenario 9: Local updated, remote not changed since last sync
+        'http://example.com/local_updated_remote_stale': {
+          tags: ['local-updated-tag'],
+          meta: {
+            created: lastSyncTimestamp - 5000,
+            updated: lastSyncTimestamp + 2000, // Updated after last sync
+            title: 'Local Updated, Remote Stale',
+          },
+        },
+      }
+      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+      // Simulate local deletions
+      await bookmarkStorage.deleteBookmark(
+        'http://example.com/local_del_remote_exists_newer'
+      )
+      await bookmarkStorage.deleteBookmark(
+        'http://example.com/local_del_remote_exists_older'
+      )
+
+      // --- Remote Data Setup ---
+      const remoteData: BookmarksData = {
+        // Corresponds to Scenario 1
+        'http://example.com/local_del_remote_exists_newer': {
+          tags: ['remote-tag1', 'remote-specific1'],
+          meta: {
+            created: lastSyncTimestamp - 18_000,
+            updated: lastSyncTimestamp + 8000, // Newer than lastSync
+            title: 'Local Deleted, Remote Exists Newer',
+            description: 'Remote description for newer',
+          },
+        },
+
+        // Corresponds to Scenario 2
+        'http://example.com/local_del_remote_exists_older': {
+          tags: ['remote-tag2'],
+          meta: {
+            created: lastSyncTimestamp - 19_000,
+            updated: lastSyncTimestamp - 2000, // Older than lastSync
+            title: 'Local Deleted, Remote Exists Older',
+          },
+        },
+
+        // Corresponds to Scenario 3 (deleted in remote)
+        // 'http://example.com/remote_del_local_exists_newer' -> deleted remotely
+
+        // Corresponds to Scenario 4 (deleted in remote)
+        // 'http://example.com/remote_del_local_exists_older' -> deleted remotely
+
+        // Corresponds to Scenario 5
+        'http://example.com/both_exist_local_newer': {
+          tags: ['remote-tag3', 'remote-specific2'], // Remote tags will win
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 2000, // Older than local
+            title: 'Both Exist, Local Newer Title - Remote Version',
+            description: 'Remote description for local newer',
+          },
+        },
+
+        // Corresponds to Scenario 6
+        'http://example.com/both_exist_remote_newer': {
+          tags: ['remote-tag4', 'remote-wins'], // Remote tags will win
+          meta: {
+            created: lastSyncTimestamp - 12_000,
+            updated: lastSyncTimestamp + 9000, // Newer than local
+            title: 'Both Exist, Remote Newer Title - Remote Version',
+            remoteField: 'remote specific value',
+          },
+        },
+
+        // Corresponds to Scenario 7
+        'http://example.com/both_exist_same_time': {
+          tags: ['remote-tag5', 'remote-always'], // Remote tags will win
+          meta: {
+            created: lastSyncTimestamp - 13_000,
+            updated: lastSyncTimestamp + 7000, // Same as local
+            title: 'Both Exist, Same Time - Remote Title',
+            anotherCustomField: 'remote custom value 2',
+          },
+        },
+
+        // Scenario 10: Only remote, created after lastSync
+        'http://example.com/only_remote_new': {
+          tags: ['new-remote-tag'],
+          meta: {
+            created: lastSyncTimestamp + 1500,
+            updated: lastSyncTimestamp + 1500,
+            title: 'New Remote Item',
+          },
+        },
+        // Corresponds to Scenario 9 (remote not changed)
+        'http://example.com/local_updated_remote_stale': {
+          tags: ['stale-remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 5000,
+            updated: lastSyncTimestamp - 3000, // Not updated since last sync
+            title: 'Local Updated, Remote Stale - Remote Version',
+          },
+        },
+      }
+
+      const remoteMeta: SyncMetadata = {
+        version: 'remote-v-multi-del-update',
+        timestamp: now - 100, // Remote is slightly behind current time but ahead of some items
+      }
+
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
+        remoteMeta
+      )
+      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta,
+      })
+      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
+        version: 'new-remote-v-multi-del-update',
+        timestamp: now,
+      })
+      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks')
+
+      const statusChangeHandler = vi.fn()
+      const syncSuccessHandler = vi.fn()
+      const syncEndHandler = vi.fn()
+
+      syncManager.on('statusChange', statusChangeHandler)
+      syncManager.on('syncSuccess', syncSuccessHandler)
+      syncManager.on('syncEnd', syncEndHandler)
+
+      // Act
+      const result = await syncManager.sync()
+
+      // Assert
+      expect(result).toBe(true)
+
+      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
+      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
+      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+
+      // Check status updates
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
+      })
+
+      // --- Expected Merged Data ---
+      const expectedMergedData: BookmarksData = {
+        // Scenario 1: Local deleted, Remote exists & newer. Remote wins, item restored.
+        'http://example.com/local_del_remote_exists_newer': {
+          tags: remoteData['http://example.com/local_del_remote_exists_newer']
+            .tags, // remote tags
+          meta: {
+            ...remoteData['http://example.com/local_del_remote_exists_newer']
+              .meta,
+          },
+        },
+
+        // Scenario 2: Local deleted, Remote exists & older. Item deleted.
+        // Remote is older, Local is deleted, so it's gone.
+
+        // Scenario 3: Remote deleted, Local exists & newer. Local wins, item kept.
+        'http://example.com/remote_del_local_exists_newer': {
+          // Tags should be from remote if it existed, but it's deleted. So local tags remain.
+          // However, with 'tags: remote', if the item was on remote before and now is not, it implies remote wants it deleted.
+          // This is tricky. The current merge logic might keep it if local is newer.
+          // Let's assume for 'merge' meta, if remote is deleted, local 'newer' meta keeps it.
+          // For 'tags: remote', if the item is kept due to local meta, what tags does it get?
+          // If remote doesn't have the item, it can't provide tags. So local tags should persist.
+          // This needs clarification in merge logic for deleted items + 'tags: remote'.
+          // For now, assuming local tags persist if item is kept due to local meta and remote deletion.
+          // Based on `resolveBookmarkMerge` and `resolveTags`, if remote is undefined, local tags are used.
+          tags: initialLocalData[
+            'http://example.com/remote_del_local_exists_newer'
+          ].tags,
+          meta: {
+            ...initialLocalData[
+              'http://example.com/remote_del_local_exists_newer'
+            ].meta,
+          },
+        },
+
+        // Scenario 4: Remote deleted, Local exists & older. Item deleted.
+        // Local is older, remote is deleted, so it's gone.
+
+        // Scenario 5: Both exist, Local newer. Meta merged (local wins conflicts), Tags from remote.
+        'http://example.com/both_exist_local_newer': {
+          tags: remoteData['http://example.com/both_exist_local_newer'].tags, // remote tags
+          meta: {
+            // Merged: local title, local description, remote created (if different and chosen by merge), local updated
+            created:
+              initialLocalData['http://example.com/both_exist_local_newer'].meta
+                .created, // Assuming created is not changed by remote if local is newer
+            updated:
+              initialLocalData['http://example.com/both_exist_local_newer'].meta
+                .updated,
+            title:
+              initialLocalData['http://example.com/both_exist_local_newer'].meta
+                .title,
+            description:
+              initialLocalData['http://example.com/both_exist_local_newer'].meta
+                .description, // Local has it, remote doesn't
+          },
+        },
+
+        // Scenario 6: Both exist, Remote newer. Meta merged (remote wins conflicts), Tags from remote.
+        'http://example.com/both_exist_remote_newer': {
+          tags: remoteData['http://example.com/both_exist_remote_newer'].tags, // remote tags
+          meta: {
+            // Merged: remote title, remote remoteField, local created (if different), remote updated
+            created:
+              initialLocalData['http://example.com/both_exist_remote_newer']
+                .meta.created,
+            updated:
+              remoteData['http://example.com/both_exist_remote_newer'].meta
+                .updated,
+            title:
+              remoteData['http://example.com/both_exist_remote_newer'].meta
+                .title,
+            remoteField:
+              remoteData['http://example.com/both_exist_remote_newer'].meta
+                .remoteField, // Remote has it
+          },
+        },
+
+        // Scenario 7: Both exist, Same update time. Meta merged (local wins tie-break), Tags from remote.
+        'http://example.com/both_exist_same_time': {
+          tags: remoteData['http://example.com/both_exist_same_time'].tags, // remote tags
+          meta: {
+            created:
+              initialLocalData['http://example.com/both_exist_same_time'].meta
+                .created,
+            updated:
+              initialLocalData['http://example.com/both_exist_same_time'].meta
+                .updated, // Same, local wins tie-break for whole meta object
+            title:
+              initialLocalData['http://example.com/both_exist_same_time'].meta
+                .title, // Local title
+            customField:
+              initialLocalData['http://example.com/both_exist_same_time'].meta
+                .customField, // Local field
+            anotherCustomField:
+              remoteData['http://example.com/both_exist_same_time'].meta
+                .anotherCustomField, // Remote field
+          },
+        },
+
+        // Scenario 8: Only local, new. Kept.
+        'http://example.com/only_local_new': {
+          tags: initialLocalData['http://example.com/only_local_new'].tags,
+          meta: initialLocalData['http://example.com/only_local_new'].meta,
+        },
+
+        // Scenario 9: Local updated, remote stale. Local wins for meta and tags (staled data will be ignored).
+        'http://example.com/local_updated_remote_stale': {
+          tags: initialLocalData[
+            'http://example.com/local_updated_remote_stale'
+          ].tags, // Remote tags win
+          meta: {
+            // Meta from local as it's newer
+            ...initialLocalData['http://example.com/local_updated_remote_stale']
+              .meta,
+          },
+        },
+
+        // Scenario 10: Only remote, new. Added.
+        'http://example.com/only_remote_new': {
+          tags: remoteData['http://example.com/only_remote_new'].tags,
+          meta: remoteData['http://example.com/only_remote_new'].meta,
+        },
+      }
+
+      const expectedRemoteData = structuredClone(expectedMergedData)
+
+      // Add updated3 for merged items that are not deleted
+      const exceptions = [
+        // 'http://example.com/local_del_remote_exists_newer',
+        'http://example.com/remote_del_local_exists_newer',
+        'http://example.com/local_updated_remote_stale',
+        'http://example.com/only_local_new',
+        // 'http://example.com/only_remote_new',
+      ]
+      setUpdated3ForBookmarks(expectedMergedData, currentSyncTime, exceptions)
+
+      const exceptionsForRemote = [
+        'http://example.com/only_remote_new',
+        'http://example.com/both_exist_remote_newer',
+        'http://example.com/local_del_remote_exists_newer',
+      ]
+      setUpdated3ForBookmarks(
+        expectedRemoteData,
+        currentSyncTime,
+        exceptionsForRemote
+      )
+
+      // Manually remove the item that should be deleted (Scenario 4)
+      delete expectedMergedData[
+        'http://example.com/remote_del_local_exists_older'
+      ]
+
+      // Check that upload was called with the correctly merged data
+      // Need to stringify then parse because of potential undefined fields from merge that JSON.stringify removes
+      const uploadedData = JSON.parse(uploadSpy.mock.calls[0][0])
+      expect(uploadedData).toEqual(
+        JSON.parse(
+          convertToUploadData(
+            expectedRemoteData,
+            undefined,
+            lastSyncTimestamp,
+            currentSyncTime
+          )
+        )
+      )
+
+      // Check that bookmarkStorage was updated with the merged data
+      expect(saveStoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expectedMergedData }),
+        true
+      )
+
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceId: serviceConfigWithStrategy.id,
+        })
+      )
+      expect(syncEndHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'success' })
+      )
+
+      // Verify final state of bookmarkStorage
+      const finalLocalData = await bookmarkStorage.getBookmarksData()
+      expect(finalLocalData).toEqual(expectedMergedData)
+
+      // Specific assertions for key scenarios
+      // Scenario 1: Restored from remote
+      expect(
+        finalLocalData['http://example.com/local_del_remote_exists_newer']
+      ).toBeDefined()
+      expect(
+        finalLocalData['http://example.com/local_del_remote_exists_newer'].meta
+          .title
+      ).toBe('Local Deleted, Remote Exists Newer')
+      expect(
+        finalLocalData['http://example.com/local_del_remote_exists_newer'].tags
+      ).toEqual(['remote-tag1', 'remote-specific1'])
+
+      // Scenario 2: Restored from remote (older data)
+      expect(
+        finalLocalData['http://example.com/local_del_remote_exists_older']
+      ).toBeUndefined()
+
+      // Scenario 3: Kept from local (remote deleted, local newer)
+      expect(
+        finalLocalData['http://example.com/remote_del_local_exists_newer']
+      ).toBeDefined()
+      expect(
+        finalLocalData['http://example.com/remote_del_local_exists_newer'].meta
+          .title
+      ).toBe('Remote Deleted, Local Newer')
+      expect(
+        finalLocalData['http://example.com/remote_del_local_exists_newer'].tags
+      ).toEqual(['local-tag1', 'shared-tag']) // Local tags kept as remote item is gone
+
+      // Scenario 4: Deleted (remote deleted, local older)
+      expect(
+        finalLocalData['http://example.com/remote_del_local_exists_older']
+      ).toBeUndefined()
+
+      // Scenario 5: Local newer meta, remote tags
+      expect(
+        finalLocalData['http://example.com/both_exist_local_newer'].meta.title
+      ).toBe('Both Exist, Local Newer Title')
+      expect(
+        finalLocalData['http://example.com/both_exist_local_newer'].meta
+          .description
+      ).toBe('Local specific description')
+      expect(
+        finalLocalData['http://example.com/both_exist_local_newer'].tags
+      ).toEqual(['remote-tag3', 'remote-specific2'])
+
+      // Scenario 6: Remote newer meta, remote tags
+      expect(
+        finalLocalData['http://example.com/both_exist_remote_newer'].meta.title
+      ).toBe('Both Exist, Remote Newer Title - Remote Version')
+      expect(
+        finalLocalData['http://example.com/both_exist_remote_newer'].meta
+          .remoteField
+      ).toBe('remote specific value')
+      expect(
+        finalLocalData['http://example.com/both_exist_remote_newer'].tags
+      ).toEqual(['remote-tag4', 'remote-wins'])
+
+      // Scenario 7: Same time, local meta tie-break, remote tags
+      expect(
+        finalLocalData['http://example.com/both_exist_same_time'].meta.title
+      ).toBe('Both Exist, Same Time - Local Title')
+      expect(
+        finalLocalData['http://example.com/both_exist_same_time'].meta
+          .customField
+      ).toBe('local custom value')
+      expect(
+        finalLocalData['http://example.com/both_exist_same_time'].tags
+      ).toEqual(['remote-tag5', 'remote-always'])
+
+      // Scenario 9: Local updated meta, remote stale tags
+      expect(
+        finalLocalData['http://example.com/local_updated_remote_stale'].meta
+          .title
+      ).toBe('Local Updated, Remote Stale')
+      expect(
+        finalLocalData['http://example.com/local_updated_remote_stale'].tags
+      ).toEqual(['local-updated-tag'])
+    })
+
+    it('should handle deleted bookmarks with lastDataChangeTimestamp, meta:merge, tags:remote', async () => {
+      // Arrange
+      const lastSyncTimestamp = now - 100_000 // e.g., 100 seconds ago
+      serviceConfigWithStrategy.lastDataChangeTimestamp = lastSyncTimestamp
+      serviceConfigWithStrategy.mergeStrategy = {
+        meta: 'merge',
+        tags: 'remote',
+        defaultDate: DEFAULT_DATE,
+      }
+
+      syncConfigStore.set({
+        syncServices: [serviceConfigWithStrategy],
+        activeSyncServiceId: serviceConfigWithStrategy.id,
+      })
+
+      syncManager.destroy()
+      syncManager = new SyncManager()
+      // @ts-expect-error - access privte method to get the adapter
+      const currentAdapter = await syncManager.getAdapter(
+        serviceConfigWithStrategy
+      )
+
+      // Initial local data with deleted and non-deleted items
+      const initialLocalData: BookmarksData = {
+        // Scenario 1: Local deleted (newer), Remote not deleted
+        'http://example.com/local_deleted_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 15_000,
+            updated: lastSyncTimestamp + 5000, // Newer than lastSync
+            title: 'Local Deleted Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 5000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 2: Local deleted (older), Remote not deleted
+        'http://example.com/local_deleted_older': {
+          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 16_000,
+            updated: lastSyncTimestamp - 4000, // Older than lastSync
+            title: 'Local Deleted Older',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp - 4000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 3: Local not deleted, Remote deleted (newer)
+        'http://example.com/remote_deleted_newer': {
+          tags: ['local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp - 2000, // Older than remote
+            title: 'Local Not Deleted',
+          },
+        },
+
+        // Scenario 4: Local not deleted, Remote deleted (older)
+        'http://example.com/remote_deleted_older': {
+          tags: ['local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 12_000,
+            updated: lastSyncTimestamp + 3000, // Newer than remote
+            title: 'Local Not Deleted Newer',
+          },
+        },
+
+        // Scenario 5: Both deleted, Local newer
+        'http://example.com/both_deleted_local_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 13_000,
+            updated: lastSyncTimestamp + 7000, // Newer than remote
+            title: 'Both Deleted - Local Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 7000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 6: Both deleted, Remote newer
+        'http://example.com/both_deleted_remote_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'local-tag'],
+          meta: {
+            created: lastSyncTimestamp - 14_000,
+            updated: lastSyncTimestamp + 2000, // Older than remote
+            title: 'Both Deleted - Local Older',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 2000,
+            actionType: 'DELETE',
+          },
+        },
+      }
+      await bookmarkStorage.overwriteBookmarks(initialLocalData)
+
+      // Remote data setup
+      const remoteData: BookmarksData = {
+        // Scenario 1: Local deleted (newer), Remote not deleted
+        'http://example.com/local_deleted_newer': {
+          tags: ['remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 15_000,
+            updated: lastSyncTimestamp + 3000, // Older than local
+            title: 'Remote Not Deleted',
+          },
+        },
+
+        // Scenario 2: Local deleted (older), Remote not deleted
+        'http://example.com/local_deleted_older': {
+          tags: ['remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 16_000,
+            updated: lastSyncTimestamp + 6000, // Newer than local
+            title: 'Remote Not Deleted Newer',
+          },
+        },
+
+        // Scenario 3: Local not deleted, Remote deleted (newer)
+        'http://example.com/remote_deleted_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 8000, // Newer than local
+            title: 'Remote Deleted Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 8000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 4: Local not deleted, Remote deleted (older)
+        'http://example.com/remote_deleted_older': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 12_000,
+            updated: lastSyncTimestamp - 1000, // Older than local, staled
+            title: 'Remote Deleted Older',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp - 1000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 5: Both deleted, Local newer
+        'http://example.com/both_deleted_local_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 13_000,
+            updated: lastSyncTimestamp + 4000, // Older than local
+            title: 'Both Deleted - Remote Older',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 4000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 6: Both deleted, Remote newer
+        'http://example.com/both_deleted_remote_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'],
+          meta: {
+            created: lastSyncTimestamp - 14_000,
+            updated: lastSyncTimestamp + 9000, // Newer than local
+            title: 'Both Deleted - Remote Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 9000,
+            actionType: 'DELETE',
+          },
+        },
+      }
+
+      const remoteMeta: SyncMetadata = {
+        version: 'remote-v-deletion-test',
+        timestamp: now - 500,
+      }
+
+      vi.spyOn(currentAdapter, 'getRemoteMetadata').mockResolvedValue(
+        remoteMeta
+      )
+      vi.spyOn(currentAdapter, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta,
+      })
+      const uploadSpy = vi.spyOn(currentAdapter, 'upload').mockResolvedValue({
+        version: 'new-remote-v-deletion-test',
+        timestamp: now,
+      })
+      const saveStoreSpy = vi.spyOn(bookmarkStorage, 'persistBookmarksStore')
+      const mergeBookmarksSpy = vi.spyOn(bookmarkMergeUtils, 'mergeBookmarks') // Spy on the actual mergeBookmarks function
+
+      const statusChangeHandler = vi.fn()
+      const syncSuccessHandler = vi.fn()
+      const syncEndHandler = vi.fn()
+
+      syncManager.on('statusChange', statusChangeHandler)
+      syncManager.on('syncSuccess', syncSuccessHandler)
+      syncManager.on('syncEnd', syncEndHandler)
+
+      // Act
+      const result = await syncManager.sync()
+
+      // Assert
+      expect(result).toBe(true)
+
+      // Check status updates
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'checking' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'downloading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'merging' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({ type: 'uploading' })
+      expect(statusChangeHandler).toHaveBeenCalledWith({
+        type: 'idle',
+        lastSyncTime: expect.any(Number),
+      })
+
+      const currentSyncTime = mergeBookmarksSpy.mock.calls[0][3].currentSyncTime
+      expect(currentSyncTime).toBeGreaterThanOrEqual(now)
+      expect(currentSyncTime).toBeLessThanOrEqual(Date.now())
+
+      // Expected merged data after sync
+      const expectedMergedData: BookmarksData = {
+        // Scenario 1: Local deleted newer wins over remote not deleted
+        'http://example.com/local_deleted_newer': {
+          tags: ['remote-tag'], // tags: remote strategy
+          meta: {
+            created: lastSyncTimestamp - 15_000,
+            updated: lastSyncTimestamp + 5000, // Local newer wins
+            title: 'Local Deleted Newer',
+          },
+        },
+
+        // Scenario 2: Remote not deleted newer wins over local deleted older
+        'http://example.com/local_deleted_older': {
+          tags: ['remote-tag'], // tags: remote strategy
+          meta: {
+            created: lastSyncTimestamp - 16_000,
+            updated: lastSyncTimestamp + 6000, // Remote newer wins
+            title: 'Remote Not Deleted Newer',
+          },
+        },
+
+        // Scenario 3: Remote deleted newer wins over local not deleted
+        'http://example.com/remote_deleted_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
+          meta: {
+            created: lastSyncTimestamp - 10_000,
+            updated: lastSyncTimestamp + 8000, // Remote newer wins
+            title: 'Remote Deleted Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 8000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 4: Local not deleted newer wins over remote deleted older
+        'http://example.com/remote_deleted_older': {
+          tags: ['local-tag'], // staled will be ignored
+          meta: {
+            created: lastSyncTimestamp - 12_000,
+            updated: lastSyncTimestamp + 3000, // Local newer wins
+            title: 'Local Not Deleted Newer',
+          },
+        },
+
+        // Scenario 5: Both deleted, Local newer wins
+        'http://example.com/both_deleted_local_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
+          meta: {
+            created: lastSyncTimestamp - 13_000,
+            updated: lastSyncTimestamp + 7000, // Local newer wins
+            title: 'Both Deleted - Local Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 7000,
+            actionType: 'DELETE',
+          },
+        },
+
+        // Scenario 6: Both deleted, Remote newer wins
+        'http://example.com/both_deleted_remote_newer': {
+          tags: [DELETED_BOOKMARK_TAG, 'remote-tag'], // tags: remote strategy
+          meta: {
+            created: lastSyncTimestamp - 14_000,
+            updated: lastSyncTimestamp + 9000, // Remote newer wins
+            title: 'Both Deleted - Remote Newer',
+          },
+          deletedMeta: {
+            deleted: lastSyncTimestamp + 9000,
+            actionType: 'DELETE',
+          },
+        },
+      }
+
+      const expectedRemoteData = structuredClone(expectedMergedData)
+
+      const exceptionsForLocal = [
+        // local
+        'http://example.com/remote_deleted_older',
+      ]
+      setUpdated3ForBookmarks(
+        expectedMergedData,
+        currentSyncTime,
+        exceptionsForLocal
+      )
+
+      const exceptionsForRemote = [
+        'http://example.com/local_deleted_older',
+        'http://example.com/remote_deleted_newer',
+        'http://example.com/both_deleted_remote_newer',
+      ]
+      setUpdated3ForBookmarks(
+        expectedRemoteData,
+        currentSyncTime,
+        exceptionsForRemote
+      )
+
+      // Check that upload was called with the correctly merged data
+      expect(uploadSpy).toHaveBeenCalledWith(
+        convertToUploadData(
+          expectedRemoteData,
+          undefined,
+          lastSyncTimestamp,
+          currentSyncTime
+        ),
+        remoteMeta
+      )
+
+      // Check that bookmarkStorage was updated with the merged data
+      expect(saveStoreSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expectedMergedData }),
+        true
+      )
+
+      expect(syncSuccessHandler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceId: serviceConfigWithStrategy.id,
+        })
+      )
+      expect(syncEndHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'success' })
+      )
+
+      // Verify final state of bookmarkStorage
+      const finalLocalData = await bookmarkStorage.getBookmarksData()
+      expect(finalLocalData).toEqual(expectedMergedData)
+
+      // Specific assertions for deletion scenarios
+      // Scenario 1: Local deleted newer wins
+      expect(
+        finalLocalData['http://example.com/local_deleted_newer'].deletedMeta
+      ).toBeUndefined()
+      expect(
+        finalLocalData['http://example.com/local_deleted_newer'].tags
+      ).toEqual(['remote-tag'])
+
+      // Scenario 2: Remote not deleted newer wins
+      expect(
+        finalLocalData['http://example.com/local_deleted_older'].deletedMeta
+      ).toBeUndefined()
+      expect(
+        finalLocalData['http://example.com/local_deleted_older'].tags
+      ).toEqual(['remote-tag'])
+
+      // Scenario 3: Remote deleted newer wins
+      expect(
+        finalLocalData['http://example.com/remote_deleted_newer'].deletedMeta
+      ).toBeDefined()
+      expect(
+        finalLocalData['http://example.com/remote_deleted_newer'].tags
+      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
+
+      // Scenario 4: Local not deleted newer wins
+      expect(
+        finalLocalData['http://example.com/remote_deleted_older'].deletedMeta
+      ).toBeUndefined()
+      expect(
+        finalLocalData['http://example.com/remote_deleted_older'].tags
+      ).toEqual(['local-tag'])
+
+      // Scenario 5: Both deleted, Local newer wins
+      expect(
+        finalLocalData['http://example.com/both_deleted_local_newer']
+          .deletedMeta
+      ).toBeDefined()
+      expect(
+        finalLocalData['http://example.com/both_deleted_local_newer'].tags
+      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
+
+      // Scenario 6: Both deleted, Remote newer wins
+      expect(
+        finalLocalData['http://example.com/both_deleted_remote_newer']
+          .deletedMeta
+      ).toBeDefined()
+      expect(
+        finalLocalData['http://example.com/both_deleted_remote_newer'].tags
+      ).toEqual([DELETED_BOOKMARK_TAG, 'remote-tag'])
+    })
+
+    describe('when lastSyncTimestamp is present and merge strategy is meta:newer, tags:newer', () => {
+      it('should sync over 200 bookmarks with various changes and meta:newer, tags:newer strategy', async () => {
+        const initialLastSyncTimestamp = now - 200_000
+        const currentSyncTime = now // Simulate current time for sync operation
+
+        const newMergeStrategy: MergeStrategy = {
+          meta: 'newer',
+          tags: 'newer',
+          defaultDate: DEFAULT_DATE,
+        }
 
         const serviceConfigWithLargeData: SyncServiceConfig = {
           ...serviceConfigWithStrategy,
@@ -3491,521 +4673,1370 @@ describe('SyncManager', () => {
           mergeStrategy: newMergeStrategy,
         }
 
-        syncConfigStore.set({
-          syncServices: [serviceConfigWithLargeData],
-          activeSyncServiceId: serviceConfigWithLargeData.id,
-        })
+        syncConfigStore.set({
+          syncServices: [serviceConfigWithLargeData],
+          activeSyncServiceId: serviceConfigWithLargeData.id,
+          // The changes are intended, so they must not need confirmation
+          massDeletionThreshold: { count: 0, percentage: 0 },
+        })
+
+        // Re-initialize SyncManager with the new settings
+        const newSyncManager = new SyncManager()
+        // @ts-expect-error - access to private property
+        const activeAdapter = await newSyncManager.getAdapter(
+          serviceConfigWithLargeData
+        ) // Assuming CustomApiSyncAdapter
+
+        const localBookmarks: BookmarksData = {}
+        const remoteBookmarksData: BookmarksData = {}
+
+        const generateMockBookmarkEntry = (
+          id: string,
+          title: string,
+          timestamp: number,
+          tags: string[] = ['common'],
+          isDeleted = false,
+          deletedTimestamp?: number
+        ): BookmarkTagsAndMetadata => {
+          const entry: BookmarkTagsAndMetadata = {
+            meta: {
+              title,
+              created: timestamp - 10_000,
+              updated: timestamp,
+              updated3: timestamp + 1, // ensure updated3 is present
+            },
+            tags: [...tags],
+          }
+          if (isDeleted) {
+            entry.tags.push(DELETED_BOOKMARK_TAG)
+            entry.deletedMeta = {
+              deleted: deletedTimestamp || timestamp,
+              actionType: 'DELETE',
+            }
+          }
+
+          return entry
+        }
+
+        // 1. Bookmarks only in local (50)
+        for (let i = 0; i < 50; i++) {
+          const id = `http://local-only-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Only ${i}`,
+            initialLastSyncTimestamp + i * 10
+          )
+        }
+
+        // 2. Bookmarks only in remote (50)
+        for (let i = 0; i < 50; i++) {
+          const id = `http://remote-only-${i}.com`
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Only ${i}`,
+            initialLastSyncTimestamp + i * 10
+          )
+        }
+
+        // 3. Common bookmarks, unchanged (50)
+        for (let i = 0; i < 50; i++) {
+          const id = `http://common-unchanged-${i}.com`
+          const ts = initialLastSyncTimestamp - 50_000 + i * 10
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Common Unchanged ${i}`,
+            ts
+          )
+          remoteBookmarksData[id] = structuredClone(localBookmarks[id]) // Exact copy
+        }
+
+        // 4. Common bookmarks, local is newer (30)
+        for (let i = 0; i < 30; i++) {
+          const id = `http://local-newer-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            'Local Updated Title',
+            initialLastSyncTimestamp + 10_000 + i * 10, // Newer
+            ['local', 'updated']
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            'Remote Original Title',
+            initialLastSyncTimestamp - 10_000 + i * 10, // Older
+            ['remote', 'original']
+          )
+        }
+
+        // 5. Common bookmarks, remote is newer (30)
+        for (let i = 0; i < 30; i++) {
+          const id = `http://remote-newer-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            'Local Original Title',
+            initialLastSyncTimestamp - 10_000 + i * 10, // Older
+            ['local', 'original']
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            'Remote Updated Title',
+            initialLastSyncTimestamp + 10_000 + i * 10, // Newer
+            ['remote', 'updated']
+          )
+        }
+
+        // 6. Common bookmarks, local deleted (newer) (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['local', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Active ${i}`,
+            initialLastSyncTimestamp - 5000 + i * 10 // Older, not deleted
+          )
+        }
+
+        // 7. Common bookmarks, remote deleted (newer) (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://remote-deleted-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Active ${i}`,
+            initialLastSyncTimestamp - 5000 + i * 10 // Older, not deleted
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['remote', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+        }
+
+        // 8. Common bookmarks, local updated, remote deleted (newer) (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-updated-remote-deleted-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Updated ${i}`,
+            initialLastSyncTimestamp + 5000 + i * 10 // Updated, not deleted
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['remote', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+        }
+
+        // 9. Common bookmarks, local deleted (newer), remote updated (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-remote-updated-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['local', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Updated ${i}`,
+            initialLastSyncTimestamp + 5000 + i * 10 // Older, not deleted
+          )
+        }
+
+        // 10. Common bookmarks, local deleted (newer), remote deleted (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-newer-remote-deleted-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['local', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Deleted ${i}`,
+            initialLastSyncTimestamp + 5000 + i * 10, // Deletion time (older)
+            ['remote', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 5000 + i * 10
+          )
+        }
+
+        // 11. Common bookmarks, local deleted, remote deleted (newer) (20)
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-remote-deleted-newer-${i}.com`
+          localBookmarks[id] = generateMockBookmarkEntry(
+            id,
+            `Local Deleted ${i}`,
+            initialLastSyncTimestamp + 5000 + i * 10, // Deletion time (older)
+            ['local', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 5000 + i * 10
+          )
+          remoteBookmarksData[id] = generateMockBookmarkEntry(
+            id,
+            `Remote Deleted ${i}`,
+            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
+            ['remote', DELETED_BOOKMARK_TAG],
+            true,
+            initialLastSyncTimestamp + 15_000 + i * 10
+          )
+        }
+        // Total: 50+50+50+30+30+20+20+20+20+20+20 = 330 bookmarks
+
+        await bookmarkStorage.overwriteBookmarks(
+          structuredClone(localBookmarks) // Deep copy
+        )
+
+        const remoteMeta: SyncMetadata = {
+          version: 'remote-v-large-test',
+          timestamp: currentSyncTime - 500, // Remote data is slightly older than current sync op
+        }
+
+        vi.spyOn(activeAdapter, 'getRemoteMetadata').mockResolvedValue(
+          remoteMeta
+        )
+        vi.spyOn(activeAdapter, 'download').mockResolvedValue({
+          data: convertToDownloadData(
+            structuredClone(remoteBookmarksData) // Deep copy
+          ), // Deep copy
+          remoteMeta,
+        })
+
+        const uploadSpy = vi.spyOn(activeAdapter, 'upload').mockResolvedValue({
+          version: 'new-remote-v-large-test',
+          timestamp: currentSyncTime, // Simulate upload success timestamp
+        })
+
+        const persistStoreSpy = vi.spyOn(
+          bookmarkStorage,
+          'persistBookmarksStore'
+        )
+
+        const statusChangeEvents: Array<{ type: string; [key: string]: any }> =
+          []
+        newSyncManager.on('statusChange', (status) =>
+          statusChangeEvents.push(status)
+        )
+        let syncSuccessEvent: any
+        newSyncManager.on('syncSuccess', (data) => {
+          syncSuccessEvent = data
+        })
+        let syncEndEvent: any
+        newSyncManager.on('syncEnd', (data) => {
+          syncEndEvent = data
+        })
+
+        // Act
+        const syncResult = await newSyncManager.sync()
+
+        // Assert
+        expect(syncResult).toBe(true)
+        expect(statusChangeEvents).toEqual([
+          { type: 'initializing' },
+          { type: 'checking' },
+          { type: 'downloading' },
+          { type: 'merging' },
+          { type: 'merging', progress: 100 },
+          { type: 'uploading' },
+          { type: 'success', lastSyncTime: expect.any(Number) },
+          { type: 'idle', lastSyncTime: expect.any(Number) },
+        ])
+        expect(syncSuccessEvent).toBeDefined()
+        expect(syncSuccessEvent.serviceId).toBe(serviceConfigWithLargeData.id)
+        expect(syncEndEvent).toBeDefined()
+        expect(syncEndEvent.status).toBe('success')
+
+        expect(uploadSpy).toHaveBeenCalledOnce()
+        // The first argument to uploadSpy is the stringified data, second is remoteMeta
+        const uploadedDataString = uploadSpy.mock.calls[0][0]
+        const uploadedRemoteMeta = uploadSpy.mock.calls[0][1]!
+        const uploadedBookmarksStore = JSON.parse(
+          uploadedDataString
+        ) as BookmarksStore
+        const uploadedBookmarksData = uploadedBookmarksStore.data
+
+        expect(uploadedRemoteMeta).toEqual(remoteMeta)
+
+        expect(persistStoreSpy).toHaveBeenCalledOnce()
+        // The first argument to persistStoreSpy is the BookmarksStore object
+        const persistedStoreArg = persistStoreSpy.mock.calls[0][0] as any // Type according to actual BookmarksStore structure
+        const mergedBookmarksData = persistedStoreArg.data as BookmarksData
+
+        const allKeys = new Set([
+          ...Object.keys(localBookmarks),
+          ...Object.keys(remoteBookmarksData),
+        ])
+        expect(Object.keys(mergedBookmarksData).length).toBe(allKeys.size)
+        expect(Object.keys(uploadedBookmarksData).length).toBe(allKeys.size)
+
+        const findMerged = (id: string) => mergedBookmarksData[id]
+
+        // 1. Local only - should exist
+        for (let i = 0; i < 50; i++) {
+          const id = `http://local-only-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.meta.title).toBe(localBookmarks[id].meta.title)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(localBookmarks[id].tags)
+          )
+        }
+
+        // 2. Remote only - should exist
+        for (let i = 0; i < 50; i++) {
+          const id = `http://remote-only-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(remoteBookmarksData[id].tags)
+          )
+        }
+
+        // 3. Common unchanged - should exist with original data (newer strategy means timestamps are compared)
+        for (let i = 0; i < 50; i++) {
+          const id = `http://common-unchanged-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          // Since timestamps are identical, either local or remote could be picked. Meta and tags should be identical.
+          expect(merged.meta.title).toBe(localBookmarks[id].meta.title)
+          expect(merged.meta.updated).toBe(localBookmarks[id].meta.updated)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(localBookmarks[id].tags)
+          )
+        }
+
+        // 4. Local newer - local data should win for meta and tags
+        for (let i = 0; i < 30; i++) {
+          const id = `http://local-newer-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.meta.title).toBe('Local Updated Title')
+          expect(merged.meta.updated).toBe(localBookmarks[id].meta.updated)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(localBookmarks[id].tags)
+          )
+        }
+
+        // 5. Remote newer - remote data should win for meta and tags
+        for (let i = 0; i < 30; i++) {
+          const id = `http://remote-newer-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.meta.title).toBe('Remote Updated Title')
+          expect(merged.meta.updated).toBe(remoteBookmarksData[id].meta.updated)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(remoteBookmarksData[id].tags)
+          )
+        }
+
+        // 6. Local deleted (newer) - should be marked as deleted, local meta/tags win due to newer timestamp
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            localBookmarks[id].deletedMeta?.deleted
+          )
+          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
+          // Tags also from local as it's newer overall
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              localBookmarks[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // 7. Remote deleted (newer) - should be marked as deleted, remote meta/tags win
+        for (let i = 0; i < 20; i++) {
+          const id = `http://remote-deleted-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            remoteBookmarksData[id].deletedMeta?.deleted
+          )
+          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
+          // Tags also from remote
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              remoteBookmarksData[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // 8. Common bookmarks, local updated, remote deleted (newer) (20)
+        // Expected: Marked as deleted, remote meta/tags win because remote deletion is newer.
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-updated-remote-deleted-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            remoteBookmarksData[id].deletedMeta?.deleted
+          )
+          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
+          // Tags also from remote (excluding DELETED_BOOKMARK_TAG from remote and adding it back)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              remoteBookmarksData[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // 9. Common bookmarks, local deleted (newer), remote updated (20)
+        // Expected: Marked as deleted, local meta/tags win because local deletion is newer.
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-remote-updated-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            localBookmarks[id].deletedMeta?.deleted
+          )
+          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
+          // Tags also from local (excluding DELETED_BOOKMARK_TAG from local and adding it back)
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              localBookmarks[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // 10. Common bookmarks, local deleted (newer), remote deleted (20)
+        // Expected: Marked as deleted, local meta/tags win because local deletion is newer.
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-newer-remote-deleted-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            localBookmarks[id].deletedMeta?.deleted // Local deletion time is newer
+          )
+          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
+          // Tags also from local
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              localBookmarks[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // 11. Common bookmarks, local deleted, remote deleted (newer) (20)
+        // Expected: Marked as deleted, remote meta/tags win because remote deletion is newer.
+        for (let i = 0; i < 20; i++) {
+          const id = `http://local-deleted-remote-deleted-newer-${i}.com`
+          const merged = findMerged(id)
+          expect(merged).toBeDefined()
+          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
+          expect(merged.deletedMeta?.deleted).toBe(
+            remoteBookmarksData[id].deletedMeta?.deleted // Remote deletion time is newer
+          )
+          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
+          // Tags also from remote
+          expect(merged.tags).toEqual(
+            expect.arrayContaining(
+              remoteBookmarksData[id].tags
+                .filter((t) => t !== DELETED_BOOKMARK_TAG)
+                .concat(DELETED_BOOKMARK_TAG)
+            )
+          )
+        }
+
+        // Verify uploaded data contains the same merged results
+        const findUploaded = (id: string) => uploadedBookmarksData[id]
+        const uploadedLocalNewer = findUploaded(`http://local-newer-0.com`)
+        expect(uploadedLocalNewer?.meta.title).toBe('Local Updated Title')
+        expect(uploadedLocalNewer?.tags).toEqual(
+          expect.arrayContaining(
+            localBookmarks[`http://local-newer-0.com`].tags
+          )
+        )
+
+        const uploadedRemoteDeleted = findUploaded(
+          `http://remote-deleted-0.com`
+        )
+        expect(uploadedRemoteDeleted?.tags).toContain(DELETED_BOOKMARK_TAG)
+        expect(uploadedRemoteDeleted?.meta.title).toBe(
+          remoteBookmarksData[`http://remote-deleted-0.com`].meta.title
+        )
+
+        newSyncManager.destroy()
+      })
+    })
+  })
+
+  describe('Versions', () => {
+    const urlA = 'http://example.com/a'
+    const urlB = 'http://example.com/b'
+    const urlC = 'http://example.com/c'
+    const localData: BookmarksData = {
+      [urlA]: {
+        tags: ['tag1'],
+        meta: { created: oneHourAgo, updated: oneHourAgo, title: 'A' },
+      },
+      [urlB]: {
+        tags: ['tag2'],
+        meta: { created: oneHourAgo, updated: oneHourAgo, title: 'B' },
+      },
+    }
+    const versionData: BookmarksData = {
+      [urlA]: {
+        tags: ['tag1', 'old'],
+        meta: { created: oneHourAgo, updated: twoHoursAgo, title: 'A' },
+      },
+      [urlC]: {
+        tags: ['tag3'],
+        meta: { created: twoHoursAgo, updated: twoHoursAgo, title: 'C' },
+      },
+    }
+    let adapter: SyncAdapter
+
+    beforeEach(async () => {
+      await bookmarkStorage.overwriteBookmarks(structuredClone(localData))
+      adapter = (await getCreatedAdapterInstance(
+        syncManager,
+        mockSyncServiceConfig.id
+      ))!
+      adapter.listVersions = vi
+        .fn()
+        .mockResolvedValue([{ id: 'v1', timestamp: twoHoursAgo }])
+      adapter.downloadVersion = vi
+        .fn()
+        .mockResolvedValue(convertToDownloadData(versionData))
+    })
+
+    it('should list the versions of the adapter', async () => {
+      expect(await syncManager.listVersions(mockSyncServiceConfig.id)).toEqual([
+        { id: 'v1', timestamp: twoHoursAgo },
+      ])
+    })
+
+    it('should throw if the adapter does not support versions', async () => {
+      adapter.listVersions = undefined
+
+      await expect(
+        syncManager.listVersions(mockSyncServiceConfig.id)
+      ).rejects.toThrow('Test Custom API Service does not support versions.')
+    })
+
+    it('should decode encrypted and compressed versions', async () => {
+      const encryptedConfig = {
+        ...mockSyncServiceConfig,
+        encryptionPassphrase: 'secret',
+      }
+      syncConfigStore.set({
+        syncServices: [encryptedConfig],
+        activeSyncServiceId: undefined,
+      })
+      // @ts-expect-error - access private method for testing
+      adapter = await syncManager.getAdapter(encryptedConfig)
+      adapter.listVersions = vi.fn()
+      adapter.downloadVersion = vi
+        .fn()
+        .mockResolvedValue(
+          await encryptSyncData(
+            await compressSyncData(convertToDownloadData(versionData), 'gzip'),
+            'secret'
+          )
+        )
+
+      expect(
+        await syncManager.getVersionData(mockSyncServiceConfig.id, 'v1')
+      ).toEqual(versionData)
+    })
 
-        // Re-initialize SyncManager with the new settings
-        const newSyncManager = new SyncManager()
-        // @ts-expect-error - access to private property
-        const activeAdapter = await newSyncManager.getAdapter(
-          serviceConfigWithLargeData
-        ) // Assuming CustomApiSyncAdapter
+    it('should throw if the version is not found', async () => {
+      vi.mocked(adapter.downloadVersion!).mockResolvedValue(undefined)
 
-        const localBookmarks: BookmarksData = {}
-        const remoteBookmarksData: BookmarksData = {}
+      await expect(
+        syncManager.getVersionData(mockSyncServiceConfig.id, 'v1')
+      ).rejects.toThrow('Version v1 of Test Custom API Service not found.')
+    })
 
-        const generateMockBookmarkEntry = (
-          id: string,
-          title: string,
-          timestamp: number,
-          tags: string[] = ['common'],
-          isDeleted = false,
-          deletedTimestamp?: number
-        ): BookmarkTagsAndMetadata => {
-          const entry: BookmarkTagsAndMetadata = {
-            meta: {
-              title,
-              created: timestamp - 10_000,
-              updated: timestamp,
-              updated3: timestamp + 1, // ensure updated3 is present
-            },
-            tags: [...tags],
-          }
-          if (isDeleted) {
-            entry.tags.push(DELETED_BOOKMARK_TAG)
-            entry.deletedMeta = {
-              deleted: deletedTimestamp || timestamp,
-              actionType: 'DELETE',
-            }
+    it('should make the local bookmarks match the version on restore', async () => {
+      expect(
+        await syncManager.restoreVersion(
+          mockSyncServiceConfig.id,
+          'v1',
+          'restore'
+        )
+      ).toBe(3)
+
+      const restoredData = await bookmarkStorage.getBookmarksData()
+      expect(restoredData[urlA].tags).toEqual(['tag1', 'old'])
+      expect(restoredData[urlA].meta.updated2).toBe(now)
+      expect(restoredData[urlB].tags).toContain(DELETED_BOOKMARK_TAG)
+      expect(restoredData[urlB].deletedMeta?.deleted).toBe(now)
+      expect(restoredData[urlC].tags).toEqual(['tag3'])
+    })
+
+    it('should merge the version into the local bookmarks', async () => {
+      await syncManager.restoreVersion(mockSyncServiceConfig.id, 'v1', 'merge')
+
+      const mergedData = await bookmarkStorage.getBookmarksData()
+      expect(Object.keys(mergedData).sort()).toEqual([urlA, urlB, urlC])
+      expect(mergedData[urlB].tags).toEqual(['tag2'])
+    })
+
+    it('should not restore a version while a sync is in progress', async () => {
+      // @ts-expect-error - access private method for testing
+      syncManager.updateStatus({ type: 'downloading' })
+
+      await expect(
+        syncManager.restoreVersion(mockSyncServiceConfig.id, 'v1', 'restore')
+      ).rejects.toThrow('Cannot restore a version while a sync is in progress.')
+      expect(await bookmarkStorage.getBookmarksData()).toEqual(localData)
+    })
+  })
+
+  describe('Multiple services', () => {
+    const primaryConfig: SyncServiceConfig = {
+      ...mockSyncServiceConfig,
+      id: 'primary-service',
+      name: 'Primary Service',
+    }
+    const backupConfig: SyncServiceConfig = {
+      ...mockSyncServiceConfig,
+      id: 'backup-service',
+      name: 'Backup Service',
+      target: { url: 'http://localhost:3001/sync', path: 'bookmarks.json' },
+    }
+    const disabledConfig: SyncServiceConfig = {
+      ...mockSyncServiceConfig,
+      id: 'disabled-service',
+      name: 'Disabled Service',
+      enabled: false,
+    }
+
+    beforeEach(async () => {
+      await bookmarkStorage.overwriteBookmarks({
+        'http://example.com/a': {
+          tags: ['tag1'],
+          meta: { created: oneHourAgo, updated: oneHourAgo, title: 'A' },
+        },
+      })
+      syncConfigStore.set({
+        syncServices: [backupConfig, disabledConfig, primaryConfig],
+        activeSyncServiceId: primaryConfig.id,
+      })
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'upload').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now,
+      })
+    })
+
+    afterEach(async () => {
+      await bookmarkStorage.overwriteBookmarks({})
+    })
+
+    it('should synchronize all enabled services, starting with the active service', async () => {
+      const syncStartHandler = vi.fn<(event: { serviceId: string }) => void>()
+      syncManager.on('syncStart', syncStartHandler)
+
+      const results = await syncManager.synchronizeAll()
+
+      expect(results).toEqual({
+        [primaryConfig.id]: true,
+        [backupConfig.id]: true,
+      })
+      expect(
+        syncStartHandler.mock.calls.map(([event]) => event.serviceId)
+      ).toEqual([primaryConfig.id, backupConfig.id])
+    })
+
+    it('should continue with the other services if a service fails', async () => {
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockImplementation(
+        async function (this: CustomApiSyncAdapter) {
+          if (this.getConfig().id === primaryConfig.id) {
+            throw new Error('Network error')
           }
 
-          return entry
+          return { data: undefined, remoteMeta: undefined }
         }
+      )
 
-        // 1. Bookmarks only in local (50)
-        for (let i = 0; i < 50; i++) {
-          const id = `http://local-only-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Only ${i}`,
-            initialLastSyncTimestamp + i * 10
-          )
-        }
+      const results = await syncManager.synchronizeAll()
+
+      expect(results).toEqual({
+        [primaryConfig.id]: false,
+        [backupConfig.id]: true,
+      })
+      const settings = get(syncConfigStore)
+      const primary = getSyncServiceById(settings, primaryConfig.id)
+      const backup = getSyncServiceById(settings, backupConfig.id)
+      expect(primary?.lastSyncResult).toBe('error')
+      expect(primary?.lastSyncError).toContain('Network error')
+      expect(primary?.lastSyncAttemptTimestamp).toBe(now)
+      expect(primary?.lastSyncTimestamp).toBeUndefined()
+      expect(primary?.lastDataChangeTimestamp).toBeUndefined()
+      expect(backup?.lastSyncResult).toBe('success')
+      expect(backup?.lastSyncError).toBeUndefined()
+      expect(backup?.lastSyncTimestamp).toBe(now)
+      expect(backup?.lastDataChangeTimestamp).toBe(now)
+    })
 
-        // 2. Bookmarks only in remote (50)
-        for (let i = 0; i < 50; i++) {
-          const id = `http://remote-only-${i}.com`
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Only ${i}`,
-            initialLastSyncTimestamp + i * 10
-          )
-        }
+    it('should record the failed and the changing syncs in the audit log', async () => {
+      await clearSyncAuditLog()
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockImplementation(
+        async function (this: CustomApiSyncAdapter) {
+          if (this.getConfig().id === primaryConfig.id) {
+            throw new Error('Network error')
+          }
 
-        // 3. Common bookmarks, unchanged (50)
-        for (let i = 0; i < 50; i++) {
-          const id = `http://common-unchanged-${i}.com`
-          const ts = initialLastSyncTimestamp - 50_000 + i * 10
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Common Unchanged ${i}`,
-            ts
-          )
-          remoteBookmarksData[id] = structuredClone(localBookmarks[id]) // Exact copy
+          return { data: undefined, remoteMeta: undefined }
         }
+      )
 
-        // 4. Common bookmarks, local is newer (30)
-        for (let i = 0; i < 30; i++) {
-          const id = `http://local-newer-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            'Local Updated Title',
-            initialLastSyncTimestamp + 10_000 + i * 10, // Newer
-            ['local', 'updated']
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            'Remote Original Title',
-            initialLastSyncTimestamp - 10_000 + i * 10, // Older
-            ['remote', 'original']
-          )
-        }
+      await syncManager.synchronizeAll()
+
+      const [backupEntry, primaryEntry] = await getSyncAuditLog()
+      expect(primaryEntry).toMatchObject({
+        serviceId: primaryConfig.id,
+        result: 'error',
+        updatesForRemote: { count: 0 },
+      })
+      expect(primaryEntry.error).toContain('Network error')
+      expect(backupEntry).toMatchObject({
+        serviceId: backupConfig.id,
+        serviceName: backupConfig.name,
+        result: 'success',
+        updatesForRemote: { count: 1, urls: ['http://example.com/a'] },
+      })
+    })
+
+    it('should clear the error of a service after a successful sync', async () => {
+      updateSyncService({
+        ...primaryConfig,
+        lastSyncResult: 'error',
+        lastSyncError: 'Network error',
+      })
+
+      expect(await syncManager.synchronize(primaryConfig.id)).toBe(true)
+
+      const primary = getSyncServiceById(get(syncConfigStore), primaryConfig.id)
+      expect(primary?.lastSyncResult).toBe('success')
+      expect(primary?.lastSyncError).toBeUndefined()
+    })
+  })
+
+  describe('Preview', () => {
+    const urlA = 'http://example.com/a'
+    const urlB = 'http://example.com/b'
+    const urlC = 'http://example.com/c'
+    const localData: BookmarksData = {
+      [urlA]: {
+        tags: ['tag1'],
+        meta: { created: oneHourAgo, updated: oneHourAgo, title: 'A' },
+      },
+      [urlB]: {
+        tags: ['tag2'],
+        meta: { created: oneHourAgo, updated: oneHourAgo, title: 'B' },
+      },
+    }
+    const remoteData: BookmarksData = {
+      [urlA]: {
+        tags: ['tag1', 'remote'],
+        meta: { created: oneHourAgo, updated: now - 1000, title: 'A' },
+      },
+      [urlC]: {
+        tags: ['tag3'],
+        meta: { created: twoHoursAgo, updated: twoHoursAgo, title: 'C' },
+      },
+    }
+
+    beforeEach(async () => {
+      await bookmarkStorage.overwriteBookmarks(structuredClone(localData))
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue({ version: 'remote-v1', timestamp: now })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta: { version: 'remote-v1', timestamp: now },
+      })
+    })
+
+    afterEach(async () => {
+      await bookmarkStorage.overwriteBookmarks({})
+    })
+
+    it('should report the changes of both sides without writing anything', async () => {
+      const uploadSpy = vi.spyOn(CustomApiSyncAdapter.prototype, 'upload')
+      const batchUpdateSpy = vi.spyOn(bookmarkStorage, 'batchUpdateBookmarks')
+
+      const preview = await syncManager.preview(mockSyncServiceConfig.id)
+
+      expect(preview.serviceId).toBe(mockSyncServiceConfig.id)
+      expect(Object.keys(preview.updatesForLocal).sort()).toEqual([urlA, urlC])
+      expect(Object.keys(preview.updatesForRemote)).toEqual([urlB])
+      expect(preview.local).toMatchObject({ added: 1, changed: 1, deleted: 0 })
+      expect(preview.remote).toMatchObject({ added: 1, changed: 0, deleted: 0 })
+      expect(
+        preview.local.entries.find((entry) => entry.url === urlA)?.fields
+      ).toEqual([
+        { field: 'tags', before: ['tag1'], after: ['tag1', 'remote'] },
+        { field: 'updated', before: oneHourAgo, after: now - 1000 },
+      ])
+
+      expect(uploadSpy).not.toHaveBeenCalled()
+      expect(batchUpdateSpy).not.toHaveBeenCalled()
+      expect(await bookmarkStorage.getBookmarksData()).toEqual(localData)
+      expect(
+        getSyncServiceById(get(syncConfigStore), mockSyncServiceConfig.id)
+      ).toEqual(mockSyncServiceConfig)
+      expect(syncManager.getStatus()).toEqual({ type: 'idle' })
+    })
+
+    it('should report all local bookmarks for the remote if it has no data', async () => {
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+
+      const preview = await syncManager.preview(mockSyncServiceConfig.id)
+
+      expect(preview.local.entries).toEqual([])
+      expect(preview.remote).toMatchObject({ added: 2, changed: 0, deleted: 0 })
+    })
+
+    it('should throw if the remote data cannot be fetched', async () => {
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockRejectedValue(
+        new Error('Network error')
+      )
+
+      await expect(
+        syncManager.preview(mockSyncServiceConfig.id)
+      ).rejects.toThrow(
+        'Failed to fetch remote data for Test Custom API Service: Network error'
+      )
+      expect(syncManager.getStatus()).toEqual({ type: 'idle' })
+    })
+
+    it('should throw if the service does not exist', async () => {
+      await expect(syncManager.preview('unknown')).rejects.toThrow(
+        'Sync service with ID unknown not found.'
+      )
+    })
+  })
+
+  describe('Mass deletion safeguard', () => {
+    const urls = [
+      'http://example.com/a',
+      'http://example.com/b',
+      'http://example.com/c',
+    ]
+    const localData: BookmarksData = Object.fromEntries(
+      urls.map((url) => [
+        url,
+        {
+          tags: ['tag1'],
+          meta: { created: twoHoursAgo, updated: twoHoursAgo, title: url },
+        },
+      ])
+    )
+    // The remote deleted all bookmarks after the local changes
+    const remoteData: BookmarksData = Object.fromEntries(
+      urls.map((url) => [
+        url,
+        {
+          tags: ['tag1', DELETED_BOOKMARK_TAG],
+          meta: { created: twoHoursAgo, updated: twoHoursAgo, title: url },
+          deletedMeta: { deleted: oneHourAgo, actionType: 'DELETE' },
+        },
+      ])
+    )
+
+    beforeEach(async () => {
+      await bookmarkStorage.overwriteBookmarks(structuredClone(localData))
+      syncConfigStore.set({
+        syncServices: [mockSyncServiceConfig],
+        activeSyncServiceId: mockSyncServiceConfig.id,
+        massDeletionThreshold: { count: 2, percentage: 0 },
+      })
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue({ version: 'remote-v1', timestamp: now })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: convertToDownloadData(remoteData),
+        remoteMeta: { version: 'remote-v1', timestamp: now },
+      })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'upload').mockResolvedValue({
+        version: 'remote-v2',
+        timestamp: now,
+      })
+    })
+
+    afterEach(async () => {
+      syncManager.setMassDeletionConfirmer(undefined)
+      await bookmarkStorage.overwriteBookmarks({})
+    })
+
+    it('should pause the sync in the conflict status without a confirmer', async () => {
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(
+        false
+      )
+
+      const status = syncManager.getStatus()
+      expect(status.type).toBe('conflict')
+      expect(status.type === 'conflict' && status.details).toContain(
+        'this device: 3 of 3 bookmarks (3 deleted, 0 overwritten)'
+      )
+      expect(await bookmarkStorage.getBookmarksData()).toEqual(localData)
+      expect(CustomApiSyncAdapter.prototype.upload).not.toHaveBeenCalled()
+      expect(
+        getSyncServiceById(get(syncConfigStore), mockSyncServiceConfig.id)
+          ?.lastSyncResult
+      ).toBe('conflict')
+    })
+
+    it('should continue the sync once the user confirms it', async () => {
+      const confirmer = vi.fn<SyncMassDeletionConfirmer>(async () => true)
+      syncManager.setMassDeletionConfirmer(confirmer)
+
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(true)
+
+      const [serviceId, report] = confirmer.mock.calls[0]
+      expect(serviceId).toBe(mockSyncServiceConfig.id)
+      expect(report.local?.entries.map((entry) => entry.url)).toEqual(urls)
+      expect(report.remote).toBeUndefined()
+      const data = await bookmarkStorage.getBookmarksData()
+      expect(urls.every((url) => data[url]?.deletedMeta)).toBe(true)
+    })
+
+    it('should cancel the sync if the user declines it', async () => {
+      syncManager.setMassDeletionConfirmer(async () => false)
+
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(
+        false
+      )
+      expect(await bookmarkStorage.getBookmarksData()).toEqual(localData)
+    })
+
+    it('should not ask for confirmation within the threshold', async () => {
+      const confirmer = vi.fn<SyncMassDeletionConfirmer>(async () => true)
+      syncManager.setMassDeletionConfirmer(confirmer)
+      setMassDeletionThreshold({ count: 3 })
+
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(true)
+      expect(confirmer).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Remote locking', () => {
+    const acquireLock = vi.fn<() => Promise<boolean>>()
+    const releaseLock = vi.fn<() => Promise<void>>()
+
+    beforeEach(async () => {
+      await bookmarkStorage.overwriteBookmarks({
+        'http://example.com/a': {
+          tags: ['tag1'],
+          meta: { created: twoHoursAgo, updated: twoHoursAgo },
+        },
+      })
+      syncConfigStore.set({
+        syncServices: [mockSyncServiceConfig],
+        activeSyncServiceId: mockSyncServiceConfig.id,
+      })
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'upload').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now,
+      })
+      acquireLock.mockResolvedValue(true)
+      releaseLock.mockResolvedValue(undefined)
+      Object.assign(CustomApiSyncAdapter.prototype, {
+        acquireLock,
+        releaseLock,
+      })
+    })
 
-        // 5. Common bookmarks, remote is newer (30)
-        for (let i = 0; i < 30; i++) {
-          const id = `http://remote-newer-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            'Local Original Title',
-            initialLastSyncTimestamp - 10_000 + i * 10, // Older
-            ['local', 'original']
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            'Remote Updated Title',
-            initialLastSyncTimestamp + 10_000 + i * 10, // Newer
-            ['remote', 'updated']
-          )
-        }
+    afterEach(async () => {
+      const prototype: Partial<SyncAdapter> = CustomApiSyncAdapter.prototype
+      delete prototype.acquireLock
+      delete prototype.releaseLock
+      await bookmarkStorage.overwriteBookmarks({})
+    })
 
-        // 6. Common bookmarks, local deleted (newer) (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['local', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Active ${i}`,
-            initialLastSyncTimestamp - 5000 + i * 10 // Older, not deleted
-          )
-        }
+    it('should hold the lock of the remote data while uploading', async () => {
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(true)
 
-        // 7. Common bookmarks, remote deleted (newer) (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://remote-deleted-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Active ${i}`,
-            initialLastSyncTimestamp - 5000 + i * 10 // Older, not deleted
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['remote', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-        }
+      const uploadOrder = vi.mocked(CustomApiSyncAdapter.prototype.upload).mock
+        .invocationCallOrder[0]
+      expect(acquireLock.mock.invocationCallOrder[0]).toBeLessThan(uploadOrder)
+      expect(releaseLock.mock.invocationCallOrder[0]).toBeGreaterThan(
+        uploadOrder
+      )
+    })
 
-        // 8. Common bookmarks, local updated, remote deleted (newer) (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-updated-remote-deleted-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Updated ${i}`,
-            initialLastSyncTimestamp + 5000 + i * 10 // Updated, not deleted
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['remote', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-        }
+    it('should not upload while another device holds the lock', async () => {
+      acquireLock.mockResolvedValue(false)
 
-        // 9. Common bookmarks, local deleted (newer), remote updated (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-remote-updated-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['local', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Updated ${i}`,
-            initialLastSyncTimestamp + 5000 + i * 10 // Older, not deleted
-          )
-        }
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(
+        false
+      )
 
-        // 10. Common bookmarks, local deleted (newer), remote deleted (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-newer-remote-deleted-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['local', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Deleted ${i}`,
-            initialLastSyncTimestamp + 5000 + i * 10, // Deletion time (older)
-            ['remote', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 5000 + i * 10
-          )
-        }
+      expect(CustomApiSyncAdapter.prototype.upload).not.toHaveBeenCalled()
+      expect(releaseLock).not.toHaveBeenCalled()
+      const status = syncManager.getStatus()
+      expect(status.type === 'error' && status.error).toContain(
+        'locked by another device'
+      )
+    })
 
-        // 11. Common bookmarks, local deleted, remote deleted (newer) (20)
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-remote-deleted-newer-${i}.com`
-          localBookmarks[id] = generateMockBookmarkEntry(
-            id,
-            `Local Deleted ${i}`,
-            initialLastSyncTimestamp + 5000 + i * 10, // Deletion time (older)
-            ['local', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 5000 + i * 10
-          )
-          remoteBookmarksData[id] = generateMockBookmarkEntry(
-            id,
-            `Remote Deleted ${i}`,
-            initialLastSyncTimestamp + 15_000 + i * 10, // Deletion time (newer)
-            ['remote', DELETED_BOOKMARK_TAG],
-            true,
-            initialLastSyncTimestamp + 15_000 + i * 10
-          )
-        }
-        // Total: 50+50+50+30+30+20+20+20+20+20+20 = 330 bookmarks
+    it('should release the lock if the upload fails', async () => {
+      vi.mocked(CustomApiSyncAdapter.prototype.upload).mockRejectedValue(
+        new Error('Upload failed')
+      )
 
-        await bookmarkStorage.overwriteBookmarks(
-          structuredClone(localBookmarks) // Deep copy
-        )
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(
+        false
+      )
+      expect(releaseLock).toHaveBeenCalled()
+    })
+  })
 
-        const remoteMeta: SyncMetadata = {
-          version: 'remote-v-large-test',
-          timestamp: currentSyncTime - 500, // Remote data is slightly older than current sync op
-        }
+  describe('App data', () => {
+    const serviceConfig: SyncServiceConfig = {
+      ...mockSyncServiceConfig,
+      syncCategories: ['collections'],
+    }
+    const localCollection: Collection = {
+      id: 'collection-local',
+      name: 'Work',
+      pathname: 'work',
+      filterString: 't=work',
+      created: twoHoursAgo,
+      updated: twoHoursAgo,
+    }
+    const remoteCollection: Collection = {
+      id: 'collection-remote',
+      name: 'Home',
+      pathname: 'home',
+      filterString: 't=home',
+      created: oneHourAgo,
+      updated: oneHourAgo,
+    }
 
-        vi.spyOn(activeAdapter, 'getRemoteMetadata').mockResolvedValue(
-          remoteMeta
-        )
-        vi.spyOn(activeAdapter, 'download').mockResolvedValue({
-          data: convertToDownloadData(
-            structuredClone(remoteBookmarksData) // Deep copy
-          ), // Deep copy
-          remoteMeta,
-        })
+    beforeEach(() => {
+      syncConfigStore.set({
+        syncServices: [serviceConfig],
+        activeSyncServiceId: serviceConfig.id,
+      })
+      getCollections().set([localCollection])
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'getRemoteMetadata'
+      ).mockResolvedValue(undefined)
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'download').mockResolvedValue({
+        data: undefined,
+        remoteMeta: undefined,
+      })
+      vi.spyOn(CustomApiSyncAdapter.prototype, 'upload').mockResolvedValue({
+        version: 'remote-v1',
+        timestamp: now,
+      })
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'uploadAppData'
+      ).mockResolvedValue(undefined)
+    })
 
-        const uploadSpy = vi.spyOn(activeAdapter, 'upload').mockResolvedValue({
-          version: 'new-remote-v-large-test',
-          timestamp: currentSyncTime, // Simulate upload success timestamp
+    afterEach(() => {
+      getCollections().set([])
+    })
+
+    it('should merge the remote collections and upload the result', async () => {
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'downloadAppData'
+      ).mockResolvedValue(
+        JSON.stringify({
+          format: 'utags-app-data',
+          version: 1,
+          collections: { items: [remoteCollection], deleted: {} },
         })
+      )
 
-        const persistStoreSpy = vi.spyOn(
-          bookmarkStorage,
-          'persistBookmarksStore'
-        )
+      expect(await syncManager.synchronize(serviceConfig.id)).toBe(true)
 
-        const statusChangeEvents: Array<{ type: string; [key: string]: any }> =
-          []
-        newSyncManager.on('statusChange', (status) =>
-          statusChangeEvents.push(status)
-        )
-        let syncSuccessEvent: any
-        newSyncManager.on('syncSuccess', (data) => {
-          syncSuccessEvent = data
-        })
-        let syncEndEvent: any
-        newSyncManager.on('syncEnd', (data) => {
-          syncEndEvent = data
+      expect(get(getCollections())).toEqual([remoteCollection, localCollection])
+      const uploaded = vi.mocked(CustomApiSyncAdapter.prototype.uploadAppData)
+        .mock.calls[0][0]
+      expect(JSON.parse(uploaded)).toMatchObject({
+        format: 'utags-app-data',
+        collections: { items: [remoteCollection, localCollection] },
+      })
+    })
+
+    it('should not upload app data that did not change', async () => {
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'downloadAppData'
+      ).mockResolvedValue(
+        JSON.stringify({
+          format: 'utags-app-data',
+          version: 1,
+          collections: { items: [localCollection], deleted: {} },
         })
+      )
 
-        // Act
-        const syncResult = await newSyncManager.sync()
+      expect(await syncManager.synchronize(serviceConfig.id)).toBe(true)
+      expect(
+        CustomApiSyncAdapter.prototype.uploadAppData
+      ).not.toHaveBeenCalled()
+    })
 
-        // Assert
-        expect(syncResult).toBe(true)
-        expect(statusChangeEvents).toEqual([
-          { type: 'initializing' },
-          { type: 'checking' },
-          { type: 'downloading' },
-          { type: 'merging' },
-          { type: 'merging', progress: 100 },
-          { type: 'uploading' },
-          { type: 'success', lastSyncTime: expect.any(Number) },
-          { type: 'idle', lastSyncTime: expect.any(Number) },
-        ])
-        expect(syncSuccessEvent).toBeDefined()
-        expect(syncSuccessEvent.serviceId).toBe(serviceConfigWithLargeData.id)
-        expect(syncEndEvent).toBeDefined()
-        expect(syncEndEvent.status).toBe('success')
+    it('should keep the bookmark sync successful if the app data sync fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'downloadAppData'
+      ).mockResolvedValue('{"format":"unknown"}')
 
-        expect(uploadSpy).toHaveBeenCalledOnce()
-        // The first argument to uploadSpy is the stringified data, second is remoteMeta
-        const uploadedDataString = uploadSpy.mock.calls[0][0]
-        const uploadedRemoteMeta = uploadSpy.mock.calls[0][1]!
-        const uploadedBookmarksStore = JSON.parse(
-          uploadedDataString
-        ) as BookmarksStore
-        const uploadedBookmarksData = uploadedBookmarksStore.data
+      expect(await syncManager.synchronize(serviceConfig.id)).toBe(true)
+
+      expect(syncManager.getStatus().type).toBe('idle')
+      expect(
+        getSyncServiceById(get(syncConfigStore), serviceConfig.id)
+          ?.lastSyncResult
+      ).toBe('success')
+      const [entry] = await getSyncAuditLog()
+      expect(entry).toMatchObject({
+        serviceId: serviceConfig.id,
+        result: 'error',
+        error: `Failed to sync the app data of ${serviceConfig.name}: The app data of ${serviceConfig.name} has an unsupported format.`,
+      })
+    })
+
+    it('should keep the bookmark sync successful if the app data cannot be decrypted', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => undefined)
+      vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'downloadAppData'
+      ).mockResolvedValue(
+        await encryptSyncData('{"format":"utags-app-data"}', 'other-passphrase')
+      )
+
+      expect(await syncManager.synchronize(serviceConfig.id)).toBe(true)
+
+      expect(syncManager.getStatus().type).toBe('idle')
+      const [entry] = await getSyncAuditLog()
+      expect(entry.result).toBe('error')
+      expect(entry.error).toContain('Failed to decrypt remote data')
+    })
+
+    it('should not sync app data without synced categories', async () => {
+      const downloadAppDataSpy = vi.spyOn(
+        CustomApiSyncAdapter.prototype,
+        'downloadAppData'
+      )
+      syncConfigStore.set({
+        syncServices: [mockSyncServiceConfig],
+        activeSyncServiceId: mockSyncServiceConfig.id,
+      })
 
-        expect(uploadedRemoteMeta).toEqual(remoteMeta)
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(true)
+      expect(downloadAppDataSpy).not.toHaveBeenCalled()
+    })
+  })
 
-        expect(persistStoreSpy).toHaveBeenCalledOnce()
-        // The first argument to persistStoreSpy is the BookmarksStore object
-        const persistedStoreArg = persistStoreSpy.mock.calls[0][0] as any // Type according to actual BookmarksStore structure
-        const mergedBookmarksData = persistedStoreArg.data as BookmarksData
+  describe('Credential vault', () => {
+    afterEach(() => {
+      credentialVaultStatus.set('disabled')
+    })
 
-        const allKeys = new Set([
-          ...Object.keys(localBookmarks),
-          ...Object.keys(remoteBookmarksData),
-        ])
-        expect(Object.keys(mergedBookmarksData).length).toBe(allKeys.size)
-        expect(Object.keys(uploadedBookmarksData).length).toBe(allKeys.size)
+    it('should not sync while the credential vault is locked', async () => {
+      syncConfigStore.set({
+        syncServices: [mockSyncServiceConfig],
+        activeSyncServiceId: mockSyncServiceConfig.id,
+      })
+      const downloadSpy = vi.spyOn(CustomApiSyncAdapter.prototype, 'download')
+      credentialVaultStatus.set('locked')
 
-        const findMerged = (id: string) => mergedBookmarksData[id]
+      expect(await syncManager.synchronize(mockSyncServiceConfig.id)).toBe(
+        false
+      )
 
-        // 1. Local only - should exist
-        for (let i = 0; i < 50; i++) {
-          const id = `http://local-only-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.meta.title).toBe(localBookmarks[id].meta.title)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(localBookmarks[id].tags)
-          )
-        }
+      expect(downloadSpy).not.toHaveBeenCalled()
+      const status = syncManager.getStatus()
+      expect(status.type === 'error' && status.error).toContain(
+        'Unlock them with the master password'
+      )
+    })
 
-        // 2. Remote only - should exist
-        for (let i = 0; i < 50; i++) {
-          const id = `http://remote-only-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(remoteBookmarksData[id].tags)
-          )
-        }
+    it('should destroy the cached adapters when the credential vault is locked', async () => {
+      const config: SyncServiceConfig = {
+        id: 'browser-extension-service',
+        type: 'browserExtension',
+        name: 'Browser Extension',
+        credentials: {},
+        target: { extensionId: 'mock-extension-id' },
+        enabled: true,
+        autoSyncEnabled: true,
+        scope: 'all',
+      }
+      syncConfigStore.set({
+        syncServices: [config],
+        activeSyncServiceId: config.id,
+      })
+      const initSpy = vi
+        .spyOn(BrowserExtensionSyncAdapter.prototype, 'init')
+        .mockResolvedValue(undefined)
+      const destroySpy = vi.spyOn(
+        BrowserExtensionSyncAdapter.prototype,
+        'destroy'
+      )
+      credentialVaultStatus.set('unlocked')
+      await syncManager.watchRemoteDataChanges()
+      expect(initSpy).toHaveBeenCalledTimes(1)
 
-        // 3. Common unchanged - should exist with original data (newer strategy means timestamps are compared)
-        for (let i = 0; i < 50; i++) {
-          const id = `http://common-unchanged-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          // Since timestamps are identical, either local or remote could be picked. Meta and tags should be identical.
-          expect(merged.meta.title).toBe(localBookmarks[id].meta.title)
-          expect(merged.meta.updated).toBe(localBookmarks[id].meta.updated)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(localBookmarks[id].tags)
-          )
-        }
+      credentialVaultStatus.set('locked')
 
-        // 4. Local newer - local data should win for meta and tags
-        for (let i = 0; i < 30; i++) {
-          const id = `http://local-newer-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.meta.title).toBe('Local Updated Title')
-          expect(merged.meta.updated).toBe(localBookmarks[id].meta.updated)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(localBookmarks[id].tags)
-          )
-        }
+      expect(destroySpy).toHaveBeenCalledTimes(1)
+      expect(await syncManager.synchronize(config.id)).toBe(false)
+      expect(initSpy).toHaveBeenCalledTimes(1)
 
-        // 5. Remote newer - remote data should win for meta and tags
-        for (let i = 0; i < 30; i++) {
-          const id = `http://remote-newer-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.meta.title).toBe('Remote Updated Title')
-          expect(merged.meta.updated).toBe(remoteBookmarksData[id].meta.updated)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(remoteBookmarksData[id].tags)
-          )
-        }
+      // The watched adapters are created again once the vault is unlocked
+      credentialVaultStatus.set('unlocked')
+      await vi.waitFor(() => {
+        expect(initSpy).toHaveBeenCalledTimes(2)
+      })
+    })
+  })
 
-        // 6. Local deleted (newer) - should be marked as deleted, local meta/tags win due to newer timestamp
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            localBookmarks[id].deletedMeta?.deleted
-          )
-          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
-          // Tags also from local as it's newer overall
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              localBookmarks[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+  describe('Remote data changes', () => {
+    it('should emit remoteDataChanged when the target of an adapter pushes a change', async () => {
+      const config: SyncServiceConfig = {
+        id: 'browser-extension-service',
+        type: 'browserExtension',
+        name: 'Browser Extension',
+        credentials: {},
+        target: { extensionId: 'mock-extension-id' },
+        enabled: true,
+        scope: 'all',
+      }
+      vi.spyOn(BrowserExtensionSyncAdapter.prototype, 'init').mockResolvedValue(
+        undefined
+      )
+      let pushListener: (() => void) | undefined
+      vi.spyOn(
+        BrowserExtensionSyncAdapter.prototype,
+        'onRemoteDataChanged'
+      ).mockImplementation((listener) => {
+        pushListener = listener
+      })
+      const remoteDataChangedSpy = vi.fn()
+      syncManager.on('remoteDataChanged', remoteDataChangedSpy)
 
-        // 7. Remote deleted (newer) - should be marked as deleted, remote meta/tags win
-        for (let i = 0; i < 20; i++) {
-          const id = `http://remote-deleted-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            remoteBookmarksData[id].deletedMeta?.deleted
-          )
-          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
-          // Tags also from remote
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              remoteBookmarksData[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+      // @ts-expect-error - Accessing private member for testing
+      await syncManager.getAdapter(config)
+      pushListener?.()
 
-        // 8. Common bookmarks, local updated, remote deleted (newer) (20)
-        // Expected: Marked as deleted, remote meta/tags win because remote deletion is newer.
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-updated-remote-deleted-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            remoteBookmarksData[id].deletedMeta?.deleted
-          )
-          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
-          // Tags also from remote (excluding DELETED_BOOKMARK_TAG from remote and adding it back)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              remoteBookmarksData[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+      expect(remoteDataChangedSpy).toHaveBeenCalledWith({
+        serviceId: 'browser-extension-service',
+      })
+    })
 
-        // 9. Common bookmarks, local deleted (newer), remote updated (20)
-        // Expected: Marked as deleted, local meta/tags win because local deletion is newer.
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-remote-updated-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            localBookmarks[id].deletedMeta?.deleted
-          )
-          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
-          // Tags also from local (excluding DELETED_BOOKMARK_TAG from local and adding it back)
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              localBookmarks[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+    it('should watch the auto-synced browser extension services before their first sync', async () => {
+      const config: SyncServiceConfig = {
+        id: 'browser-extension-service',
+        type: 'browserExtension',
+        name: 'Browser Extension',
+        credentials: {},
+        target: { extensionId: 'mock-extension-id' },
+        enabled: true,
+        autoSyncEnabled: true,
+        scope: 'all',
+      }
+      syncConfigStore.set({
+        syncServices: [
+          config,
+          { ...config, id: 'manual-service', autoSyncEnabled: false },
+        ],
+        activeSyncServiceId: config.id,
+      })
+      vi.spyOn(BrowserExtensionSyncAdapter.prototype, 'init').mockResolvedValue(
+        undefined
+      )
+      const onRemoteDataChangedSpy = vi.spyOn(
+        BrowserExtensionSyncAdapter.prototype,
+        'onRemoteDataChanged'
+      )
 
-        // 10. Common bookmarks, local deleted (newer), remote deleted (20)
-        // Expected: Marked as deleted, local meta/tags win because local deletion is newer.
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-newer-remote-deleted-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            localBookmarks[id].deletedMeta?.deleted // Local deletion time is newer
-          )
-          expect(merged.meta.title).toBe(localBookmarks[id].meta.title) // Local meta wins
-          // Tags also from local
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              localBookmarks[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+      await syncManager.watchRemoteDataChanges()
 
-        // 11. Common bookmarks, local deleted, remote deleted (newer) (20)
-        // Expected: Marked as deleted, remote meta/tags win because remote deletion is newer.
-        for (let i = 0; i < 20; i++) {
-          const id = `http://local-deleted-remote-deleted-newer-${i}.com`
-          const merged = findMerged(id)
-          expect(merged).toBeDefined()
-          expect(merged.tags).toContain(DELETED_BOOKMARK_TAG)
-          expect(merged.deletedMeta?.deleted).toBe(
-            remoteBookmarksData[id].deletedMeta?.deleted // Remote deletion time is newer
-          )
-          expect(merged.meta.title).toBe(remoteBookmarksData[id].meta.title) // Remote meta wins
-          // Tags also from remote
-          expect(merged.tags).toEqual(
-            expect.arrayContaining(
-              remoteBookmarksData[id].tags
-                .filter((t) => t !== DELETED_BOOKMARK_TAG)
-                .concat(DELETED_BOOKMARK_TAG)
-            )
-          )
-        }
+      expect(onRemoteDataChangedSpy).toHaveBeenCalledTimes(1)
+    })
+  })
 
-        // Verify uploaded data contains the same merged results
-        const findUploaded = (id: string) => uploadedBookmarksData[id]
-        const uploadedLocalNewer = findUploaded(`http://local-newer-0.com`)
-        expect(uploadedLocalNewer?.meta.title).toBe('Local Updated Title')
-        expect(uploadedLocalNewer?.tags).toEqual(
-          expect.arrayContaining(
-            localBookmarks[`http://local-newer-0.com`].tags
-          )
-        )
+  describe('Shared status', () => {
+    it('should share the sync status with other instances', async () => {
+      const otherManager = new SyncManager()
+      const sharedStatusChangeSpy = vi.fn()
+      otherManager.on('sharedStatusChange', sharedStatusChangeSpy)
 
-        const uploadedRemoteDeleted = findUploaded(
-          `http://remote-deleted-0.com`
-        )
-        expect(uploadedRemoteDeleted?.tags).toContain(DELETED_BOOKMARK_TAG)
-        expect(uploadedRemoteDeleted?.meta.title).toBe(
-          remoteBookmarksData[`http://remote-deleted-0.com`].meta.title
-        )
+      // @ts-expect-error - Accessing private member for testing
+      syncManager.updateStatus({ type: 'uploading' })
 
-        newSyncManager.destroy()
+      expect(syncManager.getSharedStatus()).toEqual({ type: 'uploading' })
+      await vi.waitFor(() => {
+        expect(sharedStatusChangeSpy).toHaveBeenCalledWith({
+          type: 'uploading',
+        })
       })
+      expect(otherManager.getSharedStatus()).toEqual({ type: 'uploading' })
+      // The status of another instance does not block local syncs
+      expect(otherManager.getStatus()).toEqual({ type: 'idle' })
+
+      otherManager.destroy()
     })
   })
 
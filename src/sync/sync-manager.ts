@@ -16,40 +16,159 @@ import { getDeviceInfo } from '../utils/device-utils.js'
 import {
   syncConfigStore,
   getSyncServiceById,
+  getSyncServicesInSyncOrder,
+  getMassDeletionThreshold,
   updateSyncService,
   type SyncSettings,
 } from '../stores/sync-config-store.js'
+import {
+  credentialVaultStatus,
+  CredentialVaultError,
+  isCredentialVaultLocked,
+} from '../stores/credential-vault-store.js'
+import {
+  applySyncAppData,
+  getLocalSyncAppData,
+} from '../stores/sync-app-data-store.js'
 import { EventEmitter } from '../lib/event-emitter.js'
 import {
   mergeBookmarks,
+  type MergeConflict,
   type MergeStrategy,
   type SyncOption,
 } from '../lib/bookmark-merge-utils.js'
 import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import { getSyncBase, saveSyncBase } from './sync-base-store.js'
+import {
+  findExpiredTombstones,
+  getLocalTombstoneCutoff,
+  getTombstoneCutoff,
+  isLaggingBehindPurge,
+  purgeExpiredTombstones,
+} from './tombstone-gc.js'
+import {
+  decryptSyncData,
+  encryptSyncData,
+  isEncryptedSyncData,
+} from './sync-encryption.js'
+import {
+  compressSyncData,
+  decompressSyncData,
+  isCompressedSyncData,
+} from './sync-compression.js'
+import {
+  createShardedManifest,
+  createShards,
+  getShardKey,
+  hashShardContent,
+  parseShardedManifest,
+  type ShardedSyncManifest,
+} from './sync-shards.js'
+import { applySyncChanges, createSyncChanges } from './sync-changes.js'
+import { createRestoreUpdates } from './sync-versions.js'
+import { addSyncAuditLogEntry } from './sync-audit-log.js'
+import {
+  createMassDeletionReport,
+  formatMassDeletionCheck,
+  type MassDeletionReport,
+} from './mass-deletion-guard.js'
+import { createSyncPreviewSide, type SyncPreview } from './sync-preview.js'
+import { migrateRemoteBookmarksStore } from './sync-schema-version.js'
+import { SyncHttpError } from './sync-retry.js'
+import {
+  mergeSyncAppData,
+  parseSyncAppData,
+  type SyncAppData,
+} from './sync-app-data.js'
 import { CustomApiSyncAdapter } from './custom-api-sync-adapter.js'
 import { GitHubSyncAdapter } from './git-hub-sync-adapter.js'
+import { GitLabSyncAdapter } from './git-lab-sync-adapter.js'
+import { GiteaSyncAdapter } from './gitea-sync-adapter.js'
 import { BrowserExtensionSyncAdapter } from './browser-extension-sync-adapter.js'
+import { NativeBookmarksSyncAdapter } from './native-bookmarks-sync-adapter.js'
 import { WebDAVSyncAdapter } from './webdav-sync-adapter.js'
+import { S3SyncAdapter } from './s3-sync-adapter.js'
 import type {
+  BrowserExtensionTarget,
   SyncAdapter,
   SyncServiceConfig,
   SyncStatus,
   SyncEvents,
   SyncMetadata,
   AuthStatus,
+  SyncConflictResolution,
+  SyncConflictResolver,
+  SyncMassDeletionConfirmer,
+  SyncVersion,
 } from './types.js'
 
+/**
+ * The name of the BroadcastChannel that shares the sync status with other tabs.
+ */
+const syncStatusChannelName = 'utags-sync-status'
+
+/**
+ * The result of fetching the remote data.
+ */
+type FetchRemoteDataResult = {
+  success: boolean
+  remoteBookmarks?: BookmarksData
+  remoteStoreMeta?: BookmarksStore['meta']
+  remoteSyncMeta?: SyncMetadata
+  isRemoteEncrypted?: boolean
+  remoteManifest?: ShardedSyncManifest
+  /** True if the remote data was rebuilt from the changes of the delta sync protocol */
+  isDeltaSync?: boolean
+}
+
+/**
+ * The merged data to upload and the state of the sync it comes from.
+ */
+type UploadDataOptions = {
+  mergedBookmarks: BookmarksData
+  remoteStoreMeta?: BookmarksStore['meta']
+  remoteSyncMeta?: SyncMetadata
+  hasChangesForRemote: boolean
+  hasChangesForLocal: boolean
+  currentSyncTimestamp: number
+  fetchResult: FetchRemoteDataResult
+}
+
+/**
+ * The changes of a successful merge, added to the merge history.
+ */
+type MergeHistoryEntry = {
+  hasChangesForRemote: boolean
+  hasChangesForLocal: boolean
+  syncTimestamp: number
+  updatesForLocal: BookmarksData
+  updatesForRemote: BookmarksData
+  localDeletions: string[]
+  remoteDeletions: string[]
+}
+
 export class SyncManager extends EventEmitter<SyncEvents> {
   private readonly adapters = new Map<string, SyncAdapter>()
   private currentSettings!: SyncSettings
   private currentSyncStatus: SyncStatus = { type: 'idle' } // Updated initial state
+  // The status of the latest sync of any tab, including this one
+  private sharedSyncStatus: SyncStatus = { type: 'idle' }
+  private readonly statusChannel: BroadcastChannel | undefined
   private readonly unsubscriber: Unsubscriber
+  private readonly vaultStatusUnsubscriber: Unsubscriber
   private readonly defaultMergeStrategy: MergeStrategy = {
     meta: 'merge',
     tags: 'union',
     defaultDate: DEFAULT_DATE,
   } // Default merge strategy
 
+  private conflictResolver: SyncConflictResolver | undefined
+  private massDeletionConfirmer: SyncMassDeletionConfirmer | undefined
+  // The services with a running sync, including syncs waiting for the conflict resolver or the mass deletion confirmer
+  private readonly syncingServiceIds = new Set<string>()
+  // Whether the adapters that push data change notifications are created without a sync
+  private watchesRemoteDataChanges = false
+
   constructor() {
     super()
     this.unsubscriber = syncConfigStore.subscribe((newSettings) => {
@@ -61,6 +180,78 @@ export class SyncManager extends EventEmitter<SyncEvents> {
       this.currentSettings = newSettings
       this.emit('settingsChanged', newSettings)
     })
+    this.vaultStatusUnsubscriber = credentialVaultStatus.subscribe((status) => {
+      // Cached adapters hold the credentials, so a locked tab must not keep them
+      if (status === 'locked') {
+        this.destroyAdapters()
+      } else if (status === 'unlocked' && this.watchesRemoteDataChanges) {
+        // eslint-disable-next-line @typescript-eslint/no-floating-promises
+        this.watchRemoteDataChanges()
+      }
+    })
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.statusChannel = new BroadcastChannel(syncStatusChannelName)
+      this.statusChannel.addEventListener(
+        'message',
+        (event: MessageEvent<SyncStatus>) => {
+          this._setSharedStatus(event.data)
+        }
+      )
+    }
+  }
+
+  /**
+   * Sets the function used to let the user review merge conflicts.
+   * Without a resolver, conflicts are resolved automatically by the merge strategy.
+   * @param resolver - The conflict resolver, or undefined to remove it.
+   */
+  public setConflictResolver(resolver: SyncConflictResolver | undefined): void {
+    this.conflictResolver = resolver
+  }
+
+  /**
+   * Sets the function used to let the user confirm syncs that would delete or overwrite many bookmarks.
+   * Without a confirmer, such syncs are cancelled and stay in the conflict status.
+   * @param confirmer - The mass deletion confirmer, or undefined to remove it.
+   */
+  public setMassDeletionConfirmer(
+    confirmer: SyncMassDeletionConfirmer | undefined
+  ): void {
+    this.massDeletionConfirmer = confirmer
+  }
+
+  /**
+   * Creates the adapters of the auto-synced services whose targets push data change notifications,
+   * so `remoteDataChanged` is emitted even before their first sync in this tab.
+   * While the credential vault is locked, they are created once it is unlocked.
+   */
+  public async watchRemoteDataChanges(): Promise<void> {
+    this.watchesRemoteDataChanges = true
+    // The adapters are created again when the vault is unlocked
+    if (isCredentialVaultLocked()) {
+      return
+    }
+
+    // Only the browser extension pushes notifications
+    const configs = this.currentSettings.syncServices.filter(
+      (config) =>
+        config.type === 'browserExtension' &&
+        config.enabled &&
+        config.autoSyncEnabled
+    )
+    await Promise.all(
+      configs.map(async (config) => {
+        try {
+          await this.getAdapter(config)
+        } catch (error) {
+          console.warn(
+            `[SyncManager] Failed to watch data changes of ${config.name}:`,
+            error
+          )
+        }
+      })
+    )
   }
 
   /**
@@ -74,18 +265,9 @@ export class SyncManager extends EventEmitter<SyncEvents> {
       this.unsubscriber()
     }
 
-    // Destroy all cached adapters
-    for (const [id, adapter] of this.adapters.entries()) {
-      if (typeof adapter.destroy === 'function') {
-        try {
-          adapter.destroy()
-        } catch (error) {
-          console.error(`Error destroying cached adapter (ID: ${id}):`, error)
-        }
-      }
-    }
-
-    this.adapters.clear()
+    this.vaultStatusUnsubscriber()
+    this.destroyAdapters()
+    this.statusChannel?.close()
 
     // Optionally, emit a destroyed event if the EventEmitter supports it
     this.emit('destroyed', '')
@@ -101,6 +283,15 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     return this.currentSyncStatus
   }
 
+  /**
+   * Gets the status of the latest sync of any tab, so all tabs can show the same status.
+   * Unlike `getStatus`, it includes syncs run by other tabs and SyncManager instances.
+   * @returns The shared sync status object.
+   */
+  public getSharedStatus(): SyncStatus {
+    return this.sharedSyncStatus
+  }
+
   /**
    * Initiates a synchronization operation.
    * If serviceId is provided, it syncs that specific service.
@@ -136,20 +327,142 @@ export class SyncManager extends EventEmitter<SyncEvents> {
       return false
     }
 
-    this.updateStatus({ type: 'initializing' })
-
-    let adapter: SyncAdapter
+    this.syncingServiceIds.add(configId)
     try {
-      adapter = await this.getAdapter(serviceConfig!) // serviceConfig is checked in _canStartSync
-    } catch (error: any) {
-      const errMsg = `Sync adapter for ${serviceConfig!.name} (ID: ${configId}) could not be initialized: ${error.message}`
-      console.error(errMsg, error)
-      this.emit('error', { message: errMsg, serviceId: configId, error })
-      this.updateStatus({ type: 'error', error: errMsg })
-      return false
+      this.updateStatus({ type: 'initializing' })
+
+      let adapter: SyncAdapter
+      try {
+        adapter = await this.getAdapter(serviceConfig!) // serviceConfig is checked in _canStartSync
+      } catch (error: any) {
+        const errMsg = `Sync adapter for ${serviceConfig!.name} (ID: ${configId}) could not be initialized: ${error.message}`
+        console.error(errMsg, error)
+        this.emit('error', { message: errMsg, serviceId: configId, error })
+        this.updateStatus({ type: 'error', error: errMsg })
+        await this._saveSyncResult(configId, 'error', errMsg)
+        return false
+      }
+
+      return await this._performSyncOperation(adapter, serviceConfig!)
+    } finally {
+      this.syncingServiceIds.delete(configId)
+    }
+  }
+
+  /**
+   * Synchronizes all enabled sync services one after another, starting with the active service.
+   * A failing service does not stop the synchronization of the other services.
+   * @returns A promise that resolves with the result of each service, keyed by service ID.
+   */
+  public async synchronizeAll(): Promise<Record<string, boolean>> {
+    const results: Record<string, boolean> = {}
+    for (const serviceConfig of getSyncServicesInSyncOrder(
+      this.currentSettings
+    )) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        results[serviceConfig.id] = await this.synchronize(serviceConfig.id)
+      } catch (error) {
+        console.error(
+          `[SyncManager] Synchronization of ${serviceConfig.name} failed:`,
+          error
+        )
+        results[serviceConfig.id] = false
+      }
     }
 
-    return this._performSyncOperation(adapter, serviceConfig!)
+    return results
+  }
+
+  /**
+   * Runs a sync without writing anything, to show what a sync would change.
+   * The remote data is fetched and merged with the local data like in a sync,
+   * but neither side is updated and conflicts are reported instead of resolved.
+   * @param serviceId The ID of the sync service.
+   * @returns The changes a sync would make to each side.
+   * @throws {Error} If a sync is in progress, the service is not found, or the remote data cannot be fetched.
+   */
+  public async preview(serviceId: string): Promise<SyncPreview> {
+    if (this.isSyncInProgress()) {
+      throw new Error('Cannot preview a sync while a sync is in progress.')
+    }
+
+    const serviceConfig = getSyncServiceById(this.currentSettings, serviceId)
+    if (!serviceConfig) {
+      throw new Error(`Sync service with ID ${serviceId} not found.`)
+    }
+
+    // The preview reuses the stages of a sync, which update the status
+    const previousStatus = this.currentSyncStatus
+    try {
+      const adapter = await this.getAdapter(serviceConfig)
+      const fetchResult = await this._fetchRemoteData(adapter, serviceConfig)
+      if (!fetchResult.success) {
+        throw new Error(
+          this._getStatusError() ||
+            `Failed to fetch remote data for ${serviceConfig.name}.`
+        )
+      }
+
+      const { remoteBookmarks } = fetchResult
+      const localData = await bookmarkStorage.getBookmarksData()
+      let mergeResult: Pick<
+        SyncPreview,
+        | 'updatesForLocal'
+        | 'updatesForRemote'
+        | 'localDeletions'
+        | 'remoteDeletions'
+        | 'conflicts'
+      > = {
+        updatesForLocal: {},
+        updatesForRemote: localData,
+        localDeletions: [],
+        remoteDeletions: [],
+        conflicts: [],
+      }
+      if (remoteBookmarks) {
+        const { mergeStrategy, syncOption } = await this._getMergeOptions(
+          serviceConfig,
+          this.defaultMergeStrategy,
+          Date.now(),
+          fetchResult.remoteStoreMeta
+        )
+        mergeResult = await mergeBookmarks(
+          localData,
+          remoteBookmarks,
+          mergeStrategy,
+          syncOption
+        )
+      }
+
+      const {
+        updatesForLocal,
+        updatesForRemote,
+        localDeletions,
+        remoteDeletions,
+        conflicts,
+      } = mergeResult
+      return {
+        serviceId,
+        updatesForLocal,
+        updatesForRemote,
+        localDeletions,
+        remoteDeletions,
+        conflicts,
+        local: createSyncPreviewSide(
+          localData,
+          updatesForLocal,
+          localDeletions
+        ),
+        remote: createSyncPreviewSide(
+          remoteBookmarks,
+          updatesForRemote,
+          remoteDeletions
+        ),
+      }
+    } finally {
+      this.updateStatus(previousStatus)
+    }
   }
 
   /**
@@ -221,7 +534,127 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     }
   }
 
+  /**
+   * Lists the historical versions of the remote data of a sync service.
+   * @param serviceId The ID of the sync service.
+   * @returns A promise that resolves with the versions, newest first.
+   * @throws {Error} If the service is not found, or does not support versions, or listing fails.
+   */
+  public async listVersions(serviceId: string): Promise<SyncVersion[]> {
+    const { adapter } = await this._getVersionAdapter(serviceId)
+    return adapter.listVersions!()
+  }
+
+  /**
+   * Downloads and decodes a historical version of the remote data of a sync service.
+   * @param serviceId The ID of the sync service.
+   * @param versionId The ID of the version.
+   * @returns A promise that resolves with the bookmarks data of the version.
+   * @throws {Error} If the service does not support versions, or the version is not found or cannot be decoded.
+   */
+  public async getVersionData(
+    serviceId: string,
+    versionId: string
+  ): Promise<BookmarksData> {
+    const { adapter, serviceConfig } = await this._getVersionAdapter(serviceId)
+    const versionString = await adapter.downloadVersion!(versionId)
+    if (versionString === undefined) {
+      throw new Error(
+        `Version ${versionId} of ${serviceConfig.name} not found.`
+      )
+    }
+
+    let versionJson = versionString
+    if (isEncryptedSyncData(versionJson)) {
+      versionJson = await decryptSyncData(
+        versionJson,
+        serviceConfig.encryptionPassphrase
+      )
+    }
+
+    if (isCompressedSyncData(versionJson)) {
+      versionJson = await decompressSyncData(versionJson)
+    }
+
+    // Shards of the sharded layout are not versioned, so only the current shards can be used
+    const parseResult = await this._parseRemoteData(
+      adapter,
+      serviceConfig,
+      versionJson
+    )
+    if (!parseResult) {
+      throw new Error(
+        `Failed to decode version ${versionId} of ${serviceConfig.name}.`
+      )
+    }
+
+    return parseResult.remoteStore.data
+  }
+
+  /**
+   * Applies a historical version of the remote data of a sync service to the local bookmarks.
+   * The changes are uploaded to the remote by the next sync.
+   * @param serviceId The ID of the sync service.
+   * @param versionId The ID of the version.
+   * @param mode 'restore' to make the local bookmarks match the version, or 'merge' to merge the version into the local bookmarks.
+   * @returns A promise that resolves with the number of changed local bookmarks.
+   * @throws {Error} If a sync is in progress, or the version cannot be loaded.
+   */
+  public async restoreVersion(
+    serviceId: string,
+    versionId: string,
+    mode: 'restore' | 'merge'
+  ): Promise<number> {
+    if (this.isSyncInProgress()) {
+      throw new Error('Cannot restore a version while a sync is in progress.')
+    }
+
+    const versionData = await this.getVersionData(serviceId, versionId)
+    const localData = await bookmarkStorage.getBookmarksData()
+
+    if (mode === 'restore') {
+      const updates = createRestoreUpdates(localData, versionData)
+      await bookmarkStorage.upsertBookmarks(Object.entries(updates))
+      return Object.keys(updates).length
+    }
+
+    const serviceConfig = getSyncServiceById(this.currentSettings, serviceId)!
+    const { updatesForLocal, localDeletions } = await mergeBookmarks(
+      localData,
+      versionData,
+      { ...this.defaultMergeStrategy, ...serviceConfig.mergeStrategy },
+      { currentSyncTime: Date.now(), lastSyncTime: 0 }
+    )
+    await bookmarkStorage.batchUpdateBookmarks(
+      localDeletions,
+      Object.entries(updatesForLocal)
+    )
+    return localDeletions.length + Object.keys(updatesForLocal).length
+  }
+
+  /**
+   * Destroys the cached adapters and clears the adapter cache.
+   */
+  private destroyAdapters(): void {
+    for (const [id, adapter] of this.adapters.entries()) {
+      if (typeof adapter.destroy === 'function') {
+        try {
+          adapter.destroy()
+        } catch (error) {
+          console.error(`Error destroying cached adapter (ID: ${id}):`, error)
+        }
+      }
+    }
+
+    this.adapters.clear()
+  }
+
   private async getAdapter(config: SyncServiceConfig): Promise<SyncAdapter> {
+    // The vault also holds the encryption passphrases, so no service, not even the browser extension, can sync while it is locked
+    if (isCredentialVaultLocked()) {
+      throw CredentialVaultError.locked()
+    }
+
     if (this.adapters.has(config.id)) {
       const existingAdapter = this.adapters.get(config.id)!
       // Check if re-initialization is needed (e.g., if config object itself changed, not just values within)
@@ -257,6 +690,16 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         break
       }
 
+      case 'gitlab': {
+        adapter = new GitLabSyncAdapter()
+        break
+      }
+
+      case 'gitea': {
+        adapter = new GiteaSyncAdapter()
+        break
+      }
+
       case 'webdav': {
         adapter = new WebDAVSyncAdapter()
         break
@@ -267,8 +710,16 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         break
       }
 
+      case 's3': {
+        adapter = new S3SyncAdapter()
+        break
+      }
+
       case 'browserExtension': {
-        adapter = new BrowserExtensionSyncAdapter()
+        adapter = (config.target as BrowserExtensionTarget | undefined)
+          ?.nativeBookmarks
+          ? new NativeBookmarksSyncAdapter()
+          : new BrowserExtensionSyncAdapter()
         break
       }
 
@@ -280,6 +731,9 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     }
 
     await adapter.init(config)
+    adapter.onRemoteDataChanged?.(() => {
+      this.emit('remoteDataChanged', { serviceId: config.id })
+    })
     this.adapters.set(config.id, adapter)
     return adapter
   }
@@ -291,16 +745,35 @@ export class SyncManager extends EventEmitter<SyncEvents> {
   private updateStatus(newStatus: SyncStatus): void {
     // Basic check for actual change to avoid redundant events
     // This could be more sophisticated for statuses with progress etc.
-    if (this.currentSyncStatus.type !== newStatus.type) {
-      this.currentSyncStatus = newStatus
-      this.emit('statusChange', this.currentSyncStatus)
-    } else if (
-      JSON.stringify(this.currentSyncStatus) !== JSON.stringify(newStatus)
+    if (
+      this.currentSyncStatus.type === newStatus.type &&
+      JSON.stringify(this.currentSyncStatus) === JSON.stringify(newStatus)
     ) {
-      // More thorough check for changes in properties within the same type
-      this.currentSyncStatus = newStatus
-      this.emit('statusChange', this.currentSyncStatus)
+      return
+    }
+
+    this.currentSyncStatus = newStatus
+    this.emit('statusChange', this.currentSyncStatus)
+    this._setSharedStatus(newStatus)
+    try {
+      this.statusChannel?.postMessage(newStatus)
+    } catch (error) {
+      // E.g., conflict details that cannot be cloned
+      console.warn('[SyncManager] Failed to broadcast the sync status:', error)
+    }
+  }
+
+  /**
+   * Updates the shared sync status and emits an event if it changes.
+   * @param status - The status of the latest sync of this or another tab.
+   */
+  private _setSharedStatus(status: SyncStatus): void {
+    if (JSON.stringify(this.sharedSyncStatus) === JSON.stringify(status)) {
+      return
     }
+
+    this.sharedSyncStatus = status
+    this.emit('sharedStatusChange', status)
   }
 
   /**
@@ -315,7 +788,8 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     serviceConfig: SyncServiceConfig | undefined,
     forServiceId: string
   ): boolean {
-    if (this.isSyncInProgress()) {
+    // The status is `conflict` while the user reviews a sync of the service, so check the service as well
+    if (this.isSyncInProgress() || this.syncingServiceIds.has(forServiceId)) {
       this.emit('info', {
         message: `Synchronization already in progress, cannot start sync for ${serviceConfig?.name || 'unkown service'}.`,
         serviceId: forServiceId,
@@ -362,7 +836,8 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         return false // Error handling done in _fetchRemoteData
       }
 
-      const { remoteBookmarks, remoteStoreMeta, remoteSyncMeta } = fetchResult
+      const { remoteBookmarks, remoteSyncMeta } = fetchResult
+      let { remoteStoreMeta } = fetchResult
 
       // Stage 2: Merge Data
       const currentSyncTimestamp = Date.now() // The time of local data fetched
@@ -370,15 +845,14 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         remoteBookmarks,
         serviceConfig,
         this.defaultMergeStrategy,
-        currentSyncTimestamp
+        currentSyncTimestamp,
+        remoteStoreMeta
       )
       if (!mergeResult.success || !mergeResult.mergedBookmarks) {
         return false // Error handling done in _mergeData
       }
 
       const {
-        mergedBookmarks,
-        hasChangesForRemote,
         hasChangesForLocal,
         updatesForLocal,
         updatesForRemote,
@@ -386,28 +860,49 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         remoteDeletions,
       } = mergeResult
 
-      // Stage 3: Upload Data
-      const uploadSuccess = await this._uploadData(
-        adapter,
+      // Purge expired tombstones from the remote data
+      const tombstoneCutoff = getTombstoneCutoff(
+        this.currentSettings.tombstoneRetentionDays,
+        currentSyncTimestamp
+      )
+      const purgeResult = this._purgeRemoteTombstones(
         serviceConfig,
+        mergeResult.mergedBookmarks,
+        remoteStoreMeta,
+        tombstoneCutoff
+      )
+      const { mergedBookmarks } = purgeResult
+      const hasChangesForRemote =
+        mergeResult.hasChangesForRemote ||
+        purgeResult.purged ||
+        this._isRemoteFormatChanged(serviceConfig, fetchResult)
+      remoteStoreMeta = purgeResult.remoteStoreMeta
+
+      // Stage 3: Upload Data
+      const uploadSuccess = await this._uploadData(adapter, serviceConfig, {
         mergedBookmarks,
         remoteStoreMeta,
         remoteSyncMeta,
-        hasChangesForRemote!,
-        hasChangesForLocal!,
-        currentSyncTimestamp
-      )
+        hasChangesForRemote,
+        hasChangesForLocal: hasChangesForLocal!,
+        currentSyncTimestamp,
+        fetchResult,
+      })
 
-      if (uploadSuccess && (hasChangesForRemote || hasChangesForLocal)) {
-        this.logMergeHistory(
+      if (uploadSuccess) {
+        await this._finishSync(
+          adapter,
           serviceConfig,
-          hasChangesForRemote!,
-          hasChangesForLocal!,
-          currentSyncTimestamp,
-          updatesForLocal!,
-          updatesForRemote!,
-          localDeletions!,
-          remoteDeletions!
+          {
+            hasChangesForRemote,
+            hasChangesForLocal: hasChangesForLocal!,
+            syncTimestamp: currentSyncTimestamp,
+            updatesForLocal: updatesForLocal!,
+            updatesForRemote: updatesForRemote!,
+            localDeletions: localDeletions!,
+            remoteDeletions: remoteDeletions!,
+          },
+          tombstoneCutoff
         )
       }
 
@@ -446,6 +941,7 @@ export class SyncManager extends EventEmitter<SyncEvents> {
             : (this.currentSyncStatus as any).error ||
               (this.currentSyncStatus as any).details,
       })
+      await this._saveSyncResult(serviceConfig.id, finalEventType)
 
       // Reset to idle only if the operation was successful.
       // If it was an error or conflict, the status should remain as such.
@@ -471,6 +967,7 @@ export class SyncManager extends EventEmitter<SyncEvents> {
 
   /**
    * Fetches remote data and metadata from the adapter.
+   * Uses the delta sync protocol if possible, and falls back to downloading the whole file.
    * @param adapter The sync adapter.
    * @param serviceConfig The sync service configuration.
    * @returns An object containing success status, remote bookmarks, and remote metadata.
@@ -478,42 +975,134 @@ export class SyncManager extends EventEmitter<SyncEvents> {
   private async _fetchRemoteData(
     adapter: SyncAdapter,
     serviceConfig: SyncServiceConfig
-  ): Promise<{
-    success: boolean
-    remoteBookmarks?: BookmarksData
-    remoteStoreMeta?: BookmarksStore['meta']
-    remoteSyncMeta?: SyncMetadata
-  }> {
-    try {
-      this.updateStatus({ type: 'checking' })
-      console.log(
-        `[SyncManager] Fetching remote metadata for ${serviceConfig.name}...`
-      )
-      const initialRemoteSyncMeta = await adapter.getRemoteMetadata()
+  ): Promise<FetchRemoteDataResult> {
+    const changesResult = await this._fetchRemoteChanges(adapter, serviceConfig)
+    return changesResult || this._fetchRemoteFile(adapter, serviceConfig)
+  }
 
-      this.updateStatus({ type: 'downloading' })
-      console.log(
-        `[SyncManager] Downloading remote data for ${serviceConfig.name}...`
-      )
-      const { data: remoteDataString, remoteMeta: downloadRemoteSyncMeta } =
-        await adapter.download()
+  /**
+   * Checks if the delta sync protocol can be used with the service.
+   * The changes are exchanged as plain data, so delta sync is not used with encryption, compression, or sharding.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @returns True if delta sync can be used.
+   */
+  private _isDeltaSyncEnabled(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig
+  ): boolean {
+    return (
+      Boolean(adapter.downloadChanges && adapter.uploadChanges) &&
+      !serviceConfig.encryptionPassphrase &&
+      !serviceConfig.compression &&
+      !serviceConfig.shardCount
+    )
+  }
 
-      // Validate data integrity if this is not the first sync
-      if (
-        serviceConfig.lastDataChangeTimestamp &&
-        serviceConfig.lastDataChangeTimestamp > 0
-      ) {
-        const missingData: string[] = []
+  /**
+   * Fetches the remote changes since the last sync with the delta sync protocol,
+   * and applies them to the sync base to rebuild the remote data.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @returns The fetch result, or undefined if delta sync is not available and the whole file must be downloaded.
+   */
+  private async _fetchRemoteChanges(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig
+  ): Promise<FetchRemoteDataResult | undefined> {
+    const since = serviceConfig.lastSyncMeta?.cursor
+    if (!since || !this._isDeltaSyncEnabled(adapter, serviceConfig)) {
+      return undefined
+    }
 
-        if (!initialRemoteSyncMeta) {
-          missingData.push('initialRemoteSyncMeta')
-        }
+    // The changes are based on the remote data of the last sync
+    const baseData = await getSyncBase(serviceConfig)
+    if (!baseData) {
+      return undefined
+    }
 
-        if (!downloadRemoteSyncMeta) {
-          missingData.push('downloadRemoteSyncMeta')
-        }
+    try {
+      this.updateStatus({ type: 'downloading' })
+      console.log(
+        `[SyncManager] Downloading remote changes for ${serviceConfig.name}...`
+      )
+      const result = await adapter.downloadChanges!(since)
+      // The changes are uploaded based on the new cursor, so sync the whole file without it
+      if (!result?.remoteMeta.cursor) {
+        return undefined
+      }
 
-        if (!remoteDataString || remoteDataString.trim() === '') {
+      const remoteStore = migrateRemoteBookmarksStore({
+        data: applySyncChanges(baseData, result.changes),
+        meta: result.changes.meta,
+      })
+      return {
+        success: true,
+        remoteBookmarks: remoteStore.data,
+        remoteStoreMeta: remoteStore.meta,
+        remoteSyncMeta: result.remoteMeta,
+        isDeltaSync: true,
+      }
+    } catch (error: any) {
+      console.error(
+        `Error fetching remote changes for ${serviceConfig.name}:`,
+        error
+      )
+      const errorMessage = `Failed to fetch remote changes for ${serviceConfig.name}: ${error.message}`
+      this.emit('error', {
+        message: errorMessage,
+        serviceId: serviceConfig.id,
+        error: error instanceof Error ? error : new Error(String(error)),
+      })
+      this.updateStatus({
+        type: 'error',
+        error: errorMessage,
+        lastAttemptTime: Date.now(),
+      })
+      return { success: false }
+    }
+  }
+
+  /**
+   * Downloads the whole remote file and parses it.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @returns An object containing success status, remote bookmarks, and remote metadata.
+   */
+  private async _fetchRemoteFile(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig
+  ): Promise<FetchRemoteDataResult> {
+    try {
+      this.updateStatus({ type: 'checking' })
+      console.log(
+        `[SyncManager] Fetching remote metadata for ${serviceConfig.name}...`
+      )
+      const initialRemoteSyncMeta = await adapter.getRemoteMetadata()
+
+      this.updateStatus({ type: 'downloading' })
+      console.log(
+        `[SyncManager] Downloading remote data for ${serviceConfig.name}...`
+      )
+      const { data: remoteDataString, remoteMeta: downloadRemoteSyncMeta } =
+        await adapter.download()
+
+      // Validate data integrity if this is not the first sync
+      if (
+        serviceConfig.lastDataChangeTimestamp &&
+        serviceConfig.lastDataChangeTimestamp > 0
+      ) {
+        const missingData: string[] = []
+
+        if (!initialRemoteSyncMeta) {
+          missingData.push('initialRemoteSyncMeta')
+        }
+
+        if (!downloadRemoteSyncMeta) {
+          missingData.push('downloadRemoteSyncMeta')
+        }
+
+        if (!remoteDataString || remoteDataString.trim() === '') {
           missingData.push('remoteDataString')
         }
 
@@ -536,10 +1125,31 @@ export class SyncManager extends EventEmitter<SyncEvents> {
 
       let remoteBookmarks: BookmarksData | undefined
       let remoteStoreMeta: BookmarksStore['meta'] | undefined
+      let isRemoteEncrypted = false
+      let remoteManifest: ShardedSyncManifest | undefined
 
       if (remoteDataString && remoteDataString.trim() !== '') {
+        isRemoteEncrypted = isEncryptedSyncData(remoteDataString)
+        const remoteJson = await this._decodeRemoteData(
+          remoteDataString,
+          serviceConfig
+        )
+        if (remoteJson === undefined) {
+          return { success: false } // Error handling done in _decodeRemoteData
+        }
+
         try {
-          const remoteStore = JSON.parse(remoteDataString) as BookmarksStore
+          const parsedRemoteData = await this._parseRemoteData(
+            adapter,
+            serviceConfig,
+            remoteJson
+          )
+          if (!parsedRemoteData) {
+            return { success: false } // Error handling done in _decodeRemoteData
+          }
+
+          const { remoteStore } = parsedRemoteData
+          remoteManifest = parsedRemoteData.remoteManifest
           remoteBookmarks = remoteStore.data
           remoteStoreMeta = remoteStore.meta
 
@@ -588,6 +1198,8 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         remoteBookmarks,
         remoteStoreMeta,
         remoteSyncMeta: downloadRemoteSyncMeta || initialRemoteSyncMeta,
+        isRemoteEncrypted,
+        remoteManifest,
       }
     } catch (error: any) {
       console.error(
@@ -609,19 +1221,228 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     }
   }
 
+  /**
+   * Checks if encryption or the number of shards was changed since the remote data was uploaded,
+   * in which case the remote data must be uploaded again.
+   * @param serviceConfig The sync service configuration.
+   * @param fetchResult The result of fetching the remote data.
+   * @returns True if the remote data does not match the encryption or sharding setting.
+   */
+  private _isRemoteFormatChanged(
+    serviceConfig: SyncServiceConfig,
+    fetchResult: {
+      remoteBookmarks?: BookmarksData
+      isRemoteEncrypted?: boolean
+      remoteManifest?: ShardedSyncManifest
+    }
+  ): boolean {
+    return (
+      fetchResult.remoteBookmarks !== undefined &&
+      (Boolean(serviceConfig.encryptionPassphrase) !==
+        Boolean(fetchResult.isRemoteEncrypted) ||
+        (serviceConfig.shardCount || 0) !==
+          (fetchResult.remoteManifest?.shardCount || 0))
+    )
+  }
+
+  /**
+   * Parses the decoded remote data, downloading the shards if it uses the sharded layout.
+   * Remote data of an older database version is migrated to the current version.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param remoteJson The decoded remote data.
+   * @returns The remote bookmarks store and manifest, or undefined if decoding a shard failed.
+   * @throws {SyncSchemaVersionError} If the remote data was written by a newer version of the app.
+   */
+  private async _parseRemoteData(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    remoteJson: string
+  ): Promise<
+    | { remoteStore: BookmarksStore; remoteManifest?: ShardedSyncManifest }
+    | undefined
+  > {
+    const remoteManifest = parseShardedManifest(remoteJson)
+    if (!remoteManifest) {
+      return {
+        remoteStore: migrateRemoteBookmarksStore(
+          JSON.parse(remoteJson) as BookmarksStore
+        ),
+      }
+    }
+
+    const remoteStore = await this._downloadShards(
+      adapter,
+      serviceConfig,
+      remoteManifest
+    )
+    return (
+      remoteStore && {
+        remoteStore: migrateRemoteBookmarksStore(remoteStore),
+        remoteManifest,
+      }
+    )
+  }
+
+  /**
+   * Downloads the shards of the sharded remote layout.
+   * Shards that did not change since the last sync are taken from the sync base instead of being downloaded.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param manifest The remote manifest.
+   * @returns The remote bookmarks store, or undefined if decoding a shard failed.
+   * @throws {Error} If the adapter does not support shards, or a shard is missing or does not match the manifest.
+   */
+  private async _downloadShards(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    manifest: ShardedSyncManifest
+  ): Promise<BookmarksStore | undefined> {
+    if (!adapter.downloadShard) {
+      throw new Error(
+        `${serviceConfig.name} does not support the sharded remote layout.`
+      )
+    }
+
+    const baseData = await getSyncBase(serviceConfig)
+    const baseShards = baseData
+      ? await createShards(baseData, manifest.shardCount)
+      : []
+    const baseShardsById = new Map(baseShards.map((shard) => [shard.id, shard]))
+
+    const shardEntries = Object.entries(manifest.shards).filter(
+      ([, shard]) => shard.count > 0
+    )
+    const changedEntries = shardEntries.filter(
+      ([id, shard]) => baseShardsById.get(id)?.hash !== shard.hash
+    )
+    console.log(
+      `[SyncManager] Downloading ${changedEntries.length} of ${shardEntries.length} shards for ${serviceConfig.name}...`
+    )
+
+    const data: BookmarksData = {}
+    for (const [id, shard] of shardEntries) {
+      if (baseShardsById.get(id)?.hash === shard.hash) {
+        Object.assign(data, baseShardsById.get(id)!.data)
+      }
+    }
+
+    const downloadedShards = await Promise.all(
+      changedEntries.map(async ([id, shard]) => {
+        const shardKey = getShardKey(id, shard)
+        const shardString = await adapter.downloadShard!(shardKey)
+        if (!shardString) {
+          throw new Error(
+            `Shard ${shardKey} not found. The remote data may have changed during the sync.`
+          )
+        }
+
+        const shardJson = await this._decodeRemoteData(
+          shardString,
+          serviceConfig
+        )
+        if (
+          shardJson !== undefined &&
+          (await hashShardContent(shardJson)) !== shard.hash
+        ) {
+          throw new Error(`Shard ${shardKey} does not match the manifest.`)
+        }
+
+        return shardJson
+      })
+    )
+
+    for (const shardJson of downloadedShards) {
+      if (shardJson === undefined) {
+        return undefined
+      }
+
+      Object.assign(data, JSON.parse(shardJson) as BookmarksData)
+    }
+
+    return { data, meta: manifest.storeMeta }
+  }
+
+  /**
+   * Decrypts and decompresses the downloaded remote data if needed.
+   * The format is detected from the data, not from the service configuration,
+   * so plain remote data is returned as is and devices with different settings can sync.
+   * @param remoteDataString The downloaded remote data.
+   * @param serviceConfig The sync service configuration.
+   * @returns The decoded data, or undefined if decoding failed.
+   */
+  private async _decodeRemoteData(
+    remoteDataString: string,
+    serviceConfig: SyncServiceConfig
+  ): Promise<string | undefined> {
+    try {
+      return await this._decodeData(remoteDataString, serviceConfig)
+    } catch (error) {
+      // `_decodeData` only throws errors with the failed step in the message
+      const decodeError = error as Error
+      console.error(decodeError.message, decodeError.cause)
+      this.emit('error', {
+        message: decodeError.message,
+        serviceId: serviceConfig.id,
+        error:
+          decodeError.cause instanceof Error ? decodeError.cause : decodeError,
+      })
+      this.updateStatus({
+        type: 'error',
+        error: decodeError.message,
+        lastAttemptTime: Date.now(),
+      })
+      return undefined
+    }
+  }
+
+  /**
+   * Decrypts and decompresses downloaded data.
+   * @param remoteDataString The downloaded data.
+   * @param serviceConfig The sync service configuration.
+   * @returns The decoded data.
+   * @throws {Error} If the data cannot be decrypted or decompressed, with the original error as cause.
+   */
+  private async _decodeData(
+    remoteDataString: string,
+    serviceConfig: SyncServiceConfig
+  ): Promise<string> {
+    let data = remoteDataString
+    let step = 'decrypt'
+    try {
+      if (isEncryptedSyncData(data)) {
+        data = await decryptSyncData(data, serviceConfig.encryptionPassphrase)
+      }
+
+      step = 'decompress'
+      if (isCompressedSyncData(data)) {
+        data = await decompressSyncData(data)
+      }
+
+      return data
+    } catch (error) {
+      throw new Error(
+        `Failed to ${step} remote data for ${serviceConfig.name}: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      )
+    }
+  }
+
   /**
    * Merges local and remote bookmark data.
    * @param localData Local bookmarks data.
    * @param remoteBookmarks Remote bookmarks data.
    * @param serviceConfig The sync service configuration.
    * @param defaultMergeStrategy The default merge strategy.
+   * @param remoteStoreMeta The meta of the remote bookmarks store.
    * @returns An object containing success status, merged bookmarks, deleted URLs, and changes.
    */
   private async _mergeData(
     remoteBookmarks: BookmarksData | undefined,
     serviceConfig: SyncServiceConfig,
     defaultMergeStrategy: MergeStrategy,
-    currentSyncTimestamp: number
+    currentSyncTimestamp: number,
+    remoteStoreMeta?: BookmarksStore['meta']
   ): Promise<{
     success: boolean
     mergedBookmarks?: BookmarksData
@@ -632,18 +1453,15 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     localDeletions?: string[]
     remoteDeletions?: string[]
   }> {
-    const mergeStrategy = {
-      ...defaultMergeStrategy,
-      ...serviceConfig.mergeStrategy,
-    }
-    const syncOption: SyncOption = {
-      currentSyncTime: currentSyncTimestamp,
-      lastSyncTime: serviceConfig.lastDataChangeTimestamp || 0,
-    }
-
     this.updateStatus({ type: 'merging' })
+    const { mergeStrategy, syncOption } = await this._getMergeOptions(
+      serviceConfig,
+      defaultMergeStrategy,
+      currentSyncTimestamp,
+      remoteStoreMeta
+    )
     console.log(
-      `[SyncManager] Merging local and remote data for ${serviceConfig.name}: with merge strategy ${JSON.stringify(mergeStrategy)} and sync option ${JSON.stringify(syncOption)} ...`
+      `[SyncManager] Merging local and remote data for ${serviceConfig.name}: with merge strategy ${JSON.stringify(mergeStrategy)} and sync option ${JSON.stringify({ ...syncOption, baseData: undefined })} ...`
     )
 
     try {
@@ -676,14 +1494,12 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         localDeletions,
         remoteDeletions,
         finalRemoteData,
+        conflicts,
       } = mergedDataResult
 
-      // Check for conflicts, not supported yet
-      const conflicts: string[] = []
-
       console.log('mergedDataResult', mergedDataResult)
 
-      if (conflicts && conflicts.length > 0) {
+      if (conflicts.length > 0 && this.conflictResolver) {
         console.warn(
           `Merge conflicts identified for ${serviceConfig.name}:`,
           conflicts
@@ -697,6 +1513,34 @@ export class SyncManager extends EventEmitter<SyncEvents> {
           serviceId: serviceConfig.id,
           details: conflicts,
         })
+
+        // Wait for the user to review the conflicts before applying anything
+        const resolutions = await this.conflictResolver(
+          serviceConfig.id,
+          conflicts
+        )
+        if (!resolutions) {
+          console.log(
+            `[SyncManager] Conflict resolution cancelled for ${serviceConfig.name}.`
+          )
+          return { success: false }
+        }
+
+        this._applyConflictResolutions(mergedDataResult, conflicts, resolutions)
+        this.updateStatus({ type: 'merging' })
+      }
+
+      if (
+        !(await this._confirmMassDeletion(
+          serviceConfig,
+          createMassDeletionReport(
+            localData,
+            remoteBookmarks,
+            mergedDataResult,
+            getMassDeletionThreshold(this.currentSettings)
+          )
+        ))
+      ) {
         return { success: false }
       }
 
@@ -759,27 +1603,148 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     }
   }
 
+  /**
+   * Pauses a sync that exceeds the mass deletion threshold in the conflict status and asks the user to confirm it.
+   * @param serviceConfig The sync service configuration.
+   * @param report The sides that exceed the threshold, or undefined if the sync is within the threshold.
+   * @returns True if the sync may continue.
+   */
+  private async _confirmMassDeletion(
+    serviceConfig: SyncServiceConfig,
+    report: MassDeletionReport | undefined
+  ): Promise<boolean> {
+    if (!report) {
+      return true
+    }
+
+    const sides = [
+      report.local && `this device: ${formatMassDeletionCheck(report.local)}`,
+      report.remote && `remote: ${formatMassDeletionCheck(report.remote)}`,
+    ].filter(Boolean)
+    const message = `The sync with ${serviceConfig.name} would delete or overwrite many bookmarks (${sides.join('; ')}). Confirm the sync to continue.`
+    console.warn(`[SyncManager] ${message}`)
+    this.updateStatus({
+      type: 'conflict',
+      details: message,
+      lastAttemptTime: Date.now(),
+    })
+    this.emit('syncConflict', {
+      serviceId: serviceConfig.id,
+      details: message,
+    })
+
+    if (
+      !this.massDeletionConfirmer ||
+      !(await this.massDeletionConfirmer(serviceConfig.id, report))
+    ) {
+      console.log(
+        `[SyncManager] Mass deletion not confirmed for ${serviceConfig.name}.`
+      )
+      return false
+    }
+
+    this.updateStatus({ type: 'merging' })
+    return true
+  }
+
+  /**
+   * Builds the merge strategy and the sync option for merging the local and the remote data of a service.
+   * @param serviceConfig The sync service configuration.
+   * @param defaultMergeStrategy The default merge strategy, overridden by the service's merge strategy.
+   * @param currentSyncTimestamp The time of the sync.
+   * @param remoteStoreMeta The metadata of the remote data.
+   * @returns The merge strategy and the sync option, including the sync base for a three-way merge if it exists.
+   */
+  private async _getMergeOptions(
+    serviceConfig: SyncServiceConfig,
+    defaultMergeStrategy: MergeStrategy,
+    currentSyncTimestamp: number,
+    remoteStoreMeta?: BookmarksStore['meta']
+  ): Promise<{ mergeStrategy: MergeStrategy; syncOption: SyncOption }> {
+    const mergeStrategy = {
+      ...defaultMergeStrategy,
+      ...serviceConfig.mergeStrategy,
+    }
+    if (
+      isLaggingBehindPurge(
+        remoteStoreMeta?.tombstonesPurgedBefore,
+        serviceConfig.lastSyncTimestamp
+      )
+    ) {
+      // Tombstones this device has not received were purged from the remote,
+      // so bookmarks the remote no longer has were deleted there
+      mergeStrategy.updateOverDelete = false
+    }
+
+    const syncOption: SyncOption = {
+      currentSyncTime: currentSyncTimestamp,
+      lastSyncTime: serviceConfig.lastDataChangeTimestamp || 0,
+    }
+
+    // The remote data of the last successful sync enables a three-way merge
+    const baseData = await getSyncBase(serviceConfig)
+    if (baseData) {
+      syncOption.baseData = baseData
+    }
+
+    return { mergeStrategy, syncOption }
+  }
+
+  /**
+   * Replaces the merged versions of conflicting bookmarks with the versions chosen by the user.
+   * The chosen data keeps the timestamps of the merged version, so it is applied to both sides.
+   * @param mergeResult The result of `mergeBookmarks`, updated in place.
+   * @param conflicts The conflicts reported by `mergeBookmarks`.
+   * @param resolutions The versions chosen by the user.
+   */
+  private _applyConflictResolutions(
+    mergeResult: Awaited<ReturnType<typeof mergeBookmarks>>,
+    conflicts: MergeConflict[],
+    resolutions: SyncConflictResolution[]
+  ): void {
+    for (const { url, data } of resolutions) {
+      const conflict = conflicts.find((item) => item.url === url)
+      if (!conflict) {
+        continue
+      }
+
+      const { created, updated, updated2, updated3 } = conflict.merged.meta
+      const resolved = structuredClone(data)
+      resolved.meta = { ...resolved.meta, created, updated, updated3 }
+      if (updated2) {
+        resolved.meta.updated2 = updated2
+      } else {
+        delete resolved.meta.updated2
+      }
+
+      mergeResult.updatesForLocal[url] = resolved
+      mergeResult.updatesForRemote[url] = resolved
+      mergeResult.finalLocalData[url] = resolved
+      mergeResult.finalRemoteData[url] = resolved
+    }
+  }
+
   /**
    * Uploads merged data to the remote server.
    * @param adapter The sync adapter.
    * @param serviceConfig The sync service configuration.
-   * @param mergedBookmarks The merged bookmarks data.
-   * @param localData The original local data (for comparison).
-   * @param downloadRemoteMeta Metadata from the download step.
-   * @param changes Calculated changes (added, updated, removed).
-   * @param deletedUrls URLs that were deleted during the merge.
+   * @param options The merged bookmarks data and the state of the sync.
    * @returns A promise that resolves to true if upload is successful, false otherwise.
    */
   private async _uploadData(
     adapter: SyncAdapter,
     serviceConfig: SyncServiceConfig,
-    mergedBookmarks: BookmarksData,
-    remoteStoreMeta: BookmarksStore['meta'] | undefined,
-    remoteSyncMeta: SyncMetadata | undefined,
-    hasChangesForRemote: boolean,
-    hasChangesForLocal: boolean,
-    currentSyncTimestamp: number
+    options: UploadDataOptions
   ): Promise<boolean> {
+    const {
+      mergedBookmarks,
+      remoteStoreMeta,
+      remoteSyncMeta,
+      hasChangesForRemote,
+      hasChangesForLocal,
+      currentSyncTimestamp,
+      fetchResult,
+    } = options
     // Create a single timestamp for consistency across the function
     const operationTimestamp = Date.now()
 
@@ -811,6 +1776,8 @@ export class SyncManager extends EventEmitter<SyncEvents> {
               databaseVersion: CURRENT_DATABASE_VERSION,
               created: operationTimestamp,
             }),
+            // The version of the app that wrote the data
+            databaseVersion: CURRENT_DATABASE_VERSION,
             updated: operationTimestamp,
             stats,
             lastUploadDevice: {
@@ -828,9 +1795,16 @@ export class SyncManager extends EventEmitter<SyncEvents> {
         }
 
         // console.log('Uploading', prettyPrintJson(bookmarksStore))
-        const newRemoteMeta = await adapter.upload(
-          prettyPrintJson(normalizeBookmarkData(bookmarksStore)),
-          remoteSyncMeta // Pass metadata for conditional upload
+        const newRemoteMeta = await this._withRemoteLock(
+          adapter,
+          serviceConfig,
+          async () =>
+            this._uploadStore(
+              adapter,
+              serviceConfig,
+              normalizeBookmarkData(bookmarksStore),
+              fetchResult
+            )
         )
 
         const updatedServiceConfig: SyncServiceConfig = {
@@ -839,6 +1813,7 @@ export class SyncManager extends EventEmitter<SyncEvents> {
           lastDataChangeTimestamp: currentSyncTimestamp,
           lastSyncMeta: newRemoteMeta,
         }
+        await this._saveSyncBase(updatedServiceConfig, mergedBookmarks)
         updateSyncService(updatedServiceConfig)
 
         this.updateStatus({
@@ -899,6 +1874,7 @@ export class SyncManager extends EventEmitter<SyncEvents> {
           : serviceConfig.lastDataChangeTimestamp,
         lastSyncMeta: remoteSyncMeta || serviceConfig.lastSyncMeta,
       }
+      await this._saveSyncBase(updatedServiceConfig, mergedBookmarks)
       updateSyncService(updatedServiceConfig)
 
       this.updateStatus({ type: 'success', lastSyncTime: currentSyncTimestamp })
@@ -910,57 +1886,418 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     }
   }
 
+  /**
+   * Runs the steps that follow a successful upload: logs the merge history,
+   * purges the expired local tombstones and syncs the app data.
+   * The bookmarks are already synced, so a failed app data sync only gets its own audit log entry.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param mergeHistoryEntry The changes of the merge.
+   * @param tombstoneCutoff The cutoff of the tombstone purge, undefined if tombstones are kept.
+   */
+  private async _finishSync(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    mergeHistoryEntry: MergeHistoryEntry,
+    tombstoneCutoff: number | undefined
+  ): Promise<void> {
+    if (
+      mergeHistoryEntry.hasChangesForRemote ||
+      mergeHistoryEntry.hasChangesForLocal
+    ) {
+      await this.logMergeHistory(serviceConfig, mergeHistoryEntry)
+    }
+
+    if (tombstoneCutoff) {
+      await this._purgeLocalTombstones(tombstoneCutoff)
+    }
+
+    try {
+      await this._syncAppData(adapter, serviceConfig)
+    } catch (error) {
+      const errorMessage = `Failed to sync the app data of ${serviceConfig.name}: ${error instanceof Error ? error.message : String(error)}`
+      console.error(`[SyncManager] ${errorMessage}`)
+      await addSyncAuditLogEntry(serviceConfig, 'error', {}, errorMessage)
+    }
+  }
+
+  /**
+   * Syncs the app data categories of the service, such as collections, with the app data file next to the sync file.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @throws {Error} If the remote app data cannot be decoded or the upload fails.
+   */
+  private async _syncAppData(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig
+  ): Promise<void> {
+    const categories = serviceConfig.syncCategories
+    if (!categories?.length) {
+      return
+    }
+
+    if (!adapter.downloadAppData || !adapter.uploadAppData) {
+      console.warn(
+        `[SyncManager] ${serviceConfig.name} does not support syncing collections, saved filters and preferences.`
+      )
+      return
+    }
+
+    const remoteString = await adapter.downloadAppData()
+    let remoteAppData: SyncAppData | undefined
+    if (remoteString) {
+      const remoteJson = await this._decodeData(remoteString, serviceConfig)
+      remoteAppData = parseSyncAppData(remoteJson)
+      if (!remoteAppData) {
+        throw new Error(
+          `The app data of ${serviceConfig.name} has an unsupported format.`
+        )
+      }
+    }
+
+    const mergedAppData = mergeSyncAppData(
+      getLocalSyncAppData(categories),
+      remoteAppData,
+      categories
+    )
+    applySyncAppData(mergedAppData, categories)
+    if (JSON.stringify(mergedAppData) !== JSON.stringify(remoteAppData)) {
+      console.log(
+        `[SyncManager] Uploading collections, saved filters and preferences for ${serviceConfig.name}...`
+      )
+      await adapter.uploadAppData(
+        await this._encodeData(prettyPrintJson(mergedAppData), serviceConfig)
+      )
+    }
+  }
+
+  /**
+   * Runs an upload while holding the lock of the remote data, if the adapter supports locking,
+   * so two devices cannot overwrite each other's uploads.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param upload The upload to run.
+   * @returns The result of the upload.
+   * @throws {SyncHttpError} With status 423 if another device holds the lock.
+   */
+  private async _withRemoteLock<T>(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    upload: () => Promise<T>
+  ): Promise<T> {
+    if (!adapter.acquireLock) {
+      return upload()
+    }
+
+    if (!(await adapter.acquireLock())) {
+      throw new SyncHttpError(
+        `The remote data of ${serviceConfig.name} is locked by another device`,
+        423
+      )
+    }
+
+    try {
+      return await upload()
+    } finally {
+      try {
+        await adapter.releaseLock?.()
+      } catch (error) {
+        console.warn(
+          `[SyncManager] Failed to release the lock of ${serviceConfig.name}:`,
+          error
+        )
+      }
+    }
+  }
+
+  /**
+   * Uploads the bookmarks store as changes with the delta sync protocol if the remote data was fetched with it,
+   * or as the whole file otherwise.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param bookmarksStore The normalized bookmarks store to upload.
+   * @param fetchResult The result of fetching the remote data.
+   * @returns The new sync metadata.
+   */
+  private async _uploadStore(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    bookmarksStore: BookmarksStore,
+    fetchResult: FetchRemoteDataResult
+  ): Promise<SyncMetadata> {
+    const { remoteBookmarks, remoteSyncMeta, remoteManifest } = fetchResult
+    if (fetchResult.isDeltaSync) {
+      const changes = createSyncChanges(remoteBookmarks!, bookmarksStore)
+      console.log(
+        `[SyncManager] Uploading ${Object.keys(changes.changed).length} changed and ${changes.deleted.length} deleted bookmarks for ${serviceConfig.name}...`
+      )
+      // `_fetchRemoteChanges` only uses delta sync with a new cursor
+      return adapter.uploadChanges!(changes, remoteSyncMeta!.cursor!)
+    }
+
+    const manifest = serviceConfig.shardCount
+      ? await this._uploadShards(
+          adapter,
+          serviceConfig,
+          bookmarksStore,
+          remoteManifest
+        )
+      : undefined
+    const dataToUpload = await this._encodeData(
+      prettyPrintJson(manifest || bookmarksStore),
+      serviceConfig
+    )
+
+    const newRemoteMeta = await adapter.upload(
+      dataToUpload,
+      remoteSyncMeta // Pass metadata for conditional upload
+    )
+    await this._deleteUnusedShards(
+      adapter,
+      serviceConfig,
+      remoteManifest,
+      manifest
+    )
+    return newRemoteMeta
+  }
+
+  /**
+   * Compresses and encrypts data for upload, as configured for the service.
+   * @param data The stringified data.
+   * @param serviceConfig The sync service configuration.
+   * @returns The data to upload.
+   */
+  private async _encodeData(
+    data: string,
+    serviceConfig: SyncServiceConfig
+  ): Promise<string> {
+    let encodedData = data
+    // Compress before encrypting, as encrypted data does not compress
+    if (serviceConfig.compression) {
+      encodedData = await compressSyncData(
+        encodedData,
+        serviceConfig.compression
+      )
+    }
+
+    if (serviceConfig.encryptionPassphrase) {
+      encodedData = await encryptSyncData(
+        encodedData,
+        serviceConfig.encryptionPassphrase
+      )
+    }
+
+    return encodedData
+  }
+
+  /**
+   * Uploads the shards of the sharded remote layout that changed since the remote manifest.
+   * The manifest must be uploaded afterwards, so other devices never see a manifest with missing shards.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param bookmarksStore The normalized bookmarks store to upload.
+   * @param remoteManifest The remote manifest, if the remote data uses the sharded layout.
+   * @returns The new manifest.
+   * @throws {Error} If the adapter does not support shards.
+   */
+  private async _uploadShards(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    bookmarksStore: BookmarksStore,
+    remoteManifest: ShardedSyncManifest | undefined
+  ): Promise<ShardedSyncManifest> {
+    if (!adapter.uploadShard) {
+      throw new Error(
+        `${serviceConfig.name} does not support the sharded remote layout.`
+      )
+    }
+
+    const encrypted = Boolean(serviceConfig.encryptionPassphrase)
+    const shards = await createShards(
+      bookmarksStore.data,
+      serviceConfig.shardCount!
+    )
+    // Shards are uploaded again if encryption was changed, as their content is the same
+    const changedShards = shards.filter(
+      (shard) =>
+        shard.count > 0 &&
+        (remoteManifest?.encrypted !== encrypted ||
+          remoteManifest.shards[shard.id]?.hash !== shard.hash)
+    )
+    console.log(
+      `[SyncManager] Uploading ${changedShards.length} of ${shards.length} shards for ${serviceConfig.name}...`
+    )
+
+    await Promise.all(
+      changedShards.map(async (shard) =>
+        adapter.uploadShard!(
+          getShardKey(shard.id, shard),
+          await this._encodeData(shard.content, serviceConfig)
+        )
+      )
+    )
+
+    return createShardedManifest(shards, bookmarksStore.meta, encrypted)
+  }
+
+  /**
+   * Deletes the shard files that are no longer referenced after uploading the remote data.
+   * Failing to delete them does not fail the sync; they are only left behind.
+   * @param adapter The sync adapter.
+   * @param serviceConfig The sync service configuration.
+   * @param remoteManifest The replaced remote manifest.
+   * @param manifest The uploaded manifest, or undefined if the single file layout was uploaded.
+   */
+  private async _deleteUnusedShards(
+    adapter: SyncAdapter,
+    serviceConfig: SyncServiceConfig,
+    remoteManifest: ShardedSyncManifest | undefined,
+    manifest: ShardedSyncManifest | undefined
+  ): Promise<void> {
+    if (!remoteManifest || !adapter.deleteShard) {
+      return
+    }
+
+    const getShardKeys = (shardsManifest: ShardedSyncManifest | undefined) =>
+      Object.entries(shardsManifest?.shards || {})
+        .filter(([, shard]) => shard.count > 0)
+        .map(([id, shard]) => getShardKey(id, shard))
+    const usedShardKeys = new Set(getShardKeys(manifest))
+    const unusedShardKeys = getShardKeys(remoteManifest).filter(
+      (shardKey) => !usedShardKeys.has(shardKey)
+    )
+
+    try {
+      await Promise.all(
+        unusedShardKeys.map(async (shardKey) => adapter.deleteShard!(shardKey))
+      )
+    } catch (error) {
+      console.warn(
+        `[SyncManager] Failed to delete unused shards for ${serviceConfig.name}:`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Saves the remote data after a successful sync as the base of the next three-way merge.
+   * Failing to save it does not fail the sync; the next merge falls back to timestamps.
+   * @param serviceConfig The sync service configuration after the sync.
+   * @param remoteBookmarks The remote bookmarks data after the sync.
+   */
+  private async _saveSyncBase(
+    serviceConfig: SyncServiceConfig,
+    remoteBookmarks: BookmarksData
+  ): Promise<void> {
+    try {
+      await saveSyncBase(
+        serviceConfig.id,
+        remoteBookmarks,
+        serviceConfig.lastDataChangeTimestamp
+      )
+    } catch (error) {
+      console.warn(
+        `[SyncManager] Failed to save sync base for ${serviceConfig.name}:`,
+        error
+      )
+    }
+  }
+
+  /**
+   * Removes expired tombstones from the merged data before it is uploaded.
+   * @param serviceConfig The sync service configuration.
+   * @param mergedBookmarks The merged bookmarks data.
+   * @param remoteStoreMeta The meta of the remote bookmarks store.
+   * @param tombstoneCutoff The time before which tombstones are expired, or undefined if the garbage collection is disabled.
+   * @returns The bookmarks data and store meta to upload, and whether any tombstone was purged.
+   */
+  private _purgeRemoteTombstones(
+    serviceConfig: SyncServiceConfig,
+    mergedBookmarks: BookmarksData,
+    remoteStoreMeta: BookmarksStore['meta'] | undefined,
+    tombstoneCutoff: number | undefined
+  ): {
+    mergedBookmarks: BookmarksData
+    remoteStoreMeta: BookmarksStore['meta'] | undefined
+    purged: boolean
+  } {
+    if (!tombstoneCutoff) {
+      return { mergedBookmarks, remoteStoreMeta, purged: false }
+    }
+
+    const { data, purged } = purgeExpiredTombstones(
+      mergedBookmarks,
+      tombstoneCutoff
+    )
+    if (purged.length === 0) {
+      return { mergedBookmarks, remoteStoreMeta, purged: false }
+    }
+
+    console.log(
+      `[SyncManager] Purging ${purged.length} expired tombstones from ${serviceConfig.name}.`
+    )
+    return {
+      mergedBookmarks: data,
+      // Lets lagging devices know that they may have missed deletions
+      remoteStoreMeta: remoteStoreMeta && {
+        ...remoteStoreMeta,
+        tombstonesPurgedBefore: tombstoneCutoff,
+      },
+      purged: true,
+    }
+  }
+
+  /**
+   * Removes expired tombstones from local storage once every enabled sync service has synced past them.
+   * Failing to purge them does not fail the sync.
+   * @param tombstoneCutoff The time before which tombstones are expired.
+   */
+  private async _purgeLocalTombstones(tombstoneCutoff: number): Promise<void> {
+    try {
+      const localCutoff = getLocalTombstoneCutoff(
+        tombstoneCutoff,
+        this.currentSettings.syncServices
+      )
+      const expiredUrls = findExpiredTombstones(
+        await bookmarkStorage.getBookmarksData(),
+        localCutoff
+      )
+      if (expiredUrls.length > 0) {
+        console.log(
+          `[SyncManager] Purging ${expiredUrls.length} expired local tombstones.`
+        )
+        await bookmarkStorage.deleteBookmarks(expiredUrls)
+      }
+    } catch (error) {
+      console.warn('[SyncManager] Failed to purge local tombstones:', error)
+    }
+  }
+
   /**
    * Logs merge history for debugging and audit purposes.
-   * Records the merge operation details and persists them to localStorage.
-   * @param serviceId - The ID of the sync service
-   * @param hasChangesForRemote - Whether there are changes to upload to remote
-   * @param hasChangesForLocal - Whether there are changes to apply locally
-   * @param syncTimestamp - The timestamp of the sync operation
+   * Records the merge operation details and adds them to the sync audit log.
+   * @param serviceConfig - The configuration of the sync service
+   * @param entry - The changes of the merge and the timestamp of the sync operation
    */
-  private logMergeHistory(
+  private async logMergeHistory(
     serviceConfig: SyncServiceConfig,
-    hasChangesForRemote: boolean,
-    hasChangesForLocal: boolean,
-    syncTimestamp: number,
-    updatesForLocal: BookmarksData,
-    updatesForRemote: BookmarksData,
-    localDeletions: string[],
-    remoteDeletions: string[]
-  ): void {
-    const mergeHistoryEntry = {
-      serviceId: serviceConfig.id,
-      serviceType: serviceConfig.type,
-      serviceName: serviceConfig.name,
-      timestamp: syncTimestamp,
-      date: new Date(syncTimestamp).toISOString(),
-      lastDataChangeTimestamp: serviceConfig.lastDataChangeTimestamp,
-      lastDataChangeDate: serviceConfig.lastDataChangeTimestamp
-        ? new Date(serviceConfig.lastDataChangeTimestamp).toISOString()
-        : null,
+    entry: MergeHistoryEntry
+  ): Promise<void> {
+    const {
       hasChangesForRemote,
       hasChangesForLocal,
-      updatesForLocal: {
-        count: Object.keys(updatesForLocal).length,
-        bookmarks: Object.keys(updatesForLocal),
-      },
-      updatesForRemote: {
-        count: Object.keys(updatesForRemote).length,
-        bookmarks: Object.keys(updatesForRemote),
-      },
-      localDeletions: {
-        count: localDeletions.length,
-        urls: localDeletions,
-      },
-      remoteDeletions: {
-        count: remoteDeletions.length,
-        urls: remoteDeletions,
-      },
-      deviceInfo: {
-        userAgent: navigator.userAgent,
-        origin: globalThis.location?.origin || 'unknown',
-      },
-    }
+      syncTimestamp,
+      updatesForLocal,
+      updatesForRemote,
+      localDeletions,
+      remoteDeletions,
+    } = entry
+    const auditLogEntry = await addSyncAuditLogEntry(serviceConfig, 'success', {
+      updatesForLocal,
+      updatesForRemote,
+      localDeletions,
+      remoteDeletions,
+    })
 
     // Console log for immediate debugging with enhanced timestamp information
     const lastSyncTimestamp = serviceConfig.lastDataChangeTimestamp || 0
@@ -972,42 +2309,91 @@ export class SyncManager extends EventEmitter<SyncEvents> {
     console.log(
       `[SyncManager] Merge History\n` +
         `  Service: ${serviceConfig.id} (${serviceConfig.type}: ${serviceConfig.name})\n` +
-        `  Remote Changes: ${hasChangesForRemote} (${mergeHistoryEntry.updatesForRemote.count} updates, ${mergeHistoryEntry.remoteDeletions.count} deletions)\n` +
-        `  Local Changes: ${hasChangesForLocal} (${mergeHistoryEntry.updatesForLocal.count} updates, ${mergeHistoryEntry.localDeletions.count} deletions)\n` +
+        `  Remote Changes: ${hasChangesForRemote} (${auditLogEntry.updatesForRemote.count} updates, ${auditLogEntry.remoteDeletions.count} deletions)\n` +
+        `  Local Changes: ${hasChangesForLocal} (${auditLogEntry.updatesForLocal.count} updates, ${auditLogEntry.localDeletions.count} deletions)\n` +
         `  Last Sync: ${lastSyncFormatted} (timestamp: ${lastSyncTimestamp})\n` +
         `  Current Timestamp: ${currentTimestampFormatted} (timestamp: ${syncTimestamp})`
     )
+  }
 
-    try {
-      // Persist to localStorage for historical tracking
-      const storageKey = 'utags-merge-history'
-      const existingHistory = JSON.parse(
-        localStorage.getItem(storageKey) || '[]'
-      ) as Array<typeof mergeHistoryEntry>
-
-      // Add new entry to the beginning of the array
-      existingHistory.unshift(mergeHistoryEntry)
-
-      // Keep only the last 100 entries to prevent localStorage bloat
-      const maxHistoryEntries = 100
-      if (existingHistory.length > maxHistoryEntries) {
-        existingHistory.splice(maxHistoryEntries)
-      }
+  /**
+   * Saves the result of a sync attempt in the configuration of the service,
+   * so the status of each service stays visible when several services are synchronized.
+   * Failed attempts are also added to the sync audit log.
+   * @param serviceId The ID of the sync service.
+   * @param result The result of the sync attempt.
+   * @param error The error message if the sync failed. Defaults to the error of the current status.
+   */
+  private async _saveSyncResult(
+    serviceId: string,
+    result: 'success' | 'error' | 'conflict',
+    error = this._getStatusError()
+  ): Promise<void> {
+    // Read the configuration again, as the sync may have updated it
+    const serviceConfig = getSyncServiceById(this.currentSettings, serviceId)
+    if (!serviceConfig) {
+      return
+    }
 
-      // Save back to localStorage
-      localStorage.setItem(storageKey, JSON.stringify(existingHistory))
+    if (result !== 'success') {
+      await addSyncAuditLogEntry(serviceConfig, result, {}, error)
+    }
 
-      console.log(
-        `[SyncManager] Merge history saved. Total entries: ${existingHistory.length}`
-      )
+    try {
+      updateSyncService({
+        ...serviceConfig,
+        lastSyncResult: result,
+        lastSyncError: result === 'success' ? undefined : error,
+        lastSyncAttemptTimestamp: Date.now(),
+      })
     } catch (error) {
-      console.warn(
-        '[SyncManager] Failed to persist merge history to localStorage:',
+      console.error(
+        `[SyncManager] Failed to save the sync result of ${serviceConfig.name}:`,
         error
       )
     }
   }
 
+  /**
+   * Gets the error message of the current status.
+   * @returns The error message, or undefined if the status is not an error or a conflict with a message.
+   */
+  private _getStatusError(): string | undefined {
+    const status = this.currentSyncStatus
+    if (status.type === 'error') {
+      return status.error
+    }
+
+    if (status.type === 'conflict' && typeof status.details === 'string') {
+      return status.details
+    }
+
+    return undefined
+  }
+
+  /**
+   * Gets the adapter of a sync service for browsing its versions.
+   * @param serviceId The ID of the sync service.
+   * @returns The adapter and the sync service configuration.
+   * @throws {Error} If the service is not found or its adapter does not support versions.
+   */
+  private async _getVersionAdapter(serviceId: string): Promise<{
+    adapter: SyncAdapter
+    serviceConfig: SyncServiceConfig
+  }> {
+    const serviceConfig = getSyncServiceById(this.currentSettings, serviceId)
+    if (!serviceConfig) {
+      throw new Error(`Sync service with ID ${serviceId} not found.`)
+    }
+
+    const adapter = await this.getAdapter(serviceConfig)
+    if (!adapter.listVersions || !adapter.downloadVersion) {
+      throw new Error(`${serviceConfig.name} does not support versions.`)
+    }
+
+    return { adapter, serviceConfig }
+  }
+
   private isSyncInProgress(): boolean {
     if (
       this.currentSyncStatus.type === 'initializing' ||
@@ -1027,11 +2413,7 @@ export class SyncManager extends EventEmitter<SyncEvents> {
 export const syncManager = new SyncManager()
 
 // TODO:
-// - 数据库版本不一致时处理逻辑：
-//   - 本地版本较新，自动升级远程下载的数据，合并，上传
-//   - 远程版本较新，同步停止，提示用户需要更新 WebApp 客户端
 // - download 没有数据时处理逻辑
 //   - 如果没有文件，lastSyncTime 应该是 0
 //   - 如果有文件，是一个空文件，说明远程已经清空数据，而且 lastSyncTime 不是 0 时，需要提示用户，是否合并数据。
 //     因为同步后 lastSyncTime 之前的本地数据会被清空。
-// - 同步时如果删除 50% 以上的数据时，停止同步，需要用户确认
@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest'
-import { buildSyncPath } from './sync-path-builder.js'
+import {
+  buildAppDataPath,
+  buildShardPath,
+  buildSyncPath,
+  buildVersionPath,
+} from './sync-path-builder.js'
 
 describe('buildSyncPath', () => {
   // Test cases based on JSDoc examples
@@ -124,3 +129,36 @@ describe('buildSyncPath', () => {
     )
   })
 })
+
+describe('buildShardPath', () => {
+  it('should return the shard path next to the sync file', () => {
+    expect(buildShardPath('path/to/utags-bookmarks.json', '0a-1b2c')).toBe(
+      'path/to/utags-bookmarks.shard-0a-1b2c.json'
+    )
+    expect(buildShardPath('/filename.data.json', '00-abcd')).toBe(
+      '/filename.data.shard-00-abcd.json'
+    )
+  })
+})
+
+describe('buildVersionPath', () => {
+  it('should return the version path next to the sync file', () => {
+    expect(
+      buildVersionPath('path/to/utags-bookmarks.json', '1735689600000')
+    ).toBe('path/to/utags-bookmarks.version-1735689600000.json')
+    expect(buildVersionPath('/filename.data.json', '1735689600000')).toBe(
+      '/filename.data.version-1735689600000.json'
+    )
+  })
+})
+
+describe('buildAppDataPath', () => {
+  it('should return the app data path next to the sync file', () => {
+    expect(buildAppDataPath('path/to/utags-bookmarks.json')).toBe(
+      'path/to/utags-bookmarks.app-data.json'
+    )
+    expect(buildAppDataPath('/filename.data.json')).toBe(
+      '/filename.data.app-data.json'
+    )
+  })
+})
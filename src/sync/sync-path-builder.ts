@@ -82,3 +82,47 @@ export function buildSyncPath(
     ? `${dir}/${fileNameWithoutExtension}.json`
     : `${fileNameWithoutExtension}.json`
 }
+
+/**
+ * Builds the path of a shard file of the sharded remote layout.
+ * Shard files are stored next to the main sync file, which holds the manifest.
+ *
+ * @example
+ * buildShardPath('path/to/utags-bookmarks.json', '0a-1b2c3d4e'); // Returns 'path/to/utags-bookmarks.shard-0a-1b2c3d4e.json'
+ *
+ * @param syncPath The path of the main sync file, as returned by `buildSyncPath`.
+ * @param shardKey The key of the shard file.
+ * @returns The path of the shard file.
+ */
+export function buildShardPath(syncPath: string, shardKey: string): string {
+  return `${syncPath.replace(/\.json$/i, '')}.shard-${shardKey}.json`
+}
+
+/**
+ * Builds the path of a timestamped backup copy of the main sync file, used as a version of the file.
+ * Backup copies are stored next to the main sync file.
+ *
+ * @example
+ * buildVersionPath('path/to/utags-bookmarks.json', '1735689600000'); // Returns 'path/to/utags-bookmarks.version-1735689600000.json'
+ *
+ * @param syncPath The path of the main sync file, as returned by `buildSyncPath`.
+ * @param versionId The ID of the version, the time the backup copy was created.
+ * @returns The path of the backup copy.
+ */
+export function buildVersionPath(syncPath: string, versionId: string): string {
+  return `${syncPath.replace(/\.json$/i, '')}.version-${versionId}.json`
+}
+
+/**
+ * Builds the path of the app data file, which holds the synced collections, saved filters and preferences.
+ * The app data file is stored next to the main sync file.
+ *
+ * @example
+ * buildAppDataPath('path/to/utags-bookmarks.json'); // Returns 'path/to/utags-bookmarks.app-data.json'
+ *
+ * @param syncPath The path of the main sync file, as returned by `buildSyncPath`.
+ * @returns The path of the app data file.
+ */
+export function buildAppDataPath(syncPath: string): string {
+  return `${syncPath.replace(/\.json$/i, '')}.app-data.json`
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import { createSyncPreviewSide, getFieldChanges } from './sync-preview.js'
+
+function createBookmark(
+  tags: string[],
+  title: string,
+  updated3?: number
+): BookmarkTagsAndMetadata {
+  return { tags, meta: { created: 1000, updated: 2000, updated3, title } }
+}
+
+function createTombstone(tags: string[]): BookmarkTagsAndMetadata {
+  return {
+    tags: [...tags, DELETED_BOOKMARK_TAG],
+    meta: { created: 1000, updated: 2000, updated2: 3000 },
+    deletedMeta: { deleted: 3000, actionType: 'DELETE' },
+  }
+}
+
+describe('getFieldChanges', () => {
+  it('should list the changed tags and metadata fields', () => {
+    expect(
+      getFieldChanges(
+        createBookmark(['a'], 'Old'),
+        createBookmark(['a', 'b'], 'New')
+      )
+    ).toEqual([
+      { field: 'tags', before: ['a'], after: ['a', 'b'] },
+      { field: 'title', before: 'Old', after: 'New' },
+    ])
+  })
+
+  it('should list all fields of a new bookmark', () => {
+    expect(getFieldChanges(undefined, createBookmark(['a'], 'A'))).toEqual([
+      { field: 'tags', before: undefined, after: ['a'] },
+      { field: 'created', before: undefined, after: 1000 },
+      { field: 'updated', before: undefined, after: 2000 },
+      { field: 'title', before: undefined, after: 'A' },
+    ])
+  })
+
+  it('should ignore the sync timestamps', () => {
+    expect(
+      getFieldChanges(createBookmark(['a'], 'A'), createBookmark(['a'], 'A', 5))
+    ).toEqual([])
+  })
+})
+
+describe('createSyncPreviewSide', () => {
+  it('should count added, changed and deleted bookmarks', () => {
+    const currentData: BookmarksData = {
+      'https://changed.com': createBookmark(['a'], 'Changed'),
+      'https://deleted.com': createBookmark(['a'], 'Deleted'),
+      'https://restored.com': createTombstone(['a']),
+      'https://removed.com': createBookmark(['a'], 'Removed'),
+    }
+    const updates: BookmarksData = {
+      'https://changed.com': createBookmark(['a', 'b'], 'Changed'),
+      'https://deleted.com': createTombstone(['a']),
+      'https://restored.com': createBookmark(['a'], 'Restored'),
+      'https://new.com': createBookmark(['a'], 'New'),
+    }
+
+    const side = createSyncPreviewSide(currentData, updates, [
+      'https://removed.com',
+    ])
+
+    expect(side).toMatchObject({ added: 2, changed: 1, deleted: 2 })
+    expect(
+      side.entries.map(({ url, type, title }) => ({ url, type, title }))
+    ).toEqual([
+      { url: 'https://changed.com', type: 'changed', title: 'Changed' },
+      { url: 'https://deleted.com', type: 'deleted', title: 'Deleted' },
+      { url: 'https://restored.com', type: 'added', title: 'Restored' },
+      { url: 'https://new.com', type: 'added', title: 'New' },
+      { url: 'https://removed.com', type: 'deleted', title: 'Removed' },
+    ])
+    expect(side.entries[0].fields).toEqual([
+      { field: 'tags', before: ['a'], after: ['a', 'b'] },
+    ])
+  })
+
+  it('should report all updates as added if the side has no data', () => {
+    const side = createSyncPreviewSide(
+      undefined,
+      { 'https://new.com': createBookmark(['a'], 'New') },
+      []
+    )
+
+    expect(side).toMatchObject({ added: 1, changed: 0, deleted: 0 })
+  })
+})
@@ -0,0 +1,150 @@
+import type {
+  BookmarkTagsAndMetadata,
+  BookmarksData,
+} from '../types/bookmarks.js'
+import type { MergeConflict } from '../lib/bookmark-merge-utils.js'
+import { isMarkedAsDeleted } from '../utils/bookmarks.js'
+import { areArraysEqual } from '../utils/index.js'
+
+/**
+ * @file Builds the report of a sync dry run.
+ *
+ * A preview merges the local and the remote data like a sync, without writing anything,
+ * and describes the changes each side would receive.
+ */
+
+/**
+ * Metadata fields that are not reported as changes, because every sync or batch operation updates them.
+ */
+const ignoredMetaFields = new Set(['updated2', 'updated3'])
+
+/**
+ * A field of a bookmark that a sync would change.
+ */
+export type SyncPreviewFieldChange = {
+  /** `tags`, or the name of a metadata field */
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * A bookmark that a sync would add, change or delete.
+ */
+export type SyncPreviewEntry = {
+  url: string
+  type: 'added' | 'changed' | 'deleted'
+  /** The title of the bookmark after the sync, or before it for deleted bookmarks */
+  title?: string
+  /** The changed fields. Empty for bookmarks that are removed without a tombstone. */
+  fields: SyncPreviewFieldChange[]
+}
+
+/**
+ * The changes a sync would make to one side.
+ */
+export type SyncPreviewSide = {
+  added: number
+  changed: number
+  deleted: number
+  entries: SyncPreviewEntry[]
+}
+
+/**
+ * The result of a sync dry run.
+ */
+export type SyncPreview = {
+  serviceId: string
+  updatesForLocal: BookmarksData
+  updatesForRemote: BookmarksData
+  localDeletions: string[]
+  remoteDeletions: string[]
+  /** Bookmarks changed on both sides, which a sync lets the user review */
+  conflicts: MergeConflict[]
+  local: SyncPreviewSide
+  remote: SyncPreviewSide
+}
+
+/**
+ * Lists the fields that differ between two versions of a bookmark.
+ * @param before - The current version of the bookmark, if it exists.
+ * @param after - The version of the bookmark after the sync.
+ * @returns The changed fields, tags first.
+ */
+export function getFieldChanges(
+  before: BookmarkTagsAndMetadata | undefined,
+  after: BookmarkTagsAndMetadata
+): SyncPreviewFieldChange[] {
+  const changes: SyncPreviewFieldChange[] = []
+  if (!areArraysEqual(before?.tags, after.tags)) {
+    changes.push({ field: 'tags', before: before?.tags, after: after.tags })
+  }
+
+  const fields = new Set([
+    ...Object.keys(before?.meta || {}),
+    ...Object.keys(after.meta),
+  ])
+  for (const field of fields) {
+    const beforeValue: unknown = before?.meta[field]
+    const afterValue: unknown = after.meta[field]
+    if (
+      !ignoredMetaFields.has(field) &&
+      JSON.stringify(beforeValue) !== JSON.stringify(afterValue)
+    ) {
+      changes.push({ field, before: beforeValue, after: afterValue })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Describes the changes a sync would make to one side.
+ * @param currentData - The current data of the side, or undefined if it has no data yet.
+ * @param updates - The bookmarks the sync would write.
+ * @param deletions - The URLs the sync would remove.
+ * @returns The changes, with bookmarks that become tombstones counted as deleted.
+ */
+export function createSyncPreviewSide(
+  currentData: BookmarksData | undefined,
+  updates: BookmarksData,
+  deletions: string[]
+): SyncPreviewSide {
+  const side: SyncPreviewSide = {
+    added: 0,
+    changed: 0,
+    deleted: 0,
+    entries: [],
+  }
+
+  for (const [url, after] of Object.entries(updates)) {
+    const before = currentData?.[url]
+    const isActiveBefore = before !== undefined && !isMarkedAsDeleted(before)
+    let type: SyncPreviewEntry['type'] = 'changed'
+    if (isMarkedAsDeleted(after)) {
+      type = 'deleted'
+    } else if (!isActiveBefore) {
+      type = 'added'
+    }
+
+    side[type]++
+    side.entries.push({
+      url,
+      type,
+      title: after.meta.title || before?.meta.title,
+      fields: getFieldChanges(before, after),
+    })
+  }
+
+  for (const url of deletions) {
+    side.deleted++
+    side.entries.push({
+      url,
+      type: 'deleted',
+      title: currentData?.[url]?.meta.title,
+      fields: [],
+    })
+  }
+
+  return side
+}
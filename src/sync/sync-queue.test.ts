@@ -1,12 +1,16 @@
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { emptyFunction } from '../utils/test/empty-function.js'
+import { CredentialVaultError } from '../stores/credential-vault-store.js'
 import {
   addToSyncQueue,
   isQueueProcessing,
   clearSyncQueue,
+  getNextSyncRetryTime,
   type SyncQueueTask,
 } from './sync-queue.js'
 import type { SyncManager } from './sync-manager.js'
+import { baseSyncRetryDelay, SyncHttpError } from './sync-retry.js'
+import type { SyncEvents } from './types.js'
 
 // Mock dependencies
 const { mockIsAutoSyncSchedulerLockOwner, mockReleaseAutoSyncSchedulerLock } =
@@ -17,6 +21,16 @@ const { mockIsAutoSyncSchedulerLockOwner, mockReleaseAutoSyncSchedulerLock } =
     }
   })
 const mockSyncManagerSynchronize = vi.fn()
+const errorListeners = new Set<(event: SyncEvents['error']) => void>()
+const mockSyncManagerOn = vi.fn(
+  (event: string, listener: (event: SyncEvents['error']) => void) => {
+    if (event === 'error') {
+      errorListeners.add(listener)
+    }
+
+    return () => errorListeners.delete(listener)
+  }
+)
 
 vi.mock('./auto-sync-scheduler.js', () => ({
   isAutoSyncSchedulerLockOwner: mockIsAutoSyncSchedulerLockOwner,
@@ -26,6 +40,7 @@ vi.mock('./auto-sync-scheduler.js', () => ({
 // Mock SyncManager instance
 const mockSyncManager = {
   synchronize: mockSyncManagerSynchronize,
+  on: mockSyncManagerOn,
 } as unknown as SyncManager
 
 // Helper to get the internal queue state for assertions (not directly exported by the module)
@@ -435,4 +450,163 @@ describe('Sync Queue', () => {
       expect(mockSyncManagerSynchronize).toHaveBeenCalledWith('serviceNew')
     })
   })
+  describe('retries', () => {
+    const now = Date.parse('2026-01-10T00:00:00Z')
+
+    // Simulates a failed sync that the SyncManager reports through an error event
+    const failSync = (error: Error) => {
+      mockSyncManagerSynchronize.mockImplementationOnce(
+        async (serviceId: string) => {
+          for (const listener of errorListeners) {
+            listener({ message: error.message, serviceId, error })
+          }
+
+          return false
+        }
+      )
+    }
+
+    const addAndProcess = async (serviceId: string) => {
+      addToSyncQueue({ serviceId }, mockSyncManager)
+      await vi.waitFor(() => {
+        expect(isQueueProcessing()).toBe(false)
+      })
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(now)
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+    })
+
+    it('should back off a service after a failed sync', async () => {
+      failSync(new SyncHttpError('Bad Gateway', 502))
+      await addAndProcess('service1')
+
+      const nextRetryTime = getNextSyncRetryTime('service1')!
+      expect(nextRetryTime).toBeGreaterThanOrEqual(now + baseSyncRetryDelay / 2)
+      expect(nextRetryTime).toBeLessThanOrEqual(Date.now() + baseSyncRetryDelay)
+
+      // The scheduler queues the service again before the backoff expires
+      addToSyncQueue({ serviceId: 'service1' }, mockSyncManager)
+      expect(mockSyncManagerSynchronize).toHaveBeenCalledTimes(1)
+
+      vi.setSystemTime(nextRetryTime)
+      failSync(new SyncHttpError('Bad Gateway', 502))
+      await addAndProcess('service1')
+
+      expect(mockSyncManagerSynchronize).toHaveBeenCalledTimes(2)
+      expect(getNextSyncRetryTime('service1')).toBeGreaterThanOrEqual(
+        nextRetryTime + baseSyncRetryDelay
+      )
+    })
+
+    it('should honor the delay requested by the server', async () => {
+      failSync(
+        new SyncHttpError(
+          'Too Many Requests',
+          429,
+          new Headers({ 'Retry-After': '3600' })
+        )
+      )
+      await addAndProcess('service1')
+
+      // vi.waitFor advances the fake time while waiting for the queue
+      expect(getNextSyncRetryTime('service1')).toBeGreaterThanOrEqual(
+        now + 3_600_000
+      )
+      expect(getNextSyncRetryTime('service1')).toBeLessThan(now + 3_601_000)
+    })
+
+    it('should reset the backoff after a successful sync', async () => {
+      failSync(new Error('Network error'))
+      await addAndProcess('service1')
+      vi.setSystemTime(getNextSyncRetryTime('service1')!)
+
+      await addAndProcess('service1')
+
+      expect(mockSyncManagerSynchronize).toHaveBeenCalledTimes(2)
+      expect(getNextSyncRetryTime('service1')).toBeUndefined()
+    })
+
+    it('should not back off a service after a sync that failed without an error', async () => {
+      // E.g. a cancelled conflict dialog or a sync already in progress
+      mockSyncManagerSynchronize.mockResolvedValueOnce(false)
+      await addAndProcess('service1')
+
+      expect(getNextSyncRetryTime('service1')).toBeUndefined()
+    })
+
+    it('should keep the backoff after a sync that failed without an error', async () => {
+      failSync(new Error('Network error'))
+      await addAndProcess('service1')
+      const nextRetryTime = getNextSyncRetryTime('service1')!
+      vi.setSystemTime(nextRetryTime)
+
+      mockSyncManagerSynchronize.mockResolvedValueOnce(false)
+      await addAndProcess('service1')
+
+      expect(getNextSyncRetryTime('service1')).toBe(nextRetryTime)
+    })
+
+    it('should not back off a service while the credential vault is locked', async () => {
+      failSync(CredentialVaultError.locked())
+      await addAndProcess('service1')
+
+      expect(getNextSyncRetryTime('service1')).toBeUndefined()
+    })
+
+    it('should back off a service after an error event without an error', async () => {
+      mockSyncManagerSynchronize.mockImplementationOnce(
+        async (serviceId: string) => {
+          for (const listener of errorListeners) {
+            listener({ message: 'Sync configuration not found.', serviceId })
+          }
+
+          return false
+        }
+      )
+      await addAndProcess('service1')
+
+      expect(getNextSyncRetryTime('service1')).toBeGreaterThan(now)
+    })
+
+    it('should pause while offline and resume once back online', async () => {
+      const onLineSpy = vi
+        .spyOn(navigator, 'onLine', 'get')
+        .mockReturnValue(false)
+
+      addToSyncQueue({ serviceId: 'service1' }, mockSyncManager)
+      expect(mockSyncManagerSynchronize).not.toHaveBeenCalled()
+
+      onLineSpy.mockReturnValue(true)
+      globalThis.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => {
+        expect(mockSyncManagerSynchronize).toHaveBeenCalledWith('service1')
+      })
+    })
+
+    it('should keep a task that failed because the browser went offline', async () => {
+      const onLineSpy = vi.spyOn(navigator, 'onLine', 'get')
+      mockSyncManagerSynchronize.mockImplementationOnce(async () => {
+        onLineSpy.mockReturnValue(false)
+        return false
+      })
+
+      await addAndProcess('service1')
+      expect(getNextSyncRetryTime('service1')).toBeUndefined()
+
+      onLineSpy.mockReturnValue(true)
+      globalThis.dispatchEvent(new Event('online'))
+
+      await vi.waitFor(() => {
+        expect(mockSyncManagerSynchronize).toHaveBeenCalledTimes(2)
+      })
+    })
+  })
 })
@@ -1,3 +1,4 @@
+import { CredentialVaultError } from '../stores/credential-vault-store.js'
 import {
   releaseAutoSyncSchedulerLock,
   isAutoSyncSchedulerLockOwner,
@@ -6,10 +7,12 @@ import {
 // Assumes SyncManager is exported from './SyncManager.js'.
 // If not, the previous inline type is acceptable, or it should be created and exported.
 import type { SyncManager } from './sync-manager.js'
+import { getRetryAfter, getSyncRetryDelay } from './sync-retry.js'
 
 /**
  * @file Manages a global queue for synchronization tasks.
  * Ensures that sync operations are processed sequentially and only by the tab holding the auto-sync lock.
+ * Failed syncs are retried with a backoff, and the queue pauses while the browser is offline.
  */
 
 /**
@@ -26,6 +29,108 @@ const syncQueue: SyncQueueTask[] = []
 // Flag to indicate if the queue is currently being processed.
 let isProcessingQueue = false
 
+/**
+ * The retry state of a service whose last queued sync failed.
+ */
+type SyncRetryState = {
+  /** The number of failed attempts in a row */
+  attempts: number
+  /** The time before which the service is not queued again */
+  nextRetryTime: number
+}
+
+// Retry state per service ID. Removed once a sync of the service succeeds.
+const retryStates = new Map<string, SyncRetryState>()
+
+// The SyncManager used to resume processing when the browser is back online.
+let onlineSyncManager: SyncManager | undefined
+
+/**
+ * Checks if the browser is online. Assumes it is if the environment cannot tell.
+ *
+ * @returns False if the browser reports that it is offline, true otherwise.
+ */
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine
+}
+
+/**
+ * Resumes processing the queue as soon as the browser is back online.
+ * Pending backoffs are reset, since the failures were likely caused by the missing network.
+ */
+function handleOnline(): void {
+  console.log('[SyncQueue] Back online. Resuming queue processing.')
+  retryStates.clear()
+  if (
+    onlineSyncManager &&
+    !isProcessingQueue &&
+    isAutoSyncSchedulerLockOwner()
+  ) {
+    // eslint-disable-next-line @typescript-eslint/no-floating-promises
+    processSyncQueue(onlineSyncManager)
+  }
+}
+
+/**
+ * Registers the `online` listener once, with the SyncManager that processes the queue.
+ *
+ * @param syncManagerInstance - An instance of SyncManager to perform the sync operations.
+ */
+function listenForOnline(syncManagerInstance: SyncManager): void {
+  if (!onlineSyncManager && typeof globalThis.addEventListener === 'function') {
+    globalThis.addEventListener('online', handleOnline)
+  }
+
+  onlineSyncManager = syncManagerInstance
+}
+
+/**
+ * Records the result of a sync in the retry state of its service.
+ * A failure postpones the next sync of the service by an exponential backoff,
+ * or by the delay the server requested.
+ * A sync that did not succeed without an error, such as a cancelled conflict dialog
+ * or a sync already in progress, keeps the retry state unchanged. So does a locked
+ * credential vault, which a retry cannot fix.
+ *
+ * @param serviceId - The ID of the synchronized service.
+ * @param success - Whether the sync succeeded.
+ * @param error - The error of the failed sync, undefined if no error was reported.
+ */
+function updateRetryState(
+  serviceId: string,
+  success: boolean,
+  error?: unknown
+): void {
+  if (success) {
+    retryStates.delete(serviceId)
+    return
+  }
+
+  if (
+    error === undefined ||
+    (error instanceof CredentialVaultError && error.code === 'LOCKED')
+  ) {
+    return
+  }
+
+  const attempts = (retryStates.get(serviceId)?.attempts || 0) + 1
+  const delay = getSyncRetryDelay(attempts, getRetryAfter(error))
+  retryStates.set(serviceId, { attempts, nextRetryTime: Date.now() + delay })
+  console.log(
+    `[SyncQueue] Sync for service ${serviceId} failed ${attempts} time(s). Retrying in ${Math.round(delay / 1000)} seconds.`
+  )
+}
+
+/**
+ * Gets the time before which a service is not queued again after a failed sync.
+ *
+ * @param serviceId - The ID of the service.
+ * @returns The timestamp, or undefined if the last queued sync of the service did not fail.
+ */
+export function getNextSyncRetryTime(serviceId: string): number | undefined {
+  return retryStates.get(serviceId)?.nextRetryTime
+}
+
 /**
  * Adds a synchronization task to the global queue.
  * If the queue is not currently being processed and this tab holds the lock,
@@ -46,14 +151,23 @@ export function addToSyncQueue(
     return
   }
 
+  const nextRetryTime = getNextSyncRetryTime(task.serviceId)
+  if (nextRetryTime !== undefined && Date.now() < nextRetryTime) {
+    console.log(
+      `[SyncQueue] Service ${task.serviceId} is backing off until ${new Date(nextRetryTime).toISOString()}. Skipping.`
+    )
+    return
+  }
+
   syncQueue.push(task)
   console.log(
     `[SyncQueue] Task added for service ${task.serviceId}. Queue length: ${syncQueue.length}`
   )
+  listenForOnline(syncManagerInstance)
 
-  // Start processing if not already doing so and this tab holds the auto-sync lock.
+  // Start processing if not already doing so, this tab holds the auto-sync lock and the browser is online.
   // This check ensures that only the lock holder initiates queue processing.
-  if (!isProcessingQueue && isAutoSyncSchedulerLockOwner()) {
+  if (!isProcessingQueue && isOnline() && isAutoSyncSchedulerLockOwner()) {
     // Intentionally not awaiting processSyncQueue as it manages its own lifecycle.
     // eslint-disable-next-line @typescript-eslint/no-floating-promises
     processSyncQueue(syncManagerInstance)
@@ -91,14 +205,31 @@ async function processSyncQueue(
       break // Exit the processing loop.
     }
 
+    // Keep the tasks while the browser is offline. The `online` event resumes processing.
+    if (!isOnline()) {
+      console.log(
+        '[SyncQueue] Browser is offline. Pausing queue processing until it is back online.'
+      )
+      isProcessingQueue = false
+      return
+    }
+
     const task = syncQueue.shift() // Get the next task (FIFO).
 
     if (task) {
       console.log(`[SyncQueue] Processing task for service ${task.serviceId}`)
+      // The SyncManager reports failures as events, so keep the error of this task to compute the retry delay.
+      let taskError: unknown
+      const unsubscribe = syncManagerInstance.on('error', (event) => {
+        if (typeof event === 'object' && event.serviceId === task.serviceId) {
+          taskError = event.error ?? new Error(event.message)
+        }
+      })
+      let success = false
       try {
         // Delegate the actual synchronization logic to the SyncManager's synchronize method.
         // eslint-disable-next-line no-await-in-loop
-        await syncManagerInstance.synchronize(task.serviceId)
+        success = await syncManagerInstance.synchronize(task.serviceId)
         console.log(
           `[SyncQueue] Finished processing task for service ${task.serviceId}`
         )
@@ -107,8 +238,16 @@ async function processSyncQueue(
           `[SyncQueue] Error processing task for service ${task.serviceId}:`,
           error
         )
-        // Future enhancement: Consider implementing retry logic or specific error handling here,
-        // such as re-queueing the task with a delay or marking it as failed.
+        taskError = error
+      } finally {
+        unsubscribe()
+      }
+
+      if (!success && !isOnline()) {
+        // The sync likely failed because the network went away. Retry it once the browser is back online.
+        syncQueue.unshift(task)
+      } else {
+        updateRetryState(task.serviceId, success, taskError)
       }
     }
   }
@@ -136,12 +275,13 @@ export function isQueueProcessing(): boolean {
 }
 
 /**
- * Clears all tasks from the synchronization queue.
+ * Clears all tasks from the synchronization queue and the retry state of the services.
  * This is typically used for testing or in scenarios where a reset of the queue is necessary,
  * for example, if the lock is lost and processing needs to be halted definitively.
  */
 export function clearSyncQueue(): void {
   syncQueue.length = 0
+  retryStates.clear()
   // Optionally, if isProcessingQueue should also be reset when the queue is forcibly cleared:
   // isProcessingQueue = false;
   // However, current logic in processSyncQueue already sets isProcessingQueue to false when the queue is empty or lock is lost.
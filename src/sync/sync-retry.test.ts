@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { WebDAVError } from '../lib/webdav-client.js'
+import {
+  baseSyncRetryDelay,
+  getRetryAfter,
+  getSyncRetryDelay,
+  maxSyncRetryDelay,
+  SyncHttpError,
+} from './sync-retry.js'
+
+const now = Date.parse('2026-01-10T00:00:00Z')
+
+describe('getRetryAfter', () => {
+  it('should read the Retry-After header in seconds', () => {
+    const error = new SyncHttpError(
+      'Service Unavailable',
+      503,
+      new Headers({ 'Retry-After': '120' })
+    )
+    expect(getRetryAfter(error, now)).toBe(120_000)
+  })
+
+  it('should read the Retry-After header as an HTTP date', () => {
+    const error = new SyncHttpError(
+      'Too Many Requests',
+      429,
+      new Headers({ 'Retry-After': new Date(now + 60_000).toUTCString() })
+    )
+    expect(getRetryAfter(error, now)).toBe(60_000)
+  })
+
+  it('should read the GitHub rate limit headers', () => {
+    const error = new SyncHttpError(
+      'GitHub API error (403)',
+      403,
+      new Headers({
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(now / 1000 + 300),
+      })
+    )
+    expect(getRetryAfter(error, now)).toBe(300_000)
+  })
+
+  it('should find the headers of a wrapped error', () => {
+    const cause = new WebDAVError(
+      'Invalid response: 502 Bad Gateway',
+      502,
+      'Bad Gateway',
+      new Headers({ 'Retry-After': '5' })
+    )
+    const error = new Error('WebDAV download failed', { cause })
+    expect(getRetryAfter(error, now)).toBe(5000)
+  })
+
+  it('should read the headers of a response from another realm', () => {
+    const headers = new Map([['retry-after', '30']]) as unknown as Headers
+    const error = new SyncHttpError('Service Unavailable', 503, headers)
+    expect(getRetryAfter(error, now)).toBe(30_000)
+  })
+
+  it('should return undefined without a requested delay', () => {
+    expect(getRetryAfter(new Error('Network error'), now)).toBeUndefined()
+    expect(
+      getRetryAfter(
+        new SyncHttpError(
+          'GitHub API error (500)',
+          500,
+          new Headers({ 'X-RateLimit-Remaining': '10' })
+        ),
+        now
+      )
+    ).toBeUndefined()
+  })
+})
+
+describe('getSyncRetryDelay', () => {
+  it('should double the delay with each attempt', () => {
+    expect(getSyncRetryDelay(1, undefined, () => 1)).toBe(baseSyncRetryDelay)
+    expect(getSyncRetryDelay(2, undefined, () => 1)).toBe(
+      baseSyncRetryDelay * 2
+    )
+    expect(getSyncRetryDelay(3, undefined, () => 1)).toBe(
+      baseSyncRetryDelay * 4
+    )
+  })
+
+  it('should add a jitter of up to half of the delay', () => {
+    expect(getSyncRetryDelay(1, undefined, () => 0)).toBe(
+      baseSyncRetryDelay / 2
+    )
+    expect(getSyncRetryDelay(1, undefined, () => 0.5)).toBe(
+      (baseSyncRetryDelay * 3) / 4
+    )
+  })
+
+  it('should cap the delay', () => {
+    expect(getSyncRetryDelay(100, undefined, () => 1)).toBe(maxSyncRetryDelay)
+  })
+
+  it('should not retry before the delay requested by the server', () => {
+    expect(getSyncRetryDelay(1, 3_600_000, () => 1)).toBe(3_600_000)
+    expect(getSyncRetryDelay(3, 1000, () => 1)).toBe(baseSyncRetryDelay * 4)
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * @file Computes when a failed sync is retried.
+ *
+ * Failed syncs are retried with an exponential backoff and jitter, so a
+ * server that is down or rate limits the requests is not hit every few
+ * seconds by every device. A delay requested by the server through the
+ * `Retry-After` or the GitHub rate limit headers takes precedence.
+ */
+
+/**
+ * The delay before the first retry: 30 seconds.
+ */
+export const baseSyncRetryDelay = 30 * 1000
+
+/**
+ * The maximum delay between retries: 30 minutes.
+ */
+export const maxSyncRetryDelay = 30 * 60 * 1000
+
+/**
+ * An HTTP error of a sync request, with the status and headers of the response.
+ */
+export class SyncHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly headers?: Headers
+  ) {
+    super(message)
+    this.name = 'SyncHttpError'
+  }
+}
+
+/**
+ * Finds the response headers of an error or of one of its causes.
+ * @param error - The error thrown by a sync.
+ * @returns The headers, or undefined if the error has none.
+ */
+function findHeaders(error: unknown): Headers | undefined {
+  let current = error
+  // Guard against cyclic causes
+  for (let depth = 0; depth < 5 && current; depth++) {
+    const { headers, cause } = current as { headers?: unknown; cause?: unknown }
+    // Not `instanceof Headers`, the fetch of another realm has its own class
+    if (typeof (headers as Headers | undefined)?.get === 'function') {
+      return headers as Headers
+    }
+
+    current = cause
+  }
+
+  return undefined
+}
+
+/**
+ * Gets the delay requested by the server of a failed sync.
+ * Supports the `Retry-After` header in seconds or as an HTTP date, and the
+ * `X-RateLimit-Reset` header that GitHub sends once the rate limit is exhausted.
+ * @param error - The error thrown by the sync.
+ * @param now - The current time.
+ * @returns The delay in milliseconds, or undefined if the server requested none.
+ */
+export function getRetryAfter(
+  error: unknown,
+  now = Date.now()
+): number | undefined {
+  const headers = findHeaders(error)
+  if (!headers) {
+    return undefined
+  }
+
+  const retryAfter = headers.get('retry-after')?.trim()
+  if (retryAfter) {
+    if (/^\d+$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000
+    }
+
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now)
+    }
+  }
+
+  const rateLimitReset = Number(headers.get('x-ratelimit-reset'))
+  if (headers.get('x-ratelimit-remaining') === '0' && rateLimitReset > 0) {
+    return Math.max(0, rateLimitReset * 1000 - now)
+  }
+
+  return undefined
+}
+
+/**
+ * Computes the delay before the next retry of a failed sync.
+ * The backoff doubles with each failed attempt up to `maxSyncRetryDelay`,
+ * and a random jitter of up to half of it spreads the retries of several devices.
+ * @param attempts - The number of failed attempts, starting at 1.
+ * @param retryAfter - The delay requested by the server, which the retry never undercuts.
+ * @param random - The random number generator, for tests.
+ * @returns The delay in milliseconds.
+ */
+export function getSyncRetryDelay(
+  attempts: number,
+  retryAfter?: number,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    maxSyncRetryDelay,
+    baseSyncRetryDelay * 2 ** Math.max(0, attempts - 1)
+  )
+  const delay = Math.round(backoff / 2 + (random() * backoff) / 2)
+  return Math.max(delay, retryAfter ?? 0)
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { CURRENT_DATABASE_VERSION } from '../config/constants.js'
+import type { BookmarksStore } from '../types/bookmarks.js'
+import {
+  migrateRemoteBookmarksStore,
+  SyncSchemaVersionError,
+} from './sync-schema-version.js'
+
+function createStore(databaseVersion: number): BookmarksStore {
+  return {
+    data: {
+      'https://a.com': {
+        tags: ['a'],
+        meta: { created: 1000, updated: 2000 },
+      },
+    },
+    meta: { databaseVersion, created: 1000, updated: 2000 },
+  }
+}
+
+describe('migrateRemoteBookmarksStore', () => {
+  it('should return remote data of the current version as is', () => {
+    const store = createStore(CURRENT_DATABASE_VERSION)
+
+    expect(migrateRemoteBookmarksStore(store)).toBe(store)
+  })
+
+  it('should migrate remote data of an older version', () => {
+    const store = createStore(CURRENT_DATABASE_VERSION - 1)
+
+    const migrated = migrateRemoteBookmarksStore(store)
+
+    expect(migrated.meta.databaseVersion).toBe(CURRENT_DATABASE_VERSION)
+    expect(migrated.data).toEqual(store.data)
+  })
+
+  it('should throw if the remote data was written by a newer version', () => {
+    const store = createStore(CURRENT_DATABASE_VERSION + 1)
+
+    expect(() => migrateRemoteBookmarksStore(store)).toThrow(
+      SyncSchemaVersionError
+    )
+    expect(() => migrateRemoteBookmarksStore(store)).toThrow(
+      'Please update the app'
+    )
+  })
+})
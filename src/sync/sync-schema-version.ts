@@ -0,0 +1,61 @@
+import { CURRENT_DATABASE_VERSION } from '../config/constants.js'
+import { bookmarkStorage } from '../lib/bookmark-storage.js'
+import type { BookmarksStore } from '../types/bookmarks.js'
+
+/**
+ * @file Schema version negotiation for remote data.
+ *
+ * The remote data records the database version of the app that wrote it in
+ * `meta.databaseVersion`. Older remote data is migrated when it is downloaded,
+ * the same way as local data. Remote data written by a newer version is never
+ * merged or overwritten, as this version of the app cannot read it correctly.
+ */
+
+/**
+ * Error thrown when the remote data was written by a newer version of the app.
+ */
+export class SyncSchemaVersionError extends Error {
+  static newerRemoteVersion(remoteVersion: number): SyncSchemaVersionError {
+    return new SyncSchemaVersionError(
+      `The remote data was written by a newer version of UTags (database version ${remoteVersion}, this version supports ${CURRENT_DATABASE_VERSION}). Please update the app to sync with this service.`,
+      remoteVersion
+    )
+  }
+
+  constructor(
+    message: string,
+    public readonly remoteVersion: number
+  ) {
+    super(message)
+    this.name = 'SyncSchemaVersionError'
+  }
+}
+
+/**
+ * Migrates a remote bookmarks store to the current database version.
+ * Remote data without a database version, e.g., written by an adapter that
+ * only stores bookmarks, is used as is.
+ * @param remoteStore - The parsed remote bookmarks store.
+ * @returns The remote bookmarks store of the current version.
+ * @throws {SyncSchemaVersionError} If the remote data was written by a newer version of the app.
+ */
+export function migrateRemoteBookmarksStore(
+  remoteStore: BookmarksStore
+): BookmarksStore {
+  const databaseVersion = remoteStore.meta?.databaseVersion
+  if (
+    typeof databaseVersion !== 'number' ||
+    databaseVersion === CURRENT_DATABASE_VERSION
+  ) {
+    return remoteStore
+  }
+
+  if (databaseVersion > CURRENT_DATABASE_VERSION) {
+    throw SyncSchemaVersionError.newerRemoteVersion(databaseVersion)
+  }
+
+  console.log(
+    `[SyncManager] Migrating remote data from database version ${databaseVersion}`
+  )
+  return bookmarkStorage.migrateExternalBookmarksStore(remoteStore)
+}
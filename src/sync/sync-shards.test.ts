@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import type { BookmarksData } from '../types/bookmarks.js'
+import {
+  createShardedManifest,
+  createShards,
+  getShardId,
+  getShardKey,
+  hashShardContent,
+  parseShardedManifest,
+} from './sync-shards.js'
+
+describe('sync-shards', () => {
+  const data: BookmarksData = {
+    'https://example.com/b': {
+      tags: ['tag2'],
+      meta: { created: 1000, updated: 2000 },
+    },
+    'https://example.com/a': {
+      tags: ['tag1'],
+      meta: { created: 1000, updated: 2000 },
+    },
+    'https://example.com/c': {
+      tags: ['tag3'],
+      meta: { created: 1000, updated: 2000 },
+    },
+  }
+  const storeMeta = { databaseVersion: 3, created: 1000 }
+
+  it('should assign a stable shard to each URL', () => {
+    expect(getShardId('https://example.com/a', 16)).toBe(
+      getShardId('https://example.com/a', 16)
+    )
+    expect(getShardId('https://example.com/a', 16)).toMatch(/^[\da-f]$/)
+    expect(getShardId('https://example.com/a', 256)).toMatch(/^[\da-f]{2}$/)
+  })
+
+  it('should split the data into all shards', async () => {
+    const shards = await createShards(data, 4)
+
+    expect(shards.map((shard) => shard.id)).toEqual(['0', '1', '2', '3'])
+    expect(shards.reduce((sum, shard) => sum + shard.count, 0)).toBe(3)
+    for (const shard of shards) {
+      for (const url of Object.keys(shard.data)) {
+        expect(getShardId(url, 4)).toBe(shard.id)
+      }
+    }
+
+    expect(shards.map((shard) => shard.hash)).toEqual(
+      await Promise.all(
+        shards.map(async (shard) => hashShardContent(shard.content))
+      )
+    )
+  })
+
+  it('should create the same hashes regardless of the order of the data', async () => {
+    const reversed = Object.fromEntries(Object.entries(data).reverse())
+
+    const shards = await createShards(data, 4)
+    const reversedShards = await createShards(reversed, 4)
+
+    expect(reversedShards.map((shard) => shard.hash)).toEqual(
+      shards.map((shard) => shard.hash)
+    )
+  })
+
+  it('should include the hash in the shard key', async () => {
+    const [shard] = await createShards(data, 1)
+
+    expect(getShardKey(shard.id, shard)).toBe(`0-${shard.hash.slice(0, 16)}`)
+  })
+
+  it('should create and parse the manifest', async () => {
+    const shards = await createShards(data, 4)
+    const manifest = createShardedManifest(shards, storeMeta, true)
+
+    expect(manifest).toMatchObject({
+      format: 'utags-sharded',
+      version: 1,
+      shardCount: 4,
+      encrypted: true,
+      storeMeta,
+    })
+    expect(manifest.shards['0']).toEqual({
+      hash: shards[0].hash,
+      count: shards[0].count,
+    })
+    expect(parseShardedManifest(JSON.stringify(manifest))).toEqual(manifest)
+  })
+
+  it('should not parse the single file layout as a manifest', () => {
+    expect(
+      parseShardedManifest(JSON.stringify({ data, meta: storeMeta }))
+    ).toBeUndefined()
+    expect(parseShardedManifest('not json')).toBeUndefined()
+    expect(parseShardedManifest('null')).toBeUndefined()
+  })
+
+  it('should reject unsupported manifest versions', () => {
+    expect(() =>
+      parseShardedManifest(
+        JSON.stringify({ format: 'utags-sharded', version: 2 })
+      )
+    ).toThrow('Unsupported sharded data format: version 2')
+  })
+})
@@ -0,0 +1,204 @@
+import type { BookmarksData, BookmarksStore } from '../types/bookmarks.js'
+import { normalizeBookmarkData } from '../utils/normalize-bookmark-data.js'
+import { prettyPrintJson } from '../utils/pretty-print-json.js'
+
+/**
+ * @file Sharded remote layout for very large libraries.
+ *
+ * The remote file holds a manifest, and the bookmarks are split into shard
+ * files by the hash of their URL. The manifest records the hash of each shard,
+ * so a sync only downloads and uploads the shards that changed. Shard files are
+ * named by their hash and never overwritten with other content, so the shards
+ * referenced by a manifest stay intact even if an upload is interrupted or
+ * rejected.
+ */
+
+export const shardedSyncDataFormat = 'utags-sharded'
+
+/**
+ * A shard as recorded in the manifest.
+ */
+export type ShardInfo = {
+  /** SHA-256 hash of the shard content, before compression and encryption */
+  hash: string
+  /** Number of bookmarks in the shard. Empty shards are not uploaded. */
+  count: number
+}
+
+/**
+ * The manifest of the sharded remote layout, stored in the remote file.
+ */
+export type ShardedSyncManifest = {
+  format: typeof shardedSyncDataFormat
+  version: 1
+  shardCount: number
+  /** Whether the shard files are encrypted */
+  encrypted: boolean
+  /**
+   * The meta of the bookmarks store.
+   * Not named `meta`, so older versions fail validation instead of treating the remote as empty.
+   */
+  storeMeta: BookmarksStore['meta']
+  shards: Record<string, ShardInfo>
+}
+
+/**
+ * A shard of bookmarks data, ready to upload.
+ */
+export type Shard = ShardInfo & {
+  id: string
+  data: BookmarksData
+  /** The stringified shard data */
+  content: string
+}
+
+/**
+ * Calculates the 32-bit FNV-1a hash of a string.
+ * @param value - The string to hash.
+ * @returns The unsigned hash.
+ */
+function fnv1a(value: string): number {
+  let hash = 0x81_1c_9d_c5
+  for (let i = 0; i < value.length; i++) {
+    // eslint-disable-next-line no-bitwise, unicorn/prefer-code-point
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01_00_01_93)
+  }
+
+  // eslint-disable-next-line no-bitwise
+  return hash >>> 0
+}
+
+/**
+ * Formats a shard index as a zero-padded hexadecimal shard ID.
+ * @param index - The shard index.
+ * @param shardCount - The number of shards.
+ * @returns The shard ID.
+ */
+function formatShardId(index: number, shardCount: number): string {
+  const width = Math.max(shardCount - 1, 1).toString(16).length
+  return index.toString(16).padStart(width, '0')
+}
+
+/**
+ * Gets the ID of the shard a bookmark belongs to.
+ * @param url - The URL of the bookmark.
+ * @param shardCount - The number of shards.
+ * @returns The shard ID.
+ */
+export function getShardId(url: string, shardCount: number): string {
+  return formatShardId(fnv1a(url) % shardCount, shardCount)
+}
+
+/**
+ * Gets the key of the shard file, which includes the hash of its content.
+ * @param id - The shard ID.
+ * @param shard - The shard info.
+ * @returns The shard key.
+ */
+export function getShardKey(id: string, shard: ShardInfo): string {
+  return `${id}-${shard.hash.slice(0, 16)}`
+}
+
+/**
+ * Calculates the hash of stringified shard data.
+ * @param content - The stringified shard data.
+ * @returns The hexadecimal SHA-256 hash.
+ */
+export async function hashShardContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(content)
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+/**
+ * Splits bookmarks data into shards.
+ * The content of each shard is normalized and sorted by URL, so the same
+ * bookmarks always result in the same hash.
+ * @param data - The bookmarks data.
+ * @param shardCount - The number of shards.
+ * @returns All shards, including empty ones.
+ */
+export async function createShards(
+  data: BookmarksData,
+  shardCount: number
+): Promise<Shard[]> {
+  const shardData = new Map<string, BookmarksData>()
+  for (let i = 0; i < shardCount; i++) {
+    shardData.set(formatShardId(i, shardCount), {})
+  }
+
+  for (const url of Object.keys(data).sort()) {
+    shardData.get(getShardId(url, shardCount))![url] = data[url]
+  }
+
+  return Promise.all(
+    Array.from(shardData, async ([id, shard]) => {
+      const content = prettyPrintJson(normalizeBookmarkData(shard))
+      return {
+        id,
+        data: shard,
+        content,
+        hash: await hashShardContent(content),
+        count: Object.keys(shard).length,
+      }
+    })
+  )
+}
+
+/**
+ * Creates the manifest of the sharded remote layout.
+ * @param shards - The shards, as returned by `createShards`.
+ * @param storeMeta - The meta of the bookmarks store.
+ * @param encrypted - Whether the shard files are encrypted.
+ * @returns The manifest.
+ */
+export function createShardedManifest(
+  shards: Shard[],
+  storeMeta: BookmarksStore['meta'],
+  encrypted: boolean
+): ShardedSyncManifest {
+  return {
+    format: shardedSyncDataFormat,
+    version: 1,
+    shardCount: shards.length,
+    encrypted,
+    storeMeta,
+    shards: Object.fromEntries(
+      shards.map(({ id, hash, count }) => [id, { hash, count }])
+    ),
+  }
+}
+
+/**
+ * Parses the manifest of the sharded remote layout.
+ * @param data - The decoded remote data.
+ * @returns The manifest, or undefined if the remote data uses the single file layout.
+ * @throws {Error} If the manifest version is not supported.
+ */
+export function parseShardedManifest(
+  data: string
+): ShardedSyncManifest | undefined {
+  let manifest: Partial<ShardedSyncManifest> | undefined
+  try {
+    manifest = JSON.parse(data) as Partial<ShardedSyncManifest> | undefined
+  } catch {
+    return undefined
+  }
+
+  if (manifest?.format !== shardedSyncDataFormat) {
+    return undefined
+  }
+
+  if (manifest.version !== 1) {
+    throw new Error(
+      `Unsupported sharded data format: version ${String(manifest.version)}`
+    )
+  }
+
+  return manifest as ShardedSyncManifest
+}
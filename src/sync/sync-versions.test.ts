@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import {
+  compareBookmarksData,
+  countActiveBookmarks,
+  createRestoreUpdates,
+} from './sync-versions.js'
+
+const now = 1_735_689_600_000
+
+function createBookmark(
+  tags: string[],
+  title: string,
+  updated2?: number
+): BookmarkTagsAndMetadata {
+  return { tags, meta: { created: 1000, updated: 2000, updated2, title } }
+}
+
+function createTombstone(tags: string[]): BookmarkTagsAndMetadata {
+  return {
+    tags: [...tags, DELETED_BOOKMARK_TAG],
+    meta: { created: 1000, updated: 2000, updated2: 3000 },
+    deletedMeta: { deleted: 3000, actionType: 'DELETE' },
+  }
+}
+
+describe('compareBookmarksData', () => {
+  it('should count added, removed and changed bookmarks', () => {
+    const local: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A'),
+      'https://b.com': createBookmark(['b'], 'B'),
+      'https://c.com': createBookmark(['c'], 'C'),
+      'https://d.com': createTombstone(['d']),
+    }
+    const version: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A', 5000),
+      'https://b.com': createBookmark(['b', 'new'], 'B'),
+      'https://d.com': createBookmark(['d'], 'D'),
+      'https://e.com': createBookmark(['e'], 'E'),
+    }
+
+    expect(compareBookmarksData(local, version)).toEqual({
+      added: 2,
+      removed: 1,
+      changed: 1,
+    })
+  })
+
+  it('should count soft-deleted bookmarks as removed', () => {
+    const local: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A'),
+    }
+    const version: BookmarksData = {
+      'https://a.com': createTombstone(['a']),
+    }
+
+    expect(compareBookmarksData(local, version)).toEqual({
+      added: 0,
+      removed: 1,
+      changed: 0,
+    })
+  })
+})
+
+describe('countActiveBookmarks', () => {
+  it('should not count soft-deleted bookmarks', () => {
+    expect(
+      countActiveBookmarks({
+        'https://a.com': createBookmark(['a'], 'A'),
+        'https://b.com': createTombstone(['b']),
+      })
+    ).toBe(1)
+  })
+})
+
+describe('createRestoreUpdates', () => {
+  it('should replace missing, deleted and changed bookmarks with the version', () => {
+    const local: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A'),
+      'https://b.com': createBookmark(['b', 'new'], 'B'),
+      'https://d.com': createTombstone(['d']),
+    }
+    const version: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A', 5000),
+      'https://b.com': createBookmark(['b'], 'B'),
+      'https://d.com': createBookmark(['d'], 'D'),
+      'https://e.com': createBookmark(['e'], 'E'),
+    }
+
+    const updates = createRestoreUpdates(local, version, now)
+
+    expect(Object.keys(updates).sort()).toEqual([
+      'https://b.com',
+      'https://d.com',
+      'https://e.com',
+    ])
+    expect(updates['https://b.com']).toEqual(createBookmark(['b'], 'B', now))
+    expect(updates['https://d.com']).toEqual(createBookmark(['d'], 'D', now))
+    expect(updates['https://e.com']).toEqual(createBookmark(['e'], 'E', now))
+  })
+
+  it('should soft-delete local bookmarks the version does not have', () => {
+    const local: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A'),
+      'https://b.com': createBookmark(['b'], 'B'),
+      'https://c.com': createTombstone(['c']),
+    }
+    const version: BookmarksData = {
+      'https://b.com': createTombstone(['b']),
+    }
+
+    const updates = createRestoreUpdates(local, version, now)
+
+    expect(Object.keys(updates).sort()).toEqual([
+      'https://a.com',
+      'https://b.com',
+    ])
+    expect(updates['https://a.com']).toEqual({
+      tags: ['a', DELETED_BOOKMARK_TAG],
+      meta: { created: 1000, updated: 2000, updated2: now, title: 'A' },
+      deletedMeta: { deleted: now, actionType: 'SYNC' },
+    })
+    expect(updates['https://b.com'].deletedMeta).toEqual({
+      deleted: now,
+      actionType: 'SYNC',
+    })
+  })
+
+  it('should not change anything if the local bookmarks match the version', () => {
+    const local: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A', 3000),
+    }
+    const version: BookmarksData = {
+      'https://a.com': createBookmark(['a'], 'A'),
+    }
+
+    expect(createRestoreUpdates(local, version, now)).toEqual({})
+  })
+})
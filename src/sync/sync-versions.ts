@@ -0,0 +1,144 @@
+import type {
+  BookmarkTagsAndMetadata,
+  BookmarksData,
+} from '../types/bookmarks.js'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import { addTags, isMarkedAsDeleted } from '../utils/bookmarks.js'
+import { areArraysEqual, areObjectsEqual } from '../utils/index.js'
+
+/**
+ * @file Helpers for browsing and restoring historical versions of the remote data.
+ *
+ * Restoring a version changes the local bookmarks to match the version. The
+ * changes are timestamped like local edits, so the next sync uploads the
+ * restored bookmarks instead of the three-way merge treating them as outdated.
+ */
+
+/**
+ * The number of bookmarks that differ between two bookmarks data objects.
+ */
+export type BookmarksDataDiff = {
+  added: number
+  removed: number
+  changed: number
+}
+
+/**
+ * Checks if the tags or metadata of a bookmark differ, ignoring the timestamps of batch operations and syncs.
+ * @param entry1 - The first bookmark.
+ * @param entry2 - The second bookmark.
+ * @returns True if the bookmarks differ.
+ */
+function isBookmarkChanged(
+  entry1: BookmarkTagsAndMetadata,
+  entry2: BookmarkTagsAndMetadata
+): boolean {
+  return (
+    !areArraysEqual(entry1.tags, entry2.tags) ||
+    !areObjectsEqual(entry1.meta, entry2.meta, ['updated2', 'updated3'])
+  )
+}
+
+/**
+ * Gets the bookmark of a URL if it exists and is not soft-deleted.
+ * @param data - The bookmarks data.
+ * @param url - The URL of the bookmark.
+ * @returns The bookmark, or undefined.
+ */
+function getActiveBookmark(
+  data: BookmarksData,
+  url: string
+): BookmarkTagsAndMetadata | undefined {
+  const entry = data[url]
+  return entry && !isMarkedAsDeleted(entry) ? entry : undefined
+}
+
+/**
+ * Counts the bookmarks added, removed and changed from one bookmarks data object to another.
+ * Soft-deleted bookmarks count as removed.
+ * @param from - The bookmarks data to compare from, e.g., the local bookmarks.
+ * @param to - The bookmarks data to compare to, e.g., a version of the remote data.
+ * @returns The numbers of differing bookmarks.
+ */
+export function compareBookmarksData(
+  from: BookmarksData,
+  to: BookmarksData
+): BookmarksDataDiff {
+  const diff: BookmarksDataDiff = { added: 0, removed: 0, changed: 0 }
+
+  for (const url of Object.keys(to)) {
+    const toEntry = getActiveBookmark(to, url)
+    const fromEntry = getActiveBookmark(from, url)
+    if (!toEntry) {
+      continue
+    }
+
+    if (!fromEntry) {
+      diff.added++
+    } else if (isBookmarkChanged(fromEntry, toEntry)) {
+      diff.changed++
+    }
+  }
+
+  for (const url of Object.keys(from)) {
+    if (getActiveBookmark(from, url) && !getActiveBookmark(to, url)) {
+      diff.removed++
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Counts the bookmarks of a bookmarks data object that are not soft-deleted.
+ * @param data - The bookmarks data.
+ * @returns The number of bookmarks.
+ */
+export function countActiveBookmarks(data: BookmarksData): number {
+  return Object.values(data).filter((entry) => !isMarkedAsDeleted(entry)).length
+}
+
+/**
+ * Creates the local updates that restore a version of the remote data.
+ * Bookmarks of the version that are missing, deleted or different locally are replaced by the version,
+ * and local bookmarks that the version does not have are soft-deleted.
+ * @param localData - The local bookmarks data.
+ * @param versionData - The bookmarks data of the version.
+ * @param now - The time of the restore, used as the timestamp of the changes.
+ * @returns The bookmarks to update locally.
+ */
+export function createRestoreUpdates(
+  localData: BookmarksData,
+  versionData: BookmarksData,
+  now = Date.now()
+): BookmarksData {
+  const updates: BookmarksData = {}
+
+  for (const url of Object.keys(versionData)) {
+    const versionEntry = getActiveBookmark(versionData, url)
+    const localEntry = getActiveBookmark(localData, url)
+    if (
+      versionEntry &&
+      (!localEntry || isBookmarkChanged(localEntry, versionEntry))
+    ) {
+      updates[url] = {
+        ...versionEntry,
+        meta: { ...versionEntry.meta, updated2: now },
+      }
+    }
+  }
+
+  for (const url of Object.keys(localData)) {
+    const localEntry = getActiveBookmark(localData, url)
+    if (localEntry && !getActiveBookmark(versionData, url)) {
+      updates[url] = {
+        ...localEntry,
+        tags: addTags(localEntry.tags, DELETED_BOOKMARK_TAG),
+        meta: { ...localEntry.meta, updated2: now },
+        deletedMeta: { deleted: now, actionType: 'SYNC' },
+      }
+    }
+  }
+
+  return updates
+}
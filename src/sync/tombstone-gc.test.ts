@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { DELETED_BOOKMARK_TAG } from '../config/constants.js'
+import type {
+  BookmarksData,
+  BookmarkTagsAndMetadata,
+} from '../types/bookmarks.js'
+import type { SyncServiceConfig } from './types.js'
+import {
+  findExpiredTombstones,
+  getLocalTombstoneCutoff,
+  getTombstoneCutoff,
+  isLaggingBehindPurge,
+  purgeExpiredTombstones,
+} from './tombstone-gc.js'
+
+const dayInMs = 24 * 60 * 60 * 1000
+const now = Date.now()
+
+function createTombstone(
+  deleted: number,
+  updated3?: number
+): BookmarkTagsAndMetadata {
+  return {
+    tags: [DELETED_BOOKMARK_TAG, 'tag1'],
+    meta: { created: deleted - dayInMs, updated: deleted, updated3 },
+    deletedMeta: { deleted, actionType: 'DELETE' },
+  }
+}
+
+function createService(
+  id: string,
+  enabled: boolean,
+  lastSyncTimestamp?: number
+): SyncServiceConfig {
+  return {
+    id,
+    type: 'customApi',
+    name: id,
+    credentials: {},
+    target: {},
+    scope: 'all',
+    enabled,
+    lastSyncTimestamp,
+  }
+}
+
+describe('tombstone-gc', () => {
+  const data: BookmarksData = {
+    'https://example.com/active': {
+      tags: ['tag1'],
+      meta: { created: now - 100 * dayInMs, updated: now - 100 * dayInMs },
+    },
+    'https://example.com/expired': createTombstone(now - 40 * dayInMs),
+    'https://example.com/recent': createTombstone(now - 10 * dayInMs),
+    // Deleted long ago, but only uploaded recently
+    'https://example.com/synced-late': createTombstone(
+      now - 40 * dayInMs,
+      now - dayInMs
+    ),
+  }
+
+  describe('getTombstoneCutoff', () => {
+    it('should return the cutoff for the retention period', () => {
+      expect(getTombstoneCutoff(30, now)).toBe(now - 30 * dayInMs)
+    })
+
+    it('should be disabled without a positive retention period', () => {
+      expect(getTombstoneCutoff(undefined, now)).toBeUndefined()
+      expect(getTombstoneCutoff(0, now)).toBeUndefined()
+      expect(getTombstoneCutoff(-1, now)).toBeUndefined()
+    })
+  })
+
+  describe('getLocalTombstoneCutoff', () => {
+    it('should not pass the last sync of any enabled service', () => {
+      const cutoff = now - 30 * dayInMs
+      const services = [
+        createService('a', true, now),
+        createService('b', true, now - 50 * dayInMs),
+        createService('c', false, now - 100 * dayInMs),
+      ]
+
+      expect(getLocalTombstoneCutoff(cutoff, services)).toBe(now - 50 * dayInMs)
+      expect(getLocalTombstoneCutoff(cutoff, services.slice(0, 1))).toBe(cutoff)
+    })
+
+    it('should keep all tombstones while an enabled service has never synced', () => {
+      expect(
+        getLocalTombstoneCutoff(now, [createService('a', true, undefined)])
+      ).toBe(0)
+    })
+  })
+
+  describe('findExpiredTombstones', () => {
+    it('should find tombstones last written before the cutoff', () => {
+      expect(findExpiredTombstones(data, now - 30 * dayInMs)).toEqual([
+        'https://example.com/expired',
+      ])
+    })
+  })
+
+  describe('purgeExpiredTombstones', () => {
+    it('should remove expired tombstones without changing the input', () => {
+      const result = purgeExpiredTombstones(data, now - 30 * dayInMs)
+
+      expect(result.purged).toEqual(['https://example.com/expired'])
+      expect(Object.keys(result.data)).toEqual([
+        'https://example.com/active',
+        'https://example.com/recent',
+        'https://example.com/synced-late',
+      ])
+      expect(data['https://example.com/expired']).toBeDefined()
+    })
+
+    it('should return the same data if nothing is expired', () => {
+      const result = purgeExpiredTombstones(data, now - 50 * dayInMs)
+
+      expect(result.purged).toEqual([])
+      expect(result.data).toBe(data)
+    })
+  })
+
+  describe('isLaggingBehindPurge', () => {
+    it('should detect a device that last synced before the purge', () => {
+      expect(isLaggingBehindPurge(now, now - 1)).toBe(true)
+      expect(isLaggingBehindPurge(now, now)).toBe(false)
+      expect(isLaggingBehindPurge(undefined, now - 1)).toBe(false)
+      // The first sync has nothing to compare with
+      expect(isLaggingBehindPurge(now, 0)).toBe(false)
+    })
+  })
+})
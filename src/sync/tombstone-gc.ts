@@ -0,0 +1,132 @@
+import type {
+  BookmarkTagsAndMetadata,
+  BookmarksData,
+} from '../types/bookmarks.js'
+import { isMarkedAsDeleted } from '../utils/bookmarks.js'
+import type { SyncServiceConfig } from './types.js'
+
+/**
+ * @file Garbage collection of tombstones, i.e. soft-deleted bookmarks.
+ *
+ * A tombstone is kept so that the deletion reaches every device. Once it is
+ * older than the retention period, every device that synced since then has
+ * received it, and it can be purged. A device that has not synced for longer
+ * than that is lagging: its merge must treat bookmarks missing on the remote
+ * as deleted (see `isLaggingBehindPurge`), so purged bookmarks are not
+ * resurrected.
+ */
+
+const dayInMs = 24 * 60 * 60 * 1000
+
+/**
+ * Gets the time a tombstone was last written, by a deletion or by a sync.
+ * @param entry - The soft-deleted bookmark.
+ * @returns The timestamp in milliseconds.
+ */
+function getTombstoneTime(entry: BookmarkTagsAndMetadata): number {
+  const { updated, updated2, updated3 } = entry.meta
+  return Math.max(
+    entry.deletedMeta?.deleted || 0,
+    updated || 0,
+    updated2 || 0,
+    updated3 || 0
+  )
+}
+
+/**
+ * Gets the time before which tombstones are expired.
+ * @param retentionDays - The number of days tombstones are kept. 0 or undefined disables the garbage collection.
+ * @param now - The current time.
+ * @returns The cutoff timestamp, or undefined if the garbage collection is disabled.
+ */
+export function getTombstoneCutoff(
+  retentionDays: number | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!retentionDays || retentionDays <= 0) {
+    return undefined
+  }
+
+  return now - retentionDays * dayInMs
+}
+
+/**
+ * Gets the cutoff for purging local tombstones.
+ * Local tombstones are only purged after every enabled sync service has synced
+ * past them, so each remote has received the deletion.
+ * @param cutoff - The cutoff from `getTombstoneCutoff`.
+ * @param syncServices - The configured sync services.
+ * @returns The cutoff timestamp.
+ */
+export function getLocalTombstoneCutoff(
+  cutoff: number,
+  syncServices: SyncServiceConfig[]
+): number {
+  let localCutoff = cutoff
+  for (const service of syncServices) {
+    if (service.enabled) {
+      localCutoff = Math.min(localCutoff, service.lastSyncTimestamp || 0)
+    }
+  }
+
+  return localCutoff
+}
+
+/**
+ * Finds the tombstones last written before the cutoff.
+ * @param data - The bookmarks data.
+ * @param cutoff - The cutoff timestamp.
+ * @returns The URLs of the expired tombstones.
+ */
+export function findExpiredTombstones(
+  data: BookmarksData,
+  cutoff: number
+): string[] {
+  return Object.entries(data)
+    .filter(
+      ([, entry]) =>
+        isMarkedAsDeleted(entry) && getTombstoneTime(entry) < cutoff
+    )
+    .map(([url]) => url)
+}
+
+/**
+ * Removes the expired tombstones from bookmarks data.
+ * @param data - The bookmarks data.
+ * @param cutoff - The cutoff timestamp.
+ * @returns The data without expired tombstones, and the URLs of the purged tombstones.
+ */
+export function purgeExpiredTombstones(
+  data: BookmarksData,
+  cutoff: number
+): { data: BookmarksData; purged: string[] } {
+  const purged = findExpiredTombstones(data, cutoff)
+  if (purged.length === 0) {
+    return { data, purged }
+  }
+
+  const purgedUrls = new Set(purged)
+  return {
+    data: Object.fromEntries(
+      Object.entries(data).filter(([url]) => !purgedUrls.has(url))
+    ),
+    purged,
+  }
+}
+
+/**
+ * Checks if this device last synced with a remote before tombstones were purged from it.
+ * @param tombstonesPurgedBefore - The cutoff of the last purge, from the remote store meta.
+ * @param lastSyncTime - The last sync time of this device with the remote.
+ * @returns True if the merge must not keep bookmarks the remote no longer has.
+ */
+export function isLaggingBehindPurge(
+  tombstonesPurgedBefore: number | undefined,
+  lastSyncTime: number | undefined
+): boolean {
+  return Boolean(
+    tombstonesPurgedBefore &&
+      lastSyncTime &&
+      lastSyncTime < tombstonesPurgedBefore
+  )
+}
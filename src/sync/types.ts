@@ -1,9 +1,28 @@
 import {
   type BookmarkTagsAndMetadata,
   type BookmarksData,
+  type BookmarksStore,
 } from '../types/bookmarks.js'
-import type { MergeStrategy } from '../lib/bookmark-merge-utils.js'
+import type {
+  MergeConflict,
+  MergeStrategy,
+} from '../lib/bookmark-merge-utils.js'
 import type { SyncSettings } from '../stores/sync-config-store.js' // Needs to be imported
+import type { MassDeletionReport } from './mass-deletion-guard.js'
+import type { SyncAppDataCategory } from './sync-app-data.js'
+import type { SyncCompressionFormat } from './sync-compression.js'
+
+/**
+ * Type of a synchronization service.
+ */
+export type SyncServiceType =
+  | 'github'
+  | 'gitlab'
+  | 'gitea'
+  | 'webdav'
+  | 'customApi'
+  | 's3'
+  | 'browserExtension'
 
 /**
  * Configuration for a specific synchronization service instance.
@@ -21,20 +40,27 @@ export type SyncServiceConfig<
   // target: GithubTarget | WebDAVTarget | ApiTarget | BrowserExtensionTarget // Service-specific target
 > = {
   id: string // Unique ID for this configuration
-  type: 'github' | 'webdav' | 'customApi' | 'browserExtension' // Type of the sync service
+  type: SyncServiceType // Type of the sync service
   name: string // User-defined name for this configuration
   credentials: C // Service-specific credentials
   target: T // Service-specific target
   mergeStrategy?: MergeStrategy // Merge strategy
+  shardCount?: number // Number of shard files of the sharded remote layout. 0 or undefined uses a single file.
+  compression?: SyncCompressionFormat // Compression format of the uploaded data. Undefined disables compression.
+  encryptionPassphrase?: string // Passphrase for end-to-end encryption of the remote data. Empty or undefined disables encryption.
   autoSyncEnabled?: boolean // Whether automatic sync is enabled
   autoSyncInterval?: number // Interval in minutes for automatic sync, e.g., 15
   autoSyncOnChanges?: boolean // Whether to automatically sync when local data changes
   autoSyncDelayOnChanges?: number // Delay in minutes after data changes to trigger sync, e.g., 1. Requires autoSyncOnChanges to be true.
   scope: 'all' | string // Sync scope: 'all' or a collectionId
+  syncCategories?: SyncAppDataCategory[] // Categories of app data synced next to the bookmarks, e.g., collections. Undefined syncs only bookmarks.
   lastSyncTimestamp?: number // Timestamp of the last successful remote data sync
   lastDataChangeTimestamp?: number // Timestamp of the last synchronization that detected data changes (local or remote)
   lastSyncLocalDataHash?: string // Hash of local data at the time of last successful sync
   lastSyncMeta?: SyncMetadata // Metadata of the last successful sync
+  lastSyncResult?: 'success' | 'error' | 'conflict' // Result of the last sync attempt
+  lastSyncError?: string // Error message of the last sync attempt if it failed
+  lastSyncAttemptTimestamp?: number // Timestamp of the last sync attempt, successful or not
   enabled: boolean // Whether this sync configuration is active
   // Other service-specific configurations can be added here
 }
@@ -75,6 +101,49 @@ export type GitHubBlobResponse = {
   encoding: 'base64' // Content encoding
 }
 
+/**
+ * GitLab API response for getting a file
+ * Based on GitLab Repository Files API: https://docs.gitlab.com/api/repository_files/
+ */
+export type GitLabFileResponse = {
+  file_name: string // File name
+  file_path: string // File path in repository
+  size: number // File size in bytes
+  encoding: 'base64'
+  content: string // Base64 encoded file content
+  content_sha256: string // SHA-256 of the file content
+  ref: string // Branch, tag or commit the file was read from
+  blob_id: string // SHA of the file blob
+  commit_id: string // SHA of the commit of the ref
+  last_commit_id: string // SHA of the last commit that changed the file
+}
+
+/**
+ * Gitea API response for getting file contents, or the file of a create/update/delete response
+ * Based on Gitea Repository API: https://docs.gitea.com/api/1.22/#tag/repository
+ */
+export type GiteaContentsResponse = {
+  name: string // File name
+  path: string // File path in repository
+  sha: string // SHA of the file blob
+  last_commit_sha?: string // SHA of the last commit that changed the file (Gitea 1.21+)
+  type: 'file' | 'dir' | 'symlink' | 'submodule'
+  size: number // File size in bytes
+  encoding?: 'base64'
+  content?: string // Base64 encoded file content
+}
+
+/**
+ * Gitea API response for creating or updating a file
+ */
+export type GiteaFileResponse = {
+  content: GiteaContentsResponse | undefined
+  commit: {
+    sha: string // SHA of the commit
+    message: string // Commit message
+  }
+}
+
 /**
  * GitHub API response for creating or updating a file
  * Based on GitHub Create/Update File API: https://docs.github.com/en/rest/repos/contents
@@ -130,6 +199,22 @@ export type GitHubCreateUpdateFileResponse = {
   }
 }
 
+/**
+ * An item of the GitHub API response for listing commits
+ * Based on GitHub Commits API: https://docs.github.com/en/rest/commits/commits
+ */
+export type GitHubCommitResponse = {
+  sha: string // SHA of the commit
+  commit: {
+    message: string // Commit message
+    committer: {
+      name: string
+      email: string
+      date: string // ISO 8601 timestamp
+    }
+  }
+}
+
 /**
  * Credentials for GitHub synchronization.
  */
@@ -144,6 +229,43 @@ export type GithubTarget = {
   repo: string // Repository name in 'owner/repo' format
   path: string // Path to the bookmarks file within the repository (e.g., 'bookmarks.json')
   branch?: string // Branch to sync with, defaults to the repository's default branch
+  commitMessage?: string // Optional: Commit message of uploads. '{date}' is replaced with the current date
+}
+
+/**
+ * Credentials for GitLab synchronization.
+ */
+export type GitLabCredentials = {
+  token: string // GitLab personal, group or project access token with the 'api' scope
+}
+
+/**
+ * Target configuration for GitLab synchronization.
+ */
+export type GitLabTarget = {
+  url?: string // Optional: Base URL of a self-managed GitLab instance, defaults to 'https://gitlab.com'
+  repo: string // Project path in 'namespace/project' format, or the numeric project ID
+  path: string // Path to the bookmarks file within the repository (e.g., 'bookmarks.json')
+  branch?: string // Branch to sync with, defaults to the project's default branch
+  commitMessage?: string // Optional: Commit message of uploads. '{date}' is replaced with the current date
+}
+
+/**
+ * Credentials for Gitea synchronization.
+ */
+export type GiteaCredentials = {
+  token: string // Gitea access token with repository write permission
+}
+
+/**
+ * Target configuration for Gitea synchronization.
+ */
+export type GiteaTarget = {
+  url: string // Base URL of the Gitea instance (e.g., 'https://gitea.example.com')
+  repo: string // Repository name in 'owner/repo' format
+  path: string // Path to the bookmarks file within the repository (e.g., 'bookmarks.json')
+  branch?: string // Branch to sync with, defaults to the repository's default branch
+  commitMessage?: string // Optional: Commit message of uploads. '{date}' is replaced with the current date
 }
 
 // Placeholder for WebDAV and Custom API credentials and targets
@@ -156,6 +278,7 @@ export type WebDAVCredentials = {
 export type WebDAVTarget = {
   url: string
   path: string
+  versionCount?: number // Optional: Number of timestamped backup copies of the remote file to keep. 0 or undefined disables versions.
 }
 export type ApiCredentials = {
   token?: string // Optional: Bearer token for authentication
@@ -175,6 +298,46 @@ export type CustomApiUploadResponse = {
   sha: string
   size: number
   id: string // File path or identifier
+  cursor?: string // Delta sync cursor, if the API supports the delta sync protocol
+}
+
+/**
+ * Changes of the bookmarks data, exchanged with the delta sync protocol.
+ *
+ * The protocol is optional for a custom API. An API supporting it:
+ * - Returns the current cursor in the `X-Sync-Cursor` header when the file is downloaded or uploaded.
+ * - Returns `SyncChanges & { cursor: string }` from `GET <file>/changes?since=<cursor>`,
+ *   or 410 Gone if it no longer knows the cursor.
+ * - Applies `SyncChanges & { since: string }` sent with `PATCH <file>` and returns
+ *   `CustomApiUploadResponse`, or 409 Conflict if the file changed since the cursor.
+ */
+export type SyncChanges = {
+  /** Added or updated bookmarks */
+  changed: BookmarksData
+  /** URLs of removed bookmarks */
+  deleted: string[]
+  /** The meta of the bookmarks store after the changes */
+  meta: BookmarksStore['meta']
+}
+
+/**
+ * Credentials for S3-compatible object storage synchronization.
+ */
+export type S3Credentials = {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string // Optional: Session token for temporary credentials
+}
+
+/**
+ * Target configuration for S3-compatible object storage synchronization.
+ */
+export type S3Target = {
+  endpoint?: string // Optional: Endpoint URL of an S3-compatible service (e.g., 'https://minio.example.com'). Defaults to AWS S3.
+  region?: string // Optional: Region of the bucket, defaults to 'us-east-1'
+  bucket: string // Bucket name
+  path?: string // Optional: Object key of the bookmarks file (e.g., 'utags/bookmarks.json')
+  forcePathStyle?: boolean // Optional: Use path-style URLs (endpoint/bucket/key) instead of virtual-hosted-style URLs (bucket.endpoint/key)
 }
 
 /**
@@ -192,6 +355,7 @@ export type BrowserExtensionTarget = {
   // For example, could specify a named data store within the target extension
   extensionId: string // ID of the target browser extension
   extensionName?: string // Optional: User-friendly name of the target extension
+  nativeBookmarks?: boolean // Optional: Whether the target syncs with the native bookmarks of the browser instead of storing the data
 }
 
 /**
@@ -205,6 +369,16 @@ export type SyncMetadata = {
   timestamp?: number
   version?: string // Version identifier (e.g., commit SHA, ETag)
   sha?: string // GitHub specific: blob SHA or commit SHA of the file
+  cursor?: string // Delta sync cursor of the remote data, if supported by the adapter
+}
+
+/**
+ * A historical version of the remote file, such as a commit or a backup copy.
+ */
+export type SyncVersion = {
+  id: string // Identifier of the version, passed to `SyncAdapter.downloadVersion` (e.g., commit SHA, backup file name)
+  timestamp: number // Time the version was created
+  message?: string // Optional: Description of the version (e.g., commit message)
 }
 
 /**
@@ -237,6 +411,9 @@ export type MessageType =
   | 'HTTP_REQUEST'
   | 'HTTP_RESPONSE'
   | 'HTTP_ERROR'
+  | 'DATA_CHANGED'
+  | 'GET_NATIVE_BOOKMARKS'
+  | 'APPLY_NATIVE_BOOKMARK_CHANGES'
 
 /**
  * Generic message structure for communication with the browser extension.
@@ -353,6 +530,92 @@ export type SyncAdapter<C = any, T = any> = {
    */
   getRemoteMetadata(): Promise<SyncMetadata | undefined>
 
+  /**
+   * (Optional) Downloads a shard file of the sharded remote layout.
+   * Shard files are stored next to the remote file, which then holds the manifest (see `buildShardPath`).
+   * Adapters that do not implement the shard methods only support the single file layout.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves with the shard data, or `undefined` if the shard file does not exist.
+   * @throws {Error} If the download fails due to network issues, authentication problems, or server errors.
+   */
+  downloadShard?(shardKey: string): Promise<string | undefined>
+
+  /**
+   * (Optional) Uploads a shard file of the sharded remote layout, replacing an existing shard file with the same key.
+   * Shard keys contain the hash of the shard, so an existing shard file has the same content, possibly encoded differently.
+   * @param shardKey - The key of the shard file.
+   * @param data - The stringified shard data.
+   * @returns A promise that resolves when the shard is uploaded.
+   * @throws {Error} If the upload fails due to network issues, authentication problems, or server errors.
+   */
+  uploadShard?(shardKey: string, data: string): Promise<void>
+
+  /**
+   * (Optional) Deletes a shard file that is no longer referenced by the manifest.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves when the shard is deleted or does not exist.
+   * @throws {Error} If the deletion fails due to network issues, authentication problems, or server errors.
+   */
+  deleteShard?(shardKey: string): Promise<void>
+
+  /**
+   * (Optional) Downloads the app data file, which holds the synced collections, saved filters and preferences.
+   * The app data file is stored next to the remote file (see `buildAppDataPath`).
+   * Adapters that do not implement the app data methods only sync bookmarks.
+   * @returns A promise that resolves with the app data, or `undefined` if the app data file does not exist.
+   * @throws {Error} If the download fails due to network issues, authentication problems, or server errors.
+   */
+  downloadAppData?(): Promise<string | undefined>
+
+  /**
+   * (Optional) Uploads the app data file, replacing an existing app data file.
+   * @param data - The stringified app data.
+   * @returns A promise that resolves when the app data is uploaded.
+   * @throws {Error} If the upload fails due to network issues, authentication problems, or server errors.
+   */
+  uploadAppData?(data: string): Promise<void>
+
+  /**
+   * (Optional) Downloads the changes of the remote data since a cursor, for the delta sync protocol.
+   * Adapters return the cursor in `SyncMetadata.cursor` if the remote supports delta sync.
+   * @param since - The cursor of the last sync.
+   * @returns A promise that resolves with the changes and the remote metadata including the new cursor,
+   *          or `undefined` if the remote does not support delta sync or no longer knows the cursor, in which case the whole file is synced.
+   * @throws {Error} If the download fails due to network issues, authentication problems, or server errors.
+   */
+  downloadChanges?(since: string): Promise<
+    | {
+        changes: SyncChanges
+        remoteMeta: SyncMetadata
+      }
+    | undefined
+  >
+
+  /**
+   * (Optional) Uploads changes of the data, for the delta sync protocol.
+   * @param changes - The changes since the cursor.
+   * @param since - The cursor the changes are based on.
+   * @returns A promise that resolves with the new sync metadata including the new cursor.
+   * @throws {Error} If the upload fails, or an error named `UploadConflictError` if the remote changed since the cursor.
+   */
+  uploadChanges?(changes: SyncChanges, since: string): Promise<SyncMetadata>
+
+  /**
+   * (Optional) Lists the historical versions of the remote file, such as the commits changing it.
+   * Adapters that do not implement the version methods do not support browsing and restoring versions.
+   * @returns A promise that resolves with the versions, newest first.
+   * @throws {Error} If listing fails due to network issues, authentication problems, or server errors.
+   */
+  listVersions?(): Promise<SyncVersion[]>
+
+  /**
+   * (Optional) Downloads the content of a historical version of the remote file.
+   * @param versionId - The `id` of a version returned by `listVersions`.
+   * @returns A promise that resolves with the data of the version, or undefined if the version no longer exists.
+   * @throws {Error} If the download fails due to network issues, authentication problems, or server errors.
+   */
+  downloadVersion?(versionId: string): Promise<string | undefined>
+
   /**
    * (Optional) Attempts to acquire a lock for synchronization.
    * This is used to prevent concurrent sync operations on the same resource if the backend supports it.
@@ -377,6 +640,14 @@ export type SyncAdapter<C = any, T = any> = {
    */
   getAuthStatus?(): Promise<AuthStatus>
 
+  /**
+   * (Optional) Registers a listener that is called when the target pushes a notification that its data changed,
+   * e.g., because another client uploaded new data. Only adapters whose target can push notifications implement this method.
+   * The listener is removed when the adapter is destroyed.
+   * @param listener - The function to call when the remote data changed.
+   */
+  onRemoteDataChanged?(listener: () => void): void
+
   /**
    * (Optional) Cleans up resources used by the adapter, such as event listeners or open connections.
    * This method should not throw errors and should try to complete its cleanup tasks even if some steps fail.
@@ -399,8 +670,41 @@ export type SyncStatus =
   | { type: 'conflict'; details: any; lastAttemptTime?: number }
   | { type: 'disabled' }
 
+/**
+ * The bookmark data chosen by the user for a conflicting bookmark.
+ * It replaces the automatically merged version on both sides.
+ */
+export type SyncConflictResolution = {
+  url: string
+  data: BookmarkTagsAndMetadata
+}
+
+/**
+ * Lets the user review merge conflicts before local changes are applied and the merged data is uploaded.
+ * @param serviceId - The ID of the sync service being synchronized.
+ * @param conflicts - The conflicting bookmarks.
+ * @returns The resolutions (conflicts without one keep the merged version), or undefined to cancel the sync.
+ */
+export type SyncConflictResolver = (
+  serviceId: string,
+  conflicts: MergeConflict[]
+) => Promise<SyncConflictResolution[] | undefined>
+
+/**
+ * Lets the user confirm a sync that would delete or overwrite more bookmarks than the mass deletion threshold allows.
+ * @param serviceId - The ID of the sync service being synchronized.
+ * @param report - The sides that exceed the threshold and their affected bookmarks.
+ * @returns True to continue the sync, false to cancel it.
+ */
+export type SyncMassDeletionConfirmer = (
+  serviceId: string,
+  report: MassDeletionReport
+) => Promise<boolean>
+
 export type SyncEvents = {
   statusChange: SyncStatus
+  /** The status of the latest sync of any tab, shared through a BroadcastChannel */
+  sharedStatusChange: SyncStatus
   syncStart: { serviceId: string }
   syncSuccess: {
     serviceId: string
@@ -417,6 +721,8 @@ export type SyncEvents = {
   adapterChanged: SyncAdapter | undefined
   settingsChanged: SyncSettings
   bookmarksRemoved: { serviceId: string; urls: string[] }
+  /** The target of a sync service pushed a notification that its data changed */
+  remoteDataChanged: { serviceId: string }
   // Potentially other events like 'conflictDetected', 'mergeNeeded'
   syncConflict: {
     serviceId: string
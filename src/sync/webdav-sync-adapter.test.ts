@@ -182,6 +182,122 @@ const createMkcolHandler = (
   )
 }
 
+/**
+ * Creates an MSW RequestHandler for a WebDAV server storing files in memory.
+ * Directories exist implicitly if they contain files.
+ * @param config The service configuration containing the server URL.
+ * @param files The files of the server by path, e.g., '/utags/bookmarks.json'.
+ * @param locks The lock tokens of the locked files by path. Locked files can only be written with their token.
+ * @returns An MSW RequestHandler.
+ */
+const createMemoryServerHandler = (
+  config: SyncServiceConfig<WebDAVCredentials, WebDAVTarget>,
+  files: Map<string, string>,
+  locks = new Map<string, string>()
+): RequestHandler => {
+  const basePath = new URL(config.target.url).pathname
+  const toPath = (url: string) =>
+    decodeURIComponent(new URL(url).pathname.slice(basePath.length)) || '/'
+  const toResponse = (path: string, isCollection: boolean) => `
+  <D:response>
+    <D:href>${basePath}${path}</D:href>
+    <D:propstat>
+      <D:prop>
+        ${isCollection ? '' : `<D:getetag>"${files.get(path)!.length}"</D:getetag>`}
+        <D:resourcetype>${isCollection ? '<D:collection/>' : ''}</D:resourcetype>
+      </D:prop>
+      <D:status>HTTP/1.1 200 OK</D:status>
+    </D:propstat>
+  </D:response>`
+
+  return http.all(`${config.target.url}/*`, async ({ request }) => {
+    const path = toPath(request.url)
+    switch (request.method.toUpperCase()) {
+      case 'PROPFIND': {
+        const directory = path.replace(/\/$/, '')
+        const children = [...files.keys()].filter(
+          (filePath) =>
+            filePath.startsWith(`${directory}/`) &&
+            !filePath.slice(directory.length + 1).includes('/')
+        )
+        if (!files.has(path) && children.length === 0 && directory) {
+          return new HttpResponse(null, { status: 404 })
+        }
+
+        const responses = files.has(path)
+          ? [toResponse(path, false)]
+          : [
+              toResponse(path, true),
+              ...(request.headers.get('Depth') === '1'
+                ? children.map((child) => toResponse(child, false))
+                : []),
+            ]
+        return new HttpResponse(
+          `<?xml version="1.0" encoding="utf-8"?><D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`,
+          { status: 207, headers: { 'Content-Type': 'application/xml' } }
+        )
+      }
+
+      case 'GET': {
+        return files.has(path)
+          ? HttpResponse.text(files.get(path))
+          : new HttpResponse(null, { status: 404 })
+      }
+
+      case 'PUT': {
+        const token = locks.get(path)
+        if (token && request.headers.get('If') !== `(<${token}>)`) {
+          return new HttpResponse(null, { status: 423 })
+        }
+
+        files.set(path, await request.text())
+        return new HttpResponse(null, { status: 201 })
+      }
+
+      case 'COPY': {
+        if (!files.has(path)) {
+          return new HttpResponse(null, { status: 404 })
+        }
+
+        files.set(toPath(request.headers.get('Destination')!), files.get(path)!)
+        return new HttpResponse(null, { status: 201 })
+      }
+
+      case 'LOCK': {
+        if (locks.has(path)) {
+          return new HttpResponse(null, { status: 423 })
+        }
+
+        const token = `opaquelocktoken:${locks.size + 1}`
+        locks.set(path, token)
+        return new HttpResponse(
+          `<?xml version="1.0" encoding="utf-8"?><D:prop xmlns:D="DAV:"><D:lockdiscovery><D:activelock><D:timeout>${request.headers.get('Timeout')}</D:timeout></D:activelock></D:lockdiscovery></D:prop>`,
+          { status: 200, headers: { 'Lock-Token': `<${token}>` } }
+        )
+      }
+
+      case 'UNLOCK': {
+        if (request.headers.get('Lock-Token') !== `<${locks.get(path)}>`) {
+          return new HttpResponse(null, { status: 409 })
+        }
+
+        locks.delete(path)
+        return new HttpResponse(null, { status: 204 })
+      }
+
+      case 'DELETE': {
+        return new HttpResponse(null, {
+          status: files.delete(path) ? 204 : 404,
+        })
+      }
+
+      default: {
+        return new HttpResponse(null, { status: 201 })
+      }
+    }
+  })
+}
+
 describe('WebDAVSyncAdapter', () => {
   let adapter: WebDAVSyncAdapter
   let serviceConfig: SyncServiceConfig<WebDAVCredentials, WebDAVTarget>
@@ -963,4 +1079,138 @@ describe('WebDAVSyncAdapter', () => {
       )
     })
   })
+
+  describe('versions', () => {
+    const filePath = getTestFilePath()
+    let files: Map<string, string>
+
+    beforeEach(async () => {
+      files = new Map([['/utags/other.json', '{}']])
+      server.use(createMemoryServerHandler(serviceConfig, files))
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(1_735_689_600_000)
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const uploadAt = async (timestamp: number, data: string) => {
+      vi.setSystemTime(timestamp)
+      await adapter.upload(data)
+    }
+
+    it('should not create backup copies if versionCount is not set', async () => {
+      await adapter.init(serviceConfig)
+
+      await uploadAt(1000, '{"v":1}')
+
+      expect([...files.keys()]).toEqual(['/utags/other.json', filePath])
+      expect(await adapter.listVersions()).toEqual([])
+    })
+
+    it('should create backup copies on upload and keep the newest ones', async () => {
+      serviceConfig.target.versionCount = 2
+      await adapter.init(serviceConfig)
+
+      await uploadAt(1000, '{"v":1}')
+      await uploadAt(2000, '{"v":2}')
+      await uploadAt(3000, '{"v":3}')
+
+      expect(await adapter.listVersions()).toEqual([
+        { id: '3000', timestamp: 3000 },
+        { id: '2000', timestamp: 2000 },
+      ])
+      expect(files.has('/utags/bookmarks.version-1000.json')).toBe(false)
+      expect(await adapter.downloadVersion('2000')).toBe('{"v":2}')
+      expect(await adapter.downloadVersion('1000')).toBeUndefined()
+    })
+
+    it('should return an empty list if the directory does not exist', async () => {
+      files.clear()
+      await adapter.init(serviceConfig)
+
+      expect(await adapter.listVersions()).toEqual([])
+    })
+
+    it('should not fail the upload if creating the backup copy fails', async () => {
+      serviceConfig.target.versionCount = 2
+      server.use(
+        http.all(`${serviceConfig.target.url}${filePath}`, ({ request }) =>
+          request.method.toUpperCase() === 'COPY'
+            ? new HttpResponse(null, { status: 500 })
+            : undefined
+        )
+      )
+      await adapter.init(serviceConfig)
+
+      await uploadAt(1000, '{"v":1}')
+
+      expect(files.get(filePath)).toBe('{"v":1}')
+      expect(await adapter.listVersions()).toEqual([])
+    })
+  })
+  describe('locking', () => {
+    const filePath = getTestFilePath()
+    let files: Map<string, string>
+    let locks: Map<string, string>
+
+    beforeEach(async () => {
+      files = new Map([[filePath, '{"v":1}']])
+      locks = new Map()
+      server.use(createMemoryServerHandler(serviceConfig, files, locks))
+      await adapter.init(serviceConfig)
+    })
+
+    it('should lock the remote file and upload with the lock token', async () => {
+      expect(await adapter.acquireLock()).toBe(true)
+      expect(locks.get(filePath)).toBe('opaquelocktoken:1')
+
+      await adapter.upload('{"v":2}')
+      expect(files.get(filePath)).toBe('{"v":2}')
+
+      await adapter.releaseLock()
+      expect(locks.size).toBe(0)
+    })
+
+    it('should not acquire a lock held by another client', async () => {
+      locks.set(filePath, 'opaquelocktoken:other')
+
+      expect(await adapter.acquireLock()).toBe(false)
+      await expect(adapter.upload('{"v":2}')).rejects.toThrow(
+        'WebDAV upload failed'
+      )
+      expect(files.get(filePath)).toBe('{"v":1}')
+    })
+
+    it('should not lock a file that does not exist yet', async () => {
+      files.clear()
+
+      expect(await adapter.acquireLock()).toBe(true)
+      expect(locks.size).toBe(0)
+      expect(files.size).toBe(0)
+      await adapter.releaseLock()
+    })
+
+    it('should upload without a lock if the server does not support locking', async () => {
+      server.use(
+        http.all(`${serviceConfig.target.url}${filePath}`, ({ request }) =>
+          request.method.toUpperCase() === 'LOCK'
+            ? new HttpResponse(null, { status: 405 })
+            : undefined
+        )
+      )
+
+      expect(await adapter.acquireLock()).toBe(true)
+      await adapter.upload('{"v":2}')
+      expect(files.get(filePath)).toBe('{"v":2}')
+    })
+
+    it('should ignore a failure to release the lock', async () => {
+      await adapter.acquireLock()
+      locks.set(filePath, 'opaquelocktoken:other')
+
+      await expect(adapter.releaseLock()).resolves.toBeUndefined()
+    })
+  })
 })
@@ -9,10 +9,22 @@ import type {
   SyncAdapter,
   SyncMetadata,
   SyncServiceConfig,
+  SyncVersion,
   WebDAVCredentials,
   WebDAVTarget,
 } from './types.js'
-import { buildSyncPath } from './sync-path-builder.js'
+import {
+  buildAppDataPath,
+  buildShardPath,
+  buildSyncPath,
+  buildVersionPath,
+} from './sync-path-builder.js'
+
+/**
+ * The timeout of the lock on the remote file in seconds.
+ * The server releases the lock of a device that crashed during an upload after this time.
+ */
+const lockTimeout = 120
 
 // eslint-disable-next-line @typescript-eslint/naming-convention
 export class WebDAVSyncAdapter
@@ -20,6 +32,8 @@ export class WebDAVSyncAdapter
 {
   private config: SyncServiceConfig<WebDAVCredentials, WebDAVTarget> | undefined
   private client: WebDAVClientType | undefined
+  // The lock held on the remote file, if any
+  private lock: { path: string; token: string } | undefined
 
   /**
    * Initializes the WebDAV sync adapter with the given configuration.
@@ -103,7 +117,9 @@ export class WebDAVSyncAdapter
       }
 
       console.error(`WebDAV getRemoteMetadata for ${filePath} failed:`, error)
-      throw new Error(`WebDAV getRemoteMetadata failed: ${error.message}`)
+      throw new Error(`WebDAV getRemoteMetadata failed: ${error.message}`, {
+        cause: error,
+      })
     }
   }
 
@@ -119,10 +135,284 @@ export class WebDAVSyncAdapter
       throw new Error('WebDAVSyncAdapter not initialized.')
     }
 
-    const filePath = this.getFilePath() // + Use getFilePath
+    return this.downloadFile(this.getFilePath())
+  }
+
+  /**
+   * Uploads data to the WebDAV server.
+   * @param data - The stringified data to upload.
+   * @param expectedRemoteMeta - Optional metadata of the remote file for optimistic locking.
+   * @returns A promise that resolves with the metadata of the uploaded file.
+   * @throws {Error} If the upload fails.
+   */
+  async upload(
+    data: string,
+    expectedRemoteMeta?: SyncMetadata
+  ): Promise<SyncMetadata> {
+    if (!this.client || !this.config) {
+      throw new Error('WebDAVAdapter not initialized. Call init() first.')
+    }
+
+    const filePath = this.getFilePath()
+    const remoteMeta = await this.uploadFile(filePath, data, expectedRemoteMeta)
+    if (this.config.target.versionCount) {
+      await this.saveVersion(filePath, this.config.target.versionCount)
+    }
+
+    return remoteMeta
+  }
+
+  /**
+   * Locks the remote file with a WebDAV LOCK, so other devices cannot upload until the lock is released.
+   * Succeeds without a lock if the file does not exist yet or the server does not support locking.
+   * @returns A promise that resolves to `false` if another client holds the lock, `true` otherwise.
+   * @throws {Error} If locking fails for another reason.
+   */
+  async acquireLock(): Promise<boolean> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    if (this.lock) {
+      return true
+    }
+
+    const filePath = this.getFilePath()
     try {
-      const stat = await this.client.stat(filePath)
-      const fileContents = (await this.client.getFileContents(filePath, {
+      // Locking a missing file would create an empty file, which other devices would download
+      await this.client.stat(filePath)
+    } catch (error: any) {
+      if (error.status === 404 || error.status === 409) {
+        return true
+      }
+
+      throw new Error(`WebDAV lock failed: ${error.message}`, { cause: error })
+    }
+
+    try {
+      const { token } = await this.client.lock(filePath, {
+        timeout: lockTimeout,
+        owner: 'UTags',
+      })
+      this.lock = { path: filePath, token }
+      return true
+    } catch (error: any) {
+      if (error.status === 423) {
+        console.warn(`WebDAV file ${filePath} is locked by another client.`)
+        return false
+      }
+
+      if (error.status === 405 || error.status === 501) {
+        console.warn(
+          `WebDAV server does not support locking (status: ${error.status}). Uploading without a lock.`
+        )
+        return true
+      }
+
+      console.error(`WebDAV lock of ${filePath} failed:`, error)
+      throw new Error(`WebDAV lock failed: ${error.message}`, { cause: error })
+    }
+  }
+
+  /**
+   * Releases the lock on the remote file. Failures are only logged, since the lock expires anyway.
+   * @returns A promise that resolves when the lock is released.
+   */
+  async releaseLock(): Promise<void> {
+    if (!this.client || !this.lock) {
+      return
+    }
+
+    const { path, token } = this.lock
+    this.lock = undefined
+    try {
+      await this.client.unlock(path, token)
+    } catch (error) {
+      console.warn(`WebDAV unlock of ${path} failed:`, error)
+    }
+  }
+
+  /**
+   * Downloads a shard file of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @returns A promise that resolves with the shard data, or undefined if not found.
+   */
+  async downloadShard(shardKey: string): Promise<string | undefined> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    const { data } = await this.downloadFile(
+      buildShardPath(this.getFilePath(), shardKey)
+    )
+    return data
+  }
+
+  /**
+   * Uploads a shard file of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @param data - The stringified shard data.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadShard(shardKey: string, data: string): Promise<void> {
+    if (!this.client || !this.config) {
+      throw new Error('WebDAVAdapter not initialized. Call init() first.')
+    }
+
+    await this.uploadFile(buildShardPath(this.getFilePath(), shardKey), data)
+  }
+
+  /**
+   * Downloads the app data file.
+   * @returns A promise that resolves with the app data, or undefined if not found.
+   */
+  async downloadAppData(): Promise<string | undefined> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    const { data } = await this.downloadFile(
+      buildAppDataPath(this.getFilePath())
+    )
+    return data
+  }
+
+  /**
+   * Uploads the app data file.
+   * @param data - The stringified app data.
+   * @throws {Error} If the upload fails.
+   */
+  async uploadAppData(data: string): Promise<void> {
+    if (!this.client || !this.config) {
+      throw new Error('WebDAVAdapter not initialized. Call init() first.')
+    }
+
+    await this.uploadFile(buildAppDataPath(this.getFilePath()), data)
+  }
+
+  /**
+   * Deletes a shard file of the sharded remote layout.
+   * @param shardKey - The key of the shard file.
+   * @throws {Error} If the deletion fails for a reason other than the file not existing.
+   */
+  async deleteShard(shardKey: string): Promise<void> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    const filePath = buildShardPath(this.getFilePath(), shardKey)
+    try {
+      await this.client.deleteFile(filePath)
+    } catch (error: any) {
+      if (error.status === 404) {
+        return
+      }
+
+      console.error(`WebDAV delete of ${filePath} failed:`, error)
+      throw new Error(`WebDAV delete failed: ${error.message}`)
+    }
+  }
+
+  /**
+   * Lists the timestamped backup copies of the remote file, which are created on upload if `versionCount` is set.
+   * @returns A promise that resolves with the versions of the remote file, newest first.
+   * @throws {Error} If listing the directory of the remote file fails.
+   */
+  async listVersions(): Promise<SyncVersion[]> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    const filePath = this.getFilePath()
+    const parentPath = filePath.slice(0, filePath.lastIndexOf('/')) || '/'
+    // Backup copies are named like the remote file, with the version ID before the extension
+    const versionPrefix = buildVersionPath(
+      filePath.slice(filePath.lastIndexOf('/') + 1),
+      ''
+    ).replace(/\.json$/, '')
+    let files: FileStat[]
+    try {
+      files = await this.client.getDirectoryContents(parentPath)
+    } catch (error: any) {
+      if (error.status === 404 || error.status === 409) {
+        return []
+      }
+
+      console.error(`WebDAV listing of ${parentPath} failed:`, error)
+      throw new Error(`WebDAV listing failed: ${error.message}`)
+    }
+
+    const versions: SyncVersion[] = []
+    for (const file of files) {
+      const filename = decodeURIComponent(file.basename)
+      const versionId = filename.startsWith(versionPrefix)
+        ? filename.slice(versionPrefix.length).replace(/\.json$/i, '')
+        : ''
+      if (file.type === 'file' && /^\d+$/.test(versionId)) {
+        versions.push({ id: versionId, timestamp: Number(versionId) })
+      }
+    }
+
+    return versions.sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  /**
+   * Downloads a timestamped backup copy of the remote file.
+   * @param versionId - The ID of the version.
+   * @returns A promise that resolves with the data of the version, or undefined if not found.
+   */
+  async downloadVersion(versionId: string): Promise<string | undefined> {
+    if (!this.client) {
+      throw new Error('WebDAVSyncAdapter not initialized.')
+    }
+
+    const { data } = await this.downloadFile(
+      buildVersionPath(this.getFilePath(), versionId)
+    )
+    return data
+  }
+
+  /**
+   * Checks the authentication status with the WebDAV server.
+   * @returns A promise that resolves with the AuthStatus.
+   */
+  async getAuthStatus(): Promise<AuthStatus> {
+    if (!this.client) {
+      // If client didn't even initialize (e.g. bad URL in config), it's a config issue
+      if (!this.config?.target?.url) return 'requires_config'
+      // If client init failed for other reasons, treat as error for now
+      return 'error'
+    }
+
+    try {
+      // Attempt a lightweight operation, like listing the root directory or STAT on root.
+      // Some servers might not allow listing root, so STAT might be better if path is known.
+      await this.client.stat('/') // Or use a known base path from config if applicable
+      return 'authenticated'
+    } catch (error: any) {
+      console.warn('WebDAV auth status check failed:', error)
+      if (error.status === 401) {
+        return 'unauthenticated'
+      }
+
+      // Other errors (network, server misconfiguration) are treated as 'error'
+      return 'error'
+    }
+  }
+
+  /**
+   * Downloads a file from the WebDAV server.
+   * @param filePath - The path of the file.
+   * @returns A promise that resolves with the downloaded data and its metadata.
+   */
+  private async downloadFile(filePath: string): Promise<{
+    data: string | undefined
+    remoteMeta: SyncMetadata | undefined
+  }> {
+    const client = this.client!
+    try {
+      const stat = await client.stat(filePath)
+      const fileContents = (await client.getFileContents(filePath, {
         format: 'text',
       })) as string
 
@@ -145,33 +435,33 @@ export class WebDAVSyncAdapter
       }
 
       console.error(`WebDAV download from ${filePath} failed:`, error)
-      throw new Error(`WebDAV download failed: ${error.message}`)
+      throw new Error(`WebDAV download failed: ${error.message}`, {
+        cause: error,
+      })
     }
   }
 
   /**
-   * Uploads data to the WebDAV server.
+   * Uploads a file to the WebDAV server, creating its parent directory if needed.
+   * @param filePath - The path of the file.
    * @param data - The stringified data to upload.
    * @param expectedRemoteMeta - Optional metadata of the remote file for optimistic locking.
    * @returns A promise that resolves with the metadata of the uploaded file.
    * @throws {Error} If the upload fails.
    */
-  async upload(
+  private async uploadFile(
+    filePath: string,
     data: string,
     expectedRemoteMeta?: SyncMetadata
   ): Promise<SyncMetadata> {
-    if (!this.client || !this.config) {
-      throw new Error('WebDAVAdapter not initialized. Call init() first.')
-    }
-
-    const filePath = this.getFilePath()
+    const client = this.client!
     // Get parent path using string manipulation for browser compatibility
     const parentPath = filePath.slice(0, Math.max(0, filePath.lastIndexOf('/')))
 
     try {
       // Check if parent directory exists, create if not
       try {
-        const testStat = await this.client.stat(parentPath)
+        const testStat = await client.stat(parentPath)
         if (testStat.type !== 'directory') {
           // Path component is a file, not a directory
           throw new Error(
@@ -183,7 +473,7 @@ export class WebDAVSyncAdapter
         if (error.status === 404 || error.status === 409) {
           // Directory does not exist, create it recursively
           try {
-            await this.client.createDirectory(parentPath, { recursive: true })
+            await client.createDirectory(parentPath, { recursive: true })
           } catch (createDirError: any) {
             // Throw a more specific error if directory creation fails
             console.error(
@@ -207,18 +497,24 @@ export class WebDAVSyncAdapter
             error
           )
           throw new Error(
-            `WebDAV upload failed: Error checking parent path '${parentPath}'. Original error: ${error.message || error}`
+            `WebDAV upload failed: Error checking parent path '${parentPath}'. Original error: ${error.message || error}`,
+            { cause: error }
           )
         }
       }
 
-      const options: PutFileContentsOptions = {}
+      const options: PutFileContentsOptions = { headers: {} }
       if (expectedRemoteMeta?.version) {
-        options.headers = { 'If-Match': expectedRemoteMeta.version }
+        options.headers!['If-Match'] = expectedRemoteMeta.version
+      }
+
+      // A locked file can only be written with the lock token
+      if (this.lock?.path === filePath) {
+        options.headers!.If = `(<${this.lock.token}>)`
       }
 
       try {
-        await this.client.putFileContents(filePath, data, options)
+        await client.putFileContents(filePath, data, options)
       } catch (error: any) {
         console.log(error)
         if (error.status === 412) {
@@ -234,12 +530,13 @@ export class WebDAVSyncAdapter
         }
 
         throw new Error(
-          `WebDAV upload failed: Failed to upload file to '${filePath}'. Original error: ${error.message || error}`
+          `WebDAV upload failed: Failed to upload file to '${filePath}'. Original error: ${error.message || error}`,
+          { cause: error }
         )
       }
 
       // After successful upload, get the new metadata (ETag and Last-Modified)
-      const stat = await this.client.stat(filePath)
+      const stat = await client.stat(filePath)
       return {
         version: stat.etag!,
         sha: stat.etag!, // Using ETag as SHA for WebDAV
@@ -253,35 +550,36 @@ export class WebDAVSyncAdapter
       }
 
       console.error(`WebDAV upload error for ${filePath}:`, error)
-      throw new Error(`WebDAV upload failed: ${error.message || error}`)
+      throw new Error(`WebDAV upload failed: ${error.message || error}`, {
+        cause: error,
+      })
     }
   }
 
   /**
-   * Checks the authentication status with the WebDAV server.
-   * @returns A promise that resolves with the AuthStatus.
+   * Copies the uploaded file to a timestamped backup copy, and deletes the oldest backup copies beyond the number to keep.
+   * Versions are a convenience, so failures are logged without failing the upload.
+   * @param filePath - The path of the uploaded file.
+   * @param versionCount - The number of backup copies to keep.
    */
-  async getAuthStatus(): Promise<AuthStatus> {
-    if (!this.client) {
-      // If client didn't even initialize (e.g. bad URL in config), it's a config issue
-      if (!this.config?.target?.url) return 'requires_config'
-      // If client init failed for other reasons, treat as error for now
-      return 'error'
-    }
-
+  private async saveVersion(
+    filePath: string,
+    versionCount: number
+  ): Promise<void> {
+    const client = this.client!
     try {
-      // Attempt a lightweight operation, like listing the root directory or STAT on root.
-      // Some servers might not allow listing root, so STAT might be better if path is known.
-      await this.client.stat('/') // Or use a known base path from config if applicable
-      return 'authenticated'
-    } catch (error: any) {
-      console.warn('WebDAV auth status check failed:', error)
-      if (error.status === 401) {
-        return 'unauthenticated'
-      }
+      await client.copyFile(
+        filePath,
+        buildVersionPath(filePath, String(Date.now()))
+      )
 
-      // Other errors (network, server misconfiguration) are treated as 'error'
-      return 'error'
+      const versions = await this.listVersions()
+      for (const version of versions.slice(versionCount)) {
+        // eslint-disable-next-line no-await-in-loop
+        await client.deleteFile(buildVersionPath(filePath, version.id))
+      }
+    } catch (error) {
+      console.warn(`WebDAV backup copy of ${filePath} failed:`, error)
     }
   }
 
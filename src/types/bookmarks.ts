@@ -222,6 +222,12 @@ export type BookmarksStore = {
      * Contains aggregated data and metrics for the bookmark collection.
      */
     stats?: BookmarkStats
+    /**
+     * Tombstones (soft-deleted bookmarks) last written before this timestamp were purged
+     * from this store. A device that last synced before it may have missed these deletions.
+     * Stored as milliseconds since epoch.
+     */
+    tombstonesPurgedBefore?: number
     /**
      * Information about the last device that uploaded data to this store.
      * This helps track sync operations across multiple devices.
@@ -0,0 +1,28 @@
+/**
+ * Encodes bytes as a base64 string.
+ * The binary string is built in chunks to avoid exceeding the argument limit for large data.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The base64 encoded string.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x80_00
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCodePoint(...bytes.subarray(i, i + chunkSize))
+  }
+
+  // eslint-disable-next-line no-restricted-globals
+  return btoa(binary)
+}
+
+/**
+ * Decodes a base64 string to bytes.
+ *
+ * @param base64 - The base64 encoded string.
+ * @returns The decoded bytes.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  // eslint-disable-next-line no-restricted-globals
+  return Uint8Array.from(atob(base64), (char) => char.codePointAt(0)!)
+}
@@ -261,3 +261,18 @@ export function isMarkedAsDeleted(
 
   return false
 }
+
+/**
+ * Checks if a bookmark was updated after another version of it was marked as deleted.
+ * With the `updateOverDelete` merge strategy, such a bookmark is kept over the deletion.
+ * @param {BookmarkTagsAndMetadata} data - The bookmark that is not deleted.
+ * @param {BookmarkTagsAndMetadata} deleted - The version of the bookmark marked as deleted.
+ * @returns {boolean} True if `data` was updated after the deletion, false otherwise.
+ */
+export function isUpdatedAfterDeletion(
+  data: BookmarkTagsAndMetadata,
+  deleted: BookmarkTagsAndMetadata
+): boolean {
+  const deletedAt = deleted.deletedMeta?.deleted
+  return deletedAt !== undefined && data.meta.updated > deletedAt
+}
@@ -18,20 +18,25 @@ export function prettyPrintJson(value: any): string {
  * @returns A JSON string representing the value with sensitive information masked.
  */
 export function prettyPrintJsonSafe(value: any): string {
-  const sensitiveFields = new Set([
-    'token',
-    'password',
-    'apiKey',
-    'api_key',
-    'accessToken',
-    'access_token',
-    'refreshToken',
-    'refresh_token',
-    'secret',
-    'key',
-    'privateKey',
-    'private_key',
-  ])
+  const sensitiveFields = new Set(
+    [
+      'token',
+      'password',
+      'apiKey',
+      'api_key',
+      'accessToken',
+      'access_token',
+      'refreshToken',
+      'refresh_token',
+      'secret',
+      'key',
+      'privateKey',
+      'private_key',
+      'encryptionPassphrase',
+      'secretAccessKey',
+      'sessionToken',
+    ].map((field) => field.toLowerCase())
+  )
 
   /**
    * Recursively masks sensitive fields in an object